@@ -0,0 +1,35 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Copies the single cost of the maintenances recorded before work orders into
+ * their actual cost, so that statistics and vendor reports keep counting them.
+ * An actual cost already set is left alone, so the script can be run again.
+ */
+async function main() {
+  console.log('💰 Backfilling maintenance costs...');
+
+  const maintenances = await prisma.maintenance.findMany({
+    where: { actualCost: null, legacyCost: { not: null } },
+    select: { id: true, legacyCost: true },
+  });
+
+  for (const maintenance of maintenances) {
+    await prisma.maintenance.update({
+      where: { id: maintenance.id },
+      data: { actualCost: maintenance.legacyCost },
+    });
+  }
+
+  console.log(`✅ ${maintenances.length} maintenance cost(s) copied`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Cost backfill failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,40 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+/**
+ * Moves the free-text parts list of the maintenances recorded before the
+ * parts inventory into their notes, where the history stays readable. The
+ * list is emptied once moved, so the script can be run again.
+ */
+async function main() {
+  console.log('🔩 Backfilling replaced parts into maintenance notes...');
+
+  const maintenances = await prisma.maintenance.findMany({
+    where: { partsReplaced: { isEmpty: false } },
+    select: { id: true, notes: true, partsReplaced: true },
+  });
+
+  for (const maintenance of maintenances) {
+    const parts = `Pieces remplacees : ${maintenance.partsReplaced.join(', ')}`;
+
+    await prisma.maintenance.update({
+      where: { id: maintenance.id },
+      data: {
+        notes: maintenance.notes ? `${maintenance.notes}\n${parts}` : parts,
+        partsReplaced: [],
+      },
+    });
+  }
+
+  console.log(`✅ ${maintenances.length} maintenance(s) updated`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Parts backfill failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,96 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// "  toyota   TOGO " and "Toyota Togo" are the same garage
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Links the maintenances recorded before the vendor registry to vendors. Each
+ * distinct provider name, compared without case or extra spaces, becomes a
+ * vendor unless one with that name exists already; the contacts noted on its
+ * maintenances are kept in the vendor notes. Maintenances already linked are
+ * left alone, so the script can be run again.
+ */
+async function main() {
+  console.log('🏭 Backfilling vendors from maintenance providers...');
+
+  const maintenances = await prisma.maintenance.findMany({
+    where: {
+      vendorId: null,
+      OR: [{ providerName: { not: null } }, { legacyVendor: { not: null } }],
+    },
+    select: { id: true, providerName: true, providerContact: true, legacyVendor: true },
+  });
+
+  const providers = new Map<
+    string,
+    { spellings: Map<string, number>; contacts: Set<string>; maintenanceIds: string[] }
+  >();
+
+  for (const maintenance of maintenances) {
+    const name = normalizeName(maintenance.providerName ?? maintenance.legacyVendor ?? '');
+    if (!name) {
+      continue;
+    }
+
+    const key = name.toLowerCase();
+    const provider = providers.get(key) ?? {
+      spellings: new Map<string, number>(),
+      contacts: new Set<string>(),
+      maintenanceIds: [],
+    };
+    provider.spellings.set(name, (provider.spellings.get(name) ?? 0) + 1);
+    if (maintenance.providerContact?.trim()) {
+      provider.contacts.add(maintenance.providerContact.trim());
+    }
+    provider.maintenanceIds.push(maintenance.id);
+    providers.set(key, provider);
+  }
+
+  let created = 0;
+  let linked = 0;
+
+  for (const provider of providers.values()) {
+    // The most used spelling names the vendor
+    const [name] = [...provider.spellings.entries()].sort((a, b) => b[1] - a[1])[0]!;
+
+    let vendor = await prisma.vendor.findFirst({
+      where: { name: { equals: name, mode: 'insensitive' } },
+      select: { id: true },
+    });
+
+    if (!vendor) {
+      vendor = await prisma.vendor.create({
+        data: {
+          name,
+          notes:
+            provider.contacts.size > 0
+              ? `Contacts repris des maintenances : ${[...provider.contacts].join(', ')}`
+              : undefined,
+        },
+        select: { id: true },
+      });
+      created++;
+    }
+
+    const result = await prisma.maintenance.updateMany({
+      where: { id: { in: provider.maintenanceIds }, vendorId: null },
+      data: { vendorId: vendor.id },
+    });
+    linked += result.count;
+  }
+
+  console.log(`✅ ${created} vendor(s) created, ${linked} maintenance(s) linked`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Vendor backfill failed:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -1,4 +1,4 @@
-import { PrismaClient, Role, VehicleStatus, VehicleType, FuelType, Transmission, ReservationStatus, MaintenanceStatus, MaintenanceType, Priority, NotificationType } from '@prisma/client';
+import { PrismaClient, Role, VehicleStatus, VehicleType, FuelType, Transmission, ReservationStatus, MaintenanceStatus, MaintenanceType, MaintenanceLineType, Priority, NotificationType } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 
 const prisma = new PrismaClient();
@@ -12,9 +12,15 @@ async function main() {
   await prisma.notificationPreference.deleteMany();
   await prisma.notification.deleteMany();
   await prisma.reservationHistory.deleteMany();
+  await prisma.incident.deleteMany();
+  await prisma.fuelLog.deleteMany();
+  await prisma.odometerReading.deleteMany();
   await prisma.reservation.deleteMany();
+  await prisma.maintenanceLine.deleteMany();
+  await prisma.maintenancePart.deleteMany();
   await prisma.maintenance.deleteMany();
-  await prisma.incident.deleteMany();
+  await prisma.maintenancePlan.deleteMany();
+  await prisma.vendor.deleteMany();
   await prisma.document.deleteMany();
   await prisma.favoriteVehicle.deleteMany();
   await prisma.vehiclePhoto.deleteMany();
@@ -22,6 +28,8 @@ async function main() {
   await prisma.session.deleteMany();
   await prisma.user.deleteMany();
   await prisma.department.deleteMany();
+  await prisma.partStock.deleteMany();
+  await prisma.part.deleteMany();
   await prisma.location.deleteMany();
   await prisma.setting.deleteMany();
   await prisma.holiday.deleteMany();
@@ -76,6 +84,7 @@ async function main() {
         city: 'Lome',
         latitude: 6.1319,
         longitude: 1.2228,
+        capacity: 20,
       },
     }),
     prisma.location.create({
@@ -85,6 +94,7 @@ async function main() {
         city: 'Kara',
         latitude: 9.5511,
         longitude: 1.1861,
+        capacity: 6,
       },
     }),
     prisma.location.create({
@@ -94,6 +104,7 @@ async function main() {
         city: 'Sokode',
         latitude: 8.9833,
         longitude: 1.1333,
+        capacity: 4,
       },
     }),
   ]);
@@ -545,6 +556,51 @@ async function main() {
     }),
   ]);
 
+  // Create vendors
+  console.log('🏭 Creating vendors...');
+  const vendors = await Promise.all([
+    prisma.vendor.create({
+      data: {
+        name: 'Toyota Togo',
+        specialties: ['Mecanique', 'Entretien constructeur'],
+        phone: '+228 22 21 00 00',
+        address: 'Boulevard du Mono, Lome',
+        laborRate: 15000,
+        contractRef: 'CTR-2024-TOY',
+        contacts: {
+          create: [{ name: 'Kossi Agbeko', role: 'Chef d\'atelier', isPrimary: true }],
+        },
+        locations: { connect: [{ id: locations[0].id }, { id: locations[1].id }] },
+      },
+    }),
+    prisma.vendor.create({
+      data: {
+        name: 'Auto Parts Lome',
+        specialties: ['Freinage', 'Mecanique'],
+        phone: '+228 22 25 10 10',
+        laborRate: 9000,
+        locations: { connect: [{ id: locations[0].id }] },
+      },
+    }),
+    prisma.vendor.create({
+      data: {
+        name: 'Michelin Togo',
+        specialties: ['Pneumatiques'],
+        phone: '+228 22 26 30 30',
+        locations: { connect: [{ id: locations[0].id }, { id: locations[2].id }] },
+      },
+    }),
+    prisma.vendor.create({
+      data: {
+        name: 'Mercedes Togo',
+        specialties: ['Diagnostic electronique', 'Entretien constructeur'],
+        phone: '+228 22 27 40 40',
+        laborRate: 20000,
+        locations: { connect: [{ id: locations[0].id }] },
+      },
+    }),
+  ]);
+
   // Create maintenances
   console.log('🔧 Creating maintenances...');
   await Promise.all([
@@ -556,8 +612,8 @@ async function main() {
         priority: Priority.MEDIUM,
         status: MaintenanceStatus.IN_PROGRESS,
         scheduledDate: now,
-        cost: 250000,
-        vendor: 'Toyota Togo',
+        estimatedCost: 250000,
+        vendorId: vendors[0].id,
         createdById: users[1].id,
         assignedToId: users[6].id,
       },
@@ -582,8 +638,42 @@ async function main() {
         status: MaintenanceStatus.COMPLETED,
         scheduledDate: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000),
         completedDate: new Date(now.getTime() - 6 * 24 * 60 * 60 * 1000),
-        cost: 85000,
-        vendor: 'Auto Parts Lome',
+        estimatedCost: 80000,
+        actualCost: 85550,
+        vendorId: vendors[1].id,
+        lines: {
+          create: [
+            {
+              type: MaintenanceLineType.LABOR,
+              description: 'Depose et pose des plaquettes',
+              quantity: 2,
+              unitPrice: 9000,
+              amount: 18000,
+            },
+            {
+              type: MaintenanceLineType.PART,
+              description: 'Jeu de plaquettes avant et arriere',
+              quantity: 2,
+              unitPrice: 24000,
+              amount: 48000,
+            },
+            {
+              type: MaintenanceLineType.CONSUMABLE,
+              description: 'Liquide de frein',
+              quantity: 1,
+              unitPrice: 6500,
+              amount: 6500,
+            },
+            {
+              type: MaintenanceLineType.TAX,
+              description: 'TVA 18%',
+              quantity: 1,
+              unitPrice: 13050,
+              taxRate: 18,
+              amount: 13050,
+            },
+          ],
+        },
         createdById: users[1].id,
         notes: 'Plaquettes avant et arriere remplacees',
       },
@@ -596,8 +686,8 @@ async function main() {
         priority: Priority.MEDIUM,
         status: MaintenanceStatus.SCHEDULED,
         scheduledDate: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000),
-        cost: 480000,
-        vendor: 'Michelin Togo',
+        estimatedCost: 480000,
+        vendorId: vendors[2].id,
         createdById: users[1].id,
       },
     }),
@@ -621,14 +711,96 @@ async function main() {
         status: MaintenanceStatus.COMPLETED,
         scheduledDate: new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000),
         completedDate: new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000),
-        cost: 35000,
-        vendor: 'Mercedes Togo',
+        actualCost: 35000,
+        vendorId: vendors[3].id,
+        lines: {
+          create: [
+            {
+              type: MaintenanceLineType.LABOR,
+              description: 'Diagnostic valise constructeur',
+              quantity: 1.75,
+              unitPrice: 20000,
+              amount: 35000,
+            },
+          ],
+        },
         createdById: users[1].id,
         notes: 'RAS - Vehicule en bon etat',
       },
     }),
   ]);
 
+  // Create preventive maintenance plans
+  console.log('🗓️ Creating maintenance plans...');
+  await Promise.all([
+    prisma.maintenancePlan.create({
+      data: {
+        name: 'Vidange',
+        description: 'Huile moteur et filtre a huile',
+        intervalKm: 10000,
+        intervalMonths: 12,
+        createdById: users[1].id,
+      },
+    }),
+    prisma.maintenancePlan.create({
+      data: {
+        name: 'Inspection generale',
+        description: 'Freins, pneus, eclairage et niveaux',
+        intervalMonths: 6,
+        createdById: users[1].id,
+      },
+    }),
+    prisma.maintenancePlan.create({
+      data: {
+        name: 'Revision utilitaires',
+        vehicleType: VehicleType.UTILITY,
+        intervalKm: 20000,
+        createdById: users[1].id,
+      },
+    }),
+  ]);
+
+  // Create spare parts and their stock
+  console.log('🔩 Creating spare parts...');
+  const parts = await Promise.all([
+    prisma.part.create({
+      data: {
+        sku: 'FLT-HUI-TOY',
+        name: 'Filtre a huile',
+        compatibleModels: ['Toyota'],
+        unitCost: 6500,
+        reorderLevel: 4,
+      },
+    }),
+    prisma.part.create({
+      data: {
+        sku: 'HUI-5W30-5L',
+        name: 'Huile moteur 5W30 (5 L)',
+        unitCost: 27000,
+        reorderLevel: 6,
+      },
+    }),
+    prisma.part.create({
+      data: {
+        sku: 'PLQ-FRN-HLX',
+        name: 'Plaquettes de frein avant',
+        compatibleModels: ['Toyota Hilux', 'Toyota Land Cruiser Prado'],
+        unitCost: 38000,
+        reorderLevel: 2,
+      },
+    }),
+  ]);
+
+  await prisma.partStock.createMany({
+    data: [
+      { partId: parts[0].id, locationId: locations[0].id, quantity: 12 },
+      { partId: parts[0].id, locationId: locations[1].id, quantity: 3 },
+      { partId: parts[1].id, locationId: locations[0].id, quantity: 20 },
+      { partId: parts[1].id, locationId: locations[1].id, quantity: 5 },
+      { partId: parts[2].id, locationId: locations[0].id, quantity: 4 },
+    ],
+  });
+
   // Create notifications
   console.log('🔔 Creating notifications...');
   await Promise.all([
@@ -691,8 +863,15 @@ async function main() {
     }),
     prisma.setting.create({
       data: {
-        key: 'max_reservation_days',
-        value: JSON.parse('30'),
+        key: 'booking.policy',
+        value: {
+          minNoticeHours: 2,
+          maxDurationDays: 30,
+          maxAdvanceDays: 90,
+          bookingHours: { start: '07:00', end: '19:00' },
+          blockHolidays: true,
+          weekendRoles: ['SUPER_ADMIN', 'ADMIN', 'MANAGER', 'DRIVER'],
+        },
       },
     }),
     prisma.setting.create({
@@ -701,12 +880,6 @@ async function main() {
         value: JSON.parse('true'),
       },
     }),
-    prisma.setting.create({
-      data: {
-        key: 'working_hours',
-        value: JSON.parse('{"start": "08:00", "end": "17:00"}'),
-      },
-    }),
     prisma.setting.create({
       data: {
         key: 'notification_email',
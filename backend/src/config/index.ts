@@ -54,6 +54,9 @@ const envSchema = z.object({
 
   // 2FA
   TWO_FACTOR_APP_NAME: z.string().default('TogoDataLab Vehicles'),
+
+  // Reservations
+  NO_SHOW_GRACE_MINUTES: z.string().default('60').transform(Number),
 });
 
 const envResult = envSchema.safeParse(rawEnv);
@@ -98,6 +101,9 @@ export const config = {
   twoFactor: {
     appName: envResult.data.TWO_FACTOR_APP_NAME,
   },
+  reservations: {
+    noShowGraceMinutes: envResult.data.NO_SHOW_GRACE_MINUTES,
+  },
   isDevelopment: envResult.data.NODE_ENV === 'development',
   isProduction: envResult.data.NODE_ENV === 'production',
   isTest: envResult.data.NODE_ENV === 'test',
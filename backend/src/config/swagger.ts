@@ -150,7 +150,24 @@ const options: swaggerJsdoc.Options = {
             destination: { type: 'string' },
             status: {
               type: 'string',
-              enum: ['DRAFT', 'PENDING', 'APPROVED', 'REJECTED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED'],
+              enum: ['DRAFT', 'PENDING', 'APPROVED', 'REJECTED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'NO_SHOW', 'EXPIRED'],
+            },
+          },
+        },
+        ConflictResolutions: {
+          type: 'array',
+          description: 'One entry per reservation overlapping the maintenance window',
+          items: {
+            type: 'object',
+            required: ['reservationId', 'action'],
+            properties: {
+              reservationId: { type: 'string', format: 'uuid' },
+              action: { type: 'string', enum: ['REASSIGN', 'CANCEL'] },
+              vehicleId: {
+                type: 'string',
+                format: 'uuid',
+                description: 'Replacement vehicle, the best ranked free one when omitted',
+              },
             },
           },
         },
@@ -164,6 +181,20 @@ const options: swaggerJsdoc.Options = {
       { name: 'Maintenances', description: 'Maintenance tracking endpoints' },
       { name: 'Notifications', description: 'Notification endpoints' },
       { name: 'Dashboard', description: 'Dashboard and analytics endpoints' },
+      { name: 'Waitlist', description: 'Waitlist for fully booked vehicles' },
+      { name: 'Scan', description: 'Vehicle QR code scanning' },
+      { name: 'Locations', description: 'Sites where vehicles are based' },
+      { name: 'Departments', description: 'Departments, managers and their spend' },
+      { name: 'Settings', description: 'System settings' },
+      { name: 'Holidays', description: 'Holiday calendar closing reservation days' },
+      { name: 'Incidents', description: 'Incident reports, triage and escalation to maintenance' },
+      { name: 'Fuel', description: 'Refuel log and measured consumption' },
+      {
+        name: 'Maintenance Plans',
+        description: 'Preventive maintenance scheduled by mileage and time interval',
+      },
+      { name: 'Parts', description: 'Spare parts catalogue and stock per location' },
+      { name: 'Vendors', description: 'Garages and service providers with their performance' },
     ],
   },
   apis: ['./src/routes/*.ts'],
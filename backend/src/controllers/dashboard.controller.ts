@@ -8,7 +8,9 @@ export async function getDashboardStats(
   next: NextFunction
 ): Promise<void> {
   try {
-    const stats = await dashboardService.getDashboardStats();
+    const stats = await dashboardService.getDashboardStats(
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -26,7 +28,10 @@ export async function getReservationTrends(
 ): Promise<void> {
   try {
     const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
-    const trends = await dashboardService.getReservationTrends(days);
+    const trends = await dashboardService.getReservationTrends(
+      days,
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -43,7 +48,9 @@ export async function getVehicleUtilization(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await dashboardService.getVehicleUtilization();
+    const data = await dashboardService.getVehicleUtilization(
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -60,7 +67,9 @@ export async function getReservationsByStatus(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await dashboardService.getReservationsByStatus();
+    const data = await dashboardService.getReservationsByStatus(
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -77,7 +86,9 @@ export async function getReservationsByDepartment(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await dashboardService.getReservationsByDepartment();
+    const data = await dashboardService.getReservationsByDepartment(
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -94,7 +105,9 @@ export async function getVehiclesByType(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await dashboardService.getVehiclesByType();
+    const data = await dashboardService.getVehiclesByType(
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -111,7 +124,9 @@ export async function getVehiclesByStatus(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await dashboardService.getVehiclesByStatus();
+    const data = await dashboardService.getVehiclesByStatus(
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -149,7 +164,10 @@ export async function getMonthlyStats(
     const months = req.query.months
       ? parseInt(req.query.months as string, 10)
       : 12;
-    const data = await dashboardService.getMonthlyStats(months);
+    const data = await dashboardService.getMonthlyStats(
+      months,
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -166,7 +184,28 @@ export async function getMaintenanceOverview(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await dashboardService.getMaintenanceOverview();
+    const data = await dashboardService.getMaintenanceOverview(
+      req.query.locationId as string | undefined
+    );
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getFuelOverview(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await dashboardService.getFuelOverview(
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -219,7 +258,10 @@ export async function getExpiringDocuments(
 ): Promise<void> {
   try {
     const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
-    const data = await dashboardService.getExpiringDocuments(days);
+    const data = await dashboardService.getExpiringDocuments(
+      days,
+      req.query.locationId as string | undefined
+    );
 
     res.status(200).json({
       success: true,
@@ -0,0 +1,184 @@
+import { Response, NextFunction } from 'express';
+import * as departmentService from '../services/department.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getDepartments(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const departments = await departmentService.getDepartments(
+      req.query as unknown as Parameters<typeof departmentService.getDepartments>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: departments,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getDepartmentById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const department = await departmentService.getDepartmentById(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      data: department,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createDepartment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const department = await departmentService.createDepartment(req.body, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Department created successfully',
+      data: department,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateDepartment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const department = await departmentService.updateDepartment(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Department updated successfully',
+      data: department,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deactivateDepartment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const result = await departmentService.deactivateDepartment(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Department deactivated successfully',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reactivateDepartment(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const department = await departmentService.reactivateDepartment(
+      req.params.id as string,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Department reactivated successfully',
+      data: department,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getDepartmentMembers(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const members = await departmentService.getDepartmentMembers(
+      req.params.id as string,
+      req.user!
+    );
+
+    res.status(200).json({
+      success: true,
+      data: members,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getDepartmentReservations(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const result = await departmentService.getDepartmentReservations(
+      req.params.id as string,
+      req.query as unknown as Parameters<typeof departmentService.getDepartmentReservations>[1],
+      req.user!
+    );
+
+    res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getDepartmentSpend(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const spend = await departmentService.getDepartmentSpend(
+      req.params.id as string,
+      req.query as unknown as Parameters<typeof departmentService.getDepartmentSpend>[1],
+      req.user!
+    );
+
+    res.status(200).json({
+      success: true,
+      data: spend,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
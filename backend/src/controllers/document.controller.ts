@@ -0,0 +1,181 @@
+import { Response, NextFunction } from 'express';
+import * as documentService from '../services/document.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getVehicleDocuments(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const documents = await documentService.getVehicleDocuments(
+      req.params.id as string,
+      req.query as unknown as Parameters<typeof documentService.getVehicleDocuments>[1]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: documents,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function uploadVehicleDocument(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'No file uploaded',
+      });
+      return;
+    }
+
+    const document = await documentService.uploadVehicleDocument(
+      req.params.id as string,
+      req.file,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Document uploaded successfully',
+      data: document,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function addDocumentVersion(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'No file uploaded',
+      });
+      return;
+    }
+
+    const document = await documentService.addDocumentVersion(
+      req.params.id as string,
+      req.params.documentId as string,
+      req.file,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'New document version uploaded successfully',
+      data: document,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getDocumentVersions(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const versions = await documentService.getDocumentVersions(
+      req.params.id as string,
+      req.params.documentId as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: versions,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateDocument(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const document = await documentService.updateDocument(
+      req.params.id as string,
+      req.params.documentId as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Document updated successfully',
+      data: document,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteDocument(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await documentService.deleteDocument(
+      req.params.id as string,
+      req.params.documentId as string,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Document deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function uploadMaintenanceInvoice(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'No file uploaded',
+      });
+      return;
+    }
+
+    const document = await documentService.uploadMaintenanceInvoice(
+      req.params.id as string,
+      req.file,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Invoice uploaded successfully',
+      data: document,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
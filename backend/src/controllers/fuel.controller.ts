@@ -0,0 +1,50 @@
+import { Response, NextFunction } from 'express';
+import * as fuelService from '../services/fuel.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function createFuelLog(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    // The receipt photo is optional
+    const receiptUrl = req.file ? `/uploads/${req.file.filename}` : undefined;
+
+    const fuelLog = await fuelService.createFuelLog(
+      req.body,
+      receiptUrl,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Refuel recorded successfully',
+      data: fuelLog,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getFuelLogs(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const result = await fuelService.getFuelLogs(
+      req.query as unknown as Parameters<typeof fuelService.getFuelLogs>[0],
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
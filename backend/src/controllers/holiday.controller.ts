@@ -0,0 +1,146 @@
+import { Response, NextFunction } from 'express';
+import * as holidayService from '../services/holiday.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getHolidays(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const holidays = await holidayService.getHolidays(
+      req.query as unknown as Parameters<typeof holidayService.getHolidays>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: holidays,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getHolidayCalendar(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const calendar = await holidayService.getHolidayCalendar(
+      req.query as unknown as Parameters<typeof holidayService.getHolidayCalendar>[0],
+      req.user!.role
+    );
+
+    res.status(200).json({
+      success: true,
+      data: calendar,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getHolidayById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const holiday = await holidayService.getHolidayById(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      data: holiday,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createHoliday(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const holiday = await holidayService.createHoliday(req.body, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Holiday created successfully',
+      data: holiday,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateHoliday(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const holiday = await holidayService.updateHoliday(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Holiday updated successfully',
+      data: holiday,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteHoliday(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await holidayService.deleteHoliday(req.params.id as string, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Holiday deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function importHolidays(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'No file uploaded',
+      });
+      return;
+    }
+
+    const result = await holidayService.importHolidays(
+      req.file,
+      req.query as unknown as Parameters<typeof holidayService.importHolidays>[1],
+      req.user!.id
+    );
+
+    res.status(result.dryRun ? 200 : 201).json({
+      success: true,
+      message: result.dryRun ? 'Import preview' : 'Holidays imported successfully',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
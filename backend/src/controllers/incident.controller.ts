@@ -0,0 +1,154 @@
+import { Response, NextFunction } from 'express';
+import * as incidentService from '../services/incident.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function reportIncident(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const photos = files.map((file) => `/uploads/${file.filename}`);
+
+    const incident = await incidentService.reportIncident(
+      req.body,
+      photos,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Incident reported successfully',
+      data: incident,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getIncidents(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const result = await incidentService.getIncidents(
+      req.query as unknown as Parameters<typeof incidentService.getIncidents>[0],
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getIncidentSummary(
+  _req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const summary = await incidentService.getIncidentSummary();
+
+    res.status(200).json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getIncidentById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const incident = await incidentService.getIncidentById(
+      req.params.id as string,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(200).json({
+      success: true,
+      data: incident,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateIncident(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const incident = await incidentService.updateIncident(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Incident updated successfully',
+      data: incident,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resolveIncident(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const incident = await incidentService.resolveIncident(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Incident resolved successfully',
+      data: incident,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function escalateIncident(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const incident = await incidentService.escalateIncident(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Vehicle sent to corrective maintenance',
+      data: incident,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,135 @@
+import { Response, NextFunction } from 'express';
+import * as locationService from '../services/location.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getLocations(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const locations = await locationService.getLocations(
+      req.query as unknown as Parameters<typeof locationService.getLocations>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: locations,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getLocationById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const location = await locationService.getLocationById(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createLocation(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const location = await locationService.createLocation(req.body, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Location created successfully',
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateLocation(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const location = await locationService.updateLocation(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Location updated successfully',
+      data: location,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteLocation(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await locationService.deleteLocation(req.params.id as string, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Location deactivated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getLocationSummaries(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const summaries = await locationService.getLocationSummaries(
+      req.query as unknown as Parameters<typeof locationService.getLocationSummaries>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: summaries,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getLocationSummary(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const [summary] = await locationService.getLocationSummaries(
+      req.query as unknown as Parameters<typeof locationService.getLocationSummaries>[0],
+      req.params.id as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: summary,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
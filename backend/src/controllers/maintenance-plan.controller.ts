@@ -0,0 +1,115 @@
+import { Response, NextFunction } from 'express';
+import * as maintenancePlanService from '../services/maintenance-plan.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getMaintenancePlans(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const plans = await maintenancePlanService.getMaintenancePlans(
+      req.query as unknown as Parameters<typeof maintenancePlanService.getMaintenancePlans>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: plans,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getMaintenancePlanById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const plan = await maintenancePlanService.getMaintenancePlanById(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createMaintenancePlan(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const plan = await maintenancePlanService.createMaintenancePlan(req.body, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Maintenance plan created successfully',
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateMaintenancePlan(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const plan = await maintenancePlanService.updateMaintenancePlan(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Maintenance plan updated successfully',
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteMaintenancePlan(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await maintenancePlanService.deleteMaintenancePlan(req.params.id as string, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Maintenance plan deactivated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getVehicleNextServices(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const services = await maintenancePlanService.getVehicleNextServices(
+      req.params.id as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: services,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
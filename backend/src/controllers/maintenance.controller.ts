@@ -42,6 +42,42 @@ export async function getMaintenances(
   }
 }
 
+export async function getMaintenanceConflicts(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const conflicts = await maintenanceService.getMaintenanceConflicts(
+      req.query as unknown as Parameters<typeof maintenanceService.getMaintenanceConflicts>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: conflicts,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getStartConflicts(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const conflicts = await maintenanceService.getStartConflicts(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      data: conflicts,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function getMaintenanceById(
   req: AuthenticatedRequest,
   res: Response,
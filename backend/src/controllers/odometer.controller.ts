@@ -0,0 +1,46 @@
+import { Response, NextFunction } from 'express';
+import * as odometerService from '../services/odometer.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getOdometerReadings(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const result = await odometerService.getOdometerReadings(
+      req.params.id as string,
+      req.query as unknown as Parameters<typeof odometerService.getOdometerReadings>[1]
+    );
+
+    res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function correctOdometerReading(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reading = await odometerService.correctOdometerReading(
+      req.params.id as string,
+      req.params.readingId as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Odometer reading corrected successfully',
+      data: reading,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
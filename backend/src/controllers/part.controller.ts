@@ -0,0 +1,144 @@
+import { Response, NextFunction } from 'express';
+import * as partService from '../services/part.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getParts(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const parts = await partService.getParts(
+      req.query as unknown as Parameters<typeof partService.getParts>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: parts,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getLowStock(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entries = await partService.getLowStock();
+
+    res.status(200).json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getPartById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const part = await partService.getPartById(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      data: part,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createPart(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const part = await partService.createPart(req.body, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Part created successfully',
+      data: part,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updatePart(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const part = await partService.updatePart(req.params.id as string, req.body, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Part updated successfully',
+      data: part,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deletePart(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await partService.deletePart(req.params.id as string, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Part deactivated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function adjustStock(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const part = await partService.adjustStock(req.params.id as string, req.body, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Stock updated successfully',
+      data: part,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getVehicleParts(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const usages = await partService.getVehicleParts(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      data: usages,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -23,6 +23,26 @@ export async function createReservation(
   }
 }
 
+export async function validateReservation(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const result = await reservationService.validateReservation(
+      req.body,
+      req.user!.role
+    );
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function getReservations(
   req: AuthenticatedRequest,
   res: Response,
@@ -65,6 +85,27 @@ export async function getReservationById(
   }
 }
 
+export async function getSeriesReservations(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reservations = await reservationService.getSeriesReservations(
+      req.params.id as string,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(200).json({
+      success: true,
+      data: reservations,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function updateReservation(
   req: AuthenticatedRequest,
   res: Response,
@@ -110,6 +151,138 @@ export async function approveReservation(
   }
 }
 
+export async function getAllocationCandidates(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const candidates = await reservationService.getAllocationCandidates(
+      req.params.id as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: candidates,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function reassignVehicle(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reservation = await reservationService.reassignVehicle(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Reservation vehicle changed',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function swapVehicle(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reservation = await reservationService.swapVehicle(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Replacement vehicle assigned',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function requestExtension(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reservation = await reservationService.requestExtension(
+      req.params.id as string,
+      req.body,
+      req.user!.id,
+      req.user!.role
+    );
+
+    res.status(200).json({
+      success: true,
+      message: reservation.requestedEndDate
+        ? 'Extension submitted for approval'
+        : 'Reservation extended',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function approveExtension(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reservation = await reservationService.approveExtension(
+      req.params.id as string,
+      req.user!.id,
+      req.body.comment
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Extension approved',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function rejectExtension(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reservation = await reservationService.rejectExtension(
+      req.params.id as string,
+      req.user!.id,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Extension rejected',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 export async function rejectReservation(
   req: AuthenticatedRequest,
   res: Response,
@@ -141,12 +314,14 @@ export async function cancelReservation(
     const reservation = await reservationService.cancelReservation(
       req.params.id as string,
       req.user!.id,
-      req.body.reason
+      req.body.reason,
+      req.body.scope
     );
 
     res.status(200).json({
       success: true,
-      message: 'Reservation cancelled',
+      message:
+        req.body.scope === 'series' ? 'Reservation series cancelled' : 'Reservation cancelled',
       data: reservation,
     });
   } catch (error) {
@@ -0,0 +1,64 @@
+import { Response, NextFunction } from 'express';
+import * as qrService from '../services/qr.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function resolveScan(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const result = await qrService.resolveScan(req.params.qrCode as string, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function scanCheckIn(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reservation = await qrService.scanCheckIn(
+      req.params.qrCode as string,
+      req.user!.id,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Check-in successful',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function scanCheckOut(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reservation = await qrService.scanCheckOut(
+      req.params.qrCode as string,
+      req.user!.id,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Check-out successful',
+      data: reservation,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,56 @@
+import { Response, NextFunction } from 'express';
+import * as settingsService from '../services/settings.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getSettings(
+  _req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const settings = await settingsService.getSettings();
+
+    res.status(200).json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateSettings(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const settings = await settingsService.updateSettings(req.body, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Settings updated successfully',
+      data: settings,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function resetSetting(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const settings = await settingsService.resetSetting(req.params.key as string, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Setting reset to its default',
+      data: settings,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,5 +1,7 @@
 import { Response, NextFunction } from 'express';
 import * as vehicleService from '../services/vehicle.service.js';
+import * as qrService from '../services/qr.service.js';
+import * as spreadsheetService from '../services/vehicle-spreadsheet.service.js';
 import type { AuthenticatedRequest } from '../validators/index.js';
 
 export async function createVehicle(
@@ -105,7 +107,8 @@ export async function updateVehicleStatus(
       req.params.id as string,
       req.body.status,
       req.user!.id,
-      req.body.reason
+      req.body.reason,
+      req.body.until ? new Date(req.body.until) : undefined
     );
 
     res.status(200).json({
@@ -146,11 +149,12 @@ export async function getAvailableVehicles(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { startDate, endDate, type } = req.query;
+    const { startDate, endDate, type, locationId } = req.query;
     const vehicles = await vehicleService.getAvailableVehicles(
       new Date(startDate as string),
       new Date(endDate as string),
-      type as string | undefined
+      type as string | undefined,
+      locationId as string | undefined
     );
 
     res.status(200).json({
@@ -264,3 +268,90 @@ export async function getFavorites(
     next(error);
   }
 }
+
+export async function getVehicleQrCode(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const qr = await qrService.renderVehicleQrCode(
+      req.params.id as string,
+      req.query as unknown as Parameters<typeof qrService.renderVehicleQrCode>[1]
+    );
+
+    res
+      .status(200)
+      .type(qr.contentType)
+      .attachment(qr.filename)
+      .send(qr.body);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getQrStickerSheet(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const html = await qrService.renderQrStickerSheet(
+      req.query as unknown as Parameters<typeof qrService.renderQrStickerSheet>[0]
+    );
+
+    res.status(200).type('html').send(html);
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function importVehicles(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        message: 'No file uploaded',
+      });
+      return;
+    }
+
+    const result = await spreadsheetService.importVehicles(
+      req.file,
+      req.query as unknown as Parameters<typeof spreadsheetService.importVehicles>[1],
+      req.user!.id
+    );
+
+    res.status(result.dryRun ? 200 : 201).json({
+      success: true,
+      message: result.dryRun ? 'Import preview' : 'Vehicles imported successfully',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function exportVehicles(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const file = await spreadsheetService.exportVehicles(
+      req.query as unknown as Parameters<typeof spreadsheetService.exportVehicles>[0]
+    );
+
+    res
+      .status(200)
+      .type(file.contentType)
+      .attachment(file.filename)
+      .send(file.body);
+  } catch (error) {
+    next(error);
+  }
+}
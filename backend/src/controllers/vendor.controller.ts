@@ -0,0 +1,135 @@
+import { Response, NextFunction } from 'express';
+import * as vendorService from '../services/vendor.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function getVendors(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const vendors = await vendorService.getVendors(
+      req.query as unknown as Parameters<typeof vendorService.getVendors>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: vendors,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getVendorReports(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reports = await vendorService.getVendorReports(
+      req.query as unknown as Parameters<typeof vendorService.getVendorReports>[0]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: reports,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getVendorById(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const vendor = await vendorService.getVendorById(req.params.id as string);
+
+    res.status(200).json({
+      success: true,
+      data: vendor,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getVendorReport(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const [report] = await vendorService.getVendorReports(
+      req.query as unknown as Parameters<typeof vendorService.getVendorReports>[0],
+      req.params.id as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function createVendor(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const vendor = await vendorService.createVendor(req.body, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Vendor created successfully',
+      data: vendor,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function updateVendor(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const vendor = await vendorService.updateVendor(
+      req.params.id as string,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Vendor updated successfully',
+      data: vendor,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function deleteVendor(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    await vendorService.deleteVendor(req.params.id as string, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Vendor deactivated successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,83 @@
+import { Response, NextFunction } from 'express';
+import * as waitlistService from '../services/waitlist.service.js';
+import type { AuthenticatedRequest } from '../validators/index.js';
+
+export async function joinWaitlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entry = await waitlistService.joinWaitlist(req.body, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Added to the waitlist',
+      data: entry,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function getMyWaitlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entries = await waitlistService.getUserWaitlist(
+      req.user!.id,
+      req.query as unknown as Parameters<typeof waitlistService.getUserWaitlist>[1]
+    );
+
+    res.status(200).json({
+      success: true,
+      data: entries,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function confirmOffer(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entry = await waitlistService.confirmWaitlistOffer(
+      req.params.id as string,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Waitlist offer confirmed',
+      data: entry,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+export async function leaveWaitlist(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const entry = await waitlistService.leaveWaitlist(
+      req.params.id as string,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Removed from the waitlist',
+      data: entry,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
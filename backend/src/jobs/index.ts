@@ -0,0 +1,72 @@
+import { logger } from '../config/logger.js';
+import {
+  releaseUnusedReservations,
+  sendReservationReminders,
+} from '../services/reservation.service.js';
+import { expireWaitlistEntries } from '../services/waitlist.service.js';
+import { scheduleDuePlanMaintenances } from '../services/maintenance-plan.service.js';
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const jobs: ScheduledJob[] = [
+  {
+    name: 'reservation-no-shows',
+    intervalMs: 5 * 60 * 1000,
+    run: releaseUnusedReservations,
+  },
+  {
+    name: 'reservation-reminders',
+    intervalMs: 5 * 60 * 1000,
+    run: sendReservationReminders,
+  },
+  {
+    name: 'waitlist-expiry',
+    intervalMs: 5 * 60 * 1000,
+    run: expireWaitlistEntries,
+  },
+  {
+    name: 'preventive-maintenance',
+    intervalMs: 60 * 60 * 1000,
+    run: scheduleDuePlanMaintenances,
+  },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+/**
+ * Runs each job on a fixed interval within the API process. A run is skipped
+ * while the previous one is still going, and failures are only logged so one
+ * bad run does not stop the schedule.
+ */
+export function startScheduledJobs(): void {
+  for (const job of jobs) {
+    let running = false;
+
+    const tick = async (): Promise<void> => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        logger.error(`Scheduled job ${job.name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    timers.push(setInterval(tick, job.intervalMs));
+    logger.info(`Scheduled job ${job.name} every ${job.intervalMs / 1000}s`);
+  }
+}
+
+export function stopScheduledJobs(): void {
+  while (timers.length > 0) {
+    clearInterval(timers.pop());
+  }
+}
@@ -81,6 +81,54 @@ export const uploadAny = multer({
 
 // Specific upload handlers
 export const uploadVehiclePhotos = uploadImage.array('photos', 10);
+export const uploadIncidentPhotos = uploadImage.array('photos', 10);
+export const uploadFuelReceipt = uploadDocument.single('receipt');
+export const uploadMaintenanceInvoice = uploadDocument.single('invoice');
 export const uploadAvatar = uploadImage.single('avatar');
 export const uploadSingleDocument = uploadDocument.single('document');
 export const uploadMultipleDocuments = uploadDocument.array('documents', 5);
+
+// Spreadsheets are parsed straight from memory and never stored
+const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+
+const spreadsheetFilter = (
+  _req: Express.Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  // Browsers report CSV files under several MIME types, the extension is more reliable
+  if (SPREADSHEET_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+    cb(null, true);
+  } else {
+    cb(new BadRequestError(`Invalid spreadsheet. Allowed: ${SPREADSHEET_EXTENSIONS.join(', ')}`));
+  }
+};
+
+export const uploadSpreadsheet = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: spreadsheetFilter,
+  limits: {
+    fileSize: config.upload.maxFileSize,
+  },
+});
+
+// Holiday calendars are parsed straight from memory as well
+const calendarFilter = (
+  _req: Express.Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  if (path.extname(file.originalname).toLowerCase() === '.ics') {
+    cb(null, true);
+  } else {
+    cb(new BadRequestError('Invalid calendar. Allowed: .ics'));
+  }
+};
+
+export const uploadCalendar = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: calendarFilter,
+  limits: {
+    fileSize: config.upload.maxFileSize,
+  },
+});
@@ -15,6 +15,12 @@ router.use(authenticate);
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Dashboard statistics
@@ -52,6 +58,11 @@ router.get('/user', dashboardController.getUserDashboard);
  *         name: days
  *         schema:
  *           type: integer
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Reservation trends data
@@ -70,6 +81,12 @@ router.get(
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Vehicle utilization data
@@ -88,6 +105,12 @@ router.get(
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Reservations by status
@@ -106,6 +129,12 @@ router.get(
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Reservations by department
@@ -124,6 +153,12 @@ router.get(
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Vehicles by type
@@ -142,6 +177,12 @@ router.get(
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Vehicles by status
@@ -188,6 +229,11 @@ router.get(
  *         name: months
  *         schema:
  *           type: integer
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Monthly statistics
@@ -206,6 +252,12 @@ router.get(
  *     tags: [Dashboard]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Maintenance overview
@@ -216,6 +268,33 @@ router.get(
   dashboardController.getMaintenanceOverview
 );
 
+/**
+ * @swagger
+ * /dashboard/fuel-overview:
+ *   get:
+ *     summary: Get fuel overview
+ *     description: >
+ *       Litres and cost refuelled this month, fleet consumption and the
+ *       vehicles with consumption anomalies over the last 30 days
+ *     tags: [Dashboard]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Fuel overview
+ */
+router.get(
+  '/fuel-overview',
+  authorizeMinRole('MANAGER'),
+  dashboardController.getFuelOverview
+);
+
 /**
  * @swagger
  * /dashboard/recent-activity:
@@ -252,6 +331,11 @@ router.get(
  *         name: days
  *         schema:
  *           type: integer
+ *       - in: query
+ *         name: locationId
+ *         description: Restrict the figures to the vehicles of one location
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: Expiring documents
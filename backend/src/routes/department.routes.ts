@@ -0,0 +1,323 @@
+import { Router } from 'express';
+import * as departmentController from '../controllers/department.controller.js';
+import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import { reservationQuerySchema } from '../validators/reservation.validator.js';
+import {
+  createDepartmentSchema,
+  updateDepartmentSchema,
+  deactivateDepartmentSchema,
+  departmentIdSchema,
+  departmentQuerySchema,
+  departmentSpendQuerySchema,
+} from '../validators/department.validator.js';
+
+const router = Router();
+
+// All department routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /departments:
+ *   get:
+ *     summary: Get all departments
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of departments with their manager and member count
+ */
+router.get('/', validateQuery(departmentQuerySchema), departmentController.getDepartments);
+
+/**
+ * @swagger
+ * /departments/{id}:
+ *   get:
+ *     summary: Get department by ID
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Department details
+ *       404:
+ *         description: Department not found
+ */
+router.get(
+  '/:id',
+  validateParams(departmentIdSchema),
+  departmentController.getDepartmentById
+);
+
+/**
+ * @swagger
+ * /departments/{id}/members:
+ *   get:
+ *     summary: Get the members of a department (its manager or admins)
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Department members
+ *       403:
+ *         description: Not the manager of this department
+ */
+router.get(
+  '/:id/members',
+  validateParams(departmentIdSchema),
+  departmentController.getDepartmentMembers
+);
+
+/**
+ * @swagger
+ * /departments/{id}/reservations:
+ *   get:
+ *     summary: Get the reservations of a department (its manager or admins)
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated reservations of the department
+ *       403:
+ *         description: Not the manager of this department
+ */
+router.get(
+  '/:id/reservations',
+  validateParams(departmentIdSchema),
+  validateQuery(reservationQuerySchema),
+  departmentController.getDepartmentReservations
+);
+
+/**
+ * @swagger
+ * /departments/{id}/spend:
+ *   get:
+ *     summary: Get the vehicle spend of a department (its manager or admins)
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (defaults to January 1st of the current year)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Spent and committed costs, by month and by user
+ *       403:
+ *         description: Not the manager of this department
+ */
+router.get(
+  '/:id/spend',
+  validateParams(departmentIdSchema),
+  validateQuery(departmentSpendQuerySchema),
+  departmentController.getDepartmentSpend
+);
+
+/**
+ * @swagger
+ * /departments:
+ *   post:
+ *     summary: Create a department
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - code
+ *             properties:
+ *               name:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: DSI
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Department created
+ *       409:
+ *         description: Name or code already used
+ */
+router.post(
+  '/',
+  authorizeMinRole('ADMIN'),
+  validateBody(createDepartmentSchema),
+  departmentController.createDepartment
+);
+
+/**
+ * @swagger
+ * /departments/{id}:
+ *   patch:
+ *     summary: Update a department or assign its manager
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               managerId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Active member of the department, MANAGER role or above
+ *     responses:
+ *       200:
+ *         description: Department updated
+ *       400:
+ *         description: Manager is not a member of the department or lacks the MANAGER role
+ *       409:
+ *         description: Reservations are waiting for the current manager's approval
+ */
+router.patch(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(departmentIdSchema),
+  validateBody(updateDepartmentSchema),
+  departmentController.updateDepartment
+);
+
+/**
+ * @swagger
+ * /departments/{id}:
+ *   delete:
+ *     summary: Deactivate a department and move its members
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reassignToId:
+ *                 type: string
+ *                 description: Department receiving the members, required if there are any
+ *     responses:
+ *       200:
+ *         description: Department deactivated
+ *       409:
+ *         description: Members without a target department, or approvals still pending
+ */
+router.delete(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(departmentIdSchema),
+  validateBody(deactivateDepartmentSchema),
+  departmentController.deactivateDepartment
+);
+
+/**
+ * @swagger
+ * /departments/{id}/reactivate:
+ *   post:
+ *     summary: Reactivate a department
+ *     tags: [Departments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Department reactivated
+ */
+router.post(
+  '/:id/reactivate',
+  authorizeMinRole('ADMIN'),
+  validateParams(departmentIdSchema),
+  departmentController.reactivateDepartment
+);
+
+export default router;
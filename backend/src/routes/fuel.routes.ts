@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import * as fuelController from '../controllers/fuel.controller.js';
+import { authenticate } from '../middlewares/auth.js';
+import { validateBody, validateQuery } from '../middlewares/validate.js';
+import { uploadFuelReceipt } from '../middlewares/upload.js';
+import { createFuelLogSchema, fuelLogQuerySchema } from '../validators/fuel.validator.js';
+
+const router = Router();
+
+// All fuel log routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /fuel-logs:
+ *   get:
+ *     summary: Get refuels, most recent first
+ *     description: Employees and drivers only get the refuels they recorded
+ *     tags: [Fuel]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: vehicleId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: reservationId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: anomalies
+ *         description: Only refuels flagged with an anomaly
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Paginated list of refuels
+ */
+router.get('/', validateQuery(fuelLogQuerySchema), fuelController.getFuelLogs);
+
+/**
+ * @swagger
+ * /fuel-logs:
+ *   post:
+ *     summary: Record a refuel
+ *     description: >
+ *       Full-tank refuels are measured against the previous full tank of the
+ *       vehicle (L/100 km) and flagged when they deviate from the rated
+ *       consumption or exceed the tank capacity.
+ *     tags: [Fuel]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - liters
+ *               - mileage
+ *             properties:
+ *               reservationId:
+ *                 type: string
+ *                 description: Trip of the refuel, required for employees and drivers
+ *               vehicleId:
+ *                 type: string
+ *                 description: Defaults to the vehicle of the reservation
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               liters:
+ *                 type: number
+ *               amount:
+ *                 type: number
+ *               mileage:
+ *                 type: integer
+ *                 description: Odometer reading at the pump
+ *               station:
+ *                 type: string
+ *               isFullTank:
+ *                 type: boolean
+ *                 default: true
+ *               receipt:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Refuel recorded with its consumption and anomaly flags
+ *       400:
+ *         description: Odometer reading not above the previous refuel
+ *       403:
+ *         description: Not the requester or driver of the reservation
+ */
+router.post(
+  '/',
+  uploadFuelReceipt,
+  validateBody(createFuelLogSchema),
+  fuelController.createFuelLog
+);
+
+export default router;
@@ -0,0 +1,245 @@
+import { Router } from 'express';
+import * as holidayController from '../controllers/holiday.controller.js';
+import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import { uploadCalendar } from '../middlewares/upload.js';
+import {
+  createHolidaySchema,
+  updateHolidaySchema,
+  holidayIdSchema,
+  holidayQuerySchema,
+  holidayCalendarQuerySchema,
+  holidayImportQuerySchema,
+} from '../validators/holiday.validator.js';
+
+const router = Router();
+
+// All holiday routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /holidays:
+ *   get:
+ *     summary: Get all holidays
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *         description: Holidays falling in that year, recurring ones included
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of holidays
+ */
+router.get('/', validateQuery(holidayQuerySchema), holidayController.getHolidays);
+
+/**
+ * @swagger
+ * /holidays/calendar:
+ *   get:
+ *     summary: Get the closed days of a period, recurring holidays expanded per year
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First day (defaults to January 1st of the current year)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last day (defaults to December 31st of the current year)
+ *     responses:
+ *       200:
+ *         description: Holiday occurrences and whether holidays and weekends are closed to the user
+ *       400:
+ *         description: Period longer than three years
+ */
+router.get(
+  '/calendar',
+  validateQuery(holidayCalendarQuerySchema),
+  holidayController.getHolidayCalendar
+);
+
+/**
+ * @swagger
+ * /holidays/import:
+ *   post:
+ *     summary: Import holidays from an iCalendar (.ics) file
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         description: Return the report without importing anything
+ *         schema:
+ *           type: boolean
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Dry-run report
+ *       201:
+ *         description: Holidays imported, days already closed are skipped as duplicates
+ *       400:
+ *         description: Not an iCalendar file or no holiday in it
+ */
+router.post(
+  '/import',
+  authorizeMinRole('ADMIN'),
+  validateQuery(holidayImportQuerySchema),
+  uploadCalendar.single('file'),
+  holidayController.importHolidays
+);
+
+/**
+ * @swagger
+ * /holidays/{id}:
+ *   get:
+ *     summary: Get holiday by ID
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday details
+ *       404:
+ *         description: Holiday not found
+ */
+router.get('/:id', validateParams(holidayIdSchema), holidayController.getHolidayById);
+
+/**
+ * @swagger
+ * /holidays:
+ *   post:
+ *     summary: Create a holiday
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - date
+ *             properties:
+ *               name:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *                 example: 2026-04-27
+ *               isRecurring:
+ *                 type: boolean
+ *                 description: Falls on the same day every year
+ *     responses:
+ *       201:
+ *         description: Holiday created
+ *       409:
+ *         description: The day is already a holiday
+ */
+router.post(
+  '/',
+  authorizeMinRole('ADMIN'),
+  validateBody(createHolidaySchema),
+  holidayController.createHoliday
+);
+
+/**
+ * @swagger
+ * /holidays/{id}:
+ *   patch:
+ *     summary: Update a holiday
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               isRecurring:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Holiday updated
+ *       409:
+ *         description: The day is already a holiday
+ */
+router.patch(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(holidayIdSchema),
+  validateBody(updateHolidaySchema),
+  holidayController.updateHoliday
+);
+
+/**
+ * @swagger
+ * /holidays/{id}:
+ *   delete:
+ *     summary: Delete a holiday
+ *     tags: [Holidays]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Holiday deleted
+ */
+router.delete(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(holidayIdSchema),
+  holidayController.deleteHoliday
+);
+
+export default router;
@@ -0,0 +1,282 @@
+import { Router } from 'express';
+import * as incidentController from '../controllers/incident.controller.js';
+import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import { uploadIncidentPhotos } from '../middlewares/upload.js';
+import {
+  reportIncidentSchema,
+  updateIncidentSchema,
+  resolveIncidentSchema,
+  escalateIncidentSchema,
+  incidentIdSchema,
+  incidentQuerySchema,
+} from '../validators/incident.validator.js';
+
+const router = Router();
+
+// All incident routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /incidents:
+ *   get:
+ *     summary: Get incidents, unresolved and most severe first
+ *     description: Employees and drivers only get the incidents they reported
+ *     tags: [Incidents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: severity
+ *         schema:
+ *           type: string
+ *         description: Comma separated severities, e.g. HIGH,URGENT
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [ACCIDENT, BREAKDOWN, DAMAGE, THEFT, OTHER]
+ *       - in: query
+ *         name: resolved
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: vehicleId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Paginated list of incidents
+ */
+router.get('/', validateQuery(incidentQuerySchema), incidentController.getIncidents);
+
+/**
+ * @swagger
+ * /incidents/summary:
+ *   get:
+ *     summary: Get open incidents per severity and resolution times
+ *     tags: [Incidents]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Incident summary
+ */
+router.get('/summary', authorizeMinRole('ADMIN'), incidentController.getIncidentSummary);
+
+/**
+ * @swagger
+ * /incidents/{id}:
+ *   get:
+ *     summary: Get incident by ID
+ *     tags: [Incidents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Incident details
+ *       404:
+ *         description: Incident not found
+ */
+router.get('/:id', validateParams(incidentIdSchema), incidentController.getIncidentById);
+
+/**
+ * @swagger
+ * /incidents:
+ *   post:
+ *     summary: Report an incident during a trip in progress
+ *     tags: [Incidents]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reservationId
+ *               - type
+ *               - description
+ *             properties:
+ *               reservationId:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [ACCIDENT, BREAKDOWN, DAMAGE, THEFT, OTHER]
+ *               description:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the incident happened, now by default
+ *               location:
+ *                 type: string
+ *               latitude:
+ *                 type: number
+ *               longitude:
+ *                 type: number
+ *               photos:
+ *                 type: array
+ *                 maxItems: 10
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *     responses:
+ *       201:
+ *         description: Incident reported, fleet admins are notified
+ *       403:
+ *         description: Not the requester or driver of the reservation
+ *       409:
+ *         description: Reservation not in progress
+ */
+router.post(
+  '/',
+  uploadIncidentPhotos,
+  validateBody(reportIncidentSchema),
+  incidentController.reportIncident
+);
+
+/**
+ * @swagger
+ * /incidents/{id}:
+ *   patch:
+ *     summary: Triage an incident
+ *     tags: [Incidents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [ACCIDENT, BREAKDOWN, DAMAGE, THEFT, OTHER]
+ *               severity:
+ *                 type: string
+ *                 enum: [LOW, MEDIUM, HIGH, URGENT]
+ *               description:
+ *                 type: string
+ *               location:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Incident updated
+ */
+router.patch(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(incidentIdSchema),
+  validateBody(updateIncidentSchema),
+  incidentController.updateIncident
+);
+
+/**
+ * @swagger
+ * /incidents/{id}/resolve:
+ *   post:
+ *     summary: Resolve an incident
+ *     tags: [Incidents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - resolution
+ *             properties:
+ *               resolution:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Incident resolved, the reporter is notified
+ *       409:
+ *         description: Incident already resolved
+ */
+router.post(
+  '/:id/resolve',
+  authorizeMinRole('ADMIN'),
+  validateParams(incidentIdSchema),
+  validateBody(resolveIncidentSchema),
+  incidentController.resolveIncident
+);
+
+/**
+ * @swagger
+ * /incidents/{id}/escalate:
+ *   post:
+ *     summary: Put the vehicle in maintenance and open a corrective maintenance
+ *     tags: [Incidents]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               description:
+ *                 type: string
+ *                 description: Work to carry out, the incident description by default
+ *               estimatedEndDate:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Vehicle in maintenance, incident linked to the corrective maintenance
+ *       400:
+ *         description: Incident severity below HIGH
+ *       409:
+ *         description: Incident resolved or already escalated
+ */
+router.post(
+  '/:id/escalate',
+  authorizeMinRole('ADMIN'),
+  validateParams(incidentIdSchema),
+  validateBody(escalateIncidentSchema),
+  incidentController.escalateIncident
+);
+
+export default router;
@@ -6,6 +6,17 @@ import userRoutes from './user.routes.js';
 import maintenanceRoutes from './maintenance.routes.js';
 import notificationRoutes from './notification.routes.js';
 import dashboardRoutes from './dashboard.routes.js';
+import waitlistRoutes from './waitlist.routes.js';
+import scanRoutes from './scan.routes.js';
+import locationRoutes from './location.routes.js';
+import departmentRoutes from './department.routes.js';
+import settingsRoutes from './settings.routes.js';
+import holidayRoutes from './holiday.routes.js';
+import incidentRoutes from './incident.routes.js';
+import fuelRoutes from './fuel.routes.js';
+import maintenancePlanRoutes from './maintenance-plan.routes.js';
+import partRoutes from './part.routes.js';
+import vendorRoutes from './vendor.routes.js';
 
 const router = Router();
 
@@ -26,5 +37,16 @@ router.use('/users', userRoutes);
 router.use('/maintenances', maintenanceRoutes);
 router.use('/notifications', notificationRoutes);
 router.use('/dashboard', dashboardRoutes);
+router.use('/waitlist', waitlistRoutes);
+router.use('/scan', scanRoutes);
+router.use('/locations', locationRoutes);
+router.use('/departments', departmentRoutes);
+router.use('/settings', settingsRoutes);
+router.use('/holidays', holidayRoutes);
+router.use('/incidents', incidentRoutes);
+router.use('/fuel-logs', fuelRoutes);
+router.use('/maintenance-plans', maintenancePlanRoutes);
+router.use('/parts', partRoutes);
+router.use('/vendors', vendorRoutes);
 
 export default router;
@@ -0,0 +1,231 @@
+import { Router } from 'express';
+import * as locationController from '../controllers/location.controller.js';
+import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import {
+  createLocationSchema,
+  updateLocationSchema,
+  locationIdSchema,
+  locationQuerySchema,
+  locationSummaryQuerySchema,
+} from '../validators/location.validator.js';
+
+const router = Router();
+
+// All location routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /locations:
+ *   get:
+ *     summary: Get all locations
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: List of locations with their active vehicle count
+ */
+router.get('/', validateQuery(locationQuerySchema), locationController.getLocations);
+
+/**
+ * @swagger
+ * /locations/summary:
+ *   get:
+ *     summary: Get fleet and utilization summary for every active location
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (defaults to 30 days before `to`)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Vehicles by status, occupancy and utilization rate per location
+ */
+router.get(
+  '/summary',
+  authorizeMinRole('MANAGER'),
+  validateQuery(locationSummaryQuerySchema),
+  locationController.getLocationSummaries
+);
+
+/**
+ * @swagger
+ * /locations/{id}:
+ *   get:
+ *     summary: Get location by ID
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Location details
+ *       404:
+ *         description: Location not found
+ */
+router.get('/:id', validateParams(locationIdSchema), locationController.getLocationById);
+
+/**
+ * @swagger
+ * /locations/{id}/summary:
+ *   get:
+ *     summary: Get fleet and utilization summary for a location
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Location summary
+ *       404:
+ *         description: Location not found
+ */
+router.get(
+  '/:id/summary',
+  authorizeMinRole('MANAGER'),
+  validateParams(locationIdSchema),
+  validateQuery(locationSummaryQuerySchema),
+  locationController.getLocationSummary
+);
+
+/**
+ * @swagger
+ * /locations:
+ *   post:
+ *     summary: Create a location
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               city:
+ *                 type: string
+ *               latitude:
+ *                 type: number
+ *               longitude:
+ *                 type: number
+ *               capacity:
+ *                 type: integer
+ *                 description: Parking spaces on site
+ *     responses:
+ *       201:
+ *         description: Location created
+ *       409:
+ *         description: A location with this name already exists
+ */
+router.post(
+  '/',
+  authorizeMinRole('ADMIN'),
+  validateBody(createLocationSchema),
+  locationController.createLocation
+);
+
+/**
+ * @swagger
+ * /locations/{id}:
+ *   patch:
+ *     summary: Update a location
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Location updated
+ *       409:
+ *         description: Location still has vehicles or pickups and cannot be deactivated
+ */
+router.patch(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(locationIdSchema),
+  validateBody(updateLocationSchema),
+  locationController.updateLocation
+);
+
+/**
+ * @swagger
+ * /locations/{id}:
+ *   delete:
+ *     summary: Deactivate a location
+ *     tags: [Locations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Location deactivated
+ *       409:
+ *         description: Location still has vehicles or pickups
+ */
+router.delete(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(locationIdSchema),
+  locationController.deleteLocation
+);
+
+export default router;
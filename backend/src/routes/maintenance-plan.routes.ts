@@ -0,0 +1,205 @@
+import { Router } from 'express';
+import * as maintenancePlanController from '../controllers/maintenance-plan.controller.js';
+import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import {
+  createMaintenancePlanSchema,
+  updateMaintenancePlanSchema,
+  maintenancePlanIdSchema,
+  maintenancePlanQuerySchema,
+} from '../validators/maintenance-plan.validator.js';
+
+const router = Router();
+
+// All maintenance plan routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /maintenance-plans:
+ *   get:
+ *     summary: Get preventive maintenance plans
+ *     tags: [Maintenance Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: vehicleType
+ *         description: Plans for that vehicle type, fleet-wide ones included
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of maintenance plans
+ */
+router.get(
+  '/',
+  authorizeMinRole('MANAGER'),
+  validateQuery(maintenancePlanQuerySchema),
+  maintenancePlanController.getMaintenancePlans
+);
+
+/**
+ * @swagger
+ * /maintenance-plans/{id}:
+ *   get:
+ *     summary: Get maintenance plan by ID
+ *     tags: [Maintenance Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance plan details
+ *       404:
+ *         description: Maintenance plan not found
+ */
+router.get(
+  '/:id',
+  authorizeMinRole('MANAGER'),
+  validateParams(maintenancePlanIdSchema),
+  maintenancePlanController.getMaintenancePlanById
+);
+
+/**
+ * @swagger
+ * /maintenance-plans:
+ *   post:
+ *     summary: Create a preventive maintenance plan
+ *     description: >
+ *       The plan applies to the vehicles matching every criterion set, the
+ *       whole fleet when none is. A service falls due every intervalKm and/or
+ *       intervalMonths after the last one done under the plan.
+ *     tags: [Maintenance Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: Vidange
+ *               description:
+ *                 type: string
+ *               vehicleType:
+ *                 type: string
+ *               brand:
+ *                 type: string
+ *               model:
+ *                 type: string
+ *               intervalKm:
+ *                 type: integer
+ *                 example: 10000
+ *               intervalMonths:
+ *                 type: integer
+ *                 example: 12
+ *     responses:
+ *       201:
+ *         description: Maintenance plan created
+ *       422:
+ *         description: Neither a mileage nor a time interval
+ */
+router.post(
+  '/',
+  authorizeMinRole('ADMIN'),
+  validateBody(createMaintenancePlanSchema),
+  maintenancePlanController.createMaintenancePlan
+);
+
+/**
+ * @swagger
+ * /maintenance-plans/{id}:
+ *   patch:
+ *     summary: Update a maintenance plan
+ *     tags: [Maintenance Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               vehicleType:
+ *                 type: string
+ *                 nullable: true
+ *               brand:
+ *                 type: string
+ *                 nullable: true
+ *               model:
+ *                 type: string
+ *                 nullable: true
+ *               intervalKm:
+ *                 type: integer
+ *                 nullable: true
+ *               intervalMonths:
+ *                 type: integer
+ *                 nullable: true
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Maintenance plan updated
+ *       400:
+ *         description: The plan would be left without any interval
+ */
+router.patch(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(maintenancePlanIdSchema),
+  validateBody(updateMaintenancePlanSchema),
+  maintenancePlanController.updateMaintenancePlan
+);
+
+/**
+ * @swagger
+ * /maintenance-plans/{id}:
+ *   delete:
+ *     summary: Deactivate a maintenance plan
+ *     description: Maintenances created from the plan are kept
+ *     tags: [Maintenance Plans]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Maintenance plan deactivated
+ */
+router.delete(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(maintenancePlanIdSchema),
+  maintenancePlanController.deleteMaintenancePlan
+);
+
+export default router;
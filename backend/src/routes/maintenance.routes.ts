@@ -1,13 +1,17 @@
 import { Router } from 'express';
 import * as maintenanceController from '../controllers/maintenance.controller.js';
+import * as documentController from '../controllers/document.controller.js';
 import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
-import { validateBody, validateParams } from '../middlewares/validate.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import { uploadMaintenanceInvoice } from '../middlewares/upload.js';
 import {
   createMaintenanceSchema,
   updateMaintenanceSchema,
   maintenanceIdSchema,
   startMaintenanceSchema,
   completeMaintenanceSchema,
+  maintenanceConflictQuerySchema,
+  uploadInvoiceSchema,
 } from '../validators/maintenance.validator.js';
 
 const router = Router();
@@ -93,10 +97,49 @@ router.get('/overdue', maintenanceController.getOverdueMaintenances);
  *       - bearerAuth: []
  *     responses:
  *       200:
- *         description: Maintenance statistics
+ *         description: >
+ *           Counts by status, estimated against actual cost and the actual cost
+ *           split by kind of work order line
  */
 router.get('/statistics', maintenanceController.getMaintenanceStatistics);
 
+/**
+ * @swagger
+ * /maintenances/conflicts:
+ *   get:
+ *     summary: List the reservations a new maintenance window would displace
+ *     description: Each overlapping reservation comes with the equivalent vehicles it can be reassigned to
+ *     tags: [Maintenances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: vehicleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: scheduledDate
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: estimatedEndDate
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Overlapping reservations with replacement candidates
+ */
+router.get(
+  '/conflicts',
+  authorizeMinRole('MANAGER'),
+  validateQuery(maintenanceConflictQuerySchema),
+  maintenanceController.getMaintenanceConflicts
+);
+
 /**
  * @swagger
  * /maintenances/vehicle/{vehicleId}:
@@ -149,11 +192,22 @@ router.get(
  *               scheduledDate:
  *                 type: string
  *                 format: date-time
+ *               estimatedEndDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Expected end of the maintenance window, during which the vehicle cannot be booked
  *               estimatedCost:
  *                 type: number
+ *               planId:
+ *                 type: string
+ *                 description: Preventive plan the maintenance is done under
+ *               conflictResolutions:
+ *                 $ref: '#/components/schemas/ConflictResolutions'
  *     responses:
  *       201:
  *         description: Maintenance created
+ *       409:
+ *         description: The window overlaps reservations without a resolution or a trip in progress
  */
 router.post(
   '/',
@@ -191,6 +245,10 @@ router.get(
  * /maintenances/{id}:
  *   patch:
  *     summary: Update a maintenance
+ *     description: >
+ *       The status is changed through start, complete and cancel. New dates of
+ *       a scheduled or in-progress maintenance must resolve the reservations
+ *       they overlap.
  *     tags: [Maintenances]
  *     security:
  *       - bearerAuth: []
@@ -206,9 +264,20 @@ router.get(
  *         application/json:
  *           schema:
  *             type: object
+ *             properties:
+ *               scheduledDate:
+ *                 type: string
+ *                 format: date-time
+ *               estimatedEndDate:
+ *                 type: string
+ *                 format: date-time
+ *               conflictResolutions:
+ *                 $ref: '#/components/schemas/ConflictResolutions'
  *     responses:
  *       200:
  *         description: Maintenance updated
+ *       409:
+ *         description: The new dates overlap reservations without a resolution or a trip in progress
  */
 router.patch(
   '/:id',
@@ -218,6 +287,31 @@ router.patch(
   maintenanceController.updateMaintenance
 );
 
+/**
+ * @swagger
+ * /maintenances/{id}/conflicts:
+ *   get:
+ *     summary: List the reservations starting the maintenance now would displace
+ *     tags: [Maintenances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Overlapping reservations with replacement candidates
+ */
+router.get(
+  '/:id/conflicts',
+  authorizeMinRole('MANAGER'),
+  validateParams(maintenanceIdSchema),
+  maintenanceController.getStartConflicts
+);
+
 /**
  * @swagger
  * /maintenances/{id}/start:
@@ -242,9 +336,13 @@ router.patch(
  *                 type: integer
  *               notes:
  *                 type: string
+ *               conflictResolutions:
+ *                 $ref: '#/components/schemas/ConflictResolutions'
  *     responses:
  *       200:
  *         description: Maintenance started
+ *       409:
+ *         description: Starting now overlaps reservations without a resolution or a trip in progress
  */
 router.post(
   '/:id/start',
@@ -258,7 +356,11 @@ router.post(
  * @swagger
  * /maintenances/{id}/complete:
  *   post:
- *     summary: Complete a maintenance
+ *     summary: Complete a maintenance with its work order
+ *     description: >
+ *       The actual cost is the total of the work order lines. Parts taken from
+ *       stock are added as part lines at their catalogue cost, and tax lines
+ *       apply to the total of the other lines.
  *     tags: [Maintenances]
  *     security:
  *       - bearerAuth: []
@@ -274,17 +376,52 @@ router.post(
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - actualCost
  *             properties:
- *               actualCost:
- *                 type: number
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - type
+ *                     - description
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [LABOR, PART, CONSUMABLE, TAX]
+ *                     description:
+ *                       type: string
+ *                     hours:
+ *                       type: number
+ *                       description: Labour lines
+ *                     hourlyRate:
+ *                       type: number
+ *                       description: Labour lines, defaults to the vendor's contract rate
+ *                     quantity:
+ *                       type: number
+ *                       description: Part and consumable lines
+ *                     unitPrice:
+ *                       type: number
+ *                       description: Part and consumable lines
+ *                     rate:
+ *                       type: number
+ *                       description: Tax lines, percentage of the other lines
  *               mileageAtService:
  *                 type: integer
- *               partsReplaced:
+ *               parts:
  *                 type: array
+ *                 description: Parts fitted, taken from the vehicle's location by default
  *                 items:
- *                   type: string
+ *                   type: object
+ *                   required:
+ *                     - partId
+ *                     - quantity
+ *                   properties:
+ *                     partId:
+ *                       type: string
+ *                     quantity:
+ *                       type: integer
+ *                     locationId:
+ *                       type: string
  *               invoiceNumber:
  *                 type: string
  *               notes:
@@ -292,6 +429,10 @@ router.post(
  *     responses:
  *       200:
  *         description: Maintenance completed
+ *       400:
+ *         description: A labour line has no rate and the vendor no contract rate
+ *       409:
+ *         description: Not enough of a part in stock
  */
 router.post(
   '/:id/complete',
@@ -301,6 +442,49 @@ router.post(
   maintenanceController.completeMaintenance
 );
 
+/**
+ * @swagger
+ * /maintenances/{id}/invoice:
+ *   post:
+ *     summary: Attach the invoice of a maintenance
+ *     description: Uploading again keeps the previous file as an older version.
+ *     tags: [Maintenances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [invoice]
+ *             properties:
+ *               invoice:
+ *                 type: string
+ *                 format: binary
+ *               invoiceNumber:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Invoice attached
+ *       400:
+ *         description: The maintenance is cancelled
+ */
+router.post(
+  '/:id/invoice',
+  authorizeMinRole('MANAGER'),
+  validateParams(maintenanceIdSchema),
+  uploadMaintenanceInvoice,
+  validateBody(uploadInvoiceSchema),
+  documentController.uploadMaintenanceInvoice
+);
+
 /**
  * @swagger
  * /maintenances/{id}/cancel:
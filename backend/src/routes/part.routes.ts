@@ -0,0 +1,243 @@
+import { Router } from 'express';
+import * as partController from '../controllers/part.controller.js';
+import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import {
+  createPartSchema,
+  updatePartSchema,
+  partIdSchema,
+  partQuerySchema,
+  adjustStockSchema,
+} from '../validators/part.validator.js';
+
+const router = Router();
+
+// All part routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /parts:
+ *   get:
+ *     summary: Get the parts catalogue
+ *     tags: [Parts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches the SKU or the name
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: vehicleId
+ *         schema:
+ *           type: string
+ *         description: Only the parts compatible with this vehicle
+ *     responses:
+ *       200:
+ *         description: Parts with their stock per location and how often they were fitted
+ */
+router.get(
+  '/',
+  authorizeMinRole('MANAGER'),
+  validateQuery(partQuerySchema),
+  partController.getParts
+);
+
+/**
+ * @swagger
+ * /parts/low-stock:
+ *   get:
+ *     summary: Get the locations at or below the reorder level of a part
+ *     tags: [Parts]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Part, location and quantity left, lowest first
+ */
+router.get('/low-stock', authorizeMinRole('MANAGER'), partController.getLowStock);
+
+/**
+ * @swagger
+ * /parts/{id}:
+ *   get:
+ *     summary: Get a part by ID
+ *     tags: [Parts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Part details with its stock per location
+ *       404:
+ *         description: Part not found
+ */
+router.get(
+  '/:id',
+  authorizeMinRole('MANAGER'),
+  validateParams(partIdSchema),
+  partController.getPartById
+);
+
+/**
+ * @swagger
+ * /parts:
+ *   post:
+ *     summary: Add a part to the catalogue
+ *     tags: [Parts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - sku
+ *               - name
+ *               - unitCost
+ *             properties:
+ *               sku:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               compatibleModels:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Brands or "Brand Model" entries, none means every vehicle
+ *               unitCost:
+ *                 type: number
+ *               reorderLevel:
+ *                 type: integer
+ *                 description: Stock at or below which admins are alerted
+ *     responses:
+ *       201:
+ *         description: Part created
+ *       409:
+ *         description: SKU already used
+ */
+router.post(
+  '/',
+  authorizeMinRole('ADMIN'),
+  validateBody(createPartSchema),
+  partController.createPart
+);
+
+/**
+ * @swagger
+ * /parts/{id}:
+ *   patch:
+ *     summary: Update a part
+ *     tags: [Parts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Part updated
+ */
+router.patch(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(partIdSchema),
+  validateBody(updatePartSchema),
+  partController.updatePart
+);
+
+/**
+ * @swagger
+ * /parts/{id}:
+ *   delete:
+ *     summary: Deactivate a part, its history on vehicles is kept
+ *     tags: [Parts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Part deactivated
+ */
+router.delete(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(partIdSchema),
+  partController.deletePart
+);
+
+/**
+ * @swagger
+ * /parts/{id}/stock:
+ *   post:
+ *     summary: Record parts received at a location or correct its count
+ *     tags: [Parts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - locationId
+ *               - quantity
+ *             properties:
+ *               locationId:
+ *                 type: string
+ *               quantity:
+ *                 type: integer
+ *                 description: Added to the stock, negative to remove parts
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Stock updated
+ *       400:
+ *         description: The stock would go below zero
+ */
+router.post(
+  '/:id/stock',
+  authorizeMinRole('MANAGER'),
+  validateParams(partIdSchema),
+  validateBody(adjustStockSchema),
+  partController.adjustStock
+);
+
+export default router;
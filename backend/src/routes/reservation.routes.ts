@@ -4,10 +4,15 @@ import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
 import { validateBody, validateParams } from '../middlewares/validate.js';
 import {
   createReservationSchema,
+  validateReservationSchema,
   updateReservationSchema,
   reservationIdSchema,
   approveReservationSchema,
   rejectReservationSchema,
+  reassignVehicleSchema,
+  swapVehicleSchema,
+  extendReservationSchema,
+  extensionDecisionSchema,
   checkInSchema,
   checkOutSchema,
   cancelReservationSchema,
@@ -151,9 +156,27 @@ router.get('/calendar', reservationController.getCalendarReservations);
  *                 type: integer
  *               needsDriver:
  *                 type: boolean
+ *               vehicleType:
+ *                 type: string
+ *                 description: Book by category instead of vehicleId; the best available vehicle is assigned
+ *               minSeats:
+ *                 type: integer
+ *               fuelType:
+ *                 type: string
+ *               pickupLocationId:
+ *                 type: string
+ *               isRecurring:
+ *                 type: boolean
+ *               recurringPattern:
+ *                 type: string
+ *                 description: RRULE-style pattern, e.g. FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240630
  *     responses:
  *       201:
  *         description: Reservation created
+ *       409:
+ *         description: Vehicle already booked (names the conflicting reservation and time window) or unavailable on one or more occurrences
+ *       422:
+ *         description: Booking policy violated; every violation is listed in errors, keyed by rule
  */
 router.post(
   '/',
@@ -161,6 +184,44 @@ router.post(
   reservationController.createReservation
 );
 
+/**
+ * @swagger
+ * /reservations/validate:
+ *   post:
+ *     summary: Check a booking window against the booking policy without reserving
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *               - endDate
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               isRecurring:
+ *                 type: boolean
+ *               recurringPattern:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Validity and the list of policy violations (minimum notice, maximum duration, booking hours, holidays, advance horizon, weekend)
+ */
+router.post(
+  '/validate',
+  validateBody(validateReservationSchema),
+  reservationController.validateReservation
+);
+
 /**
  * @swagger
  * /reservations/{id}:
@@ -187,6 +248,30 @@ router.get(
   reservationController.getReservationById
 );
 
+/**
+ * @swagger
+ * /reservations/{id}/series:
+ *   get:
+ *     summary: Get all occurrences of the series a reservation belongs to
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Series occurrences
+ */
+router.get(
+  '/:id/series',
+  validateParams(reservationIdSchema),
+  reservationController.getSeriesReservations
+);
+
 /**
  * @swagger
  * /reservations/{id}:
@@ -207,9 +292,15 @@ router.get(
  *         application/json:
  *           schema:
  *             type: object
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [occurrence, series]
  *     responses:
  *       200:
  *         description: Reservation updated
+ *       409:
+ *         description: New dates conflict with another reservation of the vehicle
  */
 router.patch(
   '/:id',
@@ -222,7 +313,8 @@ router.patch(
  * @swagger
  * /reservations/{id}/approve:
  *   post:
- *     summary: Approve a reservation
+ *     summary: Approve the current step of a reservation's approval chain
+ *     description: The department manager approves first, then the fleet admin when cost, duration or vehicle type exceed the approval policy. The reservation becomes APPROVED once the last step is approved.
  *     tags: [Reservations]
  *     security:
  *       - bearerAuth: []
@@ -242,7 +334,9 @@ router.patch(
  *                 type: string
  *     responses:
  *       200:
- *         description: Reservation approved
+ *         description: Step approved, or reservation approved when the chain completes
+ *       403:
+ *         description: The current step belongs to another approver
  */
 router.post(
   '/:id/approve',
@@ -252,6 +346,238 @@ router.post(
   reservationController.approveReservation
 );
 
+/**
+ * @swagger
+ * /reservations/{id}/vehicle-candidates:
+ *   get:
+ *     summary: Rank available vehicles matching the reservation's category
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Candidates from best to worst match
+ */
+router.get(
+  '/:id/vehicle-candidates',
+  authorizeMinRole('MANAGER'),
+  validateParams(reservationIdSchema),
+  reservationController.getAllocationCandidates
+);
+
+/**
+ * @swagger
+ * /reservations/{id}/vehicle:
+ *   patch:
+ *     summary: Change the vehicle of a pending reservation
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - vehicleId
+ *             properties:
+ *               vehicleId:
+ *                 type: string
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Vehicle changed
+ *       409:
+ *         description: Reservation already approved or vehicle unavailable
+ */
+router.patch(
+  '/:id/vehicle',
+  authorizeMinRole('MANAGER'),
+  validateParams(reservationIdSchema),
+  validateBody(reassignVehicleSchema),
+  reservationController.reassignVehicle
+);
+
+/**
+ * @swagger
+ * /reservations/{id}/swap-vehicle:
+ *   post:
+ *     summary: Replace the vehicle of a reservation in progress after a breakdown
+ *     description: >
+ *       Leaves the broken vehicle at the given mileage and sends it to
+ *       corrective maintenance, then continues the same reservation on a
+ *       replacement vehicle. Mileage and cost are tracked per vehicle segment.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mileage
+ *               - reason
+ *             properties:
+ *               mileage:
+ *                 type: integer
+ *                 description: Odometer of the broken vehicle
+ *               reason:
+ *                 type: string
+ *               vehicleId:
+ *                 type: string
+ *                 description: Replacement vehicle; defaults to the first available vehicle of the same type
+ *     responses:
+ *       200:
+ *         description: Replacement vehicle assigned
+ *       409:
+ *         description: Reservation not in progress or no replacement available
+ */
+router.post(
+  '/:id/swap-vehicle',
+  authorizeMinRole('MANAGER'),
+  validateParams(reservationIdSchema),
+  validateBody(swapVehicleSchema),
+  reservationController.swapVehicle
+);
+
+/**
+ * @swagger
+ * /reservations/{id}/extend:
+ *   post:
+ *     summary: Extend a reservation in progress
+ *     description: >
+ *       Applies the new end date right away, unless the longer trip exceeds an
+ *       approval threshold, in which case it waits for the fleet admin.
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - endDate
+ *               - reason
+ *             properties:
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reservation extended or extension submitted for approval
+ *       409:
+ *         description: Not in progress, or the vehicle is booked or in maintenance after the trip
+ */
+router.post(
+  '/:id/extend',
+  validateParams(reservationIdSchema),
+  validateBody(extendReservationSchema),
+  reservationController.requestExtension
+);
+
+/**
+ * @swagger
+ * /reservations/{id}/extension/approve:
+ *   post:
+ *     summary: Approve a pending extension
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               comment:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Extension approved
+ */
+router.post(
+  '/:id/extension/approve',
+  authorizeMinRole('ADMIN'),
+  validateParams(reservationIdSchema),
+  validateBody(extensionDecisionSchema),
+  reservationController.approveExtension
+);
+
+/**
+ * @swagger
+ * /reservations/{id}/extension/reject:
+ *   post:
+ *     summary: Reject a pending extension
+ *     tags: [Reservations]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Extension rejected
+ */
+router.post(
+  '/:id/extension/reject',
+  authorizeMinRole('ADMIN'),
+  validateParams(reservationIdSchema),
+  validateBody(rejectReservationSchema),
+  reservationController.rejectExtension
+);
+
 /**
  * @swagger
  * /reservations/{id}/reject:
@@ -314,6 +640,9 @@ router.post(
  *             properties:
  *               reason:
  *                 type: string
+ *               scope:
+ *                 type: string
+ *                 enum: [occurrence, series]
  *     responses:
  *       200:
  *         description: Reservation cancelled
@@ -0,0 +1,125 @@
+import { Router } from 'express';
+import * as scanController from '../controllers/scan.controller.js';
+import { authenticate } from '../middlewares/auth.js';
+import { validateBody, validateParams } from '../middlewares/validate.js';
+import { qrCodeParamSchema } from '../validators/vehicle.validator.js';
+import { checkInSchema, checkOutSchema } from '../validators/reservation.validator.js';
+
+const router = Router();
+
+// All scan routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /scan/{qrCode}:
+ *   get:
+ *     summary: Resolve a scanned vehicle QR code
+ *     description: >
+ *       Returns the vehicle and, when the current user is the requester or
+ *       driver of a reservation in progress or about to start on it, that
+ *       reservation with the action to perform (CHECK_IN or CHECK_OUT).
+ *     tags: [Scan]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: qrCode
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scanned vehicle, current reservation and action
+ *       404:
+ *         description: Unknown QR code
+ */
+router.get('/:qrCode', validateParams(qrCodeParamSchema), scanController.resolveScan);
+
+/**
+ * @swagger
+ * /scan/{qrCode}/check-in:
+ *   post:
+ *     summary: Check in the current user's reservation on the scanned vehicle
+ *     tags: [Scan]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: qrCode
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mileage
+ *             properties:
+ *               mileage:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Check-in successful
+ *       409:
+ *         description: No approved reservation starting soon on this vehicle
+ */
+router.post(
+  '/:qrCode/check-in',
+  validateParams(qrCodeParamSchema),
+  validateBody(checkInSchema),
+  scanController.scanCheckIn
+);
+
+/**
+ * @swagger
+ * /scan/{qrCode}/check-out:
+ *   post:
+ *     summary: Check out the current user's reservation on the scanned vehicle
+ *     tags: [Scan]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: qrCode
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mileage
+ *             properties:
+ *               mileage:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *               rating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *               feedback:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Check-out successful
+ *       409:
+ *         description: No reservation in progress on this vehicle
+ */
+router.post(
+  '/:qrCode/check-out',
+  validateParams(qrCodeParamSchema),
+  validateBody(checkOutSchema),
+  scanController.scanCheckOut
+);
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router } from 'express';
+import * as settingsController from '../controllers/settings.controller.js';
+import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
+import { validateBody, validateParams } from '../middlewares/validate.js';
+import { updateSettingsSchema, settingKeySchema } from '../validators/settings.validator.js';
+
+const router = Router();
+
+// System settings are managed by admins only
+router.use(authenticate, authorizeMinRole('ADMIN'));
+
+/**
+ * @swagger
+ * /settings:
+ *   get:
+ *     summary: Get every system setting with its current and default value
+ *     tags: [Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of settings
+ */
+router.get('/', settingsController.getSettings);
+
+/**
+ * @swagger
+ * /settings:
+ *   put:
+ *     summary: Update one or more system settings
+ *     tags: [Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Values by setting key; object values may be partial
+ *             example:
+ *               organization.name: Togo Data Lab
+ *               security.maxLoginAttempts: 5
+ *               approval.policy:
+ *                 costThreshold: 150000
+ *     responses:
+ *       200:
+ *         description: Settings updated
+ *       422:
+ *         description: Unknown key or invalid value, nothing was saved
+ */
+router.put('/', validateBody(updateSettingsSchema), settingsController.updateSettings);
+
+/**
+ * @swagger
+ * /settings/{key}:
+ *   delete:
+ *     summary: Reset a setting to its default value
+ *     tags: [Settings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: waitlist.offerHours
+ *     responses:
+ *       200:
+ *         description: Setting reset
+ *       404:
+ *         description: Unknown setting
+ */
+router.delete('/:key', validateParams(settingKeySchema), settingsController.resetSetting);
+
+export default router;
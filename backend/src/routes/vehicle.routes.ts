@@ -1,15 +1,36 @@
 import { Router } from 'express';
 import * as vehicleController from '../controllers/vehicle.controller.js';
+import * as documentController from '../controllers/document.controller.js';
+import * as odometerController from '../controllers/odometer.controller.js';
+import * as maintenancePlanController from '../controllers/maintenance-plan.controller.js';
+import * as partController from '../controllers/part.controller.js';
 import { authenticate, authorize, authorizeMinRole } from '../middlewares/auth.js';
-import { validateBody, validateParams } from '../middlewares/validate.js';
-import { uploadImage } from '../middlewares/upload.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import { uploadDocument, uploadImage, uploadSpreadsheet } from '../middlewares/upload.js';
 import {
   createVehicleSchema,
   updateVehicleSchema,
   vehicleIdSchema,
   updateStatusSchema,
   updateMileageSchema,
+  availableVehiclesQuerySchema,
+  vehicleQrQuerySchema,
+  qrStickerSheetQuerySchema,
+  vehicleExportQuerySchema,
+  vehicleImportQuerySchema,
 } from '../validators/vehicle.validator.js';
+import {
+  uploadDocumentSchema,
+  documentVersionSchema,
+  updateDocumentSchema,
+  vehicleDocumentParamsSchema,
+  documentQuerySchema,
+} from '../validators/document.validator.js';
+import {
+  odometerReadingParamsSchema,
+  odometerQuerySchema,
+  correctOdometerReadingSchema,
+} from '../validators/odometer.validator.js';
 
 const router = Router();
 
@@ -45,6 +66,10 @@ router.use(authenticate);
  *         name: type
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: locationId
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: List of vehicles
@@ -56,6 +81,7 @@ router.get('/', vehicleController.getVehicles);
  * /vehicles/available:
  *   get:
  *     summary: Get available vehicles for a date range
+ *     description: A vehicle is available when it is active, not out of service and has no overlapping reservation or maintenance window, whatever its current status.
  *     tags: [Vehicles]
  *     security:
  *       - bearerAuth: []
@@ -76,11 +102,19 @@ router.get('/', vehicleController.getVehicles);
  *         name: type
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: locationId
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: List of available vehicles
  */
-router.get('/available', vehicleController.getAvailableVehicles);
+router.get(
+  '/available',
+  validateQuery(availableVehiclesQuerySchema),
+  vehicleController.getAvailableVehicles
+);
 
 /**
  * @swagger
@@ -96,6 +130,125 @@ router.get('/available', vehicleController.getAvailableVehicles);
  */
 router.get('/favorites', vehicleController.getFavorites);
 
+/**
+ * @swagger
+ * /vehicles/qr-sheet:
+ *   get:
+ *     summary: Printable sheet of QR code stickers for the active fleet
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: locationId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: HTML page laid out for A4 printing
+ *         content:
+ *           text/html: {}
+ */
+router.get(
+  '/qr-sheet',
+  authorizeMinRole('ADMIN'),
+  validateQuery(qrStickerSheetQuerySchema),
+  vehicleController.getQrStickerSheet
+);
+
+/**
+ * @swagger
+ * /vehicles/export:
+ *   get:
+ *     summary: Export the vehicles matching the list filters
+ *     description: The file has the columns of the import, so it can be edited and imported back.
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, xlsx]
+ *           default: csv
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: CSV or XLSX file
+ *         content:
+ *           text/csv: {}
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet: {}
+ */
+router.get(
+  '/export',
+  authorizeMinRole('MANAGER'),
+  validateQuery(vehicleExportQuerySchema),
+  vehicleController.exportVehicles
+);
+
+/**
+ * @swagger
+ * /vehicles/import:
+ *   post:
+ *     summary: Import vehicles from a CSV or XLSX file
+ *     description: Every row is validated like a vehicle creation and checked for duplicate registration numbers and VINs. With dryRun the per-row report is returned without saving; otherwise the whole file is imported in one transaction, or nothing if a row is invalid.
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: updateExisting
+ *         description: Update the vehicles whose registration number already exists instead of rejecting the rows
+ *         schema:
+ *           type: boolean
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Dry-run report
+ *       201:
+ *         description: Vehicles imported
+ *       400:
+ *         description: Unreadable file or missing columns
+ *       422:
+ *         description: Some rows are invalid, nothing was imported
+ */
+router.post(
+  '/import',
+  authorizeMinRole('ADMIN'),
+  validateQuery(vehicleImportQuerySchema),
+  uploadSpreadsheet.single('file'),
+  vehicleController.importVehicles
+);
+
 /**
  * @swagger
  * /vehicles:
@@ -233,6 +386,10 @@ router.delete(
  *                 type: string
  *               reason:
  *                 type: string
+ *               until:
+ *                 type: string
+ *                 format: date-time
+ *                 description: End of an OUT_OF_SERVICE period
  *     responses:
  *       200:
  *         description: Status updated
@@ -273,6 +430,8 @@ router.patch(
  *     responses:
  *       200:
  *         description: Mileage updated
+ *       409:
+ *         description: Mileage below the current reading of the vehicle
  */
 router.patch(
   '/:id/mileage',
@@ -282,6 +441,156 @@ router.patch(
   vehicleController.updateVehicleMileage
 );
 
+/**
+ * @swagger
+ * /vehicles/{id}/odometer:
+ *   get:
+ *     summary: Get the odometer ledger of a vehicle, latest reading first
+ *     description: >
+ *       Every reading from manual updates, check-ins, check-outs, vehicle swaps
+ *       and completed maintenance, with its author and any admin correction
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: flagged
+ *         description: Only readings flagged as an implausible jump
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated odometer readings
+ */
+router.get(
+  '/:id/odometer',
+  authorizeMinRole('MANAGER'),
+  validateParams(vehicleIdSchema),
+  validateQuery(odometerQuerySchema),
+  odometerController.getOdometerReadings
+);
+
+/**
+ * @swagger
+ * /vehicles/{id}/next-services:
+ *   get:
+ *     summary: Get the next service due under each maintenance plan of a vehicle
+ *     description: >
+ *       Due mileage and date projected from the last service under each active
+ *       plan that applies to the vehicle, most urgent first, with the
+ *       maintenance already opened for it if any
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Next services due
+ *       404:
+ *         description: Vehicle not found
+ */
+router.get(
+  '/:id/next-services',
+  validateParams(vehicleIdSchema),
+  maintenancePlanController.getVehicleNextServices
+);
+
+/**
+ * @swagger
+ * /vehicles/{id}/parts:
+ *   get:
+ *     summary: Get the parts fitted to a vehicle
+ *     description: Parts fitted by the completed maintenances of the vehicle, latest first
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Parts history with quantity, unit cost and maintenance
+ *       404:
+ *         description: Vehicle not found
+ */
+router.get(
+  '/:id/parts',
+  authorizeMinRole('MANAGER'),
+  validateParams(vehicleIdSchema),
+  partController.getVehicleParts
+);
+
+/**
+ * @swagger
+ * /vehicles/{id}/odometer/{readingId}:
+ *   patch:
+ *     summary: Correct an odometer reading
+ *     description: >
+ *       The reading must stay between the readings around it. The value first
+ *       recorded is kept and the correction is written to the audit log.
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: readingId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - mileage
+ *               - reason
+ *             properties:
+ *               mileage:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reading corrected
+ *       400:
+ *         description: Reading out of order with the readings around it
+ */
+router.patch(
+  '/:id/odometer/:readingId',
+  authorizeMinRole('ADMIN'),
+  validateParams(odometerReadingParamsSchema),
+  validateBody(correctOdometerReadingSchema),
+  odometerController.correctOdometerReading
+);
+
 /**
  * @swagger
  * /vehicles/{id}/statistics:
@@ -306,6 +615,46 @@ router.get(
   vehicleController.getVehicleStatistics
 );
 
+/**
+ * @swagger
+ * /vehicles/{id}/qr:
+ *   get:
+ *     summary: Render the vehicle QR code
+ *     description: The code links to the scan page of the web app.
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [png, svg]
+ *           default: png
+ *       - in: query
+ *         name: size
+ *         schema:
+ *           type: integer
+ *           default: 300
+ *     responses:
+ *       200:
+ *         description: QR code image
+ *         content:
+ *           image/png: {}
+ *           image/svg+xml: {}
+ */
+router.get(
+  '/:id/qr',
+  validateParams(vehicleIdSchema),
+  validateQuery(vehicleQrQuerySchema),
+  vehicleController.getVehicleQrCode
+);
+
 /**
  * @swagger
  * /vehicles/{id}/photos:
@@ -397,4 +746,234 @@ router.post(
   vehicleController.toggleFavorite
 );
 
+/**
+ * @swagger
+ * /vehicles/{id}/documents:
+ *   get:
+ *     summary: List the current version of each vehicle document
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum:
+ *             - REGISTRATION
+ *             - INSURANCE
+ *             - TECHNICAL_INSPECTION
+ *             - PURCHASE_INVOICE
+ *             - MAINTENANCE_INVOICE
+ *             - OTHER
+ *     responses:
+ *       200:
+ *         description: Vehicle documents
+ *       404:
+ *         description: Vehicle not found
+ */
+router.get(
+  '/:id/documents',
+  validateParams(vehicleIdSchema),
+  validateQuery(documentQuerySchema),
+  documentController.getVehicleDocuments
+);
+
+/**
+ * @swagger
+ * /vehicles/{id}/documents:
+ *   post:
+ *     summary: Upload a vehicle document
+ *     description: The expiry date of an insurance or inspection document is copied to the vehicle.
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file, type]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               type:
+ *                 type: string
+ *                 enum: [REGISTRATION, INSURANCE, TECHNICAL_INSPECTION, PURCHASE_INVOICE, OTHER]
+ *               name:
+ *                 type: string
+ *               expiryDate:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Document uploaded
+ */
+router.post(
+  '/:id/documents',
+  authorizeMinRole('MANAGER'),
+  validateParams(vehicleIdSchema),
+  uploadDocument.single('file'),
+  validateBody(uploadDocumentSchema),
+  documentController.uploadVehicleDocument
+);
+
+/**
+ * @swagger
+ * /vehicles/{id}/documents/{documentId}:
+ *   patch:
+ *     summary: Update the name, expiry date or notes of a document
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Document updated
+ */
+router.patch(
+  '/:id/documents/:documentId',
+  authorizeMinRole('MANAGER'),
+  validateParams(vehicleDocumentParamsSchema),
+  validateBody(updateDocumentSchema),
+  documentController.updateDocument
+);
+
+/**
+ * @swagger
+ * /vehicles/{id}/documents/{documentId}:
+ *   delete:
+ *     summary: Delete a document with all its versions
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Document deleted
+ *       409:
+ *         description: The document is an older version
+ */
+router.delete(
+  '/:id/documents/:documentId',
+  authorizeMinRole('ADMIN'),
+  validateParams(vehicleDocumentParamsSchema),
+  documentController.deleteDocument
+);
+
+/**
+ * @swagger
+ * /vehicles/{id}/documents/{documentId}/versions:
+ *   get:
+ *     summary: Version history of a document, newest first
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Document versions
+ */
+router.get(
+  '/:id/documents/:documentId/versions',
+  validateParams(vehicleDocumentParamsSchema),
+  documentController.getDocumentVersions
+);
+
+/**
+ * @swagger
+ * /vehicles/{id}/documents/{documentId}/versions:
+ *   post:
+ *     summary: Upload a new version of a document
+ *     description: The current version is kept in the history, e.g. when an insurance certificate is renewed.
+ *     tags: [Vehicles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               expiryDate:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: New version uploaded
+ *       409:
+ *         description: The document has already been replaced
+ */
+router.post(
+  '/:id/documents/:documentId/versions',
+  authorizeMinRole('MANAGER'),
+  validateParams(vehicleDocumentParamsSchema),
+  uploadDocument.single('file'),
+  validateBody(documentVersionSchema),
+  documentController.addDocumentVersion
+);
+
 export default router;
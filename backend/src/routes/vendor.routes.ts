@@ -0,0 +1,280 @@
+import { Router } from 'express';
+import * as vendorController from '../controllers/vendor.controller.js';
+import { authenticate, authorizeMinRole } from '../middlewares/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import {
+  createVendorSchema,
+  updateVendorSchema,
+  vendorIdSchema,
+  vendorQuerySchema,
+  vendorReportQuerySchema,
+} from '../validators/vendor.validator.js';
+
+const router = Router();
+
+// All vendor routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /vendors:
+ *   get:
+ *     summary: Get the garages and service providers
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Matches the vendor name or a contact name
+ *       - in: query
+ *         name: specialty
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: locationId
+ *         schema:
+ *           type: string
+ *         description: Only the vendors serving this location
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Vendors with their contacts and served locations
+ */
+router.get(
+  '/',
+  authorizeMinRole('MANAGER'),
+  validateQuery(vendorQuerySchema),
+  vendorController.getVendors
+);
+
+/**
+ * @swagger
+ * /vendors/report:
+ *   get:
+ *     summary: Get spend and performance of every active vendor
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (defaults to 12 months before `to`)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: End of the period (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Spend, turnaround, cost variance and rework rate per vendor
+ */
+router.get(
+  '/report',
+  authorizeMinRole('MANAGER'),
+  validateQuery(vendorReportQuerySchema),
+  vendorController.getVendorReports
+);
+
+/**
+ * @swagger
+ * /vendors/{id}:
+ *   get:
+ *     summary: Get a vendor by ID
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Vendor details
+ *       404:
+ *         description: Vendor not found
+ */
+router.get(
+  '/:id',
+  authorizeMinRole('MANAGER'),
+  validateParams(vendorIdSchema),
+  vendorController.getVendorById
+);
+
+/**
+ * @swagger
+ * /vendors/{id}/report:
+ *   get:
+ *     summary: Get spend and performance of a vendor
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Vendor report
+ *       404:
+ *         description: Vendor not found
+ */
+router.get(
+  '/:id/report',
+  authorizeMinRole('MANAGER'),
+  validateParams(vendorIdSchema),
+  validateQuery(vendorReportQuerySchema),
+  vendorController.getVendorReport
+);
+
+/**
+ * @swagger
+ * /vendors:
+ *   post:
+ *     summary: Register a vendor
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               specialties:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               phone:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               laborRate:
+ *                 type: number
+ *                 description: Hourly labour rate agreed in the contract
+ *               contractRef:
+ *                 type: string
+ *               contractEndDate:
+ *                 type: string
+ *                 format: date-time
+ *               contacts:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     role:
+ *                       type: string
+ *                     phone:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                     isPrimary:
+ *                       type: boolean
+ *               locationIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Locations the vendor serves
+ *     responses:
+ *       201:
+ *         description: Vendor created
+ *       409:
+ *         description: A vendor with this name already exists
+ */
+router.post(
+  '/',
+  authorizeMinRole('ADMIN'),
+  validateBody(createVendorSchema),
+  vendorController.createVendor
+);
+
+/**
+ * @swagger
+ * /vendors/{id}:
+ *   patch:
+ *     summary: Update a vendor, given contacts and locations replace the current ones
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Vendor updated
+ */
+router.patch(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(vendorIdSchema),
+  validateBody(updateVendorSchema),
+  vendorController.updateVendor
+);
+
+/**
+ * @swagger
+ * /vendors/{id}:
+ *   delete:
+ *     summary: Deactivate a vendor, its maintenances keep the link
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Vendor deactivated
+ */
+router.delete(
+  '/:id',
+  authorizeMinRole('ADMIN'),
+  validateParams(vendorIdSchema),
+  vendorController.deleteVendor
+);
+
+export default router;
@@ -0,0 +1,136 @@
+import { Router } from 'express';
+import * as waitlistController from '../controllers/waitlist.controller.js';
+import { authenticate } from '../middlewares/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middlewares/validate.js';
+import {
+  joinWaitlistSchema,
+  waitlistQuerySchema,
+  waitlistEntryIdSchema,
+} from '../validators/waitlist.validator.js';
+
+const router = Router();
+
+// All waitlist routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /waitlist:
+ *   get:
+ *     summary: Get the current user's waitlist entries
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [WAITING, OFFERED, CONFIRMED, EXPIRED, CANCELLED]
+ *     responses:
+ *       200:
+ *         description: List of waitlist entries
+ */
+router.get('/', validateQuery(waitlistQuerySchema), waitlistController.getMyWaitlist);
+
+/**
+ * @swagger
+ * /waitlist:
+ *   post:
+ *     summary: Join the waitlist for a fully booked vehicle or vehicle type
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - startDate
+ *               - endDate
+ *               - purpose
+ *               - destination
+ *             properties:
+ *               vehicleId:
+ *                 type: string
+ *                 description: Specific vehicle, exclusive with vehicleType
+ *               vehicleType:
+ *                 type: string
+ *                 enum: [SEDAN, SUV, MINIVAN, UTILITY, PICKUP, LUXURY, MOTORCYCLE]
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               purpose:
+ *                 type: string
+ *               destination:
+ *                 type: string
+ *               passengerCount:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Added to the waitlist
+ *       400:
+ *         description: The slot is available and can be booked directly
+ *       409:
+ *         description: Already on the waitlist for this slot
+ */
+router.post('/', validateBody(joinWaitlistSchema), waitlistController.joinWaitlist);
+
+/**
+ * @swagger
+ * /waitlist/{id}/confirm:
+ *   post:
+ *     summary: Confirm an offered slot and book it
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Reservation created from the offer
+ *       400:
+ *         description: Offer expired
+ *       409:
+ *         description: No pending offer, or the slot was booked in the meantime
+ */
+router.post(
+  '/:id/confirm',
+  validateParams(waitlistEntryIdSchema),
+  waitlistController.confirmOffer
+);
+
+/**
+ * @swagger
+ * /waitlist/{id}:
+ *   delete:
+ *     summary: Leave the waitlist or decline a pending offer
+ *     tags: [Waitlist]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Removed from the waitlist
+ */
+router.delete(
+  '/:id',
+  validateParams(waitlistEntryIdSchema),
+  waitlistController.leaveWaitlist
+);
+
+export default router;
@@ -15,6 +15,7 @@ import { swaggerSpec } from './config/swagger.js';
 import { generalLimiter } from './middlewares/rateLimiter.js';
 import { errorHandler, notFoundHandler } from './middlewares/errorHandler.js';
 import routes from './routes/index.js';
+import { startScheduledJobs, stopScheduledJobs } from './jobs/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -79,6 +80,7 @@ app.use(errorHandler);
 async function gracefulShutdown(signal: string): Promise<void> {
   logger.info(`${signal} received. Starting graceful shutdown...`);
 
+  stopScheduledJobs();
   await disconnectDatabase();
 
   process.exit(0);
@@ -102,6 +104,10 @@ async function startServer(): Promise<void> {
   try {
     await connectDatabase();
 
+    if (!config.isTest) {
+      startScheduledJobs();
+    }
+
     app.listen(config.port, () => {
       logger.info(`
 ╔════════════════════════════════════════════════════════════╗
@@ -0,0 +1,63 @@
+import { FuelType, Vehicle, VehicleType } from '@prisma/client';
+import { getAvailableVehicles, type VehicleWithRelations } from './vehicle.service.js';
+import { getServiceDueVehicleIds } from './maintenance-plan.service.js';
+
+export interface AllocationCriteria {
+  vehicleType: VehicleType;
+  minSeats?: number;
+  fuelType?: FuelType;
+  pickupLocationId?: string;
+  estimatedMileage?: number;
+}
+
+export interface AllocationCandidate<T extends Vehicle = Vehicle> {
+  vehicle: T;
+  atPickupLocation: boolean;
+  serviceDue: boolean;
+}
+
+/**
+ * Orders matching vehicles from best to worst: vehicles not due for service
+ * first, then those at the pickup location, then the least driven so that
+ * mileage stays balanced across the fleet.
+ */
+export function rankCandidates<T extends Vehicle>(
+  vehicles: T[],
+  criteria: AllocationCriteria,
+  serviceDueIds: Set<string>
+): AllocationCandidate<T>[] {
+  return vehicles
+    .filter(
+      (vehicle) =>
+        vehicle.type === criteria.vehicleType &&
+        vehicle.seats >= (criteria.minSeats ?? 0) &&
+        (!criteria.fuelType || vehicle.fuelType === criteria.fuelType)
+    )
+    .map((vehicle) => ({
+      vehicle,
+      atPickupLocation:
+        !!criteria.pickupLocationId && vehicle.locationId === criteria.pickupLocationId,
+      serviceDue: serviceDueIds.has(vehicle.id),
+    }))
+    .sort(
+      (a, b) =>
+        Number(a.serviceDue) - Number(b.serviceDue) ||
+        Number(b.atPickupLocation) - Number(a.atPickupLocation) ||
+        a.vehicle.currentMileage - b.vehicle.currentMileage
+    );
+}
+
+export async function findAllocationCandidates(
+  criteria: AllocationCriteria,
+  startDate: Date,
+  endDate: Date
+): Promise<AllocationCandidate<VehicleWithRelations>[]> {
+  const vehicles = await getAvailableVehicles(startDate, endDate, criteria.vehicleType);
+  // Due under the maintenance plans by the end of the trip
+  const serviceDueIds = await getServiceDueVehicleIds(
+    vehicles,
+    endDate,
+    criteria.estimatedMileage
+  );
+  return rankCandidates(vehicles, criteria, serviceDueIds);
+}
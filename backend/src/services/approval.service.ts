@@ -0,0 +1,163 @@
+import { ApprovalStep, Prisma, Role, VehicleType } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { calculateDurationInHours } from '../utils/helpers.js';
+import { getSetting, settingDefinitions } from './settings.service.js';
+
+export interface ApprovalPolicy {
+  // Reservations above any of these limits also need the fleet admin
+  costThreshold: number | null;
+  durationHoursThreshold: number | null;
+  vehicleTypes: VehicleType[];
+}
+
+export const APPROVAL_POLICY_SETTING_KEY = 'approval.policy';
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy =
+  settingDefinitions[APPROVAL_POLICY_SETTING_KEY].default;
+
+const FLEET_ADMIN_ROLES: Role[] = ['ADMIN', 'SUPER_ADMIN'];
+
+export const approvalStepLabels: Record<ApprovalStep, string> = {
+  DEPARTMENT_MANAGER: 'department manager',
+  FLEET_ADMIN: 'fleet admin',
+};
+
+export interface ApprovalSubject {
+  userId: string;
+  departmentId: string | null;
+  estimatedCost: number | null;
+  startDate: Date;
+  endDate: Date;
+  vehicleType: VehicleType;
+}
+
+/**
+ * Reads the approval thresholds from the `approval.policy` setting, falling
+ * back to the defaults for any missing key.
+ */
+export async function getApprovalPolicy(
+  client: Prisma.TransactionClient = prisma
+): Promise<ApprovalPolicy> {
+  return getSetting(APPROVAL_POLICY_SETTING_KEY, client);
+}
+
+/**
+ * Lists the thresholds a reservation exceeds; an empty list means the fleet
+ * admin step is not needed.
+ */
+export function getFleetApprovalReasons(
+  policy: ApprovalPolicy,
+  subject: ApprovalSubject
+): string[] {
+  const reasons: string[] = [];
+
+  if (
+    policy.costThreshold !== null &&
+    subject.estimatedCost !== null &&
+    subject.estimatedCost > policy.costThreshold
+  ) {
+    reasons.push(`estimated cost above ${policy.costThreshold}`);
+  }
+
+  if (
+    policy.durationHoursThreshold !== null &&
+    calculateDurationInHours(subject.startDate, subject.endDate) >
+      policy.durationHoursThreshold
+  ) {
+    reasons.push(`duration above ${policy.durationHoursThreshold} hours`);
+  }
+
+  if (policy.vehicleTypes.includes(subject.vehicleType)) {
+    reasons.push(`${subject.vehicleType} vehicle`);
+  }
+
+  return reasons;
+}
+
+async function getDepartmentManagerId(
+  departmentId: string | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  if (!departmentId) {
+    return null;
+  }
+
+  const department = await client.department.findUnique({
+    where: { id: departmentId },
+    select: { managerId: true, isActive: true },
+  });
+
+  return department?.isActive ? department.managerId : null;
+}
+
+/**
+ * Builds the ordered approval chain of a reservation: the requester's
+ * department manager first, then the fleet admin when a threshold is
+ * exceeded. A requester who manages their own department skips the first
+ * step, and a reservation always needs at least one approval.
+ */
+export async function buildApprovalChain(
+  subject: ApprovalSubject,
+  client: Prisma.TransactionClient = prisma
+): Promise<ApprovalStep[]> {
+  const chain: ApprovalStep[] = [];
+
+  const managerId = await getDepartmentManagerId(subject.departmentId, client);
+  if (managerId && managerId !== subject.userId) {
+    chain.push('DEPARTMENT_MANAGER');
+  }
+
+  const policy = await getApprovalPolicy(client);
+  if (chain.length === 0 || getFleetApprovalReasons(policy, subject).length > 0) {
+    chain.push('FLEET_ADMIN');
+  }
+
+  return chain;
+}
+
+export function getNextApprovalStep(
+  chain: ApprovalStep[],
+  current: ApprovalStep | null
+): ApprovalStep | null {
+  if (!current) {
+    return null;
+  }
+  return chain[chain.indexOf(current) + 1] ?? null;
+}
+
+/**
+ * Users who may decide on the given step. Super admins can act on any step.
+ */
+export async function getStepApproverIds(
+  step: ApprovalStep,
+  departmentId: string | null
+): Promise<string[]> {
+  if (step === 'DEPARTMENT_MANAGER') {
+    const managerId = await getDepartmentManagerId(departmentId);
+    return managerId ? [managerId] : [];
+  }
+
+  const admins = await prisma.user.findMany({
+    where: { role: { in: FLEET_ADMIN_ROLES }, isActive: true },
+    select: { id: true },
+  });
+
+  return admins.map((admin) => admin.id);
+}
+
+export async function canApproveStep(
+  step: ApprovalStep,
+  approver: { id: string; role: Role },
+  departmentId: string | null
+): Promise<boolean> {
+  if (approver.role === 'SUPER_ADMIN') {
+    return true;
+  }
+
+  if (step === 'FLEET_ADMIN') {
+    return FLEET_ADMIN_ROLES.includes(approver.role);
+  }
+
+  const managerId = await getDepartmentManagerId(departmentId);
+  return managerId === approver.id;
+}
@@ -17,6 +17,7 @@ import {
   sendWelcomeEmail,
   sendPasswordResetEmail,
 } from './email.service.js';
+import { getSetting } from './settings.service.js';
 import type {
   RegisterInput,
   LoginInput,
@@ -24,8 +25,6 @@ import type {
 } from '../validators/auth.validator.js';
 
 const SALT_ROUNDS = 12;
-const MAX_LOGIN_ATTEMPTS = 5;
-const LOCK_TIME_MINUTES = 30;
 
 function excludePassword(user: {
   id: string;
@@ -191,8 +190,9 @@ export async function login(
       failedLoginAttempts: failedAttempts,
     };
 
-    if (failedAttempts >= MAX_LOGIN_ATTEMPTS) {
-      updateData.lockedUntil = addHours(new Date(), LOCK_TIME_MINUTES / 60);
+    if (failedAttempts >= (await getSetting('security.maxLoginAttempts'))) {
+      const lockTimeMinutes = await getSetting('security.lockTimeMinutes');
+      updateData.lockedUntil = addHours(new Date(), lockTimeMinutes / 60);
       logger.warn(`Account locked due to failed attempts: ${user.email}`);
     }
 
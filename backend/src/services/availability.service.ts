@@ -0,0 +1,191 @@
+import {
+  Maintenance,
+  MaintenanceStatus,
+  Prisma,
+  Reservation,
+  ReservationStatus,
+  Vehicle,
+} from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { NotFoundError } from '../utils/errors.js';
+import { addHours, doDateRangesOverlap } from '../utils/helpers.js';
+
+// Reservations in these statuses hold the vehicle for their time window
+export const BLOCKING_RESERVATION_STATUSES: ReservationStatus[] = [
+  'PENDING',
+  'APPROVED',
+  'IN_PROGRESS',
+];
+
+export const BLOCKING_MAINTENANCE_STATUSES: MaintenanceStatus[] = [
+  'SCHEDULED',
+  'IN_PROGRESS',
+];
+
+// Assumed length of a maintenance window that has no estimated end date
+export const DEFAULT_MAINTENANCE_DURATION_HOURS = 24;
+
+type MaintenanceWindowFields = Pick<
+  Maintenance,
+  'id' | 'status' | 'scheduledDate' | 'startDate' | 'estimatedEndDate'
+>;
+
+type VehicleAvailabilityFields = Pick<
+  Vehicle,
+  'id' | 'status' | 'isActive' | 'outOfServiceUntil'
+>;
+
+export type VehicleConflict =
+  | { type: 'INACTIVE' }
+  | { type: 'OUT_OF_SERVICE'; until: Date | null }
+  | { type: 'RESERVATION'; reservation: Reservation }
+  | {
+      type: 'MAINTENANCE';
+      maintenance: MaintenanceWindowFields;
+      startDate: Date;
+      endDate: Date;
+    };
+
+export interface AvailabilityOptions {
+  excludeReservationIds?: string[];
+  excludeMaintenanceIds?: string[];
+}
+
+/**
+ * Time window during which a maintenance keeps the vehicle in the shop. A
+ * started maintenance without an estimated end is assumed to need at least
+ * another default duration from now.
+ */
+export function getMaintenanceWindow(
+  maintenance: MaintenanceWindowFields,
+  now: Date = new Date()
+): { startDate: Date; endDate: Date } {
+  const startDate = maintenance.startDate ?? maintenance.scheduledDate;
+
+  if (maintenance.estimatedEndDate) {
+    return { startDate, endDate: maintenance.estimatedEndDate };
+  }
+
+  const from =
+    maintenance.status === 'IN_PROGRESS' && now > startDate ? now : startDate;
+  return { startDate, endDate: addHours(from, DEFAULT_MAINTENANCE_DURATION_HOURS) };
+}
+
+/**
+ * Prisma filter for maintenances that may overlap a window ending at
+ * `endDate`; the end of each window is checked with getMaintenanceWindow.
+ */
+export function blockingMaintenanceWhere(
+  endDate: Date,
+  excludeMaintenanceIds: string[] = []
+): Prisma.MaintenanceWhereInput {
+  return {
+    status: { in: BLOCKING_MAINTENANCE_STATUSES },
+    id: excludeMaintenanceIds.length > 0 ? { notIn: excludeMaintenanceIds } : undefined,
+    OR: [
+      { startDate: { lte: endDate } },
+      { startDate: null, scheduledDate: { lte: endDate } },
+    ],
+  };
+}
+
+export function blockingReservationWhere(
+  startDate: Date,
+  endDate: Date,
+  excludeReservationIds: string[] = []
+): Prisma.ReservationWhereInput {
+  return {
+    status: { in: BLOCKING_RESERVATION_STATUSES },
+    id: excludeReservationIds.length > 0 ? { notIn: excludeReservationIds } : undefined,
+    startDate: { lte: endDate },
+    endDate: { gte: startDate },
+  };
+}
+
+/**
+ * Checks the vehicle itself: inactive vehicles are never bookable and an
+ * OUT_OF_SERVICE vehicle is blocked until `outOfServiceUntil` (indefinitely
+ * when unset). Other statuses describe the present only and are ignored.
+ */
+export function getVehicleStatusConflict(
+  vehicle: VehicleAvailabilityFields,
+  startDate: Date
+): VehicleConflict | null {
+  if (!vehicle.isActive) {
+    return { type: 'INACTIVE' };
+  }
+
+  if (
+    vehicle.status === 'OUT_OF_SERVICE' &&
+    (!vehicle.outOfServiceUntil || startDate < vehicle.outOfServiceUntil)
+  ) {
+    return { type: 'OUT_OF_SERVICE', until: vehicle.outOfServiceUntil };
+  }
+
+  return null;
+}
+
+export function findMaintenanceConflict(
+  maintenances: MaintenanceWindowFields[],
+  startDate: Date,
+  endDate: Date
+): VehicleConflict | null {
+  for (const maintenance of maintenances) {
+    const window = getMaintenanceWindow(maintenance);
+    if (doDateRangesOverlap(startDate, endDate, window.startDate, window.endDate)) {
+      return { type: 'MAINTENANCE', maintenance, ...window };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the first reason the vehicle cannot be used during the window, or
+ * null when it is free. Availability is derived from the window rather than
+ * the current status, so a vehicle out on a trip today can be booked for next
+ * week.
+ */
+export async function findVehicleConflict(
+  vehicleId: string,
+  startDate: Date,
+  endDate: Date,
+  options: AvailabilityOptions = {},
+  client: Prisma.TransactionClient = prisma
+): Promise<VehicleConflict | null> {
+  const vehicle = await client.vehicle.findUnique({
+    where: { id: vehicleId },
+    select: { id: true, status: true, isActive: true, outOfServiceUntil: true },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  const statusConflict = getVehicleStatusConflict(vehicle, startDate);
+  if (statusConflict) {
+    return statusConflict;
+  }
+
+  const reservation = await client.reservation.findFirst({
+    where: {
+      vehicleId,
+      ...blockingReservationWhere(startDate, endDate, options.excludeReservationIds),
+    },
+    orderBy: { startDate: 'asc' },
+  });
+
+  if (reservation) {
+    return { type: 'RESERVATION', reservation };
+  }
+
+  const maintenances = await client.maintenance.findMany({
+    where: {
+      vehicleId,
+      ...blockingMaintenanceWhere(endDate, options.excludeMaintenanceIds),
+    },
+    orderBy: { scheduledDate: 'asc' },
+  });
+
+  return findMaintenanceConflict(maintenances, startDate, endDate);
+}
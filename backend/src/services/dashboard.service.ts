@@ -1,8 +1,19 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/prisma.js';
 import { subDays, startOfDay, endOfDay, startOfMonth, endOfMonth } from 'date-fns';
 import type { ChartData, StatisticsData } from '../validators/index.js';
 
-export async function getDashboardStats(): Promise<{
+// Every fleet figure below can be restricted to the vehicles of one site;
+// reservations and maintenances follow the site of their vehicle
+function vehicleScope(locationId?: string): Prisma.VehicleWhereInput {
+  return locationId ? { locationId } : {};
+}
+
+function viaVehicleScope(locationId?: string): { vehicle?: Prisma.VehicleWhereInput } {
+  return locationId ? { vehicle: { locationId } } : {};
+}
+
+export async function getDashboardStats(locationId?: string): Promise<{
   totalVehicles: number;
   availableVehicles: number;
   activeReservations: number;
@@ -21,13 +32,18 @@ export async function getDashboardStats(): Promise<{
     pendingApprovals,
     monthlyReservations,
   ] = await Promise.all([
-    prisma.vehicle.count({ where: { isActive: true } }),
-    prisma.vehicle.count({ where: { isActive: true, status: 'AVAILABLE' } }),
-    prisma.reservation.count({ where: { status: 'IN_PROGRESS' } }),
-    prisma.reservation.count({ where: { status: 'PENDING' } }),
+    prisma.vehicle.count({ where: { isActive: true, ...vehicleScope(locationId) } }),
+    prisma.vehicle.count({
+      where: { isActive: true, status: 'AVAILABLE', ...vehicleScope(locationId) },
+    }),
+    prisma.reservation.count({
+      where: { status: 'IN_PROGRESS', ...viaVehicleScope(locationId) },
+    }),
+    prisma.reservation.count({ where: { status: 'PENDING', ...viaVehicleScope(locationId) } }),
     prisma.reservation.count({
       where: {
         createdAt: { gte: monthStart, lte: monthEnd },
+        ...viaVehicleScope(locationId),
       },
     }),
   ]);
@@ -48,13 +64,15 @@ export async function getDashboardStats(): Promise<{
 }
 
 export async function getReservationTrends(
-  days: number = 30
+  days: number = 30,
+  locationId?: string
 ): Promise<ChartData[]> {
   const startDate = subDays(new Date(), days);
 
   const reservations = await prisma.reservation.findMany({
     where: {
       createdAt: { gte: startDate },
+      ...viaVehicleScope(locationId),
     },
     select: {
       createdAt: true,
@@ -91,9 +109,9 @@ export async function getReservationTrends(
   }));
 }
 
-export async function getVehicleUtilization(): Promise<ChartData[]> {
+export async function getVehicleUtilization(locationId?: string): Promise<ChartData[]> {
   const vehicles = await prisma.vehicle.findMany({
-    where: { isActive: true },
+    where: { isActive: true, ...vehicleScope(locationId) },
     select: {
       id: true,
       brand: true,
@@ -122,9 +140,10 @@ export async function getVehicleUtilization(): Promise<ChartData[]> {
   }));
 }
 
-export async function getReservationsByStatus(): Promise<ChartData[]> {
+export async function getReservationsByStatus(locationId?: string): Promise<ChartData[]> {
   const counts = await prisma.reservation.groupBy({
     by: ['status'],
+    where: viaVehicleScope(locationId),
     _count: true,
   });
 
@@ -136,6 +155,8 @@ export async function getReservationsByStatus(): Promise<ChartData[]> {
     IN_PROGRESS: 'En cours',
     COMPLETED: 'Terminé',
     CANCELLED: 'Annulé',
+    NO_SHOW: 'Non présenté',
+    EXPIRED: 'Expiré',
   };
 
   return counts.map((c) => ({
@@ -144,14 +165,14 @@ export async function getReservationsByStatus(): Promise<ChartData[]> {
   }));
 }
 
-export async function getReservationsByDepartment(): Promise<ChartData[]> {
+export async function getReservationsByDepartment(locationId?: string): Promise<ChartData[]> {
   const departments = await prisma.department.findMany({
     where: { isActive: true },
     select: {
       name: true,
       _count: {
         select: {
-          reservations: true,
+          reservations: { where: viaVehicleScope(locationId) },
         },
       },
     },
@@ -163,10 +184,10 @@ export async function getReservationsByDepartment(): Promise<ChartData[]> {
   }));
 }
 
-export async function getVehiclesByType(): Promise<ChartData[]> {
+export async function getVehiclesByType(locationId?: string): Promise<ChartData[]> {
   const counts = await prisma.vehicle.groupBy({
     by: ['type'],
-    where: { isActive: true },
+    where: { isActive: true, ...vehicleScope(locationId) },
     _count: true,
   });
 
@@ -186,10 +207,10 @@ export async function getVehiclesByType(): Promise<ChartData[]> {
   }));
 }
 
-export async function getVehiclesByStatus(): Promise<ChartData[]> {
+export async function getVehiclesByStatus(locationId?: string): Promise<ChartData[]> {
   const counts = await prisma.vehicle.groupBy({
     by: ['status'],
-    where: { isActive: true },
+    where: { isActive: true, ...vehicleScope(locationId) },
     _count: true,
   });
 
@@ -244,7 +265,8 @@ export async function getTopUsers(limit: number = 10): Promise<
 }
 
 export async function getMonthlyStats(
-  months: number = 12
+  months: number = 12,
+  locationId?: string
 ): Promise<
   Array<{
     month: string;
@@ -270,18 +292,21 @@ export async function getMonthlyStats(
       prisma.reservation.count({
         where: {
           createdAt: { gte: monthStart, lte: monthEnd },
+          ...viaVehicleScope(locationId),
         },
       }),
       prisma.reservation.count({
         where: {
           status: 'COMPLETED',
           actualEndDate: { gte: monthStart, lte: monthEnd },
+          ...viaVehicleScope(locationId),
         },
       }),
       prisma.reservation.aggregate({
         where: {
           status: 'COMPLETED',
           actualEndDate: { gte: monthStart, lte: monthEnd },
+          ...viaVehicleScope(locationId),
         },
         _sum: { actualCost: true },
       }),
@@ -301,7 +326,7 @@ export async function getMonthlyStats(
   return result;
 }
 
-export async function getMaintenanceOverview(): Promise<{
+export async function getMaintenanceOverview(locationId?: string): Promise<{
   scheduled: number;
   inProgress: number;
   overdue: number;
@@ -313,21 +338,23 @@ export async function getMaintenanceOverview(): Promise<{
 
   const [scheduled, inProgress, overdue, costs] = await Promise.all([
     prisma.maintenance.count({
-      where: { status: 'SCHEDULED' },
+      where: { status: 'SCHEDULED', ...viaVehicleScope(locationId) },
     }),
     prisma.maintenance.count({
-      where: { status: 'IN_PROGRESS' },
+      where: { status: 'IN_PROGRESS', ...viaVehicleScope(locationId) },
     }),
     prisma.maintenance.count({
       where: {
         status: 'SCHEDULED',
         scheduledDate: { lt: now },
+        ...viaVehicleScope(locationId),
       },
     }),
     prisma.maintenance.aggregate({
       where: {
         status: 'COMPLETED',
         completedDate: { gte: monthStart, lte: monthEnd },
+        ...viaVehicleScope(locationId),
       },
       _sum: { actualCost: true },
     }),
@@ -341,6 +368,77 @@ export async function getMaintenanceOverview(): Promise<{
   };
 }
 
+export interface FuelOverview {
+  litersThisMonth: number;
+  costThisMonth: number;
+  // Fleet L/100 km measured over the last 30 days, null without full-tank intervals
+  averageConsumption: number | null;
+  anomaliesLast30Days: number;
+  flaggedVehicles: {
+    vehicleId: string;
+    vehicleName: string;
+    registrationNumber: string;
+    anomalyCount: number;
+  }[];
+}
+
+export async function getFuelOverview(locationId?: string): Promise<FuelOverview> {
+  const now = new Date();
+  const monthStart = startOfMonth(now);
+  const since = subDays(now, 30);
+
+  const [monthTotals, recentLogs] = await Promise.all([
+    prisma.fuelLog.aggregate({
+      where: { date: { gte: monthStart, lte: now }, ...viaVehicleScope(locationId) },
+      _sum: { liters: true, amount: true },
+    }),
+    prisma.fuelLog.findMany({
+      where: { date: { gte: since }, ...viaVehicleScope(locationId) },
+      select: {
+        distance: true,
+        consumption: true,
+        anomalies: true,
+        vehicle: { select: { id: true, brand: true, model: true, registrationNumber: true } },
+      },
+    }),
+  ]);
+
+  let measuredLiters = 0;
+  let measuredDistance = 0;
+  const flagged = new Map<string, FuelOverview['flaggedVehicles'][number]>();
+
+  for (const entry of recentLogs) {
+    if (entry.distance && entry.consumption !== null) {
+      measuredLiters += (entry.consumption * entry.distance) / 100;
+      measuredDistance += entry.distance;
+    }
+
+    if (entry.anomalies.length > 0) {
+      const current = flagged.get(entry.vehicle.id) ?? {
+        vehicleId: entry.vehicle.id,
+        vehicleName: `${entry.vehicle.brand} ${entry.vehicle.model}`,
+        registrationNumber: entry.vehicle.registrationNumber,
+        anomalyCount: 0,
+      };
+      current.anomalyCount++;
+      flagged.set(entry.vehicle.id, current);
+    }
+  }
+
+  const flaggedVehicles = [...flagged.values()].sort((a, b) => b.anomalyCount - a.anomalyCount);
+
+  return {
+    litersThisMonth: Math.round((monthTotals._sum.liters || 0) * 10) / 10,
+    costThisMonth: monthTotals._sum.amount || 0,
+    averageConsumption:
+      measuredDistance > 0
+        ? Math.round((measuredLiters / measuredDistance) * 1000) / 10
+        : null,
+    anomaliesLast30Days: flaggedVehicles.reduce((sum, v) => sum + v.anomalyCount, 0),
+    flaggedVehicles,
+  };
+}
+
 export async function getRecentActivity(
   limit: number = 20
 ): Promise<
@@ -421,78 +519,110 @@ export async function getUserDashboardStats(userId: string): Promise<{
   };
 }
 
+export interface ExpiringDocument {
+  // Null when the date only exists on the vehicle, without an uploaded document
+  documentId: string | null;
+  vehicleId: string;
+  vehicleName: string;
+  registrationNumber: string;
+  documentType: string;
+  documentName: string;
+  expiryDate: Date;
+  daysUntilExpiry: number;
+}
+
+/**
+ * Current versions of the vehicle documents expiring within `daysAhead`. The
+ * insurance and inspection dates stored on the vehicle are still reported for
+ * vehicles that have no such document uploaded yet.
+ */
 export async function getExpiringDocuments(
-  daysAhead: number = 30
-): Promise<
-  Array<{
-    vehicleId: string;
-    vehicleName: string;
-    registrationNumber: string;
-    documentType: string;
-    expiryDate: Date;
-    daysUntilExpiry: number;
-  }>
-> {
+  daysAhead: number = 30,
+  locationId?: string
+): Promise<ExpiringDocument[]> {
   const futureDate = new Date();
   futureDate.setDate(futureDate.getDate() + daysAhead);
   const now = new Date();
 
-  const vehicles = await prisma.vehicle.findMany({
-    where: {
-      isActive: true,
-      OR: [
-        {
-          insuranceExpiry: { lte: futureDate, gte: now },
-        },
-        {
-          technicalInspectionExpiry: { lte: futureDate, gte: now },
+  const daysUntil = (date: Date) =>
+    Math.ceil((date.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+
+  const vehicleSelect = {
+    id: true,
+    brand: true,
+    model: true,
+    registrationNumber: true,
+  } as const;
+
+  const [documents, vehicles] = await Promise.all([
+    prisma.document.findMany({
+      where: {
+        expiryDate: { lte: futureDate, gte: now },
+        nextVersion: { is: null },
+        vehicle: { isActive: true, ...vehicleScope(locationId) },
+      },
+      include: { vehicle: { select: vehicleSelect } },
+    }),
+    prisma.vehicle.findMany({
+      where: {
+        isActive: true,
+        ...vehicleScope(locationId),
+        OR: [
+          {
+            insuranceExpiry: { lte: futureDate, gte: now },
+          },
+          {
+            technicalInspectionExpiry: { lte: futureDate, gte: now },
+          },
+        ],
+      },
+      select: {
+        ...vehicleSelect,
+        insuranceExpiry: true,
+        technicalInspectionExpiry: true,
+        documents: {
+          where: { nextVersion: { is: null } },
+          select: { type: true },
         },
-      ],
-    },
-    select: {
-      id: true,
-      brand: true,
-      model: true,
-      registrationNumber: true,
-      insuranceExpiry: true,
-      technicalInspectionExpiry: true,
-    },
-  });
+      },
+    }),
+  ]);
 
-  const results: Array<{
-    vehicleId: string;
-    vehicleName: string;
-    registrationNumber: string;
-    documentType: string;
-    expiryDate: Date;
-    daysUntilExpiry: number;
-  }> = [];
+  const results: ExpiringDocument[] = documents.map((document) => ({
+    documentId: document.id,
+    vehicleId: document.vehicleId,
+    vehicleName: `${document.vehicle.brand} ${document.vehicle.model}`,
+    registrationNumber: document.vehicle.registrationNumber,
+    documentType: document.type,
+    documentName: document.name,
+    expiryDate: document.expiryDate!,
+    daysUntilExpiry: daysUntil(document.expiryDate!),
+  }));
 
   for (const v of vehicles) {
-    if (v.insuranceExpiry && v.insuranceExpiry <= futureDate) {
-      results.push({
-        vehicleId: v.id,
-        vehicleName: `${v.brand} ${v.model}`,
-        registrationNumber: v.registrationNumber,
-        documentType: 'Insurance',
-        expiryDate: v.insuranceExpiry,
-        daysUntilExpiry: Math.ceil(
-          (v.insuranceExpiry.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-        ),
-      });
-    }
-    if (v.technicalInspectionExpiry && v.technicalInspectionExpiry <= futureDate) {
-      results.push({
-        vehicleId: v.id,
-        vehicleName: `${v.brand} ${v.model}`,
-        registrationNumber: v.registrationNumber,
-        documentType: 'Technical Inspection',
-        expiryDate: v.technicalInspectionExpiry,
-        daysUntilExpiry: Math.ceil(
-          (v.technicalInspectionExpiry.getTime() - now.getTime()) /
-            (1000 * 60 * 60 * 24)
-        ),
-      });
+    const uploaded = new Set(v.documents.map((document) => document.type));
+    const dates = [
+      { type: 'INSURANCE', name: 'Insurance', date: v.insuranceExpiry },
+      {
+        type: 'TECHNICAL_INSPECTION',
+        name: 'Technical Inspection',
+        date: v.technicalInspectionExpiry,
+      },
+    ];
+
+    for (const { type, name, date } of dates) {
+      if (date && date >= now && date <= futureDate && !uploaded.has(type)) {
+        results.push({
+          documentId: null,
+          vehicleId: v.id,
+          vehicleName: `${v.brand} ${v.model}`,
+          registrationNumber: v.registrationNumber,
+          documentType: type,
+          documentName: name,
+          expiryDate: date,
+          daysUntilExpiry: daysUntil(date),
+        });
+      }
     }
   }
 
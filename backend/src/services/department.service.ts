@@ -0,0 +1,613 @@
+import { Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import {
+  NotFoundError,
+  ConflictError,
+  BadRequestError,
+  ForbiddenError,
+} from '../utils/errors.js';
+import type { ReservationQueryInput } from '../validators/reservation.validator.js';
+import type {
+  CreateDepartmentInput,
+  UpdateDepartmentInput,
+  DeactivateDepartmentInput,
+  DepartmentQueryInput,
+  DepartmentSpendQueryInput,
+} from '../validators/department.validator.js';
+import { createNotification } from './notification.service.js';
+import { getReservations } from './reservation.service.js';
+import { getNextApprovalStep, getStepApproverIds } from './approval.service.js';
+
+type DepartmentWithCounts = Prisma.DepartmentGetPayload<{
+  include: { _count: { select: { users: true } } };
+}>;
+
+export type DepartmentWithManager = DepartmentWithCounts & {
+  manager: DepartmentMember | null;
+};
+
+type DepartmentMember = Prisma.UserGetPayload<{ select: typeof memberSelect }>;
+
+export interface DepartmentSpend {
+  departmentId: string;
+  from: string;
+  to: string;
+  reservationCount: number;
+  completedCount: number;
+  // Actual cost of the completed trips
+  spent: number;
+  // Estimated cost of the approved trips that have not ended yet
+  committed: number;
+  distance: number;
+  byMonth: Array<{ month: string; spent: number; reservations: number }>;
+  byUser: Array<{ userId: string; name: string; spent: number; reservations: number }>;
+}
+
+// Roles that see every department, other users only the one they manage
+const DEPARTMENT_ADMIN_ROLES: Role[] = ['ADMIN', 'SUPER_ADMIN'];
+
+// Roles a department manager must hold
+export const DEPARTMENT_MANAGER_ROLES: Role[] = ['MANAGER', ...DEPARTMENT_ADMIN_ROLES];
+
+const memberSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  role: true,
+  isActive: true,
+} as const;
+
+const activeMemberCount = {
+  _count: { select: { users: { where: { isActive: true } } } },
+} as const;
+
+async function withManagers(
+  departments: DepartmentWithCounts[]
+): Promise<DepartmentWithManager[]> {
+  const managerIds = departments
+    .map((d) => d.managerId)
+    .filter((id): id is string => id !== null);
+
+  const managers = managerIds.length
+    ? await prisma.user.findMany({ where: { id: { in: managerIds } }, select: memberSelect })
+    : [];
+
+  return departments.map((department) => ({
+    ...department,
+    manager: managers.find((m) => m.id === department.managerId) ?? null,
+  }));
+}
+
+async function findDepartment(id: string): Promise<DepartmentWithCounts> {
+  const department = await prisma.department.findUnique({
+    where: { id },
+    include: activeMemberCount,
+  });
+
+  if (!department) {
+    throw new NotFoundError('Department not found');
+  }
+
+  return department;
+}
+
+async function assertUniqueNameAndCode(
+  data: { name?: string; code?: string },
+  excludeId?: string
+): Promise<void> {
+  const or: Prisma.DepartmentWhereInput[] = [];
+  if (data.name) or.push({ name: { equals: data.name, mode: 'insensitive' } });
+  if (data.code) or.push({ code: data.code });
+
+  if (or.length === 0) {
+    return;
+  }
+
+  const existing = await prisma.department.findFirst({
+    where: { OR: or, ...(excludeId && { id: { not: excludeId } }) },
+    select: { name: true, code: true },
+  });
+
+  if (existing) {
+    throw new ConflictError(
+      existing.code === data.code
+        ? 'A department with this code already exists'
+        : 'A department with this name already exists'
+    );
+  }
+}
+
+async function assertCanManage(
+  departmentId: string,
+  viewer: { id: string; role: Role }
+): Promise<DepartmentWithCounts> {
+  const department = await findDepartment(departmentId);
+
+  if (!DEPARTMENT_ADMIN_ROLES.includes(viewer.role) && department.managerId !== viewer.id) {
+    throw new ForbiddenError('Only the department manager can access this department');
+  }
+
+  return department;
+}
+
+/**
+ * Checks that users can be assigned to the department. Used when creating
+ * or updating a user so nobody joins a deactivated department.
+ */
+export async function assertDepartmentAssignable(departmentId: string): Promise<void> {
+  const department = await prisma.department.findUnique({
+    where: { id: departmentId },
+    select: { isActive: true },
+  });
+
+  if (!department) {
+    throw new BadRequestError('Department not found');
+  }
+
+  if (!department.isActive) {
+    throw new BadRequestError('Department is inactive');
+  }
+}
+
+// Changing the manager would leave these reservations with an approver who
+// never saw them, or none at all
+async function assertNoPendingManagerApprovals(departmentId: string): Promise<void> {
+  const pendingApprovals = await prisma.reservation.count({
+    where: { departmentId, status: 'PENDING', approvalStep: 'DEPARTMENT_MANAGER' },
+  });
+
+  if (pendingApprovals > 0) {
+    throw new ConflictError(
+      `${pendingApprovals} reservation(s) are waiting for the department manager's approval`,
+      'DEPARTMENT_HAS_PENDING_APPROVALS'
+    );
+  }
+}
+
+/**
+ * A manager who leaves their department, loses the manager role or whose
+ * account is deactivated no longer manages it. Reservations still waiting
+ * for their approval move on to the next step of their chain, the fleet admin
+ * when the manager was the only approver.
+ */
+export async function releaseDepartmentManagement(
+  userId: string,
+  keepDepartmentId?: string | null
+): Promise<void> {
+  const departments = await prisma.department.findMany({
+    where: {
+      managerId: userId,
+      ...(keepDepartmentId && { id: { not: keepDepartmentId } }),
+    },
+    select: { id: true },
+  });
+
+  if (departments.length === 0) {
+    return;
+  }
+
+  const departmentIds = departments.map((d) => d.id);
+
+  const escalated = await prisma.$transaction(async (tx) => {
+    await tx.department.updateMany({
+      where: { id: { in: departmentIds } },
+      data: { managerId: null },
+    });
+
+    const pending = await tx.reservation.findMany({
+      where: {
+        departmentId: { in: departmentIds },
+        status: 'PENDING',
+        approvalStep: 'DEPARTMENT_MANAGER',
+      },
+      select: { id: true, referenceNumber: true, approvalChain: true },
+    });
+
+    for (const reservation of pending) {
+      const next = getNextApprovalStep(reservation.approvalChain, 'DEPARTMENT_MANAGER');
+
+      await tx.reservation.update({
+        where: { id: reservation.id },
+        data: {
+          approvalStep: next ?? 'FLEET_ADMIN',
+          ...(!next && { approvalChain: [...reservation.approvalChain, 'FLEET_ADMIN'] }),
+        },
+      });
+
+      await tx.reservationHistory.create({
+        data: {
+          reservationId: reservation.id,
+          previousStatus: 'PENDING',
+          newStatus: 'PENDING',
+          changedBy: null,
+          comment: 'The department manager left, approval passed to the fleet admin',
+        },
+      });
+    }
+
+    return pending;
+  });
+
+  if (escalated.length === 0) {
+    return;
+  }
+
+  const adminIds = await getStepApproverIds('FLEET_ADMIN', null);
+  for (const reservation of escalated) {
+    for (const adminId of adminIds) {
+      await createNotification({
+        userId: adminId,
+        type: 'RESERVATION_CREATED',
+        title: 'Reservation Awaiting Approval',
+        message:
+          `Reservation ${reservation.referenceNumber} was waiting for a department manager ` +
+          'who left and now needs your approval',
+        entityType: 'reservation',
+        entityId: reservation.id,
+      });
+    }
+  }
+
+  logger.info(
+    `Manager ${userId} released ${departmentIds.length} department(s), ` +
+      `${escalated.length} pending approval(s) passed to the fleet admin`
+  );
+}
+
+export async function getDepartments(
+  query: DepartmentQueryInput
+): Promise<DepartmentWithManager[]> {
+  const where: Prisma.DepartmentWhereInput = {};
+
+  if (!query.includeInactive) {
+    where.isActive = true;
+  }
+
+  if (query.search) {
+    where.OR = [
+      { name: { contains: query.search, mode: 'insensitive' } },
+      { code: { contains: query.search, mode: 'insensitive' } },
+    ];
+  }
+
+  const departments = await prisma.department.findMany({
+    where,
+    include: activeMemberCount,
+    orderBy: { name: 'asc' },
+  });
+
+  return withManagers(departments);
+}
+
+export async function getDepartmentById(id: string): Promise<DepartmentWithManager> {
+  const [department] = await withManagers([await findDepartment(id)]);
+  return department!;
+}
+
+export async function createDepartment(
+  data: CreateDepartmentInput,
+  creatorId: string
+): Promise<DepartmentWithManager> {
+  await assertUniqueNameAndCode(data);
+
+  const department = await prisma.department.create({
+    data,
+    include: activeMemberCount,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: creatorId,
+      action: 'CREATE',
+      entityType: 'department',
+      entityId: department.id,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Department created: ${department.code} by ${creatorId}`);
+
+  return { ...department, manager: null };
+}
+
+export async function updateDepartment(
+  id: string,
+  data: UpdateDepartmentInput,
+  updaterId: string
+): Promise<DepartmentWithManager> {
+  const existing = await findDepartment(id);
+
+  await assertUniqueNameAndCode(
+    {
+      name: data.name?.toLowerCase() !== existing.name.toLowerCase() ? data.name : undefined,
+      code: data.code !== existing.code ? data.code : undefined,
+    },
+    id
+  );
+
+  if (data.managerId) {
+    const manager = await prisma.user.findUnique({
+      where: { id: data.managerId },
+      select: { departmentId: true, isActive: true, role: true },
+    });
+
+    if (!manager || !manager.isActive || manager.departmentId !== id) {
+      throw new BadRequestError('The manager must be an active member of the department');
+    }
+
+    if (!DEPARTMENT_MANAGER_ROLES.includes(manager.role)) {
+      throw new BadRequestError('The manager must have at least the MANAGER role');
+    }
+  }
+
+  // The outgoing manager decides on the reservations already waiting for them
+  if (
+    data.managerId !== undefined &&
+    data.managerId !== existing.managerId &&
+    existing.managerId !== null
+  ) {
+    await assertNoPendingManagerApprovals(id);
+  }
+
+  const department = await prisma.department.update({
+    where: { id },
+    data,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: updaterId,
+      action: 'UPDATE',
+      entityType: 'department',
+      entityId: id,
+      oldValues: {
+        name: existing.name,
+        code: existing.code,
+        description: existing.description,
+        managerId: existing.managerId,
+      } as Prisma.InputJsonValue,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Department updated: ${department.code} by ${updaterId}`);
+
+  return getDepartmentById(department.id);
+}
+
+/**
+ * Deactivates a department. Its members move to `reassignToId`, which is
+ * required as long as the department has users. Reservations keep their
+ * department for reporting, but none may still be waiting on the manager.
+ */
+export async function deactivateDepartment(
+  id: string,
+  data: DeactivateDepartmentInput,
+  deactivatorId: string
+): Promise<{ reassignedUsers: number }> {
+  const department = await findDepartment(id);
+
+  if (!department.isActive) {
+    throw new BadRequestError('Department is already inactive');
+  }
+
+  await assertNoPendingManagerApprovals(id);
+
+  const members = await prisma.user.findMany({
+    where: { departmentId: id },
+    select: { id: true, isActive: true },
+  });
+
+  let target: { id: string; name: string } | null = null;
+
+  if (members.length > 0) {
+    if (!data.reassignToId) {
+      throw new ConflictError(
+        `Department still has ${members.length} member(s); choose a department to move them to`,
+        'DEPARTMENT_HAS_MEMBERS'
+      );
+    }
+
+    if (data.reassignToId === id) {
+      throw new BadRequestError('Members cannot be reassigned to the department being closed');
+    }
+
+    target = await prisma.department.findFirst({
+      where: { id: data.reassignToId, isActive: true },
+      select: { id: true, name: true },
+    });
+
+    if (!target) {
+      throw new BadRequestError('Target department not found or inactive');
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (target) {
+      await tx.user.updateMany({
+        where: { departmentId: id },
+        data: { departmentId: target.id },
+      });
+    }
+
+    await tx.department.update({
+      where: { id },
+      data: { isActive: false, managerId: null },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: deactivatorId,
+        action: 'DELETE',
+        entityType: 'department',
+        entityId: id,
+        oldValues: { isActive: true, managerId: department.managerId } as Prisma.InputJsonValue,
+        newValues: {
+          isActive: false,
+          reassignToId: target?.id ?? null,
+          reassignedUsers: members.length,
+        } as Prisma.InputJsonValue,
+      },
+    });
+  });
+
+  if (target) {
+    for (const member of members.filter((m) => m.isActive)) {
+      await createNotification({
+        userId: member.id,
+        type: 'SYSTEM',
+        title: 'Department Changed',
+        message:
+          `The ${department.name} department was closed. ` +
+          `You are now a member of ${target.name}.`,
+        entityType: 'department',
+        entityId: target.id,
+      });
+    }
+  }
+
+  logger.info(
+    `Department deactivated: ${department.code} by ${deactivatorId}, ` +
+      `${members.length} member(s) moved to ${target?.id ?? 'none'}`
+  );
+
+  return { reassignedUsers: members.length };
+}
+
+export async function reactivateDepartment(
+  id: string,
+  updaterId: string
+): Promise<DepartmentWithManager> {
+  const department = await findDepartment(id);
+
+  if (department.isActive) {
+    throw new BadRequestError('Department is already active');
+  }
+
+  await prisma.department.update({
+    where: { id },
+    data: { isActive: true },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: updaterId,
+      action: 'UPDATE',
+      entityType: 'department',
+      entityId: id,
+      oldValues: { isActive: false } as Prisma.InputJsonValue,
+      newValues: { isActive: true } as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Department reactivated: ${department.code} by ${updaterId}`);
+
+  return getDepartmentById(id);
+}
+
+export async function getDepartmentMembers(
+  id: string,
+  viewer: { id: string; role: Role }
+): Promise<DepartmentMember[]> {
+  await assertCanManage(id, viewer);
+
+  return prisma.user.findMany({
+    where: { departmentId: id },
+    select: memberSelect,
+    orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }],
+  });
+}
+
+export async function getDepartmentReservations(
+  id: string,
+  query: ReservationQueryInput,
+  viewer: { id: string; role: Role }
+): ReturnType<typeof getReservations> {
+  await assertCanManage(id, viewer);
+
+  // The department filter replaces the per-user scoping of the reservation list
+  return getReservations({ ...query, departmentId: id });
+}
+
+export async function getDepartmentSpend(
+  id: string,
+  query: DepartmentSpendQueryInput,
+  viewer: { id: string; role: Role }
+): Promise<DepartmentSpend> {
+  await assertCanManage(id, viewer);
+
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(Date.UTC(to.getUTCFullYear(), 0, 1));
+
+  const reservations = await prisma.reservation.findMany({
+    where: {
+      departmentId: id,
+      startDate: { gte: from, lt: to },
+      status: { in: ['APPROVED', 'IN_PROGRESS', 'COMPLETED'] },
+    },
+    select: {
+      userId: true,
+      status: true,
+      startDate: true,
+      estimatedCost: true,
+      actualCost: true,
+      actualMileage: true,
+      user: { select: { firstName: true, lastName: true } },
+    },
+  });
+
+  const byMonth = new Map<string, { spent: number; reservations: number }>();
+  const byUser = new Map<string, { name: string; spent: number; reservations: number }>();
+  let spent = 0;
+  let committed = 0;
+  let distance = 0;
+  let completedCount = 0;
+
+  for (const reservation of reservations) {
+    const cost = reservation.status === 'COMPLETED' ? reservation.actualCost ?? 0 : 0;
+
+    if (reservation.status === 'COMPLETED') {
+      completedCount++;
+      spent += cost;
+      distance += reservation.actualMileage ?? 0;
+    } else {
+      committed += reservation.estimatedCost ?? 0;
+    }
+
+    const month = reservation.startDate.toISOString().slice(0, 7);
+    const monthEntry = byMonth.get(month) ?? { spent: 0, reservations: 0 };
+    monthEntry.spent += cost;
+    monthEntry.reservations++;
+    byMonth.set(month, monthEntry);
+
+    const userEntry = byUser.get(reservation.userId) ?? {
+      name: `${reservation.user.firstName} ${reservation.user.lastName}`,
+      spent: 0,
+      reservations: 0,
+    };
+    userEntry.spent += cost;
+    userEntry.reservations++;
+    byUser.set(reservation.userId, userEntry);
+  }
+
+  return {
+    departmentId: id,
+    from: from.toISOString(),
+    to: to.toISOString(),
+    reservationCount: reservations.length,
+    completedCount,
+    spent,
+    committed,
+    distance,
+    byMonth: [...byMonth.entries()]
+      .map(([month, entry]) => ({ month, ...entry }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+    byUser: [...byUser.entries()]
+      .map(([userId, entry]) => ({ userId, ...entry }))
+      .sort((a, b) => b.spent - a.spent),
+  };
+}
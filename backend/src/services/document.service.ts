@@ -0,0 +1,391 @@
+import { Document, Prisma } from '@prisma/client';
+import fs from 'fs/promises';
+import path from 'path';
+import { prisma } from '../config/prisma.js';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import type {
+  DocumentQueryInput,
+  DocumentType,
+  DocumentVersionInput,
+  UpdateDocumentInput,
+  UploadDocumentInput,
+} from '../validators/document.validator.js';
+import type { UploadInvoiceInput } from '../validators/maintenance.validator.js';
+
+// Documents whose expiry is also kept on the vehicle, where the allocation,
+// the vehicle form and the expiry alerts read it
+const VEHICLE_EXPIRY_FIELDS: Partial<
+  Record<DocumentType, 'insuranceExpiry' | 'technicalInspectionExpiry'>
+> = {
+  INSURANCE: 'insuranceExpiry',
+  TECHNICAL_INSPECTION: 'technicalInspectionExpiry',
+};
+
+const documentInclude = {
+  uploadedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} as const;
+
+export type DocumentWithUploader = Prisma.DocumentGetPayload<{
+  include: typeof documentInclude;
+}>;
+
+type UploadedFile = Pick<Express.Multer.File, 'filename' | 'originalname' | 'mimetype' | 'size'>;
+
+// Only the current version of a document is listed; older versions are
+// reached through its history
+const currentVersionWhere: Prisma.DocumentWhereInput = { nextVersion: { is: null } };
+
+async function assertVehicleExists(vehicleId: string): Promise<void> {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: vehicleId },
+    select: { id: true },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+}
+
+async function getVehicleDocument(
+  vehicleId: string,
+  documentId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<Document & { nextVersion: { id: string } | null }> {
+  const document = await client.document.findFirst({
+    where: { id: documentId, vehicleId },
+    include: { nextVersion: { select: { id: true } } },
+  });
+
+  if (!document) {
+    throw new NotFoundError('Document not found');
+  }
+
+  return document;
+}
+
+async function syncVehicleExpiry(
+  document: Pick<Document, 'vehicleId' | 'type' | 'expiryDate'>,
+  client: Prisma.TransactionClient
+): Promise<void> {
+  const field = VEHICLE_EXPIRY_FIELDS[document.type as DocumentType];
+
+  if (field && document.expiryDate) {
+    await client.vehicle.update({
+      where: { id: document.vehicleId },
+      data: { [field]: document.expiryDate },
+    });
+  }
+}
+
+export async function getVehicleDocuments(
+  vehicleId: string,
+  query: DocumentQueryInput
+): Promise<DocumentWithUploader[]> {
+  await assertVehicleExists(vehicleId);
+
+  return prisma.document.findMany({
+    where: { vehicleId, type: query.type, ...currentVersionWhere },
+    include: documentInclude,
+    orderBy: [{ type: 'asc' }, { createdAt: 'desc' }],
+  });
+}
+
+export async function uploadVehicleDocument(
+  vehicleId: string,
+  file: UploadedFile,
+  data: UploadDocumentInput,
+  userId: string
+): Promise<DocumentWithUploader> {
+  await assertVehicleExists(vehicleId);
+
+  const document = await prisma.$transaction(async (tx) => {
+    const created = await tx.document.create({
+      data: {
+        vehicleId,
+        type: data.type,
+        name: data.name ?? file.originalname,
+        url: `/uploads/${file.filename}`,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        expiryDate: data.expiryDate ? new Date(data.expiryDate) : null,
+        notes: data.notes,
+        uploadedById: userId,
+      },
+      include: documentInclude,
+    });
+
+    await syncVehicleExpiry(created, tx);
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'CREATE',
+        entityType: 'document',
+        entityId: created.id,
+        newValues: { vehicleId, ...data } as Prisma.InputJsonValue,
+      },
+    });
+
+    return created;
+  });
+
+  logger.info(`Document ${document.type} uploaded for vehicle ${vehicleId}`);
+
+  return document;
+}
+
+/**
+ * Uploads a new file for an existing document, e.g. the renewed insurance
+ * certificate. The previous file is kept as an older version.
+ */
+export async function addDocumentVersion(
+  vehicleId: string,
+  documentId: string,
+  file: UploadedFile,
+  data: DocumentVersionInput,
+  userId: string
+): Promise<DocumentWithUploader> {
+  const document = await prisma.$transaction(async (tx) => {
+    const previous = await getVehicleDocument(vehicleId, documentId, tx);
+
+    if (previous.nextVersion) {
+      throw new ConflictError('Only the current version of a document can be replaced');
+    }
+
+    const created = await tx.document.create({
+      data: {
+        vehicleId,
+        type: previous.type,
+        name: previous.name,
+        url: `/uploads/${file.filename}`,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        expiryDate: data.expiryDate ? new Date(data.expiryDate) : null,
+        notes: data.notes,
+        version: previous.version + 1,
+        previousVersionId: previous.id,
+        uploadedById: userId,
+      },
+      include: documentInclude,
+    });
+
+    await syncVehicleExpiry(created, tx);
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entityType: 'document',
+        entityId: created.id,
+        oldValues: { id: previous.id, version: previous.version, url: previous.url },
+        newValues: { version: created.version, ...data } as Prisma.InputJsonValue,
+      },
+    });
+
+    return created;
+  });
+
+  logger.info(`Document ${documentId} replaced by version ${document.version}`);
+
+  return document;
+}
+
+/**
+ * Attaches the invoice of a maintenance. Uploading again keeps the previous
+ * file as an older version of the invoice.
+ */
+export async function uploadMaintenanceInvoice(
+  maintenanceId: string,
+  file: UploadedFile,
+  data: UploadInvoiceInput,
+  userId: string
+): Promise<DocumentWithUploader> {
+  const maintenance = await prisma.maintenance.findUnique({
+    where: { id: maintenanceId },
+    select: { id: true, vehicleId: true, status: true },
+  });
+
+  if (!maintenance) {
+    throw new NotFoundError('Maintenance record not found');
+  }
+
+  if (maintenance.status === 'CANCELLED') {
+    throw new BadRequestError('A cancelled maintenance cannot be invoiced');
+  }
+
+  const document = await prisma.$transaction(async (tx) => {
+    const previous = await tx.document.findFirst({
+      where: { maintenanceId, type: 'MAINTENANCE_INVOICE', ...currentVersionWhere },
+    });
+
+    const created = await tx.document.create({
+      data: {
+        vehicleId: maintenance.vehicleId,
+        maintenanceId,
+        type: 'MAINTENANCE_INVOICE',
+        name: file.originalname,
+        url: `/uploads/${file.filename}`,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        version: previous ? previous.version + 1 : 1,
+        previousVersionId: previous?.id,
+        uploadedById: userId,
+      },
+      include: documentInclude,
+    });
+
+    if (data.invoiceNumber) {
+      await tx.maintenance.update({
+        where: { id: maintenanceId },
+        data: { invoiceNumber: data.invoiceNumber },
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: previous ? 'UPDATE' : 'CREATE',
+        entityType: 'document',
+        entityId: created.id,
+        newValues: {
+          maintenanceId,
+          version: created.version,
+          ...data,
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return created;
+  });
+
+  logger.info(`Invoice uploaded for maintenance ${maintenanceId}`);
+
+  return document;
+}
+
+// Newest first, starting from the given version
+export async function getDocumentVersions(
+  vehicleId: string,
+  documentId: string
+): Promise<DocumentWithUploader[]> {
+  const versions: DocumentWithUploader[] = [];
+  let current: DocumentWithUploader | null = await prisma.document.findFirst({
+    where: { id: documentId, vehicleId },
+    include: documentInclude,
+  });
+
+  if (!current) {
+    throw new NotFoundError('Document not found');
+  }
+
+  while (current) {
+    versions.push(current);
+    current = current.previousVersionId
+      ? await prisma.document.findUnique({
+          where: { id: current.previousVersionId },
+          include: documentInclude,
+        })
+      : null;
+  }
+
+  return versions;
+}
+
+export async function updateDocument(
+  vehicleId: string,
+  documentId: string,
+  data: UpdateDocumentInput,
+  userId: string
+): Promise<DocumentWithUploader> {
+  const existing = await getVehicleDocument(vehicleId, documentId);
+
+  return prisma.$transaction(async (tx) => {
+    const document = await tx.document.update({
+      where: { id: documentId },
+      data: {
+        name: data.name,
+        notes: data.notes,
+        expiryDate:
+          data.expiryDate === undefined
+            ? undefined
+            : data.expiryDate && new Date(data.expiryDate),
+      },
+      include: documentInclude,
+    });
+
+    // Correcting an old version must not overwrite the dates of the current one
+    if (!existing.nextVersion) {
+      await syncVehicleExpiry(document, tx);
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entityType: 'document',
+        entityId: documentId,
+        oldValues: {
+          name: existing.name,
+          notes: existing.notes,
+          expiryDate: existing.expiryDate?.toISOString() ?? null,
+        },
+        newValues: data as Prisma.InputJsonValue,
+      },
+    });
+
+    return document;
+  });
+}
+
+/**
+ * Deletes a document with all its versions, files included. Deleting an older
+ * version is refused so the history of a current document stays complete.
+ */
+export async function deleteDocument(
+  vehicleId: string,
+  documentId: string,
+  userId: string
+): Promise<void> {
+  const document = await getVehicleDocument(vehicleId, documentId);
+
+  if (document.nextVersion) {
+    throw new ConflictError('Only the current version of a document can be deleted');
+  }
+
+  const versions = await getDocumentVersions(vehicleId, documentId);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.document.deleteMany({
+      where: { id: { in: versions.map((version) => version.id) } },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'DELETE',
+        entityType: 'document',
+        entityId: documentId,
+        oldValues: {
+          vehicleId,
+          type: document.type,
+          name: document.name,
+          versions: versions.length,
+        },
+      },
+    });
+  });
+
+  // Files are removed once the rows are gone; a leftover file is only logged
+  for (const version of versions) {
+    const filePath = path.join(config.upload.dir, path.basename(version.url));
+    await fs.unlink(filePath).catch((error: unknown) => {
+      logger.warn(`Could not delete document file ${filePath}:`, error);
+    });
+  }
+
+  logger.info(`Document ${documentId} deleted with ${versions.length} version(s)`);
+}
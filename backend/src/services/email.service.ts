@@ -239,6 +239,8 @@ export async function sendReservationStatusEmail(
     REJECTED: '#ef4444',
     CANCELLED: '#f59e0b',
     COMPLETED: '#3b82f6',
+    NO_SHOW: '#ef4444',
+    EXPIRED: '#6b7280',
   };
 
   const statusLabels: Record<string, string> = {
@@ -246,6 +248,8 @@ export async function sendReservationStatusEmail(
     REJECTED: 'Refusée',
     CANCELLED: 'Annulée',
     COMPLETED: 'Terminée',
+    NO_SHOW: 'Non présentée',
+    EXPIRED: 'Expirée',
   };
 
   const color = statusColors[reservation.status] || '#6b7280';
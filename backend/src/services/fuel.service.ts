@@ -0,0 +1,366 @@
+import { FuelAnomaly, FuelLog, Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/errors.js';
+import {
+  parsePaginationParams,
+  createPaginatedResponse,
+  calculateSkip,
+} from '../utils/helpers.js';
+import type { PaginatedResponse } from '../validators/index.js';
+import { createNotification } from './notification.service.js';
+import { getSetting } from './settings.service.js';
+import type { CreateFuelLogInput, FuelLogQueryInput } from '../validators/fuel.validator.js';
+
+type FuelLogWithRelations = Prisma.FuelLogGetPayload<{
+  include: {
+    vehicle: {
+      select: {
+        id: true;
+        brand: true;
+        model: true;
+        registrationNumber: true;
+      };
+    };
+    user: {
+      select: {
+        id: true;
+        firstName: true;
+        lastName: true;
+      };
+    };
+    reservation: {
+      select: {
+        id: true;
+        referenceNumber: true;
+      };
+    };
+  };
+}>;
+
+type Refuel = Pick<FuelLog, 'liters' | 'mileage' | 'isFullTank'>;
+
+export interface RefuelAnalysis {
+  distance: number | null;
+  consumption: number | null;
+  anomalies: FuelAnomaly[];
+}
+
+export interface VehicleFuelSummary {
+  refuelCount: number;
+  totalLiters: number;
+  totalCost: number;
+  // Measured L/100 km over every full-tank interval, null until two full tanks
+  averageConsumption: number | null;
+  // Vehicle spec, `Vehicle.fuelConsumption`
+  ratedConsumption: number | null;
+  // Percentage of the measured consumption above (or below) the rated one
+  deviationPercent: number | null;
+  anomalyCount: number;
+}
+
+const fuelLogInclude = {
+  vehicle: {
+    select: {
+      id: true,
+      brand: true,
+      model: true,
+      registrationNumber: true,
+    },
+  },
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  reservation: {
+    select: {
+      id: true,
+      referenceNumber: true,
+    },
+  },
+};
+
+// Roles that can only log refuels of their own trips
+const DRIVER_ROLES: Role[] = ['EMPLOYEE', 'DRIVER'];
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Measures a refuel with the full-tank method: when the tank is filled up,
+ * the litres put in since the previous full tank (partial refuels included)
+ * were burnt over the kilometres driven since. `previous` holds the earlier
+ * refuels of the vehicle. The result is flagged when it deviates from the
+ * rated consumption by more than `tolerancePercent`, and any refuel larger
+ * than the tank is flagged as well.
+ */
+export function analyseRefuel(
+  refuel: Refuel,
+  previous: Refuel[],
+  vehicle: { fuelConsumption: number | null; tankCapacity: number | null },
+  tolerancePercent: number
+): RefuelAnalysis {
+  const anomalies: FuelAnomaly[] = [];
+
+  if (vehicle.tankCapacity && refuel.liters > vehicle.tankCapacity) {
+    anomalies.push('OVER_CAPACITY');
+  }
+
+  const lastFullTank = previous
+    .filter((entry) => entry.isFullTank && entry.mileage < refuel.mileage)
+    .sort((a, b) => b.mileage - a.mileage)[0];
+
+  if (!refuel.isFullTank || !lastFullTank) {
+    return { distance: null, consumption: null, anomalies };
+  }
+
+  const distance = refuel.mileage - lastFullTank.mileage;
+  const liters =
+    refuel.liters +
+    previous
+      .filter((entry) => !entry.isFullTank && entry.mileage > lastFullTank.mileage)
+      .reduce((sum, entry) => sum + entry.liters, 0);
+  const consumption = round1((liters / distance) * 100);
+
+  if (vehicle.fuelConsumption) {
+    const deviation = ((consumption - vehicle.fuelConsumption) / vehicle.fuelConsumption) * 100;
+    if (deviation > tolerancePercent) {
+      anomalies.push('HIGH_CONSUMPTION');
+    } else if (deviation < -tolerancePercent) {
+      anomalies.push('LOW_CONSUMPTION');
+    }
+  }
+
+  return { distance, consumption, anomalies };
+}
+
+async function resolveVehicleId(
+  data: CreateFuelLogInput,
+  userId: string,
+  userRole: Role
+): Promise<string> {
+  if (!data.reservationId) {
+    if (DRIVER_ROLES.includes(userRole)) {
+      throw new ForbiddenError('Refuels must be recorded against one of your reservations');
+    }
+    return data.vehicleId!;
+  }
+
+  const reservation = await prisma.reservation.findUnique({
+    where: { id: data.reservationId },
+    include: { segments: { select: { vehicleId: true } } },
+  });
+
+  if (!reservation) {
+    throw new NotFoundError('Reservation not found');
+  }
+
+  if (
+    DRIVER_ROLES.includes(userRole) &&
+    reservation.userId !== userId &&
+    reservation.driverId !== userId
+  ) {
+    throw new ForbiddenError('You can only record refuels of your own reservations');
+  }
+
+  if (!['IN_PROGRESS', 'COMPLETED'].includes(reservation.status)) {
+    throw new BadRequestError('Refuels can only be recorded on a trip in progress or completed');
+  }
+
+  // After a vehicle swap either vehicle of the trip may have been refuelled
+  const tripVehicleIds = [
+    reservation.vehicleId,
+    ...reservation.segments.map((segment) => segment.vehicleId),
+  ];
+  const vehicleId = data.vehicleId ?? reservation.vehicleId;
+
+  if (!tripVehicleIds.includes(vehicleId)) {
+    throw new BadRequestError('The vehicle was not used on this reservation');
+  }
+
+  return vehicleId;
+}
+
+export async function createFuelLog(
+  data: CreateFuelLogInput,
+  receiptUrl: string | undefined,
+  userId: string,
+  userRole: Role
+): Promise<FuelLogWithRelations> {
+  const vehicleId = await resolveVehicleId(data, userId, userRole);
+
+  const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId } });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  if (vehicle.fuelType === 'ELECTRIC') {
+    throw new BadRequestError('Electric vehicles have no fuel log');
+  }
+
+  const date = data.date ? new Date(data.date) : new Date();
+  if (date > new Date()) {
+    throw new BadRequestError('The refuel date cannot be in the future');
+  }
+
+  const previous = await prisma.fuelLog.findMany({
+    where: { vehicleId },
+    select: { liters: true, mileage: true, isFullTank: true },
+    orderBy: { mileage: 'asc' },
+  });
+
+  const last = previous[previous.length - 1];
+  if (last && data.mileage <= last.mileage) {
+    throw new BadRequestError(
+      `The odometer reading must be above the previous refuel (${last.mileage} km)`
+    );
+  }
+
+  const tolerance = await getSetting('fuel.consumptionTolerancePercent');
+  const analysis = analyseRefuel(data, previous, vehicle, tolerance);
+
+  const fuelLog = await prisma.fuelLog.create({
+    data: {
+      vehicleId,
+      reservationId: data.reservationId,
+      userId,
+      date,
+      liters: data.liters,
+      amount: data.amount,
+      mileage: data.mileage,
+      station: data.station,
+      receiptUrl,
+      isFullTank: data.isFullTank,
+      ...analysis,
+    },
+    include: fuelLogInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entityType: 'fuel_log',
+      entityId: fuelLog.id,
+      newValues: { ...data, vehicleId, ...analysis } as Prisma.InputJsonValue,
+    },
+  });
+
+  if (analysis.anomalies.length > 0) {
+    const admins = await prisma.user.findMany({
+      where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true },
+      select: { id: true },
+    });
+
+    for (const admin of admins) {
+      await createNotification({
+        userId: admin.id,
+        type: 'SYSTEM',
+        title: 'Fuel Anomaly',
+        message:
+          `Refuel of ${data.liters} L on ${vehicle.registrationNumber} flagged: ` +
+          analysis.anomalies.join(', '),
+        entityType: 'vehicle',
+        entityId: vehicleId,
+      });
+    }
+  }
+
+  logger.info(
+    `Refuel of ${data.liters} L recorded on vehicle ${vehicle.registrationNumber}` +
+      (analysis.consumption !== null ? ` (${analysis.consumption} L/100 km)` : '')
+  );
+
+  return fuelLog;
+}
+
+export async function getFuelLogs(
+  query: FuelLogQueryInput,
+  userId: string,
+  userRole: Role
+): Promise<PaginatedResponse<FuelLogWithRelations>> {
+  const pagination = parsePaginationParams(query);
+  const skip = calculateSkip(pagination.page, pagination.limit);
+
+  const where: Prisma.FuelLogWhereInput = {};
+
+  if (DRIVER_ROLES.includes(userRole)) {
+    where.userId = userId;
+  }
+
+  if (query.vehicleId) {
+    where.vehicleId = query.vehicleId;
+  }
+
+  if (query.reservationId) {
+    where.reservationId = query.reservationId;
+  }
+
+  if (query.anomalies) {
+    where.anomalies = { isEmpty: false };
+  }
+
+  const [fuelLogs, total] = await Promise.all([
+    prisma.fuelLog.findMany({
+      where,
+      skip,
+      take: pagination.limit,
+      orderBy: { date: 'desc' },
+      include: fuelLogInclude,
+    }),
+    prisma.fuelLog.count({ where }),
+  ]);
+
+  return createPaginatedResponse(fuelLogs, total, pagination);
+}
+
+/**
+ * Fuel figures of a vehicle. The average consumption weighs every measured
+ * interval by its distance, i.e. total litres over total kilometres.
+ */
+export async function getVehicleFuelSummary(
+  vehicle: { id: string; fuelConsumption: number | null }
+): Promise<VehicleFuelSummary> {
+  const fuelLogs = await prisma.fuelLog.findMany({
+    where: { vehicleId: vehicle.id },
+    select: {
+      liters: true,
+      amount: true,
+      distance: true,
+      consumption: true,
+      anomalies: true,
+    },
+  });
+
+  let measuredLiters = 0;
+  let measuredDistance = 0;
+  for (const entry of fuelLogs) {
+    if (entry.distance && entry.consumption !== null) {
+      measuredLiters += (entry.consumption * entry.distance) / 100;
+      measuredDistance += entry.distance;
+    }
+  }
+
+  const averageConsumption =
+    measuredDistance > 0 ? round1((measuredLiters / measuredDistance) * 100) : null;
+
+  return {
+    refuelCount: fuelLogs.length,
+    totalLiters: round1(fuelLogs.reduce((sum, entry) => sum + entry.liters, 0)),
+    totalCost: fuelLogs.reduce((sum, entry) => sum + (entry.amount || 0), 0),
+    averageConsumption,
+    ratedConsumption: vehicle.fuelConsumption,
+    deviationPercent:
+      averageConsumption !== null && vehicle.fuelConsumption
+        ? Math.round(
+            ((averageConsumption - vehicle.fuelConsumption) / vehicle.fuelConsumption) * 100
+          )
+        : null,
+    anomalyCount: fuelLogs.filter((entry) => entry.anomalies.length > 0).length,
+  };
+}
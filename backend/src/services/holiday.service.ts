@@ -0,0 +1,355 @@
+import { Holiday, Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import { formatDateToISOString } from '../utils/helpers.js';
+import { parseIcsHolidays } from '../utils/ics.js';
+import { getBookingPolicy } from './policy.service.js';
+import type {
+  CreateHolidayInput,
+  UpdateHolidayInput,
+  HolidayQueryInput,
+  HolidayCalendarQueryInput,
+  HolidayImportQueryInput,
+} from '../validators/holiday.validator.js';
+
+export interface HolidayOccurrence {
+  holidayId: string;
+  name: string;
+  // Calendar day, YYYY-MM-DD
+  date: string;
+  isRecurring: boolean;
+}
+
+export interface HolidayCalendar {
+  from: string;
+  to: string;
+  // Whether the booking policy refuses reservations on holidays
+  blocksReservations: boolean;
+  // Whether the requester's role may not book over the weekend
+  weekendsClosed: boolean;
+  holidays: HolidayOccurrence[];
+}
+
+export interface HolidayImportRow {
+  name: string;
+  date: string;
+  isRecurring: boolean;
+  // Already in the calendar or listed earlier in the file, not imported
+  duplicate: boolean;
+}
+
+export interface HolidayImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  duplicates: number;
+  // Events of the file without a name or a readable date
+  skipped: number;
+  holidays: HolidayImportRow[];
+}
+
+type HolidayFields = Pick<Holiday, 'name' | 'date' | 'isRecurring'>;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Longest period the calendar endpoint expands recurring holidays over
+const MAX_CALENDAR_DAYS = 3 * 366;
+
+function toDate(day: string): Date {
+  return new Date(`${day}T00:00:00Z`);
+}
+
+function toDay(date: Date): string {
+  return formatDateToISOString(date).slice(0, 10);
+}
+
+// Two holidays clash when they close the same day; a recurring one closes it every year
+function findClash<T extends HolidayFields>(
+  candidate: HolidayFields,
+  holidays: T[]
+): T | undefined {
+  return holidays.find(
+    (holiday) =>
+      holiday.date.getUTCMonth() === candidate.date.getUTCMonth() &&
+      holiday.date.getUTCDate() === candidate.date.getUTCDate() &&
+      (holiday.isRecurring ||
+        candidate.isRecurring ||
+        holiday.date.getUTCFullYear() === candidate.date.getUTCFullYear())
+  );
+}
+
+async function assertNoClash(candidate: HolidayFields, excludeId?: string): Promise<void> {
+  const holidays = await prisma.holiday.findMany({
+    where: excludeId ? { id: { not: excludeId } } : {},
+  });
+
+  const clash = findClash(candidate, holidays);
+  if (clash) {
+    throw new ConflictError(`This day is already a holiday: ${clash.name}`, 'HOLIDAY_EXISTS');
+  }
+}
+
+/**
+ * Lists the days closed by each holiday between two dates (inclusive).
+ * Recurring holidays are repeated every year of the period; one set on
+ * 29 February only occurs in leap years.
+ */
+export function expandHolidays(holidays: Holiday[], from: Date, to: Date): HolidayOccurrence[] {
+  const occurrences: HolidayOccurrence[] = [];
+
+  for (const holiday of holidays) {
+    const firstYear = holiday.isRecurring ? from.getUTCFullYear() : holiday.date.getUTCFullYear();
+    const lastYear = holiday.isRecurring ? to.getUTCFullYear() : holiday.date.getUTCFullYear();
+
+    for (let year = firstYear; year <= lastYear; year++) {
+      const date = new Date(
+        Date.UTC(year, holiday.date.getUTCMonth(), holiday.date.getUTCDate())
+      );
+      if (date.getUTCMonth() !== holiday.date.getUTCMonth() || date < from || date > to) {
+        continue;
+      }
+      occurrences.push({
+        holidayId: holiday.id,
+        name: holiday.name,
+        date: toDay(date),
+        isRecurring: holiday.isRecurring,
+      });
+    }
+  }
+
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+}
+
+export async function getHolidays(query: HolidayQueryInput): Promise<Holiday[]> {
+  const where: Prisma.HolidayWhereInput = {};
+
+  if (query.year) {
+    where.OR = [
+      { isRecurring: true },
+      {
+        date: {
+          gte: new Date(Date.UTC(query.year, 0, 1)),
+          lt: new Date(Date.UTC(query.year + 1, 0, 1)),
+        },
+      },
+    ];
+  }
+
+  if (query.search) {
+    where.name = { contains: query.search, mode: 'insensitive' };
+  }
+
+  return prisma.holiday.findMany({
+    where,
+    orderBy: [{ date: 'asc' }, { name: 'asc' }],
+  });
+}
+
+export async function getHolidayById(id: string): Promise<Holiday> {
+  const holiday = await prisma.holiday.findUnique({ where: { id } });
+
+  if (!holiday) {
+    throw new NotFoundError('Holiday not found');
+  }
+
+  return holiday;
+}
+
+export async function createHoliday(data: CreateHolidayInput, creatorId: string): Promise<Holiday> {
+  const fields = { name: data.name, date: toDate(data.date), isRecurring: data.isRecurring };
+
+  await assertNoClash(fields);
+
+  const holiday = await prisma.holiday.create({ data: fields });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: creatorId,
+      action: 'CREATE',
+      entityType: 'holiday',
+      entityId: holiday.id,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Holiday created: ${holiday.name} (${data.date}) by ${creatorId}`);
+
+  return holiday;
+}
+
+export async function updateHoliday(
+  id: string,
+  data: UpdateHolidayInput,
+  updaterId: string
+): Promise<Holiday> {
+  const existing = await getHolidayById(id);
+
+  const fields: HolidayFields = {
+    name: data.name ?? existing.name,
+    date: data.date ? toDate(data.date) : existing.date,
+    isRecurring: data.isRecurring ?? existing.isRecurring,
+  };
+
+  if (
+    fields.date.getTime() !== existing.date.getTime() ||
+    fields.isRecurring !== existing.isRecurring
+  ) {
+    await assertNoClash(fields, id);
+  }
+
+  const holiday = await prisma.holiday.update({
+    where: { id },
+    data: fields,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: updaterId,
+      action: 'UPDATE',
+      entityType: 'holiday',
+      entityId: id,
+      oldValues: {
+        name: existing.name,
+        date: toDay(existing.date),
+        isRecurring: existing.isRecurring,
+      },
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Holiday updated: ${holiday.name} by ${updaterId}`);
+
+  return holiday;
+}
+
+export async function deleteHoliday(id: string, deleterId: string): Promise<void> {
+  const existing = await getHolidayById(id);
+
+  await prisma.holiday.delete({ where: { id } });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: deleterId,
+      action: 'DELETE',
+      entityType: 'holiday',
+      entityId: id,
+      oldValues: {
+        name: existing.name,
+        date: toDay(existing.date),
+        isRecurring: existing.isRecurring,
+      },
+    },
+  });
+
+  logger.info(`Holiday deleted: ${existing.name} by ${deleterId}`);
+}
+
+/**
+ * Closed days between two dates for calendars and date pickers, with whether
+ * the booking policy actually refuses holidays and weekends for this role.
+ */
+export async function getHolidayCalendar(
+  query: HolidayCalendarQueryInput,
+  role: Role
+): Promise<HolidayCalendar> {
+  const year = new Date().getUTCFullYear();
+  const from = query.from ? toDate(query.from) : new Date(Date.UTC(year, 0, 1));
+  const to = query.to ? toDate(query.to) : new Date(Date.UTC(year, 11, 31));
+
+  if (to.getTime() - from.getTime() > MAX_CALENDAR_DAYS * DAY_MS) {
+    throw new BadRequestError(`The period cannot exceed ${MAX_CALENDAR_DAYS} days`);
+  }
+
+  const [holidays, policy] = await Promise.all([
+    prisma.holiday.findMany({
+      where: {
+        OR: [{ isRecurring: true }, { date: { gte: from, lte: to } }],
+      },
+    }),
+    getBookingPolicy(),
+  ]);
+
+  return {
+    from: toDay(from),
+    to: toDay(to),
+    blocksReservations: policy.blockHolidays,
+    weekendsClosed: !policy.weekendRoles.includes(role),
+    holidays: expandHolidays(holidays, from, to),
+  };
+}
+
+/**
+ * Imports the holidays of an .ics file. Holidays closing a day that is
+ * already closed are reported as duplicates and left out, so the same
+ * national calendar can be imported again every year. With `dryRun` the
+ * report is returned without writing anything.
+ */
+export async function importHolidays(
+  file: { buffer: Buffer; originalname: string },
+  options: HolidayImportQueryInput,
+  userId: string
+): Promise<HolidayImportResult> {
+  const { holidays: parsed, skipped } = parseIcsHolidays(file.buffer.toString('utf8'));
+
+  if (parsed.length === 0) {
+    throw new BadRequestError('The file contains no holiday');
+  }
+
+  const existing = await prisma.holiday.findMany();
+  const accepted: HolidayFields[] = [];
+
+  const rows = parsed.map((holiday): HolidayImportRow => {
+    const duplicate = !!findClash(holiday, existing) || !!findClash(holiday, accepted);
+    if (!duplicate) {
+      accepted.push(holiday);
+    }
+    return {
+      name: holiday.name,
+      date: toDay(holiday.date),
+      isRecurring: holiday.isRecurring,
+      duplicate,
+    };
+  });
+
+  const result: HolidayImportResult = {
+    dryRun: options.dryRun,
+    total: rows.length,
+    created: accepted.length,
+    duplicates: rows.length - accepted.length,
+    skipped,
+    holidays: rows,
+  };
+
+  if (options.dryRun || accepted.length === 0) {
+    return result;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const fields of accepted) {
+      const holiday = await tx.holiday.create({ data: fields });
+
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'CREATE',
+          entityType: 'holiday',
+          entityId: holiday.id,
+          newValues: {
+            name: fields.name,
+            date: toDay(fields.date),
+            isRecurring: fields.isRecurring,
+            source: 'import',
+          },
+        },
+      });
+    }
+  });
+
+  logger.info(
+    `Holiday import: ${result.created} created, ${result.duplicates} duplicate(s) ` +
+      `from ${file.originalname}`
+  );
+
+  return result;
+}
@@ -0,0 +1,514 @@
+import { Prisma, Priority, Role } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../utils/errors.js';
+import {
+  parsePaginationParams,
+  createPaginatedResponse,
+  calculateSkip,
+} from '../utils/helpers.js';
+import type { PaginatedResponse } from '../validators/index.js';
+import { createNotification } from './notification.service.js';
+import { reportDisplacedReservations } from './maintenance.service.js';
+import type {
+  ReportIncidentInput,
+  UpdateIncidentInput,
+  ResolveIncidentInput,
+  EscalateIncidentInput,
+  IncidentQueryInput,
+} from '../validators/incident.validator.js';
+
+type IncidentWithRelations = Prisma.IncidentGetPayload<{
+  include: {
+    vehicle: {
+      select: {
+        id: true;
+        brand: true;
+        model: true;
+        registrationNumber: true;
+        status: true;
+      };
+    };
+    reporter: {
+      select: {
+        id: true;
+        firstName: true;
+        lastName: true;
+        email: true;
+      };
+    };
+    reservation: {
+      select: {
+        id: true;
+        referenceNumber: true;
+      };
+    };
+    maintenance: {
+      select: {
+        id: true;
+        type: true;
+        status: true;
+      };
+    };
+  };
+}>;
+
+export interface IncidentSummary {
+  // Unresolved incidents per severity
+  open: Record<Priority, number>;
+  resolvedLast30Days: number;
+  // Mean time from report to resolution over the last 30 days
+  averageResolutionHours: number | null;
+}
+
+const incidentInclude = {
+  vehicle: {
+    select: {
+      id: true,
+      brand: true,
+      model: true,
+      registrationNumber: true,
+      status: true,
+    },
+  },
+  reporter: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+  reservation: {
+    select: {
+      id: true,
+      referenceNumber: true,
+    },
+  },
+  maintenance: {
+    select: {
+      id: true,
+      type: true,
+      status: true,
+    },
+  },
+};
+
+// Severities serious enough to take the vehicle off the road
+const ESCALATION_SEVERITIES: Priority[] = ['HIGH', 'URGENT'];
+
+// Roles that only see the incidents they reported
+const REPORTER_ROLES: Role[] = ['EMPLOYEE', 'DRIVER'];
+
+/**
+ * Reports an incident on the vehicle of a trip in progress. The reporter
+ * must be the requester or the driver of the reservation; fleet admins are
+ * notified, urgently for thefts and accidents.
+ */
+export async function reportIncident(
+  data: ReportIncidentInput,
+  photos: string[],
+  userId: string,
+  userRole: Role
+): Promise<IncidentWithRelations> {
+  const reservation = await prisma.reservation.findUnique({
+    where: { id: data.reservationId },
+    include: { vehicle: true },
+  });
+
+  if (!reservation) {
+    throw new NotFoundError('Reservation not found');
+  }
+
+  if (
+    REPORTER_ROLES.includes(userRole) &&
+    reservation.userId !== userId &&
+    reservation.driverId !== userId
+  ) {
+    throw new ForbiddenError('You can only report incidents on your own reservations');
+  }
+
+  if (reservation.status !== 'IN_PROGRESS') {
+    throw new ConflictError('Incidents can only be reported during a trip in progress');
+  }
+
+  const date = data.date ? new Date(data.date) : new Date();
+  if (date > new Date()) {
+    throw new BadRequestError('The incident date cannot be in the future');
+  }
+
+  const severity: Priority =
+    data.type === 'THEFT' || data.type === 'ACCIDENT' ? 'HIGH' : 'MEDIUM';
+
+  const incident = await prisma.incident.create({
+    data: {
+      vehicleId: reservation.vehicleId,
+      reportedBy: userId,
+      reservationId: reservation.id,
+      type: data.type,
+      date,
+      description: data.description,
+      location: data.location,
+      latitude: data.latitude,
+      longitude: data.longitude,
+      photos,
+      severity,
+    },
+    include: incidentInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entityType: 'incident',
+      entityId: incident.id,
+      newValues: { ...data, photos: photos.length } as Prisma.InputJsonValue,
+    },
+  });
+
+  const admins = await prisma.user.findMany({
+    where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true },
+    select: { id: true },
+  });
+
+  const { vehicle } = reservation;
+  const vehicleLabel = `${vehicle.brand} ${vehicle.model} (${vehicle.registrationNumber})`;
+  for (const admin of admins) {
+    await createNotification({
+      userId: admin.id,
+      type: 'INCIDENT_REPORTED',
+      priority: severity,
+      title: 'Incident Reported',
+      message:
+        `${data.type} reported on ${vehicleLabel} ` +
+        `during reservation ${reservation.referenceNumber}`,
+      entityType: 'incident',
+      entityId: incident.id,
+    });
+  }
+
+  logger.info(
+    `Incident ${data.type} reported on vehicle ${vehicle.registrationNumber} by ${userId}`
+  );
+
+  return incident;
+}
+
+/**
+ * Triage queue: unresolved incidents first, then by severity and most recent.
+ * Employees and drivers only see the incidents they reported.
+ */
+export async function getIncidents(
+  query: IncidentQueryInput,
+  userId: string,
+  userRole: Role
+): Promise<PaginatedResponse<IncidentWithRelations>> {
+  const pagination = parsePaginationParams(query);
+  const skip = calculateSkip(pagination.page, pagination.limit);
+
+  const where: Prisma.IncidentWhereInput = {};
+
+  if (REPORTER_ROLES.includes(userRole)) {
+    where.reportedBy = userId;
+  }
+
+  if (query.severity?.length) {
+    where.severity = { in: query.severity };
+  }
+
+  if (query.type) {
+    where.type = query.type;
+  }
+
+  if (query.resolved !== undefined) {
+    where.resolved = query.resolved;
+  }
+
+  if (query.vehicleId) {
+    where.vehicleId = query.vehicleId;
+  }
+
+  if (query.search) {
+    where.OR = [
+      { description: { contains: query.search, mode: 'insensitive' } },
+      { location: { contains: query.search, mode: 'insensitive' } },
+      { vehicle: { registrationNumber: { contains: query.search, mode: 'insensitive' } } },
+    ];
+  }
+
+  const [incidents, total] = await Promise.all([
+    prisma.incident.findMany({
+      where,
+      skip,
+      take: pagination.limit,
+      // Priority is a database enum, ordered from LOW to URGENT
+      orderBy: [{ resolved: 'asc' }, { severity: 'desc' }, { date: 'desc' }],
+      include: incidentInclude,
+    }),
+    prisma.incident.count({ where }),
+  ]);
+
+  return createPaginatedResponse(incidents, total, pagination);
+}
+
+export async function getIncidentById(
+  id: string,
+  userId: string,
+  userRole: Role
+): Promise<IncidentWithRelations> {
+  const incident = await prisma.incident.findUnique({
+    where: { id },
+    include: incidentInclude,
+  });
+
+  if (!incident) {
+    throw new NotFoundError('Incident not found');
+  }
+
+  if (REPORTER_ROLES.includes(userRole) && incident.reportedBy !== userId) {
+    throw new ForbiddenError('You can only view the incidents you reported');
+  }
+
+  return incident;
+}
+
+export async function getIncidentSummary(now = new Date()): Promise<IncidentSummary> {
+  const since = new Date(now.getTime() - 30 * 24 * 3600 * 1000);
+
+  const [openGroups, resolved] = await Promise.all([
+    prisma.incident.groupBy({
+      by: ['severity'],
+      where: { resolved: false },
+      _count: true,
+    }),
+    prisma.incident.findMany({
+      where: { resolved: true, resolvedAt: { gte: since } },
+      select: { createdAt: true, resolvedAt: true },
+    }),
+  ]);
+
+  const open: Record<Priority, number> = { LOW: 0, MEDIUM: 0, HIGH: 0, URGENT: 0 };
+  for (const group of openGroups) {
+    open[group.severity] = group._count;
+  }
+
+  const totalHours = resolved.reduce(
+    (sum, incident) =>
+      sum + (incident.resolvedAt!.getTime() - incident.createdAt.getTime()) / 3600000,
+    0
+  );
+
+  return {
+    open,
+    resolvedLast30Days: resolved.length,
+    averageResolutionHours:
+      resolved.length > 0 ? Math.round((totalHours / resolved.length) * 10) / 10 : null,
+  };
+}
+
+export async function updateIncident(
+  id: string,
+  data: UpdateIncidentInput,
+  userId: string
+): Promise<IncidentWithRelations> {
+  const existing = await prisma.incident.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new NotFoundError('Incident not found');
+  }
+
+  const incident = await prisma.incident.update({
+    where: { id },
+    data,
+    include: incidentInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'UPDATE',
+      entityType: 'incident',
+      entityId: id,
+      oldValues: {
+        type: existing.type,
+        severity: existing.severity,
+        description: existing.description,
+        location: existing.location,
+      },
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Incident updated: ${id} by ${userId}`);
+
+  return incident;
+}
+
+export async function resolveIncident(
+  id: string,
+  data: ResolveIncidentInput,
+  userId: string
+): Promise<IncidentWithRelations> {
+  const existing = await prisma.incident.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new NotFoundError('Incident not found');
+  }
+
+  if (existing.resolved) {
+    throw new ConflictError('Incident is already resolved');
+  }
+
+  const incident = await prisma.incident.update({
+    where: { id },
+    data: {
+      resolved: true,
+      resolution: data.resolution,
+      resolvedAt: new Date(),
+      resolvedById: userId,
+    },
+    include: incidentInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'STATUS_CHANGE',
+      entityType: 'incident',
+      entityId: id,
+      oldValues: { resolved: false },
+      newValues: { resolved: true, resolution: data.resolution },
+    },
+  });
+
+  await createNotification({
+    userId: existing.reportedBy,
+    type: 'SYSTEM',
+    title: 'Incident Resolved',
+    message: `The incident you reported has been resolved: ${data.resolution}`,
+    entityType: 'incident',
+    entityId: id,
+  });
+
+  logger.info(`Incident resolved: ${id} by ${userId}`);
+
+  return incident;
+}
+
+/**
+ * Takes the vehicle of a HIGH or URGENT incident off the road in one step:
+ * the vehicle goes into MAINTENANCE and a CORRECTIVE maintenance, started
+ * right away, is opened and linked to the incident. The incident itself
+ * stays open until it is resolved. Reservations of the vehicle overlapping
+ * the repair are reported to the admins to be moved.
+ */
+export async function escalateIncident(
+  id: string,
+  data: EscalateIncidentInput,
+  userId: string
+): Promise<IncidentWithRelations> {
+  const existing = await prisma.incident.findUnique({
+    where: { id },
+    include: { vehicle: true },
+  });
+
+  if (!existing) {
+    throw new NotFoundError('Incident not found');
+  }
+
+  if (!ESCALATION_SEVERITIES.includes(existing.severity)) {
+    throw new BadRequestError('Only HIGH or URGENT incidents can be escalated to maintenance');
+  }
+
+  if (existing.resolved) {
+    throw new ConflictError('Incident is already resolved');
+  }
+
+  if (existing.maintenanceId) {
+    throw new ConflictError('A corrective maintenance is already open for this incident');
+  }
+
+  const now = new Date();
+  const estimatedEndDate = data.estimatedEndDate ? new Date(data.estimatedEndDate) : undefined;
+
+  if (estimatedEndDate && estimatedEndDate <= now) {
+    throw new BadRequestError('Estimated end date must be in the future');
+  }
+
+  const { incident, maintenance } = await prisma.$transaction(async (tx) => {
+    await tx.vehicle.update({
+      where: { id: existing.vehicleId },
+      data: { status: 'MAINTENANCE' },
+    });
+
+    const maintenance = await tx.maintenance.create({
+      data: {
+        vehicleId: existing.vehicleId,
+        type: 'CORRECTIVE',
+        priority: existing.severity,
+        status: 'IN_PROGRESS',
+        description: data.description ?? `${existing.type} incident: ${existing.description}`,
+        scheduledDate: now,
+        startDate: now,
+        estimatedEndDate,
+        createdById: userId,
+      },
+    });
+
+    const incident = await tx.incident.update({
+      where: { id },
+      data: { maintenanceId: maintenance.id },
+      include: incidentInclude,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'STATUS_CHANGE',
+        entityType: 'vehicle',
+        entityId: existing.vehicleId,
+        oldValues: { status: existing.vehicle.status },
+        newValues: { status: 'MAINTENANCE', incidentId: id },
+      },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'CREATE',
+        entityType: 'maintenance',
+        entityId: maintenance.id,
+        newValues: { type: 'CORRECTIVE', incidentId: id } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { incident, maintenance };
+  });
+
+  const { vehicle } = existing;
+  const vehicleLabel = `${vehicle.brand} ${vehicle.model} (${vehicle.registrationNumber})`;
+  await createNotification({
+    userId: existing.reportedBy,
+    type: 'MAINTENANCE_SCHEDULED',
+    priority: existing.severity,
+    title: 'Vehicle Sent to Maintenance',
+    message: `${vehicleLabel} has been taken out of service following your incident report`,
+    entityType: 'maintenance',
+    entityId: maintenance.id,
+  });
+
+  logger.info(
+    `Incident ${id} escalated: vehicle ${vehicle.registrationNumber} ` +
+      `in maintenance ${maintenance.id}`
+  );
+
+  await reportDisplacedReservations(maintenance);
+
+  return incident;
+}
@@ -0,0 +1,305 @@
+import { Prisma, VehicleStatus } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { NotFoundError, ConflictError } from '../utils/errors.js';
+import type {
+  CreateLocationInput,
+  UpdateLocationInput,
+  LocationQueryInput,
+  LocationSummaryQueryInput,
+} from '../validators/location.validator.js';
+
+type LocationWithCounts = Prisma.LocationGetPayload<{
+  include: { _count: { select: { vehicles: true } } };
+}>;
+
+export interface LocationSummary {
+  locationId: string;
+  name: string;
+  city: string | null;
+  isActive: boolean;
+  capacity: number | null;
+  vehicleCount: number;
+  vehiclesByStatus: Record<VehicleStatus, number>;
+  // Share of parking spaces taken by the fleet, null when capacity is unknown
+  occupancyRate: number | null;
+  reservationCount: number;
+  reservedHours: number;
+  // Reserved hours over available vehicle hours in the period
+  utilizationRate: number;
+  from: string;
+  to: string;
+}
+
+const DEFAULT_SUMMARY_DAYS = 30;
+
+// Reservations that actually held a vehicle during the period
+const UTILIZATION_STATUSES: Prisma.ReservationWhereInput['status'] = {
+  in: ['APPROVED', 'IN_PROGRESS', 'COMPLETED'],
+};
+
+const activeVehicleCount = {
+  _count: { select: { vehicles: { where: { isActive: true } } } },
+} as const;
+
+function roundRate(value: number): number {
+  return Math.round(value * 1000) / 10;
+}
+
+export async function getLocations(query: LocationQueryInput): Promise<LocationWithCounts[]> {
+  const where: Prisma.LocationWhereInput = {};
+
+  if (!query.includeInactive) {
+    where.isActive = true;
+  }
+
+  if (query.search) {
+    where.OR = [
+      { name: { contains: query.search, mode: 'insensitive' } },
+      { city: { contains: query.search, mode: 'insensitive' } },
+    ];
+  }
+
+  return prisma.location.findMany({
+    where,
+    include: activeVehicleCount,
+    orderBy: { name: 'asc' },
+  });
+}
+
+export async function getLocationById(id: string): Promise<LocationWithCounts> {
+  const location = await prisma.location.findUnique({
+    where: { id },
+    include: activeVehicleCount,
+  });
+
+  if (!location) {
+    throw new NotFoundError('Location not found');
+  }
+
+  return location;
+}
+
+async function assertUniqueName(name: string, excludeId?: string): Promise<void> {
+  const existing = await prisma.location.findFirst({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ConflictError('A location with this name already exists');
+  }
+}
+
+// A site can only be closed once its fleet and upcoming pickups have moved elsewhere
+async function assertCanDeactivate(id: string): Promise<void> {
+  const vehicleCount = await prisma.vehicle.count({
+    where: { locationId: id, isActive: true },
+  });
+
+  if (vehicleCount > 0) {
+    throw new ConflictError(
+      `Cannot deactivate a location that still has ${vehicleCount} vehicle(s); ` +
+        'move them to another location first',
+      'LOCATION_HAS_VEHICLES'
+    );
+  }
+
+  const pickupCount = await prisma.reservation.count({
+    where: {
+      pickupLocationId: id,
+      status: { in: ['PENDING', 'APPROVED', 'IN_PROGRESS'] },
+    },
+  });
+
+  if (pickupCount > 0) {
+    throw new ConflictError(
+      `Cannot deactivate a location used as pickup by ${pickupCount} active reservation(s)`,
+      'LOCATION_HAS_RESERVATIONS'
+    );
+  }
+}
+
+export async function createLocation(
+  data: CreateLocationInput,
+  creatorId: string
+): Promise<LocationWithCounts> {
+  await assertUniqueName(data.name);
+
+  const location = await prisma.location.create({
+    data,
+    include: activeVehicleCount,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: creatorId,
+      action: 'CREATE',
+      entityType: 'location',
+      entityId: location.id,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Location created: ${location.name} by ${creatorId}`);
+
+  return location;
+}
+
+export async function updateLocation(
+  id: string,
+  data: UpdateLocationInput,
+  updaterId: string
+): Promise<LocationWithCounts> {
+  const existing = await prisma.location.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new NotFoundError('Location not found');
+  }
+
+  if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+    await assertUniqueName(data.name, id);
+  }
+
+  if (data.isActive === false && existing.isActive) {
+    await assertCanDeactivate(id);
+  }
+
+  const location = await prisma.location.update({
+    where: { id },
+    data,
+    include: activeVehicleCount,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: updaterId,
+      action: 'UPDATE',
+      entityType: 'location',
+      entityId: id,
+      oldValues: existing as unknown as Prisma.InputJsonValue,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Location updated: ${location.name} by ${updaterId}`);
+
+  return location;
+}
+
+export async function deleteLocation(id: string, deleterId: string): Promise<void> {
+  const location = await prisma.location.findUnique({
+    where: { id },
+    select: { name: true, isActive: true },
+  });
+
+  if (!location) {
+    throw new NotFoundError('Location not found');
+  }
+
+  await assertCanDeactivate(id);
+
+  // Soft delete - reservations and history keep pointing at the site
+  await prisma.location.update({
+    where: { id },
+    data: { isActive: false },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: deleterId,
+      action: 'DELETE',
+      entityType: 'location',
+      entityId: id,
+      oldValues: { name: location.name, isActive: location.isActive } as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Location deactivated: ${location.name} by ${deleterId}`);
+}
+
+export async function getLocationSummaries(
+  query: LocationSummaryQueryInput,
+  locationId?: string
+): Promise<LocationSummary[]> {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(to.getTime() - DEFAULT_SUMMARY_DAYS * 24 * 3600 * 1000);
+  const periodHours = (to.getTime() - from.getTime()) / (3600 * 1000);
+
+  if (locationId) {
+    await getLocationById(locationId);
+  }
+
+  const locations = await prisma.location.findMany({
+    where: locationId ? { id: locationId } : { isActive: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const locationIds = locations.map((l) => l.id);
+
+  const [statusCounts, reservations] = await Promise.all([
+    prisma.vehicle.groupBy({
+      by: ['locationId', 'status'],
+      where: { locationId: { in: locationIds }, isActive: true },
+      _count: true,
+    }),
+    prisma.reservation.findMany({
+      where: {
+        status: UTILIZATION_STATUSES,
+        startDate: { lt: to },
+        endDate: { gt: from },
+        vehicle: { locationId: { in: locationIds } },
+      },
+      select: {
+        startDate: true,
+        endDate: true,
+        vehicle: { select: { locationId: true } },
+      },
+    }),
+  ]);
+
+  return locations.map((location) => {
+    const vehiclesByStatus = Object.fromEntries(
+      Object.values(VehicleStatus).map((status) => [status, 0])
+    ) as Record<VehicleStatus, number>;
+
+    for (const count of statusCounts) {
+      if (count.locationId === location.id) {
+        vehiclesByStatus[count.status] = count._count;
+      }
+    }
+
+    const vehicleCount = Object.values(vehiclesByStatus).reduce((sum, n) => sum + n, 0);
+
+    // Only the part of each reservation inside the period counts
+    const siteReservations = reservations.filter((r) => r.vehicle?.locationId === location.id);
+    const reservedHours = siteReservations.reduce((sum, r) => {
+      const start = Math.max(r.startDate.getTime(), from.getTime());
+      const end = Math.min(r.endDate.getTime(), to.getTime());
+      return sum + Math.max(0, end - start) / (3600 * 1000);
+    }, 0);
+
+    const availableHours = vehicleCount * periodHours;
+
+    return {
+      locationId: location.id,
+      name: location.name,
+      city: location.city,
+      isActive: location.isActive,
+      capacity: location.capacity,
+      vehicleCount,
+      vehiclesByStatus,
+      occupancyRate: location.capacity ? roundRate(vehicleCount / location.capacity) : null,
+      reservationCount: siteReservations.length,
+      reservedHours: Math.round(reservedHours * 10) / 10,
+      utilizationRate: availableHours > 0 ? roundRate(reservedHours / availableHours) : 0,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+  });
+}
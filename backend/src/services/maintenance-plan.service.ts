@@ -0,0 +1,560 @@
+import { Maintenance, MaintenancePlan, Prisma, Vehicle } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { BadRequestError, NotFoundError } from '../utils/errors.js';
+import { createNotification } from './notification.service.js';
+import { getSetting } from './settings.service.js';
+import { reportDisplacedReservations } from './maintenance.service.js';
+import type {
+  CreateMaintenancePlanInput,
+  UpdateMaintenancePlanInput,
+  MaintenancePlanQueryInput,
+} from '../validators/maintenance-plan.validator.js';
+
+export type ServiceDueStatus = 'OK' | 'DUE_SOON' | 'OVERDUE';
+
+type PlanVehicle = Pick<
+  Vehicle,
+  | 'id'
+  | 'type'
+  | 'brand'
+  | 'model'
+  | 'currentMileage'
+  | 'lastServiceDate'
+  | 'lastServiceMileage'
+  | 'createdAt'
+>;
+
+type PlanService = Pick<Maintenance, 'completedDate' | 'mileageAtService'>;
+
+type OpenPlanMaintenance = Pick<Maintenance, 'id' | 'status' | 'scheduledDate'>;
+
+export interface ServiceProjection {
+  lastServiceDate: Date;
+  lastServiceMileage: number | null;
+  dueMileage: number | null;
+  dueDate: Date | null;
+  remainingKm: number | null;
+  remainingDays: number | null;
+  status: ServiceDueStatus;
+}
+
+export interface NextServiceDue extends ServiceProjection {
+  plan: Pick<MaintenancePlan, 'id' | 'name' | 'intervalKm' | 'intervalMonths'>;
+  openMaintenance: OpenPlanMaintenance | null;
+}
+
+interface ServiceLead {
+  km: number;
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const planVehicleSelect = {
+  id: true,
+  registrationNumber: true,
+  type: true,
+  brand: true,
+  model: true,
+  currentMileage: true,
+  lastServiceDate: true,
+  lastServiceMileage: true,
+  createdAt: true,
+};
+
+function sameText(criterion: string | null, value: string): boolean {
+  return criterion === null || criterion.toLowerCase() === value.toLowerCase();
+}
+
+/**
+ * A plan applies to the vehicles matching every criterion it sets; brand and
+ * model are compared without case.
+ */
+export function planAppliesTo(
+  plan: Pick<MaintenancePlan, 'vehicleType' | 'brand' | 'model'>,
+  vehicle: Pick<Vehicle, 'type' | 'brand' | 'model'>
+): boolean {
+  return (
+    (plan.vehicleType === null || plan.vehicleType === vehicle.type) &&
+    sameText(plan.brand, vehicle.brand) &&
+    sameText(plan.model, vehicle.model)
+  );
+}
+
+/**
+ * When the next service under `plan` falls due. Intervals run from the last
+ * service done under the plan, or from the last recorded service of the
+ * vehicle before its first one. A vehicle with no service mileage at all is
+ * due at the next multiple of the interval, and one never serviced counts its
+ * time from when it joined the fleet.
+ */
+export function projectNextService(
+  plan: Pick<MaintenancePlan, 'intervalKm' | 'intervalMonths'>,
+  vehicle: PlanVehicle,
+  lastPlanService: PlanService | null,
+  lead: ServiceLead,
+  now: Date = new Date()
+): ServiceProjection {
+  const lastServiceDate =
+    lastPlanService?.completedDate ?? vehicle.lastServiceDate ?? vehicle.createdAt;
+  const lastServiceMileage = lastPlanService
+    ? lastPlanService.mileageAtService ?? vehicle.lastServiceMileage
+    : vehicle.lastServiceMileage;
+
+  let dueMileage: number | null = null;
+  let remainingKm: number | null = null;
+  if (plan.intervalKm) {
+    dueMileage =
+      lastServiceMileage !== null
+        ? lastServiceMileage + plan.intervalKm
+        : (Math.floor(vehicle.currentMileage / plan.intervalKm) + 1) * plan.intervalKm;
+    remainingKm = dueMileage - vehicle.currentMileage;
+  }
+
+  let dueDate: Date | null = null;
+  let remainingDays: number | null = null;
+  if (plan.intervalMonths) {
+    dueDate = new Date(lastServiceDate);
+    dueDate.setMonth(dueDate.getMonth() + plan.intervalMonths);
+    remainingDays = Math.ceil((dueDate.getTime() - now.getTime()) / DAY_MS);
+  }
+
+  let status: ServiceDueStatus = 'OK';
+  if (
+    (remainingKm !== null && remainingKm <= 0) ||
+    (remainingDays !== null && remainingDays <= 0)
+  ) {
+    status = 'OVERDUE';
+  } else if (
+    (remainingKm !== null && remainingKm <= lead.km) ||
+    (remainingDays !== null && remainingDays <= lead.days)
+  ) {
+    status = 'DUE_SOON';
+  }
+
+  return {
+    lastServiceDate,
+    lastServiceMileage,
+    dueMileage,
+    dueDate,
+    remainingKm,
+    remainingDays,
+    status,
+  };
+}
+
+async function getServiceLead(): Promise<ServiceLead> {
+  const [km, days] = await Promise.all([
+    getSetting('maintenance.planLeadKm'),
+    getSetting('maintenance.planLeadDays'),
+  ]);
+  return { km, days };
+}
+
+function historyKey(planId: string, vehicleId: string): string {
+  return `${planId}:${vehicleId}`;
+}
+
+/**
+ * Last completed and currently open maintenance of each plan on each vehicle,
+ * keyed by plan and vehicle.
+ */
+async function getPlanHistory(
+  planIds: string[],
+  vehicleIds: string[]
+): Promise<{
+  lastServices: Map<string, PlanService>;
+  openMaintenances: Map<string, OpenPlanMaintenance>;
+}> {
+  const [completed, open] = await Promise.all([
+    prisma.maintenance.findMany({
+      where: {
+        planId: { in: planIds },
+        vehicleId: { in: vehicleIds },
+        status: 'COMPLETED',
+      },
+      orderBy: { completedDate: 'desc' },
+      distinct: ['planId', 'vehicleId'],
+      select: {
+        planId: true,
+        vehicleId: true,
+        completedDate: true,
+        mileageAtService: true,
+      },
+    }),
+    prisma.maintenance.findMany({
+      where: {
+        planId: { in: planIds },
+        vehicleId: { in: vehicleIds },
+        status: { in: ['SCHEDULED', 'IN_PROGRESS'] },
+      },
+      orderBy: { scheduledDate: 'asc' },
+      select: {
+        id: true,
+        planId: true,
+        vehicleId: true,
+        status: true,
+        scheduledDate: true,
+      },
+    }),
+  ]);
+
+  const lastServices = new Map<string, PlanService>();
+  for (const { planId, vehicleId, ...service } of completed) {
+    lastServices.set(historyKey(planId!, vehicleId), service);
+  }
+
+  const openMaintenances = new Map<string, OpenPlanMaintenance>();
+  for (const { planId, vehicleId, ...maintenance } of open) {
+    const key = historyKey(planId!, vehicleId);
+    if (!openMaintenances.has(key)) {
+      openMaintenances.set(key, maintenance);
+    }
+  }
+
+  return { lastServices, openMaintenances };
+}
+
+/**
+ * Vehicles that would be due for a plan service by the end of a trip: its
+ * mileage would take them within the lead distance of a due mileage, or a due
+ * date falls within the lead days of its end. Vehicles no active plan applies
+ * to are never due.
+ */
+export async function getServiceDueVehicleIds(
+  vehicles: PlanVehicle[],
+  endDate: Date,
+  estimatedMileage: number = 0
+): Promise<Set<string>> {
+  const due = new Set<string>();
+
+  if (vehicles.length === 0) {
+    return due;
+  }
+
+  const plans = await prisma.maintenancePlan.findMany({ where: { isActive: true } });
+
+  if (plans.length === 0) {
+    return due;
+  }
+
+  const [lead, { lastServices }] = await Promise.all([
+    getServiceLead(),
+    getPlanHistory(
+      plans.map((plan) => plan.id),
+      vehicles.map((vehicle) => vehicle.id)
+    ),
+  ]);
+
+  for (const vehicle of vehicles) {
+    const isDue = plans.some((plan) => {
+      if (!planAppliesTo(plan, vehicle)) {
+        return false;
+      }
+
+      const projection = projectNextService(
+        plan,
+        vehicle,
+        lastServices.get(historyKey(plan.id, vehicle.id)) ?? null,
+        lead,
+        endDate
+      );
+      return (
+        (projection.remainingKm !== null &&
+          projection.remainingKm - estimatedMileage <= lead.km) ||
+        (projection.remainingDays !== null && projection.remainingDays <= lead.days)
+      );
+    });
+
+    if (isDue) {
+      due.add(vehicle.id);
+    }
+  }
+
+  return due;
+}
+
+export async function getMaintenancePlans(
+  query: MaintenancePlanQueryInput
+): Promise<MaintenancePlan[]> {
+  const where: Prisma.MaintenancePlanWhereInput = {};
+
+  if (!query.includeInactive) {
+    where.isActive = true;
+  }
+
+  if (query.vehicleType) {
+    where.OR = [{ vehicleType: query.vehicleType }, { vehicleType: null }];
+  }
+
+  return prisma.maintenancePlan.findMany({
+    where,
+    orderBy: { name: 'asc' },
+  });
+}
+
+export async function getMaintenancePlanById(id: string): Promise<MaintenancePlan> {
+  const plan = await prisma.maintenancePlan.findUnique({ where: { id } });
+
+  if (!plan) {
+    throw new NotFoundError('Maintenance plan not found');
+  }
+
+  return plan;
+}
+
+export async function createMaintenancePlan(
+  data: CreateMaintenancePlanInput,
+  creatorId: string
+): Promise<MaintenancePlan> {
+  const plan = await prisma.maintenancePlan.create({
+    data: { ...data, createdById: creatorId },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: creatorId,
+      action: 'CREATE',
+      entityType: 'maintenance_plan',
+      entityId: plan.id,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Maintenance plan created: ${plan.name} by ${creatorId}`);
+
+  return plan;
+}
+
+export async function updateMaintenancePlan(
+  id: string,
+  data: UpdateMaintenancePlanInput,
+  updaterId: string
+): Promise<MaintenancePlan> {
+  const existing = await getMaintenancePlanById(id);
+
+  const intervalKm = data.intervalKm !== undefined ? data.intervalKm : existing.intervalKm;
+  const intervalMonths =
+    data.intervalMonths !== undefined ? data.intervalMonths : existing.intervalMonths;
+
+  if (intervalKm == null && intervalMonths == null) {
+    throw new BadRequestError('A plan needs a mileage interval, a time interval or both');
+  }
+
+  const plan = await prisma.maintenancePlan.update({
+    where: { id },
+    data,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: updaterId,
+      action: 'UPDATE',
+      entityType: 'maintenance_plan',
+      entityId: id,
+      oldValues: existing as unknown as Prisma.InputJsonValue,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Maintenance plan updated: ${plan.name} by ${updaterId}`);
+
+  return plan;
+}
+
+export async function deleteMaintenancePlan(id: string, deleterId: string): Promise<void> {
+  const existing = await getMaintenancePlanById(id);
+
+  // Soft delete - maintenances created from the plan keep pointing at it
+  await prisma.maintenancePlan.update({
+    where: { id },
+    data: { isActive: false },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: deleterId,
+      action: 'DELETE',
+      entityType: 'maintenance_plan',
+      entityId: id,
+      oldValues: { name: existing.name, isActive: existing.isActive } as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Maintenance plan deactivated: ${existing.name} by ${deleterId}`);
+}
+
+/**
+ * Next service due under each active plan that applies to the vehicle, the
+ * most urgent first.
+ */
+export async function getVehicleNextServices(vehicleId: string): Promise<NextServiceDue[]> {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: vehicleId },
+    select: planVehicleSelect,
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  const plans = (
+    await prisma.maintenancePlan.findMany({ where: { isActive: true } })
+  ).filter((plan) => planAppliesTo(plan, vehicle));
+
+  if (plans.length === 0) {
+    return [];
+  }
+
+  const [lead, { lastServices, openMaintenances }] = await Promise.all([
+    getServiceLead(),
+    getPlanHistory(
+      plans.map((plan) => plan.id),
+      [vehicle.id]
+    ),
+  ]);
+
+  const urgency: Record<ServiceDueStatus, number> = { OVERDUE: 0, DUE_SOON: 1, OK: 2 };
+
+  return plans
+    .map((plan) => {
+      const key = historyKey(plan.id, vehicle.id);
+      return {
+        plan: {
+          id: plan.id,
+          name: plan.name,
+          intervalKm: plan.intervalKm,
+          intervalMonths: plan.intervalMonths,
+        },
+        ...projectNextService(plan, vehicle, lastServices.get(key) ?? null, lead),
+        openMaintenance: openMaintenances.get(key) ?? null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        urgency[a.status] - urgency[b.status] ||
+        (a.remainingDays ?? Infinity) - (b.remainingDays ?? Infinity) ||
+        (a.remainingKm ?? Infinity) - (b.remainingKm ?? Infinity)
+    );
+}
+
+/**
+ * Scheduled job: opens a SCHEDULED PREVENTIVE maintenance for every active
+ * vehicle whose plan service is due within the lead distance or time, unless
+ * one from the same plan is already open. A service coming up by date is
+ * scheduled on its due date, one coming up by mileage or overdue right away;
+ * fleet admins are notified of each, and of the reservations it overlaps.
+ */
+export async function scheduleDuePlanMaintenances(): Promise<number> {
+  const plans = await prisma.maintenancePlan.findMany({ where: { isActive: true } });
+
+  if (plans.length === 0) {
+    return 0;
+  }
+
+  const vehicles = await prisma.vehicle.findMany({
+    where: { isActive: true, status: { not: 'OUT_OF_SERVICE' } },
+    select: planVehicleSelect,
+  });
+
+  const [lead, { lastServices, openMaintenances }] = await Promise.all([
+    getServiceLead(),
+    getPlanHistory(
+      plans.map((plan) => plan.id),
+      vehicles.map((vehicle) => vehicle.id)
+    ),
+  ]);
+
+  const now = new Date();
+  let created = 0;
+  let admins: { id: string }[] | undefined;
+
+  for (const plan of plans) {
+    for (const vehicle of vehicles) {
+      const key = historyKey(plan.id, vehicle.id);
+      if (!planAppliesTo(plan, vehicle) || openMaintenances.has(key)) {
+        continue;
+      }
+
+      const projection = projectNextService(
+        plan,
+        vehicle,
+        lastServices.get(key) ?? null,
+        lead,
+        now
+      );
+      if (projection.status === 'OK') {
+        continue;
+      }
+
+      // A vehicle close to its mileage is serviced now, whatever the date
+      const dueByMileage =
+        projection.remainingKm !== null && projection.remainingKm <= lead.km;
+      const scheduledDate =
+        !dueByMileage && projection.dueDate && projection.dueDate > now
+          ? projection.dueDate
+          : now;
+
+      const due = [
+        projection.dueMileage !== null && `${projection.dueMileage} km`,
+        projection.dueDate && projection.dueDate.toISOString().slice(0, 10),
+      ]
+        .filter(Boolean)
+        .join(' or ');
+
+      const maintenance = await prisma.maintenance.create({
+        data: {
+          vehicleId: vehicle.id,
+          planId: plan.id,
+          type: 'PREVENTIVE',
+          description: `${plan.name}: preventive service due at ${due}`,
+          priority: projection.status === 'OVERDUE' ? 'HIGH' : 'MEDIUM',
+          scheduledDate,
+          createdById: plan.createdById,
+          notes: plan.description,
+        },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          action: 'CREATE',
+          entityType: 'maintenance',
+          entityId: maintenance.id,
+          newValues: {
+            planId: plan.id,
+            dueMileage: projection.dueMileage,
+            dueDate: projection.dueDate?.toISOString() ?? null,
+          } as Prisma.InputJsonValue,
+        },
+      });
+
+      admins ??= await prisma.user.findMany({
+        where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true },
+        select: { id: true },
+      });
+
+      for (const admin of admins) {
+        await createNotification({
+          userId: admin.id,
+          type: 'MAINTENANCE_DUE',
+          title: 'Preventive Maintenance Due',
+          message: `${plan.name} is due on ${vehicle.registrationNumber} (${due})`,
+          entityType: 'maintenance',
+          entityId: maintenance.id,
+        });
+      }
+
+      // Bookings of the vehicle overlapping the service are moved by hand
+      await reportDisplacedReservations(maintenance);
+
+      created++;
+    }
+  }
+
+  if (created > 0) {
+    logger.info(`Preventive maintenance plans: ${created} maintenance(s) scheduled`);
+  }
+
+  return created;
+}
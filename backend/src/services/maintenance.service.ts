@@ -1,18 +1,41 @@
-import { Prisma, MaintenanceStatus } from '@prisma/client';
+import { Prisma, MaintenanceStatus, MaintenanceLineType } from '@prisma/client';
 import { prisma } from '../config/prisma.js';
 import { logger } from '../config/logger.js';
-import { NotFoundError, ConflictError } from '../utils/errors.js';
+import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors.js';
 import {
   parsePaginationParams,
   createPaginatedResponse,
   calculateSkip,
+  formatDateToISOString,
 } from '../utils/helpers.js';
+import { runSerializable } from '../utils/transaction.js';
 import type { PaginatedResponse } from '../validators/index.js';
 import { createNotification } from './notification.service.js';
+import { sendReservationStatusEmail } from './email.service.js';
+import {
+  notifyFlaggedReadings,
+  recordOdometerReading,
+  type FlaggedOdometerReading,
+} from './odometer.service.js';
+import { consumeParts, notifyLowStock } from './part.service.js';
+import { blockingReservationWhere, getMaintenanceWindow } from './availability.service.js';
+import type { AllocationCandidate } from './allocation.service.js';
+import type { VehicleWithRelations } from './vehicle.service.js';
+import {
+  getAllocationCandidates,
+  notifyAddedApprovalSteps,
+  resolveMaintenanceConflict,
+  type MaintenanceConflictOutcome,
+} from './reservation.service.js';
 import type {
   CreateMaintenanceInput,
   UpdateMaintenanceInput,
   MaintenanceQueryInput,
+  MaintenanceConflictQueryInput,
+  StartMaintenanceInput,
+  CompleteMaintenanceInput,
+  ConflictResolutionInput,
+  WorkOrderLineInput,
 } from '../validators/maintenance.validator.js';
 
 type MaintenanceWithRelations = Prisma.MaintenanceGetPayload<{
@@ -25,7 +48,12 @@ type MaintenanceWithRelations = Prisma.MaintenanceGetPayload<{
         registrationNumber: true;
       };
     };
+    vendor: { select: { id: true; name: true; laborRate: true } };
     documents: true;
+    parts: {
+      include: { part: { select: { id: true; sku: true; name: true } } };
+    };
+    lines: { orderBy: { type: 'asc' } };
   };
 }>;
 
@@ -38,9 +66,422 @@ const maintenanceInclude = {
       registrationNumber: true,
     },
   },
+  vendor: { select: { id: true, name: true, laborRate: true } },
   documents: true,
+  parts: {
+    include: { part: { select: { id: true, sku: true, name: true } } },
+  },
+  lines: { orderBy: { type: 'asc' as const } },
+};
+
+const overlappingReservationInclude = {
+  vehicle: true,
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
 };
 
+type OverlappingReservation = Prisma.ReservationGetPayload<{
+  include: typeof overlappingReservationInclude;
+}>;
+
+export interface MaintenanceReservationConflict {
+  reservation: OverlappingReservation;
+  // Equivalent vehicles free for the reservation, best first
+  candidates: AllocationCandidate<VehicleWithRelations>[];
+}
+
+interface ResolvedConflict {
+  reservation: OverlappingReservation;
+  outcome: MaintenanceConflictOutcome;
+}
+
+// Window a maintenance will hold once scheduled
+function getPlannedWindow(
+  scheduledDate: Date,
+  estimatedEndDate: Date | null
+): { startDate: Date; endDate: Date } {
+  return getMaintenanceWindow({
+    id: '',
+    status: 'SCHEDULED',
+    scheduledDate,
+    startDate: null,
+    estimatedEndDate,
+  });
+}
+
+// Window a scheduled maintenance will hold if started now; an estimated end
+// already passed no longer bounds it
+function getStartWindow(
+  maintenance: Parameters<typeof getMaintenanceWindow>[0],
+  now: Date
+): { startDate: Date; endDate: Date } {
+  return getMaintenanceWindow(
+    {
+      ...maintenance,
+      status: 'IN_PROGRESS',
+      startDate: now,
+      estimatedEndDate:
+        maintenance.estimatedEndDate && maintenance.estimatedEndDate > now
+          ? maintenance.estimatedEndDate
+          : null,
+    },
+    now
+  );
+}
+
+async function findOverlappingReservations(
+  vehicleId: string,
+  window: { startDate: Date; endDate: Date },
+  client: Prisma.TransactionClient = prisma
+): Promise<OverlappingReservation[]> {
+  return client.reservation.findMany({
+    where: {
+      vehicleId,
+      ...blockingReservationWhere(window.startDate, window.endDate),
+    },
+    orderBy: { startDate: 'asc' },
+    include: overlappingReservationInclude,
+  });
+}
+
+async function describeConflicts(
+  reservations: OverlappingReservation[]
+): Promise<MaintenanceReservationConflict[]> {
+  const conflicts: MaintenanceReservationConflict[] = [];
+
+  for (const reservation of reservations) {
+    // A trip under way cannot be moved, the vehicle is on the road
+    const candidates =
+      reservation.status === 'IN_PROGRESS'
+        ? []
+        : (await getAllocationCandidates(reservation.id)).filter(
+            (candidate) => candidate.vehicle.id !== reservation.vehicleId
+          );
+    conflicts.push({ reservation, candidates });
+  }
+
+  return conflicts;
+}
+
+/**
+ * Every overlapping reservation must come with a resolution, except trips
+ * already under way which block the maintenance outright.
+ */
+function assertConflictsResolved(
+  reservations: OverlappingReservation[],
+  resolutions: ConflictResolutionInput[]
+): void {
+  const unknown = resolutions.find(
+    (resolution) => !reservations.some((r) => r.id === resolution.reservationId)
+  );
+  if (unknown) {
+    throw new BadRequestError(
+      `Reservation ${unknown.reservationId} does not overlap the maintenance`
+    );
+  }
+
+  const inUse = reservations.find((reservation) => reservation.status === 'IN_PROGRESS');
+  if (inUse) {
+    throw new ConflictError(
+      `Vehicle is in use by reservation ${inUse.referenceNumber} ` +
+        `until ${formatDateToISOString(inUse.endDate)}`,
+      'VEHICLE_IN_USE'
+    );
+  }
+
+  const unresolved = reservations.filter(
+    (reservation) => !resolutions.some((r) => r.reservationId === reservation.id)
+  );
+  if (unresolved.length > 0) {
+    throw new ConflictError(
+      `The maintenance overlaps reservations ` +
+        `${unresolved.map((r) => r.referenceNumber).join(', ')}; reassign or cancel them`,
+      'RESERVATION_CONFLICT'
+    );
+  }
+}
+
+async function resolveConflicts(
+  reservations: OverlappingReservation[],
+  resolutions: ConflictResolutionInput[],
+  maintenanceId: string,
+  userId: string,
+  client: Prisma.TransactionClient
+): Promise<ResolvedConflict[]> {
+  const resolved: ResolvedConflict[] = [];
+
+  for (const reservation of reservations) {
+    const resolution = resolutions.find((r) => r.reservationId === reservation.id)!;
+    const outcome = await resolveMaintenanceConflict(
+      reservation,
+      resolution,
+      maintenanceId,
+      userId,
+      client
+    );
+    resolved.push({ reservation, outcome });
+  }
+
+  return resolved;
+}
+
+async function notifyResolvedConflicts(resolved: ResolvedConflict[]): Promise<void> {
+  for (const { reservation, outcome } of resolved) {
+    const original = reservation.vehicle;
+
+    if (outcome.action === 'REASSIGN') {
+      await createNotification({
+        userId: reservation.userId,
+        type: 'SYSTEM',
+        title: 'Reservation Vehicle Changed',
+        message:
+          `${original.brand} ${original.model} (${original.registrationNumber}) ` +
+          `is going into maintenance. Your reservation ${reservation.referenceNumber} now uses ` +
+          `${outcome.vehicle.brand} ${outcome.vehicle.model} (${outcome.vehicle.registrationNumber})`,
+        entityType: 'reservation',
+        entityId: reservation.id,
+      });
+      await notifyAddedApprovalSteps(reservation, outcome.addedSteps);
+      continue;
+    }
+
+    const reason = `Vehicle ${original.registrationNumber} is unavailable for maintenance`;
+
+    await createNotification({
+      userId: reservation.userId,
+      type: 'RESERVATION_CANCELLED',
+      title: 'Reservation Cancelled',
+      message: `Reservation ${reservation.referenceNumber} was cancelled: ${reason}`,
+      entityType: 'reservation',
+      entityId: reservation.id,
+    });
+
+    await sendReservationStatusEmail(reservation.user.email, reservation.user.firstName, {
+      referenceNumber: reservation.referenceNumber,
+      status: 'CANCELLED',
+      reason,
+    });
+  }
+}
+
+/**
+ * Reports the reservations overlapping a maintenance that had to start at
+ * once, a breakdown leaving no time to resolve them first. The admins are told
+ * which bookings to move and how many vehicles each could move to, and each
+ * user that their vehicle is out of service.
+ */
+export async function reportDisplacedReservations(
+  maintenance: Parameters<typeof getMaintenanceWindow>[0] & { vehicleId: string }
+): Promise<MaintenanceReservationConflict[]> {
+  const reservations = await findOverlappingReservations(
+    maintenance.vehicleId,
+    getMaintenanceWindow(maintenance)
+  );
+
+  if (reservations.length === 0) {
+    return [];
+  }
+
+  const conflicts = await describeConflicts(reservations);
+
+  const admins = await prisma.user.findMany({
+    where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true },
+    select: { id: true },
+  });
+
+  for (const { reservation, candidates } of conflicts) {
+    const { vehicle } = reservation;
+    const vehicleLabel = `${vehicle.brand} ${vehicle.model} (${vehicle.registrationNumber})`;
+
+    for (const admin of admins) {
+      await createNotification({
+        userId: admin.id,
+        type: 'MAINTENANCE_SCHEDULED',
+        priority: 'HIGH',
+        title: 'Reservation Needs Another Vehicle',
+        message:
+          `${vehicleLabel} is in maintenance during reservation ${reservation.referenceNumber}; ` +
+          `${candidates.length} equivalent vehicle(s) available`,
+        entityType: 'reservation',
+        entityId: reservation.id,
+      });
+    }
+
+    await createNotification({
+      userId: reservation.userId,
+      type: 'SYSTEM',
+      priority: 'HIGH',
+      title: 'Reservation Vehicle Unavailable',
+      message:
+        `${vehicleLabel} is out of service for repairs. Your reservation ` +
+        `${reservation.referenceNumber} will be moved to another vehicle or cancelled`,
+      entityType: 'reservation',
+      entityId: reservation.id,
+    });
+  }
+
+  logger.warn(
+    `Maintenance ${maintenance.id} overlaps reservations ` +
+      reservations.map((r) => r.referenceNumber).join(', ')
+  );
+
+  return conflicts;
+}
+
+/**
+ * Lists the reservations a maintenance scheduled on this window would
+ * displace, with the vehicles each could be moved to.
+ */
+export async function getMaintenanceConflicts(
+  query: MaintenanceConflictQueryInput
+): Promise<MaintenanceReservationConflict[]> {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: query.vehicleId },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  const scheduledDate = new Date(query.scheduledDate);
+  const estimatedEndDate = query.estimatedEndDate ? new Date(query.estimatedEndDate) : null;
+
+  if (estimatedEndDate && estimatedEndDate <= scheduledDate) {
+    throw new BadRequestError('Estimated end date must be after the scheduled date');
+  }
+
+  const reservations = await findOverlappingReservations(
+    vehicle.id,
+    getPlannedWindow(scheduledDate, estimatedEndDate)
+  );
+
+  return describeConflicts(reservations);
+}
+
+/**
+ * Lists the reservations starting the maintenance now would displace.
+ */
+export async function getStartConflicts(
+  id: string
+): Promise<MaintenanceReservationConflict[]> {
+  const maintenance = await prisma.maintenance.findUnique({
+    where: { id },
+  });
+
+  if (!maintenance) {
+    throw new NotFoundError('Maintenance record not found');
+  }
+
+  if (maintenance.status !== 'SCHEDULED') {
+    throw new ConflictError('Only scheduled maintenance can be started');
+  }
+
+  const reservations = await findOverlappingReservations(
+    maintenance.vehicleId,
+    getStartWindow(maintenance, new Date())
+  );
+
+  return describeConflicts(reservations);
+}
+
+type FittedPart = Prisma.MaintenancePartGetPayload<{
+  include: { part: { select: { sku: true; name: true } } };
+}>;
+
+type PricedLine = Prisma.MaintenanceLineCreateWithoutMaintenanceInput;
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Prices the lines of a work order. Parts taken from stock become part lines
+ * at their catalogue cost, labour without a rate is charged at the vendor's
+ * contract rate and each tax line applies to the total of the other lines.
+ */
+function buildWorkOrder(
+  lines: WorkOrderLineInput[],
+  fittedParts: FittedPart[],
+  laborRate: number | null
+): { lines: PricedLine[]; total: number } {
+  const priced: PricedLine[] = fittedParts.map((fitted) => ({
+    type: 'PART',
+    description: `${fitted.part.sku} - ${fitted.part.name}`,
+    quantity: fitted.quantity,
+    unitPrice: fitted.unitCost,
+    amount: roundAmount(fitted.quantity * fitted.unitCost),
+  }));
+
+  for (const line of lines) {
+    if (line.type === 'LABOR') {
+      const hourlyRate = line.hourlyRate ?? laborRate;
+      if (hourlyRate === null) {
+        throw new BadRequestError(
+          `Give the hourly rate of "${line.description}", the vendor has no contract labour rate`
+        );
+      }
+      priced.push({
+        type: 'LABOR',
+        description: line.description,
+        quantity: line.hours,
+        unitPrice: hourlyRate,
+        amount: roundAmount(line.hours * hourlyRate),
+      });
+    } else if (line.type !== 'TAX') {
+      priced.push({
+        type: line.type,
+        description: line.description,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        amount: roundAmount(line.quantity * line.unitPrice),
+      });
+    }
+  }
+
+  const subtotal = priced.reduce((sum, line) => sum + line.amount, 0);
+
+  const taxes: PricedLine[] = [];
+  for (const line of lines) {
+    if (line.type === 'TAX') {
+      const amount = roundAmount((subtotal * line.rate) / 100);
+      taxes.push({
+        type: 'TAX',
+        description: line.description,
+        quantity: 1,
+        unitPrice: amount,
+        taxRate: line.rate,
+        amount,
+      });
+    }
+  }
+
+  return {
+    lines: [...priced, ...taxes],
+    total: roundAmount(subtotal + taxes.reduce((sum, line) => sum + line.amount, 0)),
+  };
+}
+
+async function assertActiveVendor(vendorId: string): Promise<void> {
+  const vendor = await prisma.vendor.findUnique({
+    where: { id: vendorId },
+    select: { isActive: true },
+  });
+
+  if (!vendor) {
+    throw new NotFoundError('Vendor not found');
+  }
+
+  if (!vendor.isActive) {
+    throw new BadRequestError('This vendor is no longer active');
+  }
+}
+
 export async function createMaintenance(
   data: CreateMaintenanceInput,
   userId: string
@@ -54,31 +495,68 @@ export async function createMaintenance(
     throw new NotFoundError('Vehicle not found');
   }
 
-  const maintenance = await prisma.maintenance.create({
-    data: {
-      vehicleId: data.vehicleId,
-      type: data.type,
-      description: data.description,
-      scheduledDate: new Date(data.scheduledDate),
-      createdById: userId,
-      estimatedCost: data.estimatedCost,
-      providerName: data.providerName,
-      providerContact: data.providerContact,
-      notes: data.notes,
-    },
-    include: maintenanceInclude,
-  });
+  if (data.vendorId) {
+    await assertActiveVendor(data.vendorId);
+  }
 
-  await prisma.auditLog.create({
-    data: {
+  const scheduledDate = new Date(data.scheduledDate);
+  const estimatedEndDate = data.estimatedEndDate
+    ? new Date(data.estimatedEndDate)
+    : undefined;
+
+  if (estimatedEndDate && estimatedEndDate <= scheduledDate) {
+    throw new BadRequestError('Estimated end date must be after the scheduled date');
+  }
+
+  const resolutions = data.conflictResolutions ?? [];
+
+  const { maintenance, resolved } = await runSerializable(async (tx) => {
+    const reservations = await findOverlappingReservations(
+      vehicle.id,
+      getPlannedWindow(scheduledDate, estimatedEndDate ?? null),
+      tx
+    );
+    assertConflictsResolved(reservations, resolutions);
+
+    const maintenance = await tx.maintenance.create({
+      data: {
+        vehicleId: data.vehicleId,
+        type: data.type,
+        description: data.description,
+        scheduledDate,
+        estimatedEndDate,
+        createdById: userId,
+        estimatedCost: data.estimatedCost,
+        vendorId: data.vendorId,
+        notes: data.notes,
+        planId: data.planId,
+      },
+      include: maintenanceInclude,
+    });
+
+    const resolved = await resolveConflicts(
+      reservations,
+      resolutions,
+      maintenance.id,
       userId,
-      action: 'CREATE',
-      entityType: 'maintenance',
-      entityId: maintenance.id,
-      newValues: data as Prisma.InputJsonValue,
-    },
+      tx
+    );
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'CREATE',
+        entityType: 'maintenance',
+        entityId: maintenance.id,
+        newValues: data as Prisma.InputJsonValue,
+      },
+    });
+
+    return { maintenance, resolved };
   });
 
+  await notifyResolvedConflicts(resolved);
+
   // Notify admins
   const admins = await prisma.user.findMany({
     where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true },
@@ -115,6 +593,10 @@ export async function getMaintenances(
     where.vehicleId = query.vehicleId;
   }
 
+  if (query.vendorId) {
+    where.vendorId = query.vendorId;
+  }
+
   if (query.type) {
     where.type = query.type;
   }
@@ -184,32 +666,64 @@ export async function updateMaintenance(
     throw new NotFoundError('Maintenance record not found');
   }
 
-  const maintenance = await prisma.maintenance.update({
-    where: { id },
-    data: {
-      ...data,
-      scheduledDate: data.scheduledDate
-        ? new Date(data.scheduledDate)
-        : undefined,
-      startDate: data.startDate ? new Date(data.startDate) : undefined,
-      completedDate: data.completedDate
-        ? new Date(data.completedDate)
-        : undefined,
-    },
-    include: maintenanceInclude,
-  });
+  if (data.vendorId && data.vendorId !== existing.vendorId) {
+    await assertActiveVendor(data.vendorId);
+  }
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'UPDATE',
-      entityType: 'maintenance',
-      entityId: id,
-      oldValues: existing as unknown as Prisma.InputJsonValue,
-      newValues: data as Prisma.InputJsonValue,
-    },
+  const { conflictResolutions, ...fields } = data;
+  const scheduledDate = data.scheduledDate
+    ? new Date(data.scheduledDate)
+    : existing.scheduledDate;
+  const estimatedEndDate = data.estimatedEndDate
+    ? new Date(data.estimatedEndDate)
+    : existing.estimatedEndDate;
+
+  const window = getMaintenanceWindow({ ...existing, scheduledDate, estimatedEndDate });
+  if (window.endDate <= window.startDate) {
+    throw new BadRequestError('Estimated end date must be after the start of the maintenance');
+  }
+
+  // Only new dates of a maintenance still holding the vehicle can displace
+  // reservations
+  const checkConflicts =
+    (data.scheduledDate !== undefined || data.estimatedEndDate !== undefined) &&
+    (existing.status === 'SCHEDULED' || existing.status === 'IN_PROGRESS');
+  const resolutions = conflictResolutions ?? [];
+
+  const { maintenance, resolved } = await runSerializable(async (tx) => {
+    const reservations = checkConflicts
+      ? await findOverlappingReservations(existing.vehicleId, window, tx)
+      : [];
+    assertConflictsResolved(reservations, resolutions);
+
+    const maintenance = await tx.maintenance.update({
+      where: { id },
+      data: {
+        ...fields,
+        scheduledDate: data.scheduledDate ? scheduledDate : undefined,
+        estimatedEndDate: data.estimatedEndDate ? estimatedEndDate : undefined,
+      },
+      include: maintenanceInclude,
+    });
+
+    const resolved = await resolveConflicts(reservations, resolutions, id, userId, tx);
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entityType: 'maintenance',
+        entityId: id,
+        oldValues: existing as unknown as Prisma.InputJsonValue,
+        newValues: data as Prisma.InputJsonValue,
+      },
+    });
+
+    return { maintenance, resolved };
   });
 
+  await notifyResolvedConflicts(resolved);
+
   logger.info(`Maintenance updated: ${id}`);
 
   return maintenance;
@@ -218,7 +732,7 @@ export async function updateMaintenance(
 export async function startMaintenance(
   id: string,
   userId: string,
-  data?: { mileageAtService?: number; notes?: string }
+  data: StartMaintenanceInput = {}
 ): Promise<MaintenanceWithRelations> {
   const existing = await prisma.maintenance.findUnique({
     where: { id },
@@ -233,34 +747,55 @@ export async function startMaintenance(
     throw new ConflictError('Only scheduled maintenance can be started');
   }
 
-  // Update vehicle status
-  await prisma.vehicle.update({
-    where: { id: existing.vehicleId },
-    data: { status: 'MAINTENANCE' },
-  });
+  const resolutions = data.conflictResolutions ?? [];
+  const now = new Date();
 
-  const maintenance = await prisma.maintenance.update({
-    where: { id },
-    data: {
-      status: 'IN_PROGRESS',
-      startDate: new Date(),
-      mileageAtService: data?.mileageAtService,
-      notes: data?.notes,
-    },
-    include: maintenanceInclude,
-  });
+  const { maintenance, resolved } = await runSerializable(async (tx) => {
+    const reservations = await findOverlappingReservations(
+      existing.vehicleId,
+      getStartWindow(existing, now),
+      tx
+    );
+    assertConflictsResolved(reservations, resolutions);
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'STATUS_CHANGE',
-      entityType: 'maintenance',
-      entityId: id,
-      oldValues: { status: 'SCHEDULED' } as Prisma.InputJsonValue,
-      newValues: { status: 'IN_PROGRESS' } as Prisma.InputJsonValue,
-    },
+    // Update vehicle status
+    await tx.vehicle.update({
+      where: { id: existing.vehicleId },
+      data: { status: 'MAINTENANCE' },
+    });
+
+    const maintenance = await tx.maintenance.update({
+      where: { id },
+      data: {
+        status: 'IN_PROGRESS',
+        startDate: now,
+        mileageAtService: data.mileageAtService,
+        notes: data.notes,
+      },
+      include: maintenanceInclude,
+    });
+
+    const resolved = await resolveConflicts(reservations, resolutions, id, userId, tx);
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'STATUS_CHANGE',
+        entityType: 'maintenance',
+        entityId: id,
+        oldValues: { status: 'SCHEDULED' } as Prisma.InputJsonValue,
+        newValues: {
+          status: 'IN_PROGRESS',
+          ...(resolutions.length > 0 && { conflictResolutions: resolutions }),
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { maintenance, resolved };
   });
 
+  await notifyResolvedConflicts(resolved);
+
   logger.info(`Maintenance started: ${id}`);
 
   return maintenance;
@@ -269,17 +804,11 @@ export async function startMaintenance(
 export async function completeMaintenance(
   id: string,
   userId: string,
-  data: {
-    actualCost: number;
-    mileageAtService?: number;
-    partsReplaced?: string[];
-    invoiceNumber?: string;
-    notes?: string;
-  }
+  data: CompleteMaintenanceInput
 ): Promise<MaintenanceWithRelations> {
   const existing = await prisma.maintenance.findUnique({
     where: { id },
-    include: { vehicle: true },
+    include: { vehicle: true, vendor: { select: { laborRate: true } } },
   });
 
   if (!existing) {
@@ -290,42 +819,80 @@ export async function completeMaintenance(
     throw new ConflictError('Only in-progress maintenance can be completed');
   }
 
-  // Update vehicle status and service info
-  await prisma.vehicle.update({
-    where: { id: existing.vehicleId },
-    data: {
-      status: 'AVAILABLE',
-      lastServiceDate: new Date(),
-      lastServiceMileage: data.mileageAtService || existing.vehicle.currentMileage,
-      currentMileage: data.mileageAtService || existing.vehicle.currentMileage,
-    },
-  });
+  const { maintenance, lowStock, flagged } = await runSerializable(async (tx) => {
+    let flagged: FlaggedOdometerReading | null = null;
+    if (data.mileageAtService) {
+      ({ flagged } = await recordOdometerReading(
+        existing.vehicle,
+        {
+          mileage: data.mileageAtService,
+          source: 'MAINTENANCE',
+          recordedById: userId,
+          maintenanceId: id,
+        },
+        tx
+      ));
+    }
 
-  const maintenance = await prisma.maintenance.update({
-    where: { id },
-    data: {
-      status: 'COMPLETED',
-      completedDate: new Date(),
-      actualCost: data.actualCost,
-      mileageAtService: data.mileageAtService,
-      partsReplaced: data.partsReplaced || [],
-      invoiceNumber: data.invoiceNumber,
-      notes: data.notes,
-    },
-    include: maintenanceInclude,
-  });
+    // Fitted parts leave the stock with the maintenance, or not at all
+    const lowStock = await consumeParts(id, existing.vehicle, data.parts ?? [], tx);
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'STATUS_CHANGE',
-      entityType: 'maintenance',
-      entityId: id,
-      oldValues: { status: 'IN_PROGRESS' } as Prisma.InputJsonValue,
-      newValues: { status: 'COMPLETED', ...data } as Prisma.InputJsonValue,
-    },
+    const fittedParts = await tx.maintenancePart.findMany({
+      where: { maintenanceId: id },
+      include: { part: { select: { sku: true, name: true } } },
+    });
+    const workOrder = buildWorkOrder(
+      data.lines,
+      fittedParts,
+      existing.vendor?.laborRate ?? null
+    );
+
+    // Update vehicle status and service info
+    await tx.vehicle.update({
+      where: { id: existing.vehicleId },
+      data: {
+        status: 'AVAILABLE',
+        lastServiceDate: new Date(),
+        lastServiceMileage: data.mileageAtService || existing.vehicle.currentMileage,
+        currentMileage: data.mileageAtService || existing.vehicle.currentMileage,
+      },
+    });
+
+    const maintenance = await tx.maintenance.update({
+      where: { id },
+      data: {
+        status: 'COMPLETED',
+        completedDate: new Date(),
+        actualCost: workOrder.total,
+        lines: { create: workOrder.lines },
+        mileageAtService: data.mileageAtService,
+        invoiceNumber: data.invoiceNumber,
+        notes: data.notes,
+      },
+      include: maintenanceInclude,
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'STATUS_CHANGE',
+        entityType: 'maintenance',
+        entityId: id,
+        oldValues: { status: 'IN_PROGRESS' } as Prisma.InputJsonValue,
+        newValues: {
+          status: 'COMPLETED',
+          ...data,
+          actualCost: workOrder.total,
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { maintenance, lowStock, flagged };
   });
 
+  await notifyLowStock(lowStock);
+  await notifyFlaggedReadings([flagged]);
+
   logger.info(`Maintenance completed: ${id}`);
 
   return maintenance;
@@ -422,15 +989,24 @@ export async function getVehicleMaintenanceHistory(
   });
 }
 
-export async function getMaintenanceStatistics(): Promise<{
+export interface MaintenanceStatistics {
   scheduled: number;
   inProgress: number;
   completed: number;
   cancelled: number;
   totalCost: number;
   averageCost: number;
-}> {
-  const [counts, costData] = await Promise.all([
+  // Over the completed maintenances that had an estimate
+  estimatedCost: number;
+  actualCost: number;
+  costVariance: number;
+  costVariancePercent: number | null;
+  // Actual cost of the completed maintenances by kind of work order line
+  costBreakdown: Record<MaintenanceLineType, number>;
+}
+
+export async function getMaintenanceStatistics(): Promise<MaintenanceStatistics> {
+  const [counts, costData, estimated, lineTotals] = await Promise.all([
     prisma.maintenance.groupBy({
       by: ['status'],
       _count: true,
@@ -440,6 +1016,15 @@ export async function getMaintenanceStatistics(): Promise<{
       _sum: { actualCost: true },
       _avg: { actualCost: true },
     }),
+    prisma.maintenance.aggregate({
+      where: { status: 'COMPLETED', estimatedCost: { not: null }, actualCost: { not: null } },
+      _sum: { estimatedCost: true, actualCost: true },
+    }),
+    prisma.maintenanceLine.groupBy({
+      by: ['type'],
+      where: { maintenance: { status: 'COMPLETED' } },
+      _sum: { amount: true },
+    }),
   ]);
 
   const statusCounts: Record<MaintenanceStatus, number> = {
@@ -453,6 +1038,20 @@ export async function getMaintenanceStatistics(): Promise<{
     statusCounts[count.status] = count._count;
   }
 
+  const costBreakdown: Record<MaintenanceLineType, number> = {
+    LABOR: 0,
+    PART: 0,
+    CONSUMABLE: 0,
+    TAX: 0,
+  };
+
+  for (const total of lineTotals) {
+    costBreakdown[total.type] = total._sum.amount || 0;
+  }
+
+  const estimatedCost = estimated._sum.estimatedCost || 0;
+  const actualCost = estimated._sum.actualCost || 0;
+
   return {
     scheduled: statusCounts.SCHEDULED,
     inProgress: statusCounts.IN_PROGRESS,
@@ -460,5 +1059,13 @@ export async function getMaintenanceStatistics(): Promise<{
     cancelled: statusCounts.CANCELLED,
     totalCost: costData._sum.actualCost || 0,
     averageCost: costData._avg.actualCost || 0,
+    estimatedCost,
+    actualCost,
+    costVariance: roundAmount(actualCost - estimatedCost),
+    costVariancePercent:
+      estimatedCost > 0
+        ? Math.round(((actualCost - estimatedCost) / estimatedCost) * 1000) / 10
+        : null,
+    costBreakdown,
   };
 }
@@ -0,0 +1,314 @@
+import { OdometerReading, OdometerSource, Prisma, Vehicle } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors.js';
+import {
+  parsePaginationParams,
+  createPaginatedResponse,
+  calculateSkip,
+} from '../utils/helpers.js';
+import type { PaginatedResponse } from '../validators/index.js';
+import { createNotification } from './notification.service.js';
+import { getSetting } from './settings.service.js';
+import type {
+  CorrectOdometerReadingInput,
+  OdometerQueryInput,
+} from '../validators/odometer.validator.js';
+
+type OdometerReadingWithRelations = Prisma.OdometerReadingGetPayload<{
+  include: {
+    recordedBy: {
+      select: {
+        id: true;
+        firstName: true;
+        lastName: true;
+      };
+    };
+    correctedBy: {
+      select: {
+        id: true;
+        firstName: true;
+        lastName: true;
+      };
+    };
+    reservation: {
+      select: {
+        id: true;
+        referenceNumber: true;
+      };
+    };
+  };
+}>;
+
+export interface OdometerReadingInput {
+  mileage: number;
+  source: OdometerSource;
+  recordedById: string;
+  reservationId?: string;
+  maintenanceId?: string;
+}
+
+const odometerReadingInclude = {
+  recordedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  correctedBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  reservation: {
+    select: {
+      id: true,
+      referenceNumber: true,
+    },
+  },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Whether `distance` km is more than the vehicle can have covered in
+ * `elapsedMs` at `maxKmPerDay`. Readings taken minutes apart are still
+ * allowed an hour of driving.
+ */
+export function isImplausibleJump(
+  distance: number,
+  elapsedMs: number,
+  maxKmPerDay: number
+): boolean {
+  const days = Math.max(elapsedMs, HOUR_MS) / DAY_MS;
+  return distance > maxKmPerDay * days;
+}
+
+export interface FlaggedOdometerReading {
+  vehicle: Pick<Vehicle, 'id' | 'registrationNumber'>;
+  previousMileage: number;
+  mileage: number;
+  since: Date;
+}
+
+/**
+ * Records an odometer reading in the ledger of `vehicle`, as loaded before the
+ * caller stores the reading as its current mileage. A reading below the
+ * current one is refused; one that jumps further than plausible since the
+ * previous reading is kept but flagged, and returned for the caller to pass to
+ * `notifyFlaggedReadings` once its transaction has committed.
+ */
+export async function recordOdometerReading(
+  vehicle: Pick<Vehicle, 'id' | 'registrationNumber' | 'currentMileage'>,
+  input: OdometerReadingInput,
+  client: Prisma.TransactionClient = prisma
+): Promise<{ reading: OdometerReading; flagged: FlaggedOdometerReading | null }> {
+  if (input.mileage < vehicle.currentMileage) {
+    throw new ConflictError(
+      `Odometer reading (${input.mileage} km) is below the current mileage of the vehicle ` +
+        `(${vehicle.currentMileage} km)`,
+      'ODOMETER_ROLLBACK'
+    );
+  }
+
+  // Vehicles without a ledger yet have no reference date to judge a jump
+  const last = await client.odometerReading.findFirst({
+    where: { vehicleId: vehicle.id },
+    orderBy: { recordedAt: 'desc' },
+  });
+
+  const now = new Date();
+  const maxKmPerDay = await getSetting('odometer.maxKmPerDay', client);
+  const isFlagged =
+    !!last &&
+    isImplausibleJump(
+      input.mileage - vehicle.currentMileage,
+      now.getTime() - last.recordedAt.getTime(),
+      maxKmPerDay
+    );
+
+  const reading = await client.odometerReading.create({
+    data: {
+      ...input,
+      vehicleId: vehicle.id,
+      previousMileage: vehicle.currentMileage,
+      recordedAt: now,
+      isFlagged,
+    },
+  });
+
+  const flagged = isFlagged
+    ? {
+        vehicle: { id: vehicle.id, registrationNumber: vehicle.registrationNumber },
+        previousMileage: vehicle.currentMileage,
+        mileage: input.mileage,
+        since: last!.recordedAt,
+      }
+    : null;
+
+  return { reading, flagged };
+}
+
+/**
+ * Tells the fleet admins about readings flagged by `recordOdometerReading`.
+ */
+export async function notifyFlaggedReadings(
+  entries: (FlaggedOdometerReading | null)[]
+): Promise<void> {
+  const flagged = entries.filter((entry): entry is FlaggedOdometerReading => entry !== null);
+  if (flagged.length === 0) {
+    return;
+  }
+
+  const admins = await prisma.user.findMany({
+    where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true },
+    select: { id: true },
+  });
+
+  for (const entry of flagged) {
+    for (const admin of admins) {
+      await createNotification({
+        userId: admin.id,
+        type: 'SYSTEM',
+        title: 'Implausible Odometer Reading',
+        message:
+          `${entry.vehicle.registrationNumber} went from ${entry.previousMileage} km to ` +
+          `${entry.mileage} km since ${entry.since.toISOString()}`,
+        entityType: 'vehicle',
+        entityId: entry.vehicle.id,
+      });
+    }
+
+    logger.warn(
+      `Implausible odometer reading on ${entry.vehicle.registrationNumber}: ` +
+        `${entry.previousMileage} -> ${entry.mileage} km`
+    );
+  }
+}
+
+export async function getOdometerReadings(
+  vehicleId: string,
+  query: OdometerQueryInput
+): Promise<PaginatedResponse<OdometerReadingWithRelations>> {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: vehicleId },
+    select: { id: true },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  const pagination = parsePaginationParams(query);
+  const skip = calculateSkip(pagination.page, pagination.limit);
+
+  const where: Prisma.OdometerReadingWhereInput = { vehicleId };
+
+  if (query.flagged) {
+    where.isFlagged = true;
+  }
+
+  const [readings, total] = await Promise.all([
+    prisma.odometerReading.findMany({
+      where,
+      skip,
+      take: pagination.limit,
+      orderBy: { recordedAt: 'desc' },
+      include: odometerReadingInclude,
+    }),
+    prisma.odometerReading.count({ where }),
+  ]);
+
+  return createPaginatedResponse(readings, total, pagination);
+}
+
+/**
+ * Admin correction of a mistyped reading. The value must stay between the
+ * readings around it; the first recorded value is kept on the reading and the
+ * change goes to the audit log. Correcting the latest reading also corrects
+ * the current mileage of the vehicle.
+ */
+export async function correctOdometerReading(
+  vehicleId: string,
+  readingId: string,
+  data: CorrectOdometerReadingInput,
+  userId: string
+): Promise<OdometerReadingWithRelations> {
+  const corrected = await prisma.$transaction(async (tx) => {
+    const reading = await tx.odometerReading.findUnique({
+      where: { id: readingId },
+    });
+
+    if (!reading || reading.vehicleId !== vehicleId) {
+      throw new NotFoundError('Odometer reading not found');
+    }
+
+    const [previous, next] = await Promise.all([
+      tx.odometerReading.findFirst({
+        where: { vehicleId, recordedAt: { lt: reading.recordedAt } },
+        orderBy: { recordedAt: 'desc' },
+      }),
+      tx.odometerReading.findFirst({
+        where: { vehicleId, recordedAt: { gt: reading.recordedAt } },
+        orderBy: { recordedAt: 'asc' },
+      }),
+    ]);
+
+    if (previous && data.mileage < previous.mileage) {
+      throw new BadRequestError(
+        `The reading cannot be below the previous one (${previous.mileage} km)`
+      );
+    }
+
+    if (next && data.mileage > next.mileage) {
+      throw new BadRequestError(`The reading cannot be above the next one (${next.mileage} km)`);
+    }
+
+    const updated = await tx.odometerReading.update({
+      where: { id: readingId },
+      data: {
+        mileage: data.mileage,
+        originalMileage: reading.originalMileage ?? reading.mileage,
+        correctedById: userId,
+        correctedAt: new Date(),
+        correctionReason: data.reason,
+        // Reviewed by an admin
+        isFlagged: false,
+      },
+      include: odometerReadingInclude,
+    });
+
+    if (next) {
+      await tx.odometerReading.update({
+        where: { id: next.id },
+        data: { previousMileage: data.mileage },
+      });
+    } else {
+      await tx.vehicle.update({
+        where: { id: vehicleId },
+        data: { currentMileage: data.mileage },
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entityType: 'odometer_reading',
+        entityId: readingId,
+        oldValues: { mileage: reading.mileage } as Prisma.InputJsonValue,
+        newValues: { mileage: data.mileage, reason: data.reason } as Prisma.InputJsonValue,
+      },
+    });
+
+    return updated;
+  });
+
+  logger.info(`Odometer reading ${readingId} corrected to ${data.mileage} km`);
+
+  return corrected;
+}
@@ -0,0 +1,428 @@
+import { Part, Prisma, Vehicle } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors.js';
+import { runSerializable } from '../utils/transaction.js';
+import { createNotification } from './notification.service.js';
+import type {
+  CreatePartInput,
+  UpdatePartInput,
+  PartQueryInput,
+  AdjustStockInput,
+  ConsumedPartInput,
+} from '../validators/part.validator.js';
+
+const partInclude = {
+  stocks: {
+    include: { location: { select: { id: true, name: true } } },
+    orderBy: { location: { name: 'asc' } },
+  },
+  _count: { select: { usages: true } },
+} as const;
+
+type PartWithStock = Prisma.PartGetPayload<{ include: typeof partInclude }>;
+
+const partUsageInclude = {
+  part: { select: { id: true, sku: true, name: true } },
+  location: { select: { id: true, name: true } },
+  maintenance: {
+    select: { id: true, type: true, description: true, completedDate: true },
+  },
+} as const;
+
+type PartUsage = Prisma.MaintenancePartGetPayload<{ include: typeof partUsageInclude }>;
+
+export interface LowStockEntry {
+  part: Pick<Part, 'id' | 'sku' | 'name' | 'reorderLevel'>;
+  location: { id: string; name: string };
+  quantity: number;
+}
+
+/**
+ * A part fits a vehicle when one of its compatible models names the vehicle's
+ * brand, or its brand and model; parts without any fit every vehicle.
+ */
+export function partFitsVehicle(
+  part: Pick<Part, 'compatibleModels'>,
+  vehicle: Pick<Vehicle, 'brand' | 'model'>
+): boolean {
+  if (part.compatibleModels.length === 0) {
+    return true;
+  }
+
+  const brand = vehicle.brand.toLowerCase();
+  const fullName = `${brand} ${vehicle.model.toLowerCase()}`;
+  return part.compatibleModels.some((entry) => {
+    const name = entry.toLowerCase();
+    return name === brand || name === fullName;
+  });
+}
+
+function isLowStock(part: Pick<Part, 'reorderLevel'>, quantity: number): boolean {
+  return quantity <= part.reorderLevel;
+}
+
+async function assertUniqueSku(sku: string, excludeId?: string): Promise<void> {
+  const existing = await prisma.part.findFirst({
+    where: {
+      sku,
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ConflictError('A part with this SKU already exists');
+  }
+}
+
+export async function getParts(query: PartQueryInput): Promise<PartWithStock[]> {
+  const where: Prisma.PartWhereInput = {};
+
+  if (!query.includeInactive) {
+    where.isActive = true;
+  }
+
+  if (query.search) {
+    where.OR = [
+      { sku: { contains: query.search, mode: 'insensitive' } },
+      { name: { contains: query.search, mode: 'insensitive' } },
+    ];
+  }
+
+  const parts = await prisma.part.findMany({
+    where,
+    include: partInclude,
+    orderBy: { name: 'asc' },
+  });
+
+  if (!query.vehicleId) {
+    return parts;
+  }
+
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: query.vehicleId },
+    select: { brand: true, model: true },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  return parts.filter((part) => partFitsVehicle(part, vehicle));
+}
+
+export async function getPartById(id: string): Promise<PartWithStock> {
+  const part = await prisma.part.findUnique({
+    where: { id },
+    include: partInclude,
+  });
+
+  if (!part) {
+    throw new NotFoundError('Part not found');
+  }
+
+  return part;
+}
+
+export async function createPart(
+  data: CreatePartInput,
+  creatorId: string
+): Promise<PartWithStock> {
+  await assertUniqueSku(data.sku);
+
+  const part = await prisma.part.create({
+    data,
+    include: partInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: creatorId,
+      action: 'CREATE',
+      entityType: 'part',
+      entityId: part.id,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Part created: ${part.sku} by ${creatorId}`);
+
+  return part;
+}
+
+export async function updatePart(
+  id: string,
+  data: UpdatePartInput,
+  updaterId: string
+): Promise<PartWithStock> {
+  const existing = await prisma.part.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new NotFoundError('Part not found');
+  }
+
+  if (data.sku && data.sku !== existing.sku) {
+    await assertUniqueSku(data.sku, id);
+  }
+
+  const part = await prisma.part.update({
+    where: { id },
+    data,
+    include: partInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: updaterId,
+      action: 'UPDATE',
+      entityType: 'part',
+      entityId: id,
+      oldValues: existing as unknown as Prisma.InputJsonValue,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Part updated: ${part.sku} by ${updaterId}`);
+
+  return part;
+}
+
+// Parts are deactivated rather than deleted so that the history of the
+// vehicles they were fitted to is kept
+export async function deletePart(id: string, deleterId: string): Promise<void> {
+  const part = await prisma.part.findUnique({
+    where: { id },
+    select: { sku: true, isActive: true },
+  });
+
+  if (!part) {
+    throw new NotFoundError('Part not found');
+  }
+
+  await prisma.part.update({
+    where: { id },
+    data: { isActive: false },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: deleterId,
+      action: 'DELETE',
+      entityType: 'part',
+      entityId: id,
+      oldValues: { isActive: part.isActive } as Prisma.InputJsonValue,
+      newValues: { isActive: false } as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Part deactivated: ${part.sku} by ${deleterId}`);
+}
+
+/**
+ * Records parts received at a location, or corrects its count after an
+ * inventory. The stock can never go below zero.
+ */
+export async function adjustStock(
+  id: string,
+  data: AdjustStockInput,
+  userId: string
+): Promise<PartWithStock> {
+  const part = await prisma.part.findUnique({ where: { id } });
+
+  if (!part) {
+    throw new NotFoundError('Part not found');
+  }
+
+  const location = await prisma.location.findUnique({
+    where: { id: data.locationId },
+  });
+
+  if (!location || !location.isActive) {
+    throw new NotFoundError('Location not found');
+  }
+
+  const { previous, quantity } = await runSerializable(async (tx) => {
+    const stock = await tx.partStock.findUnique({
+      where: { partId_locationId: { partId: id, locationId: location.id } },
+    });
+
+    const previous = stock?.quantity ?? 0;
+    const quantity = previous + data.quantity;
+
+    if (quantity < 0) {
+      throw new BadRequestError(
+        `Only ${previous} ${part.sku} in stock at ${location.name}, ` +
+          `cannot remove ${-data.quantity}`
+      );
+    }
+
+    await tx.partStock.upsert({
+      where: { partId_locationId: { partId: id, locationId: location.id } },
+      create: { partId: id, locationId: location.id, quantity },
+      update: { quantity },
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entityType: 'part_stock',
+        entityId: id,
+        oldValues: { locationId: location.id, quantity: previous } as Prisma.InputJsonValue,
+        newValues: {
+          locationId: location.id,
+          quantity,
+          reason: data.reason,
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { previous, quantity };
+  });
+
+  logger.info(
+    `Stock of ${part.sku} at ${location.name} changed from ${previous} to ${quantity} by ${userId}`
+  );
+
+  // A correction can take a location below its reorder level too
+  if (data.quantity < 0 && isLowStock(part, quantity)) {
+    await notifyLowStock([{ part, location, quantity }]);
+  }
+
+  return getPartById(id);
+}
+
+export async function getLowStock(): Promise<LowStockEntry[]> {
+  const stocks = await prisma.partStock.findMany({
+    where: { part: { isActive: true } },
+    include: {
+      part: { select: { id: true, sku: true, name: true, reorderLevel: true } },
+      location: { select: { id: true, name: true } },
+    },
+    orderBy: { quantity: 'asc' },
+  });
+
+  // The reorder level is per part, so it cannot be compared in the query
+  return stocks
+    .filter((stock) => isLowStock(stock.part, stock.quantity))
+    .map(({ part, location, quantity }) => ({ part, location, quantity }));
+}
+
+/**
+ * Takes the parts fitted during a maintenance out of stock and records them
+ * in the vehicle's parts history. Parts come from the vehicle's location
+ * unless another is given. Runs in the transaction completing the maintenance
+ * and returns the locations left at or below their reorder level.
+ */
+export async function consumeParts(
+  maintenanceId: string,
+  vehicle: Pick<Vehicle, 'id' | 'brand' | 'model' | 'registrationNumber' | 'locationId'>,
+  items: ConsumedPartInput[],
+  client: Prisma.TransactionClient = prisma
+): Promise<LowStockEntry[]> {
+  const lowStock: LowStockEntry[] = [];
+
+  for (const item of items) {
+    const part = await client.part.findUnique({ where: { id: item.partId } });
+
+    if (!part || !part.isActive) {
+      throw new NotFoundError('Part not found');
+    }
+
+    if (!partFitsVehicle(part, vehicle)) {
+      throw new BadRequestError(
+        `Part ${part.sku} is not compatible with ${vehicle.brand} ${vehicle.model}`
+      );
+    }
+
+    const locationId = item.locationId ?? vehicle.locationId;
+    if (!locationId) {
+      throw new BadRequestError(
+        `Vehicle ${vehicle.registrationNumber} has no location, ` +
+          `choose the location ${part.sku} is taken from`
+      );
+    }
+
+    // Decremented only if enough is left, so concurrent completions cannot
+    // take the same parts twice
+    const { count } = await client.partStock.updateMany({
+      where: { partId: part.id, locationId, quantity: { gte: item.quantity } },
+      data: { quantity: { decrement: item.quantity } },
+    });
+
+    if (count === 0) {
+      throw new ConflictError(
+        `Not enough ${part.sku} (${part.name}) in stock to fit ${item.quantity}`,
+        'INSUFFICIENT_STOCK'
+      );
+    }
+
+    await client.maintenancePart.create({
+      data: {
+        maintenanceId,
+        partId: part.id,
+        vehicleId: vehicle.id,
+        locationId,
+        quantity: item.quantity,
+        unitCost: part.unitCost,
+      },
+    });
+
+    const stock = await client.partStock.findUnique({
+      where: { partId_locationId: { partId: part.id, locationId } },
+      include: { location: { select: { id: true, name: true } } },
+    });
+
+    if (stock && isLowStock(part, stock.quantity)) {
+      lowStock.push({ part, location: stock.location, quantity: stock.quantity });
+    }
+  }
+
+  return lowStock;
+}
+
+export async function notifyLowStock(entries: LowStockEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const admins = await prisma.user.findMany({
+    where: { role: { in: ['ADMIN', 'SUPER_ADMIN'] }, isActive: true },
+    select: { id: true },
+  });
+
+  for (const entry of entries) {
+    for (const admin of admins) {
+      await createNotification({
+        userId: admin.id,
+        type: 'SYSTEM',
+        title: 'Low Stock',
+        message:
+          `${entry.part.sku} (${entry.part.name}): ${entry.quantity} left at ` +
+          `${entry.location.name}, reorder level ${entry.part.reorderLevel}`,
+        entityType: 'part',
+        entityId: entry.part.id,
+      });
+    }
+  }
+
+  logger.warn(`Low stock on ${entries.length} part location(s)`);
+}
+
+export async function getVehicleParts(vehicleId: string): Promise<PartUsage[]> {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: vehicleId },
+    select: { id: true },
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  return prisma.maintenancePart.findMany({
+    where: { vehicleId },
+    include: partUsageInclude,
+    orderBy: { createdAt: 'desc' },
+  });
+}
@@ -0,0 +1,235 @@
+import { Holiday, Prisma, Role } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { ValidationError } from '../utils/errors.js';
+import { calculateDurationInHours, formatDateToISOString } from '../utils/helpers.js';
+import { getSetting, settingDefinitions } from './settings.service.js';
+
+export interface BookingPolicy {
+  // Any limit set to null is not enforced
+  minNoticeHours: number | null;
+  maxDurationDays: number | null;
+  maxAdvanceDays: number | null;
+  // Pickup and return times, "HH:mm" in UTC (Lome time)
+  bookingHours: { start: string; end: string } | null;
+  blockHolidays: boolean;
+  // Roles allowed to book a window touching a Saturday or Sunday
+  weekendRoles: Role[];
+}
+
+export type BookingRule =
+  | 'minNotice'
+  | 'maxDuration'
+  | 'maxAdvance'
+  | 'bookingHours'
+  | 'holiday'
+  | 'weekend';
+
+export interface PolicyViolation {
+  rule: BookingRule;
+  message: string;
+}
+
+export interface BookingWindow {
+  startDate: Date;
+  endDate: Date;
+}
+
+export const BOOKING_POLICY_SETTING_KEY = 'booking.policy';
+
+export const DEFAULT_BOOKING_POLICY: BookingPolicy =
+  settingDefinitions[BOOKING_POLICY_SETTING_KEY].default;
+
+type HolidayFields = Pick<Holiday, 'name' | 'date' | 'isRecurring'>;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+export async function getBookingPolicy(
+  client: Prisma.TransactionClient = prisma
+): Promise<BookingPolicy> {
+  return getSetting(BOOKING_POLICY_SETTING_KEY, client);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+function minutesOfDay(date: Date): number {
+  return date.getUTCHours() * 60 + date.getUTCMinutes();
+}
+
+// Calendar days (UTC midnight) touched by the window
+function getWindowDays(window: BookingWindow): Date[] {
+  const days: Date[] = [];
+  const last = Date.UTC(
+    window.endDate.getUTCFullYear(),
+    window.endDate.getUTCMonth(),
+    window.endDate.getUTCDate()
+  );
+  for (
+    let day = Date.UTC(
+      window.startDate.getUTCFullYear(),
+      window.startDate.getUTCMonth(),
+      window.startDate.getUTCDate()
+    );
+    day <= last;
+    day += DAY_MS
+  ) {
+    days.push(new Date(day));
+  }
+  return days;
+}
+
+function isHoliday(day: Date, holiday: HolidayFields): boolean {
+  const sameDay =
+    holiday.date.getUTCMonth() === day.getUTCMonth() &&
+    holiday.date.getUTCDate() === day.getUTCDate();
+  return holiday.isRecurring
+    ? sameDay
+    : sameDay && holiday.date.getUTCFullYear() === day.getUTCFullYear();
+}
+
+/**
+ * Evaluates every rule of the policy against one booking window and returns
+ * all the violations rather than stopping at the first one.
+ */
+export function checkBookingPolicy(
+  policy: BookingPolicy,
+  window: BookingWindow,
+  role: Role,
+  holidays: HolidayFields[],
+  now: Date = new Date()
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  if (
+    policy.minNoticeHours !== null &&
+    calculateDurationInHours(now, window.startDate) < policy.minNoticeHours
+  ) {
+    violations.push({
+      rule: 'minNotice',
+      message: `Reservations must be made at least ${policy.minNoticeHours} hour(s) in advance`,
+    });
+  }
+
+  if (
+    policy.maxAdvanceDays !== null &&
+    window.startDate.getTime() - now.getTime() > policy.maxAdvanceDays * DAY_MS
+  ) {
+    violations.push({
+      rule: 'maxAdvance',
+      message: `Reservations cannot be made more than ${policy.maxAdvanceDays} days in advance`,
+    });
+  }
+
+  if (
+    policy.maxDurationDays !== null &&
+    window.endDate.getTime() - window.startDate.getTime() > policy.maxDurationDays * DAY_MS
+  ) {
+    violations.push({
+      rule: 'maxDuration',
+      message: `Reservations cannot last more than ${policy.maxDurationDays} days`,
+    });
+  }
+
+  if (policy.bookingHours) {
+    const opening = toMinutes(policy.bookingHours.start);
+    const closing = toMinutes(policy.bookingHours.end);
+    const outside = [window.startDate, window.endDate].some(
+      (date) => minutesOfDay(date) < opening || minutesOfDay(date) > closing
+    );
+    if (outside) {
+      violations.push({
+        rule: 'bookingHours',
+        message: `Pickup and return must be between ${policy.bookingHours.start} and ${policy.bookingHours.end}`,
+      });
+    }
+  }
+
+  const days = getWindowDays(window);
+
+  if (policy.blockHolidays) {
+    const blocked = days.flatMap((day) =>
+      holidays
+        .filter((holiday) => isHoliday(day, holiday))
+        .map((holiday) => `${holiday.name} (${formatDateToISOString(day).slice(0, 10)})`)
+    );
+    if (blocked.length > 0) {
+      violations.push({
+        rule: 'holiday',
+        message: `Reservations are not allowed on holidays: ${blocked.join(', ')}`,
+      });
+    }
+  }
+
+  if (
+    !policy.weekendRoles.includes(role) &&
+    days.some((day) => day.getUTCDay() === 0 || day.getUTCDay() === 6)
+  ) {
+    violations.push({
+      rule: 'weekend',
+      message: 'Your role is not allowed to book vehicles over the weekend',
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Loads the policy and the holidays once and checks each window. Violations
+ * of recurring windows are prefixed with the date of the occurrence.
+ */
+export async function findPolicyViolations(
+  windows: BookingWindow[],
+  role: Role,
+  client: Prisma.TransactionClient = prisma
+): Promise<PolicyViolation[]> {
+  const policy = await getBookingPolicy(client);
+
+  const first = windows[0]!.startDate;
+  const last = windows[windows.length - 1]!.endDate;
+  const holidays = policy.blockHolidays
+    ? await client.holiday.findMany({
+        where: {
+          OR: [
+            { isRecurring: true },
+            { date: { gte: new Date(first.getTime() - DAY_MS), lte: last } },
+          ],
+        },
+      })
+    : [];
+
+  const seen = new Set<string>();
+  const violations: PolicyViolation[] = [];
+
+  for (const window of windows) {
+    for (const violation of checkBookingPolicy(policy, window, role, holidays)) {
+      const message =
+        windows.length > 1
+          ? `${formatDateToISOString(window.startDate).slice(0, 10)}: ${violation.message}`
+          : violation.message;
+      if (!seen.has(message)) {
+        seen.add(message);
+        violations.push({ rule: violation.rule, message });
+      }
+    }
+  }
+
+  return violations;
+}
+
+export async function assertBookingPolicy(
+  windows: BookingWindow[],
+  role: Role,
+  client: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const violations = await findPolicyViolations(windows, role, client);
+
+  if (violations.length > 0) {
+    const errors: Record<string, string[]> = {};
+    for (const violation of violations) {
+      (errors[violation.rule] ??= []).push(violation.message);
+    }
+    throw new ValidationError('The reservation does not comply with the booking policy', errors);
+  }
+}
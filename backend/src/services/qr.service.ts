@@ -0,0 +1,245 @@
+import { Prisma, Reservation, Vehicle } from '@prisma/client';
+import QRCode from 'qrcode';
+import { prisma } from '../config/prisma.js';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { ConflictError, NotFoundError } from '../utils/errors.js';
+import { addHours, generateQRCode } from '../utils/helpers.js';
+import { checkIn, checkOut } from './reservation.service.js';
+import type {
+  CheckInInput,
+  CheckOutInput,
+} from '../validators/reservation.validator.js';
+import type {
+  VehicleQrQueryInput,
+  QrStickerSheetQueryInput,
+} from '../validators/vehicle.validator.js';
+
+// How long before its start an approved reservation can be checked in by scan
+export const SCAN_CHECK_IN_LEAD_HOURS = 2;
+
+export type ScanAction = 'CHECK_IN' | 'CHECK_OUT';
+
+const scanVehicleSelect = {
+  id: true,
+  brand: true,
+  model: true,
+  registrationNumber: true,
+  type: true,
+  status: true,
+  currentMileage: true,
+  qrCode: true,
+} as const;
+
+type ScanVehicle = Prisma.VehicleGetPayload<{ select: typeof scanVehicleSelect }>;
+
+export interface ScanResult {
+  vehicle: ScanVehicle;
+  reservation: Reservation | null;
+  action: ScanAction | null;
+}
+
+// The QR encodes a link to the scan page of the web app, so any phone camera
+// opens the right screen
+export function getScanUrl(qrCode: string): string {
+  return `${config.frontendUrl}/scan/${encodeURIComponent(qrCode)}`;
+}
+
+// Vehicles created before QR codes were generated get one on first use
+async function ensureQrCode(vehicle: Vehicle): Promise<string> {
+  if (vehicle.qrCode) {
+    return vehicle.qrCode;
+  }
+
+  const { qrCode } = await prisma.vehicle.update({
+    where: { id: vehicle.id },
+    data: { qrCode: generateQRCode() },
+  });
+
+  return qrCode!;
+}
+
+export async function renderVehicleQrCode(
+  vehicleId: string,
+  query: VehicleQrQueryInput
+): Promise<{ contentType: string; filename: string; body: Buffer | string }> {
+  const vehicle = await prisma.vehicle.findUnique({ where: { id: vehicleId } });
+
+  if (!vehicle) {
+    throw new NotFoundError('Vehicle not found');
+  }
+
+  const url = getScanUrl(await ensureQrCode(vehicle));
+  const filename = `qr-${vehicle.registrationNumber}.${query.format}`;
+
+  if (query.format === 'svg') {
+    return {
+      contentType: 'image/svg+xml',
+      filename,
+      body: await QRCode.toString(url, { type: 'svg', width: query.size, margin: 1 }),
+    };
+  }
+
+  return {
+    contentType: 'image/png',
+    filename,
+    body: await QRCode.toBuffer(url, { type: 'png', width: query.size, margin: 1 }),
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Printable A4 sheet with one QR sticker per active vehicle, ready to be
+ * printed from the browser.
+ */
+export async function renderQrStickerSheet(query: QrStickerSheetQueryInput): Promise<string> {
+  const vehicles = await prisma.vehicle.findMany({
+    where: {
+      isActive: true,
+      type: query.type,
+      locationId: query.locationId,
+    },
+    orderBy: { registrationNumber: 'asc' },
+  });
+
+  const stickers: string[] = [];
+  for (const vehicle of vehicles) {
+    const svg = await QRCode.toString(getScanUrl(await ensureQrCode(vehicle)), {
+      type: 'svg',
+      margin: 1,
+    });
+    stickers.push(`
+    <div class="sticker">
+      ${svg}
+      <strong>${escapeHtml(vehicle.registrationNumber)}</strong>
+      <span>${escapeHtml(`${vehicle.brand} ${vehicle.model}`)}</span>
+    </div>`);
+  }
+
+  logger.info(`QR sticker sheet generated for ${vehicles.length} vehicle(s)`);
+
+  return `<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8">
+  <title>QR codes des vehicules</title>
+  <style>
+    @page { size: A4; margin: 10mm; }
+    body { font-family: Arial, sans-serif; margin: 0; }
+    .sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6mm; }
+    .sticker { border: 1px dashed #999; padding: 4mm; text-align: center; break-inside: avoid; }
+    .sticker svg { width: 45mm; height: 45mm; display: block; margin: 0 auto 2mm; }
+    .sticker strong { display: block; font-size: 14pt; }
+    .sticker span { font-size: 9pt; color: #555; }
+  </style>
+</head>
+<body>
+  <div class="sheet">${stickers.join('')}
+  </div>
+</body>
+</html>`;
+}
+
+async function getScannedVehicle(qrCode: string): Promise<ScanVehicle> {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { qrCode },
+    select: scanVehicleSelect,
+  });
+
+  if (!vehicle) {
+    throw new NotFoundError('No vehicle matches this QR code');
+  }
+
+  return vehicle;
+}
+
+// The trip of the user (as requester or driver) on this vehicle that a scan
+// acts on: the one in progress, otherwise an approved one about to start
+async function findScannedReservation(
+  vehicleId: string,
+  userId: string
+): Promise<{ reservation: Reservation; action: ScanAction } | null> {
+  const now = new Date();
+  const participant = { OR: [{ userId }, { driverId: userId }] };
+
+  const inProgress = await prisma.reservation.findFirst({
+    where: { vehicleId, status: 'IN_PROGRESS', ...participant },
+    orderBy: { startDate: 'asc' },
+  });
+
+  if (inProgress) {
+    return { reservation: inProgress, action: 'CHECK_OUT' };
+  }
+
+  const upcoming = await prisma.reservation.findFirst({
+    where: {
+      vehicleId,
+      status: 'APPROVED',
+      startDate: { lte: addHours(now, SCAN_CHECK_IN_LEAD_HOURS) },
+      endDate: { gt: now },
+      ...participant,
+    },
+    orderBy: { startDate: 'asc' },
+  });
+
+  return upcoming ? { reservation: upcoming, action: 'CHECK_IN' } : null;
+}
+
+export async function resolveScan(qrCode: string, userId: string): Promise<ScanResult> {
+  const vehicle = await getScannedVehicle(qrCode);
+  const current = await findScannedReservation(vehicle.id, userId);
+
+  return {
+    vehicle,
+    reservation: current?.reservation ?? null,
+    action: current?.action ?? null,
+  };
+}
+
+async function getScannedReservationFor(
+  qrCode: string,
+  userId: string,
+  action: ScanAction
+): Promise<Reservation> {
+  const vehicle = await getScannedVehicle(qrCode);
+  const current = await findScannedReservation(vehicle.id, userId);
+
+  if (!current || current.action !== action) {
+    throw new ConflictError(
+      action === 'CHECK_IN'
+        ? 'You have no approved reservation starting soon on this vehicle'
+        : 'You have no reservation in progress on this vehicle'
+    );
+  }
+
+  return current.reservation;
+}
+
+/**
+ * Check-in by scanning the vehicle: open to the requester and the driver of
+ * the reservation, since scanning proves they are at the vehicle.
+ */
+export async function scanCheckIn(
+  qrCode: string,
+  userId: string,
+  data: CheckInInput
+): Promise<Reservation> {
+  const reservation = await getScannedReservationFor(qrCode, userId, 'CHECK_IN');
+  return checkIn(reservation.id, userId, data);
+}
+
+export async function scanCheckOut(
+  qrCode: string,
+  userId: string,
+  data: CheckOutInput
+): Promise<Reservation> {
+  const reservation = await getScannedReservationFor(qrCode, userId, 'CHECK_OUT');
+  return checkOut(reservation.id, userId, data);
+}
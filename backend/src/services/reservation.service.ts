@@ -1,4 +1,12 @@
-import { Prisma, ReservationStatus, Role } from '@prisma/client';
+import {
+  ApprovalStep,
+  Prisma,
+  Reservation,
+  ReservationStatus,
+  Role,
+  Vehicle,
+} from '@prisma/client';
+import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '../config/prisma.js';
 import { logger } from '../config/logger.js';
 import {
@@ -14,20 +22,58 @@ import {
   generateReferenceNumber,
   doDateRangesOverlap,
   calculateDurationInHours,
+  formatDateToISOString,
+  addHours,
 } from '../utils/helpers.js';
+import { runSerializable } from '../utils/transaction.js';
+import { findVehicleConflict, type VehicleConflict } from './availability.service.js';
+import {
+  assertBookingPolicy,
+  findPolicyViolations,
+  type PolicyViolation,
+} from './policy.service.js';
+import {
+  findAllocationCandidates,
+  type AllocationCandidate,
+} from './allocation.service.js';
+import { getAvailableVehicles, type VehicleWithRelations } from './vehicle.service.js';
+import {
+  approvalStepLabels,
+  buildApprovalChain,
+  canApproveStep,
+  getApprovalPolicy,
+  getFleetApprovalReasons,
+  getNextApprovalStep,
+  getStepApproverIds,
+} from './approval.service.js';
+import {
+  parseRecurrenceRule,
+  expandRecurrence,
+  type Occurrence,
+} from '../utils/recurrence.js';
 import type { PaginatedResponse } from '../validators/index.js';
 import {
   sendReservationConfirmationEmail,
   sendReservationStatusEmail,
 } from './email.service.js';
 import { createNotification } from './notification.service.js';
+import { offerFreedSlot } from './waitlist.service.js';
+import { reportDisplacedReservations } from './maintenance.service.js';
+import { getSetting } from './settings.service.js';
+import { notifyFlaggedReadings, recordOdometerReading } from './odometer.service.js';
 import type {
   CreateReservationInput,
+  ValidateReservationInput,
   UpdateReservationInput,
   ReservationQueryInput,
   CheckInInput,
   CheckOutInput,
+  ReassignVehicleInput,
+  SwapVehicleInput,
+  ExtendReservationInput,
+  ReservationScope,
 } from '../validators/reservation.validator.js';
+import type { ConflictResolutionInput } from '../validators/maintenance.validator.js';
 
 type ReservationWithRelations = Prisma.ReservationGetPayload<{
   include: {
@@ -93,33 +139,89 @@ async function checkVehicleAvailability(
   vehicleId: string,
   startDate: Date,
   endDate: Date,
-  excludeReservationId?: string
+  excludeReservationIds: string[] = []
 ): Promise<boolean> {
-  const conflicting = await prisma.reservation.findFirst({
-    where: {
-      vehicleId,
-      status: { in: ['PENDING', 'APPROVED', 'IN_PROGRESS'] },
-      id: excludeReservationId ? { not: excludeReservationId } : undefined,
-      OR: [
-        {
-          startDate: { lte: endDate },
-          endDate: { gte: startDate },
-        },
-      ],
-    },
+  const conflict = await findVehicleConflict(vehicleId, startDate, endDate, {
+    excludeReservationIds,
+  });
+
+  return !conflict;
+}
+
+function conflictError(conflict: VehicleConflict): ConflictError {
+  switch (conflict.type) {
+    case 'INACTIVE':
+      return new ConflictError('Vehicle is no longer in service', 'VEHICLE_INACTIVE');
+    case 'OUT_OF_SERVICE':
+      return new ConflictError(
+        conflict.until
+          ? `Vehicle is out of service until ${formatDateToISOString(conflict.until)}`
+          : 'Vehicle is out of service',
+        'VEHICLE_OUT_OF_SERVICE'
+      );
+    case 'MAINTENANCE':
+      return new ConflictError(
+        `Vehicle is scheduled for maintenance ` +
+          `from ${formatDateToISOString(conflict.startDate)} ` +
+          `to ${formatDateToISOString(conflict.endDate)}`,
+        'MAINTENANCE_CONFLICT'
+      );
+    case 'RESERVATION':
+      return new ConflictError(
+        `Vehicle is already booked by reservation ${conflict.reservation.referenceNumber} ` +
+          `from ${formatDateToISOString(conflict.reservation.startDate)} ` +
+          `to ${formatDateToISOString(conflict.reservation.endDate)}`,
+        'RESERVATION_CONFLICT'
+      );
+  }
+}
+
+function estimateCost(
+  vehicle: Pick<Vehicle, 'dailyRate'>,
+  startDate: Date,
+  endDate: Date
+): number | null {
+  const hours = calculateDurationInHours(startDate, endDate);
+  const days = Math.ceil(hours / 24);
+  return vehicle.dailyRate ? vehicle.dailyRate * days : null;
+}
+
+interface TripLeg {
+  vehicle: Pick<Vehicle, 'dailyRate' | 'mileageRate'>;
+  startDate: Date;
+  endDate: Date;
+  distance: number;
+}
+
+// Prices the legs of a trip. The days of the whole trip are billed once and
+// split between the vehicles in proportion to the time spent with each;
+// every vehicle bills its own mileage
+function priceTripLegs(legs: TripLeg[]): number[] {
+  const legHours = legs.map((leg) => calculateDurationInHours(leg.startDate, leg.endDate));
+  const totalHours = legHours.reduce((sum, hours) => sum + hours, 0);
+  const days = Math.ceil(totalHours / 24);
+
+  return legs.map((leg, index) => {
+    const share = totalHours > 0 ? legHours[index]! / totalHours : 1 / legs.length;
+    const dailyCost = leg.vehicle.dailyRate ? leg.vehicle.dailyRate * days * share : 0;
+    const mileageCost = leg.vehicle.mileageRate ? leg.vehicle.mileageRate * leg.distance : 0;
+    return dailyCost + mileageCost;
   });
+}
 
-  return !conflicting;
+function formatOccurrence(occurrence: Occurrence): string {
+  return occurrence.startDate.toISOString().split('T')[0] ?? occurrence.startDate.toISOString();
 }
 
 async function addHistoryEntry(
   reservationId: string,
   previousStatus: ReservationStatus | null,
   newStatus: ReservationStatus,
-  changedBy: string,
-  comment?: string
+  changedBy: string | null,
+  comment?: string,
+  client: Prisma.TransactionClient = prisma
 ): Promise<void> {
-  await prisma.reservationHistory.create({
+  await client.reservationHistory.create({
     data: {
       reservationId,
       previousStatus,
@@ -142,85 +244,184 @@ export async function createReservation(
     throw new BadRequestError('Start date cannot be in the past');
   }
 
-  // Check vehicle exists and is available
-  const vehicle = await prisma.vehicle.findUnique({
-    where: { id: data.vehicleId },
-    include: { photos: true },
-  });
+  // Expand recurring reservations into their occurrences
+  const isRecurring = !!(data.isRecurring && data.recurringPattern);
+  const occurrences: Occurrence[] = isRecurring
+    ? expandRecurrence(startDate, endDate, parseRecurrenceRule(data.recurringPattern!))
+    : [{ startDate, endDate }];
 
-  if (!vehicle) {
-    throw new NotFoundError('Vehicle not found');
-  }
+  // Get user for department and booking policy
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { departmentId: true, email: true, firstName: true, role: true },
+  });
 
-  if (vehicle.status !== 'AVAILABLE') {
-    throw new ConflictError(`Vehicle is currently ${vehicle.status.toLowerCase()}`);
-  }
+  // Every policy violation is reported at once, for every occurrence
+  await assertBookingPolicy(occurrences, user?.role ?? 'EMPLOYEE');
 
-  // Check for conflicting reservations
-  const isAvailable = await checkVehicleAvailability(
-    data.vehicleId,
-    startDate,
-    endDate
-  );
+  // Candidate vehicles: the requested one, or every available vehicle of the
+  // requested category ranked by the allocator
+  let candidates: Vehicle[];
+  if (data.vehicleId) {
+    const requested = await prisma.vehicle.findUnique({
+      where: { id: data.vehicleId },
+    });
 
-  if (!isAvailable) {
-    throw new ConflictError('Vehicle is not available for the selected dates');
+    if (!requested) {
+      throw new NotFoundError('Vehicle not found');
+    }
+    candidates = [requested];
+  } else {
+    const ranked = await findAllocationCandidates(
+      {
+        vehicleType: data.vehicleType!,
+        minSeats: data.minSeats,
+        fuelType: data.fuelType,
+        pickupLocationId: data.pickupLocationId,
+        estimatedMileage: data.estimatedMileage,
+      },
+      startDate,
+      endDate
+    );
+    candidates = ranked.map((candidate) => candidate.vehicle);
   }
 
-  // Get user for department
-  const user = await prisma.user.findUnique({
-    where: { id: userId },
-    select: { departmentId: true, email: true, firstName: true },
-  });
+  const departmentId = user?.departmentId ?? null;
+  const seriesId = isRecurring ? uuidv4() : null;
+
+  // Availability check and inserts run in one serializable transaction so two
+  // concurrent bookings of the same vehicle and window cannot both succeed
+  const { created, vehicle, approvalChain } = await runSerializable(async (tx) => {
+    // Pick the first candidate free on every occurrence
+    let vehicle: Vehicle | null = null;
+    for (const candidate of candidates) {
+      const clashes: Occurrence[] = [];
+      for (const occurrence of occurrences) {
+        const conflict = await findVehicleConflict(
+          candidate.id,
+          occurrence.startDate,
+          occurrence.endDate,
+          {},
+          tx
+        );
+
+        if (conflict) {
+          if (data.vehicleId && !isRecurring) {
+            throw conflictError(conflict);
+          }
+          clashes.push(occurrence);
+        }
+      }
+
+      if (clashes.length === 0) {
+        vehicle = candidate;
+        break;
+      }
+
+      if (data.vehicleId) {
+        throw new ConflictError(
+          `Vehicle is not available on: ${clashes.map(formatOccurrence).join(', ')}`,
+          'RECURRENCE_CONFLICT'
+        );
+      }
+    }
 
-  // Calculate estimated cost
-  const hours = calculateDurationInHours(startDate, endDate);
-  const days = Math.ceil(hours / 24);
-  const estimatedCost = vehicle.dailyRate ? vehicle.dailyRate * days : null;
+    if (!vehicle) {
+      throw new ConflictError(
+        'No vehicle matching the requested category is available for the selected dates',
+        'NO_VEHICLE_AVAILABLE'
+      );
+    }
 
-  const reservation = await prisma.reservation.create({
-    data: {
-      referenceNumber: generateReferenceNumber(),
-      userId,
-      vehicleId: data.vehicleId,
-      startDate,
-      endDate,
-      purpose: data.purpose,
-      destination: data.destination,
-      passengerCount: data.passengerCount || 1,
-      estimatedMileage: data.estimatedMileage,
-      needsDriver: data.needsDriver || false,
-      driverId: data.driverId,
-      notes: data.notes,
-      isRecurring: data.isRecurring || false,
-      recurringPattern: data.recurringPattern,
-      departmentId: user?.departmentId,
-      estimatedCost,
-      status: 'PENDING',
-    },
-    include: reservationInclude,
-  });
+    // Calculate estimated cost
+    const estimatedCost = estimateCost(vehicle, startDate, endDate);
+
+    // Every occurrence shares the duration and cost, hence the approval chain
+    const approvalChain = await buildApprovalChain(
+      {
+        userId,
+        departmentId,
+        estimatedCost,
+        startDate,
+        endDate,
+        vehicleType: vehicle.type,
+      },
+      tx
+    );
 
-  // Add history entry
-  await addHistoryEntry(
-    reservation.id,
-    null,
-    'PENDING',
-    userId,
-    'Reservation created'
-  );
+    const reservations: ReservationWithRelations[] = [];
+
+    for (const [index, occurrence] of occurrences.entries()) {
+      const reservation = await tx.reservation.create({
+        data: {
+          referenceNumber: generateReferenceNumber(),
+          userId,
+          vehicleId: vehicle.id,
+          startDate: occurrence.startDate,
+          endDate: occurrence.endDate,
+          purpose: data.purpose,
+          destination: data.destination,
+          passengerCount: data.passengerCount || 1,
+          estimatedMileage: data.estimatedMileage,
+          needsDriver: data.needsDriver || false,
+          driverId: data.driverId,
+          notes: data.notes,
+          isRecurring,
+          recurringPattern: isRecurring ? data.recurringPattern : null,
+          seriesId,
+          departmentId,
+          estimatedCost,
+          status: 'PENDING',
+          approvalChain,
+          approvalStep: approvalChain[0],
+          isAutoAssigned: !data.vehicleId,
+          requestedVehicleType: data.vehicleId ? null : data.vehicleType,
+          requestedMinSeats: data.minSeats,
+          requestedFuelType: data.fuelType,
+          pickupLocationId: data.pickupLocationId,
+        },
+        include: reservationInclude,
+      });
+
+      // Add history entry
+      await addHistoryEntry(
+        reservation.id,
+        null,
+        'PENDING',
+        userId,
+        (isRecurring
+          ? `Recurring reservation created (occurrence ${index + 1}/${occurrences.length})`
+          : 'Reservation created') +
+          (data.vehicleId ? '' : `, vehicle ${vehicle.registrationNumber} assigned automatically`),
+        tx
+      );
+
+      reservations.push(reservation);
+    }
 
-  // Create audit log
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'CREATE',
-      entityType: 'reservation',
-      entityId: reservation.id,
-      newValues: { referenceNumber: reservation.referenceNumber } as Prisma.InputJsonValue,
-    },
+    // Create audit log
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'CREATE',
+        entityType: 'reservation',
+        entityId: reservations[0]!.id,
+        newValues: {
+          referenceNumber: reservations[0]!.referenceNumber,
+          ...(seriesId && {
+            seriesId,
+            recurringPattern: data.recurringPattern,
+            occurrences: reservations.length,
+          }),
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { created: reservations, vehicle, approvalChain };
   });
 
+  const reservation = created[0]!;
+
   // Send confirmation email
   if (user) {
     await sendReservationConfirmationEmail(user.email, user.firstName, {
@@ -232,28 +433,52 @@ export async function createReservation(
     });
   }
 
-  // Notify managers for approval
-  const managers = await prisma.user.findMany({
-    where: { role: { in: ['MANAGER', 'ADMIN', 'SUPER_ADMIN'] }, isActive: true },
-    select: { id: true },
-  });
+  // Notify the approvers of the first step only
+  const approverIds = await getStepApproverIds(approvalChain[0]!, departmentId);
 
-  for (const manager of managers) {
+  for (const approverId of approverIds) {
     await createNotification({
-      userId: manager.id,
+      userId: approverId,
       type: 'RESERVATION_CREATED',
       title: 'New Reservation Request',
-      message: `New reservation request ${reservation.referenceNumber} requires approval`,
+      message: seriesId
+        ? `New recurring reservation request ${reservation.referenceNumber} (${created.length} occurrences) requires approval`
+        : `New reservation request ${reservation.referenceNumber} requires approval`,
       entityType: 'reservation',
       entityId: reservation.id,
     });
   }
 
-  logger.info(`Reservation created: ${reservation.referenceNumber}`);
+  logger.info(
+    seriesId
+      ? `Recurring reservation created: ${reservation.referenceNumber} (${created.length} occurrences)`
+      : `Reservation created: ${reservation.referenceNumber}`
+  );
 
   return reservation;
 }
 
+/**
+ * Dry run of the booking policy for the booking form: returns every
+ * violation without creating anything.
+ */
+export async function validateReservation(
+  data: ValidateReservationInput,
+  userRole: Role
+): Promise<{ valid: boolean; violations: PolicyViolation[] }> {
+  const startDate = new Date(data.startDate);
+  const endDate = new Date(data.endDate);
+
+  const occurrences: Occurrence[] =
+    data.isRecurring && data.recurringPattern
+      ? expandRecurrence(startDate, endDate, parseRecurrenceRule(data.recurringPattern))
+      : [{ startDate, endDate }];
+
+  const violations = await findPolicyViolations(occurrences, userRole);
+
+  return { valid: violations.length === 0, violations };
+}
+
 export async function getReservations(
   query: ReservationQueryInput,
   userId?: string,
@@ -281,6 +506,10 @@ export async function getReservations(
     where.vehicleId = query.vehicleId;
   }
 
+  if (query.departmentId) {
+    where.departmentId = query.departmentId;
+  }
+
   if (query.startDate && query.endDate) {
     where.AND = [
       { startDate: { gte: new Date(query.startDate) } },
@@ -335,6 +564,14 @@ export async function getReservationById(
         orderBy: { createdAt: 'desc' },
       },
       documents: true,
+      segments: {
+        include: {
+          vehicle: {
+            select: { id: true, brand: true, model: true, registrationNumber: true },
+          },
+        },
+        orderBy: { startDate: 'asc' },
+      },
     },
   });
 
@@ -358,85 +595,283 @@ export async function getReservationById(
   return reservation;
 }
 
+async function assertCanDecideStep(
+  reservation: Reservation,
+  approverId: string
+): Promise<void> {
+  const step = reservation.approvalStep!;
+  const approver = await prisma.user.findUnique({
+    where: { id: approverId },
+    select: { id: true, role: true },
+  });
+
+  if (!approver || !(await canApproveStep(step, approver, reservation.departmentId))) {
+    throw new ForbiddenError(
+      `This reservation is awaiting approval by the ${approvalStepLabels[step]}`
+    );
+  }
+}
+
+interface VehicleApprovalChain {
+  approvalChain: ApprovalStep[];
+  approvalStep: ApprovalStep | null;
+  // Steps the new vehicle requires that the previous chain did not have
+  addedSteps: ApprovalStep[];
+}
+
+/**
+ * Rebuilds the approval chain of a pending reservation moved to another
+ * vehicle, whose type or cost may cross a fleet approval threshold. The
+ * current step is kept when it is still in the chain, otherwise approval
+ * restarts from the first step.
+ */
+async function rebuildApprovalChainForVehicle(
+  reservation: Pick<
+    Reservation,
+    'userId' | 'departmentId' | 'startDate' | 'endDate' | 'approvalChain' | 'approvalStep'
+  >,
+  vehicle: Pick<Vehicle, 'type'>,
+  estimatedCost: number | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<VehicleApprovalChain> {
+  const approvalChain = await buildApprovalChain(
+    {
+      userId: reservation.userId,
+      departmentId: reservation.departmentId,
+      estimatedCost,
+      startDate: reservation.startDate,
+      endDate: reservation.endDate,
+      vehicleType: vehicle.type,
+    },
+    client
+  );
+
+  const current = reservation.approvalStep;
+
+  return {
+    approvalChain,
+    approvalStep: current && approvalChain.includes(current) ? current : approvalChain[0]!,
+    addedSteps: approvalChain.filter((step) => !reservation.approvalChain.includes(step)),
+  };
+}
+
+/**
+ * Tells the approvers of steps added to a reservation's chain that it now
+ * needs their approval as well.
+ */
+export async function notifyAddedApprovalSteps(
+  reservation: Pick<Reservation, 'id' | 'referenceNumber' | 'departmentId'>,
+  steps: ApprovalStep[]
+): Promise<void> {
+  for (const step of steps) {
+    const approverIds = await getStepApproverIds(step, reservation.departmentId);
+    for (const approverId of approverIds) {
+      await createNotification({
+        userId: approverId,
+        type: 'RESERVATION_CREATED',
+        title: 'Reservation Awaiting Approval',
+        message: `Reservation ${reservation.referenceNumber} now also requires your approval as ${approvalStepLabels[step]}`,
+        entityType: 'reservation',
+        entityId: reservation.id,
+      });
+    }
+  }
+}
+
+async function getScopedReservations(
+  reservation: Reservation,
+  scope: ReservationScope | undefined,
+  statuses: ReservationStatus[],
+  client: Prisma.TransactionClient = prisma
+): Promise<Reservation[]> {
+  if (scope !== 'series' || !reservation.seriesId) {
+    return [reservation];
+  }
+
+  // The selected occurrence is always part of the scope, its status having
+  // already been checked by the caller
+  return client.reservation.findMany({
+    where: {
+      seriesId: reservation.seriesId,
+      OR: [{ id: reservation.id }, { status: { in: statuses } }],
+    },
+    orderBy: { startDate: 'asc' },
+  });
+}
+
 export async function updateReservation(
   id: string,
   data: UpdateReservationInput,
   userId: string,
   userRole: Role
 ): Promise<ReservationWithRelations> {
-  const reservation = await prisma.reservation.findUnique({
-    where: { id },
-  });
+  const { scope, ...changes } = data;
 
-  if (!reservation) {
-    throw new NotFoundError('Reservation not found');
-  }
+  // Re-dating is checked and applied atomically, like booking
+  const { reservation, updated, targetIds } = await runSerializable(async (tx) => {
+    const reservation = await tx.reservation.findUnique({
+      where: { id },
+    });
 
-  // Check permissions
-  if (userRole === 'EMPLOYEE' && reservation.userId !== userId) {
-    throw new ForbiddenError('You can only modify your own reservations');
-  }
+    if (!reservation) {
+      throw new NotFoundError('Reservation not found');
+    }
 
-  // Can only modify draft or pending reservations
-  if (!['DRAFT', 'PENDING'].includes(reservation.status)) {
-    throw new ConflictError(
-      'Cannot modify reservation that is already approved or in progress'
-    );
-  }
+    // Check permissions
+    if (userRole === 'EMPLOYEE' && reservation.userId !== userId) {
+      throw new ForbiddenError('You can only modify your own reservations');
+    }
 
-  const startDate = data.startDate ? new Date(data.startDate) : reservation.startDate;
-  const endDate = data.endDate ? new Date(data.endDate) : reservation.endDate;
+    // Can only modify draft or pending reservations
+    if (!['DRAFT', 'PENDING'].includes(reservation.status)) {
+      throw new ConflictError(
+        'Cannot modify reservation that is already approved or in progress'
+      );
+    }
 
-  // Check vehicle availability if dates or vehicle changed
-  if (data.vehicleId || data.startDate || data.endDate) {
-    const vehicleId = data.vehicleId || reservation.vehicleId;
-    const isAvailable = await checkVehicleAvailability(
-      vehicleId,
-      startDate,
-      endDate,
-      id
+    // In series scope, every editable occurrence is updated and date changes
+    // are applied as a shift relative to this occurrence
+    const targets = await getScopedReservations(
+      reservation,
+      scope,
+      ['DRAFT', 'PENDING'],
+      tx
     );
+    const targetIds = targets.map((target) => target.id);
+    const startShift = changes.startDate
+      ? new Date(changes.startDate).getTime() - reservation.startDate.getTime()
+      : 0;
+    const endShift = changes.endDate
+      ? new Date(changes.endDate).getTime() - reservation.endDate.getTime()
+      : 0;
+
+    const planned = targets.map((target) => ({
+      target,
+      startDate: new Date(target.startDate.getTime() + startShift),
+      endDate: new Date(target.endDate.getTime() + endShift),
+    }));
+
+    // New dates must comply with the booking policy of the requester's role
+    if (changes.startDate || changes.endDate) {
+      const owner = await tx.user.findUnique({
+        where: { id: reservation.userId },
+        select: { role: true },
+      });
+      await assertBookingPolicy(planned, owner?.role ?? 'EMPLOYEE', tx);
+    }
 
-    if (!isAvailable) {
-      throw new ConflictError('Vehicle is not available for the selected dates');
+    // Check vehicle availability if dates or vehicle changed
+    if (changes.vehicleId || changes.startDate || changes.endDate) {
+      const clashes: Occurrence[] = [];
+
+      for (const { target, startDate, endDate } of planned) {
+        if (endDate <= startDate) {
+          throw new BadRequestError('End date must be after start date');
+        }
+
+        const conflict = await findVehicleConflict(
+          changes.vehicleId || target.vehicleId,
+          startDate,
+          endDate,
+          { excludeReservationIds: targetIds },
+          tx
+        );
+
+        if (conflict) {
+          if (targets.length === 1) {
+            throw conflictError(conflict);
+          }
+          clashes.push({ startDate, endDate });
+        }
+      }
+
+      if (clashes.length > 0) {
+        throw new ConflictError(
+          `Vehicle is not available on: ${clashes.map(formatOccurrence).join(', ')}`,
+          'RECURRENCE_CONFLICT'
+        );
+      }
     }
-  }
 
-  // If modified, reset to pending
-  const newStatus =
-    reservation.status === 'DRAFT' ? 'DRAFT' : 'PENDING';
+    let updated: ReservationWithRelations | null = null;
 
-  const updated = await prisma.reservation.update({
-    where: { id },
-    data: {
-      ...data,
-      startDate: data.startDate ? new Date(data.startDate) : undefined,
-      endDate: data.endDate ? new Date(data.endDate) : undefined,
-      status: newStatus,
-    },
-    include: reservationInclude,
-  });
+    for (const { target, startDate, endDate } of planned) {
+      // If modified, reset to pending
+      const newStatus = target.status === 'DRAFT' ? 'DRAFT' : 'PENDING';
 
-  await addHistoryEntry(
-    id,
-    reservation.status,
-    newStatus,
-    userId,
-    'Reservation updated'
-  );
+      // The approval chain restarts from the first step, re-evaluated on the
+      // new cost, duration and vehicle
+      const vehicle = await tx.vehicle.findUnique({
+        where: { id: changes.vehicleId || target.vehicleId },
+      });
 
-  await prisma.auditLog.create({
-    data: {
-      userId,
-      action: 'UPDATE',
-      entityType: 'reservation',
-      entityId: id,
-      oldValues: reservation as unknown as Prisma.InputJsonValue,
-      newValues: data as Prisma.InputJsonValue,
-    },
+      if (!vehicle) {
+        throw new NotFoundError('Vehicle not found');
+      }
+
+      const estimatedCost = estimateCost(vehicle, startDate, endDate);
+      const approvalChain = await buildApprovalChain(
+        {
+          userId: target.userId,
+          departmentId: target.departmentId,
+          estimatedCost,
+          startDate,
+          endDate,
+          vehicleType: vehicle.type,
+        },
+        tx
+      );
+
+      const result = await tx.reservation.update({
+        where: { id: target.id },
+        data: {
+          ...changes,
+          startDate: changes.startDate ? startDate : undefined,
+          endDate: changes.endDate ? endDate : undefined,
+          status: newStatus,
+          estimatedCost,
+          approvalChain,
+          approvalStep: approvalChain[0],
+        },
+        include: reservationInclude,
+      });
+
+      await addHistoryEntry(
+        target.id,
+        target.status,
+        newStatus,
+        userId,
+        targets.length > 1 ? 'Reservation series updated' : 'Reservation updated',
+        tx
+      );
+
+      if (target.id === id) {
+        updated = result;
+      }
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entityType: 'reservation',
+        entityId: id,
+        oldValues: reservation as unknown as Prisma.InputJsonValue,
+        newValues: {
+          ...changes,
+          ...(targets.length > 1 && { scope, updatedReservations: targetIds }),
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { reservation, updated: updated!, targetIds };
   });
 
-  logger.info(`Reservation updated: ${reservation.referenceNumber}`);
+  logger.info(
+    targetIds.length > 1
+      ? `Reservation series updated from ${reservation.referenceNumber} (${targetIds.length} occurrences)`
+      : `Reservation updated: ${reservation.referenceNumber}`
+  );
 
   return updated;
 }
@@ -461,29 +896,82 @@ export async function approveReservation(
     throw new ConflictError('Only pending reservations can be approved');
   }
 
+  // Reservations created before approval chains have no step and are
+  // approved in a single step
+  const step = reservation.approvalStep;
+  if (step) {
+    await assertCanDecideStep(reservation, approverId);
+  }
+
   // Double-check vehicle availability
   const isAvailable = await checkVehicleAvailability(
     reservation.vehicleId,
     reservation.startDate,
     reservation.endDate,
-    id
+    [id]
   );
 
   if (!isAvailable) {
     throw new ConflictError('Vehicle is no longer available');
   }
 
+  const chain = reservation.approvalChain;
+  const nextStep = step ? getNextApprovalStep(chain, step) : null;
+  const stepComment = step
+    ? `Approved by ${approvalStepLabels[step]} (step ${chain.indexOf(step) + 1}/${chain.length})` +
+      (comment ? `: ${comment}` : '')
+    : comment;
+
+  if (nextStep) {
+    const updated = await prisma.reservation.update({
+      where: { id },
+      data: { approvalStep: nextStep },
+      include: reservationInclude,
+    });
+
+    await addHistoryEntry(id, 'PENDING', 'PENDING', approverId, stepComment);
+
+    const approverIds = await getStepApproverIds(nextStep, reservation.departmentId);
+    for (const nextApproverId of approverIds) {
+      await createNotification({
+        userId: nextApproverId,
+        type: 'RESERVATION_CREATED',
+        title: 'Reservation Awaiting Approval',
+        message: `Reservation ${reservation.referenceNumber} requires your approval as ${approvalStepLabels[nextStep]}`,
+        entityType: 'reservation',
+        entityId: id,
+      });
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: approverId,
+        action: 'APPROVAL',
+        entityType: 'reservation',
+        entityId: id,
+        newValues: { approvedStep: step, nextStep, comment } as Prisma.InputJsonValue,
+      },
+    });
+
+    logger.info(
+      `Reservation ${reservation.referenceNumber} approved at step ${step}, awaiting ${nextStep}`
+    );
+
+    return updated;
+  }
+
   const updated = await prisma.reservation.update({
     where: { id },
     data: {
       status: 'APPROVED',
+      approvalStep: null,
       approvedById: approverId,
       approvedAt: new Date(),
     },
     include: reservationInclude,
   });
 
-  await addHistoryEntry(id, 'PENDING', 'APPROVED', approverId, comment);
+  await addHistoryEntry(id, 'PENDING', 'APPROVED', approverId, stepComment);
 
   // Notify user
   await createNotification({
@@ -511,7 +999,11 @@ export async function approveReservation(
       action: 'APPROVAL',
       entityType: 'reservation',
       entityId: id,
-      newValues: { status: 'APPROVED', comment } as Prisma.InputJsonValue,
+      newValues: {
+        status: 'APPROVED',
+        ...(step && { approvedStep: step }),
+        comment,
+      } as Prisma.InputJsonValue,
     },
   });
 
@@ -520,58 +1012,767 @@ export async function approveReservation(
   return updated;
 }
 
-export async function rejectReservation(
-  id: string,
-  approverId: string,
-  reason: string
-): Promise<ReservationWithRelations> {
+export async function getAllocationCandidates(
+  id: string
+): Promise<AllocationCandidate<VehicleWithRelations>[]> {
   const reservation = await prisma.reservation.findUnique({
     where: { id },
-    include: {
-      user: { select: { email: true, firstName: true } },
-    },
+    include: { vehicle: true },
   });
 
   if (!reservation) {
     throw new NotFoundError('Reservation not found');
   }
 
-  if (reservation.status !== 'PENDING') {
-    throw new ConflictError('Only pending reservations can be rejected');
-  }
-
-  const updated = await prisma.reservation.update({
-    where: { id },
-    data: {
-      status: 'REJECTED',
-      approvedById: approverId,
-      approvedAt: new Date(),
-      rejectionReason: reason,
+  // Reservations booked on a concrete vehicle are matched on its category
+  return findAllocationCandidates(
+    {
+      vehicleType: reservation.requestedVehicleType ?? reservation.vehicle.type,
+      minSeats: reservation.requestedMinSeats ?? undefined,
+      fuelType: reservation.requestedFuelType ?? undefined,
+      pickupLocationId: reservation.pickupLocationId ?? undefined,
+      estimatedMileage: reservation.estimatedMileage ?? undefined,
     },
-    include: reservationInclude,
+    reservation.startDate,
+    reservation.endDate
+  );
+}
+
+/**
+ * Lets the approver replace the vehicle of a pending reservation, typically
+ * to override the allocator's choice before approving it.
+ */
+export async function reassignVehicle(
+  id: string,
+  data: ReassignVehicleInput,
+  approverId: string
+): Promise<ReservationWithRelations> {
+  const { reservation, updated, vehicle, addedSteps } = await runSerializable(async (tx) => {
+    const reservation = await tx.reservation.findUnique({
+      where: { id },
+      include: { vehicle: true },
+    });
+
+    if (!reservation) {
+      throw new NotFoundError('Reservation not found');
+    }
+
+    if (reservation.status !== 'PENDING') {
+      throw new ConflictError('The vehicle can only be changed before approval');
+    }
+
+    if (reservation.approvalStep) {
+      await assertCanDecideStep(reservation, approverId);
+    }
+
+    if (reservation.vehicleId === data.vehicleId) {
+      throw new BadRequestError('The reservation already uses this vehicle');
+    }
+
+    const vehicle = await tx.vehicle.findUnique({
+      where: { id: data.vehicleId },
+    });
+
+    if (!vehicle) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    const conflict = await findVehicleConflict(
+      vehicle.id,
+      reservation.startDate,
+      reservation.endDate,
+      { excludeReservationIds: [id] },
+      tx
+    );
+
+    if (conflict) {
+      throw conflictError(conflict);
+    }
+
+    // The new vehicle may need the fleet admin, or no longer need them
+    const estimatedCost = estimateCost(vehicle, reservation.startDate, reservation.endDate);
+    const { approvalChain, approvalStep, addedSteps } = await rebuildApprovalChainForVehicle(
+      reservation,
+      vehicle,
+      estimatedCost,
+      tx
+    );
+
+    const updated = await tx.reservation.update({
+      where: { id },
+      data: {
+        vehicleId: vehicle.id,
+        estimatedCost,
+        approvalChain,
+        approvalStep,
+      },
+      include: reservationInclude,
+    });
+
+    await addHistoryEntry(
+      id,
+      'PENDING',
+      'PENDING',
+      approverId,
+      `Vehicle changed from ${reservation.vehicle.registrationNumber} to ${vehicle.registrationNumber}` +
+        (data.comment ? `: ${data.comment}` : ''),
+      tx
+    );
+
+    await tx.auditLog.create({
+      data: {
+        userId: approverId,
+        action: 'UPDATE',
+        entityType: 'reservation',
+        entityId: id,
+        oldValues: {
+          vehicleId: reservation.vehicleId,
+          approvalChain: reservation.approvalChain,
+        } as Prisma.InputJsonValue,
+        newValues: {
+          vehicleId: vehicle.id,
+          approvalChain,
+          comment: data.comment,
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { reservation, updated, vehicle, addedSteps };
   });
 
-  await addHistoryEntry(id, 'PENDING', 'REJECTED', approverId, reason);
+  await notifyAddedApprovalSteps(reservation, addedSteps);
 
-  // Notify user
   await createNotification({
     userId: reservation.userId,
-    type: 'RESERVATION_REJECTED',
-    title: 'Reservation Rejected',
-    message: `Your reservation ${reservation.referenceNumber} has been rejected: ${reason}`,
+    type: 'SYSTEM',
+    title: 'Reservation Vehicle Changed',
+    message: `Your reservation ${reservation.referenceNumber} now uses ${vehicle.brand} ${vehicle.model} (${vehicle.registrationNumber})`,
     entityType: 'reservation',
     entityId: id,
   });
 
-  // Send email
-  await sendReservationStatusEmail(
-    reservation.user.email,
-    reservation.user.firstName,
-    {
-      referenceNumber: reservation.referenceNumber,
-      status: 'REJECTED',
-      reason,
+  logger.info(
+    `Reservation ${reservation.referenceNumber} reassigned to vehicle ${vehicle.registrationNumber}`
+  );
+
+  return updated;
+}
+
+export type MaintenanceConflictOutcome =
+  | { action: 'REASSIGN'; vehicle: Vehicle; addedSteps: ApprovalStep[] }
+  | { action: 'CANCEL'; vehicle: null };
+
+/**
+ * Frees a pending or approved reservation overlapping a maintenance of its
+ * vehicle, either by moving it to an equivalent vehicle (the best ranked free
+ * one unless a vehicle is given) or by cancelling it. Runs in the transaction
+ * recording the maintenance; the caller notifies the user, and the approvers
+ * of any step the new vehicle adds, once it commits.
+ */
+export async function resolveMaintenanceConflict(
+  reservation: Reservation & { vehicle: Vehicle },
+  resolution: ConflictResolutionInput,
+  maintenanceId: string,
+  userId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<MaintenanceConflictOutcome> {
+  if (resolution.action === 'CANCEL') {
+    const reason =
+      `Vehicle ${reservation.vehicle.registrationNumber} is unavailable for maintenance`;
+
+    await client.reservation.update({
+      where: { id: reservation.id },
+      data: { status: 'CANCELLED', notes: reason },
+    });
+
+    await addHistoryEntry(reservation.id, reservation.status, 'CANCELLED', userId, reason, client);
+
+    await client.auditLog.create({
+      data: {
+        userId,
+        action: 'STATUS_CHANGE',
+        entityType: 'reservation',
+        entityId: reservation.id,
+        oldValues: { status: reservation.status } as Prisma.InputJsonValue,
+        newValues: { status: 'CANCELLED', reason, maintenanceId } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { action: 'CANCEL', vehicle: null };
+  }
+
+  if (resolution.vehicleId === reservation.vehicleId) {
+    throw new BadRequestError('The reservation already uses this vehicle');
+  }
+
+  const candidateIds = resolution.vehicleId
+    ? [resolution.vehicleId]
+    : (await getAllocationCandidates(reservation.id))
+        .map((candidate) => candidate.vehicle.id)
+        .filter((vehicleId) => vehicleId !== reservation.vehicleId);
+
+  // Candidates are checked again in the transaction, earlier reassignments of
+  // the same maintenance may already have taken them
+  let vehicle: Vehicle | null = null;
+  for (const vehicleId of candidateIds) {
+    const candidate = await client.vehicle.findUnique({ where: { id: vehicleId } });
+    if (!candidate) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    const conflict = await findVehicleConflict(
+      vehicleId,
+      reservation.startDate,
+      reservation.endDate,
+      { excludeReservationIds: [reservation.id] },
+      client
+    );
+
+    if (!conflict) {
+      vehicle = candidate;
+      break;
     }
+    if (resolution.vehicleId) {
+      throw conflictError(conflict);
+    }
+  }
+
+  if (!vehicle) {
+    throw new ConflictError(
+      `No equivalent vehicle is available for reservation ${reservation.referenceNumber}`,
+      'NO_VEHICLE_AVAILABLE'
+    );
+  }
+
+  const estimatedCost = estimateCost(vehicle, reservation.startDate, reservation.endDate);
+
+  // Approved reservations keep the decision already taken, pending ones follow
+  // the policy of the vehicle they now use
+  const chain =
+    reservation.status === 'PENDING'
+      ? await rebuildApprovalChainForVehicle(reservation, vehicle, estimatedCost, client)
+      : null;
+
+  await client.reservation.update({
+    where: { id: reservation.id },
+    data: {
+      vehicleId: vehicle.id,
+      estimatedCost,
+      ...(chain && { approvalChain: chain.approvalChain, approvalStep: chain.approvalStep }),
+    },
+  });
+
+  await addHistoryEntry(
+    reservation.id,
+    reservation.status,
+    reservation.status,
+    userId,
+    `Vehicle changed from ${reservation.vehicle.registrationNumber} to ${vehicle.registrationNumber}: ` +
+      'original vehicle unavailable for maintenance',
+    client
+  );
+
+  await client.auditLog.create({
+    data: {
+      userId,
+      action: 'UPDATE',
+      entityType: 'reservation',
+      entityId: reservation.id,
+      oldValues: {
+        vehicleId: reservation.vehicleId,
+        ...(chain && { approvalChain: reservation.approvalChain }),
+      } as Prisma.InputJsonValue,
+      newValues: {
+        vehicleId: vehicle.id,
+        maintenanceId,
+        ...(chain && { approvalChain: chain.approvalChain }),
+      } as Prisma.InputJsonValue,
+    },
+  });
+
+  return { action: 'REASSIGN', vehicle, addedSteps: chain?.addedSteps ?? [] };
+}
+
+/**
+ * Replaces the vehicle of an in-progress trip after a breakdown. The broken
+ * vehicle is left at the given mileage and sent to corrective maintenance;
+ * the trip continues on the replacement as a new segment of the same
+ * reservation, so history and mileage are kept for both vehicles.
+ */
+export async function swapVehicle(
+  id: string,
+  data: SwapVehicleInput,
+  userId: string
+): Promise<ReservationWithRelations> {
+  const current = await prisma.reservation.findUnique({
+    where: { id },
+    include: { vehicle: true },
+  });
+
+  if (!current) {
+    throw new NotFoundError('Reservation not found');
+  }
+
+  const now = new Date();
+  // An overdue trip still needs the replacement for a while
+  const until = current.endDate > now ? current.endDate : new Date(now.getTime() + 3600 * 1000);
+
+  // Same type as the broken vehicle unless one was picked explicitly
+  let replacementId = data.vehicleId;
+  if (!replacementId) {
+    const available = await getAvailableVehicles(now, until, current.vehicle.type);
+    replacementId = available.find((vehicle) => vehicle.id !== current.vehicleId)?.id;
+
+    if (!replacementId) {
+      throw new ConflictError(
+        'No replacement vehicle of this type is available until the end of the reservation',
+        'NO_VEHICLE_AVAILABLE'
+      );
+    }
+  }
+
+  const swap = await runSerializable(async (tx) => {
+    const reservation = await tx.reservation.findUnique({
+      where: { id },
+      include: {
+        vehicle: true,
+        segments: { where: { endDate: null } },
+      },
+    });
+
+    if (!reservation) {
+      throw new NotFoundError('Reservation not found');
+    }
+
+    if (reservation.status !== 'IN_PROGRESS') {
+      throw new ConflictError('Only in-progress reservations can change vehicle');
+    }
+
+    if (reservation.vehicleId === replacementId) {
+      throw new BadRequestError('The reservation already uses this vehicle');
+    }
+
+    const openSegment = reservation.segments[0];
+    const legStartMileage = openSegment
+      ? openSegment.startMileage
+      : reservation.checkInMileage || 0;
+
+    if (data.mileage < legStartMileage) {
+      throw new BadRequestError('Mileage cannot be less than at the start of the trip');
+    }
+
+    const { flagged } = await recordOdometerReading(
+      reservation.vehicle,
+      {
+        mileage: data.mileage,
+        source: 'VEHICLE_SWAP',
+        recordedById: userId,
+        reservationId: id,
+      },
+      tx
+    );
+
+    const replacement = await tx.vehicle.findUnique({
+      where: { id: replacementId },
+    });
+
+    if (!replacement) {
+      throw new NotFoundError('Vehicle not found');
+    }
+
+    const conflict = await findVehicleConflict(replacement.id, now, until, {}, tx);
+
+    if (conflict) {
+      throw conflictError(conflict);
+    }
+
+    // Close the leg driven with the broken vehicle; before the first swap the
+    // trip has no segment yet and the leg starts at check-in
+    const closedLeg = {
+      endDate: now,
+      endMileage: data.mileage,
+      distance: data.mileage - legStartMileage,
+      endReason: data.reason,
+    };
+    if (openSegment) {
+      await tx.reservationSegment.update({
+        where: { id: openSegment.id },
+        data: closedLeg,
+      });
+    } else {
+      await tx.reservationSegment.create({
+        data: {
+          reservationId: id,
+          vehicleId: reservation.vehicleId,
+          startDate: reservation.actualStartDate || reservation.startDate,
+          startMileage: legStartMileage,
+          ...closedLeg,
+        },
+      });
+    }
+
+    await tx.reservationSegment.create({
+      data: {
+        reservationId: id,
+        vehicleId: replacement.id,
+        startDate: now,
+        startMileage: replacement.currentMileage,
+      },
+    });
+
+    const updated = await tx.reservation.update({
+      where: { id },
+      data: { vehicleId: replacement.id },
+      include: reservationInclude,
+    });
+
+    await tx.vehicle.update({
+      where: { id: reservation.vehicleId },
+      data: { status: 'MAINTENANCE', currentMileage: data.mileage },
+    });
+
+    await tx.vehicle.update({
+      where: { id: replacement.id },
+      data: { status: 'IN_USE' },
+    });
+
+    const repair = await tx.maintenance.create({
+      data: {
+        vehicleId: reservation.vehicleId,
+        type: 'CORRECTIVE',
+        priority: 'HIGH',
+        status: 'IN_PROGRESS',
+        description: `Breakdown during reservation ${reservation.referenceNumber}: ${data.reason}`,
+        scheduledDate: now,
+        startDate: now,
+        mileageAtService: data.mileage,
+        createdById: userId,
+      },
+    });
+
+    await addHistoryEntry(
+      id,
+      'IN_PROGRESS',
+      'IN_PROGRESS',
+      userId,
+      `Vehicle ${reservation.vehicle.registrationNumber} broke down at ${data.mileage} km, replaced by ${replacement.registrationNumber}: ${data.reason}`,
+      tx
+    );
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entityType: 'reservation',
+        entityId: id,
+        oldValues: {
+          vehicleId: reservation.vehicleId,
+          mileage: data.mileage,
+        } as Prisma.InputJsonValue,
+        newValues: {
+          vehicleId: replacement.id,
+          reason: data.reason,
+        } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { reservation, updated, replacement, repair, flagged };
+  });
+  const { reservation, updated, replacement, repair, flagged } = swap;
+
+  await notifyFlaggedReadings([flagged]);
+
+  await createNotification({
+    userId: reservation.userId,
+    type: 'SYSTEM',
+    priority: 'HIGH',
+    title: 'Replacement Vehicle Assigned',
+    message: `Your reservation ${reservation.referenceNumber} continues with ${replacement.brand} ${replacement.model} (${replacement.registrationNumber})`,
+    entityType: 'reservation',
+    entityId: id,
+  });
+
+  logger.info(
+    `Reservation ${reservation.referenceNumber}: vehicle ${reservation.vehicle.registrationNumber} replaced by ${replacement.registrationNumber}`
+  );
+
+  // Later bookings of the broken vehicle now overlap its repair
+  await reportDisplacedReservations(repair);
+
+  return updated;
+}
+
+/**
+ * Moves the end of an in-progress trip. The extra time is checked against the
+ * following reservations and maintenance windows of the vehicle; when the
+ * longer trip exceeds an approval threshold the original one did not, the
+ * new end date is only recorded as a request for the fleet admin.
+ */
+export async function requestExtension(
+  id: string,
+  data: ExtendReservationInput,
+  userId: string,
+  userRole: Role
+): Promise<ReservationWithRelations> {
+  const newEndDate = new Date(data.endDate);
+
+  const { reservation, updated, approvalReasons } = await runSerializable(async (tx) => {
+    const reservation = await tx.reservation.findUnique({
+      where: { id },
+      include: { vehicle: true },
+    });
+
+    if (!reservation) {
+      throw new NotFoundError('Reservation not found');
+    }
+
+    if (
+      (userRole === 'EMPLOYEE' && reservation.userId !== userId) ||
+      (userRole === 'DRIVER' &&
+        reservation.userId !== userId &&
+        reservation.driverId !== userId)
+    ) {
+      throw new ForbiddenError('You can only extend your own reservations');
+    }
+
+    if (reservation.status !== 'IN_PROGRESS') {
+      throw new ConflictError('Only reservations in progress can be extended');
+    }
+
+    if (reservation.requestedEndDate) {
+      throw new ConflictError('An extension is already awaiting approval');
+    }
+
+    if (newEndDate <= reservation.endDate) {
+      throw new BadRequestError('The new end date must be after the current one');
+    }
+
+    const conflict = await findVehicleConflict(
+      reservation.vehicleId,
+      reservation.endDate,
+      newEndDate,
+      { excludeReservationIds: [id] },
+      tx
+    );
+
+    if (conflict) {
+      throw conflictError(conflict);
+    }
+
+    const policy = await getApprovalPolicy(tx);
+    const subject = {
+      userId: reservation.userId,
+      departmentId: reservation.departmentId,
+      startDate: reservation.startDate,
+      vehicleType: reservation.vehicle.type,
+    };
+    const previousReasons = getFleetApprovalReasons(policy, {
+      ...subject,
+      estimatedCost: reservation.estimatedCost,
+      endDate: reservation.endDate,
+    });
+    const estimatedCost = estimateCost(reservation.vehicle, reservation.startDate, newEndDate);
+    const approvalReasons = getFleetApprovalReasons(policy, {
+      ...subject,
+      estimatedCost,
+      endDate: newEndDate,
+    }).filter((reason) => !previousReasons.includes(reason));
+
+    const updated = await tx.reservation.update({
+      where: { id },
+      data:
+        approvalReasons.length > 0
+          ? { requestedEndDate: newEndDate, extensionReason: data.reason }
+          : { endDate: newEndDate, estimatedCost },
+      include: reservationInclude,
+    });
+
+    await addHistoryEntry(
+      id,
+      'IN_PROGRESS',
+      'IN_PROGRESS',
+      userId,
+      approvalReasons.length > 0
+        ? `Extension until ${formatDateToISOString(newEndDate)} requested, awaiting fleet admin approval (${approvalReasons.join(', ')}): ${data.reason}`
+        : `Extended from ${formatDateToISOString(reservation.endDate)} to ${formatDateToISOString(newEndDate)}: ${data.reason}`,
+      tx
+    );
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'UPDATE',
+        entityType: 'reservation',
+        entityId: id,
+        oldValues: { endDate: reservation.endDate } as Prisma.InputJsonValue,
+        newValues: (approvalReasons.length > 0
+          ? { requestedEndDate: newEndDate, reason: data.reason }
+          : { endDate: newEndDate, estimatedCost, reason: data.reason }) as Prisma.InputJsonValue,
+      },
+    });
+
+    return { reservation, updated, approvalReasons };
+  });
+
+  if (approvalReasons.length > 0) {
+    const approverIds = await getStepApproverIds('FLEET_ADMIN', reservation.departmentId);
+    for (const approverId of approverIds) {
+      await createNotification({
+        userId: approverId,
+        type: 'RESERVATION_CREATED',
+        title: 'Extension Awaiting Approval',
+        message: `Reservation ${reservation.referenceNumber} asks to be extended until ${formatDateToISOString(newEndDate)}: ${data.reason}`,
+        entityType: 'reservation',
+        entityId: id,
+      });
+    }
+
+    logger.info(`Extension requested for reservation ${reservation.referenceNumber}`);
+  } else {
+    logger.info(
+      `Reservation ${reservation.referenceNumber} extended until ${formatDateToISOString(newEndDate)}`
+    );
+  }
+
+  return updated;
+}
+
+async function assertCanDecideExtension(
+  reservation: Reservation,
+  approverId: string
+): Promise<void> {
+  const approver = await prisma.user.findUnique({
+    where: { id: approverId },
+    select: { id: true, role: true },
+  });
+
+  if (
+    !approver ||
+    !(await canApproveStep('FLEET_ADMIN', approver, reservation.departmentId))
+  ) {
+    throw new ForbiddenError('Extensions are approved by the fleet admin');
+  }
+}
+
+/**
+ * Applies a pending extension once the fleet admin agrees. The vehicle may
+ * have been booked since the request, so the window is checked again.
+ */
+export async function approveExtension(
+  id: string,
+  approverId: string,
+  comment?: string
+): Promise<ReservationWithRelations> {
+  const { reservation, updated } = await runSerializable(async (tx) => {
+    const reservation = await tx.reservation.findUnique({
+      where: { id },
+      include: { vehicle: true },
+    });
+
+    if (!reservation) {
+      throw new NotFoundError('Reservation not found');
+    }
+
+    if (reservation.status !== 'IN_PROGRESS' || !reservation.requestedEndDate) {
+      throw new ConflictError('This reservation has no extension awaiting approval');
+    }
+
+    await assertCanDecideExtension(reservation, approverId);
+
+    const newEndDate = reservation.requestedEndDate;
+    const conflict = await findVehicleConflict(
+      reservation.vehicleId,
+      reservation.endDate,
+      newEndDate,
+      { excludeReservationIds: [id] },
+      tx
+    );
+
+    if (conflict) {
+      throw conflictError(conflict);
+    }
+
+    const estimatedCost = estimateCost(reservation.vehicle, reservation.startDate, newEndDate);
+    const updated = await tx.reservation.update({
+      where: { id },
+      data: {
+        endDate: newEndDate,
+        estimatedCost,
+        requestedEndDate: null,
+        extensionReason: null,
+      },
+      include: reservationInclude,
+    });
+
+    await addHistoryEntry(
+      id,
+      'IN_PROGRESS',
+      'IN_PROGRESS',
+      approverId,
+      `Extension from ${formatDateToISOString(reservation.endDate)} to ${formatDateToISOString(newEndDate)} approved by fleet admin` +
+        (comment ? `: ${comment}` : ''),
+      tx
+    );
+
+    await tx.auditLog.create({
+      data: {
+        userId: approverId,
+        action: 'APPROVAL',
+        entityType: 'reservation',
+        entityId: id,
+        oldValues: { endDate: reservation.endDate } as Prisma.InputJsonValue,
+        newValues: { endDate: newEndDate, estimatedCost, comment } as Prisma.InputJsonValue,
+      },
+    });
+
+    return { reservation, updated };
+  });
+
+  await createNotification({
+    userId: reservation.userId,
+    type: 'RESERVATION_APPROVED',
+    title: 'Extension Approved',
+    message: `Your reservation ${reservation.referenceNumber} now ends on ${formatDateToISOString(updated.endDate)}`,
+    entityType: 'reservation',
+    entityId: id,
+  });
+
+  logger.info(`Extension approved for reservation ${reservation.referenceNumber}`);
+
+  return updated;
+}
+
+export async function rejectExtension(
+  id: string,
+  approverId: string,
+  reason: string
+): Promise<ReservationWithRelations> {
+  const reservation = await prisma.reservation.findUnique({
+    where: { id },
+  });
+
+  if (!reservation) {
+    throw new NotFoundError('Reservation not found');
+  }
+
+  if (reservation.status !== 'IN_PROGRESS' || !reservation.requestedEndDate) {
+    throw new ConflictError('This reservation has no extension awaiting approval');
+  }
+
+  await assertCanDecideExtension(reservation, approverId);
+
+  const updated = await prisma.reservation.update({
+    where: { id },
+    data: { requestedEndDate: null, extensionReason: null },
+    include: reservationInclude,
+  });
+
+  await addHistoryEntry(
+    id,
+    'IN_PROGRESS',
+    'IN_PROGRESS',
+    approverId,
+    `Extension until ${formatDateToISOString(reservation.requestedEndDate)} rejected by fleet admin: ${reason}`
   );
 
   await prisma.auditLog.create({
@@ -580,42 +1781,155 @@ export async function rejectReservation(
       action: 'REJECTION',
       entityType: 'reservation',
       entityId: id,
-      newValues: { status: 'REJECTED', reason } as Prisma.InputJsonValue,
+      newValues: {
+        requestedEndDate: reservation.requestedEndDate,
+        reason,
+      } as Prisma.InputJsonValue,
     },
   });
 
-  logger.info(`Reservation rejected: ${reservation.referenceNumber}`);
+  await createNotification({
+    userId: reservation.userId,
+    type: 'RESERVATION_REJECTED',
+    title: 'Extension Rejected',
+    message: `The extension of reservation ${reservation.referenceNumber} was rejected: ${reason}`,
+    entityType: 'reservation',
+    entityId: id,
+  });
+
+  logger.info(`Extension rejected for reservation ${reservation.referenceNumber}`);
 
   return updated;
 }
 
-export async function cancelReservation(
+export async function rejectReservation(
   id: string,
-  userId: string,
+  approverId: string,
   reason: string
 ): Promise<ReservationWithRelations> {
   const reservation = await prisma.reservation.findUnique({
     where: { id },
+    include: {
+      user: { select: { email: true, firstName: true } },
+    },
   });
 
   if (!reservation) {
     throw new NotFoundError('Reservation not found');
   }
 
-  if (['COMPLETED', 'CANCELLED'].includes(reservation.status)) {
-    throw new ConflictError('Reservation cannot be cancelled');
+  if (reservation.status !== 'PENDING') {
+    throw new ConflictError('Only pending reservations can be rejected');
+  }
+
+  // Only the approver of the current step can reject
+  if (reservation.approvalStep) {
+    await assertCanDecideStep(reservation, approverId);
   }
 
   const updated = await prisma.reservation.update({
     where: { id },
     data: {
-      status: 'CANCELLED',
-      notes: reason,
+      status: 'REJECTED',
+      approvalStep: null,
+      approvedById: approverId,
+      approvedAt: new Date(),
+      rejectionReason: reason,
     },
     include: reservationInclude,
   });
 
-  await addHistoryEntry(id, reservation.status, 'CANCELLED', userId, reason);
+  await addHistoryEntry(
+    id,
+    'PENDING',
+    'REJECTED',
+    approverId,
+    reservation.approvalStep
+      ? `Rejected by ${approvalStepLabels[reservation.approvalStep]}: ${reason}`
+      : reason
+  );
+
+  // Notify user
+  await createNotification({
+    userId: reservation.userId,
+    type: 'RESERVATION_REJECTED',
+    title: 'Reservation Rejected',
+    message: `Your reservation ${reservation.referenceNumber} has been rejected: ${reason}`,
+    entityType: 'reservation',
+    entityId: id,
+  });
+
+  // Send email
+  await sendReservationStatusEmail(
+    reservation.user.email,
+    reservation.user.firstName,
+    {
+      referenceNumber: reservation.referenceNumber,
+      status: 'REJECTED',
+      reason,
+    }
+  );
+
+  await prisma.auditLog.create({
+    data: {
+      userId: approverId,
+      action: 'REJECTION',
+      entityType: 'reservation',
+      entityId: id,
+      newValues: { status: 'REJECTED', reason } as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Reservation rejected: ${reservation.referenceNumber}`);
+
+  await offerFreedSlot(reservation.vehicleId, reservation.startDate, reservation.endDate);
+
+  return updated;
+}
+
+export async function cancelReservation(
+  id: string,
+  userId: string,
+  reason: string,
+  scope?: ReservationScope
+): Promise<ReservationWithRelations> {
+  const reservation = await prisma.reservation.findUnique({
+    where: { id },
+  });
+
+  if (!reservation) {
+    throw new NotFoundError('Reservation not found');
+  }
+
+  if (['COMPLETED', 'CANCELLED', 'NO_SHOW', 'EXPIRED'].includes(reservation.status)) {
+    throw new ConflictError('Reservation cannot be cancelled');
+  }
+
+  // Occurrences already in progress are left untouched when cancelling a series
+  const targets = await getScopedReservations(reservation, scope, [
+    'DRAFT',
+    'PENDING',
+    'APPROVED',
+  ]);
+
+  let updated: ReservationWithRelations | null = null;
+
+  for (const target of targets) {
+    const result = await prisma.reservation.update({
+      where: { id: target.id },
+      data: {
+        status: 'CANCELLED',
+        notes: reason,
+      },
+      include: reservationInclude,
+    });
+
+    await addHistoryEntry(target.id, target.status, 'CANCELLED', userId, reason);
+
+    if (target.id === id) {
+      updated = result;
+    }
+  }
 
   await prisma.auditLog.create({
     data: {
@@ -624,13 +1938,29 @@ export async function cancelReservation(
       entityType: 'reservation',
       entityId: id,
       oldValues: { status: reservation.status } as Prisma.InputJsonValue,
-      newValues: { status: 'CANCELLED', reason } as Prisma.InputJsonValue,
+      newValues: {
+        status: 'CANCELLED',
+        reason,
+        ...(targets.length > 1 && {
+          scope,
+          cancelledReservations: targets.map((target) => target.id),
+        }),
+      } as Prisma.InputJsonValue,
     },
   });
 
-  logger.info(`Reservation cancelled: ${reservation.referenceNumber}`);
+  logger.info(
+    targets.length > 1
+      ? `Reservation series cancelled from ${reservation.referenceNumber} (${targets.length} occurrences)`
+      : `Reservation cancelled: ${reservation.referenceNumber}`
+  );
 
-  return updated;
+  // Released slots go to the waitlist once the cancellation is recorded
+  for (const target of targets) {
+    await offerFreedSlot(target.vehicleId, target.startDate, target.endDate);
+  }
+
+  return updated!;
 }
 
 export async function checkIn(
@@ -651,6 +1981,13 @@ export async function checkIn(
     throw new ConflictError('Only approved reservations can be checked in');
   }
 
+  const { flagged } = await recordOdometerReading(reservation.vehicle, {
+    mileage: data.mileage,
+    source: 'CHECK_IN',
+    recordedById: userId,
+    reservationId: id,
+  });
+
   // Update reservation
   const updated = await prisma.reservation.update({
     where: { id },
@@ -666,7 +2003,7 @@ export async function checkIn(
   // Update vehicle status
   await prisma.vehicle.update({
     where: { id: reservation.vehicleId },
-    data: { status: 'IN_USE' },
+    data: { status: 'IN_USE', currentMileage: data.mileage },
   });
 
   await addHistoryEntry(
@@ -677,6 +2014,8 @@ export async function checkIn(
     `Check-in at ${data.mileage} km`
   );
 
+  await notifyFlaggedReadings([flagged]);
+
   await createNotification({
     userId: reservation.userId,
     type: 'RESERVATION_STARTED',
@@ -698,7 +2037,10 @@ export async function checkOut(
 ): Promise<ReservationWithRelations> {
   const reservation = await prisma.reservation.findUnique({
     where: { id },
-    include: { vehicle: true },
+    include: {
+      vehicle: true,
+      segments: { include: { vehicle: true }, orderBy: { startDate: 'asc' } },
+    },
   });
 
   if (!reservation) {
@@ -709,47 +2051,85 @@ export async function checkOut(
     throw new ConflictError('Only in-progress reservations can be checked out');
   }
 
-  if (data.mileage < (reservation.checkInMileage || 0)) {
+  // After a vehicle swap the check-out mileage is read on the replacement,
+  // whose leg is the open segment
+  const openSegment = reservation.segments.find((segment) => !segment.endDate);
+  const legStartMileage = openSegment
+    ? openSegment.startMileage
+    : reservation.checkInMileage || 0;
+
+  if (data.mileage < legStartMileage) {
     throw new BadRequestError('Check-out mileage cannot be less than check-in');
   }
 
-  const actualMileage = data.mileage - (reservation.checkInMileage || 0);
+  const { flagged } = await recordOdometerReading(reservation.vehicle, {
+    mileage: data.mileage,
+    source: 'CHECK_OUT',
+    recordedById: userId,
+    reservationId: id,
+  });
 
-  // Calculate actual cost
-  const hours = calculateDurationInHours(
-    reservation.actualStartDate || reservation.startDate,
-    new Date()
-  );
-  const days = Math.ceil(hours / 24);
-  const dailyCost = reservation.vehicle.dailyRate
-    ? reservation.vehicle.dailyRate * days
-    : 0;
-  const mileageCost = reservation.vehicle.mileageRate
-    ? reservation.vehicle.mileageRate * actualMileage
-    : 0;
-  const actualCost = dailyCost + mileageCost;
+  // Calculate actual cost, per vehicle when the trip was split
+  const now = new Date();
+  const legs: TripLeg[] =
+    reservation.segments.length > 0
+      ? reservation.segments.map((segment) => ({
+          vehicle: segment.vehicle,
+          startDate: segment.startDate,
+          endDate: segment.endDate || now,
+          distance: segment.distance ?? data.mileage - segment.startMileage,
+        }))
+      : [
+          {
+            vehicle: reservation.vehicle,
+            startDate: reservation.actualStartDate || reservation.startDate,
+            endDate: now,
+            distance: data.mileage - legStartMileage,
+          },
+        ];
+  const legCosts = priceTripLegs(legs);
+  const actualMileage = legs.reduce((sum, leg) => sum + leg.distance, 0);
+  const actualCost = legCosts.reduce((sum, cost) => sum + cost, 0);
+
+  for (const [index, segment] of reservation.segments.entries()) {
+    await prisma.reservationSegment.update({
+      where: { id: segment.id },
+      data: {
+        cost: legCosts[index],
+        ...(!segment.endDate && {
+          endDate: now,
+          endMileage: data.mileage,
+          distance: legs[index]!.distance,
+        }),
+      },
+    });
+  }
 
   // Update reservation
   const updated = await prisma.reservation.update({
     where: { id },
     data: {
       status: 'COMPLETED',
-      actualEndDate: new Date(),
+      actualEndDate: now,
       checkOutMileage: data.mileage,
       checkOutNotes: data.notes,
       actualMileage,
       actualCost,
       rating: data.rating,
       feedback: data.feedback,
+      // A pending extension is moot once the vehicle is back
+      requestedEndDate: null,
+      extensionReason: null,
     },
     include: reservationInclude,
   });
 
-  // Update vehicle
+  // Update vehicle, which stays out of service when an incident of the trip
+  // sent it to maintenance
   await prisma.vehicle.update({
     where: { id: reservation.vehicleId },
     data: {
-      status: 'AVAILABLE',
+      status: reservation.vehicle.status === 'MAINTENANCE' ? 'MAINTENANCE' : 'AVAILABLE',
       currentMileage: data.mileage,
     },
   });
@@ -762,6 +2142,8 @@ export async function checkOut(
     `Check-out at ${data.mileage} km. Distance: ${actualMileage} km`
   );
 
+  await notifyFlaggedReadings([flagged]);
+
   await createNotification({
     userId: reservation.userId,
     type: 'RESERVATION_ENDED',
@@ -824,3 +2206,222 @@ export async function getCalendarReservations(
     include: reservationInclude,
   });
 }
+
+export async function getSeriesReservations(
+  id: string,
+  userId?: string,
+  userRole?: Role
+): Promise<ReservationWithRelations[]> {
+  const reservation = await getReservationById(id, userId, userRole);
+
+  if (!reservation.seriesId) {
+    return [reservation];
+  }
+
+  return prisma.reservation.findMany({
+    where: { seriesId: reservation.seriesId },
+    orderBy: { startDate: 'asc' },
+    include: reservationInclude,
+  });
+}
+
+/**
+ * Marks APPROVED reservations never checked in within the grace period as
+ * no-shows, counting them against the requester, and expires PENDING
+ * reservations whose start passed without a decision. The rest of each
+ * window is offered to the waitlist.
+ */
+export async function releaseUnusedReservations(
+  now: Date = new Date()
+): Promise<{ noShows: number; expired: number }> {
+  const graceMinutes = await getSetting('reservation.noShowGraceMinutes');
+  const noShowCutoff = new Date(now.getTime() - graceMinutes * 60 * 1000);
+
+  const [unused, undecided] = await Promise.all([
+    prisma.reservation.findMany({
+      where: { status: 'APPROVED', startDate: { lte: noShowCutoff } },
+      include: { user: { select: { email: true, firstName: true } } },
+    }),
+    prisma.reservation.findMany({
+      where: { status: 'PENDING', startDate: { lte: now } },
+      include: { user: { select: { email: true, firstName: true } } },
+    }),
+  ]);
+
+  let noShows = 0;
+  for (const reservation of unused) {
+    // Guarded on the status so a concurrent check-in wins
+    const { count } = await prisma.reservation.updateMany({
+      where: { id: reservation.id, status: 'APPROVED' },
+      data: { status: 'NO_SHOW' },
+    });
+    if (count === 0) {
+      continue;
+    }
+    noShows++;
+
+    await prisma.user.update({
+      where: { id: reservation.userId },
+      data: { noShowCount: { increment: 1 } },
+    });
+
+    await addHistoryEntry(
+      reservation.id,
+      'APPROVED',
+      'NO_SHOW',
+      null,
+      `No check-in within ${graceMinutes} minutes of the start time`
+    );
+
+    const message = `Reservation ${reservation.referenceNumber} was not checked in within ${graceMinutes} minutes of its start and has been released.`;
+    const recipients = [reservation.userId, reservation.approvedById].filter(
+      (id, index, ids): id is string => !!id && ids.indexOf(id) === index
+    );
+    for (const userId of recipients) {
+      await createNotification({
+        userId,
+        type: 'RESERVATION_CANCELLED',
+        title: 'Reservation Marked as No-Show',
+        message,
+        entityType: 'reservation',
+        entityId: reservation.id,
+      });
+    }
+
+    await sendReservationStatusEmail(reservation.user.email, reservation.user.firstName, {
+      referenceNumber: reservation.referenceNumber,
+      status: 'NO_SHOW',
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'STATUS_CHANGE',
+        entityType: 'reservation',
+        entityId: reservation.id,
+        oldValues: { status: 'APPROVED' } as Prisma.InputJsonValue,
+        newValues: { status: 'NO_SHOW' } as Prisma.InputJsonValue,
+      },
+    });
+
+    if (reservation.endDate > now) {
+      await offerFreedSlot(reservation.vehicleId, now, reservation.endDate);
+    }
+
+    logger.info(`Reservation marked as no-show: ${reservation.referenceNumber}`);
+  }
+
+  let expired = 0;
+  for (const reservation of undecided) {
+    const { count } = await prisma.reservation.updateMany({
+      where: { id: reservation.id, status: 'PENDING' },
+      data: { status: 'EXPIRED', approvalStep: null },
+    });
+    if (count === 0) {
+      continue;
+    }
+    expired++;
+
+    await addHistoryEntry(
+      reservation.id,
+      'PENDING',
+      'EXPIRED',
+      null,
+      'Start time passed without an approval decision'
+    );
+
+    await createNotification({
+      userId: reservation.userId,
+      type: 'RESERVATION_CANCELLED',
+      title: 'Reservation Expired',
+      message: `Reservation ${reservation.referenceNumber} expired because it was not approved before its start time.`,
+      entityType: 'reservation',
+      entityId: reservation.id,
+    });
+
+    await sendReservationStatusEmail(reservation.user.email, reservation.user.firstName, {
+      referenceNumber: reservation.referenceNumber,
+      status: 'EXPIRED',
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        action: 'STATUS_CHANGE',
+        entityType: 'reservation',
+        entityId: reservation.id,
+        oldValues: { status: 'PENDING' } as Prisma.InputJsonValue,
+        newValues: { status: 'EXPIRED' } as Prisma.InputJsonValue,
+      },
+    });
+
+    if (reservation.endDate > now) {
+      await offerFreedSlot(reservation.vehicleId, now, reservation.endDate);
+    }
+
+    logger.info(`Pending reservation expired: ${reservation.referenceNumber}`);
+  }
+
+  return { noShows, expired };
+}
+
+/**
+ * Reminds requesters of approved reservations starting within the
+ * `reservation.reminderLeadHours` setting. A reservation is reminded once:
+ * an existing reminder notification marks it as done.
+ */
+export async function sendReservationReminders(
+  now: Date = new Date()
+): Promise<{ reminded: number }> {
+  const leadHours = await getSetting('reservation.reminderLeadHours');
+  if (leadHours === 0) {
+    return { reminded: 0 };
+  }
+
+  const upcoming = await prisma.reservation.findMany({
+    where: {
+      status: 'APPROVED',
+      startDate: { gt: now, lte: addHours(now, leadHours) },
+    },
+    include: { vehicle: { select: { brand: true, model: true, registrationNumber: true } } },
+  });
+
+  if (upcoming.length === 0) {
+    return { reminded: 0 };
+  }
+
+  const alreadyReminded = await prisma.notification.findMany({
+    where: {
+      type: 'RESERVATION_REMINDER',
+      entityType: 'reservation',
+      entityId: { in: upcoming.map((r) => r.id) },
+    },
+    select: { entityId: true },
+  });
+  const remindedIds = new Set(alreadyReminded.map((n) => n.entityId));
+
+  let reminded = 0;
+  for (const reservation of upcoming) {
+    if (remindedIds.has(reservation.id)) {
+      continue;
+    }
+
+    const { vehicle } = reservation;
+    const startsAt = formatDateToISOString(reservation.startDate);
+    await createNotification({
+      userId: reservation.userId,
+      type: 'RESERVATION_REMINDER',
+      title: 'Upcoming Reservation',
+      message:
+        `Reservation ${reservation.referenceNumber} for ${vehicle.brand} ${vehicle.model} ` +
+        `(${vehicle.registrationNumber}) starts at ${startsAt}.`,
+      entityType: 'reservation',
+      entityId: reservation.id,
+    });
+    reminded++;
+  }
+
+  if (reminded > 0) {
+    logger.info(`Reservation reminders sent: ${reminded}`);
+  }
+
+  return { reminded };
+}
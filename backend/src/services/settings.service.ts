@@ -0,0 +1,304 @@
+import { Prisma, Role, VehicleType } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { config } from '../config/index.js';
+import { logger } from '../config/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+
+interface SettingDefinition<T extends z.ZodTypeAny> {
+  description: string;
+  schema: T;
+  default: z.infer<T>;
+}
+
+function defineSetting<T extends z.ZodTypeAny>(
+  definition: SettingDefinition<T>
+): SettingDefinition<T> {
+  return definition;
+}
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a HH:mm time');
+
+/**
+ * Every configurable key with its schema and default. Stored values are
+ * validated against the schema on write; a key that was never written reads
+ * as its default, and object values are merged over their default.
+ */
+export const settingDefinitions = {
+  'organization.name': defineSetting({
+    description: 'Organisation name shown in the application and emails',
+    schema: z.string().min(2).max(100),
+    default: 'Togo Data Lab',
+  }),
+  'organization.currency': defineSetting({
+    description: 'Currency of costs and rates',
+    schema: z.enum(['XOF', 'EUR', 'USD']),
+    default: 'XOF',
+  }),
+  'organization.timezone': defineSetting({
+    description: 'Time zone used to display dates',
+    schema: z.string().min(1),
+    default: 'Africa/Lome',
+  }),
+  'organization.dateFormat': defineSetting({
+    description: 'Date display format',
+    schema: z.enum(['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD']),
+    default: 'DD/MM/YYYY',
+  }),
+  'booking.policy': defineSetting({
+    description: 'Limits applied when booking a vehicle; a null limit is not enforced',
+    schema: z.object({
+      minNoticeHours: z.number().min(0).nullable(),
+      maxDurationDays: z.number().positive().nullable(),
+      maxAdvanceDays: z.number().int().positive().nullable(),
+      bookingHours: z.object({ start: timeOfDay, end: timeOfDay }).nullable(),
+      blockHolidays: z.boolean(),
+      weekendRoles: z.array(z.nativeEnum(Role)),
+    }),
+    default: {
+      minNoticeHours: 1,
+      maxDurationDays: 30,
+      maxAdvanceDays: 180,
+      bookingHours: null,
+      blockHolidays: true,
+      weekendRoles: ['SUPER_ADMIN', 'ADMIN', 'MANAGER', 'EMPLOYEE', 'DRIVER'],
+    },
+  }),
+  'approval.policy': defineSetting({
+    description: 'Thresholds above which a reservation also needs the fleet admin',
+    schema: z.object({
+      costThreshold: z.number().min(0).nullable(),
+      durationHoursThreshold: z.number().positive().nullable(),
+      vehicleTypes: z.array(z.nativeEnum(VehicleType)),
+    }),
+    default: {
+      costThreshold: 200000,
+      durationHoursThreshold: 72,
+      vehicleTypes: ['LUXURY'],
+    },
+  }),
+  'reservation.noShowGraceMinutes': defineSetting({
+    description: 'Minutes after the start before an approved reservation becomes a no-show',
+    schema: z.number().int().min(0).max(24 * 60),
+    default: config.reservations.noShowGraceMinutes,
+  }),
+  'reservation.reminderLeadHours': defineSetting({
+    description: 'Hours before the start when the requester is reminded, 0 to disable',
+    schema: z.number().int().min(0).max(7 * 24),
+    default: 24,
+  }),
+  'waitlist.offerHours': defineSetting({
+    description: 'Hours a waitlisted user has to confirm a freed slot',
+    schema: z.number().positive().max(72),
+    default: 2,
+  }),
+  'fuel.consumptionTolerancePercent': defineSetting({
+    description: 'Deviation from the rated L/100 km above which a refuel is flagged',
+    schema: z.number().min(1).max(200),
+    default: 25,
+  }),
+  'odometer.maxKmPerDay': defineSetting({
+    description: 'Kilometres per day above which an odometer reading is flagged as implausible',
+    schema: z.number().int().min(100).max(5000),
+    default: 1200,
+  }),
+  'maintenance.planLeadKm': defineSetting({
+    description: 'Kilometres before a plan service is due when it gets scheduled',
+    schema: z.number().int().min(0).max(10000),
+    default: 500,
+  }),
+  'maintenance.planLeadDays': defineSetting({
+    description: 'Days before a plan service is due when it gets scheduled',
+    schema: z.number().int().min(0).max(90),
+    default: 14,
+  }),
+  'maintenance.reworkWindowDays': defineSetting({
+    description: 'Days after a completed maintenance when a repair of the vehicle counts as rework',
+    schema: z.number().int().min(1).max(365),
+    default: 30,
+  }),
+  'security.maxLoginAttempts': defineSetting({
+    description: 'Failed logins before the account is locked',
+    schema: z.number().int().min(1).max(20),
+    default: 5,
+  }),
+  'security.lockTimeMinutes': defineSetting({
+    description: 'Minutes an account stays locked after too many failed logins',
+    schema: z.number().int().min(1).max(24 * 60),
+    default: 30,
+  }),
+};
+
+export type SettingKey = keyof typeof settingDefinitions;
+
+export type SettingValue<K extends SettingKey> = z.infer<(typeof settingDefinitions)[K]['schema']>;
+
+export interface SettingEntry {
+  key: SettingKey;
+  value: unknown;
+  defaultValue: unknown;
+  description: string;
+  isDefault: boolean;
+  updatedAt: Date | null;
+}
+
+// Values per key, filled on first read and dropped whenever the key is written
+const cache = new Map<SettingKey, unknown>();
+
+function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(settingDefinitions, key);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Partial objects are completed with the default (or current) value
+function mergeOver(base: unknown, value: unknown): unknown {
+  return isPlainObject(base) && isPlainObject(value) ? { ...base, ...value } : value;
+}
+
+function resolveStoredValue(key: SettingKey, stored: unknown): unknown {
+  const definition = settingDefinitions[key];
+
+  if (stored === null || stored === undefined) {
+    return definition.default;
+  }
+
+  const parsed = definition.schema.safeParse(mergeOver(definition.default, stored));
+  if (!parsed.success) {
+    logger.warn(`Invalid stored value for setting ${key}, using the default`);
+    return definition.default;
+  }
+
+  return parsed.data;
+}
+
+export function clearSettingsCache(): void {
+  cache.clear();
+}
+
+export async function getSetting<K extends SettingKey>(
+  key: K,
+  client: Prisma.TransactionClient = prisma
+): Promise<SettingValue<K>> {
+  if (!cache.has(key)) {
+    const setting = await client.setting.findUnique({ where: { key } });
+    cache.set(key, resolveStoredValue(key, setting?.value));
+  }
+
+  return cache.get(key) as SettingValue<K>;
+}
+
+export async function getSettings(): Promise<SettingEntry[]> {
+  const stored = await prisma.setting.findMany();
+
+  return (Object.keys(settingDefinitions) as SettingKey[]).map((key) => {
+    const setting = stored.find((s) => s.key === key);
+    const value = resolveStoredValue(key, setting?.value);
+    cache.set(key, value);
+
+    return {
+      key,
+      value,
+      defaultValue: settingDefinitions[key].default,
+      description: settingDefinitions[key].description,
+      isDefault: !setting,
+      updatedAt: setting?.updatedAt ?? null,
+    };
+  });
+}
+
+/**
+ * Validates and stores several settings at once: nothing is written unless
+ * every value is valid. Object values may be partial and are merged over the
+ * current value.
+ */
+export async function updateSettings(
+  values: Record<string, unknown>,
+  userId: string
+): Promise<SettingEntry[]> {
+  const errors: Record<string, string[]> = {};
+  const changes: Array<{ key: SettingKey; oldValue: unknown; newValue: unknown }> = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    if (!isSettingKey(key)) {
+      errors[key] = ['Unknown setting'];
+      continue;
+    }
+
+    const current = await getSetting(key);
+    const parsed = settingDefinitions[key].schema.safeParse(mergeOver(current, value));
+
+    if (!parsed.success) {
+      errors[key] = parsed.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      );
+      continue;
+    }
+
+    changes.push({ key, oldValue: current, newValue: parsed.data });
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError('Invalid settings', errors);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    for (const change of changes) {
+      await tx.setting.upsert({
+        where: { key: change.key },
+        create: { key: change.key, value: change.newValue as Prisma.InputJsonValue },
+        update: { value: change.newValue as Prisma.InputJsonValue },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'UPDATE',
+          entityType: 'setting',
+          entityId: change.key,
+          oldValues: { value: change.oldValue } as Prisma.InputJsonValue,
+          newValues: { value: change.newValue } as Prisma.InputJsonValue,
+        },
+      });
+    }
+  });
+
+  for (const change of changes) {
+    cache.delete(change.key);
+  }
+
+  logger.info(`Settings updated by ${userId}: ${changes.map((c) => c.key).join(', ')}`);
+
+  return getSettings();
+}
+
+export async function resetSetting(key: string, userId: string): Promise<SettingEntry[]> {
+  if (!isSettingKey(key)) {
+    throw new NotFoundError('Setting not found');
+  }
+
+  const oldValue = await getSetting(key);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.setting.deleteMany({ where: { key } });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'DELETE',
+        entityType: 'setting',
+        entityId: key,
+        oldValues: { value: oldValue } as Prisma.InputJsonValue,
+        newValues: { value: settingDefinitions[key].default } as Prisma.InputJsonValue,
+      },
+    });
+  });
+
+  cache.delete(key);
+
+  logger.info(`Setting ${key} reset to its default by ${userId}`);
+
+  return getSettings();
+}
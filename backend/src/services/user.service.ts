@@ -12,6 +12,11 @@ import {
 } from '../utils/helpers.js';
 import type { PaginatedResponse } from '../validators/index.js';
 import { sendWelcomeEmail } from './email.service.js';
+import {
+  DEPARTMENT_MANAGER_ROLES,
+  assertDepartmentAssignable,
+  releaseDepartmentManagement,
+} from './department.service.js';
 import type {
   CreateUserInput,
   UpdateUserInput,
@@ -34,6 +39,7 @@ type UserWithRelations = Prisma.UserGetPayload<{
     department: true;
     driverLicenseNumber: true;
     driverLicenseExpiry: true;
+    noShowCount: true;
     createdAt: true;
     updatedAt: true;
   };
@@ -54,6 +60,7 @@ const userSelect = {
   department: true,
   driverLicenseNumber: true,
   driverLicenseExpiry: true,
+  noShowCount: true,
   createdAt: true,
   updatedAt: true,
 };
@@ -73,6 +80,10 @@ export async function createUser(
     throw new ConflictError('Email already registered');
   }
 
+  if (data.departmentId) {
+    await assertDepartmentAssignable(data.departmentId);
+  }
+
   const hashedPassword = await bcrypt.hash(data.password, SALT_ROUNDS);
   const emailVerificationToken = generateToken();
 
@@ -205,6 +216,10 @@ export async function updateUser(
     }
   }
 
+  if (data.departmentId) {
+    await assertDepartmentAssignable(data.departmentId);
+  }
+
   const user = await prisma.user.update({
     where: { id },
     data: {
@@ -219,6 +234,11 @@ export async function updateUser(
     select: userSelect,
   });
 
+  // Leaving a department also gives up its management
+  if (data.departmentId !== undefined && data.departmentId !== existing.department?.id) {
+    await releaseDepartmentManagement(id, data.departmentId);
+  }
+
   await prisma.auditLog.create({
     data: {
       userId: updaterId,
@@ -266,6 +286,10 @@ export async function updateUserRole(
     select: userSelect,
   });
 
+  if (!DEPARTMENT_MANAGER_ROLES.includes(role)) {
+    await releaseDepartmentManagement(id);
+  }
+
   await prisma.auditLog.create({
     data: {
       userId: updaterId,
@@ -312,12 +336,14 @@ export async function toggleUserStatus(
     select: userSelect,
   });
 
-  // If deactivating, invalidate all sessions
+  // If deactivating, invalidate all sessions and give up department management
   if (!user.isActive) {
     await prisma.session.updateMany({
       where: { userId: id },
       data: { isValid: false },
     });
+
+    await releaseDepartmentManagement(id);
   }
 
   await prisma.auditLog.create({
@@ -383,6 +409,8 @@ export async function deleteUser(id: string, deleterId: string): Promise<void> {
     data: { isValid: false },
   });
 
+  await releaseDepartmentManagement(id);
+
   await prisma.auditLog.create({
     data: {
       userId: deleterId,
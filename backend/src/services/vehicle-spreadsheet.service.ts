@@ -0,0 +1,464 @@
+import { Prisma } from '@prisma/client';
+import ExcelJS from 'exceljs';
+import path from 'path';
+import { Readable } from 'stream';
+import { z } from 'zod';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { BadRequestError, ValidationError } from '../utils/errors.js';
+import { formatDateToISOString } from '../utils/helpers.js';
+import { runSerializable } from '../utils/transaction.js';
+import { buildVehicleWhere, toVehicleCreateData } from './vehicle.service.js';
+import {
+  notifyFlaggedReadings,
+  recordOdometerReading,
+  type FlaggedOdometerReading,
+} from './odometer.service.js';
+import {
+  createVehicleSchema,
+  type CreateVehicleInput,
+  type VehicleExportQueryInput,
+  type VehicleImportQueryInput,
+} from '../validators/vehicle.validator.js';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+type VehicleColumn = keyof CreateVehicleInput;
+
+// The columns of the import template and of the export, in the order of the
+// creation schema. The status is left out: it is driven by reservations and
+// maintenance, not by a spreadsheet.
+export const VEHICLE_COLUMNS = createVehicleSchema
+  .keyof()
+  .options.filter((column): column is Exclude<VehicleColumn, 'status'> => column !== 'status');
+
+const REQUIRED_COLUMNS = VEHICLE_COLUMNS.filter(
+  (column) => !createVehicleSchema.shape[column].isOptional()
+);
+
+const DATE_COLUMNS: VehicleColumn[] = ['insuranceExpiry', 'technicalInspectionExpiry'];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface VehicleImportRow {
+  // Line number in the file, the header being line 1
+  row: number;
+  registrationNumber: string | null;
+  action: 'CREATE' | 'UPDATE';
+  errors: Record<string, string[]>;
+}
+
+export interface VehicleImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  invalid: number;
+  rows: VehicleImportRow[];
+}
+
+interface ParsedRow {
+  row: number;
+  data: CreateVehicleInput | null;
+  registrationNumber: string | null;
+  errors: Record<string, string[]>;
+}
+
+function isNumberColumn(column: VehicleColumn): boolean {
+  const field = createVehicleSchema.shape[column];
+  const inner = field instanceof z.ZodOptional ? field.unwrap() : field;
+  return inner instanceof z.ZodNumber;
+}
+
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return formatDateToISOString(value);
+  }
+  if (typeof value === 'object') {
+    // Rich text, hyperlinks and formulas keep their displayed value
+    if ('richText' in value) {
+      return value.richText.map((part) => part.text).join('');
+    }
+    if ('text' in value) {
+      return String(value.text);
+    }
+    if ('result' in value) {
+      return cellToString(value.result as ExcelJS.CellValue);
+    }
+  }
+  return String(value);
+}
+
+// Cells are read as text, then converted to the type the schema expects so a
+// bad value is reported by the schema rather than silently dropped
+function toFieldValue(column: VehicleColumn, raw: string): unknown {
+  if (isNumberColumn(column)) {
+    const value = Number(raw.replace(',', '.'));
+    return Number.isNaN(value) ? raw : value;
+  }
+  if (DATE_COLUMNS.includes(column)) {
+    const date = new Date(raw);
+    return Number.isNaN(date.getTime()) ? raw : formatDateToISOString(date);
+  }
+  return raw;
+}
+
+async function readWorksheet(
+  buffer: Buffer,
+  format: SpreadsheetFormat
+): Promise<ExcelJS.Worksheet> {
+  const workbook = new ExcelJS.Workbook();
+
+  if (format === 'csv') {
+    // Keep every value as text: registration numbers such as "0012" must not
+    // be turned into numbers by the CSV reader
+    return workbook.csv.read(Readable.from([buffer]), { map: (value: unknown) => value });
+  }
+
+  await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new BadRequestError('The workbook has no worksheet');
+  }
+  return worksheet;
+}
+
+export function getSpreadsheetFormat(filename: string): SpreadsheetFormat {
+  const extension = path.extname(filename).toLowerCase();
+  if (extension === '.csv' || extension === '.xlsx') {
+    return extension.slice(1) as SpreadsheetFormat;
+  }
+  throw new BadRequestError('Only .csv and .xlsx files can be imported');
+}
+
+async function parseVehicleRows(buffer: Buffer, format: SpreadsheetFormat): Promise<ParsedRow[]> {
+  const worksheet = await readWorksheet(buffer, format);
+
+  // Headers are the column names of the export, matched case-insensitively
+  const columnIndexes = new Map<VehicleColumn, number>();
+  worksheet.getRow(1).eachCell((cell, index) => {
+    const header = cellToString(cell.value).trim().toLowerCase();
+    const column = VEHICLE_COLUMNS.find((name) => name.toLowerCase() === header);
+    if (column) {
+      columnIndexes.set(column, index);
+    }
+  });
+
+  const missing = REQUIRED_COLUMNS.filter((column) => !columnIndexes.has(column));
+  if (missing.length > 0) {
+    throw new BadRequestError(`Missing required column(s): ${missing.join(', ')}`);
+  }
+
+  const rows: ParsedRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) {
+      return;
+    }
+
+    const input: Record<string, unknown> = {};
+    for (const [column, index] of columnIndexes) {
+      const raw = cellToString(row.getCell(index).value).trim();
+      if (raw !== '') {
+        input[column] = toFieldValue(column, raw);
+      }
+    }
+
+    // Blank lines at the end of a sheet are common, they are not errors
+    if (Object.keys(input).length === 0) {
+      return;
+    }
+
+    const parsed = createVehicleSchema.safeParse(input);
+    rows.push({
+      row: rowNumber,
+      data: parsed.success ? parsed.data : null,
+      registrationNumber:
+        typeof input.registrationNumber === 'string' ? input.registrationNumber : null,
+      errors: parsed.success
+        ? {}
+        : (parsed.error.flatten().fieldErrors as Record<string, string[]>),
+    });
+  });
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestError(`An import is limited to ${MAX_IMPORT_ROWS} vehicles`);
+  }
+
+  return rows;
+}
+
+function addError(row: ParsedRow, column: string, message: string): void {
+  (row.errors[column] ??= []).push(message);
+}
+
+/**
+ * Validates every row of a CSV or XLSX file against the vehicle creation
+ * schema, then checks registration numbers and VINs for duplicates within the
+ * file and against the fleet. With `dryRun` the per-row report is returned
+ * without writing anything; otherwise all rows are written in one transaction
+ * and the import is refused as a whole if a single row is invalid.
+ */
+export async function importVehicles(
+  file: { buffer: Buffer; originalname: string },
+  options: VehicleImportQueryInput,
+  userId: string
+): Promise<VehicleImportResult> {
+  const rows = await parseVehicleRows(file.buffer, getSpreadsheetFormat(file.originalname));
+
+  if (rows.length === 0) {
+    throw new BadRequestError('The file contains no vehicle');
+  }
+
+  const valid = rows.filter((row) => row.data !== null);
+  const registrations = valid.map((row) => row.data!.registrationNumber);
+  const vins = valid.flatMap((row) => (row.data!.vin ? [row.data!.vin] : []));
+  const locationIds = [...new Set(valid.flatMap((row) => row.data!.locationId ?? []))];
+
+  const [existingVehicles, locations] = await Promise.all([
+    prisma.vehicle.findMany({
+      where: {
+        OR: [{ registrationNumber: { in: registrations } }, { vin: { in: vins } }],
+      },
+      select: {
+        id: true,
+        registrationNumber: true,
+        vin: true,
+        isActive: true,
+        currentMileage: true,
+      },
+    }),
+    locationIds.length > 0
+      ? prisma.location.findMany({
+          where: { id: { in: locationIds }, isActive: true },
+          select: { id: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const byRegistration = new Map(existingVehicles.map((v) => [v.registrationNumber, v]));
+  const byVin = new Map(existingVehicles.filter((v) => v.vin).map((v) => [v.vin!, v]));
+  const knownLocations = new Set(locations.map((location) => location.id));
+  const seenRegistrations = new Map<string, number>();
+  const seenVins = new Map<string, number>();
+
+  const report: VehicleImportRow[] = [];
+  const writes: { data: CreateVehicleInput; vehicleId: string | null }[] = [];
+
+  for (const row of rows) {
+    let action: VehicleImportRow['action'] = 'CREATE';
+    const data = row.data;
+
+    if (data) {
+      const firstRow = seenRegistrations.get(data.registrationNumber);
+      if (firstRow !== undefined) {
+        addError(row, 'registrationNumber', `Duplicate of line ${firstRow}`);
+      } else {
+        seenRegistrations.set(data.registrationNumber, row.row);
+      }
+
+      const existing = byRegistration.get(data.registrationNumber);
+      if (existing && !options.updateExisting) {
+        addError(
+          row,
+          'registrationNumber',
+          'A vehicle with this registration number already exists'
+        );
+      } else if (existing && !existing.isActive) {
+        addError(
+          row,
+          'registrationNumber',
+          'This registration number belongs to a deactivated vehicle'
+        );
+      } else if (existing) {
+        action = 'UPDATE';
+      }
+
+      if (data.vin) {
+        const firstVinRow = seenVins.get(data.vin);
+        if (firstVinRow !== undefined) {
+          addError(row, 'vin', `Duplicate of line ${firstVinRow}`);
+        } else {
+          seenVins.set(data.vin, row.row);
+        }
+
+        const vinOwner = byVin.get(data.vin);
+        if (vinOwner && vinOwner.id !== existing?.id) {
+          addError(row, 'vin', 'A vehicle with this VIN already exists');
+        }
+      }
+
+      if (
+        action === 'UPDATE' &&
+        data.currentMileage !== undefined &&
+        data.currentMileage < existing!.currentMileage
+      ) {
+        addError(
+          row,
+          'currentMileage',
+          `Below the current mileage of the vehicle (${existing!.currentMileage} km)`
+        );
+      }
+
+      if (data.locationId && !knownLocations.has(data.locationId)) {
+        addError(row, 'locationId', 'Unknown or inactive location');
+      }
+    }
+
+    const isValid = data !== null && Object.keys(row.errors).length === 0;
+    if (isValid) {
+      writes.push({
+        data,
+        vehicleId: action === 'UPDATE' ? byRegistration.get(data.registrationNumber)!.id : null,
+      });
+    }
+
+    report.push({
+      row: row.row,
+      registrationNumber: row.registrationNumber,
+      action,
+      errors: row.errors,
+    });
+  }
+
+  const result: VehicleImportResult = {
+    dryRun: options.dryRun,
+    total: report.length,
+    created: writes.filter((write) => write.vehicleId === null).length,
+    updated: writes.filter((write) => write.vehicleId !== null).length,
+    invalid: report.length - writes.length,
+    rows: report,
+  };
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  if (result.invalid > 0) {
+    const errors: Record<string, string[]> = {};
+    for (const row of report) {
+      for (const [column, messages] of Object.entries(row.errors)) {
+        (errors[`line ${row.row}`] ??= []).push(
+          ...messages.map((message) => `${column}: ${message}`)
+        );
+      }
+    }
+    throw new ValidationError(
+      `${result.invalid} row(s) are invalid, nothing was imported`,
+      errors
+    );
+  }
+
+  const flaggedReadings = await runSerializable(async (tx) => {
+    const flaggedReadings: FlaggedOdometerReading[] = [];
+
+    for (const write of writes) {
+      const { vehicleId, data } = write;
+
+      // A new mileage of an existing vehicle goes to its odometer ledger
+      const existing = vehicleId ? byRegistration.get(data.registrationNumber)! : null;
+      if (
+        existing &&
+        data.currentMileage !== undefined &&
+        data.currentMileage !== existing.currentMileage
+      ) {
+        const { flagged } = await recordOdometerReading(
+          existing,
+          { mileage: data.currentMileage, source: 'MANUAL', recordedById: userId },
+          tx
+        );
+        if (flagged) {
+          flaggedReadings.push(flagged);
+        }
+      }
+
+      const vehicle = vehicleId
+        ? await tx.vehicle.update({
+            where: { id: vehicleId },
+            data: {
+              ...data,
+              insuranceExpiry: data.insuranceExpiry ? new Date(data.insuranceExpiry) : undefined,
+              technicalInspectionExpiry: data.technicalInspectionExpiry
+                ? new Date(data.technicalInspectionExpiry)
+                : undefined,
+            },
+          })
+        : await tx.vehicle.create({ data: toVehicleCreateData(data) });
+
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: vehicleId ? 'UPDATE' : 'CREATE',
+          entityType: 'vehicle',
+          entityId: vehicle.id,
+          newValues: { ...data, source: 'import' } as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    return flaggedReadings;
+  });
+
+  await notifyFlaggedReadings(flaggedReadings);
+
+  logger.info(
+    `Vehicle import: ${result.created} created, ${result.updated} updated from ${file.originalname}`
+  );
+
+  return result;
+}
+
+/**
+ * Writes the vehicles matching the list filters with the import columns, so
+ * the file can be edited and imported back with `updateExisting`.
+ */
+export async function exportVehicles(
+  query: VehicleExportQueryInput
+): Promise<{ contentType: string; filename: string; body: Buffer }> {
+  const vehicles = await prisma.vehicle.findMany({
+    where: buildVehicleWhere(query),
+    orderBy: { registrationNumber: 'asc' },
+  });
+
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet('Vehicles');
+  worksheet.columns = VEHICLE_COLUMNS.map((column) => ({
+    header: column,
+    key: column,
+    width: Math.max(column.length + 2, 12),
+  }));
+
+  for (const vehicle of vehicles) {
+    worksheet.addRow(
+      Object.fromEntries(
+        VEHICLE_COLUMNS.map((column) => {
+          const value = vehicle[column];
+          // Dates are written as calendar days, which the import reads back
+          return [
+            column,
+            value instanceof Date ? formatDateToISOString(value).slice(0, 10) : value ?? null,
+          ];
+        })
+      )
+    );
+  }
+
+  const date = formatDateToISOString(new Date()).slice(0, 10);
+
+  if (query.format === 'xlsx') {
+    worksheet.getRow(1).font = { bold: true };
+    return {
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      filename: `vehicles-${date}.xlsx`,
+      body: Buffer.from(await workbook.xlsx.writeBuffer()),
+    };
+  }
+
+  return {
+    contentType: 'text/csv',
+    filename: `vehicles-${date}.csv`,
+    body: Buffer.from(await workbook.csv.writeBuffer()),
+  };
+}
@@ -7,16 +7,27 @@ import {
   createPaginatedResponse,
   calculateSkip,
   generateQRCode,
-  doDateRangesOverlap,
 } from '../utils/helpers.js';
 import type { PaginatedResponse } from '../validators/index.js';
+import {
+  blockingMaintenanceWhere,
+  blockingReservationWhere,
+  findMaintenanceConflict,
+  getVehicleStatusConflict,
+} from './availability.service.js';
+import { getVehicleFuelSummary, type VehicleFuelSummary } from './fuel.service.js';
+import {
+  notifyFlaggedReadings,
+  recordOdometerReading,
+  type FlaggedOdometerReading,
+} from './odometer.service.js';
 import type {
   CreateVehicleInput,
   UpdateVehicleInput,
   VehicleQueryInput,
 } from '../validators/vehicle.validator.js';
 
-type VehicleWithRelations = Prisma.VehicleGetPayload<{
+export type VehicleWithRelations = Prisma.VehicleGetPayload<{
   include: {
     location: true;
     photos: true;
@@ -26,21 +37,13 @@ type VehicleWithRelations = Prisma.VehicleGetPayload<{
   };
 }>;
 
-export async function createVehicle(
-  data: CreateVehicleInput,
-  userId: string
-): Promise<VehicleWithRelations> {
-  // Check for duplicate registration
-  const existing = await prisma.vehicle.findUnique({
-    where: { registrationNumber: data.registrationNumber },
-  });
-
-  if (existing) {
-    throw new ConflictError('Vehicle with this registration number already exists');
-  }
-
-  const vehicleData: Prisma.VehicleUncheckedCreateInput = {
+// Shared by the form and the bulk import so both apply the same defaults
+export function toVehicleCreateData(
+  data: CreateVehicleInput
+): Prisma.VehicleUncheckedCreateInput {
+  return {
     registrationNumber: data.registrationNumber,
+    vin: data.vin,
     brand: data.brand,
     model: data.model,
     year: data.year,
@@ -54,6 +57,7 @@ export async function createVehicle(
     horsePower: data.horsePower,
     currentMileage: data.currentMileage ?? 0,
     fuelConsumption: data.fuelConsumption,
+    tankCapacity: data.tankCapacity,
     acquisitionCost: data.acquisitionCost,
     locationId: data.locationId,
     dailyRate: data.dailyRate,
@@ -66,9 +70,27 @@ export async function createVehicle(
       ? new Date(data.technicalInspectionExpiry)
       : null,
   };
+}
+
+export async function createVehicle(
+  data: CreateVehicleInput,
+  userId: string
+): Promise<VehicleWithRelations> {
+  // Check for duplicate registration
+  const existing = await prisma.vehicle.findUnique({
+    where: { registrationNumber: data.registrationNumber },
+  });
+
+  if (existing) {
+    throw new ConflictError('Vehicle with this registration number already exists');
+  }
+
+  if (data.vin && (await prisma.vehicle.findUnique({ where: { vin: data.vin } }))) {
+    throw new ConflictError('Vehicle with this VIN already exists');
+  }
 
   const vehicle = await prisma.vehicle.create({
-    data: vehicleData,
+    data: toVehicleCreateData(data),
     include: {
       location: true,
       photos: true,
@@ -93,12 +115,10 @@ export async function createVehicle(
   return vehicle as VehicleWithRelations;
 }
 
-export async function getVehicles(
-  query: VehicleQueryInput
-): Promise<PaginatedResponse<VehicleWithRelations>> {
-  const pagination = parsePaginationParams(query);
-  const skip = calculateSkip(pagination.page, pagination.limit);
-
+// Filters of the vehicle list, also applied by the export
+export function buildVehicleWhere(
+  query: Omit<VehicleQueryInput, 'page' | 'limit'>
+): Prisma.VehicleWhereInput {
   const where: Prisma.VehicleWhereInput = {
     isActive: true,
   };
@@ -137,6 +157,16 @@ export async function getVehicles(
     }
   }
 
+  return where;
+}
+
+export async function getVehicles(
+  query: VehicleQueryInput
+): Promise<PaginatedResponse<VehicleWithRelations>> {
+  const pagination = parsePaginationParams(query);
+  const skip = calculateSkip(pagination.page, pagination.limit);
+  const where = buildVehicleWhere(query);
+
   const orderBy: Prisma.VehicleOrderByWithRelationInput = {};
   if (pagination.sortBy) {
     orderBy[pagination.sortBy as keyof Prisma.VehicleOrderByWithRelationInput] =
@@ -211,6 +241,23 @@ export async function updateVehicle(
     }
   }
 
+  if (data.vin && data.vin !== existing.vin) {
+    const duplicate = await prisma.vehicle.findUnique({ where: { vin: data.vin } });
+
+    if (duplicate) {
+      throw new ConflictError('Vehicle with this VIN already exists');
+    }
+  }
+
+  let flagged: FlaggedOdometerReading | null = null;
+  if (data.currentMileage !== undefined && data.currentMileage !== existing.currentMileage) {
+    ({ flagged } = await recordOdometerReading(existing, {
+      mileage: data.currentMileage,
+      source: 'MANUAL',
+      recordedById: userId,
+    }));
+  }
+
   const updateData: Prisma.VehicleUpdateInput = {
     ...data,
     insuranceExpiry: data.insuranceExpiry
@@ -244,6 +291,8 @@ export async function updateVehicle(
     },
   });
 
+  await notifyFlaggedReadings([flagged]);
+
   logger.info(`Vehicle updated: ${vehicle.registrationNumber}`);
 
   return vehicle;
@@ -294,7 +343,8 @@ export async function updateVehicleStatus(
   id: string,
   status: VehicleStatus,
   userId: string,
-  reason?: string
+  reason?: string,
+  until?: Date
 ): Promise<VehicleWithRelations> {
   const vehicle = await prisma.vehicle.findUnique({
     where: { id },
@@ -304,9 +354,12 @@ export async function updateVehicleStatus(
     throw new NotFoundError('Vehicle not found');
   }
 
+  // The out-of-service period is only meaningful while the status lasts
+  const outOfServiceUntil = status === 'OUT_OF_SERVICE' ? (until ?? null) : null;
+
   const updated = await prisma.vehicle.update({
     where: { id },
-    data: { status },
+    data: { status, outOfServiceUntil },
     include: {
       location: true,
       photos: true,
@@ -322,8 +375,11 @@ export async function updateVehicleStatus(
       action: 'STATUS_CHANGE',
       entityType: 'vehicle',
       entityId: id,
-      oldValues: { status: vehicle.status } as Prisma.InputJsonValue,
-      newValues: { status, reason } as Prisma.InputJsonValue,
+      oldValues: {
+        status: vehicle.status,
+        outOfServiceUntil: vehicle.outOfServiceUntil,
+      } as Prisma.InputJsonValue,
+      newValues: { status, reason, outOfServiceUntil } as Prisma.InputJsonValue,
     },
   });
 
@@ -345,9 +401,11 @@ export async function updateVehicleMileage(
     throw new NotFoundError('Vehicle not found');
   }
 
-  if (mileage < vehicle.currentMileage) {
-    throw new ConflictError('New mileage cannot be less than current mileage');
-  }
+  const { flagged } = await recordOdometerReading(vehicle, {
+    mileage,
+    source: 'MANUAL',
+    recordedById: userId,
+  });
 
   const updated = await prisma.vehicle.update({
     where: { id },
@@ -372,6 +430,8 @@ export async function updateVehicleMileage(
     },
   });
 
+  await notifyFlaggedReadings([flagged]);
+
   return updated;
 }
 
@@ -420,44 +480,52 @@ export async function removeVehiclePhoto(
 export async function getAvailableVehicles(
   startDate: Date,
   endDate: Date,
-  type?: string
+  type?: string,
+  locationId?: string
 ): Promise<VehicleWithRelations[]> {
-  // Get all vehicles that don't have conflicting reservations
+  // Availability depends on the requested window, not on the current status:
+  // a vehicle on a trip or in a short service today can be free next week
   const vehicles = await prisma.vehicle.findMany({
     where: {
       isActive: true,
-      status: VehicleStatus.AVAILABLE,
       ...(type && { type: type as VehicleType }),
+      ...(locationId && { locationId }),
     },
     include: {
       location: true,
       photos: true,
       reservations: {
-        where: {
-          status: { in: ['APPROVED', 'IN_PROGRESS'] },
-          OR: [
-            {
-              startDate: { lte: endDate },
-              endDate: { gte: startDate },
-            },
-          ],
-        },
+        where: blockingReservationWhere(startDate, endDate),
         select: {
           id: true,
           startDate: true,
           endDate: true,
         },
       },
+      maintenances: {
+        where: blockingMaintenanceWhere(endDate),
+        select: {
+          id: true,
+          status: true,
+          scheduledDate: true,
+          startDate: true,
+          estimatedEndDate: true,
+        },
+      },
       _count: {
         select: { reservations: true, maintenances: true },
       },
     },
   });
 
-  // Filter out vehicles with conflicting reservations
+  // Filter out vehicles out of service, booked or in the shop during the window.
+  // The reservations loaded are the ones findVehicleConflict would refuse, so
+  // a listed vehicle can be booked for the window
   return vehicles.filter((vehicle) => {
-    return !vehicle.reservations.some((res) =>
-      doDateRangesOverlap(startDate, endDate, res.startDate, res.endDate)
+    return (
+      !getVehicleStatusConflict(vehicle, startDate) &&
+      vehicle.reservations.length === 0 &&
+      !findMaintenanceConflict(vehicle.maintenances, startDate, endDate)
     );
   });
 }
@@ -468,17 +536,25 @@ export async function getVehicleStatistics(vehicleId: string): Promise<{
   totalMileage: number;
   maintenanceCount: number;
   averageRating: number | null;
+  fuel: VehicleFuelSummary;
 }> {
   const vehicle = await prisma.vehicle.findUnique({
     where: { id: vehicleId },
     include: {
       reservations: {
         select: {
+          id: true,
           status: true,
           actualMileage: true,
           rating: true,
+          _count: { select: { segments: true } },
         },
       },
+      // Legs driven with this vehicle on trips whose vehicle was swapped
+      tripSegments: {
+        where: { distance: { not: null } },
+        select: { reservationId: true, distance: true },
+      },
       maintenances: {
         select: { id: true },
       },
@@ -493,9 +569,18 @@ export async function getVehicleStatistics(vehicleId: string): Promise<{
     (r) => r.status === 'COMPLETED'
   );
 
-  const totalMileage = completedReservations.reduce(
-    (sum, r) => sum + (r.actualMileage || 0),
-    0
+  // The mileage of a swapped trip is counted per segment, so each vehicle
+  // only gets the distance it actually drove
+  const totalMileage =
+    completedReservations
+      .filter((r) => r._count.segments === 0)
+      .reduce((sum, r) => sum + (r.actualMileage || 0), 0) +
+    vehicle.tripSegments.reduce((sum, segment) => sum + (segment.distance || 0), 0);
+
+  const swappedOutReservations = new Set(
+    vehicle.tripSegments
+      .map((segment) => segment.reservationId)
+      .filter((reservationId) => !vehicle.reservations.some((r) => r.id === reservationId))
   );
 
   const ratings = completedReservations
@@ -506,11 +591,12 @@ export async function getVehicleStatistics(vehicleId: string): Promise<{
     ratings.length > 0 ? ratings.reduce((a, b) => a + b, 0) / ratings.length : null;
 
   return {
-    totalReservations: vehicle.reservations.length,
+    totalReservations: vehicle.reservations.length + swappedOutReservations.size,
     completedReservations: completedReservations.length,
     totalMileage,
     maintenanceCount: vehicle.maintenances.length,
     averageRating,
+    fuel: await getVehicleFuelSummary(vehicle),
   };
 }
 
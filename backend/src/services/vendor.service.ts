@@ -0,0 +1,346 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { NotFoundError, ConflictError, BadRequestError } from '../utils/errors.js';
+import { getSetting } from './settings.service.js';
+import type {
+  CreateVendorInput,
+  UpdateVendorInput,
+  VendorQueryInput,
+  VendorReportQueryInput,
+} from '../validators/vendor.validator.js';
+
+const vendorInclude = {
+  contacts: { orderBy: { isPrimary: 'desc' } },
+  locations: { select: { id: true, name: true } },
+  _count: { select: { maintenances: true } },
+} as const;
+
+type VendorWithRelations = Prisma.VendorGetPayload<{ include: typeof vendorInclude }>;
+
+export interface VendorReport {
+  vendorId: string;
+  name: string;
+  isActive: boolean;
+  // Maintenances completed by the vendor in the period
+  maintenanceCount: number;
+  totalSpend: number;
+  // From start to completion, null when none was started through the app
+  averageTurnaroundHours: number | null;
+  // Over the maintenances with both an estimated and an actual cost
+  estimatedCost: number;
+  actualCost: number;
+  costVariance: number;
+  costVariancePercent: number | null;
+  // Completed maintenances followed by a repair of the same vehicle
+  reworkCount: number;
+  reworkRate: number;
+  from: string;
+  to: string;
+}
+
+const DEFAULT_REPORT_DAYS = 365;
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Work that sends a vehicle back to the garage shortly after a service
+const REWORK_TYPES: Prisma.MaintenanceWhereInput['type'] = { in: ['CORRECTIVE', 'REPAIR'] };
+
+function roundRate(value: number): number {
+  return Math.round(value * 1000) / 10;
+}
+
+// Spellings differing only by case are the same garage
+async function assertUniqueName(name: string, excludeId?: string): Promise<void> {
+  const existing = await prisma.vendor.findFirst({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new ConflictError('A vendor with this name already exists');
+  }
+}
+
+async function assertLocations(locationIds: string[]): Promise<void> {
+  const ids = [...new Set(locationIds)];
+  const count = await prisma.location.count({
+    where: { id: { in: ids }, isActive: true },
+  });
+
+  if (count !== ids.length) {
+    throw new BadRequestError('Unknown or inactive location');
+  }
+}
+
+// Null clears the date, undefined leaves it unchanged
+function toDate(value: string | null | undefined): Date | null | undefined {
+  return value === null || value === undefined ? value : new Date(value);
+}
+
+export async function getVendors(query: VendorQueryInput): Promise<VendorWithRelations[]> {
+  const where: Prisma.VendorWhereInput = {};
+
+  if (!query.includeInactive) {
+    where.isActive = true;
+  }
+
+  if (query.search) {
+    where.OR = [
+      { name: { contains: query.search, mode: 'insensitive' } },
+      { contacts: { some: { name: { contains: query.search, mode: 'insensitive' } } } },
+    ];
+  }
+
+  if (query.specialty) {
+    where.specialties = { has: query.specialty };
+  }
+
+  if (query.locationId) {
+    where.locations = { some: { id: query.locationId } };
+  }
+
+  return prisma.vendor.findMany({
+    where,
+    include: vendorInclude,
+    orderBy: { name: 'asc' },
+  });
+}
+
+export async function getVendorById(id: string): Promise<VendorWithRelations> {
+  const vendor = await prisma.vendor.findUnique({
+    where: { id },
+    include: vendorInclude,
+  });
+
+  if (!vendor) {
+    throw new NotFoundError('Vendor not found');
+  }
+
+  return vendor;
+}
+
+export async function createVendor(
+  data: CreateVendorInput,
+  creatorId: string
+): Promise<VendorWithRelations> {
+  await assertUniqueName(data.name);
+
+  const { contacts, locationIds, contractEndDate, ...fields } = data;
+
+  if (locationIds) {
+    await assertLocations(locationIds);
+  }
+
+  const vendor = await prisma.vendor.create({
+    data: {
+      ...fields,
+      contractEndDate: toDate(contractEndDate),
+      contacts: contacts && { create: contacts },
+      locations: locationIds && { connect: locationIds.map((id) => ({ id })) },
+    },
+    include: vendorInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: creatorId,
+      action: 'CREATE',
+      entityType: 'vendor',
+      entityId: vendor.id,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Vendor created: ${vendor.name} by ${creatorId}`);
+
+  return vendor;
+}
+
+export async function updateVendor(
+  id: string,
+  data: UpdateVendorInput,
+  updaterId: string
+): Promise<VendorWithRelations> {
+  const existing = await prisma.vendor.findUnique({ where: { id } });
+
+  if (!existing) {
+    throw new NotFoundError('Vendor not found');
+  }
+
+  if (data.name && data.name !== existing.name) {
+    await assertUniqueName(data.name, id);
+  }
+
+  const { contacts, locationIds, contractEndDate, ...fields } = data;
+
+  if (locationIds) {
+    await assertLocations(locationIds);
+  }
+
+  const vendor = await prisma.vendor.update({
+    where: { id },
+    data: {
+      ...fields,
+      contractEndDate: toDate(contractEndDate),
+      contacts: contacts && { deleteMany: {}, create: contacts },
+      locations: locationIds && { set: locationIds.map((locationId) => ({ id: locationId })) },
+    },
+    include: vendorInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: updaterId,
+      action: 'UPDATE',
+      entityType: 'vendor',
+      entityId: id,
+      oldValues: existing as unknown as Prisma.InputJsonValue,
+      newValues: data as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Vendor updated: ${vendor.name} by ${updaterId}`);
+
+  return vendor;
+}
+
+// Vendors are deactivated rather than deleted so that the maintenances they
+// did keep their link and their reports
+export async function deleteVendor(id: string, deleterId: string): Promise<void> {
+  const vendor = await prisma.vendor.findUnique({
+    where: { id },
+    select: { name: true, isActive: true },
+  });
+
+  if (!vendor) {
+    throw new NotFoundError('Vendor not found');
+  }
+
+  await prisma.vendor.update({
+    where: { id },
+    data: { isActive: false },
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: deleterId,
+      action: 'DELETE',
+      entityType: 'vendor',
+      entityId: id,
+      oldValues: { isActive: vendor.isActive } as Prisma.InputJsonValue,
+      newValues: { isActive: false } as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`Vendor deactivated: ${vendor.name} by ${deleterId}`);
+}
+
+/**
+ * Spend and performance of each vendor over the maintenances it completed in
+ * the period. A maintenance counts as reworked when a corrective maintenance
+ * or a repair of the same vehicle is scheduled within the rework window after
+ * its completion, whoever the follow-up is sent to.
+ */
+export async function getVendorReports(
+  query: VendorReportQueryInput,
+  vendorId?: string
+): Promise<VendorReport[]> {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(to.getTime() - DEFAULT_REPORT_DAYS * DAY_MS);
+
+  if (vendorId) {
+    await getVendorById(vendorId);
+  }
+
+  const vendors = await prisma.vendor.findMany({
+    where: vendorId ? { id: vendorId } : { isActive: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const completed = await prisma.maintenance.findMany({
+    where: {
+      vendorId: { in: vendors.map((v) => v.id) },
+      status: 'COMPLETED',
+      completedDate: { gte: from, lte: to },
+    },
+    select: {
+      id: true,
+      vehicleId: true,
+      vendorId: true,
+      startDate: true,
+      completedDate: true,
+      estimatedCost: true,
+      actualCost: true,
+    },
+  });
+
+  const windowMs = (await getSetting('maintenance.reworkWindowDays')) * DAY_MS;
+
+  const followUps =
+    completed.length > 0
+      ? await prisma.maintenance.findMany({
+          where: {
+            vehicleId: { in: [...new Set(completed.map((m) => m.vehicleId))] },
+            type: REWORK_TYPES,
+            status: { not: 'CANCELLED' },
+            scheduledDate: { gt: from, lte: new Date(to.getTime() + windowMs) },
+          },
+          select: { id: true, vehicleId: true, scheduledDate: true },
+        })
+      : [];
+
+  const isReworked = (maintenance: (typeof completed)[number]): boolean => {
+    const completedAt = maintenance.completedDate!.getTime();
+    return followUps.some(
+      (followUp) =>
+        followUp.id !== maintenance.id &&
+        followUp.vehicleId === maintenance.vehicleId &&
+        followUp.scheduledDate.getTime() > completedAt &&
+        followUp.scheduledDate.getTime() <= completedAt + windowMs
+    );
+  };
+
+  const reports = vendors.map((vendor) => {
+    const done = completed.filter((m) => m.vendorId === vendor.id);
+
+    const started = done.filter((m) => m.startDate);
+    const turnaroundHours = started.reduce(
+      (sum, m) => sum + (m.completedDate!.getTime() - m.startDate!.getTime()) / (3600 * 1000),
+      0
+    );
+
+    const costed = done.filter((m) => m.estimatedCost !== null && m.actualCost !== null);
+    const estimatedCost = costed.reduce((sum, m) => sum + m.estimatedCost!, 0);
+    const actualCost = costed.reduce((sum, m) => sum + m.actualCost!, 0);
+
+    const reworkCount = done.filter(isReworked).length;
+
+    return {
+      vendorId: vendor.id,
+      name: vendor.name,
+      isActive: vendor.isActive,
+      maintenanceCount: done.length,
+      totalSpend: done.reduce((sum, m) => sum + (m.actualCost ?? 0), 0),
+      averageTurnaroundHours:
+        started.length > 0 ? Math.round((turnaroundHours / started.length) * 10) / 10 : null,
+      estimatedCost,
+      actualCost,
+      costVariance: actualCost - estimatedCost,
+      costVariancePercent:
+        estimatedCost > 0 ? roundRate((actualCost - estimatedCost) / estimatedCost) : null,
+      reworkCount,
+      reworkRate: done.length > 0 ? roundRate(reworkCount / done.length) : 0,
+      from: from.toISOString(),
+      to: to.toISOString(),
+    };
+  });
+
+  // Biggest spend first
+  return reports.sort((a, b) => b.totalSpend - a.totalSpend);
+}
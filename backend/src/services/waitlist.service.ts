@@ -0,0 +1,408 @@
+import { Prisma, WaitlistEntry, WaitlistStatus } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+} from '../utils/errors.js';
+import {
+  addHours,
+  doDateRangesOverlap,
+  formatDateToISOString,
+} from '../utils/helpers.js';
+import { findVehicleConflict } from './availability.service.js';
+import { findAllocationCandidates } from './allocation.service.js';
+import { createNotification } from './notification.service.js';
+import { createReservation } from './reservation.service.js';
+import { getSetting } from './settings.service.js';
+import type {
+  JoinWaitlistInput,
+  WaitlistQueryInput,
+} from '../validators/waitlist.validator.js';
+
+const ACTIVE_WAITLIST_STATUSES: WaitlistStatus[] = ['WAITING', 'OFFERED'];
+
+const vehicleSummarySelect = {
+  id: true,
+  brand: true,
+  model: true,
+  registrationNumber: true,
+  type: true,
+} as const;
+
+const waitlistInclude = {
+  vehicle: { select: vehicleSummarySelect },
+  offeredVehicle: { select: vehicleSummarySelect },
+  reservation: { select: { id: true, referenceNumber: true, status: true } },
+};
+
+type WaitlistEntryWithRelations = Prisma.WaitlistEntryGetPayload<{
+  include: typeof waitlistInclude;
+}>;
+
+export async function joinWaitlist(
+  data: JoinWaitlistInput,
+  userId: string
+): Promise<WaitlistEntryWithRelations> {
+  const startDate = new Date(data.startDate);
+  const endDate = new Date(data.endDate);
+
+  if (startDate < new Date()) {
+    throw new BadRequestError('Start date cannot be in the past');
+  }
+
+  // Only join when booking directly is actually impossible
+  if (data.vehicleId) {
+    const conflict = await findVehicleConflict(data.vehicleId, startDate, endDate);
+    if (!conflict) {
+      throw new BadRequestError(
+        'Vehicle is available for the selected dates, book it directly'
+      );
+    }
+    if (conflict.type === 'INACTIVE') {
+      throw new BadRequestError('Vehicle is not available for booking');
+    }
+  } else {
+    const candidates = await findAllocationCandidates(
+      { vehicleType: data.vehicleType! },
+      startDate,
+      endDate
+    );
+    if (candidates.length > 0) {
+      throw new BadRequestError(
+        'A vehicle of this type is available for the selected dates, book it directly'
+      );
+    }
+  }
+
+  const existing = await prisma.waitlistEntry.findFirst({
+    where: {
+      userId,
+      status: { in: ACTIVE_WAITLIST_STATUSES },
+      vehicleId: data.vehicleId ?? null,
+      vehicleType: data.vehicleId ? null : data.vehicleType,
+      startDate,
+      endDate,
+    },
+  });
+
+  if (existing) {
+    throw new ConflictError('You are already on the waitlist for this slot');
+  }
+
+  const entry = await prisma.waitlistEntry.create({
+    data: {
+      userId,
+      vehicleId: data.vehicleId,
+      vehicleType: data.vehicleId ? null : data.vehicleType,
+      startDate,
+      endDate,
+      purpose: data.purpose,
+      destination: data.destination,
+      passengerCount: data.passengerCount,
+    },
+    include: waitlistInclude,
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId,
+      action: 'CREATE',
+      entityType: 'waitlist',
+      entityId: entry.id,
+      newValues: {
+        vehicleId: entry.vehicleId,
+        vehicleType: entry.vehicleType,
+        startDate: entry.startDate,
+        endDate: entry.endDate,
+      } as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(`User ${userId} joined the waitlist (${entry.id})`);
+
+  return entry;
+}
+
+export async function getUserWaitlist(
+  userId: string,
+  query: WaitlistQueryInput
+): Promise<WaitlistEntryWithRelations[]> {
+  return prisma.waitlistEntry.findMany({
+    where: {
+      userId,
+      status: query.status,
+    },
+    include: waitlistInclude,
+    orderBy: { startDate: 'asc' },
+  });
+}
+
+async function getOwnEntry(id: string, userId: string): Promise<WaitlistEntry> {
+  const entry = await prisma.waitlistEntry.findUnique({ where: { id } });
+
+  if (!entry) {
+    throw new NotFoundError('Waitlist entry not found');
+  }
+
+  if (entry.userId !== userId) {
+    throw new ForbiddenError('You can only manage your own waitlist entries');
+  }
+
+  return entry;
+}
+
+/**
+ * Leaves the waitlist. Declining a pending offer passes the slot on to the
+ * next user in line.
+ */
+export async function leaveWaitlist(
+  id: string,
+  userId: string
+): Promise<WaitlistEntryWithRelations> {
+  const entry = await getOwnEntry(id, userId);
+
+  if (!ACTIVE_WAITLIST_STATUSES.includes(entry.status)) {
+    throw new ConflictError('This waitlist entry is no longer active');
+  }
+
+  const updated = await prisma.waitlistEntry.update({
+    where: { id },
+    data: { status: 'CANCELLED' },
+    include: waitlistInclude,
+  });
+
+  if (entry.status === 'OFFERED' && entry.offeredVehicleId) {
+    await offerFreedSlot(entry.offeredVehicleId, entry.startDate, entry.endDate);
+  }
+
+  logger.info(`Waitlist entry ${id} cancelled by its owner`);
+
+  return updated;
+}
+
+/**
+ * Books the offered slot. Offers do not hold the vehicle, so the booking goes
+ * through the usual availability checks; when someone booked the slot in the
+ * meantime the entry goes back to waiting.
+ */
+export async function confirmWaitlistOffer(
+  id: string,
+  userId: string
+): Promise<WaitlistEntryWithRelations> {
+  const entry = await getOwnEntry(id, userId);
+
+  if (entry.status !== 'OFFERED' || !entry.offeredVehicleId) {
+    throw new ConflictError('This waitlist entry has no pending offer');
+  }
+
+  if (entry.offerExpiresAt && entry.offerExpiresAt <= new Date()) {
+    await expireOffer(entry);
+    throw new BadRequestError('This offer has expired');
+  }
+
+  let reservationId: string;
+  try {
+    const reservation = await createReservation(
+      {
+        vehicleId: entry.offeredVehicleId,
+        startDate: formatDateToISOString(entry.startDate),
+        endDate: formatDateToISOString(entry.endDate),
+        purpose: entry.purpose,
+        destination: entry.destination,
+        passengerCount: entry.passengerCount ?? undefined,
+      },
+      userId
+    );
+    reservationId = reservation.id;
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      await prisma.waitlistEntry.update({
+        where: { id },
+        data: {
+          status: 'WAITING',
+          offeredVehicleId: null,
+          offeredAt: null,
+          offerExpiresAt: null,
+        },
+      });
+    }
+    throw error;
+  }
+
+  const updated = await prisma.waitlistEntry.update({
+    where: { id },
+    data: { status: 'CONFIRMED', reservationId },
+    include: waitlistInclude,
+  });
+
+  logger.info(`Waitlist offer ${id} confirmed as reservation ${reservationId}`);
+
+  return updated;
+}
+
+/**
+ * Offers a slot released on a vehicle (cancelled or rejected reservation) to
+ * the waitlist, oldest request first. Requests for the vehicle itself and for
+ * its type are considered; several requests can be offered as long as their
+ * windows do not overlap each other or a pending offer. Returns the number of
+ * offers made.
+ *
+ * The slot is offered once the release is recorded, so a failure here is
+ * logged rather than failing the cancellation or job that freed it.
+ */
+export async function offerFreedSlot(
+  vehicleId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<number> {
+  try {
+    return await offerSlot(vehicleId, startDate, endDate);
+  } catch (error) {
+    logger.error(`Failed to offer the freed slot of vehicle ${vehicleId}:`, error);
+    return 0;
+  }
+}
+
+async function offerSlot(vehicleId: string, startDate: Date, endDate: Date): Promise<number> {
+  const vehicle = await prisma.vehicle.findUnique({
+    where: { id: vehicleId },
+    select: vehicleSummarySelect,
+  });
+
+  if (!vehicle) {
+    return 0;
+  }
+
+  const now = new Date();
+  const overlap = {
+    startDate: { lte: endDate },
+    endDate: { gte: startDate },
+  };
+
+  const [waiting, pendingOffers] = await Promise.all([
+    prisma.waitlistEntry.findMany({
+      where: {
+        status: 'WAITING',
+        AND: [
+          overlap,
+          { startDate: { gt: now } },
+          {
+            OR: [
+              { vehicleId },
+              { vehicleId: null, vehicleType: vehicle.type },
+            ],
+          },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.waitlistEntry.findMany({
+      where: {
+        status: 'OFFERED',
+        offeredVehicleId: vehicleId,
+        offerExpiresAt: { gt: now },
+        ...overlap,
+      },
+    }),
+  ]);
+
+  const held: Pick<WaitlistEntry, 'startDate' | 'endDate'>[] = [...pendingOffers];
+  let offers = 0;
+
+  for (const entry of waiting) {
+    if (
+      held.some((offer) =>
+        doDateRangesOverlap(offer.startDate, offer.endDate, entry.startDate, entry.endDate)
+      )
+    ) {
+      continue;
+    }
+
+    const conflict = await findVehicleConflict(vehicleId, entry.startDate, entry.endDate);
+    if (conflict) {
+      continue;
+    }
+
+    const offerExpiresAt = addHours(now, await getSetting('waitlist.offerHours'));
+
+    await prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: {
+        status: 'OFFERED',
+        offeredVehicleId: vehicleId,
+        offeredAt: now,
+        offerExpiresAt,
+      },
+    });
+
+    await createNotification({
+      userId: entry.userId,
+      type: 'VEHICLE_AVAILABLE',
+      priority: 'HIGH',
+      title: 'Waitlisted Slot Available',
+      message: `${vehicle.brand} ${vehicle.model} (${vehicle.registrationNumber}) is now available from ${formatDateToISOString(entry.startDate)} to ${formatDateToISOString(entry.endDate)}. Confirm before ${formatDateToISOString(offerExpiresAt)} to book it.`,
+      entityType: 'waitlist',
+      entityId: entry.id,
+    });
+
+    held.push(entry);
+    offers++;
+
+    logger.info(`Waitlist entry ${entry.id} offered vehicle ${vehicle.registrationNumber}`);
+  }
+
+  return offers;
+}
+
+async function expireOffer(entry: WaitlistEntry): Promise<void> {
+  await prisma.waitlistEntry.update({
+    where: { id: entry.id },
+    data: { status: 'EXPIRED' },
+  });
+
+  await createNotification({
+    userId: entry.userId,
+    type: 'SYSTEM',
+    title: 'Waitlist Offer Expired',
+    message: `The offer for your waitlisted slot starting ${formatDateToISOString(entry.startDate)} expired without confirmation.`,
+    entityType: 'waitlist',
+    entityId: entry.id,
+  });
+
+  if (entry.offeredVehicleId) {
+    await offerFreedSlot(entry.offeredVehicleId, entry.startDate, entry.endDate);
+  }
+}
+
+/**
+ * Expires unconfirmed offers, passing each slot on to the next user in line,
+ * and drops waiting requests whose window has already started.
+ */
+export async function expireWaitlistEntries(): Promise<number> {
+  const now = new Date();
+
+  const expiredOffers = await prisma.waitlistEntry.findMany({
+    where: { status: 'OFFERED', offerExpiresAt: { lte: now } },
+    orderBy: { offerExpiresAt: 'asc' },
+  });
+
+  for (const entry of expiredOffers) {
+    await expireOffer(entry);
+  }
+
+  const { count } = await prisma.waitlistEntry.updateMany({
+    where: { status: 'WAITING', startDate: { lte: now } },
+    data: { status: 'EXPIRED' },
+  });
+
+  if (expiredOffers.length > 0 || count > 0) {
+    logger.info(
+      `Waitlist cleanup: ${expiredOffers.length} offer(s) and ${count} request(s) expired`
+    );
+  }
+
+  return expiredOffers.length + count;
+}
@@ -0,0 +1,117 @@
+import { BadRequestError } from './errors.js';
+
+export interface IcsHoliday {
+  name: string;
+  // UTC midnight of the day off
+  date: Date;
+  isRecurring: boolean;
+}
+
+export interface IcsParseResult {
+  holidays: IcsHoliday[];
+  // Events without a summary or a readable start date
+  skipped: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest event expanded into single days, longer ones are not holidays
+const MAX_EVENT_DAYS = 31;
+
+function unfoldLines(content: string): string[] {
+  // RFC 5545 folds long lines by starting the continuation with a space or tab
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n');
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? ' ' : char
+  );
+}
+
+// Only the calendar day matters: DATE (20260427) and DATE-TIME values are accepted
+function parseDay(value: string): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T\d{6}Z?)?$/.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(+year!, +month! - 1, +day!));
+  return date.getUTCDate() === +day! ? date : undefined;
+}
+
+function parseProperty(line: string): { name: string; value: string } | undefined {
+  const separator = line.indexOf(':');
+  if (separator <= 0) {
+    return undefined;
+  }
+  // Parameters such as ";VALUE=DATE" are not needed
+  const name = line.slice(0, separator).split(';')[0]!.toUpperCase();
+  return { name, value: line.slice(separator + 1) };
+}
+
+/**
+ * Reads the VEVENT entries of an iCalendar file, as published for national
+ * holidays. A yearly RRULE makes the holiday recurring, and an event spanning
+ * several days (DTEND is exclusive) gives one holiday per day.
+ */
+export function parseIcsHolidays(content: string): IcsParseResult {
+  const lines = unfoldLines(content);
+
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new BadRequestError('The file is not an iCalendar (.ics) file');
+  }
+
+  const holidays: IcsHoliday[] = [];
+  let skipped = 0;
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    if (trimmed.toUpperCase() === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+
+    if (trimmed.toUpperCase() === 'END:VEVENT') {
+      if (event) {
+        const name = unescapeText(event.SUMMARY ?? '').trim();
+        const start = event.DTSTART ? parseDay(event.DTSTART) : undefined;
+
+        if (!name || !start) {
+          skipped++;
+        } else {
+          const end = event.DTEND ? parseDay(event.DTEND) : undefined;
+          const days =
+            end && end > start
+              ? Math.min(Math.round((end.getTime() - start.getTime()) / DAY_MS), MAX_EVENT_DAYS)
+              : 1;
+          const isRecurring = /(^|;)FREQ=YEARLY(;|$)/i.test(event.RRULE ?? '');
+
+          for (let i = 0; i < days; i++) {
+            holidays.push({
+              name,
+              date: new Date(start.getTime() + i * DAY_MS),
+              isRecurring,
+            });
+          }
+        }
+      }
+      event = null;
+      continue;
+    }
+
+    if (event) {
+      const property = parseProperty(line);
+      if (property && !(property.name in event)) {
+        event[property.name] = property.value;
+      }
+    }
+  }
+
+  return { holidays, skipped };
+}
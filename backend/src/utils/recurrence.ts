@@ -0,0 +1,223 @@
+import { BadRequestError } from './errors.js';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: number[];
+  until?: Date;
+  count?: number;
+}
+
+export interface Occurrence {
+  startDate: Date;
+  endDate: Date;
+}
+
+export const MAX_RECURRING_OCCURRENCES = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Index matches Date#getUTCDay()
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+function parseUntil(value: string): Date | undefined {
+  // RFC 5545 basic format: 20240630 or 20240630T170000Z
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (match) {
+    const [, year, month, day, hours, minutes, seconds] = match;
+    // A date-only UNTIL includes the whole day
+    const date = hours
+      ? Date.UTC(+year!, +month! - 1, +day!, +hours, +minutes!, +seconds!)
+      : Date.UTC(+year!, +month! - 1, +day!, 23, 59, 59);
+    return new Date(date);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parses an RRULE-style pattern such as
+ * `FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;UNTIL=20240630` or `FREQ=DAILY;COUNT=5`.
+ * Supports DAILY, WEEKLY (with BYDAY) and MONTHLY frequencies; a rule must be
+ * bounded by UNTIL or COUNT.
+ */
+export function parseRecurrenceRule(pattern: string): RecurrenceRule {
+  const parts = pattern
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .filter(Boolean);
+
+  const values: Record<string, string> = {};
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || !value) {
+      throw new BadRequestError(`Invalid recurrence rule segment: ${part}`);
+    }
+    values[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const freq = values.FREQ;
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new BadRequestError('Recurrence frequency must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const interval = values.INTERVAL ? parseInt(values.INTERVAL, 10) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new BadRequestError('Recurrence interval must be a positive integer');
+  }
+
+  const rule: RecurrenceRule = { freq, interval };
+
+  if (values.BYDAY) {
+    if (freq !== 'WEEKLY') {
+      throw new BadRequestError('BYDAY is only supported for weekly recurrences');
+    }
+    rule.byDay = values.BYDAY.split(',').map((code) => {
+      const day = WEEKDAY_CODES.indexOf(code);
+      if (day === -1) {
+        throw new BadRequestError(`Invalid weekday in recurrence rule: ${code}`);
+      }
+      return day;
+    });
+  }
+
+  if (values.COUNT) {
+    const count = parseInt(values.COUNT, 10);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new BadRequestError('Recurrence count must be a positive integer');
+    }
+    if (count > MAX_RECURRING_OCCURRENCES) {
+      throw new BadRequestError(
+        `A recurring reservation cannot exceed ${MAX_RECURRING_OCCURRENCES} occurrences`
+      );
+    }
+    rule.count = count;
+  }
+
+  if (values.UNTIL) {
+    const until = parseUntil(values.UNTIL);
+    if (!until) {
+      throw new BadRequestError('Invalid recurrence end date');
+    }
+    rule.until = until;
+  }
+
+  if (!rule.count && !rule.until) {
+    throw new BadRequestError('A recurrence rule must end with UNTIL or COUNT');
+  }
+
+  return rule;
+}
+
+function addUTCDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function addUTCMonths(date: Date, months: number): Date | null {
+  const result = new Date(date.getTime());
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+
+  // Like RFC 5545, skip months that do not have the start day (e.g. the 31st)
+  if (date.getUTCDate() > daysInMonth) {
+    return null;
+  }
+
+  result.setUTCDate(date.getUTCDate());
+  return result;
+}
+
+/**
+ * Expands a recurrence rule into concrete occurrences. Each occurrence keeps
+ * the duration of the first one. Only dates matching the rule are returned, so
+ * a weekly rule whose BYDAY excludes the start weekday begins on the next
+ * matching day. Occurrences may not overlap, as they book the same vehicle.
+ */
+export function expandRecurrence(
+  startDate: Date,
+  endDate: Date,
+  rule: RecurrenceRule,
+  maxOccurrences: number = MAX_RECURRING_OCCURRENCES
+): Occurrence[] {
+  const duration = endDate.getTime() - startDate.getTime();
+  const occurrences: Occurrence[] = [];
+  const limit = rule.count ?? maxOccurrences + 1;
+
+  const push = (candidate: Date): boolean => {
+    if (rule.until && candidate > rule.until) {
+      return false;
+    }
+    occurrences.push({
+      startDate: candidate,
+      endDate: new Date(candidate.getTime() + duration),
+    });
+    return occurrences.length < limit;
+  };
+
+  if (rule.freq === 'DAILY') {
+    for (let i = 0; ; i++) {
+      if (!push(addUTCDays(startDate, i * rule.interval))) break;
+    }
+  } else if (rule.freq === 'WEEKLY') {
+    const days = [...(rule.byDay ?? [startDate.getUTCDay()])];
+    // Weeks start on Monday (RFC 5545 default WKST)
+    const mondayOffset = (day: number) => (day + 6) % 7;
+    days.sort((a, b) => mondayOffset(a) - mondayOffset(b));
+    const weekStart = addUTCDays(startDate, -mondayOffset(startDate.getUTCDay()));
+
+    let running = true;
+    for (let week = 0; running; week += rule.interval) {
+      for (const day of days) {
+        const candidate = addUTCDays(weekStart, week * 7 + mondayOffset(day));
+        if (candidate < startDate) continue;
+        if (!push(candidate)) {
+          running = false;
+          break;
+        }
+      }
+    }
+  } else {
+    let consecutiveSkips = 0;
+    for (let i = 0; ; i++) {
+      const candidate = addUTCMonths(startDate, i * rule.interval);
+      if (!candidate) {
+        // Guard against rules that can never produce a date
+        if (++consecutiveSkips > 12) break;
+        continue;
+      }
+      consecutiveSkips = 0;
+      if (!push(candidate)) break;
+    }
+  }
+
+  if (occurrences.length > maxOccurrences) {
+    throw new BadRequestError(
+      `A recurring reservation cannot exceed ${maxOccurrences} occurrences`
+    );
+  }
+
+  if (occurrences.length === 0) {
+    throw new BadRequestError('The recurrence rule does not produce any occurrence');
+  }
+
+  // Occurrences come in date order; like two bookings, one ending when the
+  // next starts still overlaps it
+  const overlapping = occurrences.findIndex(
+    (occurrence, i) => i > 0 && occurrence.startDate <= occurrences[i - 1]!.endDate
+  );
+  if (overlapping !== -1) {
+    throw new BadRequestError(
+      'Each occurrence must end before the next one starts; ' +
+        'shorten the reservation or space out the recurrence'
+    );
+  }
+
+  return occurrences;
+}
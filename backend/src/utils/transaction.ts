@@ -0,0 +1,43 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/prisma.js';
+import { logger } from '../config/logger.js';
+import { ConflictError } from './errors.js';
+
+const MAX_SERIALIZATION_RETRIES = 3;
+
+// P2034: transaction failed due to a write conflict or a deadlock
+function isSerializationFailure(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034'
+  );
+}
+
+/**
+ * Runs `fn` in a SERIALIZABLE transaction. PostgreSQL aborts one of two
+ * concurrent transactions whose reads and writes overlap (e.g. two bookings
+ * checking then inserting on the same vehicle and window); the aborted one is
+ * replayed so it can see the committed data and fail with a meaningful error.
+ */
+export async function runSerializable<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  maxRetries: number = MAX_SERIALIZATION_RETRIES
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+      });
+    } catch (error) {
+      if (!isSerializationFailure(error)) {
+        throw error;
+      }
+      if (attempt > maxRetries) {
+        throw new ConflictError(
+          'The request conflicted with a concurrent change, please try again',
+          'CONCURRENT_UPDATE'
+        );
+      }
+      logger.warn(`Serialization failure, retrying transaction (attempt ${attempt})`);
+    }
+  }
+}
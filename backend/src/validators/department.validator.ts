@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+export const createDepartmentSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  code: z
+    .string()
+    .regex(/^[A-Z0-9_-]{2,12}$/, 'Code must be 2 to 12 uppercase letters, digits, - or _'),
+  description: z.string().optional(),
+});
+
+export const updateDepartmentSchema = createDepartmentSchema.partial().extend({
+  // The manager must already be a member of the department, null removes the manager
+  managerId: z.string().uuid().optional().nullable(),
+});
+
+export const deactivateDepartmentSchema = z.object({
+  // Department that takes over the members, required when the department still has some
+  reassignToId: z.string().uuid().optional(),
+});
+
+export const departmentIdSchema = z.object({
+  id: z.string().uuid('Invalid department ID'),
+});
+
+export const departmentQuerySchema = z.object({
+  search: z.string().optional(),
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+export const departmentSpendQuerySchema = z
+  .object({
+    // Spend period, the current year by default
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+    message: 'End date must be after start date',
+    path: ['to'],
+  });
+
+export type CreateDepartmentInput = z.infer<typeof createDepartmentSchema>;
+export type UpdateDepartmentInput = z.infer<typeof updateDepartmentSchema>;
+export type DeactivateDepartmentInput = z.infer<typeof deactivateDepartmentSchema>;
+export type DepartmentQueryInput = z.infer<typeof departmentQuerySchema>;
+export type DepartmentSpendQueryInput = z.infer<typeof departmentSpendQuerySchema>;
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+
+export const DOCUMENT_TYPES = [
+  'REGISTRATION',
+  'INSURANCE',
+  'TECHNICAL_INSPECTION',
+  'PURCHASE_INVOICE',
+  // Uploaded on the maintenance it bills
+  'MAINTENANCE_INVOICE',
+  'OTHER',
+] as const;
+
+// Fields arrive as multipart form values, so they are all strings
+export const uploadDocumentSchema = z.object({
+  type: z.enum(DOCUMENT_TYPES).exclude(['MAINTENANCE_INVOICE']),
+  name: z.string().min(1).max(200).optional(),
+  expiryDate: z.string().datetime().optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const documentVersionSchema = z.object({
+  expiryDate: z.string().datetime().optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const updateDocumentSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  expiryDate: z.string().datetime().nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+});
+
+export const vehicleDocumentParamsSchema = z.object({
+  id: z.string().uuid('Invalid vehicle ID'),
+  documentId: z.string().uuid('Invalid document ID'),
+});
+
+export const documentQuerySchema = z.object({
+  type: z.enum(DOCUMENT_TYPES).optional(),
+});
+
+export type DocumentType = (typeof DOCUMENT_TYPES)[number];
+export type UploadDocumentInput = z.infer<typeof uploadDocumentSchema>;
+export type DocumentVersionInput = z.infer<typeof documentVersionSchema>;
+export type UpdateDocumentInput = z.infer<typeof updateDocumentSchema>;
+export type DocumentQueryInput = z.infer<typeof documentQuerySchema>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+// Fields arrive as multipart form values along with the receipt, so they are all strings
+export const createFuelLogSchema = z
+  .object({
+    // A refuel is recorded against a trip, or directly on a vehicle by fleet staff
+    reservationId: z.string().uuid('Invalid reservation ID').optional(),
+    vehicleId: z.string().uuid('Invalid vehicle ID').optional(),
+    date: z.string().datetime('Invalid date').optional(),
+    liters: z.coerce.number().positive('Litres must be positive').max(1000),
+    amount: z.coerce.number().min(0).optional(),
+    mileage: z.coerce.number().int().min(0, 'Mileage must be positive'),
+    station: z.string().trim().max(200).optional(),
+    isFullTank: z
+      .enum(['true', 'false'])
+      .optional()
+      .transform((val) => val !== 'false'),
+  })
+  .refine((data) => data.reservationId || data.vehicleId, {
+    message: 'A reservation or a vehicle is required',
+    path: ['reservationId'],
+  });
+
+export const fuelLogQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
+  limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 10),
+  vehicleId: z.string().uuid().optional(),
+  reservationId: z.string().uuid().optional(),
+  // Only refuels with at least one anomaly flag
+  anomalies: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+export type CreateFuelLogInput = z.infer<typeof createFuelLogSchema>;
+export type FuelLogQueryInput = z.infer<typeof fuelLogQuerySchema>;
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+// Holidays are whole days, stored at UTC midnight
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+  .refine((value) => {
+    // Out-of-range days such as 2026-02-30 would otherwise roll over to March
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, 'Invalid date');
+
+export const createHolidaySchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  date: calendarDate,
+  // A recurring holiday falls on the same day every year
+  isRecurring: z.boolean().default(false),
+});
+
+export const updateHolidaySchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100).optional(),
+  date: calendarDate.optional(),
+  isRecurring: z.boolean().optional(),
+});
+
+export const holidayIdSchema = z.object({
+  id: z.string().uuid('Invalid holiday ID'),
+});
+
+export const holidayQuerySchema = z.object({
+  // Holidays falling in that year, recurring ones included
+  year: z.coerce.number().int().min(1970).max(2100).optional(),
+  search: z.string().optional(),
+});
+
+export const holidayCalendarQuerySchema = z
+  .object({
+    // Period to expand recurring holidays over, the current year by default
+    from: calendarDate.optional(),
+    to: calendarDate.optional(),
+  })
+  .refine((data) => !data.from || !data.to || data.to >= data.from, {
+    message: 'End date must not be before start date',
+    path: ['to'],
+  });
+
+export const holidayImportQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+export type CreateHolidayInput = z.infer<typeof createHolidaySchema>;
+export type UpdateHolidayInput = z.infer<typeof updateHolidaySchema>;
+export type HolidayQueryInput = z.infer<typeof holidayQuerySchema>;
+export type HolidayCalendarQueryInput = z.infer<typeof holidayCalendarQuerySchema>;
+export type HolidayImportQueryInput = z.infer<typeof holidayImportQuerySchema>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { IncidentType, Priority } from '@prisma/client';
+
+// Fields arrive as multipart form values along with the photos, so they are all strings
+export const reportIncidentSchema = z.object({
+  reservationId: z.string().uuid('Invalid reservation ID'),
+  type: z.nativeEnum(IncidentType),
+  description: z.string().trim().min(10, 'Description must be at least 10 characters').max(2000),
+  // When the incident happened, now by default
+  date: z.string().datetime('Invalid date').optional(),
+  location: z.string().trim().max(300).optional(),
+  latitude: z.coerce.number().min(-90).max(90).optional(),
+  longitude: z.coerce.number().min(-180).max(180).optional(),
+});
+
+export const updateIncidentSchema = z.object({
+  type: z.nativeEnum(IncidentType).optional(),
+  severity: z.nativeEnum(Priority).optional(),
+  description: z.string().trim().min(10).max(2000).optional(),
+  location: z.string().trim().max(300).nullable().optional(),
+});
+
+export const resolveIncidentSchema = z.object({
+  resolution: z.string().trim().min(5, 'Resolution must be at least 5 characters').max(2000),
+});
+
+export const escalateIncidentSchema = z.object({
+  // Work description of the corrective maintenance, the incident one by default
+  description: z.string().trim().min(10).max(2000).optional(),
+  estimatedEndDate: z.string().datetime('Invalid date').optional(),
+});
+
+export const incidentIdSchema = z.object({
+  id: z.string().uuid('Invalid incident ID'),
+});
+
+export const incidentQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
+  limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 10),
+  // Comma separated, e.g. HIGH,URGENT
+  severity: z
+    .string()
+    .optional()
+    .transform((val) => (val ? val.split(',').map((item) => item.trim()) : undefined))
+    .pipe(z.array(z.nativeEnum(Priority)).optional()),
+  type: z.nativeEnum(IncidentType).optional(),
+  resolved: z.enum(['true', 'false']).optional().transform((val) =>
+    val === undefined ? undefined : val === 'true'
+  ),
+  vehicleId: z.string().uuid().optional(),
+  search: z.string().optional(),
+});
+
+export type ReportIncidentInput = z.infer<typeof reportIncidentSchema>;
+export type UpdateIncidentInput = z.infer<typeof updateIncidentSchema>;
+export type ResolveIncidentInput = z.infer<typeof resolveIncidentSchema>;
+export type EscalateIncidentInput = z.infer<typeof escalateIncidentSchema>;
+export type IncidentQueryInput = z.infer<typeof incidentQuerySchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+export const createLocationSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  address: z.string().optional(),
+  city: z.string().optional(),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  capacity: z.number().int().min(0).optional(),
+});
+
+export const updateLocationSchema = createLocationSchema.partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const locationIdSchema = z.object({
+  id: z.string().uuid('Invalid location ID'),
+});
+
+export const locationQuerySchema = z.object({
+  search: z.string().optional(),
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+export const locationSummaryQuerySchema = z
+  .object({
+    // Utilization period, the last 30 days by default
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+    message: 'End date must be after start date',
+    path: ['to'],
+  });
+
+export type CreateLocationInput = z.infer<typeof createLocationSchema>;
+export type UpdateLocationInput = z.infer<typeof updateLocationSchema>;
+export type LocationQueryInput = z.infer<typeof locationQuerySchema>;
+export type LocationSummaryQueryInput = z.infer<typeof locationSummaryQuerySchema>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+import { VehicleType } from '@prisma/client';
+
+const planFields = {
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  description: z.string().trim().max(500).optional(),
+  // Vehicles matching every criterion set; none set means the whole fleet
+  vehicleType: z.nativeEnum(VehicleType).nullable().optional(),
+  brand: z.string().trim().min(1).max(50).nullable().optional(),
+  model: z.string().trim().min(1).max(50).nullable().optional(),
+  intervalKm: z.number().int().min(500).max(200000).nullable().optional(),
+  intervalMonths: z.number().int().min(1).max(120).nullable().optional(),
+};
+
+export const createMaintenancePlanSchema = z
+  .object(planFields)
+  .refine((data) => data.intervalKm != null || data.intervalMonths != null, {
+    message: 'A plan needs a mileage interval, a time interval or both',
+    path: ['intervalKm'],
+  });
+
+export const updateMaintenancePlanSchema = z.object({
+  ...planFields,
+  name: planFields.name.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const maintenancePlanIdSchema = z.object({
+  id: z.string().uuid('Invalid maintenance plan ID'),
+});
+
+export const maintenancePlanQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+  vehicleType: z.nativeEnum(VehicleType).optional(),
+});
+
+export type CreateMaintenancePlanInput = z.infer<typeof createMaintenancePlanSchema>;
+export type UpdateMaintenancePlanInput = z.infer<typeof updateMaintenancePlanSchema>;
+export type MaintenancePlanQueryInput = z.infer<typeof maintenancePlanQuerySchema>;
@@ -1,32 +1,45 @@
 import { z } from 'zod';
 import { MaintenanceType, MaintenanceStatus } from '@prisma/client';
+import { consumedPartSchema } from './part.validator.js';
+
+// What to do with a reservation overlapping the maintenance window: move it
+// to an equivalent vehicle (the best available one unless given) or cancel it
+export const conflictResolutionSchema = z.object({
+  reservationId: z.string().uuid('Invalid reservation ID'),
+  action: z.enum(['REASSIGN', 'CANCEL']),
+  vehicleId: z.string().uuid('Invalid vehicle ID').optional(),
+});
 
 export const createMaintenanceSchema = z.object({
   vehicleId: z.string().uuid('Invalid vehicle ID'),
   type: z.nativeEnum(MaintenanceType),
   description: z.string().min(10, 'Description must be at least 10 characters'),
   scheduledDate: z.string().datetime('Invalid date'),
+  estimatedEndDate: z.string().datetime('Invalid date').optional(),
   estimatedCost: z.number().positive().optional(),
-  providerName: z.string().optional(),
-  providerContact: z.string().optional(),
+  // Garage the work is sent to
+  vendorId: z.string().uuid('Invalid vendor ID').optional(),
   notes: z.string().optional(),
+  // Preventive plan the maintenance is done under
+  planId: z.string().uuid('Invalid maintenance plan ID').optional(),
+  conflictResolutions: z.array(conflictResolutionSchema).optional(),
 });
 
+// Status changes go through start, complete and cancel, which check the
+// reservations and the vehicle
 export const updateMaintenanceSchema = z.object({
   type: z.nativeEnum(MaintenanceType).optional(),
   description: z.string().min(10).optional(),
   scheduledDate: z.string().datetime().optional(),
-  status: z.nativeEnum(MaintenanceStatus).optional(),
-  startDate: z.string().datetime().optional(),
-  completedDate: z.string().datetime().optional(),
+  estimatedEndDate: z.string().datetime().optional(),
   estimatedCost: z.number().positive().optional(),
-  actualCost: z.number().positive().optional(),
   mileageAtService: z.number().int().positive().optional(),
-  partsReplaced: z.array(z.string()).optional(),
-  providerName: z.string().optional(),
-  providerContact: z.string().optional(),
+  // Null to unlink the vendor
+  vendorId: z.string().uuid('Invalid vendor ID').nullable().optional(),
   invoiceNumber: z.string().optional(),
   notes: z.string().optional(),
+  // Needed when the new dates overlap reservations of the vehicle
+  conflictResolutions: z.array(conflictResolutionSchema).optional(),
 });
 
 export const maintenanceQuerySchema = z.object({
@@ -35,6 +48,7 @@ export const maintenanceQuerySchema = z.object({
   sortBy: z.string().optional(),
   sortOrder: z.enum(['asc', 'desc']).optional(),
   vehicleId: z.string().uuid().optional(),
+  vendorId: z.string().uuid().optional(),
   type: z.nativeEnum(MaintenanceType).optional(),
   status: z.nativeEnum(MaintenanceStatus).optional(),
   startDate: z.string().datetime().optional(),
@@ -45,19 +59,74 @@ export const maintenanceIdSchema = z.object({
   id: z.string().uuid('Invalid maintenance ID'),
 });
 
+export const maintenanceConflictQuerySchema = z.object({
+  vehicleId: z.string().uuid('Invalid vehicle ID'),
+  scheduledDate: z.string().datetime('Invalid date'),
+  estimatedEndDate: z.string().datetime('Invalid date').optional(),
+});
+
 export const startMaintenanceSchema = z.object({
   mileageAtService: z.number().int().positive().optional(),
   notes: z.string().optional(),
+  conflictResolutions: z.array(conflictResolutionSchema).optional(),
 });
 
-export const completeMaintenanceSchema = z.object({
-  actualCost: z.number().positive(),
-  mileageAtService: z.number().int().positive().optional(),
-  partsReplaced: z.array(z.string()).optional(),
-  invoiceNumber: z.string().optional(),
-  notes: z.string().optional(),
+const lineDescription = z.string().min(1).max(200);
+
+// Parts and consumables bought by the garage; parts taken from stock are
+// given in `parts` and priced at their catalogue cost
+const pricedLineFields = {
+  description: lineDescription,
+  quantity: z.number().positive(),
+  unitPrice: z.number().nonnegative(),
+};
+
+export const workOrderLineSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('LABOR'),
+    description: lineDescription,
+    hours: z.number().positive().max(1000),
+    // Defaults to the labour rate of the vendor's contract
+    hourlyRate: z.number().nonnegative().optional(),
+  }),
+  z.object({ type: z.literal('PART'), ...pricedLineFields }),
+  z.object({ type: z.literal('CONSUMABLE'), ...pricedLineFields }),
+  // Applied to the total of the other lines
+  z.object({
+    type: z.literal('TAX'),
+    description: lineDescription,
+    rate: z.number().positive().max(100),
+  }),
+]);
+
+export const completeMaintenanceSchema = z
+  .object({
+    // Work order lines, their total becomes the actual cost
+    lines: z.array(workOrderLineSchema).max(100).default([]),
+    mileageAtService: z.number().int().positive().optional(),
+    // Parts fitted, taken out of stock on completion
+    parts: z.array(consumedPartSchema).optional(),
+    invoiceNumber: z.string().optional(),
+    notes: z.string().optional(),
+  })
+  .refine(
+    (data) => data.lines.some((line) => line.type !== 'TAX') || (data.parts ?? []).length > 0,
+    {
+      message: 'The work order needs at least one labour, part or consumable line',
+      path: ['lines'],
+    }
+  );
+
+export const uploadInvoiceSchema = z.object({
+  invoiceNumber: z.string().min(1).max(100).optional(),
 });
 
 export type CreateMaintenanceInput = z.infer<typeof createMaintenanceSchema>;
 export type UpdateMaintenanceInput = z.infer<typeof updateMaintenanceSchema>;
 export type MaintenanceQueryInput = z.infer<typeof maintenanceQuerySchema>;
+export type MaintenanceConflictQueryInput = z.infer<typeof maintenanceConflictQuerySchema>;
+export type StartMaintenanceInput = z.infer<typeof startMaintenanceSchema>;
+export type CompleteMaintenanceInput = z.infer<typeof completeMaintenanceSchema>;
+export type WorkOrderLineInput = z.infer<typeof workOrderLineSchema>;
+export type UploadInvoiceInput = z.infer<typeof uploadInvoiceSchema>;
+export type ConflictResolutionInput = z.infer<typeof conflictResolutionSchema>;
@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+export const odometerReadingParamsSchema = z.object({
+  id: z.string().uuid('Invalid vehicle ID'),
+  readingId: z.string().uuid('Invalid reading ID'),
+});
+
+export const odometerQuerySchema = z.object({
+  page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
+  limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 20),
+  // Only readings flagged as an implausible jump
+  flagged: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+export const correctOdometerReadingSchema = z.object({
+  mileage: z.number().int().min(0, 'Mileage must be positive'),
+  reason: z.string().trim().min(5, 'A reason is required').max(500),
+});
+
+export type OdometerQueryInput = z.infer<typeof odometerQuerySchema>;
+export type CorrectOdometerReadingInput = z.infer<typeof correctOdometerReadingSchema>;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+const partFields = {
+  sku: z
+    .string()
+    .trim()
+    .min(2, 'SKU must be at least 2 characters')
+    .max(50)
+    .transform((val) => val.toUpperCase()),
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  description: z.string().trim().max(500).optional(),
+  // "Brand" or "Brand Model" entries; an empty list fits every vehicle
+  compatibleModels: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  unitCost: z.number().min(0),
+  reorderLevel: z.number().int().min(0).optional(),
+};
+
+export const createPartSchema = z.object(partFields);
+
+export const updatePartSchema = z.object(partFields).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const partIdSchema = z.object({
+  id: z.string().uuid('Invalid part ID'),
+});
+
+export const partQuerySchema = z.object({
+  search: z.string().optional(),
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+  // Only the parts fitting this vehicle
+  vehicleId: z.string().uuid('Invalid vehicle ID').optional(),
+});
+
+export const adjustStockSchema = z.object({
+  locationId: z.string().uuid('Invalid location ID'),
+  // Received parts are positive, corrections of a count may be negative
+  quantity: z
+    .number()
+    .int()
+    .refine((val) => val !== 0, 'Quantity must not be zero'),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// Part fitted when completing a maintenance, taken from the vehicle's
+// location unless another one is given
+export const consumedPartSchema = z.object({
+  partId: z.string().uuid('Invalid part ID'),
+  quantity: z.number().int().positive(),
+  locationId: z.string().uuid('Invalid location ID').optional(),
+});
+
+export type CreatePartInput = z.infer<typeof createPartSchema>;
+export type UpdatePartInput = z.infer<typeof updatePartSchema>;
+export type PartQueryInput = z.infer<typeof partQuerySchema>;
+export type AdjustStockInput = z.infer<typeof adjustStockSchema>;
+export type ConsumedPartInput = z.infer<typeof consumedPartSchema>;
@@ -1,8 +1,13 @@
 import { z } from 'zod';
-import { ReservationStatus } from '@prisma/client';
+import { FuelType, ReservationStatus, VehicleType } from '@prisma/client';
 
 export const createReservationSchema = z.object({
-  vehicleId: z.string().uuid('Invalid vehicle ID'),
+  // Either a concrete vehicle or a category for the allocator to pick from
+  vehicleId: z.string().uuid('Invalid vehicle ID').optional(),
+  vehicleType: z.nativeEnum(VehicleType).optional(),
+  minSeats: z.number().int().min(1).max(50).optional(),
+  fuelType: z.nativeEnum(FuelType).optional(),
+  pickupLocationId: z.string().uuid('Invalid location ID').optional(),
   startDate: z.string().datetime('Invalid start date'),
   endDate: z.string().datetime('Invalid end date'),
   purpose: z.string().min(10, 'Purpose must be at least 10 characters'),
@@ -20,8 +25,35 @@ export const createReservationSchema = z.object({
     message: 'End date must be after start date',
     path: ['endDate'],
   }
+).refine(
+  (data) => !!data.vehicleId || !!data.vehicleType,
+  {
+    message: 'Either a vehicle or a vehicle type is required',
+    path: ['vehicleId'],
+  }
+).refine(
+  (data) => !data.isRecurring || !!data.recurringPattern,
+  {
+    message: 'Recurrence pattern is required for recurring reservations',
+    path: ['recurringPattern'],
+  }
 );
 
+export const validateReservationSchema = z.object({
+  startDate: z.string().datetime('Invalid start date'),
+  endDate: z.string().datetime('Invalid end date'),
+  isRecurring: z.boolean().optional(),
+  recurringPattern: z.string().optional(),
+}).refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+);
+
+export const reservationScopeSchema = z.enum(['occurrence', 'series']);
+
 export const updateReservationSchema = z.object({
   vehicleId: z.string().uuid().optional(),
   startDate: z.string().datetime().optional(),
@@ -33,6 +65,7 @@ export const updateReservationSchema = z.object({
   needsDriver: z.boolean().optional(),
   driverId: z.string().uuid().optional(),
   notes: z.string().optional(),
+  scope: reservationScopeSchema.optional(),
 });
 
 export const reservationQuerySchema = z.object({
@@ -43,6 +76,7 @@ export const reservationQuerySchema = z.object({
   status: z.nativeEnum(ReservationStatus).optional(),
   vehicleId: z.string().uuid().optional(),
   userId: z.string().uuid().optional(),
+  departmentId: z.string().uuid().optional(),
   startDate: z.string().datetime().optional(),
   endDate: z.string().datetime().optional(),
   search: z.string().optional(),
@@ -72,14 +106,42 @@ export const checkOutSchema = z.object({
   feedback: z.string().optional(),
 });
 
+export const reassignVehicleSchema = z.object({
+  vehicleId: z.string().uuid('Invalid vehicle ID'),
+  comment: z.string().optional(),
+});
+
+export const swapVehicleSchema = z.object({
+  // Odometer of the broken-down vehicle when it is left
+  mileage: z.number().int().min(0),
+  reason: z.string().min(5, 'Breakdown description is required'),
+  // Defaults to the first available vehicle of the same type
+  vehicleId: z.string().uuid('Invalid vehicle ID').optional(),
+});
+
+export const extendReservationSchema = z.object({
+  endDate: z.string().datetime('Invalid end date'),
+  reason: z.string().min(5, 'Extension reason is required'),
+});
+
+export const extensionDecisionSchema = z.object({
+  comment: z.string().optional(),
+});
+
 export const cancelReservationSchema = z.object({
   reason: z.string().min(5, 'Cancellation reason is required'),
+  scope: reservationScopeSchema.optional(),
 });
 
 export type CreateReservationInput = z.infer<typeof createReservationSchema>;
+export type ValidateReservationInput = z.infer<typeof validateReservationSchema>;
 export type UpdateReservationInput = z.infer<typeof updateReservationSchema>;
 export type ReservationQueryInput = z.infer<typeof reservationQuerySchema>;
 export type ApproveReservationInput = z.infer<typeof approveReservationSchema>;
 export type RejectReservationInput = z.infer<typeof rejectReservationSchema>;
 export type CheckInInput = z.infer<typeof checkInSchema>;
 export type CheckOutInput = z.infer<typeof checkOutSchema>;
+export type ReassignVehicleInput = z.infer<typeof reassignVehicleSchema>;
+export type SwapVehicleInput = z.infer<typeof swapVehicleSchema>;
+export type ExtendReservationInput = z.infer<typeof extendReservationSchema>;
+export type ReservationScope = z.infer<typeof reservationScopeSchema>;
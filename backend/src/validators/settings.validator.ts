@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// Values are checked against each key's own schema by the settings service
+export const updateSettingsSchema = z
+  .record(z.unknown())
+  .refine((values) => Object.keys(values).length > 0, 'At least one setting is required');
+
+export const settingKeySchema = z.object({
+  key: z.string().min(1, 'Setting key is required'),
+});
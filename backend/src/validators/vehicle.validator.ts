@@ -3,6 +3,7 @@ import { VehicleStatus, VehicleType, FuelType, Transmission } from '@prisma/clie
 
 export const createVehicleSchema = z.object({
   registrationNumber: z.string().min(1, 'Registration number is required'),
+  vin: z.string().length(17, 'VIN must be 17 characters').optional(),
   brand: z.string().min(1, 'Brand is required'),
   model: z.string().min(1, 'Model is required'),
   year: z.number().int().min(1900).max(new Date().getFullYear() + 1),
@@ -17,6 +18,8 @@ export const createVehicleSchema = z.object({
   horsePower: z.number().int().positive().optional(),
   currentMileage: z.number().int().min(0).optional(),
   fuelConsumption: z.number().positive().optional(),
+  // Litres, refuels above it are flagged
+  tankCapacity: z.number().positive().max(1000).optional(),
   insuranceExpiry: z.string().datetime().optional(),
   technicalInspectionExpiry: z.string().datetime().optional(),
   locationId: z.string().uuid().optional(),
@@ -55,8 +58,53 @@ export const updateMileageSchema = z.object({
 export const updateStatusSchema = z.object({
   status: z.nativeEnum(VehicleStatus),
   reason: z.string().optional(),
+  // Only used with OUT_OF_SERVICE; the vehicle stays blocked indefinitely without it
+  until: z.string().datetime().optional(),
+});
+
+export const availableVehiclesQuerySchema = z
+  .object({
+    startDate: z.string().datetime('Invalid start date'),
+    endDate: z.string().datetime('Invalid end date'),
+    type: z.nativeEnum(VehicleType).optional(),
+    locationId: z.string().uuid().optional(),
+  })
+  .refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  });
+
+export const vehicleQrQuerySchema = z.object({
+  format: z.enum(['png', 'svg']).default('png'),
+  size: z.coerce.number().int().min(100).max(1200).default(300),
+});
+
+export const qrStickerSheetQuerySchema = z.object({
+  type: z.nativeEnum(VehicleType).optional(),
+  locationId: z.string().uuid().optional(),
+});
+
+export const vehicleExportQuerySchema = vehicleQuerySchema
+  .omit({ page: true, limit: true })
+  .extend({
+    format: z.enum(['csv', 'xlsx']).default('csv'),
+  });
+
+export const vehicleImportQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+  // Rows whose registration number already exists update that vehicle
+  // instead of being rejected as duplicates
+  updateExisting: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+export const qrCodeParamSchema = z.object({
+  qrCode: z.string().min(1, 'QR code is required'),
 });
 
 export type CreateVehicleInput = z.infer<typeof createVehicleSchema>;
 export type UpdateVehicleInput = z.infer<typeof updateVehicleSchema>;
 export type VehicleQueryInput = z.infer<typeof vehicleQuerySchema>;
+export type VehicleQrQueryInput = z.infer<typeof vehicleQrQuerySchema>;
+export type QrStickerSheetQueryInput = z.infer<typeof qrStickerSheetQuerySchema>;
+export type VehicleExportQueryInput = z.infer<typeof vehicleExportQuerySchema>;
+export type VehicleImportQueryInput = z.infer<typeof vehicleImportQuerySchema>;
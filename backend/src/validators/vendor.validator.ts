@@ -0,0 +1,66 @@
+import { z } from 'zod';
+
+const vendorContactSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  role: z.string().trim().max(100).optional(),
+  phone: z.string().trim().max(30).optional(),
+  email: z.string().email('Invalid email').optional(),
+  isPrimary: z.boolean().optional(),
+});
+
+const vendorFields = {
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(100),
+  specialties: z.array(z.string().trim().min(1).max(100)).max(20).optional(),
+  phone: z.string().trim().max(30).optional(),
+  email: z.string().email('Invalid email').optional(),
+  address: z.string().trim().max(255).optional(),
+  // Hourly labour rate agreed in the contract
+  laborRate: z.number().min(0).nullable().optional(),
+  contractRef: z.string().trim().max(100).nullable().optional(),
+  contractEndDate: z.string().datetime('Invalid date').nullable().optional(),
+  notes: z.string().max(1000).optional(),
+  // Replace the vendor's contacts and served locations when given
+  contacts: z
+    .array(vendorContactSchema)
+    .max(20)
+    .refine(
+      (contacts) => contacts.filter((contact) => contact.isPrimary).length <= 1,
+      'Only one contact can be the primary contact'
+    )
+    .optional(),
+  locationIds: z.array(z.string().uuid('Invalid location ID')).optional(),
+};
+
+export const createVendorSchema = z.object(vendorFields);
+
+export const updateVendorSchema = z.object(vendorFields).partial().extend({
+  isActive: z.boolean().optional(),
+});
+
+export const vendorIdSchema = z.object({
+  id: z.string().uuid('Invalid vendor ID'),
+});
+
+export const vendorQuerySchema = z.object({
+  search: z.string().optional(),
+  specialty: z.string().optional(),
+  // Only the vendors serving this location
+  locationId: z.string().uuid('Invalid location ID').optional(),
+  includeInactive: z.enum(['true', 'false']).optional().transform((val) => val === 'true'),
+});
+
+export const vendorReportQuerySchema = z
+  .object({
+    // Maintenances completed in this period, the last 12 months by default
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+  })
+  .refine((data) => !data.from || !data.to || new Date(data.to) > new Date(data.from), {
+    message: 'End date must be after start date',
+    path: ['to'],
+  });
+
+export type CreateVendorInput = z.infer<typeof createVendorSchema>;
+export type UpdateVendorInput = z.infer<typeof updateVendorSchema>;
+export type VendorQueryInput = z.infer<typeof vendorQuerySchema>;
+export type VendorReportQueryInput = z.infer<typeof vendorReportQuerySchema>;
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { VehicleType, WaitlistStatus } from '@prisma/client';
+
+export const joinWaitlistSchema = z.object({
+  // Either a specific vehicle or any vehicle of a type
+  vehicleId: z.string().uuid('Invalid vehicle ID').optional(),
+  vehicleType: z.nativeEnum(VehicleType).optional(),
+  startDate: z.string().datetime('Invalid start date'),
+  endDate: z.string().datetime('Invalid end date'),
+  purpose: z.string().min(10, 'Purpose must be at least 10 characters'),
+  destination: z.string().min(3, 'Destination is required'),
+  passengerCount: z.number().int().min(1).max(50).optional(),
+}).refine(
+  (data) => new Date(data.endDate) > new Date(data.startDate),
+  {
+    message: 'End date must be after start date',
+    path: ['endDate'],
+  }
+).refine(
+  (data) => !!data.vehicleId !== !!data.vehicleType,
+  {
+    message: 'Either a vehicle or a vehicle type is required',
+    path: ['vehicleId'],
+  }
+);
+
+export const waitlistQuerySchema = z.object({
+  status: z.nativeEnum(WaitlistStatus).optional(),
+});
+
+export const waitlistEntryIdSchema = z.object({
+  id: z.string().uuid('Invalid waitlist entry ID'),
+});
+
+export type JoinWaitlistInput = z.infer<typeof joinWaitlistSchema>;
+export type WaitlistQueryInput = z.infer<typeof waitlistQuerySchema>;
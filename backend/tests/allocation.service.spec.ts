@@ -0,0 +1,69 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  vehicle: {
+    findMany: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const allocationService = await import('../src/services/allocation.service.js');
+
+function makeVehicle(id: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    type: 'SEDAN',
+    seats: 5,
+    fuelType: 'DIESEL',
+    locationId: 'loc-1',
+    currentMileage: 20000,
+    ...overrides,
+  } as never;
+}
+
+describe('allocation.service > rankCandidates', () => {
+  const criteria = { vehicleType: 'SEDAN' as const, minSeats: 5, pickupLocationId: 'loc-2' };
+
+  it('filters on type, seats and fuel type', () => {
+    const ranked = allocationService.rankCandidates(
+      [
+        makeVehicle('suv', { type: 'SUV' }),
+        makeVehicle('small', { seats: 4 }),
+        makeVehicle('petrol', { fuelType: 'GASOLINE' }),
+        makeVehicle('match'),
+      ],
+      { ...criteria, fuelType: 'DIESEL' },
+      new Set()
+    );
+
+    expect(ranked.map((candidate) => candidate.vehicle.id)).toEqual(['match']);
+  });
+
+  it('avoids service-due vehicles, then prefers the pickup location, then the lowest mileage', () => {
+    const ranked = allocationService.rankCandidates(
+      [
+        makeVehicle('due', { currentMileage: 5000 }),
+        makeVehicle('elsewhere-low', { currentMileage: 19000 }),
+        makeVehicle('pickup-high', { locationId: 'loc-2', currentMileage: 25000 }),
+        makeVehicle('pickup-low', { locationId: 'loc-2', currentMileage: 21000 }),
+      ],
+      criteria,
+      new Set(['due'])
+    );
+
+    expect(ranked.map((candidate) => candidate.vehicle.id)).toEqual([
+      'pickup-low',
+      'pickup-high',
+      'elsewhere-low',
+      'due',
+    ]);
+    expect(ranked[3]!.serviceDue).toBe(true);
+  });
+});
@@ -14,6 +14,9 @@ const prismaMock = {
   auditLog: {
     create: jest.fn(),
   },
+  setting: {
+    findUnique: jest.fn(),
+  },
 };
 
 jest.unstable_mockModule('../src/config/prisma.js', () => ({
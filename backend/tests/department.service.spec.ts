@@ -0,0 +1,247 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  department: {
+    findUnique: jest.fn(),
+    findFirst: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  user: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  reservation: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  reservationHistory: {
+    create: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+const createNotificationMock = jest.fn();
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/notification.service.js', () => ({
+  createNotification: createNotificationMock,
+}));
+
+jest.unstable_mockModule('../src/services/reservation.service.js', () => ({
+  getReservations: jest.fn(),
+}));
+
+const departmentService = await import('../src/services/department.service.js');
+const { BadRequestError, ForbiddenError } = await import('../src/utils/errors.js');
+
+const finance = {
+  id: 'dept-fin',
+  name: 'Finances',
+  code: 'FIN',
+  description: null,
+  managerId: 'manager-1',
+  isActive: true,
+  _count: { users: 2 },
+};
+
+beforeEach(() => {
+  prismaMock.$transaction.mockImplementation(
+    async (fn: unknown) => (fn as (tx: typeof prismaMock) => Promise<unknown>)(prismaMock)
+  );
+  prismaMock.department.findUnique.mockResolvedValue(finance);
+  prismaMock.department.findFirst.mockResolvedValue(null);
+  prismaMock.reservation.count.mockResolvedValue(0);
+  prismaMock.user.findMany.mockResolvedValue([]);
+});
+
+describe('department.service > updateDepartment', () => {
+  it('rejects a manager who is not a member of the department', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({ departmentId: 'dept-rh', isActive: true });
+
+    await expect(
+      departmentService.updateDepartment('dept-fin', { managerId: 'user-9' }, 'admin-1')
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.department.update).not.toHaveBeenCalled();
+  });
+
+  it('rejects a manager below the MANAGER role', async () => {
+    prismaMock.user.findUnique.mockResolvedValue({
+      departmentId: 'dept-fin',
+      isActive: true,
+      role: 'EMPLOYEE',
+    });
+
+    await expect(
+      departmentService.updateDepartment('dept-fin', { managerId: 'user-2' }, 'admin-1')
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.department.update).not.toHaveBeenCalled();
+  });
+
+  it('keeps the manager while reservations wait for their approval', async () => {
+    prismaMock.reservation.count.mockResolvedValue(2);
+
+    await expect(
+      departmentService.updateDepartment('dept-fin', { managerId: null }, 'admin-1')
+    ).rejects.toMatchObject({ code: 'DEPARTMENT_HAS_PENDING_APPROVALS' });
+    expect(prismaMock.department.update).not.toHaveBeenCalled();
+
+    // Renaming the department leaves them alone
+    prismaMock.department.update.mockResolvedValue(finance);
+    await departmentService.updateDepartment('dept-fin', { name: 'Finance' }, 'admin-1');
+    expect(prismaMock.department.update).toHaveBeenCalled();
+  });
+});
+
+describe('department.service > releaseDepartmentManagement', () => {
+  it('passes the approvals waiting for the manager to the next step', async () => {
+    prismaMock.department.findMany.mockResolvedValue([{ id: 'dept-fin' }]);
+    prismaMock.reservation.findMany.mockResolvedValue([
+      {
+        id: 'res-1',
+        referenceNumber: 'RES-001',
+        approvalChain: ['DEPARTMENT_MANAGER', 'FLEET_ADMIN'],
+      },
+      { id: 'res-2', referenceNumber: 'RES-002', approvalChain: ['DEPARTMENT_MANAGER'] },
+    ]);
+    prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+
+    await departmentService.releaseDepartmentManagement('manager-1', 'dept-rh');
+
+    expect(prismaMock.department.findMany).toHaveBeenCalledWith({
+      where: { managerId: 'manager-1', id: { not: 'dept-rh' } },
+      select: { id: true },
+    });
+    expect(prismaMock.department.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['dept-fin'] } },
+      data: { managerId: null },
+    });
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith({
+      where: { id: 'res-1' },
+      data: { approvalStep: 'FLEET_ADMIN' },
+    });
+    // A reservation always keeps an approver
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith({
+      where: { id: 'res-2' },
+      data: {
+        approvalStep: 'FLEET_ADMIN',
+        approvalChain: ['DEPARTMENT_MANAGER', 'FLEET_ADMIN'],
+      },
+    });
+    expect(createNotificationMock).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('department.service > deactivateDepartment', () => {
+  const members = [
+    { id: 'manager-1', isActive: true },
+    { id: 'user-2', isActive: false },
+  ];
+
+  it('requires a target department while members remain', async () => {
+    prismaMock.user.findMany.mockResolvedValue(members);
+
+    await expect(
+      departmentService.deactivateDepartment('dept-fin', {}, 'admin-1')
+    ).rejects.toMatchObject({ statusCode: 409, code: 'DEPARTMENT_HAS_MEMBERS' });
+  });
+
+  it('refuses while reservations wait for the manager', async () => {
+    prismaMock.reservation.count.mockResolvedValue(1);
+
+    await expect(
+      departmentService.deactivateDepartment('dept-fin', { reassignToId: 'dept-rh' }, 'admin-1')
+    ).rejects.toMatchObject({ code: 'DEPARTMENT_HAS_PENDING_APPROVALS' });
+  });
+
+  it('moves the members and clears the manager', async () => {
+    prismaMock.user.findMany.mockResolvedValue(members);
+    prismaMock.department.findFirst.mockResolvedValue({ id: 'dept-rh', name: 'Ressources' });
+
+    const result = await departmentService.deactivateDepartment(
+      'dept-fin',
+      { reassignToId: 'dept-rh' },
+      'admin-1'
+    );
+
+    expect(result).toEqual({ reassignedUsers: 2 });
+    expect(prismaMock.user.updateMany).toHaveBeenCalledWith({
+      where: { departmentId: 'dept-fin' },
+      data: { departmentId: 'dept-rh' },
+    });
+    expect(prismaMock.department.update).toHaveBeenCalledWith({
+      where: { id: 'dept-fin' },
+      data: { isActive: false, managerId: null },
+    });
+    // Only active members are told about the move
+    expect(createNotificationMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('department.service > getDepartmentSpend', () => {
+  it('is limited to the department manager', async () => {
+    await expect(
+      departmentService.getDepartmentSpend('dept-fin', {}, { id: 'user-2', role: 'MANAGER' })
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('splits spent and committed costs by month and user', async () => {
+    prismaMock.reservation.findMany.mockResolvedValue([
+      {
+        userId: 'user-2',
+        status: 'COMPLETED',
+        startDate: new Date('2026-02-10T08:00:00Z'),
+        estimatedCost: 40000,
+        actualCost: 45000,
+        actualMileage: 120,
+        user: { firstName: 'Afi', lastName: 'Mensah' },
+      },
+      {
+        userId: 'manager-1',
+        status: 'APPROVED',
+        startDate: new Date('2026-03-02T08:00:00Z'),
+        estimatedCost: 30000,
+        actualCost: null,
+        actualMileage: null,
+        user: { firstName: 'Kodjo', lastName: 'Amega' },
+      },
+    ]);
+
+    const spend = await departmentService.getDepartmentSpend(
+      'dept-fin',
+      { from: '2026-01-01T00:00:00.000Z', to: '2026-04-01T00:00:00.000Z' },
+      { id: 'manager-1', role: 'EMPLOYEE' }
+    );
+
+    expect(spend).toMatchObject({
+      reservationCount: 2,
+      completedCount: 1,
+      spent: 45000,
+      committed: 30000,
+      distance: 120,
+      byMonth: [
+        { month: '2026-02', spent: 45000, reservations: 1 },
+        { month: '2026-03', spent: 0, reservations: 1 },
+      ],
+    });
+    expect(spend.byUser[0]).toEqual({
+      userId: 'user-2',
+      name: 'Afi Mensah',
+      spent: 45000,
+      reservations: 1,
+    });
+  });
+});
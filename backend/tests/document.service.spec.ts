@@ -0,0 +1,158 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  vehicle: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  document: {
+    create: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+const unlinkMock = jest.fn<(path: string) => Promise<void>>();
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('fs/promises', () => ({
+  default: { unlink: unlinkMock },
+}));
+
+const documentService = await import('../src/services/document.service.js');
+const { ConflictError, NotFoundError } = await import('../src/utils/errors.js');
+
+const file = {
+  filename: 'abc.pdf',
+  originalname: 'attestation-assurance.pdf',
+  mimetype: 'application/pdf',
+  size: 2048,
+};
+
+function makeDocument(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'doc-1',
+    vehicleId: 'vehicle-1',
+    type: 'INSURANCE',
+    name: 'attestation-assurance.pdf',
+    url: '/uploads/abc.pdf',
+    expiryDate: new Date('2027-01-31T00:00:00Z'),
+    notes: null,
+    version: 1,
+    previousVersionId: null,
+    nextVersion: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  prismaMock.$transaction.mockImplementation(
+    async (fn: unknown) => (fn as (tx: typeof prismaMock) => Promise<unknown>)(prismaMock)
+  );
+  prismaMock.vehicle.findUnique.mockResolvedValue({ id: 'vehicle-1' });
+  prismaMock.document.create.mockImplementation(async (args: unknown) => ({
+    id: 'doc-new',
+    ...(args as { data: object }).data,
+  }));
+  unlinkMock.mockResolvedValue(undefined);
+});
+
+describe('document.service > uploadVehicleDocument', () => {
+  it('stores the file and copies an insurance expiry to the vehicle', async () => {
+    const document = await documentService.uploadVehicleDocument(
+      'vehicle-1',
+      file,
+      { type: 'INSURANCE', expiryDate: '2027-01-31T00:00:00.000Z' },
+      'manager-1'
+    );
+
+    expect(document).toMatchObject({
+      name: 'attestation-assurance.pdf',
+      url: '/uploads/abc.pdf',
+      uploadedById: 'manager-1',
+    });
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith({
+      where: { id: 'vehicle-1' },
+      data: { insuranceExpiry: new Date('2027-01-31T00:00:00.000Z') },
+    });
+    expect(prismaMock.auditLog.create).toHaveBeenCalled();
+  });
+
+  it('rejects an unknown vehicle', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(null);
+
+    await expect(
+      documentService.uploadVehicleDocument('vehicle-x', file, { type: 'OTHER' }, 'manager-1')
+    ).rejects.toThrow(NotFoundError);
+    expect(prismaMock.document.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('document.service > addDocumentVersion', () => {
+  it('creates the next version linked to the current one', async () => {
+    prismaMock.document.findFirst.mockResolvedValue(makeDocument({ version: 2 }));
+
+    const document = await documentService.addDocumentVersion(
+      'vehicle-1',
+      'doc-1',
+      { ...file, filename: 'def.pdf' },
+      { expiryDate: '2028-01-31T00:00:00.000Z' },
+      'manager-1'
+    );
+
+    expect(document).toMatchObject({
+      type: 'INSURANCE',
+      version: 3,
+      previousVersionId: 'doc-1',
+      url: '/uploads/def.pdf',
+    });
+  });
+
+  it('refuses to replace a version that is no longer current', async () => {
+    prismaMock.document.findFirst.mockResolvedValue(
+      makeDocument({ nextVersion: { id: 'doc-2' } })
+    );
+
+    await expect(
+      documentService.addDocumentVersion('vehicle-1', 'doc-1', file, {}, 'manager-1')
+    ).rejects.toThrow(ConflictError);
+  });
+});
+
+describe('document.service > deleteDocument', () => {
+  it('deletes every version and their files', async () => {
+    const current = makeDocument({
+      id: 'doc-2',
+      version: 2,
+      previousVersionId: 'doc-1',
+      url: '/uploads/def.pdf',
+    });
+    prismaMock.document.findFirst.mockResolvedValue(current);
+    prismaMock.document.findUnique.mockResolvedValueOnce(makeDocument());
+
+    await documentService.deleteDocument('vehicle-1', 'doc-2', 'admin-1');
+
+    expect(prismaMock.document.deleteMany).toHaveBeenCalledWith({
+      where: { id: { in: ['doc-2', 'doc-1'] } },
+    });
+    expect(unlinkMock).toHaveBeenCalledTimes(2);
+    expect(unlinkMock.mock.calls.map(([path]) => path.split(/[\\/]/).pop())).toEqual([
+      'def.pdf',
+      'abc.pdf',
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  fuelLog: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+    count: jest.fn(),
+  },
+  reservation: {
+    findUnique: jest.fn(),
+  },
+  vehicle: {
+    findUnique: jest.fn(),
+  },
+  user: {
+    findMany: jest.fn(),
+  },
+  setting: {
+    findUnique: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/notification.service.js', () => ({
+  createNotification: jest.fn(),
+}));
+
+const fuelService = await import('../src/services/fuel.service.js');
+const { BadRequestError, ForbiddenError } = await import('../src/utils/errors.js');
+const { clearSettingsCache } = await import('../src/services/settings.service.js');
+const { createNotification } = await import('../src/services/notification.service.js');
+
+const vehicle = {
+  id: 'vehicle-1',
+  brand: 'Toyota',
+  model: 'Hilux',
+  registrationNumber: 'TG-1234-AB',
+  fuelType: 'DIESEL',
+  fuelConsumption: 8,
+  tankCapacity: 80,
+};
+
+function makeReservation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'res-1',
+    userId: 'user-1',
+    driverId: null,
+    vehicleId: 'vehicle-1',
+    status: 'IN_PROGRESS',
+    segments: [],
+    ...overrides,
+  };
+}
+
+const refuel = {
+  reservationId: 'res-1',
+  liters: 40,
+  mileage: 10500,
+  isFullTank: true,
+};
+
+beforeEach(() => {
+  clearSettingsCache();
+  prismaMock.setting.findUnique.mockResolvedValue(null);
+  prismaMock.vehicle.findUnique.mockResolvedValue(vehicle);
+  prismaMock.reservation.findUnique.mockResolvedValue(makeReservation());
+  prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+  prismaMock.fuelLog.findMany.mockResolvedValue([]);
+  prismaMock.fuelLog.create.mockImplementation(async (args: unknown) => ({
+    id: 'fuel-new',
+    ...(args as { data: object }).data,
+  }));
+});
+
+describe('fuel.service > analyseRefuel', () => {
+  const rated = { fuelConsumption: 8, tankCapacity: 80 };
+
+  it('measures L/100 km since the previous full tank', () => {
+    const analysis = fuelService.analyseRefuel(
+      { liters: 40, mileage: 10500, isFullTank: true },
+      [{ liters: 60, mileage: 10000, isFullTank: true }],
+      rated,
+      25
+    );
+
+    expect(analysis).toEqual({ distance: 500, consumption: 8, anomalies: [] });
+  });
+
+  it('adds the partial refuels made in between', () => {
+    const analysis = fuelService.analyseRefuel(
+      { liters: 30, mileage: 10500, isFullTank: true },
+      [
+        { liters: 60, mileage: 10000, isFullTank: true },
+        { liters: 15, mileage: 10200, isFullTank: false },
+      ],
+      rated,
+      25
+    );
+
+    expect(analysis.consumption).toBe(9);
+  });
+
+  it('does not measure partial refuels or the first full tank', () => {
+    expect(
+      fuelService.analyseRefuel(
+        { liters: 20, mileage: 10500, isFullTank: false },
+        [{ liters: 60, mileage: 10000, isFullTank: true }],
+        rated,
+        25
+      ).consumption
+    ).toBeNull();
+    expect(
+      fuelService.analyseRefuel({ liters: 60, mileage: 10000, isFullTank: true }, [], rated, 25)
+        .consumption
+    ).toBeNull();
+  });
+
+  it('flags consumption outside the tolerance and fills above the tank', () => {
+    const previous = [{ liters: 60, mileage: 10000, isFullTank: true }];
+
+    expect(
+      fuelService.analyseRefuel(
+        { liters: 85, mileage: 10500, isFullTank: true },
+        previous,
+        rated,
+        25
+      ).anomalies
+    ).toEqual(['OVER_CAPACITY', 'HIGH_CONSUMPTION']);
+    expect(
+      fuelService.analyseRefuel(
+        { liters: 25, mileage: 10500, isFullTank: true },
+        previous,
+        rated,
+        25
+      ).anomalies
+    ).toEqual(['LOW_CONSUMPTION']);
+  });
+});
+
+describe('fuel.service > createFuelLog', () => {
+  it('records the refuel on the trip vehicle with its consumption', async () => {
+    prismaMock.fuelLog.findMany.mockResolvedValue([
+      { liters: 60, mileage: 10000, isFullTank: true },
+    ]);
+
+    await fuelService.createFuelLog(refuel, '/uploads/receipt.jpg', 'user-1', 'EMPLOYEE');
+
+    expect(prismaMock.fuelLog.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          vehicleId: 'vehicle-1',
+          userId: 'user-1',
+          receiptUrl: '/uploads/receipt.jpg',
+          distance: 500,
+          consumption: 8,
+          anomalies: [],
+        }),
+      })
+    );
+    expect(createNotification).not.toHaveBeenCalled();
+  });
+
+  it('notifies fleet admins of anomalies', async () => {
+    await fuelService.createFuelLog({ ...refuel, liters: 95 }, undefined, 'user-1', 'EMPLOYEE');
+
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', entityId: 'vehicle-1' })
+    );
+  });
+
+  it('refuses refuels on somebody else reservation', async () => {
+    await expect(
+      fuelService.createFuelLog(refuel, undefined, 'user-2', 'EMPLOYEE')
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('only lets fleet staff record a refuel without a reservation', async () => {
+    const direct = { vehicleId: 'vehicle-1', liters: 40, mileage: 10500, isFullTank: true };
+
+    await expect(
+      fuelService.createFuelLog(direct, undefined, 'user-1', 'DRIVER')
+    ).rejects.toThrow(ForbiddenError);
+    await expect(
+      fuelService.createFuelLog(direct, undefined, 'manager-1', 'MANAGER')
+    ).resolves.toBeDefined();
+  });
+
+  it('refuses a vehicle that was not used on the trip', async () => {
+    await expect(
+      fuelService.createFuelLog(
+        { ...refuel, vehicleId: 'vehicle-2' },
+        undefined,
+        'user-1',
+        'EMPLOYEE'
+      )
+    ).rejects.toThrow(BadRequestError);
+  });
+
+  it('refuses an odometer reading not above the previous refuel', async () => {
+    prismaMock.fuelLog.findMany.mockResolvedValue([
+      { liters: 60, mileage: 10500, isFullTank: true },
+    ]);
+
+    await expect(
+      fuelService.createFuelLog(refuel, undefined, 'user-1', 'EMPLOYEE')
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.fuelLog.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('fuel.service > getVehicleFuelSummary', () => {
+  it('weighs the measured intervals by distance', async () => {
+    prismaMock.fuelLog.findMany.mockResolvedValue([
+      { liters: 60, amount: 45000, distance: null, consumption: null, anomalies: [] },
+      { liters: 40, amount: 30000, distance: 500, consumption: 8, anomalies: [] },
+      {
+        liters: 15,
+        amount: null,
+        distance: 100,
+        consumption: 15,
+        anomalies: ['HIGH_CONSUMPTION'],
+      },
+    ]);
+
+    const summary = await fuelService.getVehicleFuelSummary({
+      id: 'vehicle-1',
+      fuelConsumption: 8,
+    });
+
+    expect(summary).toEqual({
+      refuelCount: 3,
+      totalLiters: 115,
+      totalCost: 75000,
+      averageConsumption: 9.2,
+      ratedConsumption: 8,
+      deviationPercent: 15,
+      anomalyCount: 1,
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  holiday: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  setting: {
+    findUnique: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const holidayService = await import('../src/services/holiday.service.js');
+const { clearSettingsCache } = await import('../src/services/settings.service.js');
+
+function makeHoliday(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'holiday-1',
+    name: 'Fete de l\'Independance',
+    date: new Date('2020-04-27T00:00:00Z'),
+    isRecurring: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const ics = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20260427',
+  'SUMMARY:Independance',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20260501',
+  'SUMMARY:Fete du Travail',
+  'RRULE:FREQ=YEARLY',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20260501',
+  'SUMMARY:Fete du Travail',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+beforeEach(() => {
+  clearSettingsCache();
+  prismaMock.$transaction.mockImplementation(
+    async (fn: unknown) => (fn as (tx: typeof prismaMock) => Promise<unknown>)(prismaMock)
+  );
+  prismaMock.holiday.findMany.mockResolvedValue([]);
+  prismaMock.setting.findUnique.mockResolvedValue(null);
+  prismaMock.holiday.create.mockImplementation(async (args: unknown) => ({
+    id: 'holiday-new',
+    ...(args as { data: object }).data,
+  }));
+});
+
+describe('holiday.service > expandHolidays', () => {
+  it('repeats recurring holidays every year and keeps one-off holidays on their date', () => {
+    const occurrences = holidayService.expandHolidays(
+      [
+        makeHoliday(),
+        makeHoliday({
+          id: 'holiday-2',
+          name: 'Tabaski',
+          date: new Date('2026-05-27T00:00:00Z'),
+          isRecurring: false,
+        }),
+        makeHoliday({
+          id: 'holiday-3',
+          name: 'Bissextile',
+          date: new Date('2024-02-29T00:00:00Z'),
+        }),
+      ],
+      new Date('2026-01-01T00:00:00Z'),
+      new Date('2028-12-31T00:00:00Z')
+    );
+
+    expect(occurrences.map((o) => `${o.date} ${o.name}`)).toEqual([
+      '2026-04-27 Fete de l\'Independance',
+      '2026-05-27 Tabaski',
+      '2027-04-27 Fete de l\'Independance',
+      '2028-02-29 Bissextile',
+      '2028-04-27 Fete de l\'Independance',
+    ]);
+  });
+});
+
+describe('holiday.service > createHoliday', () => {
+  it('refuses a day already closed by a recurring holiday', async () => {
+    prismaMock.holiday.findMany.mockResolvedValue([makeHoliday()]);
+
+    await expect(
+      holidayService.createHoliday(
+        { name: 'Independance', date: '2027-04-27', isRecurring: false },
+        'admin-1'
+      )
+    ).rejects.toMatchObject({ statusCode: 409, code: 'HOLIDAY_EXISTS' });
+    expect(prismaMock.holiday.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('holiday.service > getHolidayCalendar', () => {
+  it('tells whether holidays and weekends are closed to the role', async () => {
+    prismaMock.holiday.findMany.mockResolvedValue([makeHoliday()]);
+    prismaMock.setting.findUnique.mockResolvedValue({
+      key: 'booking.policy',
+      value: { weekendRoles: ['ADMIN'] },
+    });
+
+    const calendar = await holidayService.getHolidayCalendar(
+      { from: '2026-04-01', to: '2026-04-30' },
+      'EMPLOYEE'
+    );
+
+    expect(calendar).toEqual({
+      from: '2026-04-01',
+      to: '2026-04-30',
+      blocksReservations: true,
+      weekendsClosed: true,
+      holidays: [expect.objectContaining({ date: '2026-04-27', holidayId: 'holiday-1' })],
+    });
+  });
+});
+
+describe('holiday.service > importHolidays', () => {
+  const file = { buffer: Buffer.from(ics), originalname: 'togo.ics' };
+
+  it('previews the import without writing', async () => {
+    prismaMock.holiday.findMany.mockResolvedValue([makeHoliday()]);
+
+    const result = await holidayService.importHolidays(file, { dryRun: true }, 'admin-1');
+
+    expect(result).toMatchObject({ total: 3, created: 1, duplicates: 2, skipped: 0 });
+    expect(result.holidays.map((h) => h.duplicate)).toEqual([true, false, true]);
+    expect(prismaMock.holiday.create).not.toHaveBeenCalled();
+  });
+
+  it('creates the new holidays with an audit entry each', async () => {
+    const result = await holidayService.importHolidays(file, { dryRun: false }, 'admin-1');
+
+    expect(result.created).toBe(2);
+    expect(prismaMock.holiday.create).toHaveBeenCalledWith({
+      data: {
+        name: 'Fete du Travail',
+        date: new Date('2026-05-01T00:00:00Z'),
+        isRecurring: true,
+      },
+    });
+    expect(prismaMock.auditLog.create).toHaveBeenCalledTimes(2);
+  });
+});
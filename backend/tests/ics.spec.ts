@@ -0,0 +1,65 @@
+import { parseIcsHolidays } from '../src/utils/ics.js';
+import { BadRequestError } from '../src/utils/errors.js';
+
+function calendar(...events: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+}
+
+describe('ics > parseIcsHolidays', () => {
+  it('rejects a file that is not an iCalendar', () => {
+    expect(() => parseIcsHolidays('name,date\nNoel,2026-12-25')).toThrow(BadRequestError);
+  });
+
+  it('reads date and date-time starts, folded summaries and yearly rules', () => {
+    const { holidays, skipped } = parseIcsHolidays(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20260427',
+        'SUMMARY:Fete de l\'Independance',
+        'RRULE:FREQ=YEARLY',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20260601T000000Z',
+        'SUMMARY:Lundi de',
+        '  Pentecote\\, jour ferie',
+        'END:VEVENT'
+      )
+    );
+
+    expect(skipped).toBe(0);
+    expect(holidays).toEqual([
+      {
+        name: 'Fete de l\'Independance',
+        date: new Date('2026-04-27T00:00:00Z'),
+        isRecurring: true,
+      },
+      {
+        name: 'Lundi de Pentecote, jour ferie',
+        date: new Date('2026-06-01T00:00:00Z'),
+        isRecurring: false,
+      },
+    ]);
+  });
+
+  it('gives one holiday per day of a multi-day event and skips unreadable ones', () => {
+    const { holidays, skipped } = parseIcsHolidays(
+      calendar(
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20261225',
+        'DTEND;VALUE=DATE:20261227',
+        'SUMMARY:Fetes de fin d\'annee',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20260230',
+        'SUMMARY:Date invalide',
+        'END:VEVENT'
+      )
+    );
+
+    expect(holidays.map((h) => h.date.toISOString().slice(0, 10))).toEqual([
+      '2026-12-25',
+      '2026-12-26',
+    ]);
+    expect(skipped).toBe(1);
+  });
+});
@@ -0,0 +1,340 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  incident: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    count: jest.fn(),
+    groupBy: jest.fn(),
+  },
+  reservation: {
+    findUnique: jest.fn(),
+  },
+  vehicle: {
+    update: jest.fn(),
+  },
+  maintenance: {
+    create: jest.fn(),
+  },
+  user: {
+    findMany: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/notification.service.js', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/maintenance.service.js', () => ({
+  reportDisplacedReservations: jest.fn(),
+}));
+
+const incidentService = await import('../src/services/incident.service.js');
+const { BadRequestError, ConflictError, ForbiddenError } = await import(
+  '../src/utils/errors.js'
+);
+const { createNotification } = await import('../src/services/notification.service.js');
+const { reportDisplacedReservations } = await import('../src/services/maintenance.service.js');
+
+const vehicle = {
+  id: 'vehicle-1',
+  brand: 'Toyota',
+  model: 'Hilux',
+  registrationNumber: 'TG-1234-AB',
+  status: 'IN_USE',
+};
+
+function makeReservation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'res-1',
+    referenceNumber: 'RES-001',
+    userId: 'user-1',
+    driverId: null,
+    vehicleId: 'vehicle-1',
+    status: 'IN_PROGRESS',
+    vehicle,
+    ...overrides,
+  };
+}
+
+function makeIncident(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'incident-1',
+    vehicleId: 'vehicle-1',
+    reportedBy: 'user-1',
+    reservationId: 'res-1',
+    type: 'ACCIDENT',
+    date: new Date(),
+    description: 'Rear bumper hit while parking',
+    location: null,
+    severity: 'HIGH',
+    resolved: false,
+    resolution: null,
+    maintenanceId: null,
+    createdAt: new Date(),
+    vehicle,
+    ...overrides,
+  };
+}
+
+const report = {
+  reservationId: 'res-1',
+  type: 'BREAKDOWN' as const,
+  description: 'Engine stopped on the highway',
+  location: 'Route de Kpalime',
+};
+
+beforeEach(() => {
+  prismaMock.$transaction.mockImplementation(
+    async (fn: unknown) => (fn as (tx: typeof prismaMock) => Promise<unknown>)(prismaMock)
+  );
+  prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+  prismaMock.incident.create.mockImplementation(async (args: unknown) => ({
+    id: 'incident-new',
+    ...(args as { data: object }).data,
+  }));
+  prismaMock.incident.update.mockImplementation(async (args: unknown) => ({
+    ...makeIncident(),
+    ...(args as { data: object }).data,
+  }));
+  prismaMock.maintenance.create.mockResolvedValue({ id: 'maintenance-1' });
+});
+
+describe('incident.service > reportIncident', () => {
+  it('records the incident on the trip vehicle and notifies fleet admins', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeReservation());
+
+    const incident = await incidentService.reportIncident(
+      report,
+      ['/uploads/a.jpg'],
+      'user-1',
+      'EMPLOYEE'
+    );
+
+    expect(prismaMock.incident.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          vehicleId: 'vehicle-1',
+          reservationId: 'res-1',
+          reportedBy: 'user-1',
+          photos: ['/uploads/a.jpg'],
+          severity: 'MEDIUM',
+        }),
+      })
+    );
+    expect(incident.id).toBe('incident-new');
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', type: 'INCIDENT_REPORTED' })
+    );
+  });
+
+  it('reports thefts and accidents as HIGH severity', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeReservation());
+
+    await incidentService.reportIncident(
+      { ...report, type: 'THEFT' },
+      [],
+      'user-1',
+      'EMPLOYEE'
+    );
+
+    const createArgs = prismaMock.incident.create.mock.calls[0]![0] as {
+      data: { severity: string };
+    };
+    expect(createArgs.data.severity).toBe('HIGH');
+  });
+
+  it('lets the driver of the reservation report', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({ driverId: 'driver-1' })
+    );
+
+    await expect(
+      incidentService.reportIncident(report, [], 'driver-1', 'DRIVER')
+    ).resolves.toBeDefined();
+  });
+
+  it('refuses incidents on somebody else reservation', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeReservation());
+
+    await expect(
+      incidentService.reportIncident(report, [], 'user-2', 'EMPLOYEE')
+    ).rejects.toThrow(ForbiddenError);
+  });
+
+  it('refuses incidents outside a trip in progress', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({ status: 'COMPLETED' })
+    );
+
+    await expect(
+      incidentService.reportIncident(report, [], 'user-1', 'EMPLOYEE')
+    ).rejects.toThrow(ConflictError);
+    expect(prismaMock.incident.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a date in the future', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeReservation());
+    const date = new Date(Date.now() + 3600 * 1000).toISOString();
+
+    await expect(
+      incidentService.reportIncident({ ...report, date }, [], 'user-1', 'EMPLOYEE')
+    ).rejects.toThrow(BadRequestError);
+  });
+});
+
+describe('incident.service > getIncidents', () => {
+  beforeEach(() => {
+    prismaMock.incident.findMany.mockResolvedValue([]);
+    prismaMock.incident.count.mockResolvedValue(0);
+  });
+
+  it('filters the queue by severity and orders open, severe incidents first', async () => {
+    await incidentService.getIncidents(
+      { page: 1, limit: 10, severity: ['HIGH', 'URGENT'], resolved: false },
+      'admin-1',
+      'ADMIN'
+    );
+
+    const args = prismaMock.incident.findMany.mock.calls[0]![0] as {
+      where: Record<string, unknown>;
+      orderBy: unknown;
+    };
+    expect(args.where).toEqual({ severity: { in: ['HIGH', 'URGENT'] }, resolved: false });
+    expect(args.orderBy).toEqual([{ resolved: 'asc' }, { severity: 'desc' }, { date: 'desc' }]);
+  });
+
+  it('only lists their own reports to employees', async () => {
+    await incidentService.getIncidents({ page: 1, limit: 10 }, 'user-1', 'EMPLOYEE');
+
+    const args = prismaMock.incident.findMany.mock.calls[0]![0] as {
+      where: Record<string, unknown>;
+    };
+    expect(args.where).toEqual({ reportedBy: 'user-1' });
+  });
+});
+
+describe('incident.service > getIncidentSummary', () => {
+  it('counts open incidents per severity and the mean resolution time', async () => {
+    const now = new Date('2026-06-30T12:00:00Z');
+    prismaMock.incident.groupBy.mockResolvedValue([
+      { severity: 'HIGH', _count: 2 },
+      { severity: 'LOW', _count: 1 },
+    ]);
+    prismaMock.incident.findMany.mockResolvedValue([
+      {
+        createdAt: new Date('2026-06-20T08:00:00Z'),
+        resolvedAt: new Date('2026-06-20T12:00:00Z'),
+      },
+      {
+        createdAt: new Date('2026-06-21T08:00:00Z'),
+        resolvedAt: new Date('2026-06-21T10:00:00Z'),
+      },
+    ]);
+
+    const summary = await incidentService.getIncidentSummary(now);
+
+    expect(summary).toEqual({
+      open: { LOW: 1, MEDIUM: 0, HIGH: 2, URGENT: 0 },
+      resolvedLast30Days: 2,
+      averageResolutionHours: 3,
+    });
+  });
+});
+
+describe('incident.service > resolveIncident', () => {
+  it('records who resolved the incident and when, and notifies the reporter', async () => {
+    prismaMock.incident.findUnique.mockResolvedValue(makeIncident());
+
+    await incidentService.resolveIncident(
+      'incident-1',
+      { resolution: 'Bumper repaired by the garage' },
+      'admin-1'
+    );
+
+    const updateArgs = prismaMock.incident.update.mock.calls[0]![0] as {
+      data: Record<string, unknown>;
+    };
+    expect(updateArgs.data).toEqual(
+      expect.objectContaining({
+        resolved: true,
+        resolution: 'Bumper repaired by the garage',
+        resolvedById: 'admin-1',
+        resolvedAt: expect.any(Date),
+      })
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', entityId: 'incident-1' })
+    );
+  });
+
+  it('refuses an incident already resolved', async () => {
+    prismaMock.incident.findUnique.mockResolvedValue(makeIncident({ resolved: true }));
+
+    await expect(
+      incidentService.resolveIncident('incident-1', { resolution: 'Done again' }, 'admin-1')
+    ).rejects.toThrow(ConflictError);
+  });
+});
+
+describe('incident.service > escalateIncident', () => {
+  it('puts the vehicle in maintenance and opens a linked corrective maintenance', async () => {
+    prismaMock.incident.findUnique.mockResolvedValue(makeIncident({ severity: 'URGENT' }));
+
+    const incident = await incidentService.escalateIncident('incident-1', {}, 'admin-1');
+
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith({
+      where: { id: 'vehicle-1' },
+      data: { status: 'MAINTENANCE' },
+    });
+    expect(prismaMock.maintenance.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        vehicleId: 'vehicle-1',
+        type: 'CORRECTIVE',
+        priority: 'URGENT',
+        status: 'IN_PROGRESS',
+        createdById: 'admin-1',
+      }),
+    });
+    expect(incident.maintenanceId).toBe('maintenance-1');
+    expect(incident.resolved).toBe(false);
+    // The bookings overlapping the repair are reported once it is recorded
+    expect(reportDisplacedReservations).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'maintenance-1' })
+    );
+  });
+
+  it('refuses incidents below HIGH severity', async () => {
+    prismaMock.incident.findUnique.mockResolvedValue(makeIncident({ severity: 'MEDIUM' }));
+
+    await expect(
+      incidentService.escalateIncident('incident-1', {}, 'admin-1')
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.vehicle.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses an incident already escalated', async () => {
+    prismaMock.incident.findUnique.mockResolvedValue(
+      makeIncident({ maintenanceId: 'maintenance-0' })
+    );
+
+    await expect(
+      incidentService.escalateIncident('incident-1', {}, 'admin-1')
+    ).rejects.toThrow(ConflictError);
+    expect(prismaMock.maintenance.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  location: {
+    findMany: jest.fn(),
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  vehicle: {
+    count: jest.fn(),
+    groupBy: jest.fn(),
+  },
+  reservation: {
+    count: jest.fn(),
+    findMany: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const locationService = await import('../src/services/location.service.js');
+const { ConflictError } = await import('../src/utils/errors.js');
+
+const kara = {
+  id: 'loc-kara',
+  name: 'Antenne Kara',
+  city: 'Kara',
+  capacity: 4,
+  isActive: true,
+};
+
+beforeEach(() => {
+  prismaMock.location.findUnique.mockResolvedValue(kara);
+  prismaMock.location.findFirst.mockResolvedValue(null);
+  prismaMock.vehicle.count.mockResolvedValue(0);
+  prismaMock.reservation.count.mockResolvedValue(0);
+});
+
+describe('location.service > createLocation', () => {
+  it('rejects a name already used by another site', async () => {
+    prismaMock.location.findFirst.mockResolvedValue({ id: 'loc-other' });
+
+    await expect(
+      locationService.createLocation({ name: 'antenne kara' }, 'admin-1')
+    ).rejects.toThrow(ConflictError);
+    expect(prismaMock.location.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('location.service > deleteLocation', () => {
+  it('refuses to deactivate a site that still has vehicles', async () => {
+    prismaMock.vehicle.count.mockResolvedValue(2);
+
+    await expect(locationService.deleteLocation('loc-kara', 'admin-1')).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'LOCATION_HAS_VEHICLES',
+    });
+    expect(prismaMock.location.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to deactivate a site used for upcoming pickups', async () => {
+    prismaMock.reservation.count.mockResolvedValue(1);
+
+    await expect(locationService.deleteLocation('loc-kara', 'admin-1')).rejects.toMatchObject({
+      code: 'LOCATION_HAS_RESERVATIONS',
+    });
+  });
+
+  it('soft deletes an empty site', async () => {
+    await locationService.deleteLocation('loc-kara', 'admin-1');
+
+    expect(prismaMock.location.update).toHaveBeenCalledWith({
+      where: { id: 'loc-kara' },
+      data: { isActive: false },
+    });
+    expect(prismaMock.auditLog.create).toHaveBeenCalled();
+  });
+});
+
+describe('location.service > getLocationSummaries', () => {
+  it('computes occupancy and utilization over the period', async () => {
+    prismaMock.location.findMany.mockResolvedValue([kara]);
+    prismaMock.vehicle.groupBy.mockResolvedValue([
+      { locationId: 'loc-kara', status: 'AVAILABLE', _count: 1 },
+      { locationId: 'loc-kara', status: 'IN_USE', _count: 1 },
+    ]);
+    prismaMock.reservation.findMany.mockResolvedValue([
+      // 24h inside the period
+      {
+        startDate: new Date('2026-03-02T00:00:00Z'),
+        endDate: new Date('2026-03-03T00:00:00Z'),
+        vehicle: { locationId: 'loc-kara' },
+      },
+      // Started before the period: only the last 12h count
+      {
+        startDate: new Date('2026-02-28T12:00:00Z'),
+        endDate: new Date('2026-03-01T12:00:00Z'),
+        vehicle: { locationId: 'loc-kara' },
+      },
+    ]);
+
+    const [summary] = await locationService.getLocationSummaries({
+      from: '2026-03-01T00:00:00.000Z',
+      to: '2026-03-11T00:00:00.000Z',
+    });
+
+    expect(summary).toMatchObject({
+      locationId: 'loc-kara',
+      vehicleCount: 2,
+      occupancyRate: 50,
+      reservationCount: 2,
+      reservedHours: 36,
+      // 36h reserved out of 2 vehicles x 240h
+      utilizationRate: 7.5,
+    });
+    expect(summary.vehiclesByStatus).toMatchObject({ AVAILABLE: 1, IN_USE: 1, MAINTENANCE: 0 });
+  });
+});
@@ -0,0 +1,328 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  maintenancePlan: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  maintenance: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+  },
+  vehicle: {
+    findMany: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  user: {
+    findMany: jest.fn(),
+  },
+  setting: {
+    findUnique: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/notification.service.js', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/maintenance.service.js', () => ({
+  reportDisplacedReservations: jest.fn(),
+}));
+
+const planService = await import('../src/services/maintenance-plan.service.js');
+const { BadRequestError } = await import('../src/utils/errors.js');
+const { clearSettingsCache } = await import('../src/services/settings.service.js');
+const { createNotification } = await import('../src/services/notification.service.js');
+const { reportDisplacedReservations } = await import('../src/services/maintenance.service.js');
+
+const day = 24 * 3600 * 1000;
+const now = new Date('2026-06-15T08:00:00Z');
+const lead = { km: 500, days: 14 };
+
+function makeVehicle(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'vehicle-1',
+    registrationNumber: 'TG-1234-AB',
+    type: 'SEDAN',
+    brand: 'Toyota',
+    model: 'Corolla',
+    currentMileage: 25000,
+    lastServiceDate: new Date('2026-01-10T08:00:00Z'),
+    lastServiceMileage: 20000,
+    createdAt: new Date('2024-03-01T08:00:00Z'),
+    ...overrides,
+  } as never;
+}
+
+function makePlan(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'plan-1',
+    name: 'Vidange',
+    description: null,
+    vehicleType: null,
+    brand: null,
+    model: null,
+    intervalKm: 10000,
+    intervalMonths: 12,
+    isActive: true,
+    createdById: 'admin-1',
+    ...overrides,
+  } as never;
+}
+
+beforeEach(() => {
+  clearSettingsCache();
+  prismaMock.setting.findUnique.mockResolvedValue(null);
+  prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+  prismaMock.maintenance.findMany.mockResolvedValue([]);
+  prismaMock.maintenance.create.mockImplementation(async (args: unknown) => ({
+    id: 'maintenance-new',
+    ...(args as { data: object }).data,
+  }));
+});
+
+describe('maintenance-plan.service > planAppliesTo', () => {
+  it('matches every criterion set, brand and model without case', () => {
+    const vehicle = makeVehicle();
+
+    expect(planService.planAppliesTo(makePlan(), vehicle)).toBe(true);
+    expect(
+      planService.planAppliesTo(makePlan({ brand: 'TOYOTA', model: 'corolla' }), vehicle)
+    ).toBe(true);
+    expect(
+      planService.planAppliesTo(makePlan({ vehicleType: 'SEDAN', model: 'Hilux' }), vehicle)
+    ).toBe(false);
+    expect(planService.planAppliesTo(makePlan({ vehicleType: 'SUV' }), vehicle)).toBe(false);
+  });
+});
+
+describe('maintenance-plan.service > projectNextService', () => {
+  it('runs the intervals from the last service done under the plan', () => {
+    const projection = planService.projectNextService(
+      makePlan(),
+      makeVehicle(),
+      { completedDate: new Date('2026-03-01T08:00:00Z'), mileageAtService: 22000 },
+      lead,
+      now
+    );
+
+    expect(projection.dueMileage).toBe(32000);
+    expect(projection.remainingKm).toBe(7000);
+    expect(projection.dueDate).toEqual(new Date('2027-03-01T08:00:00Z'));
+    expect(projection.status).toBe('OK');
+  });
+
+  it('falls back on the last recorded service of the vehicle', () => {
+    const projection = planService.projectNextService(
+      makePlan(),
+      makeVehicle({ lastServiceDate: new Date('2025-07-10T08:00:00Z') }),
+      null,
+      lead,
+      now
+    );
+
+    expect(projection.dueMileage).toBe(30000);
+    expect(projection.dueDate).toEqual(new Date('2026-07-10T08:00:00Z'));
+    expect(projection.remainingDays).toBe(25);
+  });
+
+  it('expects a never serviced vehicle at the next multiple of the interval', () => {
+    const projection = planService.projectNextService(
+      makePlan({ intervalMonths: null }),
+      makeVehicle({ lastServiceDate: null, lastServiceMileage: null, currentMileage: 29700 }),
+      null,
+      lead,
+      now
+    );
+
+    expect(projection.dueMileage).toBe(30000);
+    expect(projection.status).toBe('DUE_SOON');
+  });
+
+  it('is due soon within the lead time and overdue once a threshold is passed', () => {
+    const soon = planService.projectNextService(
+      makePlan({ intervalKm: null, intervalMonths: 6 }),
+      makeVehicle({ lastServiceDate: new Date(now.getTime() - 175 * day) }),
+      null,
+      lead,
+      now
+    );
+    const overdue = planService.projectNextService(
+      makePlan({ intervalMonths: null }),
+      makeVehicle({ currentMileage: 30400 }),
+      null,
+      lead,
+      now
+    );
+
+    expect(soon.status).toBe('DUE_SOON');
+    expect(soon.dueMileage).toBeNull();
+    expect(overdue.status).toBe('OVERDUE');
+    expect(overdue.remainingKm).toBe(-400);
+  });
+});
+
+describe('maintenance-plan.service > scheduleDuePlanMaintenances', () => {
+  it('opens a preventive maintenance for a vehicle approaching its threshold', async () => {
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([makePlan()]);
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      makeVehicle({ currentMileage: 29600 }),
+      makeVehicle({ id: 'vehicle-2', currentMileage: 21000 }),
+    ]);
+
+    const created = await planService.scheduleDuePlanMaintenances();
+
+    expect(created).toBe(1);
+    expect(prismaMock.maintenance.create).toHaveBeenCalledTimes(1);
+    expect(prismaMock.maintenance.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        vehicleId: 'vehicle-1',
+        planId: 'plan-1',
+        type: 'PREVENTIVE',
+        priority: 'MEDIUM',
+        createdById: 'admin-1',
+        scheduledDate: expect.any(Date),
+      }),
+    });
+    // Due by mileage long before the date, so not scheduled a year ahead
+    const { data } = prismaMock.maintenance.create.mock.calls[0][0] as {
+      data: { scheduledDate: Date };
+    };
+    expect(data.scheduledDate.getTime()).toBeLessThanOrEqual(Date.now());
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', type: 'MAINTENANCE_DUE' })
+    );
+  });
+
+  it('does not open a second maintenance while one from the plan is open', async () => {
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([makePlan()]);
+    prismaMock.vehicle.findMany.mockResolvedValue([makeVehicle({ currentMileage: 31000 })]);
+    prismaMock.maintenance.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        {
+          id: 'maintenance-1',
+          planId: 'plan-1',
+          vehicleId: 'vehicle-1',
+          status: 'SCHEDULED',
+          scheduledDate: now,
+        },
+      ]);
+
+    const created = await planService.scheduleDuePlanMaintenances();
+
+    expect(created).toBe(0);
+    expect(prismaMock.maintenance.create).not.toHaveBeenCalled();
+  });
+
+  it('schedules a service coming up by date on its due date', async () => {
+    const dueDate = new Date(Date.now() + 10 * day);
+    const lastServiceDate = new Date(dueDate);
+    lastServiceDate.setMonth(lastServiceDate.getMonth() - 6);
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([
+      makePlan({ intervalKm: null, intervalMonths: 6 }),
+    ]);
+    prismaMock.vehicle.findMany.mockResolvedValue([makeVehicle({ lastServiceDate })]);
+
+    await planService.scheduleDuePlanMaintenances();
+
+    expect(prismaMock.maintenance.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ scheduledDate: dueDate }),
+    });
+  });
+
+  it('reports the bookings of a vehicle reaching its threshold', async () => {
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([makePlan()]);
+    prismaMock.vehicle.findMany.mockResolvedValue([makeVehicle({ currentMileage: 29800 })]);
+    (reportDisplacedReservations as jest.Mock<(...args: unknown[]) => unknown>)
+      .mockResolvedValue([{ reservation: { id: 'res-1' }, candidates: [] }]);
+
+    await planService.scheduleDuePlanMaintenances();
+
+    // Serviced right away, over the trip already booked on the vehicle
+    expect(reportDisplacedReservations).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'maintenance-new', vehicleId: 'vehicle-1' })
+    );
+  });
+
+  it('skips vehicles the plan does not apply to', async () => {
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([makePlan({ vehicleType: 'UTILITY' })]);
+    prismaMock.vehicle.findMany.mockResolvedValue([makeVehicle({ currentMileage: 31000 })]);
+
+    const created = await planService.scheduleDuePlanMaintenances();
+
+    expect(created).toBe(0);
+    expect(prismaMock.maintenance.create).not.toHaveBeenCalled();
+  });
+});
+
+describe('maintenance-plan.service > getServiceDueVehicleIds', () => {
+  const tripEnd = new Date('2026-06-20T18:00:00Z');
+
+  it('flags a vehicle the trip would take within the lead distance', async () => {
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([makePlan()]);
+    const vehicle = makeVehicle({ currentMileage: 29000 });
+
+    expect(await planService.getServiceDueVehicleIds([vehicle], tripEnd)).toEqual(new Set());
+    expect(await planService.getServiceDueVehicleIds([vehicle], tripEnd, 600)).toEqual(
+      new Set(['vehicle-1'])
+    );
+  });
+
+  it('flags a vehicle whose service date falls within the lead days of the trip end', async () => {
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([makePlan()]);
+    const vehicle = makeVehicle({ lastServiceDate: new Date('2025-07-01T08:00:00Z') });
+
+    expect(await planService.getServiceDueVehicleIds([vehicle], tripEnd)).toEqual(
+      new Set(['vehicle-1'])
+    );
+  });
+
+  it('never flags vehicles no plan applies to', async () => {
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([makePlan({ vehicleType: 'SUV' })]);
+    const vehicle = makeVehicle({ currentMileage: 31000 });
+
+    expect(await planService.getServiceDueVehicleIds([vehicle], tripEnd)).toEqual(new Set());
+  });
+});
+
+describe('maintenance-plan.service > getVehicleNextServices', () => {
+  it('lists the plans of the vehicle, the most urgent first', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle({ currentMileage: 30200 }));
+    prismaMock.maintenancePlan.findMany.mockResolvedValue([
+      makePlan({ id: 'plan-2', name: 'Inspection', intervalKm: null, intervalMonths: 12 }),
+      makePlan(),
+      makePlan({ id: 'plan-3', name: 'Utilitaires', vehicleType: 'UTILITY' }),
+    ]);
+
+    const services = await planService.getVehicleNextServices('vehicle-1');
+
+    expect(services.map((service) => [service.plan.id, service.status])).toEqual([
+      ['plan-1', 'OVERDUE'],
+      ['plan-2', 'OK'],
+    ]);
+  });
+});
+
+describe('maintenance-plan.service > updateMaintenancePlan', () => {
+  it('refuses to leave a plan without any interval', async () => {
+    prismaMock.maintenancePlan.findUnique.mockResolvedValue(makePlan({ intervalMonths: null }));
+
+    await expect(
+      planService.updateMaintenancePlan('plan-1', { intervalKm: null }, 'admin-1')
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.maintenancePlan.update).not.toHaveBeenCalled();
+  });
+});
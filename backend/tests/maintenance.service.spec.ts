@@ -0,0 +1,498 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  $transaction: jest.fn(),
+  maintenance: {
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  reservation: {
+    findMany: jest.fn(),
+  },
+  vehicle: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  vendor: {
+    findUnique: jest.fn(),
+  },
+  maintenancePart: {
+    findMany: jest.fn(),
+  },
+  user: {
+    findMany: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/notification.service.js', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/email.service.js', () => ({
+  sendReservationStatusEmail: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/part.service.js', () => ({
+  consumeParts: jest.fn(),
+  notifyLowStock: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/reservation.service.js', () => ({
+  getAllocationCandidates: jest.fn(),
+  notifyAddedApprovalSteps: jest.fn(),
+  resolveMaintenanceConflict: jest.fn(),
+}));
+
+const maintenanceService = await import('../src/services/maintenance.service.js');
+const { BadRequestError } = await import('../src/utils/errors.js');
+const { createNotification } = await import('../src/services/notification.service.js');
+const { sendReservationStatusEmail } = await import('../src/services/email.service.js');
+const { getAllocationCandidates, resolveMaintenanceConflict } = await import(
+  '../src/services/reservation.service.js'
+);
+const { consumeParts, notifyLowStock } = await import('../src/services/part.service.js');
+
+const getAllocationCandidatesMock = getAllocationCandidates as jest.Mock<
+  (...args: unknown[]) => unknown
+>;
+const resolveMaintenanceConflictMock = resolveMaintenanceConflict as jest.Mock<
+  (...args: unknown[]) => unknown
+>;
+const consumePartsMock = consumeParts as jest.Mock<(...args: unknown[]) => unknown>;
+
+const hour = 3600 * 1000;
+
+const vehicle = {
+  id: 'vehicle-1',
+  brand: 'Toyota',
+  model: 'Hilux',
+  registrationNumber: 'TG-1234-AB',
+};
+
+const replacement = {
+  id: 'vehicle-2',
+  brand: 'Toyota',
+  model: 'Hilux',
+  registrationNumber: 'TG-5678-AB',
+};
+
+function makeReservation(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'res-1',
+    referenceNumber: 'RES-001',
+    userId: 'user-1',
+    vehicleId: 'vehicle-1',
+    status: 'APPROVED',
+    startDate: new Date(Date.now() + 30 * hour),
+    endDate: new Date(Date.now() + 34 * hour),
+    vehicle,
+    user: { id: 'user-1', firstName: 'Ama', lastName: 'Mensah', email: 'ama@test.com' },
+    ...overrides,
+  };
+}
+
+const input = {
+  vehicleId: 'vehicle-1',
+  type: 'PREVENTIVE' as const,
+  description: 'Oil change and filters',
+  scheduledDate: new Date(Date.now() + 24 * hour).toISOString(),
+  estimatedEndDate: new Date(Date.now() + 48 * hour).toISOString(),
+};
+
+beforeEach(() => {
+  prismaMock.$transaction.mockImplementation(
+    async (fn: unknown) => (fn as (tx: typeof prismaMock) => Promise<unknown>)(prismaMock)
+  );
+  prismaMock.vehicle.findUnique.mockResolvedValue(vehicle);
+  prismaMock.reservation.findMany.mockResolvedValue([]);
+  prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+  prismaMock.maintenance.create.mockResolvedValue({ id: 'maintenance-1', vehicle });
+  prismaMock.maintenance.update.mockResolvedValue({ id: 'maintenance-1', vehicle });
+  prismaMock.maintenancePart.findMany.mockResolvedValue([]);
+});
+
+describe('maintenance.service > createMaintenance', () => {
+  it('schedules the maintenance when no reservation overlaps its window', async () => {
+    await maintenanceService.createMaintenance(input, 'manager-1');
+
+    expect(prismaMock.reservation.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          vehicleId: 'vehicle-1',
+          startDate: { lte: new Date(input.estimatedEndDate) },
+          endDate: { gte: new Date(input.scheduledDate) },
+        }),
+      })
+    );
+    expect(prismaMock.maintenance.create).toHaveBeenCalled();
+    expect(resolveMaintenanceConflictMock).not.toHaveBeenCalled();
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', type: 'MAINTENANCE_SCHEDULED' })
+    );
+  });
+
+  it('refuses a window overlapping reservations left unresolved', async () => {
+    prismaMock.reservation.findMany.mockResolvedValue([
+      makeReservation(),
+      makeReservation({ id: 'res-2', referenceNumber: 'RES-002', status: 'PENDING' }),
+    ]);
+
+    await expect(
+      maintenanceService.createMaintenance(
+        {
+          ...input,
+          conflictResolutions: [{ reservationId: 'res-1', action: 'CANCEL' }],
+        },
+        'manager-1'
+      )
+    ).rejects.toMatchObject({ statusCode: 409, code: 'RESERVATION_CONFLICT' });
+    expect(prismaMock.maintenance.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a window overlapping a trip in progress', async () => {
+    prismaMock.reservation.findMany.mockResolvedValue([
+      makeReservation({ status: 'IN_PROGRESS' }),
+    ]);
+
+    await expect(
+      maintenanceService.createMaintenance(
+        {
+          ...input,
+          conflictResolutions: [{ reservationId: 'res-1', action: 'CANCEL' }],
+        },
+        'manager-1'
+      )
+    ).rejects.toMatchObject({ code: 'VEHICLE_IN_USE' });
+    expect(resolveMaintenanceConflictMock).not.toHaveBeenCalled();
+  });
+
+  it('refuses to send the maintenance to a deactivated vendor', async () => {
+    prismaMock.vendor.findUnique.mockResolvedValue({ isActive: false });
+
+    await expect(
+      maintenanceService.createMaintenance({ ...input, vendorId: 'vendor-1' }, 'manager-1')
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.maintenance.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a resolution for a reservation outside the window', async () => {
+    await expect(
+      maintenanceService.createMaintenance(
+        {
+          ...input,
+          conflictResolutions: [{ reservationId: 'res-9', action: 'CANCEL' }],
+        },
+        'manager-1'
+      )
+    ).rejects.toThrow(BadRequestError);
+  });
+
+  it('applies the resolutions and tells each user what happened', async () => {
+    prismaMock.reservation.findMany.mockResolvedValue([
+      makeReservation(),
+      makeReservation({ id: 'res-2', referenceNumber: 'RES-002', userId: 'user-2' }),
+    ]);
+    resolveMaintenanceConflictMock
+      .mockResolvedValueOnce({ action: 'REASSIGN', vehicle: replacement, addedSteps: [] })
+      .mockResolvedValueOnce({ action: 'CANCEL', vehicle: null });
+    const conflictResolutions = [
+      { reservationId: 'res-1', action: 'REASSIGN' as const },
+      { reservationId: 'res-2', action: 'CANCEL' as const },
+    ];
+
+    await maintenanceService.createMaintenance({ ...input, conflictResolutions }, 'manager-1');
+
+    expect(resolveMaintenanceConflictMock).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'res-1' }),
+      conflictResolutions[0],
+      'maintenance-1',
+      'manager-1',
+      prismaMock
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-1',
+        title: 'Reservation Vehicle Changed',
+        message: expect.stringContaining('TG-5678-AB'),
+      })
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-2', type: 'RESERVATION_CANCELLED' })
+    );
+    expect(sendReservationStatusEmail).toHaveBeenCalledWith(
+      'ama@test.com',
+      'Ama',
+      expect.objectContaining({ referenceNumber: 'RES-002', status: 'CANCELLED' })
+    );
+  });
+});
+
+describe('maintenance.service > updateMaintenance', () => {
+  const scheduled = {
+    id: 'maintenance-1',
+    vehicleId: 'vehicle-1',
+    vendorId: null,
+    status: 'SCHEDULED',
+    scheduledDate: new Date(Date.now() + 72 * hour),
+    startDate: null,
+    estimatedEndDate: new Date(Date.now() + 80 * hour),
+  };
+
+  beforeEach(() => {
+    prismaMock.maintenance.findUnique.mockResolvedValue(scheduled);
+  });
+
+  it('refuses new dates overlapping reservations left unresolved', async () => {
+    prismaMock.reservation.findMany.mockResolvedValue([makeReservation()]);
+    const scheduledDate = new Date(Date.now() + 24 * hour).toISOString();
+
+    await expect(
+      maintenanceService.updateMaintenance('maintenance-1', { scheduledDate }, 'manager-1')
+    ).rejects.toMatchObject({ code: 'RESERVATION_CONFLICT' });
+    expect(prismaMock.reservation.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          startDate: { lte: scheduled.estimatedEndDate },
+          endDate: { gte: new Date(scheduledDate) },
+        }),
+      })
+    );
+    expect(prismaMock.maintenance.update).not.toHaveBeenCalled();
+
+    resolveMaintenanceConflictMock.mockResolvedValue({ action: 'CANCEL', vehicle: null });
+    await maintenanceService.updateMaintenance(
+      'maintenance-1',
+      { scheduledDate, conflictResolutions: [{ reservationId: 'res-1', action: 'CANCEL' }] },
+      'manager-1'
+    );
+
+    expect(resolveMaintenanceConflictMock).toHaveBeenCalledTimes(1);
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', type: 'RESERVATION_CANCELLED' })
+    );
+  });
+
+  it('leaves the reservations alone when the dates do not change', async () => {
+    await maintenanceService.updateMaintenance(
+      'maintenance-1',
+      { notes: 'Garage asked to keep the old tyres' },
+      'manager-1'
+    );
+
+    expect(prismaMock.reservation.findMany).not.toHaveBeenCalled();
+    expect(prismaMock.maintenance.update).toHaveBeenCalled();
+  });
+});
+
+describe('maintenance.service > startMaintenance', () => {
+  const scheduled = {
+    id: 'maintenance-1',
+    vehicleId: 'vehicle-1',
+    status: 'SCHEDULED',
+    scheduledDate: new Date(Date.now() + 72 * hour),
+    startDate: null,
+    estimatedEndDate: null,
+    vehicle,
+  };
+
+  it('checks the reservations against the window starting now', async () => {
+    prismaMock.maintenance.findUnique.mockResolvedValue(scheduled);
+    prismaMock.reservation.findMany.mockResolvedValue([makeReservation()]);
+    resolveMaintenanceConflictMock.mockResolvedValue({ action: 'CANCEL', vehicle: null });
+
+    await expect(
+      maintenanceService.startMaintenance('maintenance-1', 'manager-1')
+    ).rejects.toMatchObject({ code: 'RESERVATION_CONFLICT' });
+    expect(prismaMock.vehicle.update).not.toHaveBeenCalled();
+
+    const before = Date.now();
+    await maintenanceService.startMaintenance('maintenance-1', 'manager-1', {
+      conflictResolutions: [{ reservationId: 'res-1', action: 'CANCEL' }],
+    });
+
+    const { where } = prismaMock.reservation.findMany.mock.calls[1][0] as {
+      where: { endDate: { gte: Date } };
+    };
+    expect(where.endDate.gte.getTime()).toBeGreaterThanOrEqual(before);
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith({
+      where: { id: 'vehicle-1' },
+      data: { status: 'MAINTENANCE' },
+    });
+    expect(resolveMaintenanceConflictMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('maintenance.service > completeMaintenance', () => {
+  const inProgress = {
+    id: 'maintenance-1',
+    vehicleId: 'vehicle-1',
+    status: 'IN_PROGRESS',
+    vehicle: { ...vehicle, currentMileage: 42000, locationId: 'location-1' },
+  };
+
+  it('takes the fitted parts out of stock and reports low stock once completed', async () => {
+    const lowStock = [
+      {
+        part: { id: 'part-1', sku: 'FLT-01', name: 'Oil filter', reorderLevel: 2 },
+        location: { id: 'location-1', name: 'Lome' },
+        quantity: 1,
+      },
+    ];
+    prismaMock.maintenance.findUnique.mockResolvedValue(inProgress);
+    consumePartsMock.mockResolvedValue(lowStock);
+    const parts = [{ partId: 'part-1', quantity: 2 }];
+
+    await maintenanceService.completeMaintenance('maintenance-1', 'manager-1', {
+      lines: [],
+      parts,
+    });
+
+    expect(consumePartsMock).toHaveBeenCalledWith(
+      'maintenance-1',
+      inProgress.vehicle,
+      parts,
+      prismaMock
+    );
+    expect(prismaMock.maintenance.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ status: 'COMPLETED' }) })
+    );
+    expect(notifyLowStock).toHaveBeenCalledWith(lowStock);
+  });
+
+  it('leaves the maintenance open when a part is out of stock', async () => {
+    const { ConflictError } = await import('../src/utils/errors.js');
+    prismaMock.maintenance.findUnique.mockResolvedValue(inProgress);
+    consumePartsMock.mockRejectedValue(new ConflictError('Not enough', 'INSUFFICIENT_STOCK'));
+
+    await expect(
+      maintenanceService.completeMaintenance('maintenance-1', 'manager-1', {
+        lines: [],
+        parts: [{ partId: 'part-1', quantity: 20 }],
+      })
+    ).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+    expect(prismaMock.maintenance.update).not.toHaveBeenCalled();
+    expect(notifyLowStock).not.toHaveBeenCalled();
+  });
+
+  it('prices the work order and stores its total as the actual cost', async () => {
+    prismaMock.maintenance.findUnique.mockResolvedValue({
+      ...inProgress,
+      vendor: { laborRate: 10000 },
+    });
+    consumePartsMock.mockResolvedValue([]);
+    prismaMock.maintenancePart.findMany.mockResolvedValue([
+      { quantity: 2, unitCost: 5000, part: { sku: 'FLT-01', name: 'Oil filter' } },
+    ]);
+
+    await maintenanceService.completeMaintenance('maintenance-1', 'manager-1', {
+      lines: [
+        // Charged at the contract rate of the vendor
+        { type: 'LABOR', description: 'Oil change', hours: 1.5 },
+        { type: 'CONSUMABLE', description: 'Engine oil', quantity: 5, unitPrice: 3000 },
+        { type: 'TAX', description: 'VAT', rate: 18 },
+      ],
+    });
+
+    expect(prismaMock.maintenance.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          // 10000 of parts, 15000 of labour, 15000 of oil and 18% on top
+          actualCost: 47200,
+          lines: {
+            create: [
+              expect.objectContaining({ type: 'PART', description: 'FLT-01 - Oil filter' }),
+              expect.objectContaining({ type: 'LABOR', unitPrice: 10000, amount: 15000 }),
+              expect.objectContaining({ type: 'CONSUMABLE', amount: 15000 }),
+              expect.objectContaining({ type: 'TAX', taxRate: 18, amount: 7200 }),
+            ],
+          },
+        }),
+      })
+    );
+  });
+
+  it('asks for the labour rate when the vendor has no contract rate', async () => {
+    prismaMock.maintenance.findUnique.mockResolvedValue({ ...inProgress, vendor: null });
+    consumePartsMock.mockResolvedValue([]);
+
+    await expect(
+      maintenanceService.completeMaintenance('maintenance-1', 'manager-1', {
+        lines: [{ type: 'LABOR', description: 'Brake pads', hours: 2 }],
+      })
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.maintenance.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('maintenance.service > reportDisplacedReservations', () => {
+  const repair = {
+    id: 'maintenance-1',
+    vehicleId: 'vehicle-1',
+    status: 'IN_PROGRESS' as const,
+    scheduledDate: new Date(),
+    startDate: new Date(),
+    estimatedEndDate: new Date(Date.now() + 48 * hour),
+  };
+
+  it('tells the admins and the user which booking needs another vehicle', async () => {
+    prismaMock.reservation.findMany.mockResolvedValue([makeReservation()]);
+    getAllocationCandidatesMock.mockResolvedValue([
+      { vehicle: replacement },
+      { vehicle: { ...replacement, id: 'vehicle-3' } },
+    ]);
+
+    const conflicts = await maintenanceService.reportDisplacedReservations(repair);
+
+    expect(conflicts).toHaveLength(1);
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'admin-1',
+        entityId: 'res-1',
+        message: expect.stringContaining('2 equivalent vehicle(s)'),
+      })
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', title: 'Reservation Vehicle Unavailable' })
+    );
+  });
+
+  it('stays quiet when no booking overlaps the repair', async () => {
+    await expect(maintenanceService.reportDisplacedReservations(repair)).resolves.toEqual([]);
+    expect(createNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe('maintenance.service > getMaintenanceConflicts', () => {
+  it('suggests replacement vehicles for bookings that can still move', async () => {
+    prismaMock.reservation.findMany.mockResolvedValue([
+      makeReservation(),
+      makeReservation({ id: 'res-2', status: 'IN_PROGRESS' }),
+    ]);
+    getAllocationCandidatesMock.mockResolvedValue([
+      { vehicle, atPickupLocation: false, serviceDue: false },
+      { vehicle: replacement, atPickupLocation: true, serviceDue: false },
+    ]);
+
+    const conflicts = await maintenanceService.getMaintenanceConflicts({
+      vehicleId: 'vehicle-1',
+      scheduledDate: input.scheduledDate,
+    });
+
+    expect(conflicts).toHaveLength(2);
+    expect(conflicts[0]!.candidates.map((c) => c.vehicle.id)).toEqual(['vehicle-2']);
+    expect(conflicts[1]!.candidates).toEqual([]);
+    expect(getAllocationCandidatesMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,261 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  odometerReading: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  vehicle: {
+    update: jest.fn(),
+  },
+  user: {
+    findMany: jest.fn(),
+  },
+  setting: {
+    findUnique: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/notification.service.js', () => ({
+  createNotification: jest.fn(),
+}));
+
+const odometerService = await import('../src/services/odometer.service.js');
+const { BadRequestError, ConflictError } = await import('../src/utils/errors.js');
+const { clearSettingsCache } = await import('../src/services/settings.service.js');
+const { createNotification } = await import('../src/services/notification.service.js');
+
+const hour = 3600 * 1000;
+
+const vehicle = {
+  id: 'vehicle-1',
+  registrationNumber: 'TG-1234-AB',
+  currentMileage: 10000,
+};
+
+function makeReading(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'reading-1',
+    vehicleId: 'vehicle-1',
+    mileage: 10000,
+    previousMileage: 9800,
+    source: 'CHECK_OUT',
+    recordedAt: new Date(Date.now() - 24 * hour),
+    isFlagged: false,
+    originalMileage: null,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  clearSettingsCache();
+  prismaMock.$transaction.mockImplementation(
+    async (fn: unknown) => (fn as (tx: typeof prismaMock) => Promise<unknown>)(prismaMock)
+  );
+  prismaMock.setting.findUnique.mockResolvedValue(null);
+  prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+  prismaMock.odometerReading.findFirst.mockResolvedValue(null);
+  prismaMock.odometerReading.create.mockImplementation(async (args: unknown) => ({
+    id: 'reading-new',
+    ...(args as { data: object }).data,
+  }));
+  prismaMock.odometerReading.update.mockImplementation(async (args: unknown) => ({
+    ...makeReading(),
+    ...(args as { data: object }).data,
+  }));
+});
+
+describe('odometer.service > isImplausibleJump', () => {
+  it('compares the distance with the daily maximum over the elapsed time', () => {
+    expect(odometerService.isImplausibleJump(1000, 24 * hour, 1200)).toBe(false);
+    expect(odometerService.isImplausibleJump(1300, 24 * hour, 1200)).toBe(true);
+    expect(odometerService.isImplausibleJump(700, 12 * hour, 1200)).toBe(true);
+  });
+
+  it('allows an hour of driving between close readings', () => {
+    expect(odometerService.isImplausibleJump(40, 60 * 1000, 1200)).toBe(false);
+    expect(odometerService.isImplausibleJump(60, 60 * 1000, 1200)).toBe(true);
+  });
+});
+
+describe('odometer.service > recordOdometerReading', () => {
+  it('stores the reading with its source, author and previous mileage', async () => {
+    prismaMock.odometerReading.findFirst.mockResolvedValue(makeReading());
+
+    const { reading, flagged } = await odometerService.recordOdometerReading(vehicle, {
+      mileage: 10300,
+      source: 'CHECK_IN',
+      recordedById: 'manager-1',
+      reservationId: 'res-1',
+    });
+
+    expect(prismaMock.odometerReading.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        vehicleId: 'vehicle-1',
+        mileage: 10300,
+        previousMileage: 10000,
+        source: 'CHECK_IN',
+        recordedById: 'manager-1',
+        reservationId: 'res-1',
+        isFlagged: false,
+      }),
+    });
+    expect(reading.id).toBe('reading-new');
+    expect(flagged).toBeNull();
+  });
+
+  it('refuses a reading below the current mileage', async () => {
+    await expect(
+      odometerService.recordOdometerReading(vehicle, {
+        mileage: 9500,
+        source: 'MANUAL',
+        recordedById: 'manager-1',
+      })
+    ).rejects.toThrow(ConflictError);
+    expect(prismaMock.odometerReading.create).not.toHaveBeenCalled();
+  });
+
+  it('flags an implausible jump and leaves the alert to the caller', async () => {
+    const since = new Date(Date.now() - 2 * hour);
+    prismaMock.odometerReading.findFirst.mockResolvedValue(makeReading({ recordedAt: since }));
+
+    const { reading, flagged } = await odometerService.recordOdometerReading(vehicle, {
+      mileage: 19000,
+      source: 'CHECK_OUT',
+      recordedById: 'manager-1',
+    });
+
+    expect(reading.isFlagged).toBe(true);
+    expect(flagged).toEqual(
+      expect.objectContaining({ previousMileage: 10000, mileage: 19000, since })
+    );
+    expect(createNotification).not.toHaveBeenCalled();
+  });
+
+  it('does not flag the first reading of a vehicle', async () => {
+    const { reading } = await odometerService.recordOdometerReading(vehicle, {
+      mileage: 19000,
+      source: 'MANUAL',
+      recordedById: 'manager-1',
+    });
+
+    expect(reading.isFlagged).toBe(false);
+  });
+});
+
+describe('odometer.service > notifyFlaggedReadings', () => {
+  it('notifies fleet admins of each flagged reading', async () => {
+    await odometerService.notifyFlaggedReadings([
+      null,
+      {
+        vehicle: { id: 'vehicle-1', registrationNumber: 'TG-1234-AB' },
+        previousMileage: 10000,
+        mileage: 19000,
+        since: new Date(),
+      },
+    ]);
+
+    expect(createNotification).toHaveBeenCalledTimes(1);
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', entityId: 'vehicle-1' })
+    );
+  });
+
+  it('does nothing without a flagged reading', async () => {
+    await odometerService.notifyFlaggedReadings([null]);
+
+    expect(prismaMock.user.findMany).not.toHaveBeenCalled();
+    expect(createNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe('odometer.service > correctOdometerReading', () => {
+  const correction = { mileage: 10100, reason: 'Digit typed twice at check-out' };
+
+  it('keeps the original value, clears the flag and audits the change', async () => {
+    prismaMock.odometerReading.findUnique.mockResolvedValue(
+      makeReading({ mileage: 101000, isFlagged: true })
+    );
+    prismaMock.odometerReading.findFirst
+      .mockResolvedValueOnce(makeReading({ id: 'reading-0', mileage: 10000 }))
+      .mockResolvedValueOnce(null);
+
+    await odometerService.correctOdometerReading(
+      'vehicle-1',
+      'reading-1',
+      correction,
+      'admin-1'
+    );
+
+    expect(prismaMock.odometerReading.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'reading-1' },
+        data: expect.objectContaining({
+          mileage: 10100,
+          originalMileage: 101000,
+          correctedById: 'admin-1',
+          correctionReason: correction.reason,
+          isFlagged: false,
+        }),
+      })
+    );
+    // The latest reading is the current mileage of the vehicle
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith({
+      where: { id: 'vehicle-1' },
+      data: { currentMileage: 10100 },
+    });
+    expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        entityType: 'odometer_reading',
+        entityId: 'reading-1',
+        oldValues: { mileage: 101000 },
+      }),
+    });
+  });
+
+  it('links the next reading to the corrected value', async () => {
+    prismaMock.odometerReading.findUnique.mockResolvedValue(makeReading({ mileage: 10500 }));
+    prismaMock.odometerReading.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(makeReading({ id: 'reading-2', mileage: 10400 }));
+
+    await odometerService.correctOdometerReading(
+      'vehicle-1',
+      'reading-1',
+      correction,
+      'admin-1'
+    );
+
+    expect(prismaMock.odometerReading.update).toHaveBeenCalledWith({
+      where: { id: 'reading-2' },
+      data: { previousMileage: 10100 },
+    });
+    expect(prismaMock.vehicle.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses a value out of order with the readings around it', async () => {
+    prismaMock.odometerReading.findUnique.mockResolvedValue(makeReading());
+    prismaMock.odometerReading.findFirst
+      .mockResolvedValueOnce(makeReading({ id: 'reading-0', mileage: 10200 }))
+      .mockResolvedValueOnce(null);
+
+    await expect(
+      odometerService.correctOdometerReading('vehicle-1', 'reading-1', correction, 'admin-1')
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.auditLog.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,218 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  part: {
+    findUnique: jest.fn(),
+  },
+  partStock: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    updateMany: jest.fn(),
+    upsert: jest.fn(),
+  },
+  maintenancePart: {
+    create: jest.fn(),
+  },
+  location: {
+    findUnique: jest.fn(),
+  },
+  user: {
+    findMany: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/notification.service.js', () => ({
+  createNotification: jest.fn(),
+}));
+
+const partService = await import('../src/services/part.service.js');
+const { BadRequestError, ConflictError } = await import('../src/utils/errors.js');
+const { createNotification } = await import('../src/services/notification.service.js');
+
+const vehicle = {
+  id: 'vehicle-1',
+  brand: 'Toyota',
+  model: 'Hilux',
+  registrationNumber: 'TG-1234-AB',
+  locationId: 'location-1',
+};
+
+const location = { id: 'location-1', name: 'Lome', isActive: true };
+
+function makePart(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'part-1',
+    sku: 'FLT-HUI-TOY',
+    name: 'Oil filter',
+    compatibleModels: ['Toyota'],
+    unitCost: 8500,
+    reorderLevel: 2,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  prismaMock.$transaction.mockImplementation(
+    async (fn: unknown) => (fn as (tx: typeof prismaMock) => Promise<unknown>)(prismaMock)
+  );
+  prismaMock.part.findUnique.mockResolvedValue(makePart());
+  prismaMock.location.findUnique.mockResolvedValue(location);
+  prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+  prismaMock.partStock.updateMany.mockResolvedValue({ count: 1 });
+  prismaMock.partStock.findUnique.mockResolvedValue({ quantity: 10, location });
+});
+
+describe('part.service > partFitsVehicle', () => {
+  it('matches a brand or a brand and model regardless of case', () => {
+    expect(partService.partFitsVehicle({ compatibleModels: ['toyota'] }, vehicle)).toBe(true);
+    expect(
+      partService.partFitsVehicle({ compatibleModels: ['Toyota HILUX'] }, vehicle)
+    ).toBe(true);
+    expect(
+      partService.partFitsVehicle({ compatibleModels: ['Toyota Corolla'] }, vehicle)
+    ).toBe(false);
+  });
+
+  it('fits every vehicle when no model is listed', () => {
+    expect(partService.partFitsVehicle({ compatibleModels: [] }, vehicle)).toBe(true);
+  });
+});
+
+describe('part.service > consumeParts', () => {
+  it('takes the parts from the vehicle location and records them on the vehicle', async () => {
+    const lowStock = await partService.consumeParts('maintenance-1', vehicle, [
+      { partId: 'part-1', quantity: 2 },
+    ]);
+
+    expect(prismaMock.partStock.updateMany).toHaveBeenCalledWith({
+      where: { partId: 'part-1', locationId: 'location-1', quantity: { gte: 2 } },
+      data: { quantity: { decrement: 2 } },
+    });
+    expect(prismaMock.maintenancePart.create).toHaveBeenCalledWith({
+      data: {
+        maintenanceId: 'maintenance-1',
+        partId: 'part-1',
+        vehicleId: 'vehicle-1',
+        locationId: 'location-1',
+        quantity: 2,
+        unitCost: 8500,
+      },
+    });
+    expect(lowStock).toEqual([]);
+  });
+
+  it('returns the locations left at or below the reorder level', async () => {
+    prismaMock.partStock.findUnique.mockResolvedValue({ quantity: 2, location });
+
+    const lowStock = await partService.consumeParts('maintenance-1', vehicle, [
+      { partId: 'part-1', quantity: 1 },
+    ]);
+
+    expect(lowStock).toEqual([
+      expect.objectContaining({
+        location,
+        quantity: 2,
+        part: expect.objectContaining({ id: 'part-1' }),
+      }),
+    ]);
+  });
+
+  it('refuses to fit more parts than the stock holds', async () => {
+    prismaMock.partStock.updateMany.mockResolvedValue({ count: 0 });
+
+    const promise = partService.consumeParts('maintenance-1', vehicle, [
+      { partId: 'part-1', quantity: 5 },
+    ]);
+
+    await expect(promise).rejects.toThrow(ConflictError);
+    await expect(promise).rejects.toMatchObject({ code: 'INSUFFICIENT_STOCK' });
+    expect(prismaMock.maintenancePart.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a part made for another model', async () => {
+    prismaMock.part.findUnique.mockResolvedValue(
+      makePart({ compatibleModels: ['Nissan Patrol'] })
+    );
+
+    await expect(
+      partService.consumeParts('maintenance-1', vehicle, [{ partId: 'part-1', quantity: 1 }])
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.partStock.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('needs a location when the vehicle has none', async () => {
+    await expect(
+      partService.consumeParts('maintenance-1', { ...vehicle, locationId: null }, [
+        { partId: 'part-1', quantity: 1 },
+      ])
+    ).rejects.toThrow(BadRequestError);
+  });
+});
+
+describe('part.service > adjustStock', () => {
+  it('refuses a correction taking the stock below zero', async () => {
+    prismaMock.partStock.findUnique.mockResolvedValue({ quantity: 3 });
+
+    await expect(
+      partService.adjustStock('part-1', { locationId: 'location-1', quantity: -4 }, 'manager-1')
+    ).rejects.toThrow(BadRequestError);
+    expect(prismaMock.partStock.upsert).not.toHaveBeenCalled();
+  });
+
+  it('alerts the admins when a correction reaches the reorder level', async () => {
+    prismaMock.partStock.findUnique.mockResolvedValue({ quantity: 3 });
+
+    await partService.adjustStock(
+      'part-1',
+      { locationId: 'location-1', quantity: -1, reason: 'Inventory' },
+      'manager-1'
+    );
+
+    expect(prismaMock.partStock.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { quantity: 2 } })
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', title: 'Low Stock', entityId: 'part-1' })
+    );
+  });
+
+  it('does not alert when parts are received', async () => {
+    prismaMock.partStock.findUnique.mockResolvedValue(null);
+
+    await partService.adjustStock('part-1', { locationId: 'location-1', quantity: 1 }, 'manager-1');
+
+    expect(prismaMock.partStock.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: { partId: 'part-1', locationId: 'location-1', quantity: 1 },
+      })
+    );
+    expect(createNotification).not.toHaveBeenCalled();
+  });
+});
+
+describe('part.service > getLowStock', () => {
+  it('keeps the stocks at or below the reorder level of their part', async () => {
+    prismaMock.partStock.findMany.mockResolvedValue([
+      { quantity: 0, part: makePart({ reorderLevel: 0 }), location },
+      { quantity: 4, part: makePart({ id: 'part-2', reorderLevel: 3 }), location },
+    ]);
+
+    const entries = await partService.getLowStock();
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ quantity: 0, part: { id: 'part-1' } });
+  });
+});
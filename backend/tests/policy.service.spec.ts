@@ -0,0 +1,107 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  setting: {
+    findUnique: jest.fn(),
+  },
+  holiday: {
+    findMany: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const policyService = await import('../src/services/policy.service.js');
+const { ValidationError } = await import('../src/utils/errors.js');
+const { clearSettingsCache } = await import('../src/services/settings.service.js');
+
+// Monday 2 March 2026, 09:00 UTC
+const now = new Date('2026-03-02T09:00:00Z');
+
+const policy = {
+  ...policyService.DEFAULT_BOOKING_POLICY,
+  minNoticeHours: 2,
+  maxDurationDays: 5,
+  maxAdvanceDays: 60,
+  bookingHours: { start: '07:00', end: '19:00' },
+  weekendRoles: ['ADMIN' as const],
+};
+
+const holidays = [
+  { name: 'Fete de l\'Independance', date: new Date('2020-04-27T00:00:00Z'), isRecurring: true },
+  { name: 'Tabaski', date: new Date('2025-03-19T00:00:00Z'), isRecurring: false },
+];
+
+function check(start: string, end: string, role: 'EMPLOYEE' | 'ADMIN' = 'EMPLOYEE') {
+  return policyService
+    .checkBookingPolicy(
+      policy,
+      { startDate: new Date(start), endDate: new Date(end) },
+      role,
+      holidays,
+      now
+    )
+    .map((violation) => violation.rule);
+}
+
+describe('policy.service > checkBookingPolicy', () => {
+  it('accepts a weekday window within every limit', () => {
+    expect(check('2026-03-03T08:00:00Z', '2026-03-04T17:00:00Z')).toEqual([]);
+  });
+
+  it('reports every violated rule at once', () => {
+    // Saturday 2 May, picked up at night, lasting a week and too far ahead
+    expect(check('2026-05-02T22:00:00Z', '2026-05-09T10:00:00Z')).toEqual([
+      'maxAdvance',
+      'maxDuration',
+      'bookingHours',
+      'weekend',
+    ]);
+    expect(check('2026-03-02T10:00:00Z', '2026-03-02T12:00:00Z')).toEqual(['minNotice']);
+  });
+
+  it('blocks recurring holidays every year and one-off holidays on their date only', () => {
+    expect(check('2026-04-27T08:00:00Z', '2026-04-27T12:00:00Z')).toEqual(['holiday']);
+    expect(check('2026-04-25T08:00:00Z', '2026-04-28T12:00:00Z', 'ADMIN')).toEqual(['holiday']);
+    expect(check('2026-04-28T08:00:00Z', '2026-04-28T12:00:00Z')).toEqual([]);
+    expect(check('2026-03-19T08:00:00Z', '2026-03-19T12:00:00Z')).toEqual([]);
+  });
+
+  it('lets the allowed roles book over the weekend', () => {
+    expect(check('2026-03-07T08:00:00Z', '2026-03-08T12:00:00Z')).toEqual(['weekend']);
+    expect(check('2026-03-07T08:00:00Z', '2026-03-08T12:00:00Z', 'ADMIN')).toEqual([]);
+  });
+});
+
+describe('policy.service > assertBookingPolicy', () => {
+  beforeEach(() => {
+    clearSettingsCache();
+  });
+
+  it('merges the stored policy over the defaults and lists violations by rule', async () => {
+    prismaMock.setting.findUnique.mockResolvedValue({
+      key: policyService.BOOKING_POLICY_SETTING_KEY,
+      value: { maxDurationDays: 1, weekendRoles: [] },
+    });
+    prismaMock.holiday.findMany.mockResolvedValue([]);
+
+    const start = new Date(Date.now() + 24 * 3600 * 1000);
+    const end = new Date(start.getTime() + 9 * 24 * 3600 * 1000);
+
+    const error = await policyService
+      .assertBookingPolicy([{ startDate: start, endDate: end }], 'EMPLOYEE')
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(Object.keys((error as InstanceType<typeof ValidationError>).errors)).toEqual([
+      'maxDuration',
+      'weekend',
+    ]);
+  });
+});
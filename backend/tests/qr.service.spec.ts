@@ -0,0 +1,131 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  vehicle: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    update: jest.fn(),
+  },
+  reservation: {
+    findFirst: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/reservation.service.js', () => ({
+  checkIn: jest.fn(),
+  checkOut: jest.fn(),
+}));
+
+const qrService = await import('../src/services/qr.service.js');
+const { ConflictError, NotFoundError } = await import('../src/utils/errors.js');
+const { checkIn, checkOut } = await import('../src/services/reservation.service.js');
+
+const checkInMock = checkIn as jest.Mock<(...args: unknown[]) => unknown>;
+const checkOutMock = checkOut as jest.Mock<(...args: unknown[]) => unknown>;
+
+const vehicle = {
+  id: 'vehicle-1',
+  brand: 'Toyota',
+  model: 'Hilux',
+  registrationNumber: 'TG-4521-BC',
+  qrCode: 'VH-ABCDEF0123456789',
+};
+
+beforeEach(() => {
+  prismaMock.vehicle.findUnique.mockResolvedValue(vehicle);
+});
+
+describe('qr.service > renderVehicleQrCode', () => {
+  it('renders a scan link as SVG and PNG', async () => {
+    const svg = await qrService.renderVehicleQrCode('vehicle-1', { format: 'svg', size: 200 });
+    expect(svg.contentType).toBe('image/svg+xml');
+    expect(svg.filename).toBe('qr-TG-4521-BC.svg');
+    expect(String(svg.body)).toContain('<svg');
+
+    const png = await qrService.renderVehicleQrCode('vehicle-1', { format: 'png', size: 200 });
+    expect(png.contentType).toBe('image/png');
+    expect((png.body as Buffer).subarray(1, 4).toString()).toBe('PNG');
+  });
+
+  it('assigns a code to a vehicle that has none yet', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue({ ...vehicle, qrCode: null });
+    prismaMock.vehicle.update.mockResolvedValue({ ...vehicle, qrCode: 'VH-NEW' });
+
+    await qrService.renderVehicleQrCode('vehicle-1', { format: 'svg', size: 200 });
+
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith({
+      where: { id: 'vehicle-1' },
+      data: { qrCode: expect.stringMatching(/^VH-/) },
+    });
+  });
+});
+
+describe('qr.service > resolveScan', () => {
+  it('rejects an unknown code', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(null);
+
+    await expect(qrService.resolveScan('VH-UNKNOWN', 'driver-1')).rejects.toThrow(
+      NotFoundError
+    );
+  });
+
+  it('offers check-out for a trip in progress', async () => {
+    prismaMock.reservation.findFirst.mockResolvedValueOnce({ id: 'res-1', status: 'IN_PROGRESS' });
+
+    const result = await qrService.resolveScan(vehicle.qrCode, 'driver-1');
+
+    expect(result.action).toBe('CHECK_OUT');
+    expect(result.reservation?.id).toBe('res-1');
+    expect(prismaMock.reservation.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          vehicleId: 'vehicle-1',
+          OR: [{ userId: 'driver-1' }, { driverId: 'driver-1' }],
+        }),
+      })
+    );
+  });
+
+  it('offers check-in for an approved trip about to start', async () => {
+    prismaMock.reservation.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'res-2', status: 'APPROVED' });
+
+    const result = await qrService.resolveScan(vehicle.qrCode, 'driver-1');
+
+    expect(result.action).toBe('CHECK_IN');
+    expect(result.reservation?.id).toBe('res-2');
+  });
+});
+
+describe('qr.service > scanCheckIn / scanCheckOut', () => {
+  it('checks in the reservation found for the scanning user', async () => {
+    prismaMock.reservation.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'res-2', status: 'APPROVED' });
+    checkInMock.mockResolvedValue({ id: 'res-2', status: 'IN_PROGRESS' });
+
+    await qrService.scanCheckIn(vehicle.qrCode, 'driver-1', { mileage: 42000 });
+
+    expect(checkInMock).toHaveBeenCalledWith('res-2', 'driver-1', { mileage: 42000 });
+  });
+
+  it('refuses to check out when the user has no trip in progress on the vehicle', async () => {
+    prismaMock.reservation.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'res-2', status: 'APPROVED' });
+
+    await expect(
+      qrService.scanCheckOut(vehicle.qrCode, 'driver-1', { mileage: 42100 })
+    ).rejects.toThrow(ConflictError);
+    expect(checkOutMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { parseRecurrenceRule, expandRecurrence } from '../src/utils/recurrence.js';
+import { BadRequestError } from '../src/utils/errors.js';
+
+const start = new Date('2030-01-07T08:00:00.000Z'); // Monday
+const end = new Date('2030-01-07T12:00:00.000Z');
+
+function startDays(pattern: string): string[] {
+  return expandRecurrence(start, end, parseRecurrenceRule(pattern)).map(
+    (o) => o.startDate.toISOString().split('T')[0] as string
+  );
+}
+
+describe('recurrence > parseRecurrenceRule', () => {
+  it('rejects an unsupported frequency', () => {
+    expect(() => parseRecurrenceRule('FREQ=YEARLY;COUNT=2')).toThrow(BadRequestError);
+  });
+
+  it('rejects an unbounded rule', () => {
+    expect(() => parseRecurrenceRule('FREQ=DAILY')).toThrow(/UNTIL or COUNT/);
+  });
+
+  it('rejects an invalid weekday', () => {
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=XX;COUNT=2')).toThrow(
+      BadRequestError
+    );
+  });
+});
+
+describe('recurrence > expandRecurrence', () => {
+  it('expands a daily rule bounded by COUNT and keeps the duration', () => {
+    const occurrences = expandRecurrence(start, end, parseRecurrenceRule('FREQ=DAILY;COUNT=3'));
+
+    expect(occurrences).toHaveLength(3);
+    expect(occurrences[2]!.startDate.toISOString()).toBe('2030-01-09T08:00:00.000Z');
+    expect(occurrences[2]!.endDate.toISOString()).toBe('2030-01-09T12:00:00.000Z');
+  });
+
+  it('expands a weekly rule on given weekdays until a date', () => {
+    expect(startDays('FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20300116')).toEqual([
+      '2030-01-07',
+      '2030-01-09',
+      '2030-01-14',
+      '2030-01-16',
+    ]);
+  });
+
+  it('honours the interval of a weekly rule', () => {
+    expect(startDays('FREQ=WEEKLY;INTERVAL=2;COUNT=3')).toEqual([
+      '2030-01-07',
+      '2030-01-21',
+      '2030-02-04',
+    ]);
+  });
+
+  it('skips months that do not have the start day', () => {
+    const jan31 = new Date('2030-01-31T08:00:00.000Z');
+    const occurrences = expandRecurrence(
+      jan31,
+      new Date('2030-01-31T10:00:00.000Z'),
+      parseRecurrenceRule('FREQ=MONTHLY;COUNT=3')
+    );
+
+    expect(occurrences.map((o) => o.startDate.toISOString().split('T')[0])).toEqual([
+      '2030-01-31',
+      '2030-03-31',
+      '2030-05-31',
+    ]);
+  });
+
+  it('rejects occurrences lasting past the start of the next one', () => {
+    const threeDays = new Date('2030-01-10T08:00:00.000Z');
+
+    expect(() =>
+      expandRecurrence(start, threeDays, parseRecurrenceRule('FREQ=DAILY;COUNT=3'))
+    ).toThrow(/end before the next one starts/);
+    expect(
+      expandRecurrence(start, threeDays, parseRecurrenceRule('FREQ=WEEKLY;COUNT=3'))
+    ).toHaveLength(3);
+  });
+
+  it('rejects a rule producing too many occurrences', () => {
+    expect(() =>
+      expandRecurrence(start, end, parseRecurrenceRule('FREQ=DAILY;UNTIL=20400101'))
+    ).toThrow(/cannot exceed/);
+  });
+});
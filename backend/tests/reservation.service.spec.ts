@@ -1,21 +1,49 @@
 import { jest } from '@jest/globals';
 
 const prismaMock = {
+  $transaction: jest.fn(),
   reservation: {
     findFirst: jest.fn(),
     findUnique: jest.fn(),
     findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
+    updateMany: jest.fn(),
     count: jest.fn(),
   },
   vehicle: {
     findUnique: jest.fn(),
+    findMany: jest.fn(),
     update: jest.fn(),
   },
+  maintenance: {
+    findMany: jest.fn(),
+    create: jest.fn(),
+  },
+  maintenancePlan: {
+    findMany: jest.fn(),
+  },
+  reservationSegment: {
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  odometerReading: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+  },
+  department: {
+    findUnique: jest.fn(),
+  },
+  setting: {
+    findUnique: jest.fn(),
+  },
+  holiday: {
+    findMany: jest.fn(),
+  },
   user: {
     findUnique: jest.fn(),
     findMany: jest.fn(),
+    update: jest.fn(),
   },
   reservationHistory: {
     create: jest.fn(),
@@ -28,6 +56,7 @@ const prismaMock = {
   },
   notification: {
     create: jest.fn(),
+    findMany: jest.fn(),
   },
 };
 
@@ -48,15 +77,29 @@ jest.unstable_mockModule('../src/services/notification.service.js', () => ({
   createNotification: jest.fn(),
 }));
 
+jest.unstable_mockModule('../src/services/waitlist.service.js', () => ({
+  offerFreedSlot: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/maintenance.service.js', () => ({
+  reportDisplacedReservations: jest.fn(),
+}));
+
+const { Prisma } = await import('@prisma/client');
 const reservationService = await import('../src/services/reservation.service.js');
-const { BadRequestError, NotFoundError, ConflictError } = await import(
-  '../src/utils/errors.js'
-);
+const { BadRequestError, NotFoundError, ConflictError, ForbiddenError, ValidationError } =
+  await import('../src/utils/errors.js');
+const { createNotification } = await import('../src/services/notification.service.js');
+const { reportDisplacedReservations } = await import('../src/services/maintenance.service.js');
+const { offerFreedSlot } = await import('../src/services/waitlist.service.js');
+const { clearSettingsCache } = await import('../src/services/settings.service.js');
 
 function makeVehicle(overrides: Record<string, unknown> = {}) {
   return {
     id: 'vehicle-1',
     status: 'AVAILABLE',
+    isActive: true,
+    outOfServiceUntil: null,
     brand: 'Toyota',
     model: 'Corolla',
     dailyRate: 20000,
@@ -78,16 +121,28 @@ function makeReservation(overrides: Record<string, unknown> = {}) {
     endDate: new Date(Date.now() + 30 * 3600 * 1000),
     checkInMileage: null,
     vehicle: makeVehicle(),
+    segments: [],
     user: { email: 'user@test.com', firstName: 'Test' },
     ...overrides,
   };
 }
 
 beforeEach(() => {
+  clearSettingsCache();
+  prismaMock.$transaction.mockImplementation((fn: unknown) =>
+    (fn as (tx: typeof prismaMock) => unknown)(prismaMock)
+  );
   prismaMock.user.findMany.mockResolvedValue([]);
   prismaMock.reservationHistory.create.mockResolvedValue({});
+  prismaMock.maintenance.findMany.mockResolvedValue([]);
+  prismaMock.maintenancePlan.findMany.mockResolvedValue([]);
+  prismaMock.department.findUnique.mockResolvedValue(null);
+  prismaMock.setting.findUnique.mockResolvedValue(null);
+  prismaMock.holiday.findMany.mockResolvedValue([]);
   prismaMock.auditLog.create.mockResolvedValue({});
   prismaMock.notificationPreference.findUnique.mockResolvedValue(null);
+  prismaMock.odometerReading.findFirst.mockResolvedValue(null);
+  prismaMock.odometerReading.create.mockResolvedValue({});
 });
 
 describe('reservation.service > createReservation', () => {
@@ -108,6 +163,25 @@ describe('reservation.service > createReservation', () => {
     ).rejects.toThrow(BadRequestError);
   });
 
+  it('reports every booking policy violation before looking for a vehicle', async () => {
+    prismaMock.setting.findUnique.mockResolvedValue({
+      key: 'booking.policy',
+      value: { minNoticeHours: 48, maxDurationDays: 0.1 },
+    });
+    prismaMock.user.findUnique.mockResolvedValue({ role: 'EMPLOYEE' });
+
+    const error = await reservationService
+      .createReservation(validInput, 'user-1')
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as InstanceType<typeof ValidationError>).errors).toEqual({
+      minNotice: [expect.stringContaining('48 hour(s)')],
+      maxDuration: [expect.stringContaining('0.1 days')],
+    });
+    expect(prismaMock.vehicle.findUnique).not.toHaveBeenCalled();
+  });
+
   it('rejects when the vehicle does not exist', async () => {
     prismaMock.vehicle.findUnique.mockResolvedValue(null);
 
@@ -116,12 +190,43 @@ describe('reservation.service > createReservation', () => {
     ).rejects.toThrow(NotFoundError);
   });
 
-  it('rejects when the vehicle is not AVAILABLE', async () => {
+  it('rejects when the vehicle is out of service with no end date', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle({ status: 'OUT_OF_SERVICE' }));
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+
+    await expect(
+      reservationService.createReservation(validInput, 'user-1')
+    ).rejects.toThrow('Vehicle is out of service');
+  });
+
+  it('accepts a future booking on a vehicle currently in use', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle({ status: 'IN_USE' }));
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+    prismaMock.user.findUnique.mockResolvedValue(null);
+    prismaMock.reservation.create.mockResolvedValue(makeReservation());
+
+    await reservationService.createReservation(validInput, 'user-1');
+
+    expect(prismaMock.reservation.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects when the window overlaps a scheduled maintenance', async () => {
     prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle({ status: 'MAINTENANCE' }));
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+    prismaMock.maintenance.findMany.mockResolvedValue([
+      {
+        id: 'maint-1',
+        status: 'SCHEDULED',
+        scheduledDate: new Date(validInput.startDate),
+        startDate: null,
+        estimatedEndDate: new Date(validInput.endDate),
+      },
+    ]);
 
     await expect(
       reservationService.createReservation(validInput, 'user-1')
-    ).rejects.toThrow(ConflictError);
+    ).rejects.toThrow(/scheduled for maintenance/);
+    expect(prismaMock.reservation.create).not.toHaveBeenCalled();
   });
 
   it('rejects when there is a conflicting reservation on the same dates', async () => {
@@ -133,6 +238,80 @@ describe('reservation.service > createReservation', () => {
     ).rejects.toThrow(ConflictError);
   });
 
+  it('names the conflicting reservation and its time window', async () => {
+    const conflicting = makeReservation({ referenceNumber: 'RES-OTHER' });
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle());
+    prismaMock.reservation.findFirst.mockResolvedValue(conflicting);
+
+    await expect(
+      reservationService.createReservation(validInput, 'user-1')
+    ).rejects.toThrow(
+      `reservation RES-OTHER from ${(conflicting.startDate as Date).toISOString()} ` +
+        `to ${(conflicting.endDate as Date).toISOString()}`
+    );
+    expect(prismaMock.reservation.create).not.toHaveBeenCalled();
+  });
+
+  it('checks availability and creates inside a serializable transaction, retrying on serialization failures', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle());
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+    prismaMock.user.findUnique.mockResolvedValue(null);
+    prismaMock.reservation.create.mockResolvedValue(makeReservation());
+    prismaMock.$transaction.mockRejectedValueOnce(
+      new Prisma.PrismaClientKnownRequestError('Transaction failed due to a write conflict', {
+        code: 'P2034',
+        clientVersion: 'test',
+      })
+    );
+
+    await reservationService.createReservation(validInput, 'user-1');
+
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(2);
+    expect(prismaMock.$transaction.mock.calls[1]![1]).toEqual({
+      isolationLevel: 'Serializable',
+    });
+    expect(prismaMock.reservation.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports every clashing date of a recurring reservation', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle());
+    prismaMock.reservation.findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(makeReservation())
+      .mockResolvedValueOnce(null);
+
+    await expect(
+      reservationService.createReservation(
+        { ...validInput, isRecurring: true, recurringPattern: 'FREQ=DAILY;COUNT=3' },
+        'user-1'
+      )
+    ).rejects.toThrow(/not available on: \d{4}-\d{2}-\d{2}$/);
+    expect(prismaMock.reservation.create).not.toHaveBeenCalled();
+  });
+
+  it('creates one linked reservation per occurrence of a recurring reservation', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle());
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+    prismaMock.user.findUnique.mockResolvedValue({
+      departmentId: 'dept-1',
+      email: 'user@test.com',
+      firstName: 'Test',
+    });
+    prismaMock.reservation.create.mockResolvedValue(makeReservation());
+
+    await reservationService.createReservation(
+      { ...validInput, isRecurring: true, recurringPattern: 'FREQ=WEEKLY;COUNT=4' },
+      'user-1'
+    );
+
+    expect(prismaMock.reservation.create).toHaveBeenCalledTimes(4);
+    const seriesIds = prismaMock.reservation.create.mock.calls.map(
+      (call) => (call[0] as { data: { seriesId: string } }).data.seriesId
+    );
+    expect(new Set(seriesIds).size).toBe(1);
+    expect(seriesIds[0]).toBeTruthy();
+  });
+
   it('creates a PENDING reservation and notifies managers when everything is valid', async () => {
     prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle());
     prismaMock.reservation.findFirst.mockResolvedValue(null);
@@ -153,6 +332,257 @@ describe('reservation.service > createReservation', () => {
   });
 });
 
+describe('reservation.service > category booking', () => {
+  const categoryInput = {
+    vehicleType: 'SEDAN' as const,
+    minSeats: 4,
+    pickupLocationId: '11111111-1111-4111-8111-111111111111',
+    startDate: new Date(Date.now() + 24 * 3600 * 1000).toISOString(),
+    endDate: new Date(Date.now() + 30 * 3600 * 1000).toISOString(),
+    purpose: 'Mission client importante',
+    destination: 'Lome',
+  };
+
+  function makeCandidate(id: string, overrides: Record<string, unknown> = {}) {
+    return makeVehicle({
+      id,
+      type: 'SEDAN',
+      seats: 5,
+      locationId: categoryInput.pickupLocationId,
+      lastServiceMileage: null,
+      lastServiceDate: null,
+      reservations: [],
+      maintenances: [],
+      ...overrides,
+    });
+  }
+
+  it('assigns the best ranked vehicle that is free', async () => {
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      makeCandidate('vehicle-far', { locationId: null, currentMileage: 100 }),
+      makeCandidate('vehicle-best', { currentMileage: 5000 }),
+    ]);
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle());
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+    prismaMock.user.findUnique.mockResolvedValue(null);
+    prismaMock.reservation.create.mockResolvedValue(makeReservation());
+
+    await reservationService.createReservation(categoryInput, 'user-1');
+
+    expect(prismaMock.reservation.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          vehicleId: 'vehicle-best',
+          isAutoAssigned: true,
+          requestedVehicleType: 'SEDAN',
+        }),
+      })
+    );
+  });
+
+  it('reports when no vehicle of the category is available', async () => {
+    prismaMock.vehicle.findMany.mockResolvedValue([]);
+    prismaMock.user.findUnique.mockResolvedValue(null);
+
+    await expect(
+      reservationService.createReservation(categoryInput, 'user-1')
+    ).rejects.toThrow(/No vehicle matching the requested category/);
+  });
+});
+
+describe('reservation.service > approval chain', () => {
+  const validInput = {
+    vehicleId: 'vehicle-1',
+    startDate: new Date(Date.now() + 24 * 3600 * 1000).toISOString(),
+    endDate: new Date(Date.now() + 30 * 3600 * 1000).toISOString(),
+    purpose: 'Mission client importante',
+    destination: 'Lome',
+  };
+
+  beforeEach(() => {
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+    prismaMock.user.findUnique.mockResolvedValue({
+      departmentId: 'dept-1',
+      email: 'user@test.com',
+      firstName: 'Test',
+    });
+    prismaMock.department.findUnique.mockResolvedValue({
+      managerId: 'dept-manager',
+      isActive: true,
+    });
+    prismaMock.reservation.create.mockResolvedValue(makeReservation());
+  });
+
+  it('only needs the department manager below every threshold', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle({ type: 'SEDAN' }));
+
+    await reservationService.createReservation(validInput, 'user-1');
+
+    const createArgs = prismaMock.reservation.create.mock.calls[0]![0] as {
+      data: { approvalChain: string[]; approvalStep: string };
+    };
+    expect(createArgs.data.approvalChain).toEqual(['DEPARTMENT_MANAGER']);
+    expect(createArgs.data.approvalStep).toBe('DEPARTMENT_MANAGER');
+    expect(createNotification).toHaveBeenCalledTimes(1);
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'dept-manager' })
+    );
+  });
+
+  it('adds the fleet admin step for vehicle types above the policy', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle({ type: 'LUXURY' }));
+
+    await reservationService.createReservation(validInput, 'user-1');
+
+    const createArgs = prismaMock.reservation.create.mock.calls[0]![0] as {
+      data: { approvalChain: string[] };
+    };
+    expect(createArgs.data.approvalChain).toEqual(['DEPARTMENT_MANAGER', 'FLEET_ADMIN']);
+  });
+
+  it('keeps the reservation PENDING and moves to the next step after the first approval', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({
+        departmentId: 'dept-1',
+        approvalChain: ['DEPARTMENT_MANAGER', 'FLEET_ADMIN'],
+        approvalStep: 'DEPARTMENT_MANAGER',
+      })
+    );
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'dept-manager', role: 'MANAGER' });
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle());
+    prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+    prismaMock.reservation.update.mockResolvedValue(makeReservation());
+
+    await reservationService.approveReservation('res-1', 'dept-manager');
+
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { approvalStep: 'FLEET_ADMIN' } })
+    );
+    expect(prismaMock.reservationHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        previousStatus: 'PENDING',
+        newStatus: 'PENDING',
+        comment: 'Approved by department manager (step 1/2)',
+      }),
+    });
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1' })
+    );
+  });
+
+  it('forbids approving a step that belongs to someone else', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({
+        departmentId: 'dept-1',
+        approvalChain: ['DEPARTMENT_MANAGER'],
+        approvalStep: 'DEPARTMENT_MANAGER',
+      })
+    );
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'other-manager', role: 'MANAGER' });
+
+    await expect(
+      reservationService.approveReservation('res-1', 'other-manager')
+    ).rejects.toThrow(ForbiddenError);
+    expect(prismaMock.reservation.update).not.toHaveBeenCalled();
+  });
+
+  it('approves the reservation when the last step completes', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({
+        departmentId: 'dept-1',
+        approvalChain: ['DEPARTMENT_MANAGER', 'FLEET_ADMIN'],
+        approvalStep: 'FLEET_ADMIN',
+      })
+    );
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'admin-1', role: 'ADMIN' });
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle());
+    prismaMock.reservation.update.mockResolvedValue(makeReservation({ status: 'APPROVED' }));
+
+    await reservationService.approveReservation('res-1', 'admin-1');
+
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: 'APPROVED',
+          approvalStep: null,
+          approvedById: 'admin-1',
+        }),
+      })
+    );
+  });
+});
+
+describe('reservation.service > reassignVehicle', () => {
+  const pending = makeReservation({
+    departmentId: 'dept-1',
+    approvalChain: ['DEPARTMENT_MANAGER'],
+    approvalStep: 'DEPARTMENT_MANAGER',
+    vehicle: makeVehicle({ type: 'SEDAN', registrationNumber: 'TG-0001-AA' }),
+  });
+
+  beforeEach(() => {
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+    prismaMock.reservation.findUnique.mockResolvedValue(pending);
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'dept-manager', role: 'MANAGER' });
+    prismaMock.department.findUnique.mockResolvedValue({
+      managerId: 'dept-manager',
+      isActive: true,
+    });
+    prismaMock.reservation.update.mockResolvedValue(makeReservation());
+  });
+
+  it('adds the fleet admin step when the booking moves to a luxury vehicle', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(
+      makeVehicle({ id: 'vehicle-2', type: 'LUXURY', registrationNumber: 'TG-0002-AA' })
+    );
+    prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+
+    await reservationService.reassignVehicle(
+      'res-1',
+      { vehicleId: 'vehicle-2' },
+      'dept-manager'
+    );
+
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          vehicleId: 'vehicle-2',
+          approvalChain: ['DEPARTMENT_MANAGER', 'FLEET_ADMIN'],
+          // The manager still decides first
+          approvalStep: 'DEPARTMENT_MANAGER',
+        }),
+      })
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', title: 'Reservation Awaiting Approval' })
+    );
+  });
+
+  it('keeps the chain of a move within the policy', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(
+      makeVehicle({ id: 'vehicle-2', type: 'SEDAN', registrationNumber: 'TG-0002-AA' })
+    );
+
+    await reservationService.reassignVehicle(
+      'res-1',
+      { vehicleId: 'vehicle-2' },
+      'dept-manager'
+    );
+
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          approvalChain: ['DEPARTMENT_MANAGER'],
+          approvalStep: 'DEPARTMENT_MANAGER',
+        }),
+      })
+    );
+    expect(createNotification).not.toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Reservation Awaiting Approval' })
+    );
+  });
+});
+
 describe('reservation.service > approveReservation', () => {
   it('rejects approving a reservation that is not PENDING', async () => {
     prismaMock.reservation.findUnique.mockResolvedValue(
@@ -208,6 +638,52 @@ describe('reservation.service > cancelReservation', () => {
 
     expect(result.status).toBe('CANCELLED');
   });
+
+  it('offers the released slot to the waitlist', async () => {
+    const reservation = makeReservation({ status: 'APPROVED' });
+    prismaMock.reservation.findUnique.mockResolvedValue(reservation);
+    prismaMock.reservation.update.mockResolvedValue(makeReservation({ status: 'CANCELLED' }));
+
+    await reservationService.cancelReservation('res-1', 'user-1', 'plans changed');
+
+    expect(offerFreedSlot).toHaveBeenCalledWith(
+      reservation.vehicleId,
+      reservation.startDate,
+      reservation.endDate
+    );
+  });
+
+  it('cancels only the selected occurrence by default', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({ status: 'PENDING', seriesId: 'series-1' })
+    );
+    prismaMock.reservation.update.mockResolvedValue(makeReservation({ status: 'CANCELLED' }));
+
+    await reservationService.cancelReservation('res-1', 'user-1', 'plans changed');
+
+    expect(prismaMock.reservation.findMany).not.toHaveBeenCalled();
+    expect(prismaMock.reservation.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels every open occurrence when the whole series is targeted', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({ status: 'PENDING', seriesId: 'series-1' })
+    );
+    prismaMock.reservation.findMany.mockResolvedValue([
+      makeReservation({ id: 'res-1', status: 'PENDING', seriesId: 'series-1' }),
+      makeReservation({ id: 'res-2', status: 'APPROVED', seriesId: 'series-1' }),
+      makeReservation({ id: 'res-3', status: 'PENDING', seriesId: 'series-1' }),
+    ]);
+    prismaMock.reservation.update.mockResolvedValue(makeReservation({ status: 'CANCELLED' }));
+
+    await reservationService.cancelReservation('res-1', 'user-1', 'plans changed', 'series');
+
+    expect(prismaMock.reservation.update).toHaveBeenCalledTimes(3);
+    const ids = prismaMock.reservation.update.mock.calls.map(
+      (call) => (call[0] as { where: { id: string } }).where.id
+    );
+    expect(ids).toEqual(['res-1', 'res-2', 'res-3']);
+  });
 });
 
 describe('reservation.service > checkIn', () => {
@@ -221,6 +697,17 @@ describe('reservation.service > checkIn', () => {
     ).rejects.toThrow(ConflictError);
   });
 
+  it('refuses a check-in mileage below the current reading of the vehicle', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({ status: 'APPROVED', vehicle: makeVehicle({ currentMileage: 2000 }) })
+    );
+
+    await expect(
+      reservationService.checkIn('res-1', 'manager-1', { mileage: 1500 })
+    ).rejects.toMatchObject({ code: 'ODOMETER_ROLLBACK' });
+    expect(prismaMock.reservation.update).not.toHaveBeenCalled();
+  });
+
   it('checks in an APPROVED reservation and marks the vehicle IN_USE', async () => {
     prismaMock.reservation.findUnique.mockResolvedValue(
       makeReservation({ status: 'APPROVED', vehicle: makeVehicle() })
@@ -283,4 +770,511 @@ describe('reservation.service > checkOut', () => {
       })
     );
   });
+
+  it('keeps a vehicle sent to maintenance during the trip out of service', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({
+        status: 'IN_PROGRESS',
+        checkInMileage: 1000,
+        actualStartDate: new Date(Date.now() - 3600 * 1000),
+        vehicle: makeVehicle({ status: 'MAINTENANCE' }),
+      })
+    );
+    prismaMock.reservation.update.mockResolvedValue(makeReservation({ status: 'COMPLETED' }));
+
+    await reservationService.checkOut('res-1', 'manager-1', { mileage: 1100 });
+
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: 'MAINTENANCE', currentMileage: 1100 }),
+      })
+    );
+  });
+});
+
+describe('reservation.service > swapVehicle', () => {
+  const hour = 3600 * 1000;
+
+  function makeTrip(overrides: Record<string, unknown> = {}) {
+    return makeReservation({
+      status: 'IN_PROGRESS',
+      checkInMileage: 1000,
+      actualStartDate: new Date(Date.now() - 3 * hour),
+      vehicle: makeVehicle({ type: 'SEDAN', registrationNumber: 'TG-0001-AA' }),
+      ...overrides,
+    });
+  }
+
+  const replacement = makeVehicle({
+    id: 'vehicle-2',
+    type: 'SEDAN',
+    registrationNumber: 'TG-0002-AA',
+    currentMileage: 5000,
+  });
+
+  beforeEach(() => {
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+    prismaMock.reservation.update.mockResolvedValue(makeTrip({ vehicleId: 'vehicle-2' }));
+    prismaMock.maintenance.create.mockResolvedValue({ id: 'maintenance-1' });
+  });
+
+  it('closes the broken vehicle leg, sends it to maintenance and continues on the replacement', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeTrip());
+    prismaMock.vehicle.findUnique.mockResolvedValue(replacement);
+
+    await reservationService.swapVehicle(
+      'res-1',
+      { mileage: 1250, reason: 'Engine failure near Atakpame', vehicleId: 'vehicle-2' },
+      'manager-1'
+    );
+
+    expect(prismaMock.reservationSegment.create).toHaveBeenNthCalledWith(1, {
+      data: expect.objectContaining({
+        vehicleId: 'vehicle-1',
+        startMileage: 1000,
+        endMileage: 1250,
+        distance: 250,
+      }),
+    });
+    expect(prismaMock.reservationSegment.create).toHaveBeenNthCalledWith(2, {
+      data: expect.objectContaining({ vehicleId: 'vehicle-2', startMileage: 5000 }),
+    });
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { vehicleId: 'vehicle-2' } })
+    );
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith({
+      where: { id: 'vehicle-1' },
+      data: { status: 'MAINTENANCE', currentMileage: 1250 },
+    });
+    expect(prismaMock.maintenance.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        vehicleId: 'vehicle-1',
+        type: 'CORRECTIVE',
+        status: 'IN_PROGRESS',
+      }),
+    });
+    // Later bookings of the broken vehicle are reported once the swap commits
+    expect(reportDisplacedReservations).toHaveBeenCalledWith({ id: 'maintenance-1' });
+  });
+
+  it('sends no odometer alert when the swap is rolled back', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeTrip());
+    prismaMock.vehicle.findUnique.mockResolvedValue(replacement);
+    prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+    // A reading taken an hour ago makes the new one implausible
+    prismaMock.odometerReading.findFirst.mockResolvedValue({
+      recordedAt: new Date(Date.now() - hour),
+    });
+    prismaMock.reservation.findFirst.mockResolvedValue(
+      makeReservation({ id: 'res-2', vehicleId: 'vehicle-2', status: 'APPROVED' })
+    );
+
+    await expect(
+      reservationService.swapVehicle(
+        'res-1',
+        { mileage: 9000, reason: 'Engine failure near Atakpame', vehicleId: 'vehicle-2' },
+        'manager-1'
+      )
+    ).rejects.toThrow(ConflictError);
+    expect(createNotification).not.toHaveBeenCalled();
+  });
+
+  it('picks an available vehicle of the same type when none is given', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeTrip());
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      { ...replacement, reservations: [], maintenances: [] },
+    ]);
+    prismaMock.vehicle.findUnique.mockResolvedValue(replacement);
+
+    await reservationService.swapVehicle(
+      'res-1',
+      { mileage: 1250, reason: 'Flat tyre, spare damaged' },
+      'manager-1'
+    );
+
+    expect(prismaMock.vehicle.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ type: 'SEDAN' }) })
+    );
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith({
+      where: { id: 'vehicle-2' },
+      data: { status: 'IN_USE' },
+    });
+  });
+
+  it('reports when no replacement is available', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeTrip());
+    prismaMock.vehicle.findMany.mockResolvedValue([]);
+
+    await expect(
+      reservationService.swapVehicle(
+        'res-1',
+        { mileage: 1250, reason: 'Engine failure near Atakpame' },
+        'manager-1'
+      )
+    ).rejects.toMatchObject({ code: 'NO_VEHICLE_AVAILABLE' });
+    expect(prismaMock.reservationSegment.create).not.toHaveBeenCalled();
+  });
+
+  it('prices each vehicle segment at check-out', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeTrip({
+        vehicleId: 'vehicle-2',
+        segments: [
+          {
+            id: 'seg-1',
+            vehicle: makeVehicle({ dailyRate: 20000, mileageRate: 100 }),
+            startDate: new Date(Date.now() - 10 * hour),
+            endDate: new Date(Date.now() - 4 * hour),
+            startMileage: 1000,
+            distance: 200,
+          },
+          {
+            id: 'seg-2',
+            vehicle: makeVehicle({ id: 'vehicle-2', dailyRate: 30000, mileageRate: 200 }),
+            startDate: new Date(Date.now() - 4 * hour),
+            endDate: null,
+            startMileage: 5000,
+            distance: null,
+          },
+        ],
+      })
+    );
+    prismaMock.reservation.update.mockResolvedValue(makeReservation({ status: 'COMPLETED' }));
+
+    await expect(
+      reservationService.checkOut('res-1', 'manager-1', { mileage: 4900 })
+    ).rejects.toThrow(BadRequestError);
+
+    await reservationService.checkOut('res-1', 'manager-1', { mileage: 5100 });
+
+    // One day billed 60/40 between the vehicles, plus each one's mileage
+    const updateArgs = prismaMock.reservation.update.mock.calls[0][0];
+    expect(updateArgs.data.actualMileage).toBe(300);
+    expect(updateArgs.data.actualCost).toBeCloseTo(64000, 0);
+    expect(prismaMock.reservationSegment.update).toHaveBeenCalledWith({
+      where: { id: 'seg-2' },
+      data: expect.objectContaining({ endMileage: 5100, distance: 100 }),
+    });
+    expect(prismaMock.vehicle.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'vehicle-2' } })
+    );
+  });
+});
+
+describe('reservation.service > resolveMaintenanceConflict', () => {
+  const booked = makeReservation({
+    status: 'APPROVED',
+    vehicle: makeVehicle({ type: 'SEDAN', registrationNumber: 'TG-0001-AA' }),
+  });
+  const replacement = makeVehicle({
+    id: 'vehicle-2',
+    type: 'SEDAN',
+    registrationNumber: 'TG-0002-AA',
+    dailyRate: 30000,
+    seats: 5,
+  });
+
+  beforeEach(() => {
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+  });
+
+  it('moves the reservation to the best free vehicle of the same category', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(booked);
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      { ...replacement, reservations: [], maintenances: [] },
+    ]);
+    prismaMock.vehicle.findUnique.mockResolvedValue(replacement);
+
+    const outcome = await reservationService.resolveMaintenanceConflict(
+      booked as never,
+      { reservationId: 'res-1', action: 'REASSIGN' },
+      'maintenance-1',
+      'manager-1'
+    );
+
+    expect(outcome).toEqual({ action: 'REASSIGN', vehicle: replacement, addedSteps: [] });
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith({
+      where: { id: 'res-1' },
+      data: { vehicleId: 'vehicle-2', estimatedCost: 30000 },
+    });
+    expect(prismaMock.reservationHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ previousStatus: 'APPROVED', newStatus: 'APPROVED' }),
+    });
+  });
+
+  it('applies the approval policy of the new vehicle to a pending reservation', async () => {
+    const pending = makeReservation({
+      departmentId: 'dept-1',
+      approvalChain: ['DEPARTMENT_MANAGER'],
+      approvalStep: 'DEPARTMENT_MANAGER',
+      vehicle: makeVehicle({ type: 'SEDAN', registrationNumber: 'TG-0001-AA' }),
+    });
+    prismaMock.vehicle.findUnique.mockResolvedValue({ ...replacement, type: 'LUXURY' });
+    prismaMock.user.findUnique.mockResolvedValue({ id: 'user-1', role: 'EMPLOYEE' });
+    prismaMock.department.findUnique.mockResolvedValue({
+      managerId: 'dept-manager',
+      isActive: true,
+    });
+
+    const outcome = await reservationService.resolveMaintenanceConflict(
+      pending as never,
+      { reservationId: 'res-1', action: 'REASSIGN', vehicleId: 'vehicle-2' },
+      'maintenance-1',
+      'manager-1'
+    );
+
+    expect(outcome).toMatchObject({ action: 'REASSIGN', addedSteps: ['FLEET_ADMIN'] });
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith({
+      where: { id: 'res-1' },
+      data: expect.objectContaining({
+        vehicleId: 'vehicle-2',
+        approvalChain: ['DEPARTMENT_MANAGER', 'FLEET_ADMIN'],
+        approvalStep: 'DEPARTMENT_MANAGER',
+      }),
+    });
+  });
+
+  it('refuses a replacement that is not free for the reservation', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(replacement);
+    prismaMock.reservation.findFirst.mockResolvedValue(
+      makeReservation({ id: 'res-2', referenceNumber: 'RES-OTHER', vehicleId: 'vehicle-2' })
+    );
+
+    await expect(
+      reservationService.resolveMaintenanceConflict(
+        booked as never,
+        { reservationId: 'res-1', action: 'REASSIGN', vehicleId: 'vehicle-2' },
+        'maintenance-1',
+        'manager-1'
+      )
+    ).rejects.toMatchObject({ code: 'RESERVATION_CONFLICT' });
+    expect(prismaMock.reservation.update).not.toHaveBeenCalled();
+  });
+
+  it('cancels the reservation without offering the slot to the waitlist', async () => {
+    const outcome = await reservationService.resolveMaintenanceConflict(
+      booked as never,
+      { reservationId: 'res-1', action: 'CANCEL' },
+      'maintenance-1',
+      'manager-1'
+    );
+
+    expect(outcome.action).toBe('CANCEL');
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith({
+      where: { id: 'res-1' },
+      data: expect.objectContaining({ status: 'CANCELLED' }),
+    });
+    expect(offerFreedSlot).not.toHaveBeenCalled();
+  });
+});
+
+describe('reservation.service > releaseUnusedReservations', () => {
+  const now = new Date('2030-03-10T12:00:00Z');
+
+  it('marks approved reservations never checked in as no-shows', async () => {
+    prismaMock.reservation.findMany
+      .mockResolvedValueOnce([
+        makeReservation({
+          status: 'APPROVED',
+          approvedById: 'manager-1',
+          startDate: new Date('2030-03-10T09:00:00Z'),
+          endDate: new Date('2030-03-10T18:00:00Z'),
+        }),
+      ])
+      .mockResolvedValueOnce([]);
+    prismaMock.reservation.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await reservationService.releaseUnusedReservations(now);
+
+    expect(result).toEqual({ noShows: 1, expired: 0 });
+    expect(prismaMock.reservation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'res-1', status: 'APPROVED' },
+      data: { status: 'NO_SHOW' },
+    });
+    expect(prismaMock.user.update).toHaveBeenCalledWith({
+      where: { id: 'user-1' },
+      data: { noShowCount: { increment: 1 } },
+    });
+    const notified = (createNotification as jest.Mock).mock.calls.map(
+      (call) => (call[0] as { userId: string }).userId
+    );
+    expect(notified).toEqual(['user-1', 'manager-1']);
+    expect(offerFreedSlot).toHaveBeenCalledWith('vehicle-1', now, expect.any(Date));
+  });
+
+  it('leaves a reservation checked in meanwhile untouched', async () => {
+    prismaMock.reservation.findMany
+      .mockResolvedValueOnce([makeReservation({ status: 'APPROVED' })])
+      .mockResolvedValueOnce([]);
+    prismaMock.reservation.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await reservationService.releaseUnusedReservations(now);
+
+    expect(result.noShows).toBe(0);
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+  });
+
+  it('expires pending reservations whose start has passed', async () => {
+    prismaMock.reservation.findMany
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        makeReservation({
+          status: 'PENDING',
+          startDate: new Date('2030-03-10T11:00:00Z'),
+          endDate: new Date('2030-03-10T13:00:00Z'),
+        }),
+      ]);
+    prismaMock.reservation.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await reservationService.releaseUnusedReservations(now);
+
+    expect(result).toEqual({ noShows: 0, expired: 1 });
+    expect(prismaMock.reservation.updateMany).toHaveBeenCalledWith({
+      where: { id: 'res-1', status: 'PENDING' },
+      data: { status: 'EXPIRED', approvalStep: null },
+    });
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('reservation.service > sendReservationReminders', () => {
+  const now = new Date('2030-03-10T12:00:00Z');
+
+  it('reminds each upcoming reservation once', async () => {
+    prismaMock.reservation.findMany.mockResolvedValue([
+      makeReservation({ id: 'res-1', status: 'APPROVED' }),
+      makeReservation({ id: 'res-2', status: 'APPROVED' }),
+    ]);
+    prismaMock.notification.findMany.mockResolvedValue([{ entityId: 'res-2' }]);
+
+    const result = await reservationService.sendReservationReminders(now);
+
+    expect(result).toEqual({ reminded: 1 });
+    expect(prismaMock.reservation.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: 'APPROVED',
+          startDate: { gt: now, lte: new Date('2030-03-11T12:00:00Z') },
+        },
+      })
+    );
+    expect(createNotification).toHaveBeenCalledTimes(1);
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'RESERVATION_REMINDER', entityId: 'res-1' })
+    );
+  });
+
+  it('does nothing when reminders are disabled', async () => {
+    prismaMock.setting.findUnique.mockResolvedValue({
+      key: 'reservation.reminderLeadHours',
+      value: 0,
+    });
+
+    const result = await reservationService.sendReservationReminders(now);
+
+    expect(result).toEqual({ reminded: 0 });
+    expect(prismaMock.reservation.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('reservation.service > requestExtension', () => {
+  const hour = 3600 * 1000;
+
+  function makeTrip() {
+    return makeReservation({
+      status: 'IN_PROGRESS',
+      departmentId: null,
+      estimatedCost: 20000,
+      requestedEndDate: null,
+      startDate: new Date(Date.now() - 2 * hour),
+      endDate: new Date(Date.now() + 22 * hour),
+      vehicle: makeVehicle({ type: 'SEDAN' }),
+    });
+  }
+
+  beforeEach(() => {
+    prismaMock.vehicle.findUnique.mockResolvedValue(makeVehicle({ status: 'IN_USE' }));
+    prismaMock.reservation.findFirst.mockResolvedValue(null);
+  });
+
+  it('extends the trip and recomputes the estimated cost within policy limits', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeTrip());
+    prismaMock.reservation.update.mockResolvedValue(makeTrip());
+    const endDate = new Date(Date.now() + 46 * hour);
+
+    await reservationService.requestExtension(
+      'res-1',
+      { endDate: endDate.toISOString(), reason: 'Mission prolongee' },
+      'user-1',
+      'EMPLOYEE'
+    );
+
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { endDate, estimatedCost: 40000 },
+      })
+    );
+    expect(prismaMock.reservationHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        previousStatus: 'IN_PROGRESS',
+        newStatus: 'IN_PROGRESS',
+        comment: expect.stringMatching(/^Extended from .* to .*: Mission prolongee$/),
+      }),
+    });
+  });
+
+  it('holds an extension crossing the duration threshold for the fleet admin', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeTrip());
+    prismaMock.reservation.update.mockResolvedValue(makeTrip());
+    prismaMock.user.findMany.mockResolvedValue([{ id: 'admin-1' }]);
+    const endDate = new Date(Date.now() + 100 * hour);
+
+    await reservationService.requestExtension(
+      'res-1',
+      { endDate: endDate.toISOString(), reason: 'Mission prolongee' },
+      'user-1',
+      'EMPLOYEE'
+    );
+
+    expect(prismaMock.reservation.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: { requestedEndDate: endDate, extensionReason: 'Mission prolongee' },
+      })
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', title: 'Extension Awaiting Approval' })
+    );
+  });
+
+  it('rejects an extension overlapping the next booking of the vehicle', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(makeTrip());
+    prismaMock.reservation.findFirst.mockResolvedValue(
+      makeReservation({ id: 'res-2', referenceNumber: 'RES-NEXT' })
+    );
+
+    await expect(
+      reservationService.requestExtension(
+        'res-1',
+        { endDate: new Date(Date.now() + 46 * hour).toISOString(), reason: 'Mission prolongee' },
+        'user-1',
+        'EMPLOYEE'
+      )
+    ).rejects.toThrow(/RES-NEXT/);
+    expect(prismaMock.reservation.update).not.toHaveBeenCalled();
+  });
+
+  it('only extends reservations in progress', async () => {
+    prismaMock.reservation.findUnique.mockResolvedValue(
+      makeReservation({ status: 'APPROVED', vehicle: makeVehicle() })
+    );
+
+    await expect(
+      reservationService.requestExtension(
+        'res-1',
+        { endDate: new Date(Date.now() + 46 * hour).toISOString(), reason: 'Mission prolongee' },
+        'user-1',
+        'EMPLOYEE'
+      )
+    ).rejects.toThrow(ConflictError);
+  });
 });
@@ -0,0 +1,145 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  setting: {
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    upsert: jest.fn(),
+    deleteMany: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  $transaction: jest.fn(),
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const settingsService = await import('../src/services/settings.service.js');
+const { NotFoundError, ValidationError } = await import('../src/utils/errors.js');
+
+beforeEach(() => {
+  settingsService.clearSettingsCache();
+  prismaMock.$transaction.mockImplementation(
+    async (fn: unknown) => (fn as (tx: typeof prismaMock) => Promise<unknown>)(prismaMock)
+  );
+  prismaMock.setting.findUnique.mockResolvedValue(null);
+  prismaMock.setting.findMany.mockResolvedValue([]);
+});
+
+describe('settings.service > getSetting', () => {
+  it('reads a key never written as its default', async () => {
+    await expect(settingsService.getSetting('security.maxLoginAttempts')).resolves.toBe(5);
+  });
+
+  it('merges a partial stored object over the default', async () => {
+    prismaMock.setting.findUnique.mockResolvedValue({
+      key: 'approval.policy',
+      value: { costThreshold: 50000 },
+    });
+
+    await expect(settingsService.getSetting('approval.policy')).resolves.toEqual({
+      costThreshold: 50000,
+      durationHoursThreshold: 72,
+      vehicleTypes: ['LUXURY'],
+    });
+  });
+
+  it('falls back to the default when the stored value is invalid', async () => {
+    prismaMock.setting.findUnique.mockResolvedValue({
+      key: 'security.lockTimeMinutes',
+      value: 'forever',
+    });
+
+    await expect(settingsService.getSetting('security.lockTimeMinutes')).resolves.toBe(30);
+  });
+
+  it('serves later reads from the cache', async () => {
+    await settingsService.getSetting('waitlist.offerHours');
+    await settingsService.getSetting('waitlist.offerHours');
+
+    expect(prismaMock.setting.findUnique).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('settings.service > updateSettings', () => {
+  it('rejects unknown keys and invalid values without writing anything', async () => {
+    const error = await settingsService
+      .updateSettings(
+        { 'organization.name': 'DSI', 'security.maxLoginAttempts': 0, 'unknown.key': true },
+        'admin-1'
+      )
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(Object.keys((error as InstanceType<typeof ValidationError>).errors)).toEqual([
+      'security.maxLoginAttempts',
+      'unknown.key',
+    ]);
+    expect(prismaMock.setting.upsert).not.toHaveBeenCalled();
+  });
+
+  it('stores the merged value, audits it and drops the cached one', async () => {
+    const stored = {
+      costThreshold: 200000,
+      durationHoursThreshold: 72,
+      vehicleTypes: ['LUXURY', 'SUV'],
+    };
+    await settingsService.getSetting('approval.policy');
+    prismaMock.setting.findMany.mockResolvedValue([
+      { key: 'approval.policy', value: stored, updatedAt: new Date() },
+    ]);
+
+    const settings = await settingsService.updateSettings(
+      { 'approval.policy': { vehicleTypes: ['LUXURY', 'SUV'] } },
+      'admin-1'
+    );
+
+    expect(prismaMock.setting.upsert).toHaveBeenCalledWith({
+      where: { key: 'approval.policy' },
+      create: { key: 'approval.policy', value: stored },
+      update: { value: stored },
+    });
+    expect(prismaMock.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: 'admin-1',
+        action: 'UPDATE',
+        entityType: 'setting',
+        entityId: 'approval.policy',
+      }),
+    });
+
+    expect(settings.find((s) => s.key === 'approval.policy')).toMatchObject({
+      value: stored,
+      isDefault: false,
+    });
+    await expect(settingsService.getSetting('approval.policy')).resolves.toEqual(stored);
+  });
+});
+
+describe('settings.service > resetSetting', () => {
+  it('rejects an unknown key', async () => {
+    await expect(settingsService.resetSetting('unknown.key', 'admin-1')).rejects.toThrow(
+      NotFoundError
+    );
+  });
+
+  it('removes the stored value so the default applies again', async () => {
+    prismaMock.setting.findUnique.mockResolvedValue({ key: 'waitlist.offerHours', value: 6 });
+    await expect(settingsService.getSetting('waitlist.offerHours')).resolves.toBe(6);
+
+    await settingsService.resetSetting('waitlist.offerHours', 'admin-1');
+
+    expect(prismaMock.setting.deleteMany).toHaveBeenCalledWith({
+      where: { key: 'waitlist.offerHours' },
+    });
+    prismaMock.setting.findUnique.mockResolvedValue(null);
+    await expect(settingsService.getSetting('waitlist.offerHours')).resolves.toBe(2);
+  });
+});
@@ -0,0 +1,241 @@
+import { jest } from '@jest/globals';
+
+const txMock = {
+  vehicle: {
+    create: jest.fn(),
+    update: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  odometerReading: {
+    findFirst: jest.fn(),
+    create: jest.fn(),
+  },
+  setting: {
+    findUnique: jest.fn(),
+  },
+};
+
+const prismaMock = {
+  vehicle: {
+    findMany: jest.fn(),
+  },
+  location: {
+    findMany: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/utils/transaction.js', () => ({
+  runSerializable: (fn: (tx: typeof txMock) => Promise<unknown>) => fn(txMock),
+}));
+
+const spreadsheetService = await import('../src/services/vehicle-spreadsheet.service.js');
+const { BadRequestError, ValidationError } = await import('../src/utils/errors.js');
+
+const HEADER = 'registrationNumber,vin,brand,model,year,type,currentMileage,insuranceExpiry';
+
+function csv(...lines: string[]) {
+  return { buffer: Buffer.from([HEADER, ...lines].join('\n')), originalname: 'fleet.csv' };
+}
+
+const preview = { dryRun: true, updateExisting: false };
+
+beforeEach(() => {
+  prismaMock.vehicle.findMany.mockResolvedValue([]);
+  prismaMock.location.findMany.mockResolvedValue([]);
+  txMock.odometerReading.findFirst.mockResolvedValue(null);
+  txMock.setting.findUnique.mockResolvedValue(null);
+  txMock.vehicle.create.mockImplementation(async (args: unknown) => ({
+    id: 'created',
+    ...(args as { data: object }).data,
+  }));
+  txMock.vehicle.update.mockImplementation(async (args: unknown) => ({
+    id: (args as { where: { id: string } }).where.id,
+  }));
+});
+
+describe('vehicle-spreadsheet.service > importVehicles', () => {
+  it('reports schema errors and duplicates per row on a dry run', async () => {
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      { id: 'v-1', registrationNumber: 'TG-0001-AA', vin: null, isActive: true },
+    ]);
+
+    const result = await spreadsheetService.importVehicles(
+      csv(
+        'TG-0001-AA,,Toyota,Corolla,2021,SEDAN,12000,2027-01-31',
+        'TG-0002-AA,JTDBR32E720123456,Toyota,Hilux,2022,PICKUP,8000,',
+        'TG-0002-AA,,Toyota,Hilux,2022,PICKUP,,',
+        'TG-0003-AA,,Renault,Kangoo,old,VAN,,',
+        ',,,,,,,'
+      ),
+      preview,
+      'admin-1'
+    );
+
+    expect(result).toMatchObject({ dryRun: true, total: 4, created: 1, updated: 0, invalid: 3 });
+    expect(result.rows.map((row) => [row.row, Object.keys(row.errors)])).toEqual([
+      [2, ['registrationNumber']],
+      [3, []],
+      [4, ['registrationNumber']],
+      [5, ['year', 'type']],
+    ]);
+    expect(result.rows[2]!.errors.registrationNumber).toEqual(['Duplicate of line 3']);
+    expect(txMock.vehicle.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a file without the required columns', async () => {
+    await expect(
+      spreadsheetService.importVehicles(
+        { buffer: Buffer.from('registrationNumber,brand\nTG-0001-AA,Toyota'), originalname: 'a.csv' },
+        preview,
+        'admin-1'
+      )
+    ).rejects.toThrow(BadRequestError);
+  });
+
+  it('imports nothing when a single row is invalid', async () => {
+    const error = await spreadsheetService
+      .importVehicles(
+        csv('TG-0001-AA,,Toyota,Corolla,2021,SEDAN,,', 'TG-0002-AA,,Toyota,Corolla,2021,BOAT,,'),
+        { dryRun: false, updateExisting: false },
+        'admin-1'
+      )
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as InstanceType<typeof ValidationError>).errors).toEqual({
+      'line 3': [expect.stringMatching(/^type: /)],
+    });
+    expect(txMock.vehicle.create).not.toHaveBeenCalled();
+    expect(txMock.vehicle.update).not.toHaveBeenCalled();
+  });
+
+  it('creates new vehicles and updates existing ones in one transaction', async () => {
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      {
+        id: 'v-1',
+        registrationNumber: 'TG-0001-AA',
+        vin: null,
+        isActive: true,
+        currentMileage: 12000,
+      },
+    ]);
+
+    const result = await spreadsheetService.importVehicles(
+      csv(
+        'TG-0001-AA,,Toyota,Corolla,2021,SEDAN,15000,2027-01-31',
+        'TG-0002-AA,,Toyota,Hilux,2022,PICKUP,,'
+      ),
+      { dryRun: false, updateExisting: true },
+      'admin-1'
+    );
+
+    expect(result).toMatchObject({ created: 1, updated: 1, invalid: 0 });
+    expect(txMock.vehicle.update).toHaveBeenCalledWith({
+      where: { id: 'v-1' },
+      data: expect.objectContaining({
+        currentMileage: 15000,
+        insuranceExpiry: new Date('2027-01-31T00:00:00.000Z'),
+      }),
+    });
+    expect(txMock.vehicle.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        registrationNumber: 'TG-0002-AA',
+        fuelType: 'GASOLINE',
+        qrCode: expect.stringMatching(/^VH-/),
+      }),
+    });
+    expect(txMock.auditLog.create).toHaveBeenCalledTimes(2);
+    expect(txMock.odometerReading.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        vehicleId: 'v-1',
+        mileage: 15000,
+        previousMileage: 12000,
+        source: 'MANUAL',
+      }),
+    });
+  });
+
+  it('reports a mileage below the current reading of an existing vehicle', async () => {
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      {
+        id: 'v-1',
+        registrationNumber: 'TG-0001-AA',
+        vin: null,
+        isActive: true,
+        currentMileage: 20000,
+      },
+    ]);
+
+    const result = await spreadsheetService.importVehicles(
+      csv('TG-0001-AA,,Toyota,Corolla,2021,SEDAN,15000,'),
+      { dryRun: true, updateExisting: true },
+      'admin-1'
+    );
+
+    expect(result.rows[0]!.errors).toEqual({
+      currentMileage: [expect.stringContaining('20000 km')],
+    });
+  });
+});
+
+describe('vehicle-spreadsheet.service > exportVehicles', () => {
+  it('writes a file that imports back as updates of the same vehicles', async () => {
+    const vehicle = {
+      id: 'v-1',
+      registrationNumber: 'TG-0001-AA',
+      vin: 'JTDBR32E720123456',
+      brand: 'Toyota',
+      model: 'Corolla',
+      year: 2021,
+      type: 'SEDAN',
+      status: 'AVAILABLE',
+      fuelType: 'DIESEL',
+      transmission: 'MANUAL',
+      seats: 5,
+      doors: 4,
+      color: 'Blanc',
+      engineCapacity: 1.6,
+      horsePower: null,
+      currentMileage: 42000,
+      fuelConsumption: 6.5,
+      insuranceExpiry: new Date('2027-01-31T00:00:00Z'),
+      technicalInspectionExpiry: null,
+      locationId: null,
+      acquisitionCost: null,
+      dailyRate: 25000,
+      mileageRate: null,
+      notes: 'Notes, avec virgule',
+      isActive: true,
+    };
+    prismaMock.vehicle.findMany.mockResolvedValue([vehicle]);
+
+    for (const format of ['csv', 'xlsx'] as const) {
+      const file = await spreadsheetService.exportVehicles({ format, type: 'SEDAN' });
+
+      expect(prismaMock.vehicle.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { isActive: true, type: 'SEDAN' } })
+      );
+      expect(file.filename).toMatch(new RegExp(`^vehicles-\\d{4}-\\d{2}-\\d{2}\\.${format}$`));
+
+      const result = await spreadsheetService.importVehicles(
+        { buffer: file.body, originalname: file.filename },
+        { dryRun: true, updateExisting: true },
+        'admin-1'
+      );
+
+      expect(result.rows).toEqual([
+        { row: 2, registrationNumber: 'TG-0001-AA', action: 'UPDATE', errors: {} },
+      ]);
+    }
+  });
+});
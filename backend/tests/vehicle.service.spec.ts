@@ -3,9 +3,13 @@ import { jest } from '@jest/globals';
 const prismaMock = {
   vehicle: {
     findUnique: jest.fn(),
+    findMany: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
   },
+  fuelLog: {
+    findMany: jest.fn(),
+  },
   auditLog: {
     create: jest.fn(),
   },
@@ -24,6 +28,7 @@ const { ConflictError, NotFoundError } = await import('../src/utils/errors.js');
 
 beforeEach(() => {
   prismaMock.auditLog.create.mockResolvedValue({});
+  prismaMock.fuelLog.findMany.mockResolvedValue([]);
 });
 
 describe('vehicle.service > createVehicle', () => {
@@ -95,3 +100,104 @@ describe('vehicle.service > deleteVehicle', () => {
     );
   });
 });
+
+describe('vehicle.service > getAvailableVehicles', () => {
+  const start = new Date('2030-03-10T08:00:00Z');
+  const end = new Date('2030-03-10T18:00:00Z');
+
+  function makeCandidate(id: string, overrides: Record<string, unknown> = {}) {
+    return {
+      id,
+      status: 'AVAILABLE',
+      isActive: true,
+      outOfServiceUntil: null,
+      reservations: [],
+      maintenances: [],
+      ...overrides,
+    };
+  }
+
+  it('derives availability from the window instead of the current status', async () => {
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      makeCandidate('in-use-today', { status: 'IN_USE' }),
+      makeCandidate('back-from-shop', {
+        status: 'OUT_OF_SERVICE',
+        outOfServiceUntil: new Date('2030-03-09T00:00:00Z'),
+      }),
+      makeCandidate('out-of-service', { status: 'OUT_OF_SERVICE' }),
+      makeCandidate('booked', {
+        reservations: [{ id: 'res-1', startDate: start, endDate: end }],
+      }),
+      makeCandidate('in-the-shop', {
+        status: 'MAINTENANCE',
+        maintenances: [
+          {
+            id: 'maint-1',
+            status: 'SCHEDULED',
+            scheduledDate: new Date('2030-03-10T07:00:00Z'),
+            startDate: null,
+            estimatedEndDate: new Date('2030-03-10T12:00:00Z'),
+          },
+        ],
+      }),
+    ]);
+
+    const vehicles = await vehicleService.getAvailableVehicles(start, end);
+
+    expect(vehicles.map((vehicle) => vehicle.id)).toEqual([
+      'in-use-today',
+      'back-from-shop',
+    ]);
+  });
+
+  it('leaves out a vehicle booked back to back, as booking it would fail', async () => {
+    prismaMock.vehicle.findMany.mockResolvedValue([
+      makeCandidate('free'),
+      makeCandidate('booked-until-start', {
+        reservations: [
+          { id: 'res-1', startDate: new Date('2030-03-10T06:00:00Z'), endDate: start },
+        ],
+      }),
+    ]);
+
+    const vehicles = await vehicleService.getAvailableVehicles(start, end);
+
+    expect(prismaMock.vehicle.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        include: expect.objectContaining({
+          reservations: expect.objectContaining({
+            where: expect.objectContaining({
+              startDate: { lte: end },
+              endDate: { gte: start },
+            }),
+          }),
+        }),
+      })
+    );
+    expect(vehicles.map((vehicle) => vehicle.id)).toEqual(['free']);
+  });
+});
+
+describe('vehicle.service > getVehicleStatistics', () => {
+  it('counts only the distance each vehicle drove on a swapped trip', async () => {
+    prismaMock.vehicle.findUnique.mockResolvedValue({
+      id: 'vehicle-2',
+      reservations: [
+        { id: 'res-plain', status: 'COMPLETED', actualMileage: 120, rating: 4, _count: { segments: 0 } },
+        // Total of both vehicles, replaced by this vehicle's own segment
+        { id: 'res-swapped', status: 'COMPLETED', actualMileage: 300, rating: null, _count: { segments: 2 } },
+      ],
+      tripSegments: [
+        { reservationId: 'res-swapped', distance: 100 },
+        // Trip this vehicle was swapped into and out of again
+        { reservationId: 'res-other', distance: 40 },
+      ],
+      maintenances: [],
+    });
+
+    const stats = await vehicleService.getVehicleStatistics('vehicle-2');
+
+    expect(stats.totalMileage).toBe(260);
+    expect(stats.totalReservations).toBe(3);
+  });
+});
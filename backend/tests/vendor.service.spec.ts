@@ -0,0 +1,209 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  vendor: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+  },
+  maintenance: {
+    findMany: jest.fn(),
+  },
+  location: {
+    count: jest.fn(),
+  },
+  setting: {
+    findUnique: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const vendorService = await import('../src/services/vendor.service.js');
+const { BadRequestError, ConflictError } = await import('../src/utils/errors.js');
+const { clearSettingsCache } = await import('../src/services/settings.service.js');
+
+const day = 24 * 3600 * 1000;
+const to = new Date('2026-06-30T00:00:00.000Z');
+const from = new Date('2026-01-01T00:00:00.000Z');
+
+const garage = { id: 'vendor-1', name: 'Toyota Togo', isActive: true };
+const tyres = { id: 'vendor-2', name: 'Michelin Togo', isActive: true };
+
+function makeCompleted(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'maintenance-1',
+    vehicleId: 'vehicle-1',
+    vendorId: 'vendor-1',
+    startDate: new Date('2026-03-01T08:00:00.000Z'),
+    completedDate: new Date('2026-03-02T08:00:00.000Z'),
+    estimatedCost: 100000,
+    actualCost: 120000,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  clearSettingsCache();
+  prismaMock.setting.findUnique.mockResolvedValue(null);
+  prismaMock.vendor.findFirst.mockResolvedValue(null);
+  prismaMock.vendor.findUnique.mockResolvedValue(garage);
+  prismaMock.vendor.findMany.mockResolvedValue([garage, tyres]);
+  prismaMock.vendor.create.mockResolvedValue({ id: 'vendor-new', name: 'Garage du Port' });
+});
+
+describe('vendor.service > createVendor', () => {
+  it('refuses a name already used with another spelling', async () => {
+    prismaMock.vendor.findFirst.mockResolvedValue({ id: 'vendor-1' });
+
+    await expect(
+      vendorService.createVendor({ name: 'TOYOTA TOGO' }, 'admin-1')
+    ).rejects.toThrow(ConflictError);
+    expect(prismaMock.vendor.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { name: { equals: 'TOYOTA TOGO', mode: 'insensitive' } },
+      })
+    );
+    expect(prismaMock.vendor.create).not.toHaveBeenCalled();
+  });
+
+  it('refuses a location that does not exist or is inactive', async () => {
+    prismaMock.location.count.mockResolvedValue(1);
+
+    await expect(
+      vendorService.createVendor(
+        { name: 'Garage du Port', locationIds: ['location-1', 'location-2'] },
+        'admin-1'
+      )
+    ).rejects.toThrow(BadRequestError);
+  });
+
+  it('creates the vendor with its contacts and served locations', async () => {
+    prismaMock.location.count.mockResolvedValue(1);
+
+    await vendorService.createVendor(
+      {
+        name: 'Garage du Port',
+        laborRate: 12000,
+        contractEndDate: '2027-01-01T00:00:00.000Z',
+        contacts: [{ name: 'Afi Mensah', isPrimary: true }],
+        locationIds: ['location-1'],
+      },
+      'admin-1'
+    );
+
+    expect(prismaMock.vendor.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          name: 'Garage du Port',
+          laborRate: 12000,
+          contractEndDate: new Date('2027-01-01T00:00:00.000Z'),
+          contacts: { create: [{ name: 'Afi Mensah', isPrimary: true }] },
+          locations: { connect: [{ id: 'location-1' }] },
+        },
+      })
+    );
+  });
+});
+
+describe('vendor.service > getVendorReports', () => {
+  const query = { from: from.toISOString(), to: to.toISOString() };
+
+  it('sums the spend and compares estimated with actual costs', async () => {
+    prismaMock.vendor.findMany.mockResolvedValue([garage]);
+    prismaMock.maintenance.findMany
+      .mockResolvedValueOnce([
+        makeCompleted(),
+        makeCompleted({
+          id: 'maintenance-2',
+          vehicleId: 'vehicle-2',
+          startDate: new Date('2026-04-01T08:00:00.000Z'),
+          completedDate: new Date('2026-04-01T20:00:00.000Z'),
+          estimatedCost: 100000,
+          actualCost: 90000,
+        }),
+        // No estimate, so only part of the spend
+        makeCompleted({ id: 'maintenance-3', startDate: null, estimatedCost: null }),
+      ])
+      .mockResolvedValueOnce([]);
+
+    const [report] = await vendorService.getVendorReports(query, 'vendor-1');
+
+    expect(report).toMatchObject({
+      vendorId: 'vendor-1',
+      maintenanceCount: 3,
+      totalSpend: 330000,
+      averageTurnaroundHours: 18,
+      estimatedCost: 200000,
+      actualCost: 210000,
+      costVariance: 10000,
+      costVariancePercent: 5,
+      reworkCount: 0,
+      reworkRate: 0,
+    });
+  });
+
+  it('counts a repair of the same vehicle within the window as rework', async () => {
+    const completedDate = new Date('2026-03-02T08:00:00.000Z');
+    prismaMock.vendor.findMany.mockResolvedValue([garage]);
+    prismaMock.maintenance.findMany
+      .mockResolvedValueOnce([
+        makeCompleted({ completedDate }),
+        makeCompleted({ id: 'maintenance-2', vehicleId: 'vehicle-2', completedDate }),
+      ])
+      .mockResolvedValueOnce([
+        // Back to the garage ten days later
+        {
+          id: 'maintenance-9',
+          vehicleId: 'vehicle-1',
+          scheduledDate: new Date(completedDate.getTime() + 10 * day),
+        },
+        // Outside the 30 day window
+        {
+          id: 'maintenance-10',
+          vehicleId: 'vehicle-2',
+          scheduledDate: new Date(completedDate.getTime() + 45 * day),
+        },
+      ]);
+
+    const [report] = await vendorService.getVendorReports(query, 'vendor-1');
+
+    expect(prismaMock.maintenance.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          vehicleId: { in: ['vehicle-1', 'vehicle-2'] },
+          type: { in: ['CORRECTIVE', 'REPAIR'] },
+        }),
+      })
+    );
+    expect(report).toMatchObject({ reworkCount: 1, reworkRate: 50 });
+  });
+
+  it('lists the vendors by spend and reports idle ones without dividing by zero', async () => {
+    prismaMock.maintenance.findMany.mockResolvedValueOnce([
+      makeCompleted({ vendorId: 'vendor-2', actualCost: 50000 }),
+    ]);
+    prismaMock.maintenance.findMany.mockResolvedValueOnce([]);
+
+    const reports = await vendorService.getVendorReports(query);
+
+    expect(reports.map((r) => r.vendorId)).toEqual(['vendor-2', 'vendor-1']);
+    expect(reports[1]).toMatchObject({
+      maintenanceCount: 0,
+      totalSpend: 0,
+      averageTurnaroundHours: null,
+      costVariancePercent: null,
+      reworkRate: 0,
+    });
+  });
+});
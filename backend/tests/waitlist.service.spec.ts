@@ -0,0 +1,242 @@
+import { jest } from '@jest/globals';
+
+const prismaMock = {
+  waitlistEntry: {
+    findFirst: jest.fn(),
+    findUnique: jest.fn(),
+    findMany: jest.fn(),
+    create: jest.fn(),
+    update: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  vehicle: {
+    findUnique: jest.fn(),
+  },
+  auditLog: {
+    create: jest.fn(),
+  },
+  setting: {
+    findUnique: jest.fn(),
+  },
+};
+
+jest.unstable_mockModule('../src/config/prisma.js', () => ({
+  prisma: prismaMock,
+}));
+
+jest.unstable_mockModule('../src/config/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.unstable_mockModule('../src/services/notification.service.js', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/availability.service.js', () => ({
+  findVehicleConflict: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/allocation.service.js', () => ({
+  findAllocationCandidates: jest.fn(),
+}));
+
+jest.unstable_mockModule('../src/services/reservation.service.js', () => ({
+  createReservation: jest.fn(),
+}));
+
+const waitlistService = await import('../src/services/waitlist.service.js');
+const { BadRequestError, ConflictError } = await import('../src/utils/errors.js');
+const { createNotification } = await import('../src/services/notification.service.js');
+const { logger } = await import('../src/config/logger.js');
+const { findVehicleConflict } = await import('../src/services/availability.service.js');
+const { createReservation } = await import('../src/services/reservation.service.js');
+
+const findVehicleConflictMock = findVehicleConflict as jest.Mock<(...args: unknown[]) => unknown>;
+const createReservationMock = createReservation as jest.Mock<(...args: unknown[]) => unknown>;
+
+const hour = 3600 * 1000;
+
+function makeEntry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'entry-1',
+    userId: 'user-1',
+    vehicleId: 'vehicle-1',
+    vehicleType: null,
+    startDate: new Date(Date.now() + 24 * hour),
+    endDate: new Date(Date.now() + 30 * hour),
+    purpose: 'Client visit in Kara',
+    destination: 'Kara',
+    passengerCount: null,
+    status: 'WAITING',
+    offeredVehicleId: null,
+    offeredAt: null,
+    offerExpiresAt: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  prismaMock.vehicle.findUnique.mockResolvedValue({
+    id: 'vehicle-1',
+    brand: 'Toyota',
+    model: 'Corolla',
+    registrationNumber: 'TG-1234-AB',
+    type: 'SEDAN',
+  });
+  findVehicleConflictMock.mockResolvedValue(null);
+});
+
+describe('waitlist.service > joinWaitlist', () => {
+  const input = {
+    vehicleId: 'vehicle-1',
+    startDate: new Date(Date.now() + 24 * hour).toISOString(),
+    endDate: new Date(Date.now() + 30 * hour).toISOString(),
+    purpose: 'Client visit in Kara',
+    destination: 'Kara',
+  };
+
+  it('refuses to waitlist a vehicle that can be booked directly', async () => {
+    await expect(waitlistService.joinWaitlist(input, 'user-1')).rejects.toThrow(
+      BadRequestError
+    );
+    expect(prismaMock.waitlistEntry.create).not.toHaveBeenCalled();
+  });
+
+  it('adds the request when the vehicle is booked', async () => {
+    findVehicleConflictMock.mockResolvedValue({ type: 'RESERVATION', reservation: {} });
+    prismaMock.waitlistEntry.findFirst.mockResolvedValue(null);
+    prismaMock.waitlistEntry.create.mockResolvedValue(makeEntry());
+
+    const entry = await waitlistService.joinWaitlist(input, 'user-1');
+
+    expect(entry.status).toBe('WAITING');
+    expect(prismaMock.waitlistEntry.create).toHaveBeenCalled();
+  });
+});
+
+describe('waitlist.service > offerFreedSlot', () => {
+  it('offers the slot to the oldest request whose window is free', async () => {
+    prismaMock.waitlistEntry.findMany
+      .mockResolvedValueOnce([
+        makeEntry({ id: 'first' }),
+        makeEntry({ id: 'second', userId: 'user-2' }),
+      ])
+      .mockResolvedValueOnce([]);
+
+    const offers = await waitlistService.offerFreedSlot(
+      'vehicle-1',
+      new Date(Date.now() + 20 * hour),
+      new Date(Date.now() + 40 * hour)
+    );
+
+    // Both requests cover the same window, only the first one gets it
+    expect(offers).toBe(1);
+    expect(prismaMock.waitlistEntry.update).toHaveBeenCalledTimes(1);
+    expect(prismaMock.waitlistEntry.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: 'first' },
+        data: expect.objectContaining({ status: 'OFFERED', offeredVehicleId: 'vehicle-1' }),
+      })
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1', type: 'VEHICLE_AVAILABLE' })
+    );
+  });
+
+  it('skips requests still blocked by another booking', async () => {
+    prismaMock.waitlistEntry.findMany
+      .mockResolvedValueOnce([makeEntry()])
+      .mockResolvedValueOnce([]);
+    findVehicleConflictMock.mockResolvedValue({ type: 'RESERVATION', reservation: {} });
+
+    const offers = await waitlistService.offerFreedSlot(
+      'vehicle-1',
+      new Date(Date.now() + 20 * hour),
+      new Date(Date.now() + 40 * hour)
+    );
+
+    expect(offers).toBe(0);
+    expect(prismaMock.waitlistEntry.update).not.toHaveBeenCalled();
+  });
+
+  it('logs a failed hand-off instead of failing the release', async () => {
+    prismaMock.waitlistEntry.findMany.mockRejectedValue(new Error('connection lost'));
+
+    const offers = await waitlistService.offerFreedSlot(
+      'vehicle-1',
+      new Date(Date.now() + 20 * hour),
+      new Date(Date.now() + 40 * hour)
+    );
+
+    expect(offers).toBe(0);
+    expect(logger.error).toHaveBeenCalled();
+  });
+});
+
+describe('waitlist.service > confirmWaitlistOffer', () => {
+  it('books the offered vehicle', async () => {
+    prismaMock.waitlistEntry.findUnique.mockResolvedValue(
+      makeEntry({
+        status: 'OFFERED',
+        offeredVehicleId: 'vehicle-1',
+        offerExpiresAt: new Date(Date.now() + hour),
+      })
+    );
+    createReservationMock.mockResolvedValue({ id: 'res-1' });
+    prismaMock.waitlistEntry.update.mockResolvedValue(
+      makeEntry({ status: 'CONFIRMED', reservationId: 'res-1' })
+    );
+
+    const entry = await waitlistService.confirmWaitlistOffer('entry-1', 'user-1');
+
+    expect(createReservationMock).toHaveBeenCalledWith(
+      expect.objectContaining({ vehicleId: 'vehicle-1' }),
+      'user-1'
+    );
+    expect(entry.status).toBe('CONFIRMED');
+  });
+
+  it('expires an offer confirmed too late and passes the slot on', async () => {
+    prismaMock.waitlistEntry.findUnique.mockResolvedValue(
+      makeEntry({
+        status: 'OFFERED',
+        offeredVehicleId: 'vehicle-1',
+        offerExpiresAt: new Date(Date.now() - hour),
+      })
+    );
+    prismaMock.waitlistEntry.findMany.mockResolvedValue([]);
+
+    await expect(
+      waitlistService.confirmWaitlistOffer('entry-1', 'user-1')
+    ).rejects.toThrow(BadRequestError);
+
+    expect(createReservationMock).not.toHaveBeenCalled();
+    expect(prismaMock.waitlistEntry.update).toHaveBeenCalledWith({
+      where: { id: 'entry-1' },
+      data: { status: 'EXPIRED' },
+    });
+    expect(prismaMock.waitlistEntry.findMany).toHaveBeenCalled();
+  });
+
+  it('puts the request back in line when the slot was taken meanwhile', async () => {
+    prismaMock.waitlistEntry.findUnique.mockResolvedValue(
+      makeEntry({
+        status: 'OFFERED',
+        offeredVehicleId: 'vehicle-1',
+        offerExpiresAt: new Date(Date.now() + hour),
+      })
+    );
+    createReservationMock.mockRejectedValue(new ConflictError('Vehicle is already booked'));
+
+    await expect(
+      waitlistService.confirmWaitlistOffer('entry-1', 'user-1')
+    ).rejects.toThrow(ConflictError);
+
+    expect(prismaMock.waitlistEntry.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ status: 'WAITING', offeredVehicleId: null }),
+      })
+    );
+  });
+});
@@ -1,4 +1,4 @@
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ToastProvider } from '@/components/ui/toast';
 import { useAuthStore } from '@/stores/auth.store';
@@ -15,10 +15,14 @@ import { ReservationDetailPage } from '@/pages/reservations/ReservationDetailPag
 import { NewReservationPage } from '@/pages/reservations/NewReservationPage';
 import { CalendarPage } from '@/pages/calendar/CalendarPage';
 import { MaintenancePage } from '@/pages/maintenance/MaintenancePage';
+import { IncidentsPage } from '@/pages/incidents/IncidentsPage';
+import { PartsPage } from '@/pages/parts/PartsPage';
+import { VendorsPage } from '@/pages/vendors/VendorsPage';
 import { UsersPage } from '@/pages/users/UsersPage';
 import { ProfilePage } from '@/pages/profile/ProfilePage';
 import { SettingsPage } from '@/pages/settings/SettingsPage';
 import { NotificationsPage } from '@/pages/notifications/NotificationsPage';
+import { ScanPage } from '@/pages/scan/ScanPage';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -32,9 +36,11 @@ const queryClient = new QueryClient({
 
 function PrivateRoute({ children }: { children: React.ReactNode }) {
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const location = useLocation();
 
+  // Remember the page so that a scanned QR link opens after logging in
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    return <Navigate to="/login" replace state={{ from: location }} />;
   }
 
   return <>{children}</>;
@@ -111,6 +117,15 @@ function App() {
               {/* Maintenance */}
               <Route path="maintenance" element={<MaintenancePage />} />
 
+              {/* Parts */}
+              <Route path="parts" element={<PartsPage />} />
+
+              {/* Vendors */}
+              <Route path="vendors" element={<VendorsPage />} />
+
+              {/* Incidents */}
+              <Route path="incidents" element={<IncidentsPage />} />
+
               {/* Users */}
               <Route path="users" element={<UsersPage />} />
 
@@ -122,6 +137,9 @@ function App() {
 
               {/* Notifications */}
               <Route path="notifications" element={<NotificationsPage />} />
+
+              {/* Vehicle QR scan */}
+              <Route path="scan/:qrCode" element={<ScanPage />} />
             </Route>
 
             {/* Catch all */}
@@ -11,6 +11,9 @@ import {
   Bell,
   LayoutDashboard,
   Wrench,
+  Package,
+  Store,
+  AlertTriangle,
   ChevronDown,
   User,
 } from 'lucide-react';
@@ -51,6 +54,24 @@ const navigation = [
     icon: Wrench,
     minRole: 'MANAGER',
   },
+  {
+    name: 'Pieces',
+    href: '/parts',
+    icon: Package,
+    minRole: 'MANAGER',
+  },
+  {
+    name: 'Prestataires',
+    href: '/vendors',
+    icon: Store,
+    minRole: 'MANAGER',
+  },
+  {
+    name: 'Incidents',
+    href: '/incidents',
+    icon: AlertTriangle,
+    minRole: 'EMPLOYEE',
+  },
   {
     name: 'Utilisateurs',
     href: '/users',
@@ -128,6 +128,7 @@ function Calendar({
     <div className={cn('p-3', className)}>
       <div className="flex items-center justify-between mb-4">
         <Button
+          type="button"
           variant="outline"
           size="icon"
           className="h-7 w-7"
@@ -139,6 +140,7 @@ function Calendar({
           {MONTHS[month]} {year}
         </span>
         <Button
+          type="button"
           variant="outline"
           size="icon"
           className="h-7 w-7"
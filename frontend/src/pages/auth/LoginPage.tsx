@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useNavigate, Link } from 'react-router-dom';
+import { useNavigate, useLocation, Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -25,6 +25,10 @@ export function LoginPage() {
   const [requires2FA, setRequires2FA] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  const from =
+    (location.state as { from?: { pathname: string } } | null)?.from?.pathname ||
+    '/dashboard';
   const login = useAuthStore((state) => state.login);
 
   const {
@@ -49,7 +53,7 @@ export function LoginPage() {
 
       login(response.user, response.accessToken, response.refreshToken);
       toast.success(`Bienvenue, ${response.user.firstName}!`);
-      navigate('/dashboard');
+      navigate(from, { replace: true });
     } catch (error: unknown) {
       const err = error as { response?: { data?: { message?: string } } };
       toast.error(err.response?.data?.message || 'Erreur de connexion');
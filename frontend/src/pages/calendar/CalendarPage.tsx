@@ -11,7 +11,8 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { reservationService } from '@/services/reservation.service';
-import { cn } from '@/lib/utils';
+import { holidayService } from '@/services/holiday.service';
+import { cn, toDateKey } from '@/lib/utils';
 import type { ReservationStatus } from '@/types';
 
 const DAYS = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
@@ -38,6 +39,8 @@ const statusColors: Record<ReservationStatus, string> = {
   IN_PROGRESS: 'bg-green-500',
   COMPLETED: 'bg-gray-500',
   CANCELLED: 'bg-gray-400',
+  NO_SHOW: 'bg-red-300',
+  EXPIRED: 'bg-gray-300',
 };
 
 export function CalendarPage() {
@@ -61,6 +64,20 @@ export function CalendarPage() {
       }),
   });
 
+  const { data: holidayCalendar } = useQuery({
+    queryKey: ['holidays', 'calendar', year, month],
+    queryFn: () =>
+      holidayService.getCalendar({
+        from: toDateKey(startOfMonth),
+        to: toDateKey(endOfMonth),
+      }),
+  });
+
+  const getHolidaysForDate = (date: Date) => {
+    const key = toDateKey(date);
+    return holidayCalendar?.holidays.filter((holiday) => holiday.date === key) ?? [];
+  };
+
   const prevMonth = () => {
     setCurrentDate(new Date(year, month - 1, 1));
     setSelectedDate(null);
@@ -124,6 +141,7 @@ export function CalendarPage() {
     for (let day = 1; day <= daysInMonth; day++) {
       const date = new Date(year, month, day);
       const dayReservations = getReservationsForDate(date);
+      const dayHolidays = getHolidaysForDate(date);
       const today = isToday(date);
       const selected = isSelected(date);
 
@@ -135,6 +153,7 @@ export function CalendarPage() {
             'h-24 p-1 border-b border-r cursor-pointer transition-colors',
             'hover:bg-muted/50',
             today && 'bg-primary/5',
+            dayHolidays.length > 0 && 'bg-red-50 dark:bg-red-950/30',
             selected && 'ring-2 ring-primary ring-inset'
           )}
         >
@@ -153,6 +172,11 @@ export function CalendarPage() {
               </span>
             )}
           </div>
+          {dayHolidays.length > 0 && (
+            <p className="text-xs text-red-600 truncate mb-0.5">
+              {dayHolidays.map((holiday) => holiday.name).join(', ')}
+            </p>
+          )}
           <div className="space-y-0.5 overflow-hidden">
             {dayReservations.slice(0, 2).map((reservation) => (
               <Link
@@ -183,6 +207,7 @@ export function CalendarPage() {
   const selectedDateReservations = selectedDate
     ? getReservationsForDate(selectedDate)
     : [];
+  const selectedDateHolidays = selectedDate ? getHolidaysForDate(selectedDate) : [];
 
   return (
     <div className="space-y-6">
@@ -257,6 +282,14 @@ export function CalendarPage() {
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {selectedDateHolidays.length > 0 && (
+                <div className="mb-3 p-3 rounded-md border border-red-200 bg-red-50 text-sm text-red-700">
+                  Jour ferie : {selectedDateHolidays.map((holiday) => holiday.name).join(', ')}
+                  {holidayCalendar?.blocksReservations && (
+                    <p className="text-xs mt-1">Aucune reservation possible ce jour.</p>
+                  )}
+                </div>
+              )}
               {selectedDate ? (
                 selectedDateReservations.length > 0 ? (
                   <div className="space-y-3">
@@ -327,6 +360,10 @@ export function CalendarPage() {
                   <span className="text-sm">{label}</span>
                 </div>
               ))}
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded border border-red-200 bg-red-50" />
+                <span className="text-sm">Jour ferie</span>
+              </div>
             </CardContent>
           </Card>
         </div>
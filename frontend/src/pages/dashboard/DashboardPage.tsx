@@ -1,3 +1,5 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import {
   Car,
@@ -8,9 +10,13 @@ import {
   TrendingUp,
   Users,
   Wrench,
+  Building,
+  Fuel,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { dashboardService } from '@/services/dashboard.service';
+import { locationService } from '@/services/location.service';
+import { departmentService } from '@/services/department.service';
 import { useAuthStore, useHasMinRole } from '@/stores/auth.store';
 import { formatCurrency } from '@/lib/utils';
 import {
@@ -68,9 +74,19 @@ export function DashboardPage() {
   const user = useAuthStore((state) => state.user);
   const isManager = useHasMinRole('MANAGER');
 
+  // Restricts the fleet indicators to one site, all sites when empty
+  const [locationId, setLocationId] = useState('');
+  const scope = locationId || undefined;
+
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: () => locationService.getLocations(),
+    enabled: isManager,
+  });
+
   const { data: stats, isLoading: statsLoading } = useQuery({
-    queryKey: ['dashboard-stats'],
-    queryFn: dashboardService.getStats,
+    queryKey: ['dashboard-stats', locationId],
+    queryFn: () => dashboardService.getStats(scope),
     enabled: isManager,
   });
 
@@ -80,23 +96,45 @@ export function DashboardPage() {
   });
 
   const { data: vehiclesByStatus } = useQuery({
-    queryKey: ['vehicles-by-status'],
-    queryFn: dashboardService.getVehiclesByStatus,
+    queryKey: ['vehicles-by-status', locationId],
+    queryFn: () => dashboardService.getVehiclesByStatus(scope),
     enabled: isManager,
   });
 
   const { data: reservationTrends } = useQuery({
-    queryKey: ['reservation-trends'],
-    queryFn: () => dashboardService.getReservationTrends(30),
+    queryKey: ['reservation-trends', locationId],
+    queryFn: () => dashboardService.getReservationTrends(30, scope),
     enabled: isManager,
   });
 
   const { data: maintenanceOverview } = useQuery({
-    queryKey: ['maintenance-overview'],
-    queryFn: dashboardService.getMaintenanceOverview,
+    queryKey: ['maintenance-overview', locationId],
+    queryFn: () => dashboardService.getMaintenanceOverview(scope),
+    enabled: isManager,
+  });
+
+  const { data: fuelOverview } = useQuery({
+    queryKey: ['fuel-overview', locationId],
+    queryFn: () => dashboardService.getFuelOverview(scope),
     enabled: isManager,
   });
 
+  // Department managers follow their department's spend, whatever their role
+  const { data: managedDepartment } = useQuery({
+    queryKey: ['departments', 'managed', user?.id],
+    queryFn: async () => {
+      const departments = await departmentService.getDepartments();
+      return departments.find((d) => d.managerId === user?.id) ?? null;
+    },
+    enabled: !!user,
+  });
+
+  const { data: departmentSpend } = useQuery({
+    queryKey: ['departments', managedDepartment?.id, 'spend'],
+    queryFn: () => departmentService.getSpend(managedDepartment!.id),
+    enabled: !!managedDepartment,
+  });
+
   if (statsLoading || userStatsLoading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -108,13 +146,29 @@ export function DashboardPage() {
   return (
     <div className="space-y-8">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">
-          Bonjour, {user?.firstName}!
-        </h1>
-        <p className="text-muted-foreground">
-          Voici un apercu de l'activite du systeme.
-        </p>
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            Bonjour, {user?.firstName}!
+          </h1>
+          <p className="text-muted-foreground">
+            Voici un apercu de l'activite du systeme.
+          </p>
+        </div>
+        {isManager && locations && locations.length > 1 && (
+          <select
+            className="h-10 px-3 border rounded-md bg-background"
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+          >
+            <option value="">Tous les emplacements</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        )}
       </div>
 
       {/* User Stats - Always visible */}
@@ -141,6 +195,50 @@ export function DashboardPage() {
         />
       </div>
 
+      {/* Managed department spend, current year */}
+      {managedDepartment && departmentSpend && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Building className="h-5 w-5" />
+              Departement {managedDepartment.name}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-4">
+              <div>
+                <p className="text-2xl font-bold">{formatCurrency(departmentSpend.spent)}</p>
+                <p className="text-sm text-muted-foreground">Depense cette annee</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{formatCurrency(departmentSpend.committed)}</p>
+                <p className="text-sm text-muted-foreground">Engage (a venir)</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{departmentSpend.reservationCount}</p>
+                <p className="text-sm text-muted-foreground">Reservations</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{departmentSpend.distance} km</p>
+                <p className="text-sm text-muted-foreground">Distance parcourue</p>
+              </div>
+            </div>
+            {departmentSpend.byUser.length > 0 && (
+              <div className="divide-y">
+                {departmentSpend.byUser.slice(0, 5).map((entry) => (
+                  <div key={entry.userId} className="flex justify-between py-2 text-sm">
+                    <span>
+                      {entry.name} ({entry.reservations})
+                    </span>
+                    <span className="font-medium">{formatCurrency(entry.spent)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Admin/Manager Stats */}
       {isManager && stats && (
         <>
@@ -278,6 +376,63 @@ export function DashboardPage() {
               </CardContent>
             </Card>
           )}
+
+          {/* Fuel Overview */}
+          {fuelOverview && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Fuel className="h-5 w-5" />
+                  Carburant
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-4">
+                  <div>
+                    <p className="text-2xl font-bold">{fuelOverview.litersThisMonth} L</p>
+                    <p className="text-sm text-muted-foreground">Consommes ce mois</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold">
+                      {formatCurrency(fuelOverview.costThisMonth)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">Cout ce mois</p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold">
+                      {fuelOverview.averageConsumption != null
+                        ? `${fuelOverview.averageConsumption} L`
+                        : '-'}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Moyenne /100 km (30 jours)
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold text-red-600">
+                      {fuelOverview.anomaliesLast30Days}
+                    </p>
+                    <p className="text-sm text-muted-foreground">Anomalies (30 jours)</p>
+                  </div>
+                </div>
+                {fuelOverview.flaggedVehicles.length > 0 && (
+                  <div className="divide-y">
+                    {fuelOverview.flaggedVehicles.slice(0, 5).map((entry) => (
+                      <div key={entry.vehicleId} className="flex justify-between py-2 text-sm">
+                        <Link
+                          to={`/vehicles/${entry.vehicleId}`}
+                          className="text-primary hover:underline"
+                        >
+                          {entry.vehicleName} ({entry.registrationNumber})
+                        </Link>
+                        <span className="font-medium">{entry.anomalyCount} anomalie(s)</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </>
       )}
     </div>
@@ -0,0 +1,467 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Car, Calendar, CheckCircle, MapPin, Search, Wrench } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useHasMinRole } from '@/stores/auth.store';
+import { useToast } from '@/components/ui/toast';
+import { formatDateTime, getFileUrl, cn } from '@/lib/utils';
+import { incidentService } from '@/services/incident.service';
+import type { Incident, IncidentType, Priority } from '@/types';
+
+const typeLabels: Record<IncidentType, string> = {
+  ACCIDENT: 'Accident',
+  BREAKDOWN: 'Panne',
+  DAMAGE: 'Dommage',
+  THEFT: 'Vol',
+  OTHER: 'Autre',
+};
+
+const severityColors: Record<Priority, string> = {
+  LOW: 'text-green-600 bg-green-50',
+  MEDIUM: 'text-yellow-600 bg-yellow-50',
+  HIGH: 'text-orange-600 bg-orange-50',
+  URGENT: 'text-red-600 bg-red-50',
+};
+
+const severityLabels: Record<Priority, string> = {
+  LOW: 'Basse',
+  MEDIUM: 'Moyenne',
+  HIGH: 'Haute',
+  URGENT: 'Urgente',
+};
+
+function mapUrl(latitude: number, longitude: number): string {
+  return (
+    `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}` +
+    `#map=16/${latitude}/${longitude}`
+  );
+}
+
+export function IncidentsPage() {
+  const [search, setSearch] = useState('');
+  const [severityFilter, setSeverityFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<IncidentType | ''>('');
+  // Open incidents by default, the triage queue
+  const [statusFilter, setStatusFilter] = useState<'open' | 'resolved' | ''>('open');
+  const [page, setPage] = useState(1);
+  const [resolving, setResolving] = useState<Incident | null>(null);
+  const [resolution, setResolution] = useState('');
+  const isAdmin = useHasMinRole('ADMIN');
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  const { data, isLoading } = useQuery({
+    queryKey: [
+      'incidents',
+      { page, search, severity: severityFilter, type: typeFilter, status: statusFilter },
+    ],
+    queryFn: () =>
+      incidentService.getIncidents({
+        page,
+        limit: 10,
+        search,
+        severity: severityFilter,
+        type: typeFilter,
+        resolved: statusFilter ? statusFilter === 'resolved' : undefined,
+      }),
+  });
+
+  const { data: summary } = useQuery({
+    queryKey: ['incidents', 'summary'],
+    queryFn: () => incidentService.getSummary(),
+    enabled: isAdmin,
+  });
+
+  const onError = (error: unknown) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || "Impossible de mettre a jour l'incident.",
+      type: 'error',
+    });
+  };
+
+  const severityMutation = useMutation({
+    mutationFn: ({ id, severity }: { id: string; severity: Priority }) =>
+      incidentService.updateIncident(id, { severity }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+    },
+    onError,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: () => incidentService.resolveIncident(resolving!.id, resolution.trim()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+      addToast({
+        title: 'Incident resolu',
+        description: 'Le declarant a ete prevenu.',
+        type: 'success',
+      });
+      setResolving(null);
+      setResolution('');
+    },
+    onError,
+  });
+
+  const escalateMutation = useMutation({
+    mutationFn: (id: string) => incidentService.escalateIncident(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+      queryClient.invalidateQueries({ queryKey: ['maintenances'] });
+      addToast({
+        title: 'Vehicule en maintenance',
+        description: 'Une maintenance corrective a ete ouverte.',
+        type: 'success',
+      });
+    },
+    onError,
+  });
+
+  const escalate = (incident: Incident) => {
+    const { vehicle } = incident;
+    if (
+      window.confirm(
+        `Mettre ${vehicle.brand} ${vehicle.model} (${vehicle.registrationNumber}) en ` +
+          'maintenance et ouvrir une maintenance corrective ?'
+      )
+    ) {
+      escalateMutation.mutate(incident.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Incidents</h1>
+        <p className="text-muted-foreground">
+          {isAdmin
+            ? 'Triez les incidents signales et suivez leur resolution.'
+            : 'Suivez les incidents que vous avez signales.'}
+        </p>
+      </div>
+
+      {/* Summary */}
+      {summary && (
+        <div className="grid gap-4 md:grid-cols-4">
+          {(['URGENT', 'HIGH', 'MEDIUM', 'LOW'] as Priority[]).map((severity) => (
+            <Card key={severity}>
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-4">
+                  <div className={cn('p-2 rounded-lg', severityColors[severity])}>
+                    <AlertTriangle className="h-5 w-5" />
+                  </div>
+                  <div>
+                    <p className="text-2xl font-bold">{summary.open[severity]}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Ouverts, gravite {severityLabels[severity].toLowerCase()}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+      {summary && (
+        <p className="text-sm text-muted-foreground">
+          {summary.resolvedLast30Days} incident(s) resolu(s) sur les 30 derniers jours
+          {summary.averageResolutionHours !== null &&
+            `, en ${summary.averageResolutionHours} h en moyenne`}
+          .
+        </p>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Rechercher par immatriculation, description, lieu..."
+                className="pl-10"
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setPage(1);
+                }}
+              />
+            </div>
+            <select
+              className="h-10 px-3 border rounded-md bg-background"
+              value={severityFilter}
+              onChange={(e) => {
+                setSeverityFilter(e.target.value);
+                setPage(1);
+              }}
+            >
+              <option value="">Toutes les gravites</option>
+              <option value="HIGH,URGENT">Haute et urgente</option>
+              <option value="URGENT">Urgente</option>
+              <option value="HIGH">Haute</option>
+              <option value="MEDIUM">Moyenne</option>
+              <option value="LOW">Basse</option>
+            </select>
+            <select
+              className="h-10 px-3 border rounded-md bg-background"
+              value={typeFilter}
+              onChange={(e) => {
+                setTypeFilter(e.target.value as IncidentType | '');
+                setPage(1);
+              }}
+            >
+              <option value="">Tous les types</option>
+              {Object.entries(typeLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="h-10 px-3 border rounded-md bg-background"
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as 'open' | 'resolved' | '');
+                setPage(1);
+              }}
+            >
+              <option value="open">Ouverts</option>
+              <option value="resolved">Resolus</option>
+              <option value="">Tous</option>
+            </select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="loading-spinner" />
+        </div>
+      ) : data?.data.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <AlertTriangle className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium">Aucun incident trouve</h3>
+            <p className="text-muted-foreground">
+              Essayez de modifier vos filtres de recherche.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {data?.data.map((incident) => (
+            <Card key={incident.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex flex-col md:flex-row md:items-start gap-4">
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-semibold">{typeLabels[incident.type]}</p>
+                      <span
+                        className={cn(
+                          'px-2 py-0.5 rounded text-xs font-medium',
+                          severityColors[incident.severity]
+                        )}
+                      >
+                        {severityLabels[incident.severity]}
+                      </span>
+                      {incident.resolved ? (
+                        <Badge variant="success">Resolu</Badge>
+                      ) : (
+                        <Badge variant="warning">Ouvert</Badge>
+                      )}
+                      {incident.maintenance && (
+                        <Badge variant="info">
+                          <Wrench className="h-3 w-3 mr-1" />
+                          Maintenance corrective
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-sm">{incident.description}</p>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Car className="h-4 w-4" />
+                        <Link
+                          to={`/vehicles/${incident.vehicle.id}`}
+                          className="hover:text-primary"
+                        >
+                          {incident.vehicle.brand} {incident.vehicle.model} -{' '}
+                          {incident.vehicle.registrationNumber}
+                        </Link>
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-4 w-4" />
+                        {formatDateTime(incident.date)}
+                      </span>
+                      {(incident.location || incident.latitude != null) && (
+                        <span className="flex items-center gap-1">
+                          <MapPin className="h-4 w-4" />
+                          {incident.latitude != null && incident.longitude != null ? (
+                            <a
+                              href={mapUrl(incident.latitude, incident.longitude)}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="hover:text-primary"
+                            >
+                              {incident.location || 'Voir sur la carte'}
+                            </a>
+                          ) : (
+                            incident.location
+                          )}
+                        </span>
+                      )}
+                      {incident.reservation && (
+                        <Link
+                          to={`/reservations/${incident.reservation.id}`}
+                          className="hover:text-primary"
+                        >
+                          {incident.reservation.referenceNumber}
+                        </Link>
+                      )}
+                      <span>
+                        Par {incident.reporter.firstName} {incident.reporter.lastName}
+                      </span>
+                    </div>
+                    {incident.resolution && (
+                      <p className="text-sm flex items-start gap-1">
+                        <CheckCircle className="h-4 w-4 text-green-600 mt-0.5" />
+                        {incident.resolution}
+                      </p>
+                    )}
+                  </div>
+
+                  {isAdmin && !incident.resolved && (
+                    <div className="flex flex-col gap-2 md:w-56">
+                      <select
+                        className="w-full h-10 px-3 border rounded-md bg-background"
+                        value={incident.severity}
+                        disabled={severityMutation.isPending}
+                        onChange={(e) =>
+                          severityMutation.mutate({
+                            id: incident.id,
+                            severity: e.target.value as Priority,
+                          })
+                        }
+                      >
+                        {Object.entries(severityLabels).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            Gravite : {label}
+                          </option>
+                        ))}
+                      </select>
+                      {['HIGH', 'URGENT'].includes(incident.severity) &&
+                        !incident.maintenanceId && (
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            disabled={escalateMutation.isPending}
+                            onClick={() => escalate(incident)}
+                          >
+                            <Wrench className="h-4 w-4 mr-2" />
+                            Mettre en maintenance
+                          </Button>
+                        )}
+                      <Button variant="outline" size="sm" onClick={() => setResolving(incident)}>
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Resoudre
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {incident.photos.length > 0 && (
+                  <div className="flex gap-2 flex-wrap">
+                    {incident.photos.map((photo) => (
+                      <a key={photo} href={getFileUrl(photo)} target="_blank" rel="noreferrer">
+                        <img
+                          src={getFileUrl(photo)}
+                          alt="Photo de l'incident"
+                          className="h-20 w-20 object-cover rounded-md border"
+                        />
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Pagination */}
+      {data && data.meta.totalPages > 1 && (
+        <div className="flex items-center justify-center gap-2">
+          <Button
+            variant="outline"
+            disabled={!data.meta.hasPrev}
+            onClick={() => setPage((p) => p - 1)}
+          >
+            Precedent
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {data.meta.page} sur {data.meta.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            disabled={!data.meta.hasNext}
+            onClick={() => setPage((p) => p + 1)}
+          >
+            Suivant
+          </Button>
+        </div>
+      )}
+
+      {/* Resolve dialog */}
+      <Dialog
+        open={!!resolving}
+        onOpenChange={(open) => {
+          if (!open) {
+            setResolving(null);
+            setResolution('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Resoudre l'incident</DialogTitle>
+            <DialogDescription>
+              Decrivez la suite donnee. Le declarant en sera informe.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value)}
+            placeholder="Reparation effectuee, declaration a l'assurance..."
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResolving(null)}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => resolveMutation.mutate()}
+              disabled={resolution.trim().length < 5 || resolveMutation.isPending}
+            >
+              {resolveMutation.isPending ? 'Enregistrement...' : 'Resoudre'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/toast';
+import {
+  maintenanceService,
+  type WorkOrderLineInput,
+} from '@/services/maintenance.service';
+import { partService } from '@/services/part.service';
+import { formatCurrency } from '@/lib/utils';
+import type { MaintenanceLineType } from '@/types';
+
+interface PartLine {
+  partId: string;
+  quantity: string;
+}
+
+// Quantity holds the hours of labour lines and the rate of tax lines
+interface WorkLine {
+  type: MaintenanceLineType;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+const lineTypeLabels: Record<MaintenanceLineType, string> = {
+  LABOR: "Main d'oeuvre",
+  PART: 'Piece achetee',
+  CONSUMABLE: 'Consommable',
+  TAX: 'Taxe',
+};
+
+interface CompleteMaintenanceDialogProps {
+  maintenance: {
+    id: string;
+    vehicle: { id: string; brand: string; model: string; registrationNumber: string };
+    vendor?: { name: string; laborRate?: number | null } | null;
+  } | null;
+  onClose: () => void;
+}
+
+function toLineInput(line: WorkLine): WorkOrderLineInput {
+  const description = line.description.trim();
+  const quantity = parseFloat(line.quantity);
+  switch (line.type) {
+    case 'LABOR':
+      return {
+        type: 'LABOR',
+        description,
+        hours: quantity,
+        hourlyRate: line.unitPrice ? parseFloat(line.unitPrice) : undefined,
+      };
+    case 'TAX':
+      return { type: 'TAX', description, rate: quantity };
+    default:
+      return { type: line.type, description, quantity, unitPrice: parseFloat(line.unitPrice) };
+  }
+}
+
+export function CompleteMaintenanceDialog({
+  maintenance,
+  onClose,
+}: CompleteMaintenanceDialogProps) {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  const [workLines, setWorkLines] = useState<WorkLine[]>([]);
+  const [mileage, setMileage] = useState('');
+  const [invoiceNumber, setInvoiceNumber] = useState('');
+  const [invoice, setInvoice] = useState<File | null>(null);
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<PartLine[]>([]);
+
+  const vehicleId = maintenance?.vehicle.id;
+  const laborRate = maintenance?.vendor?.laborRate ?? null;
+
+  // Only the parts fitting the vehicle can be chosen
+  const { data: parts } = useQuery({
+    queryKey: ['parts', { vehicleId }],
+    queryFn: () => partService.getParts({ vehicleId }),
+    enabled: !!vehicleId,
+  });
+
+  const close = () => {
+    setWorkLines([]);
+    setMileage('');
+    setInvoiceNumber('');
+    setInvoice(null);
+    setNotes('');
+    setLines([]);
+    onClose();
+  };
+
+  const updateLine = (index: number, line: PartLine) => {
+    setLines(lines.map((current, i) => (i === index ? line : current)));
+  };
+
+  const updateWorkLine = (index: number, line: WorkLine) => {
+    setWorkLines(workLines.map((current, i) => (i === index ? line : current)));
+  };
+
+  // Same pricing as the server, to show the total before completing
+  const stockTotal = lines.reduce((sum, line) => {
+    const part = parts?.find((p) => p.id === line.partId);
+    return sum + (part ? part.unitCost * (parseInt(line.quantity) || 0) : 0);
+  }, 0);
+  const linePrice = (line: WorkLine): number => {
+    if (line.unitPrice) return parseFloat(line.unitPrice) || 0;
+    return line.type === 'LABOR' ? laborRate ?? 0 : 0;
+  };
+  const subtotal = workLines
+    .filter((line) => line.type !== 'TAX')
+    .reduce((sum, line) => sum + (parseFloat(line.quantity) || 0) * linePrice(line), stockTotal);
+  const tax = workLines
+    .filter((line) => line.type === 'TAX')
+    .reduce((sum, line) => sum + (subtotal * (parseFloat(line.quantity) || 0)) / 100, 0);
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      const completed = await maintenanceService.completeMaintenance(maintenance!.id, {
+        lines: workLines.map(toLineInput),
+        mileageAtService: mileage ? parseInt(mileage) : undefined,
+        parts: lines.map((line) => ({
+          partId: line.partId,
+          quantity: parseInt(line.quantity),
+        })),
+        invoiceNumber: invoiceNumber.trim() || undefined,
+        notes: notes.trim() || undefined,
+      });
+      // The maintenance stays completed when the invoice fails to upload
+      let invoiceUploaded = true;
+      if (invoice) {
+        invoiceUploaded = await maintenanceService
+          .uploadInvoice(maintenance!.id, invoice)
+          .then(() => true)
+          .catch(() => false);
+      }
+      return { completed, invoiceUploaded };
+    },
+    onSuccess: ({ invoiceUploaded }) => {
+      queryClient.invalidateQueries({ queryKey: ['maintenances'] });
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      queryClient.invalidateQueries({ queryKey: ['vehicle', vehicleId] });
+      addToast({
+        title: 'Maintenance terminee',
+        description: invoiceUploaded
+          ? 'Les pieces montees ont ete retirees du stock.'
+          : "La facture n'a pas pu etre jointe.",
+        type: invoiceUploaded ? 'success' : 'warning',
+      });
+      close();
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description: err.response?.data?.message || 'Impossible de terminer la maintenance.',
+        type: 'error',
+      });
+    },
+  });
+
+  const linesValid = lines.every((line) => line.partId && parseInt(line.quantity) > 0);
+  const workLinesValid = workLines.every(
+    (line) =>
+      line.description.trim() &&
+      parseFloat(line.quantity) > 0 &&
+      (line.type === 'TAX' ||
+        (line.type === 'LABOR' && (line.unitPrice !== '' || laborRate !== null)) ||
+        line.unitPrice !== '')
+  );
+  // Tax alone is not a work order
+  const hasWork = lines.length > 0 || workLines.some((line) => line.type !== 'TAX');
+
+  return (
+    <Dialog open={!!maintenance} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Terminer la maintenance</DialogTitle>
+          <DialogDescription>
+            {maintenance?.vehicle.brand} {maintenance?.vehicle.model} -{' '}
+            {maintenance?.vehicle.registrationNumber}. Le cout reel est le total de l'ordre de
+            travail ; les pieces du stock sont prises sur le site du vehicule.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="complete-mileage">Kilometrage</Label>
+            <Input
+              id="complete-mileage"
+              type="number"
+              min="0"
+              value={mileage}
+              onChange={(e) => setMileage(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Ordre de travail</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setWorkLines([
+                    ...workLines,
+                    { type: 'LABOR', description: '', quantity: '1', unitPrice: '' },
+                  ])
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Ajouter
+              </Button>
+            </div>
+            {workLines.map((line, index) => (
+              <div key={index} className="flex gap-2">
+                <select
+                  className="w-36 h-10 px-3 border rounded-md bg-background"
+                  value={line.type}
+                  onChange={(e) =>
+                    updateWorkLine(index, {
+                      ...line,
+                      type: e.target.value as MaintenanceLineType,
+                    })
+                  }
+                >
+                  {Object.entries(lineTypeLabels).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  className="flex-1"
+                  placeholder={line.type === 'TAX' ? 'TVA' : 'Description'}
+                  value={line.description}
+                  onChange={(e) => updateWorkLine(index, { ...line, description: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  className="w-20"
+                  title={
+                    line.type === 'LABOR' ? 'Heures' : line.type === 'TAX' ? 'Taux (%)' : 'Quantite'
+                  }
+                  placeholder={line.type === 'LABOR' ? 'h' : line.type === 'TAX' ? '%' : 'Qte'}
+                  value={line.quantity}
+                  onChange={(e) => updateWorkLine(index, { ...line, quantity: e.target.value })}
+                />
+                {line.type !== 'TAX' && (
+                  <Input
+                    type="number"
+                    min="0"
+                    className="w-28"
+                    title={line.type === 'LABOR' ? 'Taux horaire (XOF)' : 'Prix unitaire (XOF)'}
+                    placeholder={
+                      line.type === 'LABOR' && laborRate !== null ? String(laborRate) : 'Prix'
+                    }
+                    value={line.unitPrice}
+                    onChange={(e) => updateWorkLine(index, { ...line, unitPrice: e.target.value })}
+                  />
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Retirer"
+                  onClick={() => setWorkLines(workLines.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {laborRate !== null && (
+              <p className="text-xs text-muted-foreground">
+                La main d'oeuvre sans taux est facturee au taux du contrat de{' '}
+                {maintenance?.vendor?.name}, {formatCurrency(laborRate)} / h.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Pieces du stock</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setLines([...lines, { partId: '', quantity: '1' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Ajouter
+              </Button>
+            </div>
+            {lines.map((line, index) => (
+              <div key={index} className="flex gap-2">
+                <select
+                  className="flex-1 h-10 px-3 border rounded-md bg-background"
+                  value={line.partId}
+                  onChange={(e) => updateLine(index, { ...line, partId: e.target.value })}
+                >
+                  <option value="">Choisir une piece</option>
+                  {parts?.map((part) => (
+                    <option key={part.id} value={part.id}>
+                      {part.sku} - {part.name}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  min="1"
+                  className="w-20"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { ...line, quantity: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  title="Retirer"
+                  onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between rounded-md bg-muted px-3 py-2 text-sm">
+            <span>
+              Total{tax > 0 && ` dont ${formatCurrency(tax)} de taxes`}
+            </span>
+            <span className="font-semibold">{formatCurrency(subtotal + tax)}</span>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="complete-invoice">Numero de facture</Label>
+              <Input
+                id="complete-invoice"
+                value={invoiceNumber}
+                onChange={(e) => setInvoiceNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="complete-invoice-file">Facture (PDF)</Label>
+              <Input
+                id="complete-invoice-file"
+                type="file"
+                accept="application/pdf,image/jpeg,image/png"
+                onChange={(e) => setInvoice(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="complete-notes">Notes</Label>
+            <Textarea
+              id="complete-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Annuler
+          </Button>
+          <Button
+            onClick={() => completeMutation.mutate()}
+            disabled={
+              !hasWork || !linesValid || !workLinesValid || completeMutation.isPending
+            }
+          >
+            {completeMutation.isPending ? 'Enregistrement...' : 'Terminer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,96 @@
+import { AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatDate } from '@/lib/utils';
+import type {
+  ConflictResolution,
+  MaintenanceConflict,
+} from '@/services/maintenance.service';
+
+export type ConflictChoices = Record<string, ConflictResolution>;
+
+// Moves each booking to its best candidate, or cancels it when none is free
+export function defaultConflictChoices(conflicts: MaintenanceConflict[]): ConflictChoices {
+  return Object.fromEntries(
+    conflicts.map(({ reservation, candidates }): [string, ConflictResolution] => [
+      reservation.id,
+      candidates[0]
+        ? {
+            reservationId: reservation.id,
+            action: 'REASSIGN',
+            vehicleId: candidates[0].vehicle.id,
+          }
+        : { reservationId: reservation.id, action: 'CANCEL' },
+    ])
+  );
+}
+
+// Trips under way keep the vehicle, the maintenance has to wait for them
+export function hasTripInProgress(conflicts: MaintenanceConflict[]): boolean {
+  return conflicts.some(({ reservation }) => reservation.status === 'IN_PROGRESS');
+}
+
+interface MaintenanceConflictsProps {
+  conflicts: MaintenanceConflict[];
+  choices: ConflictChoices;
+  onChange: (choices: ConflictChoices) => void;
+}
+
+export function MaintenanceConflicts({ conflicts, choices, onChange }: MaintenanceConflictsProps) {
+  const choose = (reservationId: string, value: string) => {
+    onChange({
+      ...choices,
+      [reservationId]:
+        value === 'CANCEL'
+          ? { reservationId, action: 'CANCEL' }
+          : { reservationId, action: 'REASSIGN', vehicleId: value },
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start gap-2 text-sm text-orange-600">
+        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+        <p>
+          Le vehicule est reserve pendant cette maintenance. Choisissez pour chaque
+          reservation un vehicule de remplacement ou son annulation.
+        </p>
+      </div>
+      {conflicts.map(({ reservation, candidates }) => {
+        const choice = choices[reservation.id];
+        return (
+          <div key={reservation.id} className="p-3 border rounded-lg space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium">{reservation.referenceNumber}</p>
+              {reservation.status === 'IN_PROGRESS' && (
+                <Badge variant="destructive">Trajet en cours</Badge>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {reservation.user.firstName} {reservation.user.lastName} - du{' '}
+              {formatDate(reservation.startDate)} au {formatDate(reservation.endDate)}
+            </p>
+            {reservation.status === 'IN_PROGRESS' ? (
+              <p className="text-sm text-destructive">
+                Le vehicule doit etre restitue avant le debut de la maintenance.
+              </p>
+            ) : (
+              <select
+                className="w-full h-10 px-3 border rounded-md bg-background"
+                value={choice?.action === 'REASSIGN' ? choice.vehicleId : 'CANCEL'}
+                onChange={(e) => choose(reservation.id, e.target.value)}
+              >
+                {candidates.map((candidate) => (
+                  <option key={candidate.vehicle.id} value={candidate.vehicle.id}>
+                    Reaffecter a {candidate.vehicle.brand} {candidate.vehicle.model} -{' '}
+                    {candidate.vehicle.registrationNumber}
+                  </option>
+                ))}
+                <option value="CANCEL">Annuler la reservation et prevenir l'utilisateur</option>
+              </select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
   Calendar,
   DollarSign,
   AlertTriangle,
+  FileText,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -25,8 +26,20 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { useHasMinRole } from '@/stores/auth.store';
 import { useToast } from '@/components/ui/toast';
-import { formatDate, formatCurrency, cn } from '@/lib/utils';
+import { formatDate, formatCurrency, getFileUrl, cn } from '@/lib/utils';
 import api from '@/services/api';
+import {
+  maintenanceService,
+  type MaintenanceConflict,
+} from '@/services/maintenance.service';
+import { vendorService } from '@/services/vendor.service';
+import {
+  MaintenanceConflicts,
+  defaultConflictChoices,
+  hasTripInProgress,
+  type ConflictChoices,
+} from './MaintenanceConflicts';
+import { CompleteMaintenanceDialog } from './CompleteMaintenanceDialog';
 
 interface Maintenance {
   id: string;
@@ -34,7 +47,9 @@ interface Maintenance {
   description: string;
   scheduledDate: string;
   completedDate?: string;
-  cost?: number;
+  estimatedCost?: number;
+  // Total of the work order, set on completion
+  actualCost?: number;
   status: 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
   vehicle: {
@@ -43,6 +58,21 @@ interface Maintenance {
     model: string;
     registrationNumber: string;
   };
+  vendor?: {
+    id: string;
+    name: string;
+    laborRate?: number | null;
+  } | null;
+  documents?: { id: string; type: string; url: string; previousVersionId?: string | null }[];
+}
+
+// Current version of the invoice attached to the maintenance
+function invoiceOf(maintenance: Maintenance) {
+  const invoices =
+    maintenance.documents?.filter((doc) => doc.type === 'MAINTENANCE_INVOICE') ?? [];
+  return invoices.find(
+    (invoice) => !invoices.some((other) => other.previousVersionId === invoice.id)
+  );
 }
 
 const statusColors: Record<string, 'default' | 'secondary' | 'success' | 'warning' | 'destructive'> = {
@@ -89,13 +119,25 @@ export function MaintenancePage() {
   const queryClient = useQueryClient();
   const { addToast } = useToast();
 
+  // Reservations overlapping the window being scheduled, once checked
+  const [conflicts, setConflicts] = useState<MaintenanceConflict[] | null>(null);
+  const [choices, setChoices] = useState<ConflictChoices>({});
+  // Maintenance waiting for its overlapping reservations to be resolved
+  const [starting, setStarting] = useState<Maintenance | null>(null);
+  const [startConflicts, setStartConflicts] = useState<MaintenanceConflict[]>([]);
+  const [startChoices, setStartChoices] = useState<ConflictChoices>({});
+  // Maintenance being completed
+  const [completing, setCompleting] = useState<Maintenance | null>(null);
+
   const [formData, setFormData] = useState({
     vehicleId: '',
     type: 'PREVENTIVE',
     description: '',
     scheduledDate: '',
+    estimatedEndDate: '',
     priority: 'MEDIUM',
     estimatedCost: '',
+    vendorId: '',
   });
 
   const { data, isLoading } = useQuery({
@@ -120,24 +162,81 @@ export function MaintenancePage() {
     },
   });
 
+  const { data: vendors } = useQuery({
+    queryKey: ['vendors', { search: '', includeInactive: false }],
+    queryFn: () => vendorService.getVendors(),
+    enabled: dialogOpen,
+  });
+
+  const getErrorMessage = (error: unknown, fallback: string) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    return err.response?.data?.message || fallback;
+  };
+
+  const updateForm = (data: typeof formData) => {
+    setFormData(data);
+    // The window or the vehicle changed, overlapping reservations must be checked again
+    setConflicts(null);
+  };
+
+  const closeCreateDialog = () => {
+    setDialogOpen(false);
+    setConflicts(null);
+  };
+
+  const checkConflictsMutation = useMutation({
+    mutationFn: () =>
+      maintenanceService.getConflicts({
+        vehicleId: formData.vehicleId,
+        scheduledDate: new Date(formData.scheduledDate).toISOString(),
+        estimatedEndDate: formData.estimatedEndDate
+          ? new Date(formData.estimatedEndDate).toISOString()
+          : undefined,
+      }),
+    onSuccess: (found) => {
+      if (found.length === 0) {
+        createMutation.mutate(formData);
+        return;
+      }
+      setConflicts(found);
+      setChoices(defaultConflictChoices(found));
+    },
+    onError: (error) => {
+      addToast({
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de verifier les reservations.'),
+        type: 'error',
+      });
+    },
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: typeof formData) => {
       const response = await api.post('/maintenances', {
         ...data,
+        scheduledDate: new Date(data.scheduledDate).toISOString(),
+        estimatedEndDate: data.estimatedEndDate
+          ? new Date(data.estimatedEndDate).toISOString()
+          : undefined,
         estimatedCost: data.estimatedCost ? Number(data.estimatedCost) : undefined,
+        vendorId: data.vendorId || undefined,
+        conflictResolutions: conflicts?.length ? Object.values(choices) : undefined,
       });
       return response.data;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['maintenances'] });
-      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      closeCreateDialog();
       setFormData({
         vehicleId: '',
         type: 'PREVENTIVE',
         description: '',
         scheduledDate: '',
+        estimatedEndDate: '',
         priority: 'MEDIUM',
         estimatedCost: '',
+        vendorId: '',
       });
       addToast({
         title: 'Maintenance planifiee',
@@ -145,20 +244,77 @@ export function MaintenancePage() {
         type: 'success',
       });
     },
-    onError: () => {
+    onError: (error) => {
       addToast({
         title: 'Erreur',
-        description: 'Impossible de creer la maintenance.',
+        description: getErrorMessage(error, 'Impossible de creer la maintenance.'),
         type: 'error',
       });
     },
   });
 
+  const startMutation = useMutation({
+    mutationFn: (maintenance: Maintenance) =>
+      maintenanceService.startMaintenance(maintenance.id, {
+        conflictResolutions:
+          starting?.id === maintenance.id && startConflicts.length > 0
+            ? Object.values(startChoices)
+            : undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['maintenances'] });
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      setStarting(null);
+      setStartConflicts([]);
+      addToast({
+        title: 'Maintenance demarree',
+        description: 'Le vehicule est maintenant en maintenance.',
+        type: 'success',
+      });
+    },
+    onError: (error) => {
+      addToast({
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de demarrer la maintenance.'),
+        type: 'error',
+      });
+    },
+  });
+
+  const checkStartMutation = useMutation({
+    mutationFn: (maintenance: Maintenance) =>
+      maintenanceService.getStartConflicts(maintenance.id),
+    onSuccess: (found, maintenance) => {
+      if (found.length === 0) {
+        startMutation.mutate(maintenance);
+        return;
+      }
+      setStarting(maintenance);
+      setStartConflicts(found);
+      setStartChoices(defaultConflictChoices(found));
+    },
+    onError: (error) => {
+      addToast({
+        title: 'Erreur',
+        description: getErrorMessage(error, 'Impossible de verifier les reservations.'),
+        type: 'error',
+      });
+    },
+  });
+
+  // Overlapping reservations are checked first, the maintenance is created
+  // once each of them has a resolution
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    createMutation.mutate(formData);
+    if (conflicts === null) {
+      checkConflictsMutation.mutate();
+    } else {
+      createMutation.mutate(formData);
+    }
   };
 
+  const isSubmitting = checkConflictsMutation.isPending || createMutation.isPending;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -234,7 +390,7 @@ export function MaintenancePage() {
                 <p className="text-2xl font-bold">
                   {formatCurrency(
                     data?.data?.reduce(
-                      (sum: number, m: Maintenance) => sum + (m.cost || 0),
+                      (sum: number, m: Maintenance) => sum + (m.actualCost || 0),
                       0
                     ) || 0
                   )}
@@ -323,6 +479,11 @@ export function MaintenancePage() {
                       <p className="text-sm text-muted-foreground">
                         {maintenance.description}
                       </p>
+                      {maintenance.vendor && (
+                        <p className="text-xs text-muted-foreground">
+                          Chez {maintenance.vendor.name}
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -341,16 +502,53 @@ export function MaintenancePage() {
                     <span>{formatDate(maintenance.scheduledDate)}</span>
                   </div>
 
-                  {maintenance.cost && (
+                  {(maintenance.actualCost || maintenance.estimatedCost) && (
                     <div className="flex items-center gap-2 text-sm">
                       <DollarSign className="h-4 w-4 text-muted-foreground" />
-                      <span>{formatCurrency(maintenance.cost)}</span>
+                      <span>
+                        {maintenance.actualCost
+                          ? formatCurrency(maintenance.actualCost)
+                          : `${formatCurrency(maintenance.estimatedCost!)} estime`}
+                      </span>
                     </div>
                   )}
 
+                  {invoiceOf(maintenance) && (
+                    <a
+                      href={getFileUrl(invoiceOf(maintenance)!.url)}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-2 text-sm hover:text-primary"
+                    >
+                      <FileText className="h-4 w-4 text-muted-foreground" />
+                      Facture
+                    </a>
+                  )}
+
                   <Badge variant={statusColors[maintenance.status]}>
                     {statusLabels[maintenance.status]}
                   </Badge>
+
+                  {isAdmin && maintenance.status === 'SCHEDULED' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => checkStartMutation.mutate(maintenance)}
+                      disabled={checkStartMutation.isPending || startMutation.isPending}
+                    >
+                      Demarrer
+                    </Button>
+                  )}
+
+                  {isAdmin && maintenance.status === 'IN_PROGRESS' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setCompleting(maintenance)}
+                    >
+                      Terminer
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -382,8 +580,11 @@ export function MaintenancePage() {
       )}
 
       {/* Create dialog */}
-      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent className="max-w-md">
+      <Dialog
+        open={dialogOpen}
+        onOpenChange={(open) => (open ? setDialogOpen(true) : closeCreateDialog())}
+      >
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Planifier une maintenance</DialogTitle>
           </DialogHeader>
@@ -395,7 +596,7 @@ export function MaintenancePage() {
                 className="w-full h-10 px-3 border rounded-md bg-background"
                 value={formData.vehicleId}
                 onChange={(e) =>
-                  setFormData({ ...formData, vehicleId: e.target.value })
+                  updateForm({ ...formData, vehicleId: e.target.value })
                 }
                 required
               >
@@ -416,7 +617,7 @@ export function MaintenancePage() {
                   className="w-full h-10 px-3 border rounded-md bg-background"
                   value={formData.type}
                   onChange={(e) =>
-                    setFormData({ ...formData, type: e.target.value })
+                    updateForm({ ...formData, type: e.target.value })
                   }
                 >
                   {maintenanceTypes.map((type) => (
@@ -433,7 +634,7 @@ export function MaintenancePage() {
                   className="w-full h-10 px-3 border rounded-md bg-background"
                   value={formData.priority}
                   onChange={(e) =>
-                    setFormData({ ...formData, priority: e.target.value })
+                    updateForm({ ...formData, priority: e.target.value })
                   }
                 >
                   <option value="LOW">Basse</option>
@@ -451,12 +652,27 @@ export function MaintenancePage() {
                 type="datetime-local"
                 value={formData.scheduledDate}
                 onChange={(e) =>
-                  setFormData({ ...formData, scheduledDate: e.target.value })
+                  updateForm({ ...formData, scheduledDate: e.target.value })
                 }
                 required
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="estimatedEndDate">Fin prevue</Label>
+              <Input
+                id="estimatedEndDate"
+                type="datetime-local"
+                value={formData.estimatedEndDate}
+                onChange={(e) =>
+                  updateForm({ ...formData, estimatedEndDate: e.target.value })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Le vehicule ne pourra pas etre reserve pendant cette periode.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="description">Description *</Label>
               <Textarea
@@ -464,7 +680,7 @@ export function MaintenancePage() {
                 placeholder="Description de la maintenance..."
                 value={formData.description}
                 onChange={(e) =>
-                  setFormData({ ...formData, description: e.target.value })
+                  updateForm({ ...formData, description: e.target.value })
                 }
                 required
               />
@@ -478,26 +694,87 @@ export function MaintenancePage() {
                 placeholder="50000"
                 value={formData.estimatedCost}
                 onChange={(e) =>
-                  setFormData({ ...formData, estimatedCost: e.target.value })
+                  updateForm({ ...formData, estimatedCost: e.target.value })
                 }
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="vendorId">Prestataire</Label>
+              <select
+                id="vendorId"
+                className="w-full h-10 px-3 border rounded-md bg-background"
+                value={formData.vendorId}
+                onChange={(e) =>
+                  setFormData({ ...formData, vendorId: e.target.value })
+                }
+              >
+                <option value="">Aucun prestataire</option>
+                {vendors?.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {conflicts && conflicts.length > 0 && (
+              <MaintenanceConflicts
+                conflicts={conflicts}
+                choices={choices}
+                onChange={setChoices}
+              />
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
                 variant="outline"
-                onClick={() => setDialogOpen(false)}
+                onClick={closeCreateDialog}
               >
                 Annuler
               </Button>
-              <Button type="submit" disabled={createMutation.isPending}>
-                {createMutation.isPending ? 'Creation...' : 'Planifier'}
+              <Button
+                type="submit"
+                disabled={isSubmitting || (!!conflicts && hasTripInProgress(conflicts))}
+              >
+                {isSubmitting
+                  ? 'Creation...'
+                  : conflicts?.length
+                    ? 'Confirmer et planifier'
+                    : 'Planifier'}
               </Button>
             </DialogFooter>
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Start dialog, shown when reservations overlap the maintenance */}
+      <Dialog open={!!starting} onOpenChange={(open) => !open && setStarting(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Demarrer la maintenance</DialogTitle>
+          </DialogHeader>
+          <MaintenanceConflicts
+            conflicts={startConflicts}
+            choices={startChoices}
+            onChange={setStartChoices}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStarting(null)}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => starting && startMutation.mutate(starting)}
+              disabled={startMutation.isPending || hasTripInProgress(startConflicts)}
+            >
+              {startMutation.isPending ? 'Demarrage...' : 'Confirmer et demarrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <CompleteMaintenanceDialog maintenance={completing} onClose={() => setCompleting(null)} />
     </div>
   );
 }
@@ -0,0 +1,476 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, PackagePlus, Plus, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { partService, type PartInput } from '@/services/part.service';
+import { locationService } from '@/services/location.service';
+import { useHasMinRole } from '@/stores/auth.store';
+import { useToast } from '@/components/ui/toast';
+import { formatCurrency } from '@/lib/utils';
+import type { Part } from '@/types';
+
+interface PartForm {
+  sku: string;
+  name: string;
+  description: string;
+  compatibleModels: string;
+  unitCost: string;
+  reorderLevel: string;
+}
+
+const emptyForm: PartForm = {
+  sku: '',
+  name: '',
+  description: '',
+  compatibleModels: '',
+  unitCost: '',
+  reorderLevel: '0',
+};
+
+// Compatible models are typed one per line
+function toInput(form: PartForm): PartInput {
+  return {
+    sku: form.sku.trim(),
+    name: form.name.trim(),
+    description: form.description.trim() || undefined,
+    compatibleModels: form.compatibleModels
+      .split('\n')
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    unitCost: parseFloat(form.unitCost),
+    reorderLevel: parseInt(form.reorderLevel) || 0,
+  };
+}
+
+function totalStock(part: Part): number {
+  return part.stocks.reduce((sum, stock) => sum + stock.quantity, 0);
+}
+
+export function PartsPage() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const isAdmin = useHasMinRole('ADMIN');
+
+  const [search, setSearch] = useState('');
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Set when an existing part is being edited
+  const [editing, setEditing] = useState<Part | null>(null);
+  const [form, setForm] = useState<PartForm>(emptyForm);
+  // Part whose stock is being adjusted
+  const [stocking, setStocking] = useState<Part | null>(null);
+  const [stockLocationId, setStockLocationId] = useState('');
+  const [stockQuantity, setStockQuantity] = useState('');
+  const [stockReason, setStockReason] = useState('');
+
+  const { data: parts, isLoading } = useQuery({
+    queryKey: ['parts', { search, includeInactive }],
+    queryFn: () => partService.getParts({ search: search || undefined, includeInactive }),
+  });
+
+  const { data: lowStock } = useQuery({
+    queryKey: ['parts', 'low-stock'],
+    queryFn: () => partService.getLowStock(),
+  });
+
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: () => locationService.getLocations(),
+    enabled: !!stocking,
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEdit = (part: Part) => {
+    setEditing(part);
+    setForm({
+      sku: part.sku,
+      name: part.name,
+      description: part.description ?? '',
+      compatibleModels: part.compatibleModels.join('\n'),
+      unitCost: String(part.unitCost),
+      reorderLevel: String(part.reorderLevel),
+    });
+    setDialogOpen(true);
+  };
+
+  const closeStock = () => {
+    setStocking(null);
+    setStockLocationId('');
+    setStockQuantity('');
+    setStockReason('');
+  };
+
+  const onError = (error: unknown) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || "Impossible d'enregistrer la piece.",
+      type: 'error',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? partService.updatePart(editing.id, toInput(form))
+        : partService.createPart(toInput(form)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      addToast({
+        title: editing ? 'Piece modifiee' : 'Piece ajoutee',
+        description: 'Le catalogue a ete mis a jour.',
+        type: 'success',
+      });
+      closeDialog();
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (part: Part) => {
+      if (part.isActive) {
+        await partService.deletePart(part.id);
+      } else {
+        await partService.updatePart(part.id, { isActive: true });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+    },
+    onError,
+  });
+
+  const stockMutation = useMutation({
+    mutationFn: () =>
+      partService.adjustStock(stocking!.id, {
+        locationId: stockLocationId,
+        quantity: parseInt(stockQuantity),
+        reason: stockReason.trim() || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      addToast({ title: 'Stock mis a jour', type: 'success' });
+      closeStock();
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Pieces detachees</h1>
+          <p className="text-muted-foreground">
+            Catalogue des pieces et stock disponible sur chaque site.
+          </p>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter une piece
+          </Button>
+        )}
+      </div>
+
+      {/* Low stock */}
+      {lowStock && lowStock.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-orange-600">
+              <AlertTriangle className="h-5 w-5" />
+              Stock bas
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {lowStock.map((entry) => (
+                <div
+                  key={`${entry.part.id}-${entry.location.id}`}
+                  className="flex items-center justify-between py-2 text-sm"
+                >
+                  <span>
+                    <span className="font-medium">{entry.part.sku}</span> {entry.part.name} -{' '}
+                    {entry.location.name}
+                  </span>
+                  <span className={entry.quantity === 0 ? 'text-destructive' : ''}>
+                    {entry.quantity} restant(s), seuil {entry.part.reorderLevel}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Rechercher par reference ou nom..."
+                className="pl-10"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={includeInactive}
+                onChange={(e) => setIncludeInactive(e.target.checked)}
+              />
+              Afficher les pieces desactivees
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Catalogue */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="loading-spinner" />
+        </div>
+      ) : parts?.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Aucune piece trouvee
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {parts?.map((part) => (
+            <Card key={part.id}>
+              <CardContent className="p-4">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="font-medium flex items-center gap-2">
+                      {part.sku} - {part.name}
+                      {!part.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatCurrency(part.unitCost)} l'unite - seuil de reapprovisionnement{' '}
+                      {part.reorderLevel}
+                      {part._count && ` - montee ${part._count.usages} fois`}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {part.compatibleModels.length > 0
+                        ? `Compatible : ${part.compatibleModels.join(', ')}`
+                        : 'Compatible avec tous les vehicules'}
+                    </p>
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {part.stocks.map((stock) => (
+                        <Badge
+                          key={stock.id}
+                          variant={
+                            stock.quantity <= part.reorderLevel ? 'destructive' : 'outline'
+                          }
+                        >
+                          {stock.location.name} : {stock.quantity}
+                        </Badge>
+                      ))}
+                      <Badge variant="secondary">Total : {totalStock(part)}</Badge>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setStocking(part)}>
+                      <PackagePlus className="h-4 w-4 mr-2" />
+                      Stock
+                    </Button>
+                    {isAdmin && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => openEdit(part)}>
+                          Modifier
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => toggleMutation.mutate(part)}
+                          disabled={toggleMutation.isPending}
+                        >
+                          {part.isActive ? 'Desactiver' : 'Reactiver'}
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Part dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Modifier la piece' : 'Ajouter une piece'}</DialogTitle>
+            <DialogDescription>
+              Les administrateurs sont alertes quand le stock d'un site atteint le seuil
+              de reapprovisionnement.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="part-sku">Reference *</Label>
+                <Input
+                  id="part-sku"
+                  value={form.sku}
+                  onChange={(e) => setForm({ ...form, sku: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="part-name">Nom *</Label>
+                <Input
+                  id="part-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="part-description">Description</Label>
+              <Input
+                id="part-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="part-unit-cost">Cout unitaire (XOF) *</Label>
+                <Input
+                  id="part-unit-cost"
+                  type="number"
+                  min="0"
+                  value={form.unitCost}
+                  onChange={(e) => setForm({ ...form, unitCost: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="part-reorder-level">Seuil de reapprovisionnement</Label>
+                <Input
+                  id="part-reorder-level"
+                  type="number"
+                  min="0"
+                  value={form.reorderLevel}
+                  onChange={(e) => setForm({ ...form, reorderLevel: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="part-models">Modeles compatibles</Label>
+              <Textarea
+                id="part-models"
+                value={form.compatibleModels}
+                onChange={(e) => setForm({ ...form, compatibleModels: e.target.value })}
+                placeholder={'Toyota\nNissan Patrol'}
+              />
+              <p className="text-xs text-muted-foreground">
+                Une marque ou "Marque Modele" par ligne, vide pour tous les vehicules.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={
+                form.sku.trim().length < 2 ||
+                form.name.trim().length < 2 ||
+                !form.unitCost ||
+                saveMutation.isPending
+              }
+            >
+              {saveMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Stock dialog */}
+      <Dialog open={!!stocking} onOpenChange={(open) => !open && closeStock()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mouvement de stock</DialogTitle>
+            <DialogDescription>
+              {stocking?.sku} - {stocking?.name}. Saisissez une quantite positive pour une
+              reception, negative pour corriger un inventaire.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="stock-location">Site *</Label>
+              <select
+                id="stock-location"
+                className="w-full h-10 px-3 border rounded-md bg-background"
+                value={stockLocationId}
+                onChange={(e) => setStockLocationId(e.target.value)}
+              >
+                <option value="">Choisir un site</option>
+                {locations?.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-quantity">Quantite *</Label>
+              <Input
+                id="stock-quantity"
+                type="number"
+                step="1"
+                value={stockQuantity}
+                onChange={(e) => setStockQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stock-reason">Motif</Label>
+              <Input
+                id="stock-reason"
+                value={stockReason}
+                onChange={(e) => setStockReason(e.target.value)}
+                placeholder="Livraison, inventaire..."
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeStock}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => stockMutation.mutate()}
+              disabled={!stockLocationId || !parseInt(stockQuantity) || stockMutation.isPending}
+            >
+              {stockMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
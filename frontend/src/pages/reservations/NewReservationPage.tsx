@@ -4,30 +4,126 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { ArrowLeft, Car, Calendar, MapPin, Users } from 'lucide-react';
+import {
+  AlertTriangle,
+  ArrowLeft,
+  Car,
+  Calendar,
+  MapPin,
+  Repeat,
+  Users,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Calendar as DayPicker } from '@/components/ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { vehicleService } from '@/services/vehicle.service';
 import { reservationService } from '@/services/reservation.service';
+import { waitlistService } from '@/services/waitlist.service';
+import { holidayService } from '@/services/holiday.service';
 import { useToast } from '@/components/ui/toast';
-import { formatCurrency } from '@/lib/utils';
-
-const reservationSchema = z.object({
-  vehicleId: z.string().min(1, 'Veuillez selectionner un vehicule'),
-  startDate: z.string().min(1, 'Date de debut requise'),
-  endDate: z.string().min(1, 'Date de fin requise'),
-  destination: z.string().min(1, 'Destination requise'),
-  purpose: z.string().min(1, 'Motif requis'),
-  passengers: z.number().min(0).optional(),
-  needsDriver: z.boolean().optional(),
-  notes: z.string().optional(),
-});
+import { formatCurrency, toDateKey } from '@/lib/utils';
+import type { FuelType, Location, VehicleType } from '@/types';
+
+const reservationSchema = z
+  .object({
+    bookingMode: z.enum(['vehicle', 'category']),
+    vehicleId: z.string().optional(),
+    vehicleType: z.string().optional(),
+    minSeats: z.number().min(1).optional(),
+    fuelType: z.string().optional(),
+    pickupLocationId: z.string().optional(),
+    startDate: z.string().min(1, 'Date de debut requise'),
+    endDate: z.string().min(1, 'Date de fin requise'),
+    destination: z.string().min(1, 'Destination requise'),
+    purpose: z.string().min(1, 'Motif requis'),
+    passengers: z.number().min(0).optional(),
+    needsDriver: z.boolean().optional(),
+    notes: z.string().optional(),
+  })
+  .refine((data) => data.bookingMode === 'category' || !!data.vehicleId, {
+    message: 'Veuillez selectionner un vehicule',
+    path: ['vehicleId'],
+  })
+  .refine((data) => data.bookingMode === 'vehicle' || !!data.vehicleType, {
+    message: 'Veuillez choisir une categorie',
+    path: ['vehicleType'],
+  });
 
 type ReservationForm = z.infer<typeof reservationSchema>;
 
+// Booking failures that a waitlist entry can wait out
+const waitlistableConflicts = [
+  'RESERVATION_CONFLICT',
+  'MAINTENANCE_CONFLICT',
+  'VEHICLE_OUT_OF_SERVICE',
+  'NO_VEHICLE_AVAILABLE',
+];
+
+const vehicleTypeOptions: { value: VehicleType; label: string }[] = [
+  { value: 'SEDAN', label: 'Berline' },
+  { value: 'SUV', label: 'SUV' },
+  { value: 'MINIVAN', label: 'Minivan' },
+  { value: 'UTILITY', label: 'Utilitaire' },
+  { value: 'PICKUP', label: 'Pickup' },
+  { value: 'LUXURY', label: 'Luxe' },
+  { value: 'MOTORCYCLE', label: 'Moto' },
+];
+
+const fuelTypeOptions: { value: FuelType; label: string }[] = [
+  { value: 'DIESEL', label: 'Diesel' },
+  { value: 'GASOLINE', label: 'Essence' },
+  { value: 'ELECTRIC', label: 'Electrique' },
+  { value: 'HYBRID', label: 'Hybride' },
+];
+
+type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+interface RecurrenceState {
+  enabled: boolean;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  weekdays: string[];
+  endMode: 'until' | 'count';
+  until: string;
+  count: number;
+}
+
+const weekdayOptions = [
+  { code: 'MO', label: 'Lun' },
+  { code: 'TU', label: 'Mar' },
+  { code: 'WE', label: 'Mer' },
+  { code: 'TH', label: 'Jeu' },
+  { code: 'FR', label: 'Ven' },
+  { code: 'SA', label: 'Sam' },
+  { code: 'SU', label: 'Dim' },
+];
+
+// Builds the RRULE-style pattern expected by the API,
+// e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;UNTIL=20240630
+function buildRecurrencePattern(recurrence: RecurrenceState): string {
+  const parts = [`FREQ=${recurrence.frequency}`, `INTERVAL=${recurrence.interval}`];
+  if (recurrence.frequency === 'WEEKLY' && recurrence.weekdays.length > 0) {
+    parts.push(`BYDAY=${recurrence.weekdays.join(',')}`);
+  }
+  if (recurrence.endMode === 'until') {
+    parts.push(`UNTIL=${recurrence.until.replace(/-/g, '')}`);
+  } else {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+  return parts.join(';');
+}
+
 export function NewReservationPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -38,16 +134,30 @@ export function NewReservationPage() {
   const [selectedVehicleId, setSelectedVehicleId] = useState<string>(
     preselectedVehicleId || ''
   );
-
-  const { data: vehicles, isLoading: loadingVehicles } = useQuery({
-    queryKey: ['vehicles', 'available'],
-    queryFn: () =>
-      vehicleService.getVehicles({
-        page: 1,
-        limit: 100,
-        status: 'AVAILABLE',
-      }),
+  const [recurrence, setRecurrence] = useState<RecurrenceState>({
+    enabled: false,
+    frequency: 'WEEKLY',
+    interval: 1,
+    weekdays: [],
+    endMode: 'count',
+    until: '',
+    count: 4,
   });
+  const [waitlistRequest, setWaitlistRequest] = useState<{
+    form: ReservationForm;
+    message: string;
+  } | null>(null);
+  const recurrenceIncomplete =
+    recurrence.enabled && recurrence.endMode === 'until' && !recurrence.until;
+
+  const toggleWeekday = (code: string) => {
+    setRecurrence((current) => ({
+      ...current,
+      weekdays: current.weekdays.includes(code)
+        ? current.weekdays.filter((day) => day !== code)
+        : [...current.weekdays, code],
+    }));
+  };
 
   const {
     register,
@@ -58,6 +168,7 @@ export function NewReservationPage() {
   } = useForm<ReservationForm>({
     resolver: zodResolver(reservationSchema),
     defaultValues: {
+      bookingMode: 'vehicle',
       vehicleId: preselectedVehicleId || '',
       needsDriver: false,
       passengers: 0,
@@ -65,25 +176,95 @@ export function NewReservationPage() {
   });
 
   const createMutation = useMutation({
-    mutationFn: (data: ReservationForm) =>
+    mutationFn: ({
+      bookingMode,
+      vehicleId,
+      vehicleType,
+      minSeats,
+      fuelType,
+      pickupLocationId,
+      ...data
+    }: ReservationForm) =>
       reservationService.createReservation({
         ...data,
+        // In category mode the API picks the vehicle
+        ...(bookingMode === 'vehicle'
+          ? { vehicleId }
+          : {
+              vehicleType: vehicleType as VehicleType,
+              minSeats,
+              fuelType: (fuelType || undefined) as FuelType | undefined,
+              pickupLocationId: pickupLocationId || undefined,
+            }),
         startDate: new Date(data.startDate).toISOString(),
         endDate: new Date(data.endDate).toISOString(),
+        ...(recurrence.enabled && {
+          isRecurring: true,
+          recurringPattern: buildRecurrencePattern(recurrence),
+        }),
       }),
     onSuccess: (reservation) => {
       queryClient.invalidateQueries({ queryKey: ['reservations'] });
       addToast({
         title: 'Reservation creee',
-        description: 'Votre demande de reservation a ete soumise avec succes.',
+        description: recurrence.enabled
+          ? 'Votre serie de reservations a ete soumise avec succes.'
+          : 'Votre demande de reservation a ete soumise avec succes.',
         type: 'success',
       });
       navigate(`/reservations/${reservation.id}`);
     },
-    onError: () => {
+    onError: (error: unknown, data) => {
+      // Conflicting occurrences are listed in the API message
+      const err = error as {
+        response?: { data?: { message?: string; code?: string } };
+      };
+      const code = err.response?.data?.code;
+      if (!recurrence.enabled && code && waitlistableConflicts.includes(code)) {
+        setWaitlistRequest({
+          form: data,
+          message: err.response?.data?.message || '',
+        });
+        return;
+      }
       addToast({
         title: 'Erreur',
-        description: 'Impossible de creer la reservation.',
+        description:
+          err.response?.data?.message || 'Impossible de creer la reservation.',
+        type: 'error',
+      });
+    },
+  });
+
+  const joinWaitlistMutation = useMutation({
+    mutationFn: ({ form }: { form: ReservationForm }) =>
+      waitlistService.joinWaitlist({
+        ...(form.bookingMode === 'vehicle'
+          ? { vehicleId: form.vehicleId }
+          : { vehicleType: form.vehicleType as VehicleType }),
+        startDate: new Date(form.startDate).toISOString(),
+        endDate: new Date(form.endDate).toISOString(),
+        purpose: form.purpose,
+        destination: form.destination,
+        passengerCount: form.passengers || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      setWaitlistRequest(null);
+      addToast({
+        title: "Inscrit sur la liste d'attente",
+        description: 'Vous serez notifie des que le creneau se libere.',
+        type: 'success',
+      });
+      navigate('/reservations');
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description:
+          err.response?.data?.message ||
+          "Impossible de rejoindre la liste d'attente.",
         type: 'error',
       });
     },
@@ -93,11 +274,94 @@ export function NewReservationPage() {
     createMutation.mutate(data);
   };
 
-  const watchedVehicleId = watch('vehicleId');
-  const selectedVehicle = vehicles?.data.find((v) => v.id === watchedVehicleId);
-
   const startDate = watch('startDate');
   const endDate = watch('endDate');
+  const hasWindow =
+    !!startDate && !!endDate && new Date(endDate) > new Date(startDate);
+
+  // Availability depends on the dates: once they are set, only vehicles free
+  // during the whole window are offered, whatever their current status
+  const { data: vehicles, isLoading: loadingVehicles } = useQuery({
+    queryKey: hasWindow
+      ? ['vehicles', 'available', startDate, endDate]
+      : ['vehicles', 'bookable'],
+    queryFn: async () =>
+      hasWindow
+        ? vehicleService.getAvailableVehicles(
+            new Date(startDate).toISOString(),
+            new Date(endDate).toISOString()
+          )
+        : (await vehicleService.getVehicles({ page: 1, limit: 100 })).data,
+  });
+
+  // The booking policy is checked as soon as the window is set, so every
+  // violation shows up before submitting
+  const recurringPattern = recurrence.enabled
+    ? buildRecurrencePattern(recurrence)
+    : undefined;
+  const { data: policyCheck } = useQuery({
+    queryKey: ['reservations', 'validate', startDate, endDate, recurringPattern],
+    queryFn: () =>
+      reservationService.validateReservation({
+        startDate: new Date(startDate).toISOString(),
+        endDate: new Date(endDate).toISOString(),
+        ...(recurringPattern && { isRecurring: true, recurringPattern }),
+      }),
+    enabled: hasWindow && !recurrenceIncomplete,
+  });
+  const policyViolations = hasWindow ? policyCheck?.violations ?? [] : [];
+
+  // Days closed by the booking policy over the next year, greyed out in the day picker
+  const { data: closedDays } = useQuery({
+    queryKey: ['holidays', 'calendar', 'booking'],
+    queryFn: () => {
+      const today = new Date();
+      return holidayService.getCalendar({
+        from: toDateKey(today),
+        to: toDateKey(new Date(today.getFullYear() + 1, today.getMonth(), today.getDate())),
+      });
+    },
+  });
+  const closedHolidays = new Set(
+    closedDays?.blocksReservations ? closedDays.holidays.map((holiday) => holiday.date) : []
+  );
+  const isClosedDay = (date: Date) => {
+    const key = toDateKey(date);
+    const weekend = date.getDay() === 0 || date.getDay() === 6;
+    return (
+      key < toDateKey(new Date()) ||
+      closedHolidays.has(key) ||
+      (!!closedDays?.weekendsClosed && weekend)
+    );
+  };
+
+  // A first click picks the start day and a second one the end day, keeping the times
+  const pickDay = (date: Date | undefined) => {
+    if (!date) return;
+    const day = toDateKey(date);
+    const startTime = startDate?.slice(11, 16) || '08:00';
+    const endTime = endDate?.slice(11, 16) || '18:00';
+    if (!startDate || endDate || day < startDate.slice(0, 10)) {
+      setValue('startDate', `${day}T${startTime}`, { shouldValidate: true });
+      setValue('endDate', '');
+    } else {
+      setValue('endDate', `${day}T${endTime}`, { shouldValidate: true });
+    }
+  };
+
+  const bookingMode = watch('bookingMode');
+  const watchedVehicleId = watch('vehicleId');
+  const selectedVehicle =
+    bookingMode === 'vehicle'
+      ? vehicles?.find((v) => v.id === watchedVehicleId)
+      : undefined;
+  const pickupLocations = Array.from(
+    new Map(
+      (vehicles ?? [])
+        .filter((v) => v.location)
+        .map((v) => [v.location!.id, v.location!] as [string, Location])
+    ).values()
+  );
   const days =
     startDate && endDate
       ? Math.ceil(
@@ -139,14 +403,109 @@ export function NewReservationPage() {
                   Vehicule
                 </CardTitle>
               </CardHeader>
-              <CardContent>
-                {loadingVehicles ? (
+              <CardContent className="space-y-4">
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={bookingMode === 'vehicle' ? 'default' : 'outline'}
+                    onClick={() => setValue('bookingMode', 'vehicle')}
+                  >
+                    Choisir un vehicule
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={bookingMode === 'category' ? 'default' : 'outline'}
+                    onClick={() => setValue('bookingMode', 'category')}
+                  >
+                    Choisir une categorie
+                  </Button>
+                </div>
+                {bookingMode === 'category' ? (
+                  <div className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                      Le meilleur vehicule disponible correspondant a vos
+                      criteres sera attribue automatiquement.
+                    </p>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="vehicleType">Type de vehicule *</Label>
+                        <select
+                          id="vehicleType"
+                          {...register('vehicleType')}
+                          className="w-full h-10 px-3 border rounded-md bg-background"
+                        >
+                          <option value="">Selectionner un type</option>
+                          {vehicleTypeOptions.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                        {errors.vehicleType && (
+                          <p className="text-sm text-red-500">
+                            {errors.vehicleType.message}
+                          </p>
+                        )}
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="minSeats">Places minimum</Label>
+                        <Input
+                          id="minSeats"
+                          type="number"
+                          min={1}
+                          {...register('minSeats', {
+                            setValueAs: (value) =>
+                              value === '' ? undefined : Number(value),
+                          })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="fuelType">Carburant</Label>
+                        <select
+                          id="fuelType"
+                          {...register('fuelType')}
+                          className="w-full h-10 px-3 border rounded-md bg-background"
+                        >
+                          <option value="">Indifferent</option>
+                          {fuelTypeOptions.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="pickupLocationId">
+                          Lieu de prise en charge
+                        </Label>
+                        <select
+                          id="pickupLocationId"
+                          {...register('pickupLocationId')}
+                          className="w-full h-10 px-3 border rounded-md bg-background"
+                        >
+                          <option value="">Indifferent</option>
+                          {pickupLocations.map((location) => (
+                            <option key={location.id} value={location.id}>
+                              {location.name}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  </div>
+                ) : loadingVehicles ? (
                   <div className="flex items-center justify-center py-8">
                     <div className="loading-spinner" />
                   </div>
+                ) : hasWindow && vehicles?.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">
+                    Aucun vehicule n'est disponible sur cette periode.
+                  </p>
                 ) : (
                   <div className="grid gap-4 md:grid-cols-2">
-                    {vehicles?.data.map((vehicle) => (
+                    {vehicles?.map((vehicle) => (
                       <div
                         key={vehicle.id}
                         onClick={() => setValue('vehicleId', vehicle.id)}
@@ -240,6 +599,182 @@ export function NewReservationPage() {
                     )}
                   </div>
                 </div>
+
+                <div className="mt-4 flex flex-col items-center gap-2 md:flex-row md:items-start">
+                  <DayPicker
+                    className="border rounded-md"
+                    selected={startDate ? new Date(startDate) : undefined}
+                    onSelect={pickDay}
+                    disabled={isClosedDay}
+                  />
+                  <p className="text-sm text-muted-foreground md:pt-3">
+                    Cliquez sur le jour de debut puis sur le jour de fin.
+                    {closedDays?.blocksReservations &&
+                      ' Les jours feries, fermes a la reservation, sont grises.'}
+                    {closedDays?.weekendsClosed &&
+                      ' Les week-ends ne sont pas ouverts a votre role.'}
+                  </p>
+                </div>
+
+                {policyViolations.length > 0 && (
+                  <div className="mt-4 p-3 rounded-md border border-red-200 bg-red-50 text-sm text-red-700">
+                    <p className="flex items-center gap-2 font-medium">
+                      <AlertTriangle className="h-4 w-4" />
+                      Ces dates ne respectent pas la politique de reservation
+                    </p>
+                    <ul className="mt-2 ml-6 list-disc space-y-1">
+                      {policyViolations.map((violation) => (
+                        <li key={violation.message}>{violation.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Recurrence */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Repeat className="h-5 w-5" />
+                  Recurrence
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="w-4 h-4"
+                    checked={recurrence.enabled}
+                    onChange={(e) =>
+                      setRecurrence({ ...recurrence, enabled: e.target.checked })
+                    }
+                  />
+                  <span>Repeter cette reservation</span>
+                </label>
+
+                {recurrence.enabled && (
+                  <>
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="recurrenceFrequency">Frequence</Label>
+                        <select
+                          id="recurrenceFrequency"
+                          className="w-full h-10 px-3 border rounded-md bg-background"
+                          value={recurrence.frequency}
+                          onChange={(e) =>
+                            setRecurrence({
+                              ...recurrence,
+                              frequency: e.target.value as RecurrenceFrequency,
+                            })
+                          }
+                        >
+                          <option value="DAILY">Tous les jours</option>
+                          <option value="WEEKLY">Toutes les semaines</option>
+                          <option value="MONTHLY">Tous les mois</option>
+                        </select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="recurrenceInterval">Intervalle</Label>
+                        <Input
+                          id="recurrenceInterval"
+                          type="number"
+                          min="1"
+                          value={recurrence.interval}
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                            setRecurrence({
+                              ...recurrence,
+                              interval: Math.max(1, Number(e.target.value) || 1),
+                            })
+                          }
+                        />
+                      </div>
+                    </div>
+
+                    {recurrence.frequency === 'WEEKLY' && (
+                      <div className="space-y-2">
+                        <Label>Jours de la semaine</Label>
+                        <div className="flex flex-wrap gap-2">
+                          {weekdayOptions.map((day) => (
+                            <Button
+                              key={day.code}
+                              type="button"
+                              size="sm"
+                              variant={
+                                recurrence.weekdays.includes(day.code)
+                                  ? 'default'
+                                  : 'outline'
+                              }
+                              onClick={() => toggleWeekday(day.code)}
+                            >
+                              {day.label}
+                            </Button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          Par defaut, le jour de la date de debut.
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="grid gap-4 md:grid-cols-2">
+                      <div className="space-y-2">
+                        <Label htmlFor="recurrenceEnd">Fin de la serie</Label>
+                        <select
+                          id="recurrenceEnd"
+                          className="w-full h-10 px-3 border rounded-md bg-background"
+                          value={recurrence.endMode}
+                          onChange={(e) =>
+                            setRecurrence({
+                              ...recurrence,
+                              endMode: e.target.value as 'until' | 'count',
+                            })
+                          }
+                        >
+                          <option value="count">Apres un nombre d'occurrences</option>
+                          <option value="until">A une date</option>
+                        </select>
+                      </div>
+                      <div className="space-y-2">
+                        {recurrence.endMode === 'count' ? (
+                          <>
+                            <Label htmlFor="recurrenceCount">Occurrences</Label>
+                            <Input
+                              id="recurrenceCount"
+                              type="number"
+                              min="1"
+                              max="100"
+                              value={recurrence.count}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setRecurrence({
+                                  ...recurrence,
+                                  count: Math.max(1, Number(e.target.value) || 1),
+                                })
+                              }
+                            />
+                          </>
+                        ) : (
+                          <>
+                            <Label htmlFor="recurrenceUntil">Jusqu'au</Label>
+                            <Input
+                              id="recurrenceUntil"
+                              type="date"
+                              value={recurrence.until}
+                              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                setRecurrence({ ...recurrence, until: e.target.value })
+                              }
+                            />
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    <p className="text-xs text-muted-foreground">
+                      Chaque occurrence est verifiee; les dates en conflit vous
+                      seront signalees.
+                    </p>
+                  </>
+                )}
               </CardContent>
             </Card>
 
@@ -357,7 +892,9 @@ export function NewReservationPage() {
                   </>
                 ) : (
                   <p className="text-muted-foreground text-sm">
-                    Aucun vehicule selectionne
+                    {bookingMode === 'category'
+                      ? 'Vehicule attribue automatiquement'
+                      : 'Aucun vehicule selectionne'}
                   </p>
                 )}
 
@@ -396,7 +933,11 @@ export function NewReservationPage() {
               type="submit"
               className="w-full"
               size="lg"
-              disabled={createMutation.isPending}
+              disabled={
+                createMutation.isPending ||
+                recurrenceIncomplete ||
+                policyViolations.length > 0
+              }
             >
               {createMutation.isPending
                 ? 'Envoi en cours...'
@@ -409,6 +950,37 @@ export function NewReservationPage() {
           </div>
         </div>
       </form>
+
+      {/* Waitlist dialog */}
+      <Dialog
+        open={!!waitlistRequest}
+        onOpenChange={(open) => !open && setWaitlistRequest(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Creneau indisponible</DialogTitle>
+            <DialogDescription>
+              {waitlistRequest?.message} Vous pouvez rejoindre la liste
+              d'attente : le creneau vous sera propose s'il se libere.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setWaitlistRequest(null)}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() =>
+                waitlistRequest && joinWaitlistMutation.mutate(waitlistRequest)
+              }
+              disabled={joinWaitlistMutation.isPending}
+            >
+              {joinWaitlistMutation.isPending
+                ? 'Inscription...'
+                : "Rejoindre la liste d'attente"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
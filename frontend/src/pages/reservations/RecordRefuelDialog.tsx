@@ -0,0 +1,170 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { fuelService } from '@/services/fuel.service';
+import { useToast } from '@/components/ui/toast';
+
+interface RecordRefuelDialogProps {
+  reservationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RecordRefuelDialog({
+  reservationId,
+  open,
+  onOpenChange,
+}: RecordRefuelDialogProps) {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  const [liters, setLiters] = useState('');
+  const [amount, setAmount] = useState('');
+  const [mileage, setMileage] = useState('');
+  const [station, setStation] = useState('');
+  const [isFullTank, setIsFullTank] = useState(true);
+  const [receipt, setReceipt] = useState<File | undefined>();
+
+  const close = () => {
+    onOpenChange(false);
+    setLiters('');
+    setAmount('');
+    setMileage('');
+    setStation('');
+    setIsFullTank(true);
+    setReceipt(undefined);
+  };
+
+  const refuelMutation = useMutation({
+    mutationFn: () =>
+      fuelService.createFuelLog(
+        {
+          reservationId,
+          liters: Number(liters),
+          amount: amount ? Number(amount) : undefined,
+          mileage: Number(mileage),
+          station: station.trim(),
+          isFullTank,
+        },
+        receipt
+      ),
+    onSuccess: (fuelLog) => {
+      queryClient.invalidateQueries({ queryKey: ['fuel-logs'] });
+      addToast({
+        title: 'Plein enregistre',
+        description:
+          fuelLog.consumption != null
+            ? `Consommation mesuree : ${fuelLog.consumption} L/100 km`
+            : undefined,
+        type: fuelLog.anomalies.length > 0 ? 'warning' : 'success',
+      });
+      close();
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description: err.response?.data?.message || "Impossible d'enregistrer le plein.",
+        type: 'error',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(true) : close())}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Enregistrer un plein</DialogTitle>
+          <DialogDescription>
+            Relevez le compteur a la pompe. Faites le plein complet pour que la consommation
+            soit mesuree.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="refuel-liters">Litres *</Label>
+              <Input
+                id="refuel-liters"
+                type="number"
+                step="0.01"
+                min="0"
+                value={liters}
+                onChange={(e) => setLiters(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refuel-amount">Montant</Label>
+              <Input
+                id="refuel-amount"
+                type="number"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refuel-mileage">Kilometrage au compteur *</Label>
+            <Input
+              id="refuel-mileage"
+              type="number"
+              min="0"
+              value={mileage}
+              onChange={(e) => setMileage(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="refuel-station">Station</Label>
+            <Input
+              id="refuel-station"
+              value={station}
+              onChange={(e) => setStation(e.target.value)}
+              placeholder="Nom, ville..."
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={isFullTank}
+              onChange={(e) => setIsFullTank(e.target.checked)}
+            />
+            Plein complet
+          </label>
+          <div className="space-y-2">
+            <Label htmlFor="refuel-receipt">Photo du ticket</Label>
+            <Input
+              id="refuel-receipt"
+              type="file"
+              accept="image/*,application/pdf"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setReceipt(e.target.files?.[0])
+              }
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Annuler
+          </Button>
+          <Button
+            onClick={() => refuelMutation.mutate()}
+            disabled={!liters || !mileage || refuelMutation.isPending}
+          >
+            {refuelMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
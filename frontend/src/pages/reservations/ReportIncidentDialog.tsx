@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { incidentService } from '@/services/incident.service';
+import { useToast } from '@/components/ui/toast';
+import type { IncidentType } from '@/types';
+
+const incidentTypeLabels: Record<IncidentType, string> = {
+  ACCIDENT: 'Accident',
+  BREAKDOWN: 'Panne',
+  DAMAGE: 'Dommage',
+  THEFT: 'Vol',
+  OTHER: 'Autre',
+};
+
+interface ReportIncidentDialogProps {
+  reservationId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ReportIncidentDialog({
+  reservationId,
+  open,
+  onOpenChange,
+}: ReportIncidentDialogProps) {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  const [type, setType] = useState<IncidentType>('DAMAGE');
+  const [description, setDescription] = useState('');
+  const [location, setLocation] = useState('');
+  const [position, setPosition] = useState<{ latitude: number; longitude: number } | null>(
+    null
+  );
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  const close = () => {
+    onOpenChange(false);
+    setType('DAMAGE');
+    setDescription('');
+    setLocation('');
+    setPosition(null);
+    setPhotos([]);
+  };
+
+  const locate = () => {
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => setPosition({ latitude: coords.latitude, longitude: coords.longitude }),
+      () =>
+        addToast({
+          title: 'Position indisponible',
+          description: 'Indiquez le lieu de l\'incident manuellement.',
+          type: 'error',
+        })
+    );
+  };
+
+  const reportMutation = useMutation({
+    mutationFn: () =>
+      incidentService.reportIncident(
+        {
+          reservationId,
+          type,
+          description: description.trim(),
+          location: location.trim(),
+          ...position,
+        },
+        photos
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['incidents'] });
+      addToast({
+        title: 'Incident signale',
+        description: 'Le gestionnaire de flotte a ete prevenu.',
+        type: 'success',
+      });
+      close();
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description: err.response?.data?.message || "Impossible de signaler l'incident.",
+        type: 'error',
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (value ? onOpenChange(true) : close())}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Signaler un incident</DialogTitle>
+          <DialogDescription>
+            Decrivez ce qui s'est passe pendant le trajet. Ajoutez des photos si possible.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="incident-type">Type *</Label>
+            <select
+              id="incident-type"
+              className="w-full h-10 px-3 border rounded-md bg-background"
+              value={type}
+              onChange={(e) => setType(e.target.value as IncidentType)}
+            >
+              {Object.entries(incidentTypeLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="incident-description">Description *</Label>
+            <Textarea
+              id="incident-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Au moins 10 caracteres"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="incident-location">Lieu</Label>
+            <div className="flex gap-2">
+              <Input
+                id="incident-location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="Adresse, route, ville..."
+              />
+              <Button type="button" variant="outline" onClick={locate}>
+                <MapPin className="h-4 w-4 mr-2" />
+                Ma position
+              </Button>
+            </div>
+            {position && (
+              <p className="text-xs text-muted-foreground">
+                Position GPS : {position.latitude.toFixed(5)}, {position.longitude.toFixed(5)}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="incident-photos">Photos (10 maximum)</Label>
+            <Input
+              id="incident-photos"
+              type="file"
+              accept="image/*"
+              multiple
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setPhotos(Array.from(e.target.files ?? []).slice(0, 10))
+              }
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Annuler
+          </Button>
+          <Button
+            onClick={() => reportMutation.mutate()}
+            disabled={description.trim().length < 10 || reportMutation.isPending}
+          >
+            {reportMutation.isPending ? 'Envoi...' : 'Signaler'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
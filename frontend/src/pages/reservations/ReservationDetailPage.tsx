@@ -13,6 +13,12 @@ import {
   XCircle,
   Play,
   Square,
+  Repeat,
+  RefreshCw,
+  CalendarPlus,
+  Wrench,
+  AlertTriangle,
+  Fuel,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -27,11 +33,17 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { reservationService } from '@/services/reservation.service';
-import { useHasMinRole } from '@/stores/auth.store';
+import {
+  reservationService,
+  type ReservationScope,
+} from '@/services/reservation.service';
+import { vehicleService } from '@/services/vehicle.service';
+import { ReportIncidentDialog } from './ReportIncidentDialog';
+import { RecordRefuelDialog } from './RecordRefuelDialog';
+import { useAuthStore, useHasMinRole } from '@/stores/auth.store';
 import { useToast } from '@/components/ui/toast';
-import { formatDateTime } from '@/lib/utils';
-import type { ReservationStatus } from '@/types';
+import { formatCurrency, formatDateTime } from '@/lib/utils';
+import type { ApprovalStep, ReservationStatus } from '@/types';
 
 const statusColors: Record<ReservationStatus, 'default' | 'secondary' | 'success' | 'warning' | 'destructive' | 'info'> = {
   DRAFT: 'default',
@@ -41,6 +53,13 @@ const statusColors: Record<ReservationStatus, 'default' | 'secondary' | 'success
   IN_PROGRESS: 'success',
   COMPLETED: 'secondary',
   CANCELLED: 'destructive',
+  NO_SHOW: 'destructive',
+  EXPIRED: 'secondary',
+};
+
+const approvalStepLabels: Record<ApprovalStep, string> = {
+  DEPARTMENT_MANAGER: 'Responsable du departement',
+  FLEET_ADMIN: 'Administrateur de flotte',
 };
 
 const statusLabels: Record<ReservationStatus, string> = {
@@ -51,6 +70,8 @@ const statusLabels: Record<ReservationStatus, string> = {
   IN_PROGRESS: 'En cours',
   COMPLETED: 'Terminee',
   CANCELLED: 'Annulee',
+  NO_SHOW: 'Non presentee',
+  EXPIRED: 'Expiree',
 };
 
 export function ReservationDetailPage() {
@@ -59,12 +80,27 @@ export function ReservationDetailPage() {
   const { addToast } = useToast();
   const isManager = useHasMinRole('MANAGER');
   const isAdmin = useHasMinRole('ADMIN');
+  const currentUser = useAuthStore((state) => state.user);
 
   const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
   const [checkInDialogOpen, setCheckInDialogOpen] = useState(false);
   const [checkOutDialogOpen, setCheckOutDialogOpen] = useState(false);
   const [mileage, setMileage] = useState('');
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [vehicleDialogOpen, setVehicleDialogOpen] = useState(false);
+  const [extendDialogOpen, setExtendDialogOpen] = useState(false);
+  const [extensionEndDate, setExtensionEndDate] = useState('');
+  const [extensionReason, setExtensionReason] = useState('');
+  const [rejectExtensionDialogOpen, setRejectExtensionDialogOpen] =
+    useState(false);
+  const [rejectExtensionReason, setRejectExtensionReason] = useState('');
+  const [swapDialogOpen, setSwapDialogOpen] = useState(false);
+  const [swapMileage, setSwapMileage] = useState('');
+  const [swapReason, setSwapReason] = useState('');
+  const [swapVehicleId, setSwapVehicleId] = useState('');
+  const [incidentDialogOpen, setIncidentDialogOpen] = useState(false);
+  const [refuelDialogOpen, setRefuelDialogOpen] = useState(false);
 
   const { data: reservation, isLoading } = useQuery({
     queryKey: ['reservation', id],
@@ -72,6 +108,83 @@ export function ReservationDetailPage() {
     enabled: !!id,
   });
 
+  const { data: series } = useQuery({
+    queryKey: ['reservation', id, 'series'],
+    queryFn: () => reservationService.getSeriesReservations(id!),
+    enabled: !!reservation?.seriesId,
+  });
+
+  const { data: vehicleCandidates, isLoading: loadingCandidates } = useQuery({
+    queryKey: ['reservation', id, 'vehicle-candidates'],
+    queryFn: () => reservationService.getVehicleCandidates(id!),
+    enabled: vehicleDialogOpen,
+  });
+
+  // Replacements must be free from now until the end of the trip
+  const { data: replacementVehicles } = useQuery({
+    queryKey: ['vehicles', 'available', 'replacement', id],
+    queryFn: () =>
+      vehicleService.getAvailableVehicles(
+        new Date().toISOString(),
+        reservation!.endDate
+      ),
+    enabled: swapDialogOpen && !!reservation,
+  });
+
+  const swapMutation = useMutation({
+    mutationFn: () =>
+      reservationService.swapVehicle(id!, {
+        mileage: parseInt(swapMileage),
+        reason: swapReason,
+        vehicleId: swapVehicleId || undefined,
+      }),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['reservation', id] });
+      queryClient.invalidateQueries({ queryKey: ['vehicles'] });
+      setSwapDialogOpen(false);
+      setSwapMileage('');
+      setSwapReason('');
+      setSwapVehicleId('');
+      addToast({
+        title: 'Vehicule remplace',
+        description: `La mission continue avec ${updated.vehicle.brand} ${updated.vehicle.model}. Le vehicule en panne est passe en maintenance.`,
+        type: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description:
+          err.response?.data?.message || 'Impossible de remplacer le vehicule.',
+        type: 'error',
+      });
+    },
+  });
+
+  const reassignMutation = useMutation({
+    mutationFn: (vehicleId: string) =>
+      reservationService.reassignVehicle(id!, vehicleId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reservation', id] });
+      setVehicleDialogOpen(false);
+      addToast({
+        title: 'Vehicule modifie',
+        description: 'Le vehicule de la reservation a ete modifie.',
+        type: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description:
+          err.response?.data?.message || 'Impossible de modifier le vehicule.',
+        type: 'error',
+      });
+    },
+  });
+
   const approveMutation = useMutation({
     mutationFn: () => reservationService.approveReservation(id!),
     onSuccess: () => {
@@ -82,10 +195,12 @@ export function ReservationDetailPage() {
         type: 'success',
       });
     },
-    onError: () => {
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
       addToast({
         title: 'Erreur',
-        description: 'Impossible d\'approuver la reservation.',
+        description:
+          err.response?.data?.message || 'Impossible d\'approuver la reservation.',
         type: 'error',
       });
     },
@@ -157,13 +272,97 @@ export function ReservationDetailPage() {
     },
   });
 
-  const cancelMutation = useMutation({
-    mutationFn: () => reservationService.cancelReservation(id!),
+  const extendMutation = useMutation({
+    mutationFn: () =>
+      reservationService.requestExtension(
+        id!,
+        new Date(extensionEndDate).toISOString(),
+        extensionReason
+      ),
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ['reservation', id] });
+      setExtendDialogOpen(false);
+      setExtensionEndDate('');
+      setExtensionReason('');
+      addToast({
+        title: updated.requestedEndDate
+          ? 'Prolongation demandee'
+          : 'Reservation prolongee',
+        description: updated.requestedEndDate
+          ? "La prolongation depasse les limites de la politique et attend l'approbation du gestionnaire de flotte."
+          : 'La date de fin de la reservation a ete modifiee.',
+        type: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description:
+          err.response?.data?.message ||
+          'Impossible de prolonger la reservation.',
+        type: 'error',
+      });
+    },
+  });
+
+  const approveExtensionMutation = useMutation({
+    mutationFn: () => reservationService.approveExtension(id!),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reservation', id] });
+      addToast({
+        title: 'Prolongation approuvee',
+        description: 'La date de fin de la reservation a ete modifiee.',
+        type: 'success',
+      });
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description:
+          err.response?.data?.message ||
+          "Impossible d'approuver la prolongation.",
+        type: 'error',
+      });
+    },
+  });
+
+  const rejectExtensionMutation = useMutation({
+    mutationFn: (reason: string) =>
+      reservationService.rejectExtension(id!, reason),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['reservation', id] });
+      setRejectExtensionDialogOpen(false);
+      setRejectExtensionReason('');
+      addToast({
+        title: 'Prolongation rejetee',
+        description: 'La demande de prolongation a ete rejetee.',
+        type: 'success',
+      });
+    },
+    onError: () => {
+      addToast({
+        title: 'Erreur',
+        description: 'Impossible de rejeter la prolongation.',
+        type: 'error',
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: (scope?: ReservationScope) =>
+      reservationService.cancelReservation(id!, undefined, scope),
+    onSuccess: (_, scope) => {
+      queryClient.invalidateQueries({ queryKey: ['reservation', id] });
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      setCancelDialogOpen(false);
       addToast({
         title: 'Reservation annulee',
-        description: 'La reservation a ete annulee.',
+        description:
+          scope === 'series'
+            ? 'Toutes les occurrences a venir de la serie ont ete annulees.'
+            : 'La reservation a ete annulee.',
         type: 'success',
       });
     },
@@ -263,6 +462,11 @@ export function ReservationDetailPage() {
                   <p className="text-sm text-muted-foreground">
                     {reservation.vehicle?.registrationNumber}
                   </p>
+                  {reservation.isAutoAssigned && (
+                    <Badge variant="info" className="mt-1">
+                      Attribue automatiquement
+                    </Badge>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -424,6 +628,122 @@ export function ReservationDetailPage() {
             </Card>
           )}
 
+          {/* Series */}
+          {reservation.seriesId && series && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Repeat className="h-5 w-5" />
+                  Serie ({series.length})
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {series.map((occurrence) => (
+                  <Link
+                    key={occurrence.id}
+                    to={`/reservations/${occurrence.id}`}
+                    className={`flex items-center justify-between gap-2 rounded-md p-2 text-sm hover:bg-muted ${
+                      occurrence.id === reservation.id ? 'bg-muted font-medium' : ''
+                    }`}
+                  >
+                    <span>{formatDateTime(occurrence.startDate)}</span>
+                    <Badge variant={statusColors[occurrence.status]}>
+                      {statusLabels[occurrence.status]}
+                    </Badge>
+                  </Link>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Vehicle segments */}
+          {reservation.segments && reservation.segments.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Car className="h-5 w-5" />
+                  Vehicules utilises
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {reservation.segments.map((segment) => (
+                  <div key={segment.id} className="text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium">
+                        {segment.vehicle.brand} {segment.vehicle.model} (
+                        {segment.vehicle.registrationNumber})
+                      </span>
+                      {segment.endDate ? (
+                        <Badge variant="secondary">
+                          {segment.distance ?? 0} km
+                        </Badge>
+                      ) : (
+                        <Badge variant="success">En cours</Badge>
+                      )}
+                    </div>
+                    <p className="text-muted-foreground">
+                      Depuis le {formatDateTime(segment.startDate)} a{' '}
+                      {segment.startMileage} km
+                    </p>
+                    {segment.endReason && (
+                      <p className="text-muted-foreground">
+                        Panne : {segment.endReason}
+                      </p>
+                    )}
+                    {segment.cost != null && (
+                      <p className="text-muted-foreground">
+                        Cout : {formatCurrency(segment.cost)}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Approval chain */}
+          {reservation.approvalChain && reservation.approvalChain.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CheckCircle className="h-5 w-5" />
+                  Circuit d'approbation
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {reservation.approvalChain.map((step, index) => {
+                  const currentIndex = reservation.approvalStep
+                    ? reservation.approvalChain!.indexOf(reservation.approvalStep)
+                    : -1;
+                  const isDone =
+                    reservation.status === 'APPROVED' ||
+                    ['IN_PROGRESS', 'COMPLETED'].includes(reservation.status) ||
+                    (currentIndex !== -1 && index < currentIndex);
+                  const isCurrent =
+                    reservation.status === 'PENDING' && index === currentIndex;
+
+                  return (
+                    <div
+                      key={step}
+                      className="flex items-center justify-between gap-2 text-sm"
+                    >
+                      <span className={isCurrent ? 'font-medium' : ''}>
+                        {index + 1}. {approvalStepLabels[step]}
+                      </span>
+                      {isDone ? (
+                        <Badge variant="success">Approuve</Badge>
+                      ) : isCurrent ? (
+                        <Badge variant="warning">En attente</Badge>
+                      ) : (
+                        <Badge variant="secondary">A venir</Badge>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Actions */}
           <Card>
             <CardHeader>
@@ -449,6 +769,14 @@ export function ReservationDetailPage() {
                     <XCircle className="h-4 w-4 mr-2" />
                     Rejeter
                   </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setVehicleDialogOpen(true)}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Changer de vehicule
+                  </Button>
                 </>
               )}
 
@@ -474,12 +802,107 @@ export function ReservationDetailPage() {
                 </Button>
               )}
 
+              {reservation.status === 'IN_PROGRESS' && isManager && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setSwapDialogOpen(true)}
+                >
+                  <Wrench className="h-4 w-4 mr-2" />
+                  Signaler une panne
+                </Button>
+              )}
+
+              {reservation.status === 'IN_PROGRESS' &&
+                (isManager ||
+                  reservation.userId === currentUser?.id ||
+                  reservation.driverId === currentUser?.id) && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setIncidentDialogOpen(true)}
+                  >
+                    <AlertTriangle className="h-4 w-4 mr-2" />
+                    Signaler un incident
+                  </Button>
+                )}
+
+              {['IN_PROGRESS', 'COMPLETED'].includes(reservation.status) &&
+                reservation.vehicle?.fuelType !== 'ELECTRIC' &&
+                (isManager ||
+                  reservation.userId === currentUser?.id ||
+                  reservation.driverId === currentUser?.id) && (
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => setRefuelDialogOpen(true)}
+                  >
+                    <Fuel className="h-4 w-4 mr-2" />
+                    Enregistrer un plein
+                  </Button>
+                )}
+
+              {/* Extension */}
+              {reservation.status === 'IN_PROGRESS' &&
+                (reservation.requestedEndDate ? (
+                  <div className="p-3 border rounded-lg space-y-2">
+                    <p className="text-sm">
+                      Prolongation demandee jusqu'au{' '}
+                      <span className="font-medium">
+                        {formatDateTime(reservation.requestedEndDate)}
+                      </span>
+                    </p>
+                    {reservation.extensionReason && (
+                      <p className="text-sm text-muted-foreground">
+                        {reservation.extensionReason}
+                      </p>
+                    )}
+                    {isAdmin ? (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => approveExtensionMutation.mutate()}
+                          disabled={approveExtensionMutation.isPending}
+                        >
+                          Approuver
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => setRejectExtensionDialogOpen(true)}
+                        >
+                          Rejeter
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="warning">En attente d'approbation</Badge>
+                    )}
+                  </div>
+                ) : (
+                  (isManager ||
+                    reservation.userId === currentUser?.id ||
+                    reservation.driverId === currentUser?.id) && (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => setExtendDialogOpen(true)}
+                    >
+                      <CalendarPlus className="h-4 w-4 mr-2" />
+                      Prolonger
+                    </Button>
+                  )
+                ))}
+
               {/* Cancel */}
       {['PENDING', 'APPROVED'].includes(reservation.status) && (
                 <Button
                   variant="outline"
                   className="w-full"
-                  onClick={() => cancelMutation.mutate()}
+                  onClick={() =>
+                    reservation.seriesId
+                      ? setCancelDialogOpen(true)
+                      : cancelMutation.mutate(undefined)
+                  }
                   disabled={cancelMutation.isPending}
                 >
                   Annuler la reservation
@@ -490,6 +913,237 @@ export function ReservationDetailPage() {
         </div>
       </div>
 
+      {/* Cancel series dialog */}
+      <Dialog open={cancelDialogOpen} onOpenChange={setCancelDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Annuler une reservation recurrente</DialogTitle>
+            <DialogDescription>
+              Cette reservation fait partie d'une serie. Voulez-vous annuler
+              uniquement cette occurrence ou toutes les occurrences a venir ?
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelDialogOpen(false)}>
+              Retour
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => cancelMutation.mutate('occurrence')}
+              disabled={cancelMutation.isPending}
+            >
+              Cette occurrence
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => cancelMutation.mutate('series')}
+              disabled={cancelMutation.isPending}
+            >
+              Toute la serie
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Change vehicle dialog */}
+      <Dialog open={vehicleDialogOpen} onOpenChange={setVehicleDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Changer de vehicule</DialogTitle>
+            <DialogDescription>
+              Vehicules libres sur toute la periode, du plus adapte au moins
+              adapte.
+            </DialogDescription>
+          </DialogHeader>
+          {loadingCandidates ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="loading-spinner" />
+            </div>
+          ) : vehicleCandidates?.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              Aucun autre vehicule n'est disponible sur cette periode.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {vehicleCandidates?.map((candidate) => (
+                <button
+                  key={candidate.vehicle.id}
+                  type="button"
+                  onClick={() => reassignMutation.mutate(candidate.vehicle.id)}
+                  disabled={reassignMutation.isPending}
+                  className="w-full flex items-center justify-between gap-4 p-3 border rounded-lg text-left hover:bg-muted/50"
+                >
+                  <div>
+                    <p className="font-medium">
+                      {candidate.vehicle.brand} {candidate.vehicle.model}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {candidate.vehicle.registrationNumber} -{' '}
+                      {candidate.vehicle.currentMileage} km
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    {candidate.atPickupLocation && (
+                      <Badge variant="success">Sur le lieu de prise en charge</Badge>
+                    )}
+                    {candidate.serviceDue && (
+                      <Badge variant="warning">Entretien proche</Badge>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVehicleDialogOpen(false)}>
+              Annuler
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Breakdown dialog */}
+      <Dialog open={swapDialogOpen} onOpenChange={setSwapDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remplacer le vehicule en panne</DialogTitle>
+            <DialogDescription>
+              {reservation.vehicle.brand} {reservation.vehicle.model} (
+              {reservation.vehicle.registrationNumber}) passera en maintenance.
+              La reservation continue avec le vehicule de remplacement.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              type="number"
+              placeholder="Kilometrage du vehicule en panne"
+              value={swapMileage}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setSwapMileage(e.target.value)
+              }
+            />
+            <Textarea
+              placeholder="Description de la panne..."
+              value={swapReason}
+              onChange={(e) => setSwapReason(e.target.value)}
+              rows={3}
+            />
+            <select
+              className="w-full h-10 px-3 border rounded-md bg-background"
+              value={swapVehicleId}
+              onChange={(e) => setSwapVehicleId(e.target.value)}
+            >
+              <option value="">Automatique (meme type de vehicule)</option>
+              {replacementVehicles
+                ?.filter((vehicle) => vehicle.id !== reservation.vehicleId)
+                .map((vehicle) => (
+                  <option key={vehicle.id} value={vehicle.id}>
+                    {vehicle.brand} {vehicle.model} ({vehicle.registrationNumber})
+                  </option>
+                ))}
+            </select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSwapDialogOpen(false)}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => swapMutation.mutate()}
+              disabled={
+                !swapMileage ||
+                swapReason.trim().length < 5 ||
+                swapMutation.isPending
+              }
+            >
+              {swapMutation.isPending ? 'Envoi...' : 'Remplacer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Extend dialog */}
+      <Dialog open={extendDialogOpen} onOpenChange={setExtendDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Prolonger la reservation</DialogTitle>
+            <DialogDescription>
+              Fin actuelle : {formatDateTime(reservation.endDate)}. Au-dela des
+              limites de la politique, la prolongation doit etre approuvee par
+              le gestionnaire de flotte.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              type="datetime-local"
+              value={extensionEndDate}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                setExtensionEndDate(e.target.value)
+              }
+            />
+            <Textarea
+              placeholder="Motif de la prolongation..."
+              value={extensionReason}
+              onChange={(e) => setExtensionReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setExtendDialogOpen(false)}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => extendMutation.mutate()}
+              disabled={
+                !extensionEndDate ||
+                extensionReason.trim().length < 5 ||
+                extendMutation.isPending
+              }
+            >
+              {extendMutation.isPending ? 'Envoi...' : 'Prolonger'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject extension dialog */}
+      <Dialog
+        open={rejectExtensionDialogOpen}
+        onOpenChange={setRejectExtensionDialogOpen}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rejeter la prolongation</DialogTitle>
+            <DialogDescription>
+              Veuillez indiquer le motif du rejet.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Motif du rejet..."
+            value={rejectExtensionReason}
+            onChange={(e) => setRejectExtensionReason(e.target.value)}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setRejectExtensionDialogOpen(false)}
+            >
+              Annuler
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejectExtensionMutation.mutate(rejectExtensionReason)}
+              disabled={
+                rejectExtensionReason.trim().length < 10 ||
+                rejectExtensionMutation.isPending
+              }
+            >
+              {rejectExtensionMutation.isPending ? 'Rejet...' : 'Rejeter'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Reject dialog */}
       <Dialog open={rejectDialogOpen} onOpenChange={setRejectDialogOpen}>
         <DialogContent>
@@ -580,6 +1234,18 @@ export function ReservationDetailPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ReportIncidentDialog
+        reservationId={reservation.id}
+        open={incidentDialogOpen}
+        onOpenChange={setIncidentDialogOpen}
+      />
+
+      <RecordRefuelDialog
+        reservationId={reservation.id}
+        open={refuelDialogOpen}
+        onOpenChange={setRefuelDialogOpen}
+      />
     </div>
   );
 }
@@ -1,6 +1,6 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate } from 'react-router-dom';
 import {
   Calendar,
   Plus,
@@ -9,16 +9,19 @@ import {
   Clock,
   MapPin,
   User,
+  Hourglass,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Card, CardContent } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { reservationService } from '@/services/reservation.service';
+import { waitlistService } from '@/services/waitlist.service';
 import { useAuthStore, useHasMinRole } from '@/stores/auth.store';
-import { formatDate } from '@/lib/utils';
-import type { ReservationStatus } from '@/types';
+import { useToast } from '@/components/ui/toast';
+import { formatDate, formatDateTime } from '@/lib/utils';
+import type { ReservationStatus, WaitlistEntry } from '@/types';
 
 const statusColors: Record<ReservationStatus, 'default' | 'secondary' | 'success' | 'warning' | 'destructive' | 'info'> = {
   DRAFT: 'default',
@@ -28,6 +31,8 @@ const statusColors: Record<ReservationStatus, 'default' | 'secondary' | 'success
   IN_PROGRESS: 'success',
   COMPLETED: 'secondary',
   CANCELLED: 'destructive',
+  NO_SHOW: 'destructive',
+  EXPIRED: 'secondary',
 };
 
 const statusLabels: Record<ReservationStatus, string> = {
@@ -38,9 +43,32 @@ const statusLabels: Record<ReservationStatus, string> = {
   IN_PROGRESS: 'En cours',
   COMPLETED: 'Terminee',
   CANCELLED: 'Annulee',
+  NO_SHOW: 'Non presentee',
+  EXPIRED: 'Expiree',
 };
 
+const vehicleTypeLabels: Record<string, string> = {
+  SEDAN: 'Berline',
+  SUV: 'SUV',
+  MINIVAN: 'Minivan',
+  UTILITY: 'Utilitaire',
+  PICKUP: 'Pickup',
+  LUXURY: 'Luxe',
+  MOTORCYCLE: 'Moto',
+};
+
+function describeWaitlistEntry(entry: WaitlistEntry): string {
+  const vehicle = entry.offeredVehicle ?? entry.vehicle;
+  if (vehicle) {
+    return `${vehicle.brand} ${vehicle.model} (${vehicle.registrationNumber})`;
+  }
+  return `Type ${vehicleTypeLabels[entry.vehicleType ?? ''] ?? entry.vehicleType}`;
+}
+
 export function ReservationsPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('');
   const [page, setPage] = useState(1);
@@ -72,6 +100,57 @@ export function ReservationsPage() {
 
   const pendingCount = pendingData?.meta?.total || 0;
 
+  const { data: waitlist } = useQuery({
+    queryKey: ['waitlist'],
+    queryFn: () => waitlistService.getMyWaitlist(),
+  });
+
+  const activeWaitlist =
+    waitlist?.filter((entry) => ['WAITING', 'OFFERED'].includes(entry.status)) ??
+    [];
+
+  const showWaitlistError = (error: unknown, fallback: string) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || fallback,
+      type: 'error',
+    });
+  };
+
+  const confirmOfferMutation = useMutation({
+    mutationFn: (id: string) => waitlistService.confirmOffer(id),
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      addToast({
+        title: 'Creneau reserve',
+        description: 'Votre demande de reservation a ete soumise avec succes.',
+        type: 'success',
+      });
+      if (entry.reservation) {
+        navigate(`/reservations/${entry.reservation.id}`);
+      }
+    },
+    onError: (error: unknown) =>
+      showWaitlistError(error, 'Impossible de confirmer le creneau.'),
+  });
+
+  const leaveWaitlistMutation = useMutation({
+    mutationFn: (id: string) => waitlistService.leaveWaitlist(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['waitlist'] });
+      addToast({
+        title: "Liste d'attente",
+        description: "Vous avez quitte la liste d'attente.",
+        type: 'success',
+      });
+    },
+    onError: (error: unknown) =>
+      showWaitlistError(error, "Impossible de quitter la liste d'attente."),
+  });
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -108,6 +187,62 @@ export function ReservationsPage() {
         </Tabs>
       )}
 
+      {/* Waitlist */}
+      {activeWaitlist.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hourglass className="h-5 w-5" />
+              Liste d'attente
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {activeWaitlist.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex flex-col md:flex-row md:items-center gap-3 p-3 border rounded-lg"
+              >
+                <div className="flex-1">
+                  <p className="font-medium">{describeWaitlistEntry(entry)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDateTime(entry.startDate)} -{' '}
+                    {formatDateTime(entry.endDate)}
+                  </p>
+                  {entry.status === 'OFFERED' && entry.offerExpiresAt && (
+                    <p className="text-sm text-primary">
+                      Creneau disponible, a confirmer avant le{' '}
+                      {formatDateTime(entry.offerExpiresAt)}
+                    </p>
+                  )}
+                </div>
+                <Badge variant={entry.status === 'OFFERED' ? 'success' : 'warning'}>
+                  {entry.status === 'OFFERED' ? 'Disponible' : 'En attente'}
+                </Badge>
+                <div className="flex gap-2">
+                  {entry.status === 'OFFERED' && (
+                    <Button
+                      size="sm"
+                      onClick={() => confirmOfferMutation.mutate(entry.id)}
+                      disabled={confirmOfferMutation.isPending}
+                    >
+                      Confirmer
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => leaveWaitlistMutation.mutate(entry.id)}
+                    disabled={leaveWaitlistMutation.isPending}
+                  >
+                    {entry.status === 'OFFERED' ? 'Refuser' : 'Quitter'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <Card>
         <CardContent className="p-4">
@@ -139,6 +274,8 @@ export function ReservationsPage() {
               <option value="IN_PROGRESS">En cours</option>
               <option value="COMPLETED">Terminee</option>
               <option value="CANCELLED">Annulee</option>
+              <option value="NO_SHOW">Non presentee</option>
+              <option value="EXPIRED">Expiree</option>
             </select>
           </div>
         </CardContent>
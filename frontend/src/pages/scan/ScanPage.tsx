@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { useParams, Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, Car, Play, QrCode, Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { scanService } from '@/services/scan.service';
+import { useToast } from '@/components/ui/toast';
+import { formatDateTime } from '@/lib/utils';
+
+export function ScanPage() {
+  const { qrCode } = useParams<{ qrCode: string }>();
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const [mileage, setMileage] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: scan, isLoading, isError } = useQuery({
+    queryKey: ['scan', qrCode],
+    queryFn: () => scanService.resolveScan(qrCode!),
+    enabled: !!qrCode,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: () => {
+      const data = { mileage: parseInt(mileage), notes: notes || undefined };
+      return scan!.action === 'CHECK_IN'
+        ? scanService.checkIn(qrCode!, data)
+        : scanService.checkOut(qrCode!, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['scan', qrCode] });
+      queryClient.invalidateQueries({ queryKey: ['reservations'] });
+      addToast({
+        title: scan!.action === 'CHECK_IN' ? 'Depart enregistre' : 'Retour enregistre',
+        description:
+          scan!.action === 'CHECK_IN'
+            ? 'Bonne route !'
+            : 'Merci, la reservation est terminee.',
+        type: 'success',
+      });
+      setMileage('');
+      setNotes('');
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description:
+          err.response?.data?.message || "Impossible d'enregistrer l'operation.",
+        type: 'error',
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="loading-spinner" />
+      </div>
+    );
+  }
+
+  if (isError || !scan) {
+    return (
+      <div className="text-center py-12">
+        <QrCode className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+        <h2 className="text-xl font-semibold">Code QR inconnu</h2>
+        <p className="text-muted-foreground mb-4">
+          Ce code ne correspond a aucun vehicule de la flotte.
+        </p>
+        <Link to="/vehicles">
+          <Button>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Retour aux vehicules
+          </Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const { vehicle, reservation, action } = scan;
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Car className="h-5 w-5" />
+            {vehicle.brand} {vehicle.model}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-1 text-sm">
+          <p className="font-mono font-medium">{vehicle.registrationNumber}</p>
+          <p className="text-muted-foreground">
+            Kilometrage : {vehicle.currentMileage.toLocaleString()} km
+          </p>
+          <Link
+            to={`/vehicles/${vehicle.id}`}
+            className="text-primary hover:underline"
+          >
+            Voir le vehicule
+          </Link>
+        </CardContent>
+      </Card>
+
+      {reservation && action ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {action === 'CHECK_IN' ? 'Enregistrer le depart' : 'Enregistrer le retour'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="text-sm">
+              <Link
+                to={`/reservations/${reservation.id}`}
+                className="font-medium text-primary hover:underline"
+              >
+                {reservation.referenceNumber}
+              </Link>
+              <p className="text-muted-foreground">
+                {formatDateTime(reservation.startDate)} -{' '}
+                {formatDateTime(reservation.endDate)}
+              </p>
+              {reservation.destination && (
+                <p className="text-muted-foreground">{reservation.destination}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mileage">Kilometrage au compteur *</Label>
+              <Input
+                id="mileage"
+                type="number"
+                inputMode="numeric"
+                placeholder={String(vehicle.currentMileage)}
+                value={mileage}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setMileage(e.target.value)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="notes">Notes</Label>
+              <Textarea
+                id="notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <Button
+              className="w-full"
+              size="lg"
+              onClick={() => actionMutation.mutate()}
+              disabled={!mileage || actionMutation.isPending}
+            >
+              {action === 'CHECK_IN' ? (
+                <Play className="h-4 w-4 mr-2" />
+              ) : (
+                <Square className="h-4 w-4 mr-2" />
+              )}
+              {actionMutation.isPending
+                ? 'Envoi en cours...'
+                : action === 'CHECK_IN'
+                  ? 'Demarrer la mission'
+                  : 'Terminer la mission'}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="py-6 text-center text-sm text-muted-foreground">
+            Vous n'avez aucune reservation en cours ou sur le point de commencer
+            avec ce vehicule.
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
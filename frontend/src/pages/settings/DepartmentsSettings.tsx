@@ -0,0 +1,320 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { departmentService } from '@/services/department.service';
+import { useToast } from '@/components/ui/toast';
+import type { Department, Role } from '@/types';
+
+interface DepartmentForm {
+  name: string;
+  code: string;
+  description: string;
+  managerId: string;
+}
+
+const emptyForm: DepartmentForm = { name: '', code: '', description: '', managerId: '' };
+
+const managerRoles: Role[] = ['MANAGER', 'ADMIN', 'SUPER_ADMIN'];
+
+export function DepartmentsSettings() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Set when an existing department is being edited
+  const [editing, setEditing] = useState<Department | null>(null);
+  const [form, setForm] = useState<DepartmentForm>(emptyForm);
+  const [closing, setClosing] = useState<Department | null>(null);
+  const [reassignToId, setReassignToId] = useState('');
+
+  const { data: departments, isLoading } = useQuery({
+    queryKey: ['departments', { includeInactive: true }],
+    queryFn: () => departmentService.getDepartments({ includeInactive: true }),
+  });
+
+  // Only members of the department can become its manager
+  const { data: members } = useQuery({
+    queryKey: ['departments', editing?.id, 'members'],
+    queryFn: () => departmentService.getMembers(editing!.id),
+    enabled: !!editing,
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEdit = (department: Department) => {
+    setEditing(department);
+    setForm({
+      name: department.name,
+      code: department.code,
+      description: department.description ?? '',
+      managerId: department.managerId ?? '',
+    });
+    setDialogOpen(true);
+  };
+
+  const onError = (error: unknown) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || "Impossible d'enregistrer le departement.",
+      type: 'error',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = {
+        name: form.name.trim(),
+        code: form.code.trim().toUpperCase(),
+        description: form.description || undefined,
+      };
+      return editing
+        ? departmentService.updateDepartment(editing.id, {
+            ...data,
+            managerId: form.managerId || null,
+          })
+        : departmentService.createDepartment(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['departments'] });
+      addToast({
+        title: editing ? 'Departement modifie' : 'Departement ajoute',
+        description: 'Le departement a ete enregistre avec succes.',
+        type: 'success',
+      });
+      closeDialog();
+    },
+    onError,
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: () =>
+      departmentService.deactivateDepartment(closing!.id, reassignToId || undefined),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['departments'] });
+      addToast({
+        title: 'Departement desactive',
+        description: `${result.reassignedUsers} membre(s) reaffecte(s).`,
+        type: 'success',
+      });
+      setClosing(null);
+      setReassignToId('');
+    },
+    onError,
+  });
+
+  const reactivateMutation = useMutation({
+    mutationFn: (id: string) => departmentService.reactivateDepartment(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['departments'] });
+    },
+    onError,
+  });
+
+  // The manager also needs at least the MANAGER role
+  const eligibleManagers =
+    members?.filter((m) => m.isActive && managerRoles.includes(m.role)) ?? [];
+  const targets = departments?.filter((d) => d.isActive && d.id !== closing?.id) ?? [];
+  const closingMembers = closing?._count?.users ?? 0;
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between">
+        <CardTitle>Departements</CardTitle>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter un departement
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="loading-spinner" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {departments?.map((department) => (
+              <div
+                key={department.id}
+                className="flex items-center justify-between p-4 border rounded-lg"
+              >
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {department.name}
+                    {!department.isActive && <Badge variant="secondary">Inactif</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Code: {department.code} - {department._count?.users ?? 0} membre(s)
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {department.manager
+                      ? `Responsable : ${department.manager.firstName} ` +
+                        department.manager.lastName
+                      : 'Aucun responsable'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEdit(department)}>
+                    Modifier
+                  </Button>
+                  {department.isActive ? (
+                    <Button variant="outline" size="sm" onClick={() => setClosing(department)}>
+                      Desactiver
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => reactivateMutation.mutate(department.id)}
+                      disabled={reactivateMutation.isPending}
+                    >
+                      Reactiver
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+            {departments?.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                Aucun departement configure
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create / edit dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? 'Modifier le departement' : 'Ajouter un departement'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="department-name">Nom *</Label>
+                <Input
+                  id="department-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="department-code">Code *</Label>
+                <Input
+                  id="department-code"
+                  placeholder="DSI"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="department-description">Description</Label>
+              <Input
+                id="department-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            {editing && (
+              <div className="space-y-2">
+                <Label htmlFor="department-manager">Responsable</Label>
+                <select
+                  id="department-manager"
+                  className="w-full h-10 px-3 border rounded-md bg-background"
+                  value={form.managerId}
+                  onChange={(e) => setForm({ ...form, managerId: e.target.value })}
+                >
+                  <option value="">Aucun responsable</option>
+                  {eligibleManagers.map((member) => (
+                    <option key={member.id} value={member.id}>
+                      {member.firstName} {member.lastName}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={
+                form.name.trim().length < 2 ||
+                form.code.trim().length < 2 ||
+                saveMutation.isPending
+              }
+            >
+              {saveMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Deactivation dialog */}
+      <Dialog open={!!closing} onOpenChange={(open) => !open && setClosing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Desactiver le departement</DialogTitle>
+            <DialogDescription>
+              {closingMembers > 0
+                ? `${closing?.name} compte ${closingMembers} membre(s) actif(s). ` +
+                  'Choisissez le departement qui les accueillera.'
+                : `${closing?.name} n'a plus de membre actif.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="department-target">Reaffecter les membres a</Label>
+            <select
+              id="department-target"
+              className="w-full h-10 px-3 border rounded-md bg-background"
+              value={reassignToId}
+              onChange={(e) => setReassignToId(e.target.value)}
+            >
+              <option value="">Selectionner un departement</option>
+              {targets.map((department) => (
+                <option key={department.id} value={department.id}>
+                  {department.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClosing(null)}>
+              Annuler
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deactivateMutation.mutate()}
+              disabled={deactivateMutation.isPending}
+            >
+              {deactivateMutation.isPending ? 'Desactivation...' : 'Desactiver'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { settingsService } from '@/services/settings.service';
+import { useToast } from '@/components/ui/toast';
+import type { SettingEntry } from '@/types';
+
+// Numbers are kept as text so a field can be emptied, an empty limit is not enforced
+interface GeneralForm {
+  organizationName: string;
+  currency: string;
+  timezone: string;
+  dateFormat: string;
+  maxDurationDays: string;
+  minNoticeHours: string;
+  noShowGraceMinutes: string;
+  reminderLeadHours: string;
+  offerHours: string;
+  costThreshold: string;
+  durationHoursThreshold: string;
+  fuelTolerancePercent: string;
+  maxKmPerDay: string;
+  planLeadKm: string;
+  planLeadDays: string;
+  reworkWindowDays: string;
+  maxLoginAttempts: string;
+  lockTimeMinutes: string;
+}
+
+interface BookingPolicyValue {
+  maxDurationDays: number | null;
+  minNoticeHours: number | null;
+}
+
+interface ApprovalPolicyValue {
+  costThreshold: number | null;
+  durationHoursThreshold: number | null;
+}
+
+const text = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+const nullableNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+
+function toForm(settings: SettingEntry[]): GeneralForm {
+  const values = Object.fromEntries(settings.map((s) => [s.key, s.value]));
+  const booking = (values['booking.policy'] ?? {}) as BookingPolicyValue;
+  const approval = (values['approval.policy'] ?? {}) as ApprovalPolicyValue;
+
+  return {
+    organizationName: text(values['organization.name']),
+    currency: text(values['organization.currency']),
+    timezone: text(values['organization.timezone']),
+    dateFormat: text(values['organization.dateFormat']),
+    maxDurationDays: text(booking.maxDurationDays),
+    minNoticeHours: text(booking.minNoticeHours),
+    noShowGraceMinutes: text(values['reservation.noShowGraceMinutes']),
+    reminderLeadHours: text(values['reservation.reminderLeadHours']),
+    offerHours: text(values['waitlist.offerHours']),
+    costThreshold: text(approval.costThreshold),
+    durationHoursThreshold: text(approval.durationHoursThreshold),
+    fuelTolerancePercent: text(values['fuel.consumptionTolerancePercent']),
+    maxKmPerDay: text(values['odometer.maxKmPerDay']),
+    planLeadKm: text(values['maintenance.planLeadKm']),
+    planLeadDays: text(values['maintenance.planLeadDays']),
+    reworkWindowDays: text(values['maintenance.reworkWindowDays']),
+    maxLoginAttempts: text(values['security.maxLoginAttempts']),
+    lockTimeMinutes: text(values['security.lockTimeMinutes']),
+  };
+}
+
+function toValues(form: GeneralForm): Record<string, unknown> {
+  return {
+    'organization.name': form.organizationName.trim(),
+    'organization.currency': form.currency,
+    'organization.timezone': form.timezone,
+    'organization.dateFormat': form.dateFormat,
+    'booking.policy': {
+      maxDurationDays: nullableNumber(form.maxDurationDays),
+      minNoticeHours: nullableNumber(form.minNoticeHours),
+    },
+    'approval.policy': {
+      costThreshold: nullableNumber(form.costThreshold),
+      durationHoursThreshold: nullableNumber(form.durationHoursThreshold),
+    },
+    'reservation.noShowGraceMinutes': Number(form.noShowGraceMinutes),
+    'reservation.reminderLeadHours': Number(form.reminderLeadHours),
+    'waitlist.offerHours': Number(form.offerHours),
+    'fuel.consumptionTolerancePercent': Number(form.fuelTolerancePercent),
+    'odometer.maxKmPerDay': Number(form.maxKmPerDay),
+    'maintenance.planLeadKm': Number(form.planLeadKm),
+    'maintenance.planLeadDays': Number(form.planLeadDays),
+    'maintenance.reworkWindowDays': Number(form.reworkWindowDays),
+    'security.maxLoginAttempts': Number(form.maxLoginAttempts),
+    'security.lockTimeMinutes': Number(form.lockTimeMinutes),
+  };
+}
+
+export function GeneralSettings() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const [form, setForm] = useState<GeneralForm | null>(null);
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings,
+  });
+
+  useEffect(() => {
+    if (settings) setForm(toForm(settings));
+  }, [settings]);
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: (data: GeneralForm) => settingsService.updateSettings(toValues(data)),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['settings'], updated);
+      addToast({
+        title: 'Parametres mis a jour',
+        description: 'Les parametres ont ete enregistres avec succes.',
+        type: 'success',
+      });
+    },
+    onError: (error) => {
+      const err = error as {
+        response?: { data?: { message?: string; errors?: Record<string, string[]> } };
+      };
+      const invalid = Object.keys(err.response?.data?.errors ?? {});
+      addToast({
+        title: 'Erreur',
+        description:
+          invalid.length > 0
+            ? `Valeurs invalides : ${invalid.join(', ')}`
+            : err.response?.data?.message || 'Impossible de mettre a jour les parametres.',
+        type: 'error',
+      });
+    },
+  });
+
+  if (isLoading || !form) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="loading-spinner" />
+      </div>
+    );
+  }
+
+  const numberField = (name: keyof GeneralForm, label: string, hint?: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={name}>{label}</Label>
+      <Input
+        id={name}
+        type="number"
+        min={0}
+        value={form[name]}
+        onChange={(e) => setForm({ ...form, [name]: e.target.value })}
+      />
+      {hint && <p className="text-xs text-muted-foreground">{hint}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Parametres generaux</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="organizationName">Nom de l'organisation</Label>
+              <Input
+                id="organizationName"
+                value={form.organizationName}
+                onChange={(e) => setForm({ ...form, organizationName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="currency">Devise</Label>
+              <select
+                id="currency"
+                className="w-full h-10 px-3 border rounded-md bg-background"
+                value={form.currency}
+                onChange={(e) => setForm({ ...form, currency: e.target.value })}
+              >
+                <option value="XOF">XOF (Franc CFA)</option>
+                <option value="EUR">EUR (Euro)</option>
+                <option value="USD">USD (Dollar US)</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="timezone">Fuseau horaire</Label>
+              <select
+                id="timezone"
+                className="w-full h-10 px-3 border rounded-md bg-background"
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+              >
+                <option value="Africa/Lome">Africa/Lome (GMT+0)</option>
+                <option value="Europe/Paris">Europe/Paris (GMT+1)</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dateFormat">Format de date</Label>
+              <select
+                id="dateFormat"
+                className="w-full h-10 px-3 border rounded-md bg-background"
+                value={form.dateFormat}
+                onChange={(e) => setForm({ ...form, dateFormat: e.target.value })}
+              >
+                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Parametres des reservations</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            {numberField(
+              'maxDurationDays',
+              'Duree maximale de reservation (jours)',
+              'Laisser vide pour ne pas limiter'
+            )}
+            {numberField(
+              'minNoticeHours',
+              'Delai minimum de reservation (heures)',
+              'Laisser vide pour ne pas limiter'
+            )}
+          </div>
+          <div className="grid gap-4 md:grid-cols-3">
+            {numberField('noShowGraceMinutes', 'Delai avant non-presentation (minutes)')}
+            {numberField('reminderLeadHours', 'Rappel avant le depart (heures)', '0 desactive')}
+            {numberField('offerHours', "Delai de confirmation liste d'attente (heures)")}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Circuit d'approbation</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Au-dela de ces seuils, la reservation doit aussi etre approuvee par le gestionnaire
+            de flotte.
+          </p>
+          <div className="grid gap-4 md:grid-cols-2">
+            {numberField(
+              'costThreshold',
+              `Cout estime (${form.currency})`,
+              'Laisser vide pour ne pas appliquer'
+            )}
+            {numberField(
+              'durationHoursThreshold',
+              'Duree (heures)',
+              'Laisser vide pour ne pas appliquer'
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Carburant et compteur</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-2">
+            {numberField(
+              'fuelTolerancePercent',
+              'Ecart de consommation tolere (%)',
+              'Au-dela, le plein est signale comme anomalie'
+            )}
+            {numberField(
+              'maxKmPerDay',
+              'Kilometres maximum par jour',
+              'Au-dela, un releve du compteur est signale comme invraisemblable'
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Maintenance</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 md:grid-cols-2">
+            {numberField(
+              'planLeadKm',
+              "Anticipation de l'echeance (km)",
+              "La maintenance est planifiee a cette distance de l'echeance"
+            )}
+            {numberField(
+              'planLeadDays',
+              "Anticipation de l'echeance (jours)",
+              "La maintenance est planifiee ce nombre de jours avant l'echeance"
+            )}
+            {numberField(
+              'reworkWindowDays',
+              'Delai de reprise (jours)',
+              'Une reparation du vehicule dans ce delai compte comme reprise du prestataire'
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Securite</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            {numberField('maxLoginAttempts', 'Tentatives de connexion avant blocage')}
+            {numberField('lockTimeMinutes', 'Duree du blocage (minutes)')}
+          </div>
+
+          <Button
+            onClick={() => updateSettingsMutation.mutate(form)}
+            disabled={updateSettingsMutation.isPending}
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {updateSettingsMutation.isPending
+              ? 'Enregistrement...'
+              : 'Enregistrer les parametres'}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { ChevronLeft, ChevronRight, Plus, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { holidayService, type HolidayImportResult } from '@/services/holiday.service';
+import { useToast } from '@/components/ui/toast';
+import type { Holiday } from '@/types';
+
+interface HolidayForm {
+  name: string;
+  date: string;
+  isRecurring: boolean;
+}
+
+const emptyForm: HolidayForm = { name: '', date: '', isRecurring: false };
+
+function formatHolidayDate(date: string, withYear: boolean): string {
+  // Holidays are whole UTC days, displayed without time zone shift
+  return new Date(date).toLocaleDateString('fr-FR', {
+    day: 'numeric',
+    month: 'long',
+    ...(withYear && { year: 'numeric' }),
+    timeZone: 'UTC',
+  });
+}
+
+export function HolidaysSettings() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Set when an existing holiday is being edited
+  const [editing, setEditing] = useState<Holiday | null>(null);
+  const [form, setForm] = useState<HolidayForm>(emptyForm);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPreview, setImportPreview] = useState<HolidayImportResult | null>(null);
+
+  const { data: holidays, isLoading } = useQuery({
+    queryKey: ['holidays', { year }],
+    queryFn: () => holidayService.getHolidays({ year }),
+  });
+
+  // Recurring holidays keep the year they were created in, so sort by day of the year
+  const sortedHolidays = [...(holidays ?? [])].sort((a, b) =>
+    a.date.slice(5, 10).localeCompare(b.date.slice(5, 10))
+  );
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const closeImportDialog = () => {
+    setImportDialogOpen(false);
+    setImportFile(null);
+    setImportPreview(null);
+  };
+
+  const openEdit = (holiday: Holiday) => {
+    setEditing(holiday);
+    setForm({
+      name: holiday.name,
+      date: holiday.date.slice(0, 10),
+      isRecurring: holiday.isRecurring,
+    });
+    setDialogOpen(true);
+  };
+
+  const onError = (error: unknown) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || "Impossible d'enregistrer le jour ferie.",
+      type: 'error',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data = { ...form, name: form.name.trim() };
+      return editing
+        ? holidayService.updateHoliday(editing.id, data)
+        : holidayService.createHoliday(data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['holidays'] });
+      addToast({
+        title: editing ? 'Jour ferie modifie' : 'Jour ferie ajoute',
+        description: 'Le jour ferie a ete enregistre avec succes.',
+        type: 'success',
+      });
+      closeDialog();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => holidayService.deleteHoliday(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['holidays'] });
+      addToast({
+        title: 'Jour ferie supprime',
+        description: 'Le jour ferie a ete supprime.',
+        type: 'success',
+      });
+    },
+    onError,
+  });
+
+  // The file is analysed first so the admin sees which days are already closed
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) => holidayService.importHolidays(importFile!, dryRun),
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setImportPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['holidays'] });
+      addToast({
+        title: 'Import termine',
+        description:
+          `${result.created} jour(s) ferie(s) ajoute(s), ` +
+          `${result.duplicates} deja present(s).`,
+        type: 'success',
+      });
+      closeImportDialog();
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description: err.response?.data?.message || "Impossible d'importer le fichier.",
+        type: 'error',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CardTitle>Jours feries</CardTitle>
+          <Button variant="outline" size="icon" onClick={() => setYear(year - 1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="font-medium w-12 text-center">{year}</span>
+          <Button variant="outline" size="icon" onClick={() => setYear(year + 1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importer (.ics)
+          </Button>
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter un jour ferie
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="loading-spinner" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sortedHolidays.map((holiday) => (
+              <div
+                key={holiday.id}
+                className="flex items-center justify-between p-4 border rounded-lg"
+              >
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {holiday.name}
+                    {holiday.isRecurring && <Badge variant="info">Chaque annee</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatHolidayDate(holiday.date, !holiday.isRecurring)}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEdit(holiday)}>
+                    Modifier
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (window.confirm(`Supprimer le jour ferie "${holiday.name}" ?`)) {
+                        deleteMutation.mutate(holiday.id);
+                      }
+                    }}
+                  >
+                    Supprimer
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {sortedHolidays.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                Aucun jour ferie pour {year}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Create / edit dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? 'Modifier le jour ferie' : 'Ajouter un jour ferie'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="holiday-name">Nom *</Label>
+                <Input
+                  id="holiday-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="holiday-date">Date *</Label>
+                <Input
+                  id="holiday-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.isRecurring}
+                onChange={(e) => setForm({ ...form, isRecurring: e.target.checked })}
+              />
+              Se repete chaque annee a la meme date
+            </label>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={form.name.trim().length < 2 || !form.date || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Import dialog */}
+      <Dialog
+        open={importDialogOpen}
+        onOpenChange={(open) => (open ? setImportDialogOpen(true) : closeImportDialog())}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Importer des jours feries</DialogTitle>
+            <DialogDescription>
+              Calendrier au format iCalendar (.ics), par exemple la liste des jours feries
+              nationaux. Les jours deja feries sont ignores.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              type="file"
+              accept=".ics"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setImportFile(e.target.files?.[0] ?? null);
+                setImportPreview(null);
+              }}
+            />
+
+            {importPreview && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  {importPreview.created} a ajouter, {importPreview.duplicates} deja
+                  present(s)
+                  {importPreview.skipped > 0 &&
+                    `, ${importPreview.skipped} evenement(s) illisible(s)`}
+                </p>
+                <div className="max-h-72 overflow-y-auto border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Date</th>
+                        <th className="px-3 py-2 text-left">Nom</th>
+                        <th className="px-3 py-2 text-left">Resultat</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importPreview.holidays.map((holiday, index) => (
+                        <tr key={index} className="border-t">
+                          <td className="px-3 py-2">
+                            {formatHolidayDate(holiday.date, !holiday.isRecurring)}
+                          </td>
+                          <td className="px-3 py-2">{holiday.name}</td>
+                          <td className="px-3 py-2">
+                            {holiday.duplicate ? (
+                              <span className="text-muted-foreground">Deja present</span>
+                            ) : (
+                              <span className="text-green-700">Ajout</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeImportDialog}>
+              Annuler
+            </Button>
+            {importPreview ? (
+              <Button
+                onClick={() => importMutation.mutate(false)}
+                disabled={importPreview.created === 0 || importMutation.isPending}
+              >
+                {importMutation.isPending
+                  ? 'Import...'
+                  : `Importer ${importPreview.created} jour(s) ferie(s)`}
+              </Button>
+            ) : (
+              <Button
+                onClick={() => importMutation.mutate(true)}
+                disabled={!importFile || importMutation.isPending}
+              >
+                {importMutation.isPending ? 'Analyse...' : 'Analyser le fichier'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { locationService, type LocationInput } from '@/services/location.service';
+import { useToast } from '@/components/ui/toast';
+import type { Location } from '@/types';
+
+interface LocationForm {
+  name: string;
+  address: string;
+  city: string;
+  capacity: string;
+}
+
+const emptyForm: LocationForm = { name: '', address: '', city: '', capacity: '' };
+
+function toInput(form: LocationForm): LocationInput {
+  return {
+    name: form.name.trim(),
+    address: form.address || undefined,
+    city: form.city || undefined,
+    capacity: form.capacity ? parseInt(form.capacity) : undefined,
+  };
+}
+
+export function LocationsSettings() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Set when an existing location is being edited
+  const [editing, setEditing] = useState<Location | null>(null);
+  const [form, setForm] = useState<LocationForm>(emptyForm);
+
+  const { data: locations, isLoading } = useQuery({
+    queryKey: ['locations', { includeInactive: true }],
+    queryFn: () => locationService.getLocations({ includeInactive: true }),
+  });
+
+  const { data: summaries } = useQuery({
+    queryKey: ['locations', 'summary'],
+    queryFn: () => locationService.getSummaries(),
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEdit = (location: Location) => {
+    setEditing(location);
+    setForm({
+      name: location.name,
+      address: location.address ?? '',
+      city: location.city ?? '',
+      capacity: location.capacity != null ? String(location.capacity) : '',
+    });
+    setDialogOpen(true);
+  };
+
+  const onError = (error: unknown) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || "Impossible d'enregistrer l'emplacement.",
+      type: 'error',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? locationService.updateLocation(editing.id, toInput(form))
+        : locationService.createLocation(toInput(form)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      addToast({
+        title: editing ? 'Emplacement modifie' : 'Emplacement ajoute',
+        description: "L'emplacement a ete enregistre avec succes.",
+        type: 'success',
+      });
+      closeDialog();
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (location: Location) => {
+      if (location.isActive) {
+        await locationService.deleteLocation(location.id);
+      } else {
+        await locationService.updateLocation(location.id, { isActive: true });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between">
+        <CardTitle>Emplacements</CardTitle>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter un emplacement
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="loading-spinner" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {locations?.map((location) => {
+              const summary = summaries?.find((s) => s.locationId === location.id);
+              return (
+                <div
+                  key={location.id}
+                  className="flex items-center justify-between p-4 border rounded-lg"
+                >
+                  <div>
+                    <p className="font-medium flex items-center gap-2">
+                      {location.name}
+                      {!location.isActive && <Badge variant="secondary">Inactif</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {[location.address, location.city].filter(Boolean).join(', ') ||
+                        'Adresse non renseignee'}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {location._count?.vehicles ?? 0} vehicule(s)
+                      {location.capacity != null && ` pour ${location.capacity} place(s)`}
+                      {summary && ` - utilisation sur 30 jours : ${summary.utilizationRate}%`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => openEdit(location)}>
+                      Modifier
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => toggleMutation.mutate(location)}
+                      disabled={toggleMutation.isPending}
+                    >
+                      {location.isActive ? 'Desactiver' : 'Reactiver'}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+            {locations?.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                Aucun emplacement configure
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? "Modifier l'emplacement" : 'Ajouter un emplacement'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="location-name">Nom *</Label>
+              <Input
+                id="location-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-address">Adresse</Label>
+              <Input
+                id="location-address"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="location-city">Ville</Label>
+                <Input
+                  id="location-city"
+                  value={form.city}
+                  onChange={(e) => setForm({ ...form, city: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="location-capacity">Places de parking</Label>
+                <Input
+                  id="location-capacity"
+                  type="number"
+                  min={0}
+                  value={form.capacity}
+                  onChange={(e) => setForm({ ...form, capacity: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={form.name.trim().length < 2 || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
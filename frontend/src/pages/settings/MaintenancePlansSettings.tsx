@@ -0,0 +1,320 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  maintenancePlanService,
+  type MaintenancePlanInput,
+} from '@/services/maintenance-plan.service';
+import { useToast } from '@/components/ui/toast';
+import type { MaintenancePlan, VehicleType } from '@/types';
+
+const typeLabels: Record<VehicleType, string> = {
+  SEDAN: 'Berline',
+  SUV: 'SUV',
+  MINIVAN: 'Minivan',
+  UTILITY: 'Utilitaire',
+  PICKUP: 'Pickup',
+  LUXURY: 'Luxe',
+  MOTORCYCLE: 'Moto',
+};
+
+interface PlanForm {
+  name: string;
+  description: string;
+  vehicleType: VehicleType | '';
+  brand: string;
+  model: string;
+  intervalKm: string;
+  intervalMonths: string;
+}
+
+const emptyForm: PlanForm = {
+  name: '',
+  description: '',
+  vehicleType: '',
+  brand: '',
+  model: '',
+  intervalKm: '',
+  intervalMonths: '',
+};
+
+// Cleared fields are sent as null so that an edit removes the criterion
+function toInput(form: PlanForm): MaintenancePlanInput {
+  return {
+    name: form.name.trim(),
+    description: form.description.trim() || undefined,
+    vehicleType: form.vehicleType || null,
+    brand: form.brand.trim() || null,
+    model: form.model.trim() || null,
+    intervalKm: form.intervalKm ? parseInt(form.intervalKm) : null,
+    intervalMonths: form.intervalMonths ? parseInt(form.intervalMonths) : null,
+  };
+}
+
+function describeScope(plan: MaintenancePlan): string {
+  const scope = [
+    plan.vehicleType && typeLabels[plan.vehicleType],
+    [plan.brand, plan.model].filter(Boolean).join(' '),
+  ].filter(Boolean);
+  return scope.length > 0 ? scope.join(', ') : 'Toute la flotte';
+}
+
+function describeInterval(plan: MaintenancePlan): string {
+  return [
+    plan.intervalKm != null && `${plan.intervalKm.toLocaleString()} km`,
+    plan.intervalMonths != null && `${plan.intervalMonths} mois`,
+  ]
+    .filter(Boolean)
+    .join(' ou ');
+}
+
+export function MaintenancePlansSettings() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Set when an existing plan is being edited
+  const [editing, setEditing] = useState<MaintenancePlan | null>(null);
+  const [form, setForm] = useState<PlanForm>(emptyForm);
+
+  const { data: plans, isLoading } = useQuery({
+    queryKey: ['maintenance-plans', { includeInactive: true }],
+    queryFn: () => maintenancePlanService.getMaintenancePlans({ includeInactive: true }),
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEdit = (plan: MaintenancePlan) => {
+    setEditing(plan);
+    setForm({
+      name: plan.name,
+      description: plan.description ?? '',
+      vehicleType: plan.vehicleType ?? '',
+      brand: plan.brand ?? '',
+      model: plan.model ?? '',
+      intervalKm: plan.intervalKm != null ? String(plan.intervalKm) : '',
+      intervalMonths: plan.intervalMonths != null ? String(plan.intervalMonths) : '',
+    });
+    setDialogOpen(true);
+  };
+
+  const onError = (error: unknown) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || "Impossible d'enregistrer le plan.",
+      type: 'error',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? maintenancePlanService.updateMaintenancePlan(editing.id, toInput(form))
+        : maintenancePlanService.createMaintenancePlan(toInput(form)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['maintenance-plans'] });
+      addToast({
+        title: editing ? 'Plan modifie' : 'Plan ajoute',
+        description: "Le plan d'entretien a ete enregistre avec succes.",
+        type: 'success',
+      });
+      closeDialog();
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (plan: MaintenancePlan) => {
+      if (plan.isActive) {
+        await maintenancePlanService.deleteMaintenancePlan(plan.id);
+      } else {
+        await maintenancePlanService.updateMaintenancePlan(plan.id, { isActive: true });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['maintenance-plans'] });
+    },
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between">
+        <CardTitle>Plans d'entretien preventif</CardTitle>
+        <Button onClick={() => setDialogOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajouter un plan
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="loading-spinner" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {plans?.map((plan) => (
+              <div
+                key={plan.id}
+                className="flex items-center justify-between p-4 border rounded-lg"
+              >
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {plan.name}
+                    {!plan.isActive && <Badge variant="secondary">Inactif</Badge>}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Tous les {describeInterval(plan)} - {describeScope(plan)}
+                  </p>
+                  {plan.description && (
+                    <p className="text-sm text-muted-foreground">{plan.description}</p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEdit(plan)}>
+                    Modifier
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleMutation.mutate(plan)}
+                    disabled={toggleMutation.isPending}
+                  >
+                    {plan.isActive ? 'Desactiver' : 'Reactiver'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+            {plans?.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                Aucun plan d'entretien configure
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Modifier le plan' : 'Ajouter un plan'}</DialogTitle>
+            <DialogDescription>
+              Une maintenance preventive est planifiee automatiquement a l'approche de
+              l'echeance, selon le premier seuil atteint.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan-name">Nom *</Label>
+              <Input
+                id="plan-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Vidange, inspection..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-description">Description</Label>
+              <Input
+                id="plan-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="plan-interval-km">Tous les (km)</Label>
+                <Input
+                  id="plan-interval-km"
+                  type="number"
+                  min={500}
+                  value={form.intervalKm}
+                  onChange={(e) => setForm({ ...form, intervalKm: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-interval-months">Tous les (mois)</Label>
+                <Input
+                  id="plan-interval-months"
+                  type="number"
+                  min={1}
+                  value={form.intervalMonths}
+                  onChange={(e) => setForm({ ...form, intervalMonths: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="plan-vehicle-type">Type de vehicule</Label>
+              <select
+                id="plan-vehicle-type"
+                className="w-full h-10 px-3 border rounded-md bg-background"
+                value={form.vehicleType}
+                onChange={(e) =>
+                  setForm({ ...form, vehicleType: e.target.value as VehicleType | '' })
+                }
+              >
+                <option value="">Tous les types</option>
+                {Object.entries(typeLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="plan-brand">Marque</Label>
+                <Input
+                  id="plan-brand"
+                  value={form.brand}
+                  onChange={(e) => setForm({ ...form, brand: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="plan-model">Modele</Label>
+                <Input
+                  id="plan-model"
+                  value={form.model}
+                  onChange={(e) => setForm({ ...form, model: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={
+                form.name.trim().length < 2 ||
+                (!form.intervalKm && !form.intervalMonths) ||
+                saveMutation.isPending
+              }
+            >
+              {saveMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
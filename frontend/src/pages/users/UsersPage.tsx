@@ -51,6 +51,7 @@ interface User {
     id: string;
     name: string;
   };
+  noShowCount?: number;
   createdAt: string;
 }
 
@@ -417,6 +418,14 @@ export function UsersPage() {
                   >
                     {user.isActive ? 'Actif' : 'Inactif'}
                   </span>
+                  {!!user.noShowCount && (
+                    <span
+                      className="text-xs px-2 py-1 rounded-full bg-orange-100 text-orange-800"
+                      title="Reservations approuvees sans prise en charge du vehicule"
+                    >
+                      {user.noShowCount} non-presentation(s)
+                    </span>
+                  )}
                 </div>
               </CardContent>
             </Card>
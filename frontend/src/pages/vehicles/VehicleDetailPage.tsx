@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import {
@@ -31,6 +31,11 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { vehicleService } from '@/services/vehicle.service';
+import { VehicleDocuments } from '@/pages/vehicles/VehicleDocuments';
+import { VehicleFuel } from '@/pages/vehicles/VehicleFuel';
+import { VehicleOdometer } from '@/pages/vehicles/VehicleOdometer';
+import { VehicleParts } from '@/pages/vehicles/VehicleParts';
+import { VehicleNextServices } from '@/pages/vehicles/VehicleNextServices';
 import { useHasMinRole } from '@/stores/auth.store';
 import { useToast } from '@/components/ui/toast';
 import { formatCurrency, formatDate, getFileUrl } from '@/lib/utils';
@@ -58,6 +63,7 @@ export function VehicleDetailPage() {
   const queryClient = useQueryClient();
   const { addToast } = useToast();
   const isAdmin = useHasMinRole('ADMIN');
+  const isManager = useHasMinRole('MANAGER');
   const [selectedPhoto, setSelectedPhoto] = useState(0);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
@@ -67,6 +73,30 @@ export function VehicleDetailPage() {
     enabled: !!id,
   });
 
+  const { data: qrImage } = useQuery({
+    queryKey: ['vehicle', id, 'qr'],
+    queryFn: () => vehicleService.getVehicleQrCode(id!),
+    enabled: !!vehicle,
+  });
+  const [qrImageUrl, setQrImageUrl] = useState<string>();
+
+  useEffect(() => {
+    if (!qrImage) return;
+    const url = URL.createObjectURL(qrImage);
+    setQrImageUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [qrImage]);
+
+  const downloadQrCode = async (format: 'png' | 'svg') => {
+    const blob = await vehicleService.getVehicleQrCode(id!, format);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `qr-${vehicle!.registrationNumber}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   const deleteMutation = useMutation({
     mutationFn: () => vehicleService.deleteVehicle(id!),
     onSuccess: () => {
@@ -255,6 +285,11 @@ export function VehicleDetailPage() {
               <TabsTrigger value="reservations">Reservations</TabsTrigger>
               <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
               <TabsTrigger value="documents">Documents</TabsTrigger>
+              {vehicle.fuelType !== 'ELECTRIC' && (
+                <TabsTrigger value="fuel">Carburant</TabsTrigger>
+              )}
+              {isManager && <TabsTrigger value="odometer">Compteur</TabsTrigger>}
+              {isManager && <TabsTrigger value="parts">Pieces</TabsTrigger>}
             </TabsList>
 
             <TabsContent value="details" className="mt-4">
@@ -318,18 +353,39 @@ export function VehicleDetailPage() {
                         </div>
                       </div>
                     )}
-                    {vehicle.qrCode && (
+                    {qrImageUrl && (
                       <div className="flex items-center gap-3">
-                        <div className="p-2 bg-muted rounded-lg">
-                          <QrCode className="h-5 w-5" />
-                        </div>
-                        <div>
-                          <p className="text-sm text-muted-foreground">
+                        <img
+                          src={qrImageUrl}
+                          alt="Code QR du vehicule"
+                          className="h-24 w-24 rounded-lg border"
+                        />
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <QrCode className="h-4 w-4" />
                             Code QR
                           </p>
-                          <p className="font-medium font-mono">
-                            {vehicle.qrCode}
-                          </p>
+                          {vehicle.qrCode && (
+                            <p className="font-medium font-mono">
+                              {vehicle.qrCode}
+                            </p>
+                          )}
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => downloadQrCode('png')}
+                            >
+                              PNG
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => downloadQrCode('svg')}
+                            >
+                              SVG
+                            </Button>
+                          </div>
                         </div>
                       </div>
                     )}
@@ -379,14 +435,26 @@ export function VehicleDetailPage() {
             </TabsContent>
 
             <TabsContent value="documents" className="mt-4">
-              <Card>
-                <CardContent className="pt-6">
-                  <p className="text-muted-foreground text-center py-8">
-                    Documents du vehicule a venir...
-                  </p>
-                </CardContent>
-              </Card>
+              <VehicleDocuments vehicleId={vehicle.id} />
             </TabsContent>
+
+            {vehicle.fuelType !== 'ELECTRIC' && (
+              <TabsContent value="fuel" className="mt-4">
+                <VehicleFuel vehicleId={vehicle.id} />
+              </TabsContent>
+            )}
+
+            {isManager && (
+              <TabsContent value="odometer" className="mt-4">
+                <VehicleOdometer vehicleId={vehicle.id} />
+              </TabsContent>
+            )}
+
+            {isManager && (
+              <TabsContent value="parts" className="mt-4">
+                <VehicleParts vehicleId={vehicle.id} />
+              </TabsContent>
+            )}
           </Tabs>
         </div>
 
@@ -462,6 +530,8 @@ export function VehicleDetailPage() {
               </div>
             </CardContent>
           </Card>
+
+          <VehicleNextServices vehicleId={vehicle.id} />
         </div>
       </div>
     </div>
@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { FileText, History, Plus, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { documentService } from '@/services/document.service';
+import { useHasMinRole } from '@/stores/auth.store';
+import { useToast } from '@/components/ui/toast';
+import { formatDate, getFileUrl } from '@/lib/utils';
+import type { VehicleDocument, VehicleDocumentType } from '@/types';
+
+const documentTypeLabels: Record<VehicleDocumentType, string> = {
+  REGISTRATION: 'Carte grise',
+  INSURANCE: 'Assurance',
+  TECHNICAL_INSPECTION: 'Controle technique',
+  PURCHASE_INVOICE: "Facture d'achat",
+  MAINTENANCE_INVOICE: "Facture d'entretien",
+  OTHER: 'Autre',
+};
+
+const EXPIRY_WARNING_DAYS = 30;
+
+function ExpiryBadge({ expiryDate }: { expiryDate?: string }) {
+  if (!expiryDate) return null;
+
+  const days = Math.ceil((new Date(expiryDate).getTime() - Date.now()) / (24 * 3600 * 1000));
+  if (days < 0) {
+    return <Badge variant="destructive">Expire le {formatDate(expiryDate)}</Badge>;
+  }
+  return (
+    <Badge variant={days <= EXPIRY_WARNING_DAYS ? 'warning' : 'secondary'}>
+      Expire le {formatDate(expiryDate)}
+    </Badge>
+  );
+}
+
+// Date inputs give a calendar day, stored as midnight UTC
+function toIsoDate(day: string): string | undefined {
+  return day ? new Date(`${day}T00:00:00Z`).toISOString() : undefined;
+}
+
+export function VehicleDocuments({ vehicleId }: { vehicleId: string }) {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const isManager = useHasMinRole('MANAGER');
+  const isAdmin = useHasMinRole('ADMIN');
+
+  const [uploadOpen, setUploadOpen] = useState(false);
+  // Set when a new version of this document is being uploaded
+  const [replacing, setReplacing] = useState<VehicleDocument | null>(null);
+  const [historyOf, setHistoryOf] = useState<VehicleDocument | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [type, setType] = useState<VehicleDocumentType>('INSURANCE');
+  const [name, setName] = useState('');
+  const [expiryDate, setExpiryDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const { data: documents, isLoading } = useQuery({
+    queryKey: ['vehicle', vehicleId, 'documents'],
+    queryFn: () => documentService.getVehicleDocuments(vehicleId),
+  });
+
+  const { data: versions } = useQuery({
+    queryKey: ['vehicle', vehicleId, 'documents', historyOf?.id, 'versions'],
+    queryFn: () => documentService.getVersions(vehicleId, historyOf!.id),
+    enabled: !!historyOf,
+  });
+
+  const resetForm = () => {
+    setUploadOpen(false);
+    setReplacing(null);
+    setFile(null);
+    setName('');
+    setExpiryDate('');
+    setNotes('');
+  };
+
+  const onError = (error: unknown) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || "Impossible d'enregistrer le document.",
+      type: 'error',
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: () =>
+      replacing
+        ? documentService.addVersion(vehicleId, replacing.id, file!, {
+            expiryDate: toIsoDate(expiryDate),
+            notes: notes || undefined,
+          })
+        : documentService.uploadDocument(vehicleId, file!, {
+            type,
+            name: name || undefined,
+            expiryDate: toIsoDate(expiryDate),
+            notes: notes || undefined,
+          }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vehicle', vehicleId] });
+      addToast({
+        title: replacing ? 'Nouvelle version enregistree' : 'Document ajoute',
+        description: 'Le document a ete enregistre avec succes.',
+        type: 'success',
+      });
+      resetForm();
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (documentId: string) => documentService.deleteDocument(vehicleId, documentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vehicle', vehicleId, 'documents'] });
+      addToast({
+        title: 'Document supprime',
+        description: 'Le document et ses versions ont ete supprimes.',
+        type: 'success',
+      });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="loading-spinner" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        {isManager && (
+          <div className="flex justify-end">
+            <Button size="sm" onClick={() => setUploadOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Ajouter un document
+            </Button>
+          </div>
+        )}
+
+        {documents?.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Aucun document pour ce vehicule.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {documents?.map((document) => (
+              <div key={document.id} className="flex items-center gap-4 py-3">
+                <FileText className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <a
+                    href={getFileUrl(document.url)}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="font-medium text-primary hover:underline truncate block"
+                  >
+                    {document.name}
+                  </a>
+                  <p className="text-sm text-muted-foreground">
+                    {documentTypeLabels[document.type] ?? document.type} - version{' '}
+                    {document.version}, ajoute le {formatDate(document.createdAt)}
+                    {document.uploadedBy &&
+                      ` par ${document.uploadedBy.firstName} ${document.uploadedBy.lastName}`}
+                  </p>
+                </div>
+                <ExpiryBadge expiryDate={document.expiryDate} />
+                <div className="flex gap-1">
+                  {document.version > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Historique"
+                      onClick={() => setHistoryOf(document)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {isManager && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Nouvelle version"
+                      onClick={() => setReplacing(document)}
+                    >
+                      <Upload className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Supprimer"
+                      onClick={() => {
+                        if (window.confirm('Supprimer ce document et toutes ses versions ?')) {
+                          deleteMutation.mutate(document.id);
+                        }
+                      }}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Upload / new version dialog */}
+      <Dialog
+        open={uploadOpen || !!replacing}
+        onOpenChange={(open) => !open && resetForm()}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {replacing ? 'Nouvelle version du document' : 'Ajouter un document'}
+            </DialogTitle>
+            <DialogDescription>
+              {replacing
+                ? `${replacing.name} : la version actuelle est conservee dans l'historique.`
+                : "Formats acceptes : PDF, Word, JPEG ou PNG."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {!replacing && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="document-type">Type *</Label>
+                  <select
+                    id="document-type"
+                    className="w-full h-10 px-3 border rounded-md bg-background"
+                    value={type}
+                    onChange={(e) => setType(e.target.value as VehicleDocumentType)}
+                  >
+                    {/* Maintenance invoices are attached when completing the maintenance */}
+                    {Object.entries(documentTypeLabels)
+                      .filter(([value]) => value !== 'MAINTENANCE_INVOICE')
+                      .map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="document-name">Nom</Label>
+                  <Input
+                    id="document-name"
+                    placeholder="Nom du fichier par defaut"
+                    value={name}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                      setName(e.target.value)
+                    }
+                  />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="document-file">Fichier *</Label>
+              <Input
+                id="document-file"
+                type="file"
+                accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFile(e.target.files?.[0] ?? null)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-expiry">Date d'expiration</Label>
+              <Input
+                id="document-expiry"
+                type="date"
+                value={expiryDate}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setExpiryDate(e.target.value)
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-notes">Notes</Label>
+              <Textarea
+                id="document-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={resetForm}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => uploadMutation.mutate()}
+              disabled={!file || uploadMutation.isPending}
+            >
+              {uploadMutation.isPending ? 'Envoi...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Version history dialog */}
+      <Dialog open={!!historyOf} onOpenChange={(open) => !open && setHistoryOf(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Historique des versions</DialogTitle>
+            <DialogDescription>{historyOf?.name}</DialogDescription>
+          </DialogHeader>
+          <div className="divide-y">
+            {versions?.map((version) => (
+              <div key={version.id} className="flex items-center justify-between py-2 text-sm">
+                <a
+                  href={getFileUrl(version.url)}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-primary hover:underline"
+                >
+                  Version {version.version} - {formatDate(version.createdAt)}
+                </a>
+                <ExpiryBadge expiryDate={version.expiryDate} />
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
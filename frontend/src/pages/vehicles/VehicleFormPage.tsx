@@ -26,6 +26,8 @@ const vehicleSchema = z.object({
   color: z.string().optional(),
   vin: z.string().optional(),
   currentMileage: z.number().min(0),
+  fuelConsumption: z.number().positive().optional(),
+  tankCapacity: z.number().positive().optional(),
   dailyRate: z.number().min(0).optional(),
   features: z.array(z.string()).optional(),
   notes: z.string().optional(),
@@ -35,6 +37,11 @@ const vehicleSchema = z.object({
 
 type VehicleForm = z.infer<typeof vehicleSchema>;
 
+// Empty number inputs are left out instead of failing validation as NaN
+function toOptionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
 const vehicleTypes = [
   { value: 'SEDAN', label: 'Berline' },
   { value: 'SUV', label: 'SUV' },
@@ -90,6 +97,8 @@ export function VehicleFormPage() {
           color: vehicle.color || '',
           vin: vehicle.vin || '',
           currentMileage: vehicle.currentMileage,
+          fuelConsumption: vehicle.fuelConsumption ?? undefined,
+          tankCapacity: vehicle.tankCapacity ?? undefined,
           dailyRate: vehicle.dailyRate || undefined,
           features: vehicle.features || [],
           notes: vehicle.notes || '',
@@ -110,6 +119,7 @@ export function VehicleFormPage() {
   function toApiPayload(data: VehicleForm) {
     return {
       ...data,
+      vin: data.vin || undefined,
       insuranceExpiry: data.insuranceExpiry
         ? new Date(data.insuranceExpiry).toISOString()
         : undefined,
@@ -404,6 +414,29 @@ export function VehicleFormPage() {
                 </div>
               </div>
 
+              {/* Reference figures for the anomalies of the fuel log */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="fuelConsumption">Consommation (L/100 km)</Label>
+                  <Input
+                    id="fuelConsumption"
+                    type="number"
+                    step="0.1"
+                    placeholder="8.5"
+                    {...register('fuelConsumption', { setValueAs: toOptionalNumber })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tankCapacity">Reservoir (L)</Label>
+                  <Input
+                    id="tankCapacity"
+                    type="number"
+                    placeholder="80"
+                    {...register('tankCapacity', { setValueAs: toOptionalNumber })}
+                  />
+                </div>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="dailyRate">Tarif journalier (XOF)</Label>
                 <Input
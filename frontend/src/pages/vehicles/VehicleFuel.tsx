@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Receipt } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { fuelService } from '@/services/fuel.service';
+import { vehicleService } from '@/services/vehicle.service';
+import { formatCurrency, formatDate, getFileUrl } from '@/lib/utils';
+import type { FuelAnomaly } from '@/types';
+
+const anomalyLabels: Record<FuelAnomaly, string> = {
+  HIGH_CONSUMPTION: 'Surconsommation',
+  LOW_CONSUMPTION: 'Sous-consommation',
+  OVER_CAPACITY: 'Depasse le reservoir',
+};
+
+export function VehicleFuel({ vehicleId }: { vehicleId: string }) {
+  const [page, setPage] = useState(1);
+
+  const { data: statistics } = useQuery({
+    queryKey: ['vehicle', vehicleId, 'statistics'],
+    queryFn: () => vehicleService.getVehicleStatistics(vehicleId),
+  });
+
+  const { data: fuelLogs, isLoading } = useQuery({
+    queryKey: ['fuel-logs', { vehicleId, page }],
+    queryFn: () => fuelService.getFuelLogs({ vehicleId, page, limit: 10 }),
+  });
+
+  const fuel = statistics?.fuel;
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-6">
+        {fuel && (
+          <div className="grid gap-4 md:grid-cols-4">
+            <div>
+              <p className="text-2xl font-bold">
+                {fuel.averageConsumption != null ? `${fuel.averageConsumption} L` : '-'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Consommation reelle /100 km
+                {fuel.ratedConsumption != null && ` (annoncee ${fuel.ratedConsumption} L)`}
+              </p>
+            </div>
+            <div>
+              <p
+                className={`text-2xl font-bold ${
+                  fuel.deviationPercent != null && fuel.deviationPercent > 0
+                    ? 'text-red-600'
+                    : ''
+                }`}
+              >
+                {fuel.deviationPercent != null
+                  ? `${fuel.deviationPercent > 0 ? '+' : ''}${fuel.deviationPercent}%`
+                  : '-'}
+              </p>
+              <p className="text-sm text-muted-foreground">Ecart a la consommation annoncee</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{fuel.totalLiters} L</p>
+              <p className="text-sm text-muted-foreground">
+                {fuel.refuelCount} plein(s), {formatCurrency(fuel.totalCost)}
+              </p>
+            </div>
+            <div>
+              <p className={`text-2xl font-bold ${fuel.anomalyCount > 0 ? 'text-red-600' : ''}`}>
+                {fuel.anomalyCount}
+              </p>
+              <p className="text-sm text-muted-foreground">Anomalies</p>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="loading-spinner" />
+          </div>
+        ) : fuelLogs?.data.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Aucun plein enregistre pour ce vehicule.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {fuelLogs?.data.map((fuelLog) => (
+              <div key={fuelLog.id} className="flex items-center gap-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">
+                    {fuelLog.liters} L{fuelLog.isFullTank ? ' (plein complet)' : ''}
+                    {fuelLog.amount != null && ` - ${formatCurrency(fuelLog.amount)}`}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatDate(fuelLog.date)} a {fuelLog.mileage.toLocaleString()} km
+                    {fuelLog.station && `, ${fuelLog.station}`} - {fuelLog.user.firstName}{' '}
+                    {fuelLog.user.lastName}
+                  </p>
+                </div>
+                {fuelLog.consumption != null && (
+                  <span className="text-sm font-medium">{fuelLog.consumption} L/100 km</span>
+                )}
+                {fuelLog.anomalies.map((anomaly) => (
+                  <Badge key={anomaly} variant="destructive">
+                    {anomalyLabels[anomaly]}
+                  </Badge>
+                ))}
+                {fuelLog.receiptUrl && (
+                  <a
+                    href={getFileUrl(fuelLog.receiptUrl)}
+                    target="_blank"
+                    rel="noreferrer"
+                    title="Ticket"
+                    className="text-muted-foreground hover:text-primary"
+                  >
+                    <Receipt className="h-4 w-4" />
+                  </a>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {fuelLogs && fuelLogs.meta.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!fuelLogs.meta.hasPrev}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              Precedent
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {fuelLogs.meta.page} sur {fuelLogs.meta.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!fuelLogs.meta.hasNext}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              Suivant
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
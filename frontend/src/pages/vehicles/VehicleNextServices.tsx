@@ -0,0 +1,75 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { vehicleService } from '@/services/vehicle.service';
+import { formatDate } from '@/lib/utils';
+import type { ServiceDueStatus } from '@/types';
+
+const statusLabels: Record<ServiceDueStatus, string> = {
+  OK: 'A jour',
+  DUE_SOON: 'Bientot',
+  OVERDUE: 'En retard',
+};
+
+const statusColors: Record<ServiceDueStatus, 'success' | 'warning' | 'destructive'> = {
+  OK: 'success',
+  DUE_SOON: 'warning',
+  OVERDUE: 'destructive',
+};
+
+export function VehicleNextServices({ vehicleId }: { vehicleId: string }) {
+  const { data: services } = useQuery({
+    queryKey: ['vehicle', vehicleId, 'next-services'],
+    queryFn: () => vehicleService.getNextServices(vehicleId),
+  });
+
+  // Vehicles without any applicable plan have nothing to project
+  if (!services || services.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Prochains entretiens</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {services.map((service) => (
+          <div key={service.plan.id} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium">{service.plan.name}</p>
+              <Badge variant={statusColors[service.status]}>
+                {statusLabels[service.status]}
+              </Badge>
+            </div>
+            {service.dueMileage != null && (
+              <p className="text-sm text-muted-foreground">
+                A {service.dueMileage.toLocaleString()} km
+                {service.remainingKm != null &&
+                  (service.remainingKm > 0
+                    ? ` (encore ${service.remainingKm.toLocaleString()} km)`
+                    : ` (depasse de ${(-service.remainingKm).toLocaleString()} km)`)}
+              </p>
+            )}
+            {service.dueDate && (
+              <p className="text-sm text-muted-foreground">
+                Le {formatDate(service.dueDate)}
+                {service.remainingDays != null &&
+                  (service.remainingDays > 0
+                    ? ` (dans ${service.remainingDays} jour(s))`
+                    : ` (depasse de ${-service.remainingDays} jour(s))`)}
+              </p>
+            )}
+            {service.openMaintenance && (
+              <p className="text-sm text-muted-foreground">
+                {service.openMaintenance.status === 'IN_PROGRESS'
+                  ? 'Maintenance en cours'
+                  : `Maintenance planifiee le ${formatDate(service.openMaintenance.scheduledDate)}`}
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
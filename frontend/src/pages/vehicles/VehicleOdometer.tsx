@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Pencil } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { vehicleService } from '@/services/vehicle.service';
+import { useHasMinRole } from '@/stores/auth.store';
+import { useToast } from '@/components/ui/toast';
+import { formatDateTime } from '@/lib/utils';
+import type { OdometerReading, OdometerSource } from '@/types';
+
+const sourceLabels: Record<OdometerSource, string> = {
+  MANUAL: 'Saisie manuelle',
+  CHECK_IN: 'Depart',
+  CHECK_OUT: 'Retour',
+  VEHICLE_SWAP: 'Changement de vehicule',
+  MAINTENANCE: 'Maintenance',
+};
+
+export function VehicleOdometer({ vehicleId }: { vehicleId: string }) {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const isAdmin = useHasMinRole('ADMIN');
+
+  const [page, setPage] = useState(1);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [correcting, setCorrecting] = useState<OdometerReading | null>(null);
+  const [mileage, setMileage] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['vehicle', vehicleId, 'odometer', { page, flaggedOnly }],
+    queryFn: () =>
+      vehicleService.getOdometerReadings(vehicleId, {
+        page,
+        limit: 20,
+        flagged: flaggedOnly || undefined,
+      }),
+  });
+
+  const closeCorrection = () => {
+    setCorrecting(null);
+    setMileage('');
+    setReason('');
+  };
+
+  const correctMutation = useMutation({
+    mutationFn: () =>
+      vehicleService.correctOdometerReading(vehicleId, correcting!.id, {
+        mileage: Number(mileage),
+        reason: reason.trim(),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vehicle', vehicleId] });
+      addToast({ title: 'Releve corrige', type: 'success' });
+      closeCorrection();
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description: err.response?.data?.message || 'Impossible de corriger le releve.',
+        type: 'error',
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={flaggedOnly}
+            onChange={(e) => {
+              setFlaggedOnly(e.target.checked);
+              setPage(1);
+            }}
+          />
+          Releves invraisemblables uniquement
+        </label>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="loading-spinner" />
+          </div>
+        ) : data?.data.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Aucun releve du compteur pour ce vehicule.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {data?.data.map((reading) => (
+              <div key={reading.id} className="flex items-center gap-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">
+                    {reading.mileage.toLocaleString()} km
+                    <span className="text-sm text-muted-foreground font-normal">
+                      {' '}
+                      (+{(reading.mileage - reading.previousMileage).toLocaleString()} km)
+                    </span>
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {sourceLabels[reading.source]}
+                    {reading.reservation && (
+                      <>
+                        {' '}
+                        <Link
+                          to={`/reservations/${reading.reservation.id}`}
+                          className="text-primary hover:underline"
+                        >
+                          {reading.reservation.referenceNumber}
+                        </Link>
+                      </>
+                    )}{' '}
+                    - {formatDateTime(reading.recordedAt)} par {reading.recordedBy.firstName}{' '}
+                    {reading.recordedBy.lastName}
+                  </p>
+                  {reading.originalMileage != null && reading.correctedBy && (
+                    <p className="text-sm text-muted-foreground">
+                      Corrige de {reading.originalMileage.toLocaleString()} km par{' '}
+                      {reading.correctedBy.firstName} {reading.correctedBy.lastName} :{' '}
+                      {reading.correctionReason}
+                    </p>
+                  )}
+                </div>
+                {reading.isFlagged && <Badge variant="destructive">Invraisemblable</Badge>}
+                {isAdmin && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Corriger"
+                    onClick={() => {
+                      setCorrecting(reading);
+                      setMileage(String(reading.mileage));
+                    }}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data && data.meta.totalPages > 1 && (
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!data.meta.hasPrev}
+              onClick={() => setPage((p) => p - 1)}
+            >
+              Precedent
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {data.meta.page} sur {data.meta.totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!data.meta.hasNext}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              Suivant
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!correcting} onOpenChange={(open) => !open && closeCorrection()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Corriger le releve</DialogTitle>
+            <DialogDescription>
+              La valeur saisie a l'origine est conservee et la correction est journalisee.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="odometer-mileage">Kilometrage *</Label>
+              <Input
+                id="odometer-mileage"
+                type="number"
+                min="0"
+                value={mileage}
+                onChange={(e) => setMileage(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="odometer-reason">Motif *</Label>
+              <Textarea
+                id="odometer-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Erreur de saisie au retour..."
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCorrection}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => correctMutation.mutate()}
+              disabled={!mileage || reason.trim().length < 5 || correctMutation.isPending}
+            >
+              {correctMutation.isPending ? 'Enregistrement...' : 'Corriger'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { partService } from '@/services/part.service';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
+export function VehicleParts({ vehicleId }: { vehicleId: string }) {
+  const { data: usages, isLoading } = useQuery({
+    queryKey: ['vehicle', vehicleId, 'parts'],
+    queryFn: () => partService.getVehicleParts(vehicleId),
+  });
+
+  const totalCost = usages?.reduce((sum, usage) => sum + usage.quantity * usage.unitCost, 0) ?? 0;
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <div className="loading-spinner" />
+          </div>
+        ) : usages?.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Aucune piece remplacee sur ce vehicule.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {usages?.length} remplacement(s), {formatCurrency(totalCost)} de pieces
+            </p>
+            <div className="divide-y">
+              {usages?.map((usage) => (
+                <div key={usage.id} className="flex items-center gap-4 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">
+                      {usage.quantity} x {usage.part.sku} - {usage.part.name}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDate(usage.maintenance?.completedDate ?? usage.createdAt)}
+                      {usage.maintenance && ` - ${usage.maintenance.description}`}
+                      {usage.location && ` - stock de ${usage.location.name}`}
+                    </p>
+                  </div>
+                  <span className="text-sm">
+                    {formatCurrency(usage.quantity * usage.unitCost)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
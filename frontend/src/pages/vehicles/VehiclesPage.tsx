@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import {
   Car,
@@ -11,11 +11,30 @@ import {
   Fuel,
   Users,
   Gauge,
+  QrCode,
+  Download,
+  Upload,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { vehicleService } from '@/services/vehicle.service';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/components/ui/toast';
+import { vehicleService, type VehicleImportResult } from '@/services/vehicle.service';
+import { locationService } from '@/services/location.service';
 import { useHasMinRole } from '@/stores/auth.store';
 import { cn, formatCurrency, getFileUrl } from '@/lib/utils';
 import type { Vehicle, VehicleStatus } from '@/types';
@@ -158,20 +177,91 @@ export function VehiclesPage() {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('');
+  const [locationFilter, setLocationFilter] = useState<string>('');
   const [page, setPage] = useState(1);
   const isAdmin = useHasMinRole('ADMIN');
+  const isManager = useHasMinRole('MANAGER');
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [updateExisting, setUpdateExisting] = useState(false);
+  const [importPreview, setImportPreview] = useState<VehicleImportResult | null>(null);
 
   const { data, isLoading } = useQuery({
-    queryKey: ['vehicles', { page, search, status: statusFilter }],
+    queryKey: ['vehicles', { page, search, status: statusFilter, locationId: locationFilter }],
     queryFn: () =>
       vehicleService.getVehicles({
         page,
         limit: 12,
         search,
         status: statusFilter,
+        locationId: locationFilter || undefined,
       }),
   });
 
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: () => locationService.getLocations(),
+  });
+
+  // Exports the vehicles matching the current filters, all pages included
+  const exportVehicles = async (format: 'csv' | 'xlsx') => {
+    const blob = await vehicleService.exportVehicles(
+      { search, status: statusFilter, locationId: locationFilter || undefined },
+      format
+    );
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `vehicules.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const closeImportDialog = () => {
+    setImportDialogOpen(false);
+    setImportFile(null);
+    setUpdateExisting(false);
+    setImportPreview(null);
+  };
+
+  // The file is always analysed first; it is imported only once the preview
+  // shows no invalid row
+  const importMutation = useMutation({
+    mutationFn: (dryRun: boolean) =>
+      vehicleService.importVehicles(importFile!, { dryRun, updateExisting }),
+    onSuccess: (result) => {
+      if (result.dryRun) {
+        setImportPreview(result);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['vehicles'] });
+      addToast({
+        title: 'Import termine',
+        description: `${result.created} vehicule(s) cree(s), ${result.updated} mis a jour.`,
+        type: 'success',
+      });
+      closeImportDialog();
+    },
+    onError: (error: unknown) => {
+      const err = error as { response?: { data?: { message?: string } } };
+      addToast({
+        title: 'Erreur',
+        description: err.response?.data?.message || "Impossible d'importer le fichier.",
+        type: 'error',
+      });
+    },
+  });
+
+  // The sheet is rendered by the API and printed from a new tab
+  const openQrStickerSheet = async () => {
+    const sheet = window.open('', '_blank');
+    if (!sheet) return;
+    sheet.document.write(await vehicleService.getQrStickerSheet());
+    sheet.document.close();
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -182,14 +272,44 @@ export function VehiclesPage() {
             Gerez le parc automobile de l'organisation.
           </p>
         </div>
-        {isAdmin && (
-          <Button asChild>
-            <Link to="/vehicles/new">
-              <Plus className="h-4 w-4 mr-2" />
-              Ajouter un vehicule
-            </Link>
-          </Button>
-        )}
+        <div className="flex gap-2">
+          {isManager && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Download className="h-4 w-4 mr-2" />
+                  Exporter
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => exportVehicles('xlsx')}>
+                  Excel (.xlsx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportVehicles('csv')}>
+                  CSV (.csv)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          {isAdmin && (
+            <>
+              <Button variant="outline" onClick={() => setImportDialogOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Importer
+              </Button>
+              <Button variant="outline" onClick={openQrStickerSheet}>
+                <QrCode className="h-4 w-4 mr-2" />
+                Etiquettes QR
+              </Button>
+              <Button asChild>
+                <Link to="/vehicles/new">
+                  <Plus className="h-4 w-4 mr-2" />
+                  Ajouter un vehicule
+                </Link>
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -223,6 +343,23 @@ export function VehiclesPage() {
               <option value="MAINTENANCE">En maintenance</option>
               <option value="OUT_OF_SERVICE">Hors service</option>
             </select>
+            {locations && locations.length > 1 && (
+              <select
+                className="h-10 px-3 border rounded-md bg-background"
+                value={locationFilter}
+                onChange={(e) => {
+                  setLocationFilter(e.target.value);
+                  setPage(1);
+                }}
+              >
+                <option value="">Tous les emplacements</option>
+                {locations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.name}
+                  </option>
+                ))}
+              </select>
+            )}
             <div className="flex gap-2">
               <Button
                 variant={viewMode === 'grid' ? 'default' : 'outline'}
@@ -294,6 +431,117 @@ export function VehiclesPage() {
           </Button>
         </div>
       )}
+
+      {/* Import dialog */}
+      <Dialog
+        open={importDialogOpen}
+        onOpenChange={(open) => (open ? setImportDialogOpen(true) : closeImportDialog())}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Importer des vehicules</DialogTitle>
+            <DialogDescription>
+              Fichier CSV ou Excel avec les colonnes de l'export. Le fichier est
+              analyse avant l'import, qui n'a lieu que si toutes les lignes sont
+              valides.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                setImportFile(e.target.files?.[0] ?? null);
+                setImportPreview(null);
+              }}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={updateExisting}
+                onChange={(e) => {
+                  setUpdateExisting(e.target.checked);
+                  setImportPreview(null);
+                }}
+              />
+              Mettre a jour les vehicules dont l'immatriculation existe deja
+            </label>
+
+            {importPreview && (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  {importPreview.created} a creer, {importPreview.updated} a mettre a
+                  jour,{' '}
+                  <span className={importPreview.invalid > 0 ? 'text-red-600 font-medium' : ''}>
+                    {importPreview.invalid} en erreur
+                  </span>
+                </p>
+                <div className="max-h-72 overflow-y-auto border rounded-md">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 text-left">Ligne</th>
+                        <th className="px-3 py-2 text-left">Immatriculation</th>
+                        <th className="px-3 py-2 text-left">Resultat</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importPreview.rows.map((row) => {
+                        const errors = Object.entries(row.errors);
+                        return (
+                          <tr key={row.row} className="border-t align-top">
+                            <td className="px-3 py-2">{row.row}</td>
+                            <td className="px-3 py-2 font-mono">
+                              {row.registrationNumber ?? '-'}
+                            </td>
+                            <td className="px-3 py-2">
+                              {errors.length === 0 ? (
+                                <span className="text-green-700">
+                                  {row.action === 'CREATE' ? 'Creation' : 'Mise a jour'}
+                                </span>
+                              ) : (
+                                <ul className="text-red-600">
+                                  {errors.map(([column, messages]) => (
+                                    <li key={column}>
+                                      {column} : {messages.join(', ')}
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeImportDialog}>
+              Annuler
+            </Button>
+            {importPreview && importPreview.invalid === 0 ? (
+              <Button
+                onClick={() => importMutation.mutate(false)}
+                disabled={importMutation.isPending}
+              >
+                {importMutation.isPending
+                  ? 'Import...'
+                  : `Importer ${importPreview.total} vehicule(s)`}
+              </Button>
+            ) : (
+              <Button
+                onClick={() => importMutation.mutate(true)}
+                disabled={!importFile || importMutation.isPending}
+              >
+                {importMutation.isPending ? 'Analyse...' : 'Analyser le fichier'}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
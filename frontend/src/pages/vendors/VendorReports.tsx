@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { vendorService } from '@/services/vendor.service';
+import { formatCurrency } from '@/lib/utils';
+
+const periods = [
+  { value: 3, label: '3 derniers mois' },
+  { value: 6, label: '6 derniers mois' },
+  { value: 12, label: '12 derniers mois' },
+];
+
+function formatTurnaround(hours: number | null): string {
+  if (hours === null) {
+    return '-';
+  }
+  return hours >= 48 ? `${Math.round(hours / 24)} j` : `${hours} h`;
+}
+
+export function VendorReports() {
+  const [months, setMonths] = useState(12);
+
+  const { data: reports, isLoading } = useQuery({
+    queryKey: ['vendors', 'report', { months }],
+    queryFn: () => {
+      const from = new Date();
+      from.setMonth(from.getMonth() - months);
+      return vendorService.getReports({ from: from.toISOString() });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between">
+        <CardTitle>Depenses et performance</CardTitle>
+        <select
+          className="h-10 px-3 border rounded-md bg-background"
+          value={months}
+          onChange={(e) => setMonths(Number(e.target.value))}
+        >
+          {periods.map((period) => (
+            <option key={period.value} value={period.value}>
+              {period.label}
+            </option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="loading-spinner" />
+          </div>
+        ) : reports?.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Aucun prestataire actif</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-3 py-2 text-left">Prestataire</th>
+                  <th className="px-3 py-2 text-right">Maintenances</th>
+                  <th className="px-3 py-2 text-right">Depense</th>
+                  <th className="px-3 py-2 text-right">Delai moyen</th>
+                  <th className="px-3 py-2 text-right">Ecart au devis</th>
+                  <th className="px-3 py-2 text-right">Reprises</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reports?.map((report) => (
+                  <tr key={report.vendorId} className="border-t">
+                    <td className="px-3 py-2 font-medium">{report.name}</td>
+                    <td className="px-3 py-2 text-right">{report.maintenanceCount}</td>
+                    <td className="px-3 py-2 text-right">
+                      {formatCurrency(report.totalSpend)}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {formatTurnaround(report.averageTurnaroundHours)}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-right ${
+                        report.costVariance > 0 ? 'text-red-600' : ''
+                      }`}
+                    >
+                      {report.costVariancePercent !== null
+                        ? `${report.costVariancePercent > 0 ? '+' : ''}${
+                            report.costVariancePercent
+                          }% (${formatCurrency(report.costVariance)})`
+                        : '-'}
+                    </td>
+                    <td
+                      className={`px-3 py-2 text-right ${
+                        report.reworkCount > 0 ? 'text-orange-600' : ''
+                      }`}
+                    >
+                      {report.reworkCount} ({report.reworkRate}%)
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,487 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { vendorService, type VendorInput } from '@/services/vendor.service';
+import { locationService } from '@/services/location.service';
+import { useHasMinRole } from '@/stores/auth.store';
+import { useToast } from '@/components/ui/toast';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import type { Vendor } from '@/types';
+import { VendorReports } from './VendorReports';
+
+interface ContactForm {
+  name: string;
+  role: string;
+  phone: string;
+}
+
+interface VendorForm {
+  name: string;
+  specialties: string;
+  phone: string;
+  email: string;
+  address: string;
+  laborRate: string;
+  contractRef: string;
+  contractEndDate: string;
+  contacts: ContactForm[];
+  locationIds: string[];
+}
+
+const emptyForm: VendorForm = {
+  name: '',
+  specialties: '',
+  phone: '',
+  email: '',
+  address: '',
+  laborRate: '',
+  contractRef: '',
+  contractEndDate: '',
+  contacts: [],
+  locationIds: [],
+};
+
+// Specialties are typed comma separated, the first contact is the primary one
+function toInput(form: VendorForm): VendorInput {
+  return {
+    name: form.name.trim(),
+    specialties: form.specialties
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    phone: form.phone.trim() || undefined,
+    email: form.email.trim() || undefined,
+    address: form.address.trim() || undefined,
+    laborRate: form.laborRate ? parseFloat(form.laborRate) : null,
+    contractRef: form.contractRef.trim() || null,
+    contractEndDate: form.contractEndDate ? new Date(form.contractEndDate).toISOString() : null,
+    contacts: form.contacts
+      .filter((contact) => contact.name.trim())
+      .map((contact, index) => ({
+        name: contact.name.trim(),
+        role: contact.role.trim() || undefined,
+        phone: contact.phone.trim() || undefined,
+        isPrimary: index === 0,
+      })),
+    locationIds: form.locationIds,
+  };
+}
+
+export function VendorsPage() {
+  const queryClient = useQueryClient();
+  const { addToast } = useToast();
+  const isAdmin = useHasMinRole('ADMIN');
+
+  const [search, setSearch] = useState('');
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  // Set when an existing vendor is being edited
+  const [editing, setEditing] = useState<Vendor | null>(null);
+  const [form, setForm] = useState<VendorForm>(emptyForm);
+
+  const { data: vendors, isLoading } = useQuery({
+    queryKey: ['vendors', { search, includeInactive }],
+    queryFn: () => vendorService.getVendors({ search: search || undefined, includeInactive }),
+  });
+
+  const { data: locations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: () => locationService.getLocations(),
+    enabled: dialogOpen,
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditing(null);
+    setForm(emptyForm);
+  };
+
+  const openEdit = (vendor: Vendor) => {
+    setEditing(vendor);
+    setForm({
+      name: vendor.name,
+      specialties: vendor.specialties.join(', '),
+      phone: vendor.phone ?? '',
+      email: vendor.email ?? '',
+      address: vendor.address ?? '',
+      laborRate: vendor.laborRate?.toString() ?? '',
+      contractRef: vendor.contractRef ?? '',
+      contractEndDate: vendor.contractEndDate ? vendor.contractEndDate.slice(0, 10) : '',
+      contacts: vendor.contacts.map((contact) => ({
+        name: contact.name,
+        role: contact.role ?? '',
+        phone: contact.phone ?? '',
+      })),
+      locationIds: vendor.locations.map((location) => location.id),
+    });
+    setDialogOpen(true);
+  };
+
+  const updateContact = (index: number, changes: Partial<ContactForm>) => {
+    setForm({
+      ...form,
+      contacts: form.contacts.map((contact, i) =>
+        i === index ? { ...contact, ...changes } : contact
+      ),
+    });
+  };
+
+  const toggleLocation = (locationId: string) => {
+    setForm({
+      ...form,
+      locationIds: form.locationIds.includes(locationId)
+        ? form.locationIds.filter((id) => id !== locationId)
+        : [...form.locationIds, locationId],
+    });
+  };
+
+  const onError = (error: unknown) => {
+    const err = error as { response?: { data?: { message?: string } } };
+    addToast({
+      title: 'Erreur',
+      description: err.response?.data?.message || "Impossible d'enregistrer le prestataire.",
+      type: 'error',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      editing
+        ? vendorService.updateVendor(editing.id, toInput(form))
+        : vendorService.createVendor(toInput(form)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vendors'] });
+      addToast({
+        title: editing ? 'Prestataire modifie' : 'Prestataire ajoute',
+        description: 'Le registre des prestataires a ete mis a jour.',
+        type: 'success',
+      });
+      closeDialog();
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (vendor: Vendor) => {
+      if (vendor.isActive) {
+        await vendorService.deleteVendor(vendor.id);
+      } else {
+        await vendorService.updateVendor(vendor.id, { isActive: true });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['vendors'] });
+    },
+    onError,
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Prestataires</h1>
+          <p className="text-muted-foreground">
+            Garages et prestataires d'entretien, leurs contrats et leurs performances.
+          </p>
+        </div>
+        {isAdmin && (
+          <Button onClick={() => setDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Ajouter un prestataire
+          </Button>
+        )}
+      </div>
+
+      {/* Reports */}
+      <VendorReports />
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Rechercher par nom ou contact..."
+                className="pl-10"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={includeInactive}
+                onChange={(e) => setIncludeInactive(e.target.checked)}
+              />
+              Afficher les prestataires desactives
+            </label>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Registry */}
+      {isLoading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="loading-spinner" />
+        </div>
+      ) : vendors?.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Aucun prestataire trouve
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {vendors?.map((vendor) => (
+            <Card key={vendor.id}>
+              <CardContent className="p-4">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="font-medium flex items-center gap-2">
+                      {vendor.name}
+                      {!vendor.isActive && <Badge variant="secondary">Inactif</Badge>}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {[vendor.phone, vendor.email, vendor.address].filter(Boolean).join(' - ') ||
+                        'Aucune coordonnee'}
+                    </p>
+                    {vendor.contacts.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Contacts :{' '}
+                        {vendor.contacts
+                          .map((contact) =>
+                            [contact.name, contact.role, contact.phone].filter(Boolean).join(', ')
+                          )
+                          .join(' / ')}
+                      </p>
+                    )}
+                    <p className="text-sm text-muted-foreground">
+                      {vendor.laborRate !== null && vendor.laborRate !== undefined
+                        ? `Main d'oeuvre ${formatCurrency(vendor.laborRate)} / h`
+                        : "Taux de main d'oeuvre non renseigne"}
+                      {vendor.contractRef && ` - contrat ${vendor.contractRef}`}
+                      {vendor.contractEndDate &&
+                        ` jusqu'au ${formatDate(vendor.contractEndDate)}`}
+                      {vendor._count && ` - ${vendor._count.maintenances} maintenance(s)`}
+                    </p>
+                    <div className="flex flex-wrap gap-2 pt-1">
+                      {vendor.specialties.map((specialty) => (
+                        <Badge key={specialty} variant="outline">
+                          {specialty}
+                        </Badge>
+                      ))}
+                      {vendor.locations.map((location) => (
+                        <Badge key={location.id} variant="secondary">
+                          {location.name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  {isAdmin && (
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openEdit(vendor)}>
+                        Modifier
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleMutation.mutate(vendor)}
+                        disabled={toggleMutation.isPending}
+                      >
+                        {vendor.isActive ? 'Desactiver' : 'Reactiver'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Vendor dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? 'Modifier le prestataire' : 'Ajouter un prestataire'}
+            </DialogTitle>
+            <DialogDescription>
+              Le taux de main d'oeuvre est celui convenu dans le contrat.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="vendor-name">Nom *</Label>
+              <Input
+                id="vendor-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-specialties">Specialites</Label>
+              <Input
+                id="vendor-specialties"
+                value={form.specialties}
+                onChange={(e) => setForm({ ...form, specialties: e.target.value })}
+                placeholder="Mecanique, Pneumatiques, Carrosserie"
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="vendor-phone">Telephone</Label>
+                <Input
+                  id="vendor-phone"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor-email">Email</Label>
+                <Input
+                  id="vendor-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vendor-address">Adresse</Label>
+              <Input
+                id="vendor-address"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="vendor-labor-rate">Taux horaire (XOF)</Label>
+                <Input
+                  id="vendor-labor-rate"
+                  type="number"
+                  min="0"
+                  value={form.laborRate}
+                  onChange={(e) => setForm({ ...form, laborRate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor-contract-ref">Contrat</Label>
+                <Input
+                  id="vendor-contract-ref"
+                  value={form.contractRef}
+                  onChange={(e) => setForm({ ...form, contractRef: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="vendor-contract-end">Fin de contrat</Label>
+                <Input
+                  id="vendor-contract-end"
+                  type="date"
+                  value={form.contractEndDate}
+                  onChange={(e) => setForm({ ...form, contractEndDate: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Contacts</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setForm({
+                      ...form,
+                      contacts: [...form.contacts, { name: '', role: '', phone: '' }],
+                    })
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Ajouter
+                </Button>
+              </div>
+              {form.contacts.map((contact, index) => (
+                <div key={index} className="flex gap-2">
+                  <Input
+                    placeholder="Nom"
+                    value={contact.name}
+                    onChange={(e) => updateContact(index, { name: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Fonction"
+                    value={contact.role}
+                    onChange={(e) => updateContact(index, { role: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Telephone"
+                    value={contact.phone}
+                    onChange={(e) => updateContact(index, { phone: e.target.value })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setForm({
+                        ...form,
+                        contacts: form.contacts.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {form.contacts.length > 1 && (
+                <p className="text-xs text-muted-foreground">
+                  Le premier contact est le contact principal.
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Sites desservis</Label>
+              <div className="flex flex-wrap gap-4">
+                {locations?.map((location) => (
+                  <label key={location.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.locationIds.includes(location.id)}
+                      onChange={() => toggleLocation(location.id)}
+                    />
+                    {location.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Annuler
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={form.name.trim().length < 2 || saveMutation.isPending}
+            >
+              {saveMutation.isPending ? 'Enregistrement...' : 'Enregistrer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
 import api from './api';
-import type { ApiResponse, DashboardStats, ChartData } from '@/types';
+import type { ApiResponse, DashboardStats, ChartData, FuelOverview } from '@/types';
 
 export const dashboardService = {
-  async getStats(): Promise<DashboardStats> {
-    const response = await api.get<ApiResponse<DashboardStats>>(
-      '/dashboard/stats'
-    );
+  async getStats(locationId?: string): Promise<DashboardStats> {
+    const response = await api.get<ApiResponse<DashboardStats>>('/dashboard/stats', {
+      params: { locationId },
+    });
     return response.data.data!;
   },
 
@@ -26,45 +26,46 @@ export const dashboardService = {
     return response.data.data!;
   },
 
-  async getReservationTrends(days = 30): Promise<ChartData[]> {
-    const response = await api.get<ApiResponse<ChartData[]>>(
-      `/dashboard/reservation-trends?days=${days}`
-    );
+  async getReservationTrends(days = 30, locationId?: string): Promise<ChartData[]> {
+    const response = await api.get<ApiResponse<ChartData[]>>('/dashboard/reservation-trends', {
+      params: { days, locationId },
+    });
     return response.data.data!;
   },
 
-  async getVehicleUtilization(): Promise<ChartData[]> {
-    const response = await api.get<ApiResponse<ChartData[]>>(
-      '/dashboard/vehicle-utilization'
-    );
+  async getVehicleUtilization(locationId?: string): Promise<ChartData[]> {
+    const response = await api.get<ApiResponse<ChartData[]>>('/dashboard/vehicle-utilization', {
+      params: { locationId },
+    });
     return response.data.data!;
   },
 
-  async getReservationsByStatus(): Promise<ChartData[]> {
-    const response = await api.get<ApiResponse<ChartData[]>>(
-      '/dashboard/reservations-by-status'
-    );
+  async getReservationsByStatus(locationId?: string): Promise<ChartData[]> {
+    const response = await api.get<ApiResponse<ChartData[]>>('/dashboard/reservations-by-status', {
+      params: { locationId },
+    });
     return response.data.data!;
   },
 
-  async getReservationsByDepartment(): Promise<ChartData[]> {
+  async getReservationsByDepartment(locationId?: string): Promise<ChartData[]> {
     const response = await api.get<ApiResponse<ChartData[]>>(
-      '/dashboard/reservations-by-department'
+      '/dashboard/reservations-by-department',
+      { params: { locationId } }
     );
     return response.data.data!;
   },
 
-  async getVehiclesByType(): Promise<ChartData[]> {
-    const response = await api.get<ApiResponse<ChartData[]>>(
-      '/dashboard/vehicles-by-type'
-    );
+  async getVehiclesByType(locationId?: string): Promise<ChartData[]> {
+    const response = await api.get<ApiResponse<ChartData[]>>('/dashboard/vehicles-by-type', {
+      params: { locationId },
+    });
     return response.data.data!;
   },
 
-  async getVehiclesByStatus(): Promise<ChartData[]> {
-    const response = await api.get<ApiResponse<ChartData[]>>(
-      '/dashboard/vehicles-by-status'
-    );
+  async getVehiclesByStatus(locationId?: string): Promise<ChartData[]> {
+    const response = await api.get<ApiResponse<ChartData[]>>('/dashboard/vehicles-by-status', {
+      params: { locationId },
+    });
     return response.data.data!;
   },
 
@@ -94,7 +95,8 @@ export const dashboardService = {
   },
 
   async getMonthlyStats(
-    months = 12
+    months = 12,
+    locationId?: string
   ): Promise<
     Array<{
       month: string;
@@ -112,11 +114,11 @@ export const dashboardService = {
           revenue: number;
         }>
       >
-    >(`/dashboard/monthly-stats?months=${months}`);
+    >('/dashboard/monthly-stats', { params: { months, locationId } });
     return response.data.data!;
   },
 
-  async getMaintenanceOverview(): Promise<{
+  async getMaintenanceOverview(locationId?: string): Promise<{
     scheduled: number;
     inProgress: number;
     overdue: number;
@@ -129,7 +131,14 @@ export const dashboardService = {
         overdue: number;
         totalCostThisMonth: number;
       }>
-    >('/dashboard/maintenance-overview');
+    >('/dashboard/maintenance-overview', { params: { locationId } });
+    return response.data.data!;
+  },
+
+  async getFuelOverview(locationId?: string): Promise<FuelOverview> {
+    const response = await api.get<ApiResponse<FuelOverview>>('/dashboard/fuel-overview', {
+      params: { locationId },
+    });
     return response.data.data!;
   },
 
@@ -163,13 +172,16 @@ export const dashboardService = {
   },
 
   async getExpiringDocuments(
-    days = 30
+    days = 30,
+    locationId?: string
   ): Promise<
     Array<{
+      documentId: string | null;
       vehicleId: string;
       vehicleName: string;
       registrationNumber: string;
       documentType: string;
+      documentName: string;
       expiryDate: string;
       daysUntilExpiry: number;
     }>
@@ -177,15 +189,17 @@ export const dashboardService = {
     const response = await api.get<
       ApiResponse<
         Array<{
+          documentId: string | null;
           vehicleId: string;
           vehicleName: string;
           registrationNumber: string;
           documentType: string;
+          documentName: string;
           expiryDate: string;
           daysUntilExpiry: number;
         }>
       >
-    >(`/dashboard/expiring-documents?days=${days}`);
+    >('/dashboard/expiring-documents', { params: { days, locationId } });
     return response.data.data!;
   },
 };
@@ -0,0 +1,83 @@
+import api from './api';
+import type {
+  ApiResponse,
+  Department,
+  DepartmentMember,
+  DepartmentSpend,
+  PaginatedResponse,
+  Reservation,
+} from '@/types';
+
+export interface DepartmentInput {
+  name: string;
+  code: string;
+  description?: string;
+}
+
+export const departmentService = {
+  async getDepartments(
+    filters: { search?: string; includeInactive?: boolean } = {}
+  ): Promise<Department[]> {
+    const response = await api.get<ApiResponse<Department[]>>('/departments', {
+      params: filters,
+    });
+    return response.data.data!;
+  },
+
+  async createDepartment(data: DepartmentInput): Promise<Department> {
+    const response = await api.post<ApiResponse<Department>>('/departments', data);
+    return response.data.data!;
+  },
+
+  async updateDepartment(
+    id: string,
+    data: Partial<DepartmentInput> & { managerId?: string | null }
+  ): Promise<Department> {
+    const response = await api.patch<ApiResponse<Department>>(`/departments/${id}`, data);
+    return response.data.data!;
+  },
+
+  async deactivateDepartment(
+    id: string,
+    reassignToId?: string
+  ): Promise<{ reassignedUsers: number }> {
+    const response = await api.delete<ApiResponse<{ reassignedUsers: number }>>(
+      `/departments/${id}`,
+      { data: { reassignToId } }
+    );
+    return response.data.data!;
+  },
+
+  async reactivateDepartment(id: string): Promise<Department> {
+    const response = await api.post<ApiResponse<Department>>(`/departments/${id}/reactivate`);
+    return response.data.data!;
+  },
+
+  async getMembers(id: string): Promise<DepartmentMember[]> {
+    const response = await api.get<ApiResponse<DepartmentMember[]>>(
+      `/departments/${id}/members`
+    );
+    return response.data.data!;
+  },
+
+  async getReservations(
+    id: string,
+    filters: { page?: number; limit?: number; status?: string } = {}
+  ): Promise<PaginatedResponse<Reservation>> {
+    const response = await api.get<PaginatedResponse<Reservation>>(
+      `/departments/${id}/reservations`,
+      { params: filters }
+    );
+    return response.data;
+  },
+
+  async getSpend(
+    id: string,
+    period: { from?: string; to?: string } = {}
+  ): Promise<DepartmentSpend> {
+    const response = await api.get<ApiResponse<DepartmentSpend>>(`/departments/${id}/spend`, {
+      params: period,
+    });
+    return response.data.data!;
+  },
+};
@@ -0,0 +1,71 @@
+import api from './api';
+import type { ApiResponse, VehicleDocument, VehicleDocumentType } from '@/types';
+
+export interface UploadDocumentInput {
+  type: VehicleDocumentType;
+  name?: string;
+  expiryDate?: string;
+  notes?: string;
+}
+
+function toFormData(file: File, fields: Record<string, string | undefined>): FormData {
+  const formData = new FormData();
+  formData.append('file', file);
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value) {
+      formData.append(key, value);
+    }
+  });
+  return formData;
+}
+
+export const documentService = {
+  async getVehicleDocuments(vehicleId: string): Promise<VehicleDocument[]> {
+    const response = await api.get<ApiResponse<VehicleDocument[]>>(
+      `/vehicles/${vehicleId}/documents`
+    );
+    return response.data.data!;
+  },
+
+  async uploadDocument(
+    vehicleId: string,
+    file: File,
+    data: UploadDocumentInput
+  ): Promise<VehicleDocument> {
+    const response = await api.post<ApiResponse<VehicleDocument>>(
+      `/vehicles/${vehicleId}/documents`,
+      toFormData(file, { ...data }),
+      {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      }
+    );
+    return response.data.data!;
+  },
+
+  async addVersion(
+    vehicleId: string,
+    documentId: string,
+    file: File,
+    data: { expiryDate?: string; notes?: string }
+  ): Promise<VehicleDocument> {
+    const response = await api.post<ApiResponse<VehicleDocument>>(
+      `/vehicles/${vehicleId}/documents/${documentId}/versions`,
+      toFormData(file, data),
+      {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      }
+    );
+    return response.data.data!;
+  },
+
+  async getVersions(vehicleId: string, documentId: string): Promise<VehicleDocument[]> {
+    const response = await api.get<ApiResponse<VehicleDocument[]>>(
+      `/vehicles/${vehicleId}/documents/${documentId}/versions`
+    );
+    return response.data.data!;
+  },
+
+  async deleteDocument(vehicleId: string, documentId: string): Promise<void> {
+    await api.delete(`/vehicles/${vehicleId}/documents/${documentId}`);
+  },
+};
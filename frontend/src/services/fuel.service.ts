@@ -0,0 +1,50 @@
+import api from './api';
+import type { ApiResponse, FuelLog, PaginatedResponse } from '@/types';
+
+export interface FuelLogInput {
+  reservationId?: string;
+  vehicleId?: string;
+  date?: string;
+  liters: number;
+  amount?: number;
+  mileage: number;
+  station?: string;
+  isFullTank: boolean;
+}
+
+export interface FuelLogFilters {
+  page?: number;
+  limit?: number;
+  vehicleId?: string;
+  reservationId?: string;
+  anomalies?: boolean;
+}
+
+export const fuelService = {
+  async getFuelLogs(filters: FuelLogFilters = {}): Promise<PaginatedResponse<FuelLog>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+    const response = await api.get<PaginatedResponse<FuelLog>>(`/fuel-logs?${params}`);
+    return response.data;
+  },
+
+  async createFuelLog(data: FuelLogInput, receipt?: File): Promise<FuelLog> {
+    const formData = new FormData();
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        formData.append(key, String(value));
+      }
+    });
+    if (receipt) {
+      formData.append('receipt', receipt);
+    }
+    const response = await api.post<ApiResponse<FuelLog>>('/fuel-logs', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data.data!;
+  },
+};
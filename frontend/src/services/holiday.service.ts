@@ -0,0 +1,63 @@
+import api from './api';
+import type { ApiResponse, Holiday, HolidayCalendar } from '@/types';
+
+export interface HolidayInput {
+  name: string;
+  // YYYY-MM-DD
+  date: string;
+  isRecurring: boolean;
+}
+
+export interface HolidayImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  // Days already closed, left out of the import
+  duplicates: number;
+  // Events of the file without a name or a readable date
+  skipped: number;
+  holidays: Array<{ name: string; date: string; isRecurring: boolean; duplicate: boolean }>;
+}
+
+export const holidayService = {
+  async getHolidays(filters: { year?: number; search?: string } = {}): Promise<Holiday[]> {
+    const response = await api.get<ApiResponse<Holiday[]>>('/holidays', { params: filters });
+    return response.data.data!;
+  },
+
+  // Closed days of the period, recurring holidays expanded per year
+  async getCalendar(period: { from?: string; to?: string } = {}): Promise<HolidayCalendar> {
+    const response = await api.get<ApiResponse<HolidayCalendar>>('/holidays/calendar', {
+      params: period,
+    });
+    return response.data.data!;
+  },
+
+  async createHoliday(data: HolidayInput): Promise<Holiday> {
+    const response = await api.post<ApiResponse<Holiday>>('/holidays', data);
+    return response.data.data!;
+  },
+
+  async updateHoliday(id: string, data: Partial<HolidayInput>): Promise<Holiday> {
+    const response = await api.patch<ApiResponse<Holiday>>(`/holidays/${id}`, data);
+    return response.data.data!;
+  },
+
+  async deleteHoliday(id: string): Promise<void> {
+    await api.delete(`/holidays/${id}`);
+  },
+
+  async importHolidays(file: File, dryRun = false): Promise<HolidayImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await api.post<ApiResponse<HolidayImportResult>>(
+      '/holidays/import',
+      formData,
+      {
+        params: { dryRun: String(dryRun) },
+        headers: { 'Content-Type': 'multipart/form-data' },
+      }
+    );
+    return response.data.data!;
+  },
+};
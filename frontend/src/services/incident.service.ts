@@ -0,0 +1,81 @@
+import api from './api';
+import type {
+  ApiResponse,
+  Incident,
+  IncidentSummary,
+  IncidentType,
+  PaginatedResponse,
+  Priority,
+} from '@/types';
+
+export interface IncidentReportInput {
+  reservationId: string;
+  type: IncidentType;
+  description: string;
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface IncidentFilters {
+  page?: number;
+  limit?: number;
+  // Comma separated, e.g. HIGH,URGENT
+  severity?: string;
+  type?: IncidentType | '';
+  resolved?: boolean;
+  search?: string;
+}
+
+export const incidentService = {
+  async getIncidents(filters: IncidentFilters = {}): Promise<PaginatedResponse<Incident>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+    const response = await api.get<PaginatedResponse<Incident>>(`/incidents?${params}`);
+    return response.data;
+  },
+
+  async getSummary(): Promise<IncidentSummary> {
+    const response = await api.get<ApiResponse<IncidentSummary>>('/incidents/summary');
+    return response.data.data!;
+  },
+
+  async reportIncident(data: IncidentReportInput, photos: File[]): Promise<Incident> {
+    const formData = new FormData();
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        formData.append(key, String(value));
+      }
+    });
+    photos.forEach((photo) => formData.append('photos', photo));
+    const response = await api.post<ApiResponse<Incident>>('/incidents', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data.data!;
+  },
+
+  async updateIncident(
+    id: string,
+    data: { type?: IncidentType; severity?: Priority }
+  ): Promise<Incident> {
+    const response = await api.patch<ApiResponse<Incident>>(`/incidents/${id}`, data);
+    return response.data.data!;
+  },
+
+  async resolveIncident(id: string, resolution: string): Promise<Incident> {
+    const response = await api.post<ApiResponse<Incident>>(`/incidents/${id}/resolve`, {
+      resolution,
+    });
+    return response.data.data!;
+  },
+
+  // Puts the vehicle in maintenance and opens a corrective maintenance
+  async escalateIncident(id: string): Promise<Incident> {
+    const response = await api.post<ApiResponse<Incident>>(`/incidents/${id}/escalate`, {});
+    return response.data.data!;
+  },
+};
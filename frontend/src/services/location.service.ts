@@ -0,0 +1,46 @@
+import api from './api';
+import type { ApiResponse, Location, LocationSummary } from '@/types';
+
+export interface LocationInput {
+  name: string;
+  address?: string;
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+  capacity?: number;
+}
+
+export const locationService = {
+  async getLocations(
+    filters: { search?: string; includeInactive?: boolean } = {}
+  ): Promise<Location[]> {
+    const response = await api.get<ApiResponse<Location[]>>('/locations', {
+      params: filters,
+    });
+    return response.data.data!;
+  },
+
+  async createLocation(data: LocationInput): Promise<Location> {
+    const response = await api.post<ApiResponse<Location>>('/locations', data);
+    return response.data.data!;
+  },
+
+  async updateLocation(
+    id: string,
+    data: Partial<LocationInput> & { isActive?: boolean }
+  ): Promise<Location> {
+    const response = await api.patch<ApiResponse<Location>>(`/locations/${id}`, data);
+    return response.data.data!;
+  },
+
+  async deleteLocation(id: string): Promise<void> {
+    await api.delete(`/locations/${id}`);
+  },
+
+  async getSummaries(period: { from?: string; to?: string } = {}): Promise<LocationSummary[]> {
+    const response = await api.get<ApiResponse<LocationSummary[]>>('/locations/summary', {
+      params: period,
+    });
+    return response.data.data!;
+  },
+};
@@ -0,0 +1,45 @@
+import api from './api';
+import type { ApiResponse, MaintenancePlan, VehicleType } from '@/types';
+
+export interface MaintenancePlanInput {
+  name: string;
+  description?: string;
+  vehicleType?: VehicleType | null;
+  brand?: string | null;
+  model?: string | null;
+  intervalKm?: number | null;
+  intervalMonths?: number | null;
+  isActive?: boolean;
+}
+
+export const maintenancePlanService = {
+  async getMaintenancePlans(
+    filters: { includeInactive?: boolean; vehicleType?: VehicleType } = {}
+  ): Promise<MaintenancePlan[]> {
+    const response = await api.get<ApiResponse<MaintenancePlan[]>>('/maintenance-plans', {
+      params: filters,
+    });
+    return response.data.data!;
+  },
+
+  async createMaintenancePlan(data: MaintenancePlanInput): Promise<MaintenancePlan> {
+    const response = await api.post<ApiResponse<MaintenancePlan>>('/maintenance-plans', data);
+    return response.data.data!;
+  },
+
+  async updateMaintenancePlan(
+    id: string,
+    data: Partial<MaintenancePlanInput>
+  ): Promise<MaintenancePlan> {
+    const response = await api.patch<ApiResponse<MaintenancePlan>>(
+      `/maintenance-plans/${id}`,
+      data
+    );
+    return response.data.data!;
+  },
+
+  // Deactivates the plan, maintenances created from it are kept
+  async deleteMaintenancePlan(id: string): Promise<void> {
+    await api.delete(`/maintenance-plans/${id}`);
+  },
+};
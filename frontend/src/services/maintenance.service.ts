@@ -0,0 +1,93 @@
+import api from './api';
+import type { VehicleCandidate } from './reservation.service';
+import type { ApiResponse, Maintenance, Reservation, VehicleDocument } from '@/types';
+
+export interface MaintenanceConflict {
+  reservation: Pick<
+    Reservation,
+    'id' | 'referenceNumber' | 'status' | 'startDate' | 'endDate' | 'vehicleId'
+  > & {
+    user: Pick<Reservation['user'], 'id' | 'firstName' | 'lastName'>;
+  };
+  // Empty for trips in progress, which cannot be moved
+  candidates: VehicleCandidate[];
+}
+
+export interface ConflictResolution {
+  reservationId: string;
+  action: 'REASSIGN' | 'CANCEL';
+  vehicleId?: string;
+}
+
+// Tax lines apply to the total of the other lines
+export type WorkOrderLineInput =
+  | { type: 'LABOR'; description: string; hours: number; hourlyRate?: number }
+  | { type: 'PART' | 'CONSUMABLE'; description: string; quantity: number; unitPrice: number }
+  | { type: 'TAX'; description: string; rate: number };
+
+export interface CompleteMaintenanceInput {
+  // Their total becomes the actual cost
+  lines: WorkOrderLineInput[];
+  mileageAtService?: number;
+  // Parts fitted, taken from the vehicle's location unless another is given
+  parts?: { partId: string; quantity: number; locationId?: string }[];
+  invoiceNumber?: string;
+  notes?: string;
+}
+
+export const maintenanceService = {
+  // Reservations a maintenance scheduled on this window would displace
+  async getConflicts(params: {
+    vehicleId: string;
+    scheduledDate: string;
+    estimatedEndDate?: string;
+  }): Promise<MaintenanceConflict[]> {
+    const response = await api.get<ApiResponse<MaintenanceConflict[]>>(
+      '/maintenances/conflicts',
+      { params }
+    );
+    return response.data.data!;
+  },
+
+  // Reservations starting the maintenance now would displace
+  async getStartConflicts(id: string): Promise<MaintenanceConflict[]> {
+    const response = await api.get<ApiResponse<MaintenanceConflict[]>>(
+      `/maintenances/${id}/conflicts`
+    );
+    return response.data.data!;
+  },
+
+  async startMaintenance(
+    id: string,
+    data: { conflictResolutions?: ConflictResolution[] } = {}
+  ): Promise<Maintenance> {
+    const response = await api.post<ApiResponse<Maintenance>>(
+      `/maintenances/${id}/start`,
+      data
+    );
+    return response.data.data!;
+  },
+
+  async completeMaintenance(id: string, data: CompleteMaintenanceInput): Promise<Maintenance> {
+    const response = await api.post<ApiResponse<Maintenance>>(
+      `/maintenances/${id}/complete`,
+      data
+    );
+    return response.data.data!;
+  },
+
+  // Uploading again keeps the previous file as an older version
+  async uploadInvoice(id: string, invoice: File, invoiceNumber?: string): Promise<VehicleDocument> {
+    const formData = new FormData();
+    formData.append('invoice', invoice);
+    if (invoiceNumber) {
+      formData.append('invoiceNumber', invoiceNumber);
+    }
+    const response = await api.post<ApiResponse<VehicleDocument>>(
+      `/maintenances/${id}/invoice`,
+      formData,
+      { headers: { 'Content-Type': 'multipart/form-data' } }
+    );
+    return response.data.data!;
+  },
+};
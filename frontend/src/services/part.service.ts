@@ -0,0 +1,63 @@
+import api from './api';
+import type { ApiResponse, Location, Part, PartUsage } from '@/types';
+
+export interface PartInput {
+  sku: string;
+  name: string;
+  description?: string;
+  compatibleModels?: string[];
+  unitCost: number;
+  reorderLevel?: number;
+}
+
+export interface LowStockEntry {
+  part: Pick<Part, 'id' | 'sku' | 'name' | 'reorderLevel'>;
+  location: Pick<Location, 'id' | 'name'>;
+  quantity: number;
+}
+
+export const partService = {
+  async getParts(
+    filters: { search?: string; includeInactive?: boolean; vehicleId?: string } = {}
+  ): Promise<Part[]> {
+    const response = await api.get<ApiResponse<Part[]>>('/parts', { params: filters });
+    return response.data.data!;
+  },
+
+  async getLowStock(): Promise<LowStockEntry[]> {
+    const response = await api.get<ApiResponse<LowStockEntry[]>>('/parts/low-stock');
+    return response.data.data!;
+  },
+
+  async createPart(data: PartInput): Promise<Part> {
+    const response = await api.post<ApiResponse<Part>>('/parts', data);
+    return response.data.data!;
+  },
+
+  async updatePart(
+    id: string,
+    data: Partial<PartInput> & { isActive?: boolean }
+  ): Promise<Part> {
+    const response = await api.patch<ApiResponse<Part>>(`/parts/${id}`, data);
+    return response.data.data!;
+  },
+
+  // Deactivates the part, its history on vehicles is kept
+  async deletePart(id: string): Promise<void> {
+    await api.delete(`/parts/${id}`);
+  },
+
+  // Positive for parts received, negative to correct a count
+  async adjustStock(
+    id: string,
+    data: { locationId: string; quantity: number; reason?: string }
+  ): Promise<Part> {
+    const response = await api.post<ApiResponse<Part>>(`/parts/${id}/stock`, data);
+    return response.data.data!;
+  },
+
+  async getVehicleParts(vehicleId: string): Promise<PartUsage[]> {
+    const response = await api.get<ApiResponse<PartUsage[]>>(`/vehicles/${vehicleId}/parts`);
+    return response.data.data!;
+  },
+};
@@ -1,5 +1,12 @@
 import api from './api';
-import type { ApiResponse, PaginatedResponse, Reservation } from '@/types';
+import type {
+  ApiResponse,
+  FuelType,
+  PaginatedResponse,
+  Reservation,
+  Vehicle,
+  VehicleType,
+} from '@/types';
 
 export interface ReservationFilters {
   page?: number;
@@ -15,7 +22,11 @@ export interface ReservationFilters {
 }
 
 export interface CreateReservationInput {
-  vehicleId: string;
+  vehicleId?: string;
+  vehicleType?: VehicleType;
+  minSeats?: number;
+  fuelType?: FuelType;
+  pickupLocationId?: string;
   startDate: string;
   endDate: string;
   purpose: string;
@@ -29,6 +40,30 @@ export interface CreateReservationInput {
   recurringPattern?: string;
 }
 
+export type ReservationScope = 'occurrence' | 'series';
+
+export interface PolicyViolation {
+  rule:
+    | 'minNotice'
+    | 'maxDuration'
+    | 'maxAdvance'
+    | 'bookingHours'
+    | 'holiday'
+    | 'weekend';
+  message: string;
+}
+
+export interface PolicyValidation {
+  valid: boolean;
+  violations: PolicyViolation[];
+}
+
+export interface VehicleCandidate {
+  vehicle: Vehicle;
+  atPickupLocation: boolean;
+  serviceDue: boolean;
+}
+
 export const reservationService = {
   async getReservations(
     filters: ReservationFilters = {}
@@ -64,9 +99,22 @@ export const reservationService = {
     return response.data.data!;
   },
 
+  async validateReservation(data: {
+    startDate: string;
+    endDate: string;
+    isRecurring?: boolean;
+    recurringPattern?: string;
+  }): Promise<PolicyValidation> {
+    const response = await api.post<ApiResponse<PolicyValidation>>(
+      '/reservations/validate',
+      data
+    );
+    return response.data.data!;
+  },
+
   async updateReservation(
     id: string,
-    data: Partial<CreateReservationInput>
+    data: Partial<CreateReservationInput> & { scope?: ReservationScope }
   ): Promise<Reservation> {
     const response = await api.patch<ApiResponse<Reservation>>(
       `/reservations/${id}`,
@@ -94,13 +142,79 @@ export const reservationService = {
     return response.data.data!;
   },
 
+  async getVehicleCandidates(id: string): Promise<VehicleCandidate[]> {
+    const response = await api.get<ApiResponse<VehicleCandidate[]>>(
+      `/reservations/${id}/vehicle-candidates`
+    );
+    return response.data.data!;
+  },
+
+  async reassignVehicle(
+    id: string,
+    vehicleId: string,
+    comment?: string
+  ): Promise<Reservation> {
+    const response = await api.patch<ApiResponse<Reservation>>(
+      `/reservations/${id}/vehicle`,
+      { vehicleId, comment }
+    );
+    return response.data.data!;
+  },
+
+  async swapVehicle(
+    id: string,
+    data: { mileage: number; reason: string; vehicleId?: string }
+  ): Promise<Reservation> {
+    const response = await api.post<ApiResponse<Reservation>>(
+      `/reservations/${id}/swap-vehicle`,
+      data
+    );
+    return response.data.data!;
+  },
+
+  async requestExtension(
+    id: string,
+    endDate: string,
+    reason: string
+  ): Promise<Reservation> {
+    const response = await api.post<ApiResponse<Reservation>>(
+      `/reservations/${id}/extend`,
+      { endDate, reason }
+    );
+    return response.data.data!;
+  },
+
+  async approveExtension(id: string, comment?: string): Promise<Reservation> {
+    const response = await api.post<ApiResponse<Reservation>>(
+      `/reservations/${id}/extension/approve`,
+      { comment }
+    );
+    return response.data.data!;
+  },
+
+  async rejectExtension(id: string, reason: string): Promise<Reservation> {
+    const response = await api.post<ApiResponse<Reservation>>(
+      `/reservations/${id}/extension/reject`,
+      { reason }
+    );
+    return response.data.data!;
+  },
+
   async cancelReservation(
     id: string,
-    reason = 'Reservation annulee'
+    reason = 'Reservation annulee',
+    scope?: ReservationScope
   ): Promise<Reservation> {
     const response = await api.post<ApiResponse<Reservation>>(
       `/reservations/${id}/cancel`,
-      { reason }
+      { reason, scope }
+    );
+    return response.data.data!;
+  },
+
+  async getSeriesReservations(id: string): Promise<Reservation[]> {
+    const response = await api.get<ApiResponse<Reservation[]>>(
+      `/reservations/${id}/series`
     );
     return response.data.data!;
   },
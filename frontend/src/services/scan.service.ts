@@ -0,0 +1,44 @@
+import api from './api';
+import type { ApiResponse, Reservation, Vehicle } from '@/types';
+
+export type ScanAction = 'CHECK_IN' | 'CHECK_OUT';
+
+export interface ScanResult {
+  vehicle: Pick<
+    Vehicle,
+    'id' | 'brand' | 'model' | 'registrationNumber' | 'type' | 'status' | 'currentMileage'
+  >;
+  reservation: Reservation | null;
+  action: ScanAction | null;
+}
+
+export const scanService = {
+  async resolveScan(qrCode: string): Promise<ScanResult> {
+    const response = await api.get<ApiResponse<ScanResult>>(
+      `/scan/${encodeURIComponent(qrCode)}`
+    );
+    return response.data.data!;
+  },
+
+  async checkIn(
+    qrCode: string,
+    data: { mileage: number; notes?: string }
+  ): Promise<Reservation> {
+    const response = await api.post<ApiResponse<Reservation>>(
+      `/scan/${encodeURIComponent(qrCode)}/check-in`,
+      data
+    );
+    return response.data.data!;
+  },
+
+  async checkOut(
+    qrCode: string,
+    data: { mileage: number; notes?: string; rating?: number; feedback?: string }
+  ): Promise<Reservation> {
+    const response = await api.post<ApiResponse<Reservation>>(
+      `/scan/${encodeURIComponent(qrCode)}/check-out`,
+      data
+    );
+    return response.data.data!;
+  },
+};
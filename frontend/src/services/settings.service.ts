@@ -0,0 +1,22 @@
+import api from './api';
+import type { ApiResponse, SettingEntry } from '@/types';
+
+export const settingsService = {
+  async getSettings(): Promise<SettingEntry[]> {
+    const response = await api.get<ApiResponse<SettingEntry[]>>('/settings');
+    return response.data.data!;
+  },
+
+  // Object values may be partial, they are merged over the current value
+  async updateSettings(values: Record<string, unknown>): Promise<SettingEntry[]> {
+    const response = await api.put<ApiResponse<SettingEntry[]>>('/settings', values);
+    return response.data.data!;
+  },
+
+  async resetSetting(key: string): Promise<SettingEntry[]> {
+    const response = await api.delete<ApiResponse<SettingEntry[]>>(
+      `/settings/${encodeURIComponent(key)}`
+    );
+    return response.data.data!;
+  },
+};
@@ -1,5 +1,12 @@
 import api from './api';
-import type { ApiResponse, PaginatedResponse, Vehicle } from '@/types';
+import type {
+  ApiResponse,
+  NextServiceDue,
+  OdometerReading,
+  PaginatedResponse,
+  Vehicle,
+  VehicleFuelSummary,
+} from '@/types';
 
 export interface VehicleFilters {
   page?: number;
@@ -13,8 +20,25 @@ export interface VehicleFilters {
   sortOrder?: 'asc' | 'desc';
 }
 
+export interface VehicleImportRow {
+  row: number;
+  registrationNumber: string | null;
+  action: 'CREATE' | 'UPDATE';
+  errors: Record<string, string[]>;
+}
+
+export interface VehicleImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  invalid: number;
+  rows: VehicleImportRow[];
+}
+
 export interface CreateVehicleInput {
   registrationNumber: string;
+  vin?: string;
   brand: string;
   model: string;
   year: number;
@@ -29,6 +53,7 @@ export interface CreateVehicleInput {
   horsePower?: number;
   currentMileage?: number;
   fuelConsumption?: number;
+  tankCapacity?: number;
   insuranceExpiry?: string;
   technicalInspectionExpiry?: string;
   locationId?: string;
@@ -85,11 +110,12 @@ export const vehicleService = {
   async updateVehicleStatus(
     id: string,
     status: string,
-    reason?: string
+    reason?: string,
+    until?: string
   ): Promise<Vehicle> {
     const response = await api.patch<ApiResponse<Vehicle>>(
       `/vehicles/${id}/status`,
-      { status, reason }
+      { status, reason, until }
     );
     return response.data.data!;
   },
@@ -102,6 +128,43 @@ export const vehicleService = {
     return response.data.data!;
   },
 
+  async getOdometerReadings(
+    id: string,
+    filters: { page?: number; limit?: number; flagged?: boolean } = {}
+  ): Promise<PaginatedResponse<OdometerReading>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) {
+        params.append(key, String(value));
+      }
+    });
+    const response = await api.get<PaginatedResponse<OdometerReading>>(
+      `/vehicles/${id}/odometer?${params}`
+    );
+    return response.data;
+  },
+
+  // Admin only, the value first recorded is kept on the reading
+  async correctOdometerReading(
+    id: string,
+    readingId: string,
+    data: { mileage: number; reason: string }
+  ): Promise<OdometerReading> {
+    const response = await api.patch<ApiResponse<OdometerReading>>(
+      `/vehicles/${id}/odometer/${readingId}`,
+      data
+    );
+    return response.data.data!;
+  },
+
+  // Next service due under each maintenance plan of the vehicle, most urgent first
+  async getNextServices(id: string): Promise<NextServiceDue[]> {
+    const response = await api.get<ApiResponse<NextServiceDue[]>>(
+      `/vehicles/${id}/next-services`
+    );
+    return response.data.data!;
+  },
+
   async getAvailableVehicles(
     startDate: string,
     endDate: string,
@@ -121,6 +184,7 @@ export const vehicleService = {
     totalMileage: number;
     maintenanceCount: number;
     averageRating: number | null;
+    fuel: VehicleFuelSummary;
   }> {
     const response = await api.get<
       ApiResponse<{
@@ -129,11 +193,64 @@ export const vehicleService = {
         totalMileage: number;
         maintenanceCount: number;
         averageRating: number | null;
+        fuel: VehicleFuelSummary;
       }>
     >(`/vehicles/${id}/statistics`);
     return response.data.data!;
   },
 
+  async getVehicleQrCode(id: string, format: 'png' | 'svg' = 'png'): Promise<Blob> {
+    const response = await api.get<Blob>(`/vehicles/${id}/qr`, {
+      params: { format },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  async getQrStickerSheet(): Promise<string> {
+    const response = await api.get<string>('/vehicles/qr-sheet', {
+      responseType: 'text',
+    });
+    return response.data;
+  },
+
+  async exportVehicles(
+    filters: Omit<VehicleFilters, 'page' | 'limit'>,
+    format: 'csv' | 'xlsx'
+  ): Promise<Blob> {
+    const params: Record<string, string> = { format };
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params[key] = String(value);
+      }
+    });
+    const response = await api.get<Blob>('/vehicles/export', {
+      params,
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  async importVehicles(
+    file: File,
+    options: { dryRun: boolean; updateExisting: boolean }
+  ): Promise<VehicleImportResult> {
+    const formData = new FormData();
+    formData.append('file', file);
+    const response = await api.post<ApiResponse<VehicleImportResult>>(
+      '/vehicles/import',
+      formData,
+      {
+        params: {
+          dryRun: String(options.dryRun),
+          updateExisting: String(options.updateExisting),
+        },
+        headers: { 'Content-Type': 'multipart/form-data' },
+      }
+    );
+    return response.data.data!;
+  },
+
   async toggleFavorite(id: string): Promise<{ isFavorite: boolean }> {
     const response = await api.post<ApiResponse<{ isFavorite: boolean }>>(
       `/vehicles/${id}/favorite`
@@ -0,0 +1,62 @@
+import api from './api';
+import type { ApiResponse, Vendor, VendorReport } from '@/types';
+
+export interface VendorInput {
+  name: string;
+  specialties?: string[];
+  phone?: string;
+  email?: string;
+  address?: string;
+  laborRate?: number | null;
+  contractRef?: string | null;
+  contractEndDate?: string | null;
+  notes?: string;
+  contacts?: {
+    name: string;
+    role?: string;
+    phone?: string;
+    email?: string;
+    isPrimary?: boolean;
+  }[];
+  locationIds?: string[];
+}
+
+export const vendorService = {
+  async getVendors(
+    filters: {
+      search?: string;
+      specialty?: string;
+      locationId?: string;
+      includeInactive?: boolean;
+    } = {}
+  ): Promise<Vendor[]> {
+    const response = await api.get<ApiResponse<Vendor[]>>('/vendors', { params: filters });
+    return response.data.data!;
+  },
+
+  async createVendor(data: VendorInput): Promise<Vendor> {
+    const response = await api.post<ApiResponse<Vendor>>('/vendors', data);
+    return response.data.data!;
+  },
+
+  // Given contacts and locations replace the current ones
+  async updateVendor(
+    id: string,
+    data: Partial<VendorInput> & { isActive?: boolean }
+  ): Promise<Vendor> {
+    const response = await api.patch<ApiResponse<Vendor>>(`/vendors/${id}`, data);
+    return response.data.data!;
+  },
+
+  // Deactivates the vendor, its maintenances keep the link
+  async deleteVendor(id: string): Promise<void> {
+    await api.delete(`/vendors/${id}`);
+  },
+
+  async getReports(period: { from?: string; to?: string } = {}): Promise<VendorReport[]> {
+    const response = await api.get<ApiResponse<VendorReport[]>>('/vendors/report', {
+      params: period,
+    });
+    return response.data.data!;
+  },
+};
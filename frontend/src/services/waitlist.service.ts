@@ -0,0 +1,48 @@
+import api from './api';
+import type {
+  ApiResponse,
+  VehicleType,
+  WaitlistEntry,
+  WaitlistStatus,
+} from '@/types';
+
+export interface JoinWaitlistInput {
+  vehicleId?: string;
+  vehicleType?: VehicleType;
+  startDate: string;
+  endDate: string;
+  purpose: string;
+  destination: string;
+  passengerCount?: number;
+}
+
+export const waitlistService = {
+  async getMyWaitlist(status?: WaitlistStatus): Promise<WaitlistEntry[]> {
+    const response = await api.get<ApiResponse<WaitlistEntry[]>>(
+      status ? `/waitlist?status=${status}` : '/waitlist'
+    );
+    return response.data.data!;
+  },
+
+  async joinWaitlist(data: JoinWaitlistInput): Promise<WaitlistEntry> {
+    const response = await api.post<ApiResponse<WaitlistEntry>>(
+      '/waitlist',
+      data
+    );
+    return response.data.data!;
+  },
+
+  async confirmOffer(id: string): Promise<WaitlistEntry> {
+    const response = await api.post<ApiResponse<WaitlistEntry>>(
+      `/waitlist/${id}/confirm`
+    );
+    return response.data.data!;
+  },
+
+  async leaveWaitlist(id: string): Promise<WaitlistEntry> {
+    const response = await api.delete<ApiResponse<WaitlistEntry>>(
+      `/waitlist/${id}`
+    );
+    return response.data.data!;
+  },
+};
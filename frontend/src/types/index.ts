@@ -27,7 +27,11 @@ export type ReservationStatus =
   | 'REJECTED'
   | 'IN_PROGRESS'
   | 'COMPLETED'
-  | 'CANCELLED';
+  | 'CANCELLED'
+  | 'NO_SHOW'
+  | 'EXPIRED';
+
+export type ApprovalStep = 'DEPARTMENT_MANAGER' | 'FLEET_ADMIN';
 
 export type MaintenanceType =
   | 'ROUTINE_SERVICE'
@@ -56,8 +60,13 @@ export type NotificationType =
   | 'MAINTENANCE_DUE'
   | 'VEHICLE_AVAILABLE'
   | 'DOCUMENT_EXPIRING'
+  | 'INCIDENT_REPORTED'
   | 'SYSTEM';
 
+export type Priority = 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT';
+
+export type IncidentType = 'ACCIDENT' | 'BREAKDOWN' | 'DAMAGE' | 'THEFT' | 'OTHER';
+
 export interface User {
   id: string;
   email: string;
@@ -73,6 +82,7 @@ export interface User {
   departmentId?: string;
   driverLicenseNumber?: string;
   driverLicenseExpiry?: string;
+  noShowCount?: number;
   lastLoginAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -82,19 +92,95 @@ export interface Department {
   id: string;
   name: string;
   code: string;
-  description?: string;
+  description?: string | null;
+  managerId?: string | null;
+  manager?: DepartmentMember | null;
   isActive: boolean;
+  _count?: {
+    users: number;
+  };
+}
+
+export type DepartmentMember = Pick<
+  User,
+  'id' | 'email' | 'firstName' | 'lastName' | 'role' | 'isActive'
+>;
+
+export interface DepartmentSpend {
+  departmentId: string;
+  from: string;
+  to: string;
+  reservationCount: number;
+  completedCount: number;
+  spent: number;
+  committed: number;
+  distance: number;
+  byMonth: Array<{ month: string; spent: number; reservations: number }>;
+  byUser: Array<{ userId: string; name: string; spent: number; reservations: number }>;
+}
+
+// System setting as returned by the API, value falls back to defaultValue until set
+export interface SettingEntry {
+  key: string;
+  value: unknown;
+  defaultValue: unknown;
+  description: string;
+  isDefault: boolean;
+  updatedAt: string | null;
+}
+
+export interface Holiday {
+  id: string;
+  name: string;
+  date: string;
+  // Falls on the same day every year
+  isRecurring: boolean;
+}
+
+export interface HolidayOccurrence {
+  holidayId: string;
+  name: string;
+  // Calendar day, YYYY-MM-DD
+  date: string;
+  isRecurring: boolean;
+}
+
+export interface HolidayCalendar {
+  from: string;
+  to: string;
+  blocksReservations: boolean;
+  weekendsClosed: boolean;
+  holidays: HolidayOccurrence[];
 }
 
 export interface Location {
   id: string;
   name: string;
-  address: string;
-  city: string;
-  latitude?: number;
-  longitude?: number;
-  capacity: number;
+  address?: string | null;
+  city?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  capacity?: number | null;
+  isActive: boolean;
+  _count?: {
+    vehicles: number;
+  };
+}
+
+export interface LocationSummary {
+  locationId: string;
+  name: string;
+  city: string | null;
   isActive: boolean;
+  capacity: number | null;
+  vehicleCount: number;
+  vehiclesByStatus: Record<VehicleStatus, number>;
+  occupancyRate: number | null;
+  reservationCount: number;
+  reservedHours: number;
+  utilizationRate: number;
+  from: string;
+  to: string;
 }
 
 export interface VehiclePhoto {
@@ -122,8 +208,11 @@ export interface Vehicle {
   vin?: string;
   currentMileage: number;
   fuelConsumption?: number;
+  // Litres
+  tankCapacity?: number;
   insuranceExpiry?: string;
   technicalInspectionExpiry?: string;
+  outOfServiceUntil?: string;
   location?: Location;
   locationId?: string;
   photos: VehiclePhoto[];
@@ -142,6 +231,31 @@ export interface Vehicle {
   };
 }
 
+export type VehicleDocumentType =
+  | 'REGISTRATION'
+  | 'INSURANCE'
+  | 'TECHNICAL_INSPECTION'
+  | 'PURCHASE_INVOICE'
+  | 'MAINTENANCE_INVOICE'
+  | 'OTHER';
+
+export interface VehicleDocument {
+  id: string;
+  vehicleId: string;
+  type: VehicleDocumentType;
+  name: string;
+  url: string;
+  mimeType?: string;
+  fileSize?: number;
+  expiryDate?: string;
+  notes?: string;
+  version: number;
+  previousVersionId?: string;
+  uploadedBy?: Pick<User, 'id' | 'firstName' | 'lastName'>;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Reservation {
   id: string;
   referenceNumber: string;
@@ -167,6 +281,20 @@ export interface Reservation {
   approvedAt?: string;
   rejectionReason?: string;
   needsDriver: boolean;
+  isRecurring?: boolean;
+  recurringPattern?: string;
+  seriesId?: string;
+  approvalChain?: ApprovalStep[];
+  approvalStep?: ApprovalStep | null;
+  isAutoAssigned?: boolean;
+  requestedVehicleType?: VehicleType | null;
+  requestedMinSeats?: number | null;
+  requestedFuelType?: FuelType | null;
+  pickupLocationId?: string | null;
+  pickupLocation?: Location | null;
+  requestedEndDate?: string | null;
+  extensionReason?: string | null;
+  segments?: ReservationSegment[];
   driver?: Pick<User, 'id' | 'firstName' | 'lastName' | 'phone'>;
   driverId?: string;
   checkInMileage?: number;
@@ -183,6 +311,46 @@ export interface Reservation {
   updatedAt: string;
 }
 
+// Leg of a trip driven with one vehicle, recorded once the vehicle was swapped
+export interface ReservationSegment {
+  id: string;
+  vehicleId: string;
+  vehicle: Pick<Vehicle, 'id' | 'brand' | 'model' | 'registrationNumber'>;
+  startDate: string;
+  endDate?: string | null;
+  startMileage: number;
+  endMileage?: number | null;
+  distance?: number | null;
+  cost?: number | null;
+  endReason?: string | null;
+}
+
+export type WaitlistStatus =
+  | 'WAITING'
+  | 'OFFERED'
+  | 'CONFIRMED'
+  | 'EXPIRED'
+  | 'CANCELLED';
+
+export interface WaitlistEntry {
+  id: string;
+  userId: string;
+  vehicleId?: string | null;
+  vehicle?: Pick<Vehicle, 'id' | 'brand' | 'model' | 'registrationNumber' | 'type'> | null;
+  vehicleType?: VehicleType | null;
+  startDate: string;
+  endDate: string;
+  purpose: string;
+  destination: string;
+  passengerCount?: number | null;
+  status: WaitlistStatus;
+  offeredVehicle?: Pick<Vehicle, 'id' | 'brand' | 'model' | 'registrationNumber' | 'type'> | null;
+  offeredAt?: string | null;
+  offerExpiresAt?: string | null;
+  reservation?: Pick<Reservation, 'id' | 'referenceNumber' | 'status'> | null;
+  createdAt: string;
+}
+
 export interface Maintenance {
   id: string;
   vehicle: Pick<Vehicle, 'id' | 'brand' | 'model' | 'registrationNumber'>;
@@ -192,19 +360,260 @@ export interface Maintenance {
   description: string;
   scheduledDate: string;
   startDate?: string;
+  estimatedEndDate?: string;
   completedDate?: string;
   estimatedCost?: number;
+  // Total of the work order, set on completion
   actualCost?: number;
   mileageAtService?: number;
-  partsReplaced: string[];
-  providerName?: string;
-  providerContact?: string;
+  // Parts taken out of stock when the maintenance was completed
+  parts?: PartUsage[];
+  lines?: MaintenanceLine[];
+  documents?: VehicleDocument[];
+  // Garage the work is done by
+  vendorId?: string | null;
+  vendor?: Pick<Vendor, 'id' | 'name' | 'laborRate'> | null;
   invoiceNumber?: string;
   notes?: string;
+  // Preventive plan the maintenance was scheduled from
+  planId?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export type MaintenanceLineType = 'LABOR' | 'PART' | 'CONSUMABLE' | 'TAX';
+
+// Line of the work order of a maintenance
+export interface MaintenanceLine {
+  id: string;
+  type: MaintenanceLineType;
+  description: string;
+  // Hours for labour, units for parts and consumables
+  quantity: number;
+  unitPrice: number;
+  taxRate?: number | null;
+  amount: number;
+}
+
+export interface VendorContact {
+  id: string;
+  name: string;
+  role?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  isPrimary: boolean;
+}
+
+export interface Vendor {
+  id: string;
+  name: string;
+  specialties: string[];
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  // Hourly labour rate agreed in the contract
+  laborRate?: number | null;
+  contractRef?: string | null;
+  contractEndDate?: string | null;
+  notes?: string | null;
+  isActive: boolean;
+  contacts: VendorContact[];
+  // Sites the vendor serves
+  locations: Pick<Location, 'id' | 'name'>[];
+  _count?: { maintenances: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VendorReport {
+  vendorId: string;
+  name: string;
+  isActive: boolean;
+  maintenanceCount: number;
+  totalSpend: number;
+  averageTurnaroundHours: number | null;
+  // Over the maintenances with both an estimated and an actual cost
+  estimatedCost: number;
+  actualCost: number;
+  costVariance: number;
+  costVariancePercent: number | null;
+  reworkCount: number;
+  reworkRate: number;
+  from: string;
+  to: string;
+}
+
+export interface PartStock {
+  id: string;
+  partId: string;
+  locationId: string;
+  quantity: number;
+  location: Pick<Location, 'id' | 'name'>;
+  updatedAt: string;
+}
+
+export interface Part {
+  id: string;
+  sku: string;
+  name: string;
+  description?: string | null;
+  // "Brand" or "Brand Model" entries; none means every vehicle
+  compatibleModels: string[];
+  unitCost: number;
+  // Stock at or below which admins are alerted
+  reorderLevel: number;
+  isActive: boolean;
+  stocks: PartStock[];
+  _count?: { usages: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PartUsage {
+  id: string;
+  maintenanceId: string;
+  partId: string;
+  vehicleId: string;
+  locationId: string;
+  quantity: number;
+  // Unit cost of the part when it was fitted
+  unitCost: number;
+  part: Pick<Part, 'id' | 'sku' | 'name'>;
+  location?: Pick<Location, 'id' | 'name'>;
+  maintenance?: Pick<Maintenance, 'id' | 'type' | 'description' | 'completedDate'>;
+  createdAt: string;
+}
+
+export interface MaintenancePlan {
+  id: string;
+  name: string;
+  description?: string | null;
+  // Vehicles matching every criterion set; none set means the whole fleet
+  vehicleType?: VehicleType | null;
+  brand?: string | null;
+  model?: string | null;
+  intervalKm?: number | null;
+  intervalMonths?: number | null;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ServiceDueStatus = 'OK' | 'DUE_SOON' | 'OVERDUE';
+
+export interface NextServiceDue {
+  plan: Pick<MaintenancePlan, 'id' | 'name' | 'intervalKm' | 'intervalMonths'>;
+  lastServiceDate: string;
+  lastServiceMileage: number | null;
+  dueMileage: number | null;
+  dueDate: string | null;
+  remainingKm: number | null;
+  remainingDays: number | null;
+  status: ServiceDueStatus;
+  // Maintenance already scheduled or in progress for this service
+  openMaintenance: Pick<Maintenance, 'id' | 'status' | 'scheduledDate'> | null;
+}
+
+export interface Incident {
+  id: string;
+  vehicleId: string;
+  vehicle: Pick<Vehicle, 'id' | 'brand' | 'model' | 'registrationNumber' | 'status'>;
+  reportedBy: string;
+  reporter: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'>;
+  reservationId?: string | null;
+  reservation?: Pick<Reservation, 'id' | 'referenceNumber'> | null;
+  type: IncidentType;
+  date: string;
+  description: string;
+  location?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  photos: string[];
+  severity: Priority;
+  resolved: boolean;
+  resolution?: string | null;
+  resolvedAt?: string | null;
+  // Corrective maintenance opened when the incident was escalated
+  maintenanceId?: string | null;
+  maintenance?: Pick<Maintenance, 'id' | 'type' | 'status'> | null;
+  createdAt: string;
+}
+
+export interface IncidentSummary {
+  open: Record<Priority, number>;
+  resolvedLast30Days: number;
+  averageResolutionHours: number | null;
+}
+
+export type OdometerSource = 'MANUAL' | 'CHECK_IN' | 'CHECK_OUT' | 'VEHICLE_SWAP' | 'MAINTENANCE';
+
+export interface OdometerReading {
+  id: string;
+  vehicleId: string;
+  mileage: number;
+  previousMileage: number;
+  source: OdometerSource;
+  recordedById: string;
+  recordedBy: Pick<User, 'id' | 'firstName' | 'lastName'>;
+  reservationId?: string | null;
+  reservation?: Pick<Reservation, 'id' | 'referenceNumber'> | null;
+  maintenanceId?: string | null;
+  recordedAt: string;
+  // Implausible jump for the time elapsed since the previous reading
+  isFlagged: boolean;
+  originalMileage?: number | null;
+  correctedBy?: Pick<User, 'id' | 'firstName' | 'lastName'> | null;
+  correctedAt?: string | null;
+  correctionReason?: string | null;
+}
+
+export type FuelAnomaly = 'HIGH_CONSUMPTION' | 'LOW_CONSUMPTION' | 'OVER_CAPACITY';
+
+export interface FuelLog {
+  id: string;
+  vehicleId: string;
+  vehicle: Pick<Vehicle, 'id' | 'brand' | 'model' | 'registrationNumber'>;
+  reservationId?: string | null;
+  reservation?: Pick<Reservation, 'id' | 'referenceNumber'> | null;
+  userId: string;
+  user: Pick<User, 'id' | 'firstName' | 'lastName'>;
+  date: string;
+  liters: number;
+  amount?: number | null;
+  mileage: number;
+  station?: string | null;
+  receiptUrl?: string | null;
+  isFullTank: boolean;
+  // Measured since the previous full tank, null for partial or first refuels
+  distance?: number | null;
+  consumption?: number | null;
+  anomalies: FuelAnomaly[];
+  createdAt: string;
+}
+
+export interface VehicleFuelSummary {
+  refuelCount: number;
+  totalLiters: number;
+  totalCost: number;
+  averageConsumption: number | null;
+  ratedConsumption: number | null;
+  deviationPercent: number | null;
+  anomalyCount: number;
+}
+
+export interface FuelOverview {
+  litersThisMonth: number;
+  costThisMonth: number;
+  averageConsumption: number | null;
+  anomaliesLast30Days: number;
+  flaggedVehicles: {
+    vehicleId: string;
+    vehicleName: string;
+    registrationNumber: string;
+    anomalyCount: number;
+  }[];
+}
+
 export interface Notification {
   id: string;
   type: NotificationType;